@@ -29,6 +29,8 @@ import Projects from "./pages/Projects";
 import ProjectDetail from "./pages/ProjectDetail";
 import Tasks from "./pages/Tasks";
 import Schedule from "./pages/Schedule";
+import Timesheets from "./pages/Timesheets";
+import Approvals from "./pages/Approvals";
 import CRM from "./pages/CRM";
 import ContactDetail from "./pages/ContactDetail";
 import Resources from "./pages/Resources";
@@ -79,6 +81,8 @@ const App = () => (
                         <Route path="/projects/:projectId" element={<ProtectedRoute><ProjectDetail /></ProtectedRoute>} />
                         <Route path="/tasks" element={<ProtectedRoute><Tasks /></ProtectedRoute>} />
                         <Route path="/schedule" element={<ProtectedRoute><Schedule /></ProtectedRoute>} />
+                        <Route path="/timesheets" element={<ProtectedRoute><Timesheets /></ProtectedRoute>} />
+                        <Route path="/approvals" element={<ProtectedRoute><Approvals /></ProtectedRoute>} />
                         <Route path="/crm" element={<ProtectedRoute><CRM /></ProtectedRoute>} />
                         <Route path="/crm/:id" element={<ProtectedRoute><ContactDetail /></ProtectedRoute>} />
                         <Route path="/resources" element={<ProtectedRoute><Resources /></ProtectedRoute>} />
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrgMemberName, useOrgMembers } from '@/hooks/useOrgMembers';
+import {
+  useApprovalDelegations,
+  useCreateApprovalDelegation,
+  useDeleteApprovalDelegation,
+} from '@/hooks/useApprovalInbox';
+
+const formatDay = (date: string) => format(parseISO(date), 'EEE, MMM d, yyyy');
+
+/**
+ * Out-of-office delegation: while a delegation is active, the delegate sees the user's pending approvals in their
+ * inbox and can decide on them; votes are recorded as cast on the user's behalf.
+ */
+export function ApprovalDelegations() {
+  const { user } = useAuth();
+  const { data: members = [] } = useOrgMembers();
+  const { data: delegations = [] } = useApprovalDelegations();
+  const createDelegation = useCreateApprovalDelegation();
+  const deleteDelegation = useDeleteApprovalDelegation();
+  const memberName = useOrgMemberName();
+
+  const [delegateId, setDelegateId] = useState('');
+  const [startsOn, setStartsOn] = useState('');
+  const [endsOn, setEndsOn] = useState('');
+  const [reason, setReason] = useState('');
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const current = delegations.filter((d) => d.endsOn >= today);
+  const given = current.filter((d) => d.delegatorId === user?.id);
+  const received = current.filter((d) => d.delegateId === user?.id);
+  const valid = !!delegateId && !!startsOn && !!endsOn && endsOn >= startsOn;
+
+  const handleAdd = () => {
+    if (!valid) return;
+    createDelegation.mutate(
+      { delegateId, startsOn, endsOn, reason: reason.trim() || undefined },
+      {
+        onSuccess: () => {
+          setStartsOn('');
+          setEndsOn('');
+          setReason('');
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-2 sm:grid-cols-2">
+        <Select value={delegateId} onValueChange={setDelegateId}>
+          <SelectTrigger>
+            <SelectValue placeholder="Delegate approvals to" />
+          </SelectTrigger>
+          <SelectContent>
+            {members.map((m) => (
+              <SelectItem key={m.id} value={m.id}>
+                {memberName(m.id)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input placeholder="Reason (optional)" value={reason} onChange={(e) => setReason(e.target.value)} />
+        <Input
+          type="date"
+          aria-label="First day away"
+          value={startsOn}
+          onChange={(e) => setStartsOn(e.target.value)}
+        />
+        <Input
+          type="date"
+          aria-label="Last day away"
+          min={startsOn || undefined}
+          value={endsOn}
+          onChange={(e) => setEndsOn(e.target.value)}
+        />
+      </div>
+      <Button variant="outline" className="gap-2" onClick={handleAdd} disabled={!valid || createDelegation.isPending}>
+        <Plus className="h-4 w-4" />
+        Add delegation
+      </Button>
+
+      {given.length === 0 && received.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No current or upcoming delegations.</p>
+      ) : (
+        <ul className="divide-y divide-border rounded-md border border-border">
+          {given.map((d) => (
+            <li key={d.id} className="flex items-center justify-between px-3 py-2 text-sm">
+              <span>
+                <span className="font-medium text-foreground">To {memberName(d.delegateId)}</span>
+                <span className="ml-2 text-muted-foreground">
+                  {formatDay(d.startsOn)}
+                  {d.endsOn !== d.startsOn && ` – ${formatDay(d.endsOn)}`}
+                </span>
+                {d.reason && <span className="ml-2 text-muted-foreground">· {d.reason}</span>}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => deleteDelegation.mutate(d.id)}
+                aria-label="Remove delegation"
+              >
+                <Trash2 className="h-4 w-4 text-muted-foreground" />
+              </Button>
+            </li>
+          ))}
+          {received.map((d) => (
+            <li key={d.id} className="px-3 py-2 text-sm">
+              <span className="font-medium text-foreground">From {memberName(d.delegatorId)}</span>
+              <span className="ml-2 text-muted-foreground">
+                {formatDay(d.startsOn)}
+                {d.endsOn !== d.startsOn && ` – ${formatDay(d.endsOn)}`}
+              </span>
+              {d.reason && <span className="ml-2 text-muted-foreground">· {d.reason}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { Check, Inbox, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { EmptyState } from '@/components/shared/EmptyState';
+import { useMasterbook } from '@/contexts/MasterbookContext';
+import { usePortfolioData } from '@/contexts/PortfolioDataContext';
+import { useOrgMemberName } from '@/hooks/useOrgMembers';
+import type { ApprovalInboxItem, ChangeRequest } from '@/types/masterbook';
+
+function InboxCard({
+  item,
+  changeRequest,
+  projectName,
+}: {
+  item: ApprovalInboxItem;
+  changeRequest: ChangeRequest;
+  projectName: string;
+}) {
+  const { decideChangeRequest } = useMasterbook();
+  const memberName = useOrgMemberName();
+  const [comment, setComment] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const impact = changeRequest.impactSummary;
+
+  const decide = async (approved: boolean) => {
+    setBusy(true);
+    try {
+      await decideChangeRequest(changeRequest.id, approved, comment.trim() || undefined);
+    } catch {
+      // Toast shown by the mutation
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-border/80 bg-card">
+      <div className="flex flex-wrap items-start justify-between gap-3 px-4 py-3">
+        <div className="min-w-0 space-y-1">
+          <Link to={`/projects/${changeRequest.projectId}`} className="font-medium text-foreground hover:underline">
+            {changeRequest.title}
+          </Link>
+          <p className="text-xs text-muted-foreground">
+            {projectName} · requested by {memberName(changeRequest.requestedById)}
+            {item.activatedAt && ` · waiting ${formatDistanceToNow(parseISO(item.activatedAt))}`}
+          </p>
+          {changeRequest.description && (
+            <p className="text-sm text-muted-foreground line-clamp-2">{changeRequest.description}</p>
+          )}
+          <div className="flex flex-wrap items-center gap-1.5 pt-1">
+            <Badge variant="secondary">
+              Stage {item.stepPosition}: {item.stepName} · {item.approvalCount}/{item.requiredApprovals} approvals
+            </Badge>
+            {impact?.scheduleImpactDays != null && (
+              <Badge variant="outline" className="font-normal">
+                {impact.scheduleImpactDays}d schedule impact
+              </Badge>
+            )}
+            {impact?.budgetImpact != null && (
+              <Badge variant="outline" className="font-normal">
+                {impact.budgetImpact.toLocaleString()} budget impact
+              </Badge>
+            )}
+            {item.onBehalfOf && (
+              <Badge variant="outline" className="font-normal">
+                On behalf of {memberName(item.onBehalfOf)}
+              </Badge>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Comment (optional)"
+            className="h-8 w-[200px]"
+          />
+          <Button size="sm" variant="outline" disabled={busy} onClick={() => decide(false)}>
+            <X className="mr-1 h-4 w-4" />
+            Reject
+          </Button>
+          <Button size="sm" disabled={busy} onClick={() => decide(true)}>
+            <Check className="mr-1 h-4 w-4" />
+            Approve
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface ApprovalInboxProps {
+  items: ApprovalInboxItem[];
+}
+
+/** Change request stages waiting for the current user's decision, oldest first. */
+export function ApprovalInbox({ items }: ApprovalInboxProps) {
+  const { changeRequests } = useMasterbook();
+  const { projects } = usePortfolioData();
+
+  const rows = items
+    .map((item) => ({ item, changeRequest: changeRequests.find((c) => c.id === item.changeRequestId) }))
+    .filter((row): row is { item: ApprovalInboxItem; changeRequest: ChangeRequest } => !!row.changeRequest);
+
+  if (rows.length === 0) {
+    return (
+      <EmptyState
+        icon={Inbox}
+        title="Nothing waiting for you"
+        description="Change requests reach you here when their approval chain gets to a stage you approve."
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {rows.map(({ item, changeRequest }) => (
+        <InboxCard
+          key={item.stepId}
+          item={item}
+          changeRequest={changeRequest}
+          projectName={(projects ?? []).find((p) => p.id === changeRequest.projectId)?.name ?? '—'}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { differenceInDays } from 'date-fns';
+import { cn } from '@/lib/utils';
+
+interface BaselineGhostBarProps {
+  /** Baseline dates (yyyy-MM-dd); a missing end falls back to the start and vice versa */
+  startDate?: string | null;
+  dueDate?: string | null;
+  /** First visible day and number of visible days of the timeline */
+  rangeStart: Date;
+  totalDays: number;
+  /** Height and vertical placement; should match the live bar it sits behind */
+  className?: string;
+}
+
+/** Dashed outline of where a bar sat in the selected baseline, drawn behind the live bar. */
+export function BaselineGhostBar({ startDate, dueDate, rangeStart, totalDays, className }: BaselineGhostBarProps) {
+  const start = startDate ?? dueDate;
+  const end = dueDate ?? startDate;
+  if (!start || !end) return null;
+
+  const startDiff = differenceInDays(new Date(start), rangeStart);
+  const endDiff = differenceInDays(new Date(end), rangeStart);
+  if (endDiff < 0 || startDiff > totalDays) return null;
+
+  const dayWidth = 100 / totalDays;
+  const visibleStart = Math.max(0, startDiff);
+  const visibleEnd = Math.min(totalDays - 1, endDiff);
+
+  return (
+    <div
+      aria-hidden
+      className={cn(
+        'pointer-events-none absolute top-1/2 -translate-y-1/2 rounded border border-dashed border-foreground/40 bg-foreground/5',
+        className
+      )}
+      style={{ left: `${visibleStart * dayWidth}%`, width: `${Math.max(1, visibleEnd - visibleStart + 1) * dayWidth}%` }}
+    />
+  );
+}
@@ -0,0 +1,46 @@
+import { format, parseISO } from 'date-fns';
+import { GitCompareArrows } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import type { ScheduleBaseline } from '@/domains/schedule/model';
+
+interface BaselineSelectProps {
+  baselines: ScheduleBaseline[];
+  value: string | null;
+  onChange: (baselineId: string | null) => void;
+  /** Label for the empty option */
+  noneLabel?: string;
+  className?: string;
+}
+
+const NONE = '__none__';
+
+export function BaselineSelect({ baselines, value, onChange, noneLabel = 'No baseline', className }: BaselineSelectProps) {
+  return (
+    <Select
+      value={value ?? NONE}
+      onValueChange={(v) => onChange(v === NONE ? null : v)}
+      disabled={baselines.length === 0}
+    >
+      <SelectTrigger className={cn('h-8 w-[200px] gap-2', className)}>
+        <GitCompareArrows className="h-4 w-4 shrink-0 text-muted-foreground" />
+        <SelectValue placeholder={baselines.length === 0 ? 'No baselines saved' : noneLabel} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NONE}>{noneLabel}</SelectItem>
+        {baselines.map((b) => (
+          <SelectItem key={b.id} value={b.id}>
+            {b.name}
+            <span className="ml-2 text-xs text-muted-foreground">{format(parseISO(b.created_at), 'MMM d, yyyy')}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,127 @@
+/**
+ * Baselines Dialog – save a named snapshot of a project's or program's plan (task dates,
+ * estimated hours, milestones, budget) and manage the ones already saved.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { GitCompareArrows, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  useScheduleBaselines,
+  useCreateScheduleBaseline,
+  useDeleteScheduleBaseline,
+} from '@/hooks/useScheduleBaselines';
+import type { ScheduleBaselineScopeType } from '@/domains/schedule/model';
+
+interface BaselinesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  scopeType: ScheduleBaselineScopeType;
+  scopeId: string;
+  scopeName: string;
+}
+
+export function BaselinesDialog({ open, onOpenChange, scopeType, scopeId, scopeName }: BaselinesDialogProps) {
+  const { data: allBaselines = [] } = useScheduleBaselines();
+  const createBaseline = useCreateScheduleBaseline();
+  const deleteBaseline = useDeleteScheduleBaseline();
+  const [name, setName] = useState('');
+
+  const baselines = useMemo(
+    () => allBaselines.filter((b) => b.scope_type === scopeType && b.scope_id === scopeId),
+    [allBaselines, scopeType, scopeId]
+  );
+
+  useEffect(() => {
+    if (open) setName(`Baseline ${format(new Date(), 'MMM d, yyyy')}`);
+  }, [open]);
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    try {
+      await createBaseline.mutateAsync({ scopeType, scopeId, name: trimmed });
+      setName('');
+    } catch {
+      // Error toast is raised by the mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitCompareArrows className="h-5 w-5" />
+            Baselines
+          </DialogTitle>
+          <DialogDescription>
+            Freeze the current plan of {scopeName} (task and milestone dates, estimated hours and budget)
+            to compare against later in the Gantt and Reports.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="baseline-name">Name</Label>
+          <div className="flex gap-2">
+            <Input
+              id="baseline-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            />
+            <Button onClick={handleSave} disabled={!name.trim() || createBaseline.isPending}>
+              {createBaseline.isPending ? 'Saving…' : 'Save'}
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Saved baselines</p>
+          {baselines.length === 0 ? (
+            <p className="text-sm text-muted-foreground">None yet.</p>
+          ) : (
+            <ul className="max-h-60 divide-y divide-border overflow-y-auto rounded-md border border-border">
+              {baselines.map((b) => (
+                <li key={b.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <span className="min-w-0">
+                    <span className="block truncate font-medium">{b.name}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {format(parseISO(b.created_at), 'MMM d, yyyy HH:mm')}
+                    </span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => deleteBaseline.mutate(b.id)}
+                    aria-label={`Delete ${b.name}`}
+                  >
+                    <Trash2 className="h-4 w-4 text-muted-foreground" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
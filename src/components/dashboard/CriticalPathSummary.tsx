@@ -1,26 +1,58 @@
 /**
  * Critical Path Summary – Masterbook "Flow Reveals Truth".
- * Shows top critical path tasks; click to go to tasks/schedule.
+ * Shows top critical path tasks; click to go to tasks/schedule. With three-point estimates, adds
+ * simulated P50/P80/P90 finishes per project and each task's criticality index.
  */
 
+import { useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
 import { GitBranch, ChevronRight } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { useCriticalPath } from '@/hooks/useCriticalPath';
+import { useScheduleSimulation } from '@/hooks/useScheduleSimulation';
 import { usePortfolioData } from '@/contexts/PortfolioDataContext';
 import { cn } from '@/lib/utils';
 
+const formatDay = (date: string) => format(parseISO(date), 'MMM d');
+const formatPercent = (share: number) => `${Math.round(share * 100)}%`;
+
+/** Criticality index from which a task off the deterministic path is flagged */
+const NEAR_CRITICAL_INDEX = 0.2;
+
 export function CriticalPathSummary() {
   const navigate = useNavigate();
   const { criticalPathNodes, circularResult } = useCriticalPath();
   const { projects } = usePortfolioData();
+  const { result: simulation } = useScheduleSimulation();
 
-  const criticalTasks = criticalPathNodes.filter((n) => n.isCritical);
+  const criticalTasks = criticalPathNodes
+    .filter((n) => n.isCritical)
+    .sort((a, b) => a.earliestStartDate.localeCompare(b.earliestStartDate));
   const displayTasks = criticalTasks.slice(0, 5);
   const projectName = (id: string) => (projects ?? []).find((p) => p.id === id)?.name ?? '';
 
+  const hasRanges = !!simulation && simulation.threePointTaskCount > 0;
+  const criticalityById = useMemo(
+    () => new Map((simulation?.tasks ?? []).map((t) => [t.taskId, t.criticalityIndex])),
+    [simulation]
+  );
+  // Off the deterministic path but critical in many iterations
+  const nearCritical = hasRanges
+    ? criticalPathNodes
+        .filter((n) => !n.isCritical && (criticalityById.get(n.taskId) ?? 0) >= NEAR_CRITICAL_INDEX)
+        .sort((a, b) => criticalityById.get(b.taskId)! - criticalityById.get(a.taskId)!)
+        .slice(0, 3)
+    : [];
+  // Least likely to finish on time first, then latest P80
+  const forecasts = hasRanges
+    ? [...simulation.projects]
+        .sort((a, b) => (a.onTimeProbability ?? 1) - (b.onTimeProbability ?? 1) || b.p80.localeCompare(a.p80))
+        .slice(0, 3)
+    : [];
+
   if (criticalTasks.length === 0 && !circularResult.hasCycle) {
     return null;
   }
@@ -63,12 +95,76 @@ export function CriticalPathSummary() {
                   )}
                 >
                   <span className="truncate flex-1">{n.taskTitle}</span>
+                  <span className="text-xs text-muted-foreground shrink-0 tabular-nums">
+                    {formatDay(n.earliestStartDate)} – {formatDay(n.earliestFinishDate)}
+                  </span>
                   <span className="text-xs text-muted-foreground shrink-0">{projectName(n.projectId)}</span>
+                  {hasRanges && criticalityById.has(n.taskId) && (
+                    <span
+                      className="text-xs font-medium text-primary shrink-0 tabular-nums"
+                      title="Criticality index: share of simulations with no float"
+                    >
+                      {formatPercent(criticalityById.get(n.taskId)!)}
+                    </span>
+                  )}
                 </button>
               </li>
             ))}
           </ul>
         )}
+        {nearCritical.length > 0 && (
+          <div className="space-y-1.5">
+            <p className="text-xs font-medium text-muted-foreground">Could become critical</p>
+            <ul className="space-y-1.5">
+              {nearCritical.map((n) => (
+                <li key={n.taskId}>
+                  <button
+                    type="button"
+                    onClick={() => navigate('/tasks')}
+                    className="flex items-center gap-2 text-sm w-full text-left rounded-md px-2 py-1.5 hover:bg-muted border-l-2 border-warning"
+                  >
+                    <span className="truncate flex-1">{n.taskTitle}</span>
+                    <span className="text-xs text-muted-foreground shrink-0">{projectName(n.projectId)}</span>
+                    <span className="text-xs font-medium text-warning shrink-0 tabular-nums">
+                      {formatPercent(criticalityById.get(n.taskId)!)}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {forecasts.length > 0 && simulation && (
+          <div className="space-y-1.5 border-t pt-3">
+            <p className="text-xs font-medium text-muted-foreground">
+              Forecast finish ({simulation.iterations.toLocaleString()} simulations)
+            </p>
+            {forecasts.map((f) => (
+              <div key={f.projectId} className="rounded-md bg-muted/40 px-2 py-1.5 text-xs">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="truncate font-medium text-sm">{projectName(f.projectId)}</span>
+                  {f.onTimeProbability !== undefined && (
+                    <span
+                      className={cn(
+                        'shrink-0 tabular-nums',
+                        f.onTimeProbability >= 0.8
+                          ? 'text-success'
+                          : f.onTimeProbability >= 0.5
+                            ? 'text-warning'
+                            : 'text-destructive'
+                      )}
+                    >
+                      {formatPercent(f.onTimeProbability)} on time
+                    </span>
+                  )}
+                </div>
+                <p className="text-muted-foreground tabular-nums">
+                  P50 {formatDay(f.p50)} · P80 {formatDay(f.p80)} · P90 {formatDay(f.p90)}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
         {criticalTasks.length > 5 && (
           <Button variant="ghost" size="sm" className="w-full justify-between" onClick={() => navigate('/schedule')}>
             View full timeline
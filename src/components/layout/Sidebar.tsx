@@ -22,6 +22,8 @@ import {
   MessageSquarePlus,
   Bug,
   CalendarDays,
+  Timer,
+  Inbox,
 } from 'lucide-react';
 import { FeedbackModal } from '@/components/feedback/FeedbackModal';
 import { BugReportModal } from '@/components/feedback/BugReportModal';
@@ -59,6 +61,8 @@ const navItems: NavItem[] = [
   { icon: FolderKanban, label: 'Projects', path: '/projects', requiresPermission: 'view_projects' },
   { icon: CheckSquare, label: 'Tasks', path: '/tasks' },
   { icon: CalendarDays, label: 'Schedule', path: '/schedule' },
+  { icon: Timer, label: 'Timesheets', path: '/timesheets' },
+  { icon: Inbox, label: 'Approvals', path: '/approvals' },
   { icon: FileBarChart, label: 'Reports', path: '/reports', requiresPermission: 'view_reports' },
   { icon: Users, label: 'CRM', path: '/crm', allowedRoles: ['owner', 'admin', 'manager'] },
   { icon: BarChart3, label: 'Resources', path: '/resources', requiresPermission: 'view_analytics' },
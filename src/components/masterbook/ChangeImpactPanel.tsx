@@ -0,0 +1,96 @@
+/**
+ * Change Impact Panel – simulated effect of a change request on the schedule, capacity and budget.
+ * Used for the live preview while drafting and for the stored summary approvers decide on.
+ */
+
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle, CalendarClock, Coins, Users } from 'lucide-react';
+import { usePortfolioData } from '@/contexts/PortfolioDataContext';
+import type { ChangeRequestImpactSummary } from '@/types/masterbook';
+import { cn } from '@/lib/utils';
+
+const formatDay = (date?: string) => (date ? format(parseISO(date), 'MMM d, yyyy') : '—');
+const signed = (value: number, unit: string) => `${value > 0 ? '+' : ''}${value.toLocaleString()}${unit}`;
+
+interface ChangeImpactPanelProps {
+  impact: ChangeRequestImpactSummary;
+  className?: string;
+}
+
+export function ChangeImpactPanel({ impact, className }: ChangeImpactPanelProps) {
+  const { teamMembers, tasks } = usePortfolioData();
+  const memberName = (id: string) => (teamMembers ?? []).find((m) => m.id === id)?.name ?? 'Unknown member';
+  const taskTitle = (id: string) => (tasks ?? []).find((t) => t.id === id)?.title ?? 'New task';
+
+  const scheduleDays = impact.scheduleImpactDays ?? 0;
+  const criticalPath = impact.criticalPath;
+  const slips = impact.milestoneSlips ?? [];
+  const overallocated = impact.overallocatedMembers ?? [];
+
+  return (
+    <div className={cn('rounded-md border bg-muted/30 p-3 space-y-2 text-sm', className)}>
+      <div className="flex items-start gap-2">
+        <CalendarClock className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+        <div>
+          <p className={cn('font-medium', scheduleDays > 0 && 'text-warning')}>
+            {scheduleDays === 0 ? 'No change to the project end' : `Project end ${signed(scheduleDays, ' working days')}`}
+          </p>
+          {criticalPath && (criticalPath.finishBefore || criticalPath.finishAfter) && (
+            <p className="text-xs text-muted-foreground">
+              Critical path finish {formatDay(criticalPath.finishBefore)} → {formatDay(criticalPath.finishAfter)}
+              {criticalPath.enteringTaskIds.length > 0 &&
+                ` · now critical: ${criticalPath.enteringTaskIds.map(taskTitle).join(', ')}`}
+            </p>
+          )}
+          {impact.dependencyImpact && <p className="text-xs text-muted-foreground">{impact.dependencyImpact}</p>}
+        </div>
+      </div>
+
+      {slips.length > 0 && (
+        <div className="flex items-start gap-2">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-warning" />
+          <ul className="space-y-0.5">
+            {slips.map((slip) => (
+              <li key={slip.milestoneId}>
+                <span className="font-medium">{slip.title}</span>
+                <span className="text-muted-foreground">
+                  {' '}slips {slip.slipDays} working day{slip.slipDays === 1 ? '' : 's'} ({formatDay(slip.forecastBefore)} →{' '}
+                  {formatDay(slip.forecastAfter)})
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {overallocated.length > 0 && (
+        <div className="flex items-start gap-2">
+          <Users className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />
+          <ul className="space-y-0.5">
+            {overallocated.map((m) => (
+              <li key={m.memberId}>
+                <span className="font-medium">{memberName(m.memberId)}</span>
+                <span className="text-muted-foreground">
+                  {' '}over capacity: {Math.round(m.allocationBefore)}% → {Math.round(m.allocationAfter)}% of{' '}
+                  {m.capacity}%
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex items-start gap-2">
+        <Coins className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+        <p>
+          Budget {signed(impact.budgetImpact ?? 0, '')}
+          {!!impact.unpricedHours && (
+            <span className="text-muted-foreground">
+              {' '}· {signed(impact.unpricedHours, 'h')} without an hourly rate
+            </span>
+          )}
+        </p>
+      </div>
+    </div>
+  );
+}
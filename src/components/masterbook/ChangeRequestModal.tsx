@@ -1,10 +1,13 @@
 /**
  * Change Request Modal – Masterbook "Discipline Defines Reality".
- * Create/edit change request: add/modify/remove work; approval workflow; immutable log.
+ * Create change request: add/modify/remove work; approval workflow; immutable log.
+ * Items name the task or milestone they apply to, so an approved request can be implemented as-is.
+ * The impact summary is simulated against the live schedule and previewed while drafting; on submit the
+ * server simulates it again (submit-change-request) and stores that one.
  */
 
 import { useState } from 'react';
-import { FileEdit, Plus } from 'lucide-react';
+import { FileEdit, Plus, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -26,12 +29,57 @@ import {
 import { useMasterbook } from '@/contexts/MasterbookContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { usePortfolioData } from '@/contexts/PortfolioDataContext';
-import type { ChangeRequest, ChangeRequestType, ChangeRequestStatus } from '@/types/masterbook';
+import { useChangeImpact } from '@/hooks/useChangeImpact';
+import { ChangeImpactPanel } from '@/components/masterbook/ChangeImpactPanel';
+import type { ChangeRequest, ChangeRequestItem, ChangeRequestItemChanges, ChangeRequestType } from '@/types/masterbook';
+
+const UNCHANGED = '__unchanged__';
+const UNASSIGNED = '__unassigned__';
+
+interface DraftItem {
+  key: number;
+  type: 'task' | 'milestone';
+  existingId: string;
+  title: string;
+  startDate: string;
+  dueDate: string;
+  assigneeId: string;
+  estimatedHours: string;
+}
+
+let nextDraftKey = 0;
+
+function emptyItem(): DraftItem {
+  return {
+    key: nextDraftKey++,
+    type: 'task',
+    existingId: '',
+    title: '',
+    startDate: '',
+    dueDate: '',
+    assigneeId: UNCHANGED,
+    estimatedHours: '',
+  };
+}
+
+/** Only the fields the user filled in; for modify, an empty field means "leave as is". */
+function draftChanges(item: DraftItem, type: ChangeRequestType): ChangeRequestItemChanges {
+  const changes: ChangeRequestItemChanges = {};
+  if (type === 'modify_work' && item.title.trim()) changes.title = item.title.trim();
+  if (item.dueDate) changes.dueDate = item.dueDate;
+  if (item.type === 'task') {
+    if (item.startDate) changes.startDate = item.startDate;
+    if (item.assigneeId !== UNCHANGED) changes.assigneeId = item.assigneeId === UNASSIGNED ? null : item.assigneeId;
+    if (item.estimatedHours && Number(item.estimatedHours) > 0) changes.estimatedHours = Number(item.estimatedHours);
+  }
+  return changes;
+}
 
 interface ChangeRequestModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  projectId: string;
+  /** When omitted, the request's project is picked in the form (from programId's projects if set) */
+  projectId?: string;
   programId?: string;
   defaultType?: ChangeRequestType;
 }
@@ -44,53 +92,119 @@ export function ChangeRequestModal({
   defaultType = 'add_work',
 }: ChangeRequestModalProps) {
   const { user, organization } = useAuth();
-  const { projects } = usePortfolioData();
-  const { addChangeRequest } = useMasterbook();
+  const { projects, tasks, milestones, teamMembers } = usePortfolioData();
+  const { addChangeRequest, submitChangeRequest } = useMasterbook();
+  const analyzeImpact = useChangeImpact();
 
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [type, setType] = useState<ChangeRequestType>(defaultType);
-  const [itemsText, setItemsText] = useState('');
+  const [formProjectId, setFormProjectId] = useState(projectId ?? '');
+  const [items, setItems] = useState<DraftItem[]>(() => [emptyItem()]);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const selectedProjectId = projectId ?? formProjectId;
+  const selectableProjects = (projects ?? []).filter((p) => !programId || p.programId === programId);
+  const projectTasks = (tasks ?? []).filter((t) => t.projectId === selectedProjectId);
+  const projectMilestones = (milestones ?? []).filter((m) => m.projectId === selectedProjectId);
+
+  const targetTitle = (item: DraftItem) =>
+    item.type === 'task'
+      ? projectTasks.find((t) => t.id === item.existingId)?.title
+      : projectMilestones.find((m) => m.id === item.existingId)?.title;
+
+  const updateItem = (key: number, patch: Partial<DraftItem>) => {
+    setItems((prev) => prev.map((item) => (item.key === key ? { ...item, ...patch } : item)));
+  };
+
+  const resetForm = () => {
+    setTitle('');
+    setDescription('');
+    setType(defaultType);
+    setFormProjectId(projectId ?? '');
+    setItems([emptyItem()]);
+    setFormError(null);
+  };
+
+  /** Validated request items, or an error message for the first incomplete one. */
+  const buildItems = (): ChangeRequestItem[] | string => {
+    const result: ChangeRequestItem[] = [];
+    for (const [i, item] of items.entries()) {
+      const label = `Item ${i + 1}`;
+      const changes = draftChanges(item, type);
+      if (type === 'add_work') {
+        if (!item.title.trim()) return `${label}: enter a title`;
+        if (item.type === 'milestone' && !item.dueDate) return `${label}: milestones need a due date`;
+        result.push({ type: item.type, title: item.title.trim(), changes });
+        continue;
+      }
+      const existingTitle = targetTitle(item);
+      if (!existingTitle) return `${label}: select the ${item.type} to ${type === 'modify_work' ? 'change' : 'remove'}`;
+      if (type === 'modify_work' && Object.keys(changes).length === 0) return `${label}: enter at least one new value`;
+      result.push({
+        type: item.type,
+        title: existingTitle,
+        existingId: item.existingId,
+        ...(type === 'modify_work' ? { changes } : {}),
+      });
+    }
+    return result;
+  };
+
+  // Live preview once every item is complete
+  const previewItems = open && selectedProjectId ? buildItems() : null;
+  const impactPreview =
+    Array.isArray(previewItems) && previewItems.length > 0
+      ? analyzeImpact(type, selectedProjectId, previewItems)
+      : null;
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!title.trim() || !user?.id) return;
+    if (!selectedProjectId) {
+      setFormError('Select a project');
+      return;
+    }
+    const built = buildItems();
+    if (typeof built === 'string') {
+      setFormError(built);
+      return;
+    }
+    if (built.length === 0) {
+      setFormError('Add at least one item');
+      return;
+    }
+    let created: ChangeRequest;
     try {
-      const items = itemsText
-        .split('\n')
-        .map((line) => line.trim())
-        .filter(Boolean)
-        .map((titleVal) => ({ type: 'task' as const, title: titleVal }));
-      if (items.length === 0 && type !== 'remove_work') {
-        setItemsText('Add at least one item (one per line)');
-        return;
-      }
-      addChangeRequest({
+      created = await addChangeRequest({
         title: title.trim(),
         description: description.trim(),
         type,
-        status: 'pending_approval',
-        projectId,
-        programId,
+        status: 'draft',
+        projectId: selectedProjectId,
+        programId: programId ?? selectableProjects.find((p) => p.id === selectedProjectId)?.programId,
         requestedById: user.id,
         requestedAt: new Date().toISOString(),
-        items,
+        items: built,
         approverIds: [],
         orgId: organization?.id || '',
       });
-      setTitle('');
-      setDescription('');
-      setType(defaultType);
-      setItemsText('');
-      onOpenChange(false);
     } catch {
-      // e.g. no organization – MasterbookContext throws; form stays open
+      // e.g. no organization or insert failed (toast shown) – form stays open
+      return;
+    }
+    resetForm();
+    onOpenChange(false);
+    try {
+      await submitChangeRequest(created.id);
+    } catch {
+      // Toast shown by the mutation – the draft stays in the register and can be submitted from there
     }
   };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-lg">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <FileEdit className="h-5 w-5" />
@@ -120,32 +234,174 @@ export function ChangeRequestModal({
               className="mt-1"
             />
           </div>
-          <div>
-            <Label>Type</Label>
-            <Select value={type} onValueChange={(v) => setType(v as ChangeRequestType)}>
-              <SelectTrigger className="mt-1">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="add_work">Add work</SelectItem>
-                <SelectItem value="modify_work">Modify work</SelectItem>
-                <SelectItem value="remove_work">Remove work</SelectItem>
-              </SelectContent>
-            </Select>
+          <div className="grid grid-cols-2 gap-4">
+            {!projectId && (
+              <div>
+                <Label>Project</Label>
+                <Select
+                  value={formProjectId}
+                  onValueChange={(v) => {
+                    setFormProjectId(v);
+                    setItems((prev) => prev.map((item) => ({ ...item, existingId: '' })));
+                  }}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue placeholder="Select project" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {selectableProjects.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <Label>Type</Label>
+              <Select value={type} onValueChange={(v) => setType(v as ChangeRequestType)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="add_work">Add work</SelectItem>
+                  <SelectItem value="modify_work">Modify work</SelectItem>
+                  <SelectItem value="remove_work">Remove work</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </div>
-          <div>
-            <Label htmlFor="cr-items">
-              Items (one per line) {type === 'add_work' && '— titles of new work'}
+
+          <div className="space-y-2">
+            <Label>
+              Items {type === 'add_work' ? '— new work' : type === 'modify_work' ? '— new values (blank = unchanged)' : '— work to remove'}
             </Label>
-            <Textarea
-              id="cr-items"
-              value={itemsText}
-              onChange={(e) => setItemsText(e.target.value)}
-              rows={4}
-              placeholder="Task or deliverable title per line"
-              className="mt-1 font-mono text-sm"
-            />
+            {items.map((item) => (
+              <div key={item.key} className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={item.type}
+                    onValueChange={(v) => updateItem(item.key, { type: v as DraftItem['type'], existingId: '' })}
+                  >
+                    <SelectTrigger className="w-[130px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="task">Task</SelectItem>
+                      <SelectItem value="milestone">Milestone</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {type === 'add_work' ? (
+                    <Input
+                      value={item.title}
+                      onChange={(e) => updateItem(item.key, { title: e.target.value })}
+                      placeholder={item.type === 'task' ? 'Task title' : 'Milestone title'}
+                      aria-label="Item title"
+                      className="flex-1"
+                    />
+                  ) : (
+                    <Select
+                      value={item.existingId}
+                      onValueChange={(v) => updateItem(item.key, { existingId: v })}
+                      disabled={!selectedProjectId}
+                    >
+                      <SelectTrigger className="flex-1">
+                        <SelectValue placeholder={`Select ${item.type}`} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(item.type === 'task' ? projectTasks : projectMilestones).map((w) => (
+                          <SelectItem key={w.id} value={w.id}>{w.title}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => setItems((prev) => prev.filter((i) => i.key !== item.key))}
+                    disabled={items.length === 1}
+                    aria-label="Remove item"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+                {type !== 'remove_work' && (
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                    {type === 'modify_work' && (
+                      <Input
+                        value={item.title}
+                        onChange={(e) => updateItem(item.key, { title: e.target.value })}
+                        placeholder="New title"
+                        aria-label="New title"
+                        className="col-span-2 sm:col-span-4"
+                      />
+                    )}
+                    {item.type === 'task' && (
+                      <Input
+                        type="date"
+                        value={item.startDate}
+                        onChange={(e) => updateItem(item.key, { startDate: e.target.value })}
+                        aria-label="Start date"
+                      />
+                    )}
+                    <Input
+                      type="date"
+                      value={item.dueDate}
+                      onChange={(e) => updateItem(item.key, { dueDate: e.target.value })}
+                      aria-label="Due date"
+                    />
+                    {item.type === 'task' && (
+                      <>
+                        <Select value={item.assigneeId} onValueChange={(v) => updateItem(item.key, { assigneeId: v })}>
+                          <SelectTrigger aria-label="Assignee">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={UNCHANGED}>{type === 'add_work' ? 'No assignee' : 'Assignee unchanged'}</SelectItem>
+                            {type === 'modify_work' && <SelectItem value={UNASSIGNED}>Unassign</SelectItem>}
+                            {(teamMembers ?? []).map((m) => (
+                              <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          type="number"
+                          min={0}
+                          step={0.5}
+                          value={item.estimatedHours}
+                          onChange={(e) => updateItem(item.key, { estimatedHours: e.target.value })}
+                          placeholder="Hours"
+                          aria-label="Estimated hours"
+                        />
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={() => setItems((prev) => [...prev, emptyItem()])}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add item
+            </Button>
           </div>
+
+          <div className="space-y-2">
+            <Label>Impact</Label>
+            {impactPreview ? (
+              <ChangeImpactPanel impact={impactPreview} />
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Complete the items to see how the change moves the critical path, milestones, capacity and budget.
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Larger impacts can route the request through extra approval stages.
+            </p>
+          </div>
+
+          {formError && <p className="text-sm text-destructive">{formError}</p>}
+
           <DialogFooter>
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               Cancel
@@ -0,0 +1,410 @@
+/**
+ * Change Request Register – Masterbook "Discipline Defines Reality".
+ * Lifecycle: Draft → Pending approval → Approved / Rejected → Implemented (revertable from its snapshot);
+ * drafts and rejected requests are submitted (again) from here.
+ * Approval follows the request's approval chain; approvers decide from here or from their Approvals inbox.
+ */
+
+import { useState } from 'react';
+import { Check, FileEdit, Plus, MoreHorizontal, Play, Send, Undo2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { PermissionGate } from '@/components/permissions/PermissionGate';
+import { ChangeImpactPanel } from '@/components/masterbook/ChangeImpactPanel';
+import { ChangeRequestModal } from '@/components/masterbook/ChangeRequestModal';
+import { useMasterbook } from '@/contexts/MasterbookContext';
+import { usePortfolioData } from '@/contexts/PortfolioDataContext';
+import { useApprovalInbox } from '@/hooks/useApprovalInbox';
+import { useOrgMemberName } from '@/hooks/useOrgMembers';
+import type {
+  ApprovalInboxItem,
+  ChangeRequest,
+  ChangeRequestApprovalStep,
+  ChangeRequestItem,
+  ChangeRequestSnapshotEntry,
+  ChangeRequestStatus,
+  ChangeRequestType,
+} from '@/types/masterbook';
+import type { OrgRole } from '@/types/permissions';
+import { cn } from '@/lib/utils';
+
+const statusLabels: Record<ChangeRequestStatus, string> = {
+  draft: 'Draft',
+  pending_approval: 'Pending approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  implemented: 'Implemented',
+};
+
+const statusColors: Record<ChangeRequestStatus, string> = {
+  draft: 'bg-muted text-muted-foreground',
+  pending_approval: 'bg-warning/20 text-warning',
+  approved: 'bg-info/20 text-info',
+  rejected: 'bg-destructive/20 text-destructive',
+  implemented: 'bg-success/20 text-success',
+};
+
+const typeLabels: Record<ChangeRequestType, string> = {
+  add_work: 'Add work',
+  modify_work: 'Modify work',
+  remove_work: 'Remove work',
+};
+
+const actionLabels: Record<ChangeRequestSnapshotEntry['action'], string> = {
+  create: 'Created',
+  modify: 'Changed',
+  delete: 'Removed',
+};
+
+const stepStatusLabels: Record<ChangeRequestApprovalStep['status'], string> = {
+  waiting: 'Waiting',
+  pending: 'In review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  skipped: 'Skipped',
+};
+
+const MANAGER_ROLES: OrgRole[] = ['owner', 'admin', 'manager'];
+const EMPTY_INBOX: ApprovalInboxItem[] = [];
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  return String(value);
+}
+
+function itemSummary(item: ChangeRequestItem): string {
+  const changes = Object.entries(item.changes ?? {})
+    .filter(([key]) => key !== 'title')
+    .map(([key, value]) => `${key}: ${formatValue(value)}`);
+  const renamed = item.changes?.title && item.changes.title !== item.title ? ` → “${item.changes.title}”` : '';
+  return `${item.title}${renamed}${changes.length > 0 ? ` (${changes.join(', ')})` : ''}`;
+}
+
+interface ChangeRequestRegisterProps {
+  projectId?: string;
+  /** When set, show change requests for all projects in this program */
+  programId?: string;
+}
+
+export function ChangeRequestRegister({ projectId, programId }: ChangeRequestRegisterProps) {
+  const { projects, tasks, milestones } = usePortfolioData();
+  const { data: inbox = EMPTY_INBOX } = useApprovalInbox();
+  const memberName = useOrgMemberName();
+  const {
+    changeRequests,
+    submitChangeRequest,
+    decideChangeRequest,
+    implementChangeRequest,
+    revertChangeRequest,
+    getChangeRequestsByProject,
+  } = useMasterbook();
+
+  const [modalOpen, setModalOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [comment, setComment] = useState('');
+
+  const safeProjects = projects ?? [];
+  const programProjectIds = programId
+    ? safeProjects.filter((p) => p.programId === programId).map((p) => p.id)
+    : [];
+  const displayRequests = (projectId
+    ? getChangeRequestsByProject(projectId)
+    : programId
+      ? changeRequests.filter((c) => programProjectIds.includes(c.projectId))
+      : changeRequests
+  ).slice().reverse();
+  const selected = changeRequests.find((c) => c.id === selectedId) ?? null;
+
+  const projectName = (id: string) => safeProjects.find((p) => p.id === id)?.name ?? '';
+  const entryTitle = (entry: ChangeRequestSnapshotEntry) => {
+    const title = (entry.after ?? entry.before)?.title;
+    if (typeof title === 'string') return title;
+    const current = entry.entity === 'task'
+      ? (tasks ?? []).find((t) => t.id === entry.id)
+      : (milestones ?? []).find((m) => m.id === entry.id);
+    return current?.title ?? entry.id;
+  };
+
+  /** The current user (or someone who delegated to them) has a vote on the request's pending stage */
+  const canDecide = (cr: ChangeRequest) => inbox.some((item) => item.changeRequestId === cr.id);
+  const canSubmit = (cr: ChangeRequest) => cr.status === 'draft' || cr.status === 'rejected';
+  const showRounds = (selected?.approvalSteps ?? []).some((step) => step.round > 1);
+
+  const run = async (action: (id: string) => Promise<void>, id: string) => {
+    setBusy(true);
+    try {
+      await action(id);
+      setComment('');
+    } catch {
+      // Toast shown by the mutation – keep the dialog open
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const decide = (cr: ChangeRequest, approved: boolean) =>
+    run((id) => decideChangeRequest(id, approved, comment.trim() || undefined), cr.id);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <FileEdit className="h-5 w-5" />
+          Change Requests
+        </h2>
+        <Button size="sm" onClick={() => setModalOpen(true)}>
+          <Plus className="h-4 w-4 mr-1" />
+          New Change Request
+        </Button>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Request</TableHead>
+              {!projectId && <TableHead>Project</TableHead>}
+              <TableHead>Type</TableHead>
+              <TableHead>Items</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Requested</TableHead>
+              <TableHead className="w-[80px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {displayRequests.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={projectId ? 6 : 7} className="text-center text-muted-foreground py-8">
+                  No change requests in this scope. Scope changes go through a request so they can be approved and traced.
+                </TableCell>
+              </TableRow>
+            ) : (
+              displayRequests.map((cr) => (
+                <TableRow key={cr.id} className="cursor-pointer" onClick={() => setSelectedId(cr.id)}>
+                  <TableCell>
+                    <div>
+                      <p className="font-medium">{cr.title}</p>
+                      {cr.description && (
+                        <p className="text-xs text-muted-foreground line-clamp-1">{cr.description}</p>
+                      )}
+                    </div>
+                  </TableCell>
+                  {!projectId && <TableCell>{projectName(cr.projectId)}</TableCell>}
+                  <TableCell>{typeLabels[cr.type]}</TableCell>
+                  <TableCell>{cr.items.length}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={cn(statusColors[cr.status])}>
+                      {statusLabels[cr.status]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{new Date(cr.requestedAt).toLocaleDateString()}</TableCell>
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Change request actions">
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => setSelectedId(cr.id)}>Details</DropdownMenuItem>
+                        {canSubmit(cr) && (
+                          <DropdownMenuItem onClick={() => run(submitChangeRequest, cr.id)}>
+                            {cr.status === 'rejected' ? 'Resubmit' : 'Submit for approval'}
+                          </DropdownMenuItem>
+                        )}
+                        {cr.status === 'pending_approval' && canDecide(cr) && (
+                          <>
+                            <DropdownMenuItem onClick={() => decide(cr, true)}>Approve</DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => decide(cr, false)}>Reject</DropdownMenuItem>
+                          </>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog
+        open={!!selected}
+        onOpenChange={(open) => {
+          if (open) return;
+          setSelectedId(null);
+          setComment('');
+        }}
+      >
+        <DialogContent className="max-w-lg">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{selected.title}</DialogTitle>
+                <DialogDescription>
+                  {typeLabels[selected.type]} · {projectName(selected.projectId)} · {statusLabels[selected.status]}
+                  {selected.implementedAt && ` ${new Date(selected.implementedAt).toLocaleString()}`}
+                </DialogDescription>
+              </DialogHeader>
+              {selected.description && <p className="text-sm">{selected.description}</p>}
+              <div>
+                <p className="text-sm font-medium mb-1">Items</p>
+                <ul className="space-y-1 text-sm">
+                  {selected.items.map((item, i) => (
+                    <li key={item.id ?? i} className="flex gap-2">
+                      <Badge variant="secondary" className="capitalize shrink-0">{item.type}</Badge>
+                      <span>{itemSummary(item)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+              {selected.impactSummary?.analyzedAt && (
+                <div>
+                  <p className="text-sm font-medium mb-1">Impact</p>
+                  <ChangeImpactPanel impact={selected.impactSummary} />
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    Simulated {new Date(selected.impactSummary.analyzedAt).toLocaleString()} against the schedule at the time
+                  </p>
+                </div>
+              )}
+              {(selected.approvalSteps ?? []).length > 0 && (
+                <div>
+                  <p className="text-sm font-medium mb-1">Approval chain</p>
+                  <ul className="space-y-2 text-sm">
+                    {(selected.approvalSteps ?? []).map((step) => {
+                      const votes = selected.approvals.filter((a) => a.stepId === step.id);
+                      return (
+                        <li key={step.id}>
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="font-medium">
+                              {showRounds && `Round ${step.round} · `}
+                              {step.position}. {step.name}
+                            </span>
+                            <Badge variant="outline" className="font-normal">
+                              {stepStatusLabels[step.status]}
+                            </Badge>
+                            <span className="text-xs text-muted-foreground">
+                              {step.requiredApprovals} of {step.approverIds.map(memberName).join(', ') || 'no approvers'}
+                            </span>
+                          </div>
+                          {votes.length > 0 && (
+                            <ul className="mt-1 space-y-0.5 pl-4 text-xs text-muted-foreground">
+                              {votes.map((vote) => (
+                                <li key={`${vote.approverId}-${vote.at}`}>
+                                  {vote.approved ? 'Approved' : 'Rejected'} by {memberName(vote.approverId)}
+                                  {vote.onBehalfOf && ` for ${memberName(vote.onBehalfOf)}`}
+                                  {` · ${new Date(vote.at).toLocaleString()}`}
+                                  {vote.comment && ` — “${vote.comment}”`}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              )}
+              {selected.status === 'implemented' && selected.implementation && (
+                <div>
+                  <p className="text-sm font-medium mb-1">Applied changes</p>
+                  <ul className="space-y-1 text-sm text-muted-foreground">
+                    {selected.implementation.entries.map((entry) => (
+                      <li key={`${entry.action}-${entry.id}`}>
+                        {actionLabels[entry.action]} {entry.entity} “{entryTitle(entry)}”
+                        {entry.action === 'modify' && entry.before && (
+                          <span>
+                            {': '}
+                            {Object.keys(entry.before)
+                              .map((col) => `${col} ${formatValue(entry.before?.[col])} → ${formatValue(entry.after?.[col])}`)
+                              .join(', ')}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {selected.revertedAt && selected.status === 'approved' && (
+                <p className="text-xs text-muted-foreground">
+                  Implementation reverted {new Date(selected.revertedAt).toLocaleString()}
+                </p>
+              )}
+              <DialogFooter>
+                {canSubmit(selected) && (
+                  <Button disabled={busy} onClick={() => run(submitChangeRequest, selected.id)}>
+                    <Send className="h-4 w-4 mr-1" />
+                    {selected.status === 'rejected' ? 'Resubmit' : 'Submit for approval'}
+                  </Button>
+                )}
+                {selected.status === 'pending_approval' && canDecide(selected) && (
+                  <div className="flex flex-1 flex-wrap items-center gap-2">
+                    <Input
+                      value={comment}
+                      onChange={(e) => setComment(e.target.value)}
+                      placeholder="Comment (optional)"
+                      className="h-9 flex-1 min-w-[160px]"
+                    />
+                    <Button variant="outline" disabled={busy} onClick={() => decide(selected, false)}>
+                      <X className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                    <Button disabled={busy} onClick={() => decide(selected, true)}>
+                      <Check className="h-4 w-4 mr-1" />
+                      Approve
+                    </Button>
+                  </div>
+                )}
+                <PermissionGate allowedOrgRoles={MANAGER_ROLES}>
+                  {selected.status === 'approved' && (
+                    <Button disabled={busy} onClick={() => run(implementChangeRequest, selected.id)}>
+                      <Play className="h-4 w-4 mr-1" />
+                      Implement
+                    </Button>
+                  )}
+                  {selected.status === 'implemented' && selected.implementation && (
+                    <Button variant="outline" disabled={busy} onClick={() => run(revertChangeRequest, selected.id)}>
+                      <Undo2 className="h-4 w-4 mr-1" />
+                      Revert
+                    </Button>
+                  )}
+                </PermissionGate>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <ChangeRequestModal
+        open={modalOpen}
+        onOpenChange={setModalOpen}
+        projectId={projectId}
+        programId={programId}
+      />
+    </div>
+  );
+}
@@ -17,6 +17,8 @@ import { Badge } from '@/components/ui/badge';
 import { useCriticalPath } from '@/hooks/useCriticalPath';
 import { usePortfolioData } from '@/contexts/PortfolioDataContext';
 import type { Task } from '@/types/portfolio';
+import type { DependencyLinkType } from '@/types/masterbook';
+import { DEPENDENCY_LINK_LABELS, formatDependencyLink } from '@/lib/criticalPath';
 import { cn } from '@/lib/utils';
 
 interface DependencyImpactModalProps {
@@ -26,6 +28,9 @@ interface DependencyImpactModalProps {
   predecessorTask: Task;
   /** Successor task (blocked) */
   successorTask: Task;
+  /** Link type and lag of the new dependency (defaults to FS, no lag) */
+  linkType?: DependencyLinkType;
+  lagDays?: number;
   onConfirm: () => void;
   onCancel: () => void;
 }
@@ -35,6 +40,8 @@ export function DependencyImpactModal({
   onOpenChange,
   predecessorTask,
   successorTask,
+  linkType = 'FS',
+  lagDays = 0,
   onConfirm,
   onCancel,
 }: DependencyImpactModalProps) {
@@ -67,6 +74,14 @@ export function DependencyImpactModal({
           <p className="text-muted-foreground">
             Adding: <strong>{predecessorTask.title}</strong> blocks <strong>{successorTask.title}</strong>.
           </p>
+          <div className="flex items-center gap-2">
+            <Badge variant="secondary">{formatDependencyLink(linkType, lagDays)}</Badge>
+            <span className="text-xs text-muted-foreground">
+              {DEPENDENCY_LINK_LABELS[linkType]}
+              {lagDays > 0 && `, ${lagDays} day lag`}
+              {lagDays < 0 && `, ${-lagDays} day lead`}
+            </span>
+          </div>
 
           {createsCycle && (
             <div className="rounded-lg border border-destructive/50 bg-destructive/5 p-3 flex items-start gap-2">
@@ -0,0 +1,92 @@
+/**
+ * Risk Burndown – exposure of a scope's risks over time, replayed from the score history.
+ */
+
+import { useMemo, useState } from 'react';
+import { format, parseISO, subDays } from 'date-fns';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useRiskScoreHistory } from '@/hooks/useRisks';
+import { buildRiskBurndown } from '@/lib/riskScoring';
+import type { RiskScoreHistoryEntry } from '@/types/masterbook';
+
+const RANGES = [
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: '365', label: 'Last 12 months' },
+];
+
+const EMPTY_HISTORY: RiskScoreHistoryEntry[] = [];
+
+interface RiskBurndownChartProps {
+  /** Projects in scope; all of the org's risks when omitted */
+  projectIds?: string[];
+}
+
+export function RiskBurndownChart({ projectIds }: RiskBurndownChartProps) {
+  const { data: history = EMPTY_HISTORY } = useRiskScoreHistory();
+  const [range, setRange] = useState('90');
+
+  const points = useMemo(() => {
+    const scope = projectIds ? new Set(projectIds) : null;
+    const entries = scope ? history.filter((h) => scope.has(h.projectId)) : history;
+    const to = new Date();
+    return buildRiskBurndown(entries, subDays(to, Number(range)), to).map((p) => ({
+      ...p,
+      label: format(parseISO(p.date), 'MMM d'),
+    }));
+  }, [history, projectIds, range]);
+
+  const hasData = points.some((p) => p.exposure > 0 || p.openRisks > 0);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium">Risk burndown</p>
+        <Select value={range} onValueChange={setRange}>
+          <SelectTrigger className="h-8 w-[150px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANGES.map((r) => (
+              <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {hasData ? (
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={points} margin={{ left: 0, right: 12 }}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+              <XAxis dataKey="label" tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }} minTickGap={24} />
+              <YAxis allowDecimals={false} tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }} />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: 'hsl(var(--card))',
+                  border: '1px solid hsl(var(--border))',
+                  borderRadius: '8px',
+                }}
+              />
+              <Legend />
+              <Line type="stepAfter" dataKey="exposure" name="Exposure" stroke="hsl(var(--warning))" strokeWidth={2} dot={false} />
+              <Line type="stepAfter" dataKey="openExposure" name="Open (unmitigated)" stroke="hsl(var(--destructive))" strokeWidth={2} dot={false} />
+              <Line type="stepAfter" dataKey="openRisks" name="Open risks" stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <p className="py-8 text-center text-sm text-muted-foreground">No risk activity in this period.</p>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Exposure is the sum of probability × impact: inherent for open risks, residual once mitigated.
+      </p>
+    </div>
+  );
+}
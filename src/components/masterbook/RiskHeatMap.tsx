@@ -0,0 +1,86 @@
+/**
+ * Risk Heat Map – 5×5 probability × impact grid of a scope's risks (inherent or residual).
+ * Clicking a cell selects it so the register can drill down to those risks.
+ */
+
+import { useMemo } from 'react';
+import type { Risk, RiskScoreLevel, RiskSeverity } from '@/types/masterbook';
+import {
+  buildRiskHeatMap,
+  RISK_IMPACT_LABELS,
+  RISK_PROBABILITY_LABELS,
+  RISK_SCORE_LEVELS,
+  type RiskScoreBasis,
+} from '@/lib/riskScoring';
+import { cn } from '@/lib/utils';
+
+export interface RiskHeatMapSelection {
+  probability: RiskScoreLevel;
+  impact: RiskScoreLevel;
+}
+
+const cellColors: Record<RiskSeverity, string> = {
+  low: 'bg-success/15 hover:bg-success/25',
+  medium: 'bg-info/15 hover:bg-info/25',
+  high: 'bg-warning/20 hover:bg-warning/30',
+  critical: 'bg-destructive/20 hover:bg-destructive/30',
+};
+
+interface RiskHeatMapProps {
+  risks: Risk[];
+  basis: RiskScoreBasis;
+  selected?: RiskHeatMapSelection | null;
+  onSelect?: (cell: RiskHeatMapSelection | null) => void;
+}
+
+export function RiskHeatMap({ risks, basis, selected, onSelect }: RiskHeatMapProps) {
+  const rows = useMemo(() => buildRiskHeatMap(risks, basis), [risks, basis]);
+
+  return (
+    <div className="flex gap-2">
+      <div className="flex items-center">
+        <span className="text-xs text-muted-foreground [writing-mode:vertical-rl] rotate-180">Impact</span>
+      </div>
+      <div className="flex-1 space-y-1">
+        {rows.map((row) => (
+          <div key={row[0].impact} className="grid grid-cols-[5.5rem_repeat(5,minmax(0,1fr))] gap-1">
+            <span className="self-center truncate pr-1 text-right text-xs text-muted-foreground">
+              {RISK_IMPACT_LABELS[row[0].impact]}
+            </span>
+            {row.map((cell) => {
+              const isSelected = selected?.probability === cell.probability && selected?.impact === cell.impact;
+              const count = cell.riskIds.length;
+              return (
+                <button
+                  key={cell.probability}
+                  type="button"
+                  onClick={() => onSelect?.(isSelected ? null : { probability: cell.probability, impact: cell.impact })}
+                  disabled={!onSelect || (count === 0 && !isSelected)}
+                  className={cn(
+                    'flex h-10 items-center justify-center rounded text-sm font-medium transition-colors disabled:cursor-default',
+                    cellColors[cell.severity],
+                    count === 0 && 'text-muted-foreground/40',
+                    isSelected && 'ring-2 ring-primary ring-offset-1 ring-offset-background'
+                  )}
+                  aria-label={`Probability ${cell.probability}, impact ${cell.impact}: ${count} risk${count === 1 ? '' : 's'}`}
+                  aria-pressed={isSelected}
+                >
+                  {count > 0 ? count : cell.score}
+                </button>
+              );
+            })}
+          </div>
+        ))}
+        <div className="grid grid-cols-[5.5rem_repeat(5,minmax(0,1fr))] gap-1">
+          <span />
+          {RISK_SCORE_LEVELS.map((level) => (
+            <span key={level} className="truncate text-center text-xs text-muted-foreground">
+              {RISK_PROBABILITY_LABELS[level]}
+            </span>
+          ))}
+        </div>
+        <p className="text-center text-xs text-muted-foreground">Probability</p>
+      </div>
+    </div>
+  );
+}
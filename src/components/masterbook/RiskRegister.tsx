@@ -1,10 +1,12 @@
 /**
  * Risk Register – Masterbook "Uncertainty Brings Opportunity".
  * Lifecycle: Identified → Active → Mitigated / Realized. Link realized risks to blockers.
+ * Risks are scored probability × impact before (inherent) and after mitigation (residual); the heat map
+ * drills down into the table and the burndown charts exposure over time.
  */
 
-import { useState } from 'react';
-import { Shield, Plus, AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { Shield, Plus, AlertTriangle, CheckCircle2, XCircle, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -41,8 +43,19 @@ import {
 import { useMasterbook } from '@/contexts/MasterbookContext';
 import { usePortfolioData } from '@/contexts/PortfolioDataContext';
 import { useAuth } from '@/contexts/AuthContext';
-import type { Risk, RiskStatus, RiskSeverity } from '@/types/masterbook';
-import { cn } from '@/lib/utils';
+import { RiskHeatMap, type RiskHeatMapSelection } from '@/components/masterbook/RiskHeatMap';
+import { RiskBurndownChart } from '@/components/masterbook/RiskBurndownChart';
+import type { Risk, RiskStatus, RiskSeverity, RiskScoreLevel } from '@/types/masterbook';
+import {
+  RISK_IMPACT_LABELS,
+  RISK_PROBABILITY_LABELS,
+  RISK_SCORE_LEVELS,
+  riskLevels,
+  riskScore,
+  scoreSeverity,
+  type RiskScoreBasis,
+} from '@/lib/riskScoring';
+import { cn, optionalNumber } from '@/lib/utils';
 
 const statusLabels: Record<RiskStatus, string> = {
   identified: 'Identified',
@@ -58,6 +71,8 @@ const severityColors: Record<RiskSeverity, string> = {
   critical: 'bg-destructive/20 text-destructive',
 };
 
+const NOT_ASSESSED = '__not_assessed__';
+
 interface RiskRegisterProps {
   projectId?: string;
   /** When set, show risks for all projects in this program */
@@ -83,7 +98,14 @@ export function RiskRegister({ projectId, programId, onConvertToBlocker }: RiskR
   const [filterStatus, setFilterStatus] = useState<RiskStatus | 'all'>('all');
   const [formTitle, setFormTitle] = useState('');
   const [formDescription, setFormDescription] = useState('');
-  const [formSeverity, setFormSeverity] = useState<RiskSeverity>('medium');
+  const [formProbability, setFormProbability] = useState('3');
+  const [formImpact, setFormImpact] = useState('3');
+  const [formResidualProbability, setFormResidualProbability] = useState(NOT_ASSESSED);
+  const [formResidualImpact, setFormResidualImpact] = useState(NOT_ASSESSED);
+  const [formCostExposure, setFormCostExposure] = useState('');
+  const [formScheduleExposure, setFormScheduleExposure] = useState('');
+  const [heatBasis, setHeatBasis] = useState<RiskScoreBasis>('inherent');
+  const [heatCell, setHeatCell] = useState<RiskHeatMapSelection | null>(null);
   const [formStatus, setFormStatus] = useState<RiskStatus>('identified');
   const [formProjectId, setFormProjectId] = useState('');
   const [formOwnerId, setFormOwnerId] = useState('');
@@ -100,23 +122,50 @@ export function RiskRegister({ projectId, programId, onConvertToBlocker }: RiskR
     : programId
       ? safeRisks.filter((r) => programProjectIds.includes(r.projectId))
       : safeRisks;
-  const displayRisks = filterStatus === 'all'
+  const statusRisks = filterStatus === 'all'
     ? filteredRisks
     : filteredRisks.filter((r) => r.status === filterStatus);
+  const displayRisks = heatCell
+    ? statusRisks.filter((r) => {
+        if (r.status === 'realized') return false;
+        const levels = riskLevels(r, heatBasis);
+        return levels.probability === heatCell.probability && levels.impact === heatCell.impact;
+      })
+    : statusRisks;
+
+  const scopeProjectIdsKey = projectId ?? (programId ? programProjectIds.join(',') : '');
+  const scopeProjectIds = useMemo(
+    () => (scopeProjectIdsKey ? scopeProjectIdsKey.split(',') : undefined),
+    [scopeProjectIdsKey]
+  );
+
+  const formScore = Number(formProbability) * Number(formImpact);
+  const residualAssessed = formResidualProbability !== NOT_ASSESSED && formResidualImpact !== NOT_ASSESSED;
+  const residualPartial = (formResidualProbability === NOT_ASSESSED) !== (formResidualImpact === NOT_ASSESSED);
 
   const projectName = (id: string) => safeProjects.find((p) => p.id === id)?.name ?? '';
   const memberName = (id: string) => (teamMembers ?? []).find((m) => m.id === id)?.name ?? '';
 
-  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const title = formTitle.trim();
     if (!title || !formProjectId) return;
 
+    const scores = {
+      severity: scoreSeverity(formScore),
+      probability: Number(formProbability) as RiskScoreLevel,
+      impact: Number(formImpact) as RiskScoreLevel,
+      residualProbability: residualAssessed ? (Number(formResidualProbability) as RiskScoreLevel) : undefined,
+      residualImpact: residualAssessed ? (Number(formResidualImpact) as RiskScoreLevel) : undefined,
+      costExposure: optionalNumber(formCostExposure),
+      scheduleExposureDays: optionalNumber(formScheduleExposure),
+    };
+
     if (editingRisk) {
       updateRisk(editingRisk.id, {
         title,
         description: formDescription.trim(),
-        severity: formSeverity,
+        ...scores,
         status: formStatus,
         ownerId: formOwnerId || undefined,
         dueDate: formDueDate || undefined,
@@ -124,18 +173,23 @@ export function RiskRegister({ projectId, programId, onConvertToBlocker }: RiskR
         projectId: formProjectId,
       });
     } else {
-      addRisk({
-        title,
-        description: formDescription.trim(),
-        status: formStatus,
-        severity: formSeverity,
-        projectId: formProjectId,
-        ownerId: formOwnerId || undefined,
-        dueDate: formDueDate || undefined,
-        mitigationPlan: formMitigationPlan.trim() || undefined,
-        identifiedAt: new Date().toISOString(),
-        orgId: organization?.id || '',
-      });
+      try {
+        await addRisk({
+          title,
+          description: formDescription.trim(),
+          status: formStatus,
+          ...scores,
+          projectId: formProjectId,
+          ownerId: formOwnerId || undefined,
+          dueDate: formDueDate || undefined,
+          mitigationPlan: formMitigationPlan.trim() || undefined,
+          identifiedAt: new Date().toISOString(),
+          orgId: organization?.id || '',
+        });
+      } catch {
+        // Insert failed (toast shown) – keep the dialog open
+        return;
+      }
     }
     setModalOpen(false);
     setEditingRisk(null);
@@ -145,7 +199,12 @@ export function RiskRegister({ projectId, programId, onConvertToBlocker }: RiskR
   const resetForm = () => {
     setFormTitle('');
     setFormDescription('');
-    setFormSeverity('medium');
+    setFormProbability('3');
+    setFormImpact('3');
+    setFormResidualProbability(NOT_ASSESSED);
+    setFormResidualImpact(NOT_ASSESSED);
+    setFormCostExposure('');
+    setFormScheduleExposure('');
     setFormStatus('identified');
     setFormProjectId(projectId ?? '');
     setFormOwnerId('');
@@ -157,7 +216,12 @@ export function RiskRegister({ projectId, programId, onConvertToBlocker }: RiskR
     setEditingRisk(risk);
     setFormTitle(risk.title);
     setFormDescription(risk.description ?? '');
-    setFormSeverity(risk.severity);
+    setFormProbability(String(risk.probability));
+    setFormImpact(String(risk.impact));
+    setFormResidualProbability(risk.residualProbability ? String(risk.residualProbability) : NOT_ASSESSED);
+    setFormResidualImpact(risk.residualImpact ? String(risk.residualImpact) : NOT_ASSESSED);
+    setFormCostExposure(risk.costExposure != null ? String(risk.costExposure) : '');
+    setFormScheduleExposure(risk.scheduleExposureDays != null ? String(risk.scheduleExposureDays) : '');
     setFormStatus(risk.status);
     setFormProjectId(risk.projectId);
     setFormOwnerId(risk.ownerId ?? '');
@@ -199,13 +263,59 @@ export function RiskRegister({ projectId, programId, onConvertToBlocker }: RiskR
         </div>
       </div>
 
+      <div className="grid gap-4 lg:grid-cols-2">
+        <div className="rounded-md border p-4 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm font-medium">Heat map</p>
+            <div className="flex rounded-md border p-0.5">
+              {(['inherent', 'residual'] as const).map((basis) => (
+                <Button
+                  key={basis}
+                  type="button"
+                  size="sm"
+                  variant={heatBasis === basis ? 'secondary' : 'ghost'}
+                  className="h-7 capitalize"
+                  onClick={() => {
+                    setHeatBasis(basis);
+                    setHeatCell(null);
+                  }}
+                >
+                  {basis}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <RiskHeatMap risks={statusRisks} basis={heatBasis} selected={heatCell} onSelect={setHeatCell} />
+          {heatBasis === 'residual' && (
+            <p className="text-xs text-muted-foreground">Risks without a residual assessment keep their inherent score.</p>
+          )}
+        </div>
+        <div className="rounded-md border p-4">
+          <RiskBurndownChart projectIds={scopeProjectIds} />
+        </div>
+      </div>
+
+      {heatCell && (
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">
+            Showing {heatBasis} {RISK_PROBABILITY_LABELS[heatCell.probability].toLowerCase()} ×{' '}
+            {RISK_IMPACT_LABELS[heatCell.impact].toLowerCase()} risks
+          </span>
+          <Button variant="ghost" size="sm" className="h-7 gap-1" onClick={() => setHeatCell(null)}>
+            <X className="h-3.5 w-3.5" />
+            Clear
+          </Button>
+        </div>
+      )}
+
       <div className="rounded-md border">
         <Table>
           <TableHeader>
             <TableRow>
               <TableHead>Risk</TableHead>
               <TableHead>Project</TableHead>
-              <TableHead>Severity</TableHead>
+              <TableHead>Score</TableHead>
+              <TableHead>Exposure</TableHead>
               <TableHead>Status</TableHead>
               <TableHead>Owner</TableHead>
               <TableHead>Due</TableHead>
@@ -215,7 +325,7 @@ export function RiskRegister({ projectId, programId, onConvertToBlocker }: RiskR
           <TableBody>
             {displayRisks.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
                   No risks in this scope. Add a risk to track uncertainty and mitigation.
                 </TableCell>
               </TableRow>
@@ -232,9 +342,28 @@ export function RiskRegister({ projectId, programId, onConvertToBlocker }: RiskR
                   </TableCell>
                   <TableCell>{projectName(risk.projectId)}</TableCell>
                   <TableCell>
-                    <Badge variant="outline" className={cn('capitalize', severityColors[risk.severity])}>
-                      {risk.severity}
-                    </Badge>
+                    <div className="flex items-center gap-1.5 whitespace-nowrap">
+                      <Badge variant="outline" className={cn('capitalize', severityColors[risk.severity])}>
+                        {riskScore(risk)} {risk.severity}
+                      </Badge>
+                      {risk.residualProbability && risk.residualImpact && (
+                        <span className="text-xs text-muted-foreground" title="Residual score after mitigation">
+                          → {riskScore(risk, 'residual')}
+                        </span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm whitespace-nowrap">
+                    {risk.costExposure == null && risk.scheduleExposureDays == null ? (
+                      '—'
+                    ) : (
+                      <>
+                        {risk.costExposure != null && <div>${risk.costExposure.toLocaleString()}</div>}
+                        {risk.scheduleExposureDays != null && (
+                          <div className="text-xs text-muted-foreground">{risk.scheduleExposureDays}d slip</div>
+                        )}
+                      </>
+                    )}
                   </TableCell>
                   <TableCell>
                     <Badge variant="secondary" className="capitalize">
@@ -302,18 +431,100 @@ export function RiskRegister({ projectId, programId, onConvertToBlocker }: RiskR
             </div>
             <div className="grid grid-cols-2 gap-4">
               <div>
-                <Label htmlFor="severity">Severity</Label>
-                <Select value={formSeverity} onValueChange={(v) => setFormSeverity(v as RiskSeverity)}>
-                  <SelectTrigger id="severity" className="mt-1">
+                <Label htmlFor="probability">Probability</Label>
+                <Select value={formProbability} onValueChange={setFormProbability}>
+                  <SelectTrigger id="probability" className="mt-1">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {(['low', 'medium', 'high', 'critical'] as const).map((s) => (
-                      <SelectItem key={s} value={s}>{s}</SelectItem>
+                    {RISK_SCORE_LEVELS.map((level) => (
+                      <SelectItem key={level} value={String(level)}>{level} – {RISK_PROBABILITY_LABELS[level]}</SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
               </div>
+              <div>
+                <Label htmlFor="impact">Impact</Label>
+                <Select value={formImpact} onValueChange={setFormImpact}>
+                  <SelectTrigger id="impact" className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RISK_SCORE_LEVELS.map((level) => (
+                      <SelectItem key={level} value={String(level)}>{level} – {RISK_IMPACT_LABELS[level]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground -mt-2">
+              Score {formScore} ·{' '}
+              <Badge variant="outline" className={cn('capitalize', severityColors[scoreSeverity(formScore)])}>
+                {scoreSeverity(formScore)}
+              </Badge>
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="residualProbability">Residual probability</Label>
+                <Select value={formResidualProbability} onValueChange={setFormResidualProbability}>
+                  <SelectTrigger id="residualProbability" className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_ASSESSED}>Not assessed</SelectItem>
+                    {RISK_SCORE_LEVELS.map((level) => (
+                      <SelectItem key={level} value={String(level)}>{level} – {RISK_PROBABILITY_LABELS[level]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="residualImpact">Residual impact</Label>
+                <Select value={formResidualImpact} onValueChange={setFormResidualImpact}>
+                  <SelectTrigger id="residualImpact" className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_ASSESSED}>Not assessed</SelectItem>
+                    {RISK_SCORE_LEVELS.map((level) => (
+                      <SelectItem key={level} value={String(level)}>{level} – {RISK_IMPACT_LABELS[level]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {residualPartial && (
+              <p className="text-xs text-muted-foreground -mt-2">Set both residual values to score the risk after mitigation.</p>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="costExposure">Cost exposure</Label>
+                <Input
+                  id="costExposure"
+                  type="number"
+                  min={0}
+                  step="any"
+                  placeholder="If it occurs"
+                  value={formCostExposure}
+                  onChange={(e) => setFormCostExposure(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="scheduleExposure">Schedule exposure (days)</Label>
+                <Input
+                  id="scheduleExposure"
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  placeholder="If it occurs"
+                  value={formScheduleExposure}
+                  onChange={(e) => setFormScheduleExposure(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
               <div>
                 <Label htmlFor="status">Status</Label>
                 <Select value={formStatus} onValueChange={(v) => setFormStatus(v as RiskStatus)}>
@@ -327,19 +538,19 @@ export function RiskRegister({ projectId, programId, onConvertToBlocker }: RiskR
                   </SelectContent>
                 </Select>
               </div>
-            </div>
-            <div>
-              <Label htmlFor="projectId">Project</Label>
-              <Select value={formProjectId} onValueChange={setFormProjectId} required>
-                <SelectTrigger id="projectId" className="mt-1">
-                  <SelectValue placeholder="Select project" />
-                </SelectTrigger>
-                <SelectContent>
-                  {safeProjects.map((p) => (
-                    <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <div>
+                <Label htmlFor="projectId">Project</Label>
+                <Select value={formProjectId} onValueChange={setFormProjectId} required>
+                  <SelectTrigger id="projectId" className="mt-1">
+                    <SelectValue placeholder="Select project" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {safeProjects.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
             <div>
               <Label htmlFor="ownerId">Owner</Label>
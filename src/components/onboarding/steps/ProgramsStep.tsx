@@ -6,10 +6,12 @@ import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Check, Plus, X, Layers, Info, Users, Sparkles, ChevronDown } from 'lucide-react';
+import { Check, Plus, X, Layers, Info, Users, Sparkles, ChevronDown, FileUp } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useOnboardingData } from '@/contexts/OnboardingDataContext';
+import { PermissionGate } from '@/components/permissions/PermissionGate';
+import { WorkImportWizard } from '@/components/projects/WorkImportWizard';
 import {
   Tooltip,
   TooltipContent,
@@ -32,6 +34,7 @@ export function ProgramsStep({ onComplete, isComplete }: ProgramsStepProps) {
   const { portfolios, programs, addProgram, removeProgram, updateProgram, teamMembers } = useOnboardingData();
   
   const [name, setName] = useState('');
+  const [importOpen, setImportOpen] = useState(false);
   const [description, setDescription] = useState('');
   const [portfolioId, setPortfolioId] = useState<string>('');
   const [expandedPortfolios, setExpandedPortfolios] = useState<string[]>([]);
@@ -187,10 +190,18 @@ export function ProgramsStep({ onComplete, isComplete }: ProgramsStepProps) {
           />
         </div>
       </div>
-      <Button onClick={handleAddProgram} variant="secondary" className="w-full sm:w-auto">
-        <Plus className="h-4 w-4 mr-2" />
-        Add Program
-      </Button>
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Button onClick={handleAddProgram} variant="secondary" className="w-full sm:w-auto">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Program
+        </Button>
+        <PermissionGate allowedOrgRoles={['owner', 'admin', 'manager']}>
+          <Button onClick={() => setImportOpen(true)} variant="outline" className="w-full sm:w-auto">
+            <FileUp className="h-4 w-4 mr-2" />
+            Import from Jira, Asana, Trello or CSV
+          </Button>
+        </PermissionGate>
+      </div>
 
       {/* Programs organized by portfolio */}
       {programs.length > 0 && (
@@ -310,6 +321,8 @@ export function ProgramsStep({ onComplete, isComplete }: ProgramsStepProps) {
           {programs.length > 0 ? 'Save & Continue' : 'Continue'}
         </Button>
       </div>
+
+      <WorkImportWizard open={importOpen} onOpenChange={setImportOpen} />
     </div>
   );
 }
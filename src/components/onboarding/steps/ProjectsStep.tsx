@@ -6,9 +6,11 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { Check, Plus, X, FolderKanban, Layers, Users, Sparkles, ChevronDown } from 'lucide-react';
+import { Check, Plus, X, FolderKanban, Layers, Users, Sparkles, ChevronDown, FileUp } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useOnboardingData } from '@/contexts/OnboardingDataContext';
+import { PermissionGate } from '@/components/permissions/PermissionGate';
+import { WorkImportWizard } from '@/components/projects/WorkImportWizard';
 import {
   Tooltip,
   TooltipContent,
@@ -31,6 +33,7 @@ export function ProjectsStep({ onComplete, isComplete }: ProjectsStepProps) {
   const { portfolios, programs, projects, addProject, removeProject, updateProject, teamMembers } = useOnboardingData();
   
   const [name, setName] = useState('');
+  const [importOpen, setImportOpen] = useState(false);
   const [description, setDescription] = useState('');
   const [status, setStatus] = useState('planning');
   const [programId, setProgramId] = useState<string>('');
@@ -257,10 +260,18 @@ export function ProjectsStep({ onComplete, isComplete }: ProjectsStepProps) {
           </div>
         </div>
       </div>
-      <Button onClick={handleAddProject} variant="secondary" className="w-full sm:w-auto">
-        <Plus className="h-4 w-4 mr-2" />
-        Add Project
-      </Button>
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Button onClick={handleAddProject} variant="secondary" className="w-full sm:w-auto">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Project
+        </Button>
+        <PermissionGate allowedOrgRoles={['owner', 'admin', 'manager']}>
+          <Button onClick={() => setImportOpen(true)} variant="outline" className="w-full sm:w-auto">
+            <FileUp className="h-4 w-4 mr-2" />
+            Import from Jira, Asana, Trello or CSV
+          </Button>
+        </PermissionGate>
+      </div>
 
       {/* Projects organized by program */}
       {projects.length > 0 && (
@@ -393,6 +404,8 @@ export function ProjectsStep({ onComplete, isComplete }: ProjectsStepProps) {
           {projects.length > 0 ? 'Save & Continue' : 'Continue'}
         </Button>
       </div>
+
+      <WorkImportWizard open={importOpen} onOpenChange={setImportOpen} />
     </div>
   );
 }
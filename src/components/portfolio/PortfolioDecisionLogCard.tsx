@@ -1,11 +1,11 @@
 /**
  * Portfolio Decision Log – Masterbook "Discipline Defines Reality".
- * Append-only log; add entry via simple form; list recent decisions.
+ * Append-only log; add entry via simple form; list recent decisions; hash-chain integrity badge.
  */
 
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { FileText, Plus } from 'lucide-react';
+import { FileText, Plus, ShieldAlert, ShieldCheck } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -26,7 +26,10 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { useMasterbook } from '@/contexts/MasterbookContext';
+import { usePortfolioDecisionChainStatus } from '@/hooks/usePortfolioDecisions';
 import { useAuth } from '@/contexts/AuthContext';
 import type { PortfolioDecisionType } from '@/types/masterbook';
 import { format } from 'date-fns';
@@ -55,6 +58,7 @@ export function PortfolioDecisionLogCard({
 }: PortfolioDecisionLogCardProps) {
   const { user } = useAuth();
   const { getPortfolioDecisionLog, appendPortfolioDecision } = useMasterbook();
+  const { data: chainStatus } = usePortfolioDecisionChainStatus();
   const [modalOpen, setModalOpen] = useState(false);
   const [formType, setFormType] = useState<PortfolioDecisionType>('other');
   const [formTitle, setFormTitle] = useState('');
@@ -65,18 +69,23 @@ export function PortfolioDecisionLogCard({
   const recentEntries = entries.slice(-10).reverse();
   const decidedByLabel = (userId: string) => (userId === user?.id ? 'You' : 'Team');
 
-  const handleAdd = () => {
+  const handleAdd = async () => {
     if (!formTitle.trim() || !user?.id) return;
-    appendPortfolioDecision({
-      type: formType,
-      title: formTitle.trim(),
-      description: formDescription.trim(),
-      portfolioId,
-      projectIds,
-      programIds,
-      decidedBy: user.id,
-      outcome: formOutcome.trim() || '—',
-    });
+    try {
+      await appendPortfolioDecision({
+        type: formType,
+        title: formTitle.trim(),
+        description: formDescription.trim(),
+        portfolioId,
+        projectIds,
+        programIds,
+        decidedBy: user.id,
+        outcome: formOutcome.trim() || '—',
+      });
+    } catch {
+      // Insert failed (toast shown) – keep the dialog open
+      return;
+    }
     setFormTitle('');
     setFormDescription('');
     setFormOutcome('');
@@ -95,6 +104,36 @@ export function PortfolioDecisionLogCard({
         <div>
           <h3 className="font-display text-lg font-semibold text-card-foreground">Decision Log</h3>
           <p className="mt-1 text-sm text-muted-foreground">Append-only record of portfolio decisions</p>
+          {chainStatus && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Badge
+                  variant="outline"
+                  className={cn(
+                    'mt-2 gap-1 font-normal',
+                    chainStatus.isValid ? 'border-success/40 text-success' : 'border-destructive/40 text-destructive'
+                  )}
+                >
+                  {chainStatus.isValid ? (
+                    <ShieldCheck className="h-3 w-3" />
+                  ) : (
+                    <ShieldAlert className="h-3 w-3" />
+                  )}
+                  {chainStatus.isValid
+                    ? 'Chain intact'
+                    : `Chain broken at #${chainStatus.firstInvalidSequence}`}
+                </Badge>
+              </TooltipTrigger>
+              <TooltipContent className="max-w-xs text-xs">
+                {chainStatus.isValid
+                  ? `${chainStatus.checkedCount} organization entries verified against their hash chain.`
+                  : 'An entry no longer matches its recorded hash. The log may have been altered outside the app.'}
+                {chainStatus.headHash && (
+                  <span className="mt-1 block font-mono">Head: {chainStatus.headHash.slice(0, 16)}…</span>
+                )}
+              </TooltipContent>
+            </Tooltip>
+          )}
         </div>
         <Button variant="outline" size="sm" onClick={() => setModalOpen(true)}>
           <Plus className="h-4 w-4 mr-1" />
@@ -0,0 +1,110 @@
+/**
+ * Portfolio Risk Health – Masterbook "Uncertainty Brings Opportunity".
+ * Rolls risk scores and exposure up to health signals for the portfolio, its programs and projects.
+ */
+
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { useMasterbook } from '@/contexts/MasterbookContext';
+import type { Program, Project } from '@/types/portfolio';
+import type { PortfolioHealthSignal } from '@/types/masterbook';
+import { buildRiskHealthSignals } from '@/lib/riskScoring';
+import { cn } from '@/lib/utils';
+
+const signalLabels: Record<PortfolioHealthSignal['signal'], string> = {
+  on_track: 'On track',
+  at_risk: 'At risk',
+  critical: 'Critical',
+  blocked: 'Blocked',
+};
+
+const signalColors: Record<PortfolioHealthSignal['signal'], string> = {
+  on_track: 'border-success/30 text-success',
+  at_risk: 'border-warning/30 text-warning',
+  critical: 'border-destructive/30 text-destructive',
+  blocked: 'border-destructive/30 text-destructive',
+};
+
+interface PortfolioRiskHealthCardProps {
+  portfolioId: string;
+  /** The portfolio's programs and projects */
+  programs: Program[];
+  projects: Project[];
+}
+
+export function PortfolioRiskHealthCard({ portfolioId, programs, projects }: PortfolioRiskHealthCardProps) {
+  const { risks } = useMasterbook();
+
+  const [portfolioSignal, ...signals] = useMemo(
+    () => buildRiskHealthSignals(portfolioId, risks, programs, projects),
+    [portfolioId, risks, programs, projects]
+  );
+  const flagged = signals.filter((s) => s.signal !== 'on_track');
+
+  const scopeName = (signal: PortfolioHealthSignal) =>
+    signal.projectId
+      ? projects.find((p) => p.id === signal.projectId)?.name ?? 'Project'
+      : programs.find((p) => p.id === signal.programId)?.name ?? 'Program';
+  const scopeLink = (signal: PortfolioHealthSignal) =>
+    signal.projectId ? `/projects/${signal.projectId}` : `/programs/${signal.programId}`;
+
+  const healthy = portfolioSignal.signal === 'on_track';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.2 }}
+      className={cn(
+        'rounded-xl border bg-card p-6 shadow-card',
+        healthy ? 'border-border' : portfolioSignal.signal === 'at_risk' ? 'border-warning/30' : 'border-destructive/30'
+      )}
+    >
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-display text-lg font-semibold text-card-foreground">Risk Exposure</h3>
+          <p className="mt-1 text-sm text-muted-foreground">{portfolioSignal.reason}</p>
+        </div>
+        <div
+          className={cn(
+            'flex h-10 w-10 items-center justify-center rounded-lg',
+            healthy ? 'bg-success/10' : portfolioSignal.signal === 'at_risk' ? 'bg-warning/10' : 'bg-destructive/10'
+          )}
+        >
+          {healthy ? (
+            <ShieldCheck className="h-5 w-5 text-success" />
+          ) : (
+            <ShieldAlert
+              className={cn('h-5 w-5', portfolioSignal.signal === 'at_risk' ? 'text-warning' : 'text-destructive')}
+            />
+          )}
+        </div>
+      </div>
+      {portfolioSignal.metric && <p className="mt-2 text-xs text-muted-foreground">{portfolioSignal.metric}</p>}
+      {flagged.length > 0 && (
+        <div className="mt-4 space-y-2">
+          {flagged.map((signal) => (
+            <div
+              key={`${signal.programId}-${signal.projectId ?? ''}`}
+              className="rounded-lg border border-border bg-muted/30 p-3"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <Link to={scopeLink(signal)} className="truncate text-sm font-medium hover:underline">
+                  {scopeName(signal)}
+                  {!signal.projectId && <span className="ml-1 text-xs font-normal text-muted-foreground">(program)</span>}
+                </Link>
+                <Badge variant="outline" className={cn('shrink-0 text-xs', signalColors[signal.signal])}>
+                  {signalLabels[signal.signal]}
+                </Badge>
+              </div>
+              <p className="mt-0.5 text-xs text-muted-foreground">{signal.reason}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -20,6 +20,11 @@ import { cn } from '@/lib/utils';
 import { Program, Project, Task } from '@/types/portfolio';
 import { DateRange } from 'react-day-picker';
 import { useToast } from '@/hooks/use-toast';
+import { useWorkingCalendar } from '@/hooks/useWorkingCalendar';
+import { isWorkingDay, toDateKey } from '@/lib/workingCalendar';
+import { useBaselineOverlay } from '@/hooks/useScheduleBaselines';
+import { BaselineSelect } from '@/components/baselines/BaselineSelect';
+import { BaselineGhostBar } from '@/components/baselines/BaselineGhostBar';
 
 interface ProgramGanttProps {
   programs: Program[];
@@ -37,8 +42,14 @@ const statusColors: Record<string, string> = {
 };
 
 export function ProgramGantt({ programs, projects, tasks, onProgramClick, onProgramUpdate }: ProgramGanttProps) {
+  const { calendar } = useWorkingCalendar();
   const { toast } = useToast();
   const timelineRef = useRef<HTMLDivElement>(null);
+
+  // Baseline ghost bars for the shown programs and their projects
+  const baselineProgramIds = useMemo(() => programs.map((p) => p.id), [programs]);
+  const baselineProjectIds = useMemo(() => projects.map((p) => p.id), [projects]);
+  const baselineOverlay = useBaselineOverlay(baselineProjectIds, baselineProgramIds);
   
   // Expanded programs for showing projects
   const [expandedPrograms, setExpandedPrograms] = useState<Set<string>>(new Set());
@@ -359,9 +370,12 @@ export function ProgramGantt({ programs, projects, tasks, onProgramClick, onProg
             </PopoverContent>
           </Popover>
         </div>
-        <Button variant="outline" size="sm" onClick={goToToday}>
-          Today
-        </Button>
+        <div className="flex items-center gap-2">
+          <BaselineSelect baselines={baselineOverlay.baselines} value={baselineOverlay.selectedId} onChange={baselineOverlay.setSelectedId} />
+          <Button variant="outline" size="sm" onClick={goToToday}>
+            Today
+          </Button>
+        </div>
       </div>
 
       {/* Gantt Chart */}
@@ -407,9 +421,10 @@ export function ProgramGantt({ programs, projects, tasks, onProgramClick, onProg
                     className={cn(
                       "text-center py-1 text-[10px] border-r border-border/30 last:border-r-0",
                       isToday(day) ? "bg-primary/20 text-primary font-bold" : 
-                      day.getDay() === 0 || day.getDay() === 6 ? "bg-muted text-muted-foreground" : "text-muted-foreground"
+                      !isWorkingDay(calendar, day) ? "bg-muted text-muted-foreground" : "text-muted-foreground"
                     )}
                     style={{ width: `${dayWidth}%` }}
+                    title={calendar.holidays.get(toDateKey(day))}
                   >
                     {format(day, 'd')}
                   </div>
@@ -509,7 +524,7 @@ export function ProgramGantt({ programs, projects, tasks, onProgramClick, onProg
                               className={cn(
                                 "border-r last:border-r-0",
                                 day.getDay() === 0 ? "border-border" : "border-border/20",
-                                day.getDay() === 0 || day.getDay() === 6 ? "bg-muted" : "",
+                                !isWorkingDay(calendar, day) ? "bg-muted" : "",
                                 isToday(day) ? "bg-primary/10" : ""
                               )}
                               style={{ width: `${dayWidth}%` }}
@@ -517,6 +532,15 @@ export function ProgramGantt({ programs, projects, tasks, onProgramClick, onProg
                           ))}
                         </div>
 
+                        {/* Baseline ghost */}
+                        <BaselineGhostBar
+                          startDate={baselineOverlay.getItem('program', program.id)?.start_date}
+                          dueDate={baselineOverlay.getItem('program', program.id)?.due_date}
+                          rangeStart={dateRange.start}
+                          totalDays={totalDays}
+                          className="h-7"
+                        />
+
                         {/* Program Bar */}
                         {position && !position.outOfView ? (
                           <div
@@ -640,7 +664,7 @@ export function ProgramGantt({ programs, projects, tasks, onProgramClick, onProg
                                           className={cn(
                                             "border-r last:border-r-0",
                                             day.getDay() === 0 ? "border-border/50" : "border-border/10",
-                                            day.getDay() === 0 || day.getDay() === 6 ? "bg-muted/50" : "",
+                                            !isWorkingDay(calendar, day) ? "bg-muted/50" : "",
                                             isToday(day) ? "bg-primary/5" : ""
                                           )}
                                           style={{ width: `${dayWidth}%` }}
@@ -648,6 +672,15 @@ export function ProgramGantt({ programs, projects, tasks, onProgramClick, onProg
                                       ))}
                                     </div>
 
+                                    {/* Baseline ghost */}
+                                    <BaselineGhostBar
+                                      startDate={baselineOverlay.getItem('project', project.id)?.start_date}
+                                      dueDate={baselineOverlay.getItem('project', project.id)?.due_date}
+                                      rangeStart={dateRange.start}
+                                      totalDays={totalDays}
+                                      className="h-5"
+                                    />
+
                                     {/* Project Bar */}
                                     {projectPosition && !projectPosition.outOfView ? (
                                       <div
@@ -732,7 +765,7 @@ export function ProgramGantt({ programs, projects, tasks, onProgramClick, onProg
                                                     className={cn(
                                                       "border-r last:border-r-0",
                                                       day.getDay() === 0 ? "border-border/30" : "border-border/10",
-                                                      day.getDay() === 0 || day.getDay() === 6 ? "bg-muted/30" : "",
+                                                      !isWorkingDay(calendar, day) ? "bg-muted/30" : "",
                                                       isToday(day) ? "bg-primary/5" : ""
                                                     )}
                                                     style={{ width: `${dayWidth}%` }}
@@ -740,6 +773,15 @@ export function ProgramGantt({ programs, projects, tasks, onProgramClick, onProg
                                                 ))}
                                               </div>
 
+                                              {/* Baseline ghost */}
+                                              <BaselineGhostBar
+                                                startDate={baselineOverlay.getItem('task', task.id)?.start_date}
+                                                dueDate={baselineOverlay.getItem('task', task.id)?.due_date}
+                                                rangeStart={dateRange.start}
+                                                totalDays={totalDays}
+                                                className="h-4"
+                                              />
+
                                               {/* Task Bar */}
                                               {taskPosition && !taskPosition.outOfView ? (
                                                 <div
@@ -804,6 +846,12 @@ export function ProgramGantt({ programs, projects, tasks, onProgramClick, onProg
               <div className="w-3 h-3 rounded-sm bg-success" />
               <span className="text-muted-foreground">Completed</span>
             </div>
+            {baselineOverlay.selectedId && (
+              <div className="flex items-center gap-1">
+                <div className="w-3 h-3 rounded-sm border border-dashed border-foreground/40 bg-foreground/5" />
+                <span className="text-muted-foreground">Baseline</span>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,175 @@
+/**
+ * MS Project Import Dialog – reads an MS Project XML file, previews what it changes in the
+ * project (tasks and milestones created or updated, dependencies, baselines, anything that can't
+ * be imported as it is) and applies it in one transaction.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, FileUp, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useImportProjectPlan, useProjectBaselineSnapshots } from '@/hooks/useMsProject';
+import { buildMsProjectImport, parseMsProjectXml, type MsProjectFile } from '@/lib/msProject';
+import type { Milestone, Project, Task, TeamMember } from '@/types/portfolio';
+
+interface MsProjectImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  project: Project;
+  /** The project's tasks and milestones */
+  tasks: Task[];
+  milestones: Milestone[];
+  teamMembers: TeamMember[];
+}
+
+export function MsProjectImportDialog({ open, onOpenChange, project, tasks, milestones, teamMembers }: MsProjectImportDialogProps) {
+  const { data: baselines, isLoading: baselinesLoading } = useProjectBaselineSnapshots(project.id, open);
+  const importPlan = useImportProjectPlan();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [file, setFile] = useState<MsProjectFile | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      setFileName(null);
+      setFile(null);
+      setParseError(null);
+    }
+  }, [open]);
+
+  const preview = useMemo(
+    () => (file && baselines ? buildMsProjectImport(file, { tasks, milestones, teamMembers, baselines }) : null),
+    [file, baselines, tasks, milestones, teamMembers]
+  );
+
+  const handleFile = async (selected: File | undefined) => {
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!selected) return;
+    setFileName(selected.name);
+    try {
+      setFile(parseMsProjectXml(await selected.text()));
+      setParseError(null);
+    } catch (error) {
+      setFile(null);
+      setParseError(error instanceof Error ? error.message : 'The file could not be read');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    try {
+      await importPlan.mutateAsync({ projectId: project.id, plan: preview.plan });
+      onOpenChange(false);
+    } catch {
+      // Error toast is raised by the mutation
+    }
+  };
+
+  const empty = preview && preview.plan.tasks.length === 0 && preview.plan.milestones.length === 0;
+  const rows = preview
+    ? [
+        { label: 'Tasks', created: preview.tasksCreated, updated: preview.tasksUpdated },
+        { label: 'Milestones', created: preview.milestonesCreated, updated: preview.milestonesUpdated },
+      ]
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileUp className="h-5 w-5" />
+            Import from MS Project
+          </DialogTitle>
+          <DialogDescription>
+            Choose a file saved from Microsoft Project as XML. Tasks exported from {project.name} are updated,
+            new ones are added, and its links replace the project's blocking dependencies.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-3">
+          <Button variant="outline" className="gap-1.5" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4" />
+            Choose file
+          </Button>
+          <span className="min-w-0 truncate text-sm text-muted-foreground">{fileName ?? 'No file chosen'}</span>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xml,application/xml,text/xml"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+        </div>
+
+        {parseError && <p className="text-sm text-destructive">{parseError}</p>}
+
+        {file && baselinesLoading && <p className="text-sm text-muted-foreground">Comparing with the project…</p>}
+
+        {preview && (
+          <div className="space-y-3">
+            {empty ? (
+              <p className="text-sm text-muted-foreground">The file has no tasks or milestones to import.</p>
+            ) : (
+              <ul className="divide-y divide-border rounded-md border border-border text-sm">
+                {rows.map((row) => (
+                  <li key={row.label} className="flex items-center justify-between px-3 py-2">
+                    <span className="font-medium">{row.label}</span>
+                    <span className="text-muted-foreground">
+                      {row.created} new · {row.updated} updated
+                    </span>
+                  </li>
+                ))}
+                <li className="flex items-center justify-between px-3 py-2">
+                  <span className="font-medium">Dependencies</span>
+                  <span className="text-muted-foreground">{preview.plan.dependencies.length}</span>
+                </li>
+                <li className="flex items-center justify-between px-3 py-2">
+                  <span className="font-medium">Baselines</span>
+                  <span className="truncate pl-4 text-muted-foreground">
+                    {preview.baselineNames.length > 0 ? preview.baselineNames.join(', ') : 'None new'}
+                  </span>
+                </li>
+              </ul>
+            )}
+
+            {preview.tasksUntouched > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {preview.tasksUntouched} existing task{preview.tasksUntouched === 1 ? ' is' : 's are'} not in the file
+                and will be left as {preview.tasksUntouched === 1 ? 'it is' : 'they are'}.
+              </p>
+            )}
+
+            {preview.warnings.length > 0 && (
+              <ul className="space-y-1 rounded-md border border-warning/40 bg-warning/10 p-3 text-xs">
+                {preview.warnings.map((warning) => (
+                  <li key={warning} className="flex gap-2">
+                    <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0 text-warning" />
+                    <span>{warning}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!preview || !!empty || importPlan.isPending}>
+            {importPlan.isPending ? 'Importing…' : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -21,6 +21,11 @@ import { cn } from '@/lib/utils';
 import { Project, Program, Task } from '@/types/portfolio';
 import { DateRange } from 'react-day-picker';
 import { useToast } from '@/hooks/use-toast';
+import { useWorkingCalendar } from '@/hooks/useWorkingCalendar';
+import { isWorkingDay, toDateKey } from '@/lib/workingCalendar';
+import { useBaselineOverlay } from '@/hooks/useScheduleBaselines';
+import { BaselineSelect } from '@/components/baselines/BaselineSelect';
+import { BaselineGhostBar } from '@/components/baselines/BaselineGhostBar';
 
 interface ProjectGanttProps {
   projects: Project[];
@@ -43,9 +48,15 @@ const statusColors: Record<string, string> = {
 };
 
 export function ProjectGantt({ projects, programs, tasks = [], onProjectEdit, onProjectUpdate, onTaskEdit }: ProjectGanttProps) {
+  const { calendar } = useWorkingCalendar();
   const navigate = useNavigate();
   const { toast } = useToast();
   const timelineRef = useRef<HTMLDivElement>(null);
+
+  // Baseline ghost bars for the shown projects (project or program baselines)
+  const baselineProjectIds = useMemo(() => projects.map((p) => p.id), [projects]);
+  const baselineProgramIds = useMemo(() => [...new Set(projects.map((p) => p.programId))], [projects]);
+  const baselineOverlay = useBaselineOverlay(baselineProjectIds, baselineProgramIds);
   
   // Expanded projects for showing tasks
   const [expandedProjects, setExpandedProjects] = useState<Set<string>>(new Set());
@@ -303,9 +314,12 @@ export function ProjectGantt({ projects, programs, tasks = [], onProjectEdit, on
             </PopoverContent>
           </Popover>
         </div>
-        <Button variant="outline" size="sm" onClick={goToToday}>
-          Today
-        </Button>
+        <div className="flex items-center gap-2">
+          <BaselineSelect baselines={baselineOverlay.baselines} value={baselineOverlay.selectedId} onChange={baselineOverlay.setSelectedId} />
+          <Button variant="outline" size="sm" onClick={goToToday}>
+            Today
+          </Button>
+        </div>
       </div>
 
       {/* Gantt Chart */}
@@ -351,9 +365,10 @@ export function ProjectGantt({ projects, programs, tasks = [], onProjectEdit, on
                     className={cn(
                       "text-center py-1 text-[10px] border-r border-border/30 last:border-r-0",
                       isToday(day) ? "bg-primary/20 text-primary font-bold" : 
-                      day.getDay() === 0 || day.getDay() === 6 ? "bg-muted text-muted-foreground" : "text-muted-foreground"
+                      !isWorkingDay(calendar, day) ? "bg-muted text-muted-foreground" : "text-muted-foreground"
                     )}
                     style={{ width: `${dayWidth}%` }}
+                    title={calendar.holidays.get(toDateKey(day))}
                   >
                     {format(day, 'd')}
                   </div>
@@ -455,7 +470,7 @@ export function ProjectGantt({ projects, programs, tasks = [], onProjectEdit, on
                               className={cn(
                                 "border-r last:border-r-0",
                                 day.getDay() === 0 ? "border-border" : "border-border/20",
-                                day.getDay() === 0 || day.getDay() === 6 ? "bg-muted" : "",
+                                !isWorkingDay(calendar, day) ? "bg-muted" : "",
                                 isToday(day) ? "bg-primary/10" : ""
                               )}
                               style={{ width: `${dayWidth}%` }}
@@ -463,6 +478,15 @@ export function ProjectGantt({ projects, programs, tasks = [], onProjectEdit, on
                           ))}
                         </div>
 
+                        {/* Baseline ghost */}
+                        <BaselineGhostBar
+                          startDate={baselineOverlay.getItem('project', project.id)?.start_date}
+                          dueDate={baselineOverlay.getItem('project', project.id)?.due_date}
+                          rangeStart={dateRange.start}
+                          totalDays={totalDays}
+                          className="h-7"
+                        />
+
                         {/* Project Bar */}
                         {position && !position.outOfView ? (
                           <div
@@ -566,7 +590,7 @@ export function ProjectGantt({ projects, programs, tasks = [], onProjectEdit, on
                                         className={cn(
                                           "border-r last:border-r-0",
                                           day.getDay() === 0 ? "border-border/50" : "border-border/10",
-                                          day.getDay() === 0 || day.getDay() === 6 ? "bg-muted/50" : "",
+                                          !isWorkingDay(calendar, day) ? "bg-muted/50" : "",
                                           isToday(day) ? "bg-primary/5" : ""
                                         )}
                                         style={{ width: `${dayWidth}%` }}
@@ -574,6 +598,15 @@ export function ProjectGantt({ projects, programs, tasks = [], onProjectEdit, on
                                     ))}
                                   </div>
 
+                                  {/* Baseline ghost */}
+                                  <BaselineGhostBar
+                                    startDate={baselineOverlay.getItem('task', task.id)?.start_date}
+                                    dueDate={baselineOverlay.getItem('task', task.id)?.due_date}
+                                    rangeStart={dateRange.start}
+                                    totalDays={totalDays}
+                                    className="h-5"
+                                  />
+
                                   {/* Task Bar */}
                                   {taskPosition && !taskPosition.outOfView ? (
                                     <div
@@ -635,6 +668,12 @@ export function ProjectGantt({ projects, programs, tasks = [], onProjectEdit, on
               <div className="w-3 h-3 rounded-sm bg-success" />
               <span className="text-muted-foreground">Completed</span>
             </div>
+            {baselineOverlay.selectedId && (
+              <div className="flex items-center gap-1">
+                <div className="w-3 h-3 rounded-sm border border-dashed border-foreground/40 bg-foreground/5" />
+                <span className="text-muted-foreground">Baseline</span>
+              </div>
+            )}
           </div>
         </div>
       </div>
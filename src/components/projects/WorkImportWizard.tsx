@@ -0,0 +1,520 @@
+/**
+ * Work Import Wizard – brings projects and tasks over from CSV / Excel sheets (with a column
+ * mapping), Jira CSV or JSON, Asana JSON and Trello JSON exports. Source statuses are mapped
+ * onto task statuses and assignees onto team members; a dry run lists what will be created and
+ * every row that can't be imported as it is, downloadable as an error report.
+ */
+
+import { useMemo, useRef, useState } from 'react';
+import { AlertTriangle, ArrowLeft, ArrowRight, Download, FileUp, Upload, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { usePortfolioData } from '@/contexts/PortfolioDataContext';
+import { useImportWorkItems, type WorkImportResult } from '@/hooks/useWorkImport';
+import { parseCsv } from '@/lib/csv';
+import { readXlsxRows } from '@/lib/xlsx';
+import {
+  buildWorkImport,
+  csvRowsToTasks,
+  CSV_IMPORT_FIELDS,
+  guessCsvMapping,
+  importAssignees,
+  importStatuses,
+  importStatusOptions,
+  isJiraCsv,
+  jiraCsvToTasks,
+  jsonToWorkImport,
+  suggestMemberTarget,
+  suggestStatusTarget,
+  workImportIssuesToCsv,
+  WORK_IMPORT_SOURCE_LABELS,
+  type CsvColumnMapping,
+  type CsvImportField,
+  type MemberTarget,
+  type StatusTarget,
+  type WorkImportDataset,
+} from '@/lib/workImport';
+
+interface WorkImportWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Program preselected as the target */
+  defaultProgramId?: string;
+  onImported?: (result: WorkImportResult) => void;
+}
+
+type Step = 'file' | 'columns' | 'mapping' | 'preview';
+
+const NEW = '__new';
+const NONE = '__none';
+
+const statusValue = (target: StatusTarget) => (target.kind === 'new' ? NEW : target.id);
+const memberValue = (target: MemberTarget) => (target.kind === 'member' ? target.id : target.kind === 'new' ? NEW : NONE);
+
+export function WorkImportWizard({ open, onOpenChange, defaultProgramId, onImported }: WorkImportWizardProps) {
+  const { portfolios, programs, projects, teamMembers } = usePortfolioData();
+  const importWork = useImportWorkItems();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [step, setStep] = useState<Step>('file');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [columnMapping, setColumnMapping] = useState<CsvColumnMapping>({});
+  const [dataset, setDataset] = useState<WorkImportDataset | null>(null);
+
+  const [programChoice, setProgramId] = useState<string | null>(null);
+  const [programName, setProgramName] = useState('');
+  const [portfolioChoice, setPortfolioId] = useState<string | null>(null);
+  const [portfolioName, setPortfolioName] = useState('Imported work');
+  const [defaultProject, setDefaultProject] = useState('');
+  const [statusOverrides, setStatusOverrides] = useState<Record<string, StatusTarget>>({});
+  const [memberOverrides, setMemberOverrides] = useState<Record<string, MemberTarget>>({});
+
+  const reset = () => {
+    setStep('file');
+    setFileName(null);
+    setFileError(null);
+    setRows([]);
+    setColumnMapping({});
+    setDataset(null);
+    setStatusOverrides({});
+    setMemberOverrides({});
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const applyDataset = (next: WorkImportDataset) => {
+    setDataset(next);
+    setDefaultProject(next.name);
+    setProgramName(next.name);
+    setStep('mapping');
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+    setFileName(file.name);
+    setFileError(null);
+    const name = file.name.replace(/\.[^.]+$/, '');
+    try {
+      if (/\.json$/i.test(file.name)) {
+        applyDataset(jsonToWorkImport(await file.text(), file.name));
+        return;
+      }
+      const sheet = /\.xlsx$/i.test(file.name) ? readXlsxRows(new Uint8Array(await file.arrayBuffer())) : parseCsv(await file.text());
+      if (sheet.length < 2) throw new Error('The file has no rows below its header');
+      if (isJiraCsv(sheet[0])) {
+        applyDataset(jiraCsvToTasks(sheet, name));
+        return;
+      }
+      setRows(sheet);
+      setColumnMapping(guessCsvMapping(sheet[0]));
+      setDefaultProject(name);
+      setProgramName(name);
+      setStep('columns');
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : 'The file could not be read');
+    }
+  };
+
+  // Until chosen, the targets follow the loaded programs and portfolios
+  const programId = programChoice ?? defaultProgramId ?? programs[0]?.id ?? NEW;
+  const portfolioId = portfolioChoice ?? portfolios[0]?.id ?? NEW;
+
+  // Targets: the user's choices over the suggestions, for the selected program's statuses
+  const programProjects = useMemo(() => projects.filter((p) => p.programId === programId), [projects, programId]);
+  const statusOptions = useMemo(() => importStatusOptions(programProjects), [programProjects]);
+  const sourceStatuses = useMemo(() => (dataset ? importStatuses(dataset) : []), [dataset]);
+  const assignees = useMemo(() => (dataset ? importAssignees(dataset) : []), [dataset]);
+
+  const statusTargets = useMemo(() => {
+    const targets: Record<string, StatusTarget> = {};
+    sourceStatuses.forEach(({ name }) => {
+      const chosen = statusOverrides[name];
+      targets[name] = chosen && (chosen.kind === 'new' || statusOptions.some((o) => o.id === chosen.id)) ? chosen : suggestStatusTarget(name, statusOptions);
+    });
+    return targets;
+  }, [sourceStatuses, statusOverrides, statusOptions]);
+
+  const memberTargets = useMemo(() => {
+    const targets: Record<string, MemberTarget> = {};
+    assignees.forEach((a) => {
+      targets[a.key] = memberOverrides[a.key] ?? suggestMemberTarget(a, teamMembers);
+    });
+    return targets;
+  }, [assignees, memberOverrides, teamMembers]);
+
+  const isNewProgram = programId === NEW;
+  const targetReady = isNewProgram ? !!programName.trim() && (portfolioId !== NEW || !!portfolioName.trim()) : !!programId;
+
+  const preview = useMemo(() => {
+    if (!dataset || step !== 'preview') return null;
+    return buildWorkImport(dataset, {
+      program: {
+        id: isNewProgram ? null : programId,
+        name: programName.trim(),
+        portfolio_id: isNewProgram && portfolioId !== NEW ? portfolioId : null,
+        portfolio_name: isNewProgram && portfolioId === NEW ? portfolioName.trim() : null,
+      },
+      projects: programProjects,
+      teamMembers,
+      defaultProject,
+      statusTargets,
+      memberTargets,
+    });
+  }, [dataset, step, isNewProgram, programId, programName, portfolioId, portfolioName, programProjects, teamMembers, defaultProject, statusTargets, memberTargets]);
+
+  const errors = preview?.issues.filter((i) => i.level === 'error').length ?? 0;
+  const warnings = (preview?.issues.length ?? 0) - errors;
+
+  const downloadErrorReport = () => {
+    if (!preview) return;
+    const blob = new Blob(['\uFEFF' + workImportIssuesToCsv(preview.issues)], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${(fileName ?? 'import').replace(/\.[^.]+$/, '')}-import-report.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    try {
+      const result = await importWork.mutateAsync(preview.plan);
+      onImported?.(result);
+      handleOpenChange(false);
+    } catch {
+      // Error toast is raised by the mutation
+    }
+  };
+
+  const sample = (index: number | undefined) => (index === undefined ? '' : rows.slice(1, 4).map((r) => r[index]).filter(Boolean).join(' · '));
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileUp className="h-5 w-5" />
+            Import projects & tasks
+          </DialogTitle>
+          <DialogDescription>
+            From a CSV or Excel sheet, or an export of Jira (CSV or JSON), Asana (JSON) or Trello (JSON).
+            Nothing is saved until you confirm the preview.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'file' && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-3">
+              <Button variant="outline" className="gap-1.5" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="h-4 w-4" />
+                Choose file
+              </Button>
+              <span className="min-w-0 truncate text-sm text-muted-foreground">{fileName ?? 'No file chosen'}</span>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.tsv,.txt,.xlsx,.json,text/csv,application/json"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </div>
+            {fileError && <p className="text-sm text-destructive">{fileError}</p>}
+            <ul className="space-y-1 text-xs text-muted-foreground">
+              <li><span className="font-medium text-foreground">Jira</span> – Filters → Export CSV (all fields), or the issues of a REST search as JSON.</li>
+              <li><span className="font-medium text-foreground">Asana</span> – project menu → Export → JSON (or CSV).</li>
+              <li><span className="font-medium text-foreground">Trello</span> – board menu → Print, export and share → Export as JSON.</li>
+              <li><span className="font-medium text-foreground">Spreadsheets</span> – one task per row under a header row; you pick the columns next.</li>
+            </ul>
+          </div>
+        )}
+
+        {step === 'columns' && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">Match the columns of {fileName} to task fields.</p>
+            <div className="divide-y divide-border rounded-md border border-border">
+              {CSV_IMPORT_FIELDS.map((field) => (
+                <div key={field.id} className="flex items-center gap-3 px-3 py-2">
+                  <Label className="w-36 shrink-0 text-sm">
+                    {field.label}
+                    {field.required && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <Select
+                    value={columnMapping[field.id] === undefined ? NONE : String(columnMapping[field.id])}
+                    onValueChange={(value) =>
+                      setColumnMapping((current) => {
+                        const next = { ...current };
+                        if (value === NONE) delete next[field.id as CsvImportField];
+                        else next[field.id as CsvImportField] = Number(value);
+                        return next;
+                      })
+                    }
+                  >
+                    <SelectTrigger className="h-8 w-48 shrink-0">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Not imported</SelectItem>
+                      {rows[0].map((header, i) => (
+                        <SelectItem key={i} value={String(i)}>{header || `Column ${i + 1}`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="min-w-0 truncate text-xs text-muted-foreground">{sample(columnMapping[field.id])}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {step === 'mapping' && dataset && (
+          <div className="space-y-5">
+            <p className="text-sm text-muted-foreground">
+              {WORK_IMPORT_SOURCE_LABELS[dataset.source]} · {dataset.tasks.length} task{dataset.tasks.length === 1 ? '' : 's'} in {fileName}
+            </p>
+
+            <section className="space-y-2">
+              <h3 className="text-sm font-medium">Where to</h3>
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <Label className="text-xs">Program</Label>
+                  <Select value={programId} onValueChange={setProgramId}>
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {programs.map((p) => (
+                        <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                      ))}
+                      <SelectItem value={NEW}>New program…</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Project for tasks without one</Label>
+                  <Input className="h-9" value={defaultProject} onChange={(e) => setDefaultProject(e.target.value)} />
+                </div>
+                {isNewProgram && (
+                  <>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Program name</Label>
+                      <Input className="h-9" value={programName} onChange={(e) => setProgramName(e.target.value)} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">In portfolio</Label>
+                      <Select value={portfolioId} onValueChange={setPortfolioId}>
+                        <SelectTrigger className="h-9">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {portfolios.map((p) => (
+                            <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                          ))}
+                          <SelectItem value={NEW}>New portfolio…</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {portfolioId === NEW && (
+                      <div className="space-y-1">
+                        <Label className="text-xs">Portfolio name</Label>
+                        <Input className="h-9" value={portfolioName} onChange={(e) => setPortfolioName(e.target.value)} />
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            </section>
+
+            {sourceStatuses.length > 0 && (
+              <section className="space-y-2">
+                <h3 className="text-sm font-medium">Statuses</h3>
+                <div className="max-h-56 divide-y divide-border overflow-y-auto rounded-md border border-border">
+                  {sourceStatuses.map(({ name, tasks }) => (
+                    <div key={name} className="flex items-center gap-3 px-3 py-2 text-sm">
+                      <span className="min-w-0 flex-1 truncate">
+                        {name} <span className="text-xs text-muted-foreground">({tasks})</span>
+                      </span>
+                      <ArrowRight className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                      <Select
+                        value={statusValue(statusTargets[name])}
+                        onValueChange={(value) =>
+                          setStatusOverrides((current) => ({ ...current, [name]: value === NEW ? { kind: 'new' } : { kind: 'existing', id: value } }))
+                        }
+                      >
+                        <SelectTrigger className="h-8 w-48 shrink-0">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {statusOptions.map((o) => (
+                            <SelectItem key={o.id} value={o.id}>{o.label}</SelectItem>
+                          ))}
+                          <SelectItem value={NEW}>New status "{name}"</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {assignees.length > 0 && (
+              <section className="space-y-2">
+                <h3 className="text-sm font-medium">People</h3>
+                <div className="max-h-56 divide-y divide-border overflow-y-auto rounded-md border border-border">
+                  {assignees.map((a) => (
+                    <div key={a.key} className="flex items-center gap-3 px-3 py-2 text-sm">
+                      <span className="min-w-0 flex-1 truncate">
+                        {a.name}
+                        {a.email && a.email !== a.name && <span className="text-xs text-muted-foreground"> {a.email}</span>}
+                        <span className="text-xs text-muted-foreground"> ({a.tasks})</span>
+                      </span>
+                      <ArrowRight className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                      <Select
+                        value={memberValue(memberTargets[a.key])}
+                        onValueChange={(value) =>
+                          setMemberOverrides((current) => ({
+                            ...current,
+                            [a.key]: value === NEW ? { kind: 'new' } : value === NONE ? { kind: 'none' } : { kind: 'member', id: value },
+                          }))
+                        }
+                      >
+                        <SelectTrigger className="h-8 w-48 shrink-0">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {teamMembers.map((m) => (
+                            <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>
+                          ))}
+                          <SelectItem value={NEW}>New team member</SelectItem>
+                          <SelectItem value={NONE}>Leave unassigned</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+          </div>
+        )}
+
+        {step === 'preview' && preview && (
+          <div className="space-y-4">
+            <ul className="divide-y divide-border rounded-md border border-border text-sm">
+              {preview.projects.map((p) => (
+                <li key={p.name} className="flex items-center justify-between gap-3 px-3 py-2">
+                  <span className="min-w-0 truncate font-medium">{p.name}</span>
+                  <span className="flex shrink-0 items-center gap-2 text-muted-foreground">
+                    {p.tasks} task{p.tasks === 1 ? '' : 's'}
+                    <Badge variant={p.existing ? 'outline' : 'secondary'}>{p.existing ? 'Existing' : 'New'}</Badge>
+                  </span>
+                </li>
+              ))}
+              <li className="flex items-center justify-between px-3 py-2">
+                <span>Subtasks</span>
+                <span className="text-muted-foreground">{preview.subtasks}</span>
+              </li>
+              <li className="flex items-center justify-between px-3 py-2">
+                <span>Dependencies</span>
+                <span className="text-muted-foreground">{preview.plan.dependencies.length}</span>
+              </li>
+              <li className="flex items-center justify-between gap-4 px-3 py-2">
+                <span className="shrink-0">New statuses</span>
+                <span className="truncate text-muted-foreground">{preview.statusesCreated.join(', ') || 'None'}</span>
+              </li>
+              <li className="flex items-center justify-between gap-4 px-3 py-2">
+                <span className="shrink-0">New team members</span>
+                <span className="truncate text-muted-foreground">{preview.membersCreated.join(', ') || 'None'}</span>
+              </li>
+            </ul>
+
+            {preview.issues.length > 0 ? (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm">
+                    {errors > 0 && <span className="text-destructive">{preview.skipped} row{preview.skipped === 1 ? '' : 's'} won't be imported. </span>}
+                    {warnings > 0 && <span className="text-muted-foreground">{warnings} warning{warnings === 1 ? '' : 's'}.</span>}
+                  </p>
+                  <Button variant="ghost" size="sm" className="gap-1.5" onClick={downloadErrorReport}>
+                    <Download className="h-3.5 w-3.5" />
+                    Error report
+                  </Button>
+                </div>
+                <ul className="max-h-56 divide-y divide-border overflow-y-auto rounded-md border border-border text-xs">
+                  {preview.issues.slice(0, 200).map((issue, i) => (
+                    <li key={i} className="flex gap-2 px-3 py-1.5">
+                      {issue.level === 'error' ? (
+                        <XCircle className="mt-0.5 h-3.5 w-3.5 shrink-0 text-destructive" />
+                      ) : (
+                        <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0 text-warning" />
+                      )}
+                      <span className="w-24 shrink-0 truncate font-medium">{issue.ref}</span>
+                      <span className="text-muted-foreground">{issue.message}</span>
+                    </li>
+                  ))}
+                </ul>
+                {preview.issues.length > 200 && (
+                  <p className="text-xs text-muted-foreground">Showing 200 of {preview.issues.length}; the error report has them all.</p>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No problems found.</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <Button
+            variant="ghost"
+            className="gap-1.5"
+            disabled={step === 'file'}
+            onClick={() => setStep(step === 'preview' ? 'mapping' : step === 'mapping' && rows.length > 0 ? 'columns' : 'file')}
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back
+          </Button>
+          {step === 'columns' && (
+            <Button
+              disabled={columnMapping.title === undefined}
+              onClick={() => {
+                const next = csvRowsToTasks(rows, columnMapping, defaultProject);
+                setDataset(next);
+                setStep('mapping');
+              }}
+            >
+              Next
+            </Button>
+          )}
+          {step === 'mapping' && (
+            <Button disabled={!targetReady || !dataset?.tasks.length} onClick={() => setStep('preview')}>
+              Preview
+            </Button>
+          )}
+          {step === 'preview' && (
+            <Button onClick={handleImport} disabled={!preview?.plan.tasks.length || importWork.isPending}>
+              {importWork.isPending ? 'Importing…' : `Import ${preview?.plan.tasks.length ?? 0} task${preview?.plan.tasks.length === 1 ? '' : 's'}`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
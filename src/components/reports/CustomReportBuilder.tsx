@@ -0,0 +1,685 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Download, FileSpreadsheet, FileText, Loader2, Plus, Save, Trash2, X } from 'lucide-react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { usePermissions } from '@/contexts/PermissionsContext';
+import { useCustomReports, useDeleteCustomReport, useSaveCustomReport } from '@/hooks/useCustomReports';
+import { toast } from 'sonner';
+import { downloadReportCSV, downloadReportPDF, downloadReportXLSX, type ReportData } from '@/lib/reportExport';
+import { formatChartValue, type ReportChart } from '@/lib/reportCharts';
+import {
+  CUSTOM_REPORT_AGGREGATE_LABELS,
+  CUSTOM_REPORT_AGGREGATES,
+  CUSTOM_REPORT_CHART_TYPES,
+  CUSTOM_REPORT_ENTITIES,
+  CUSTOM_REPORT_ENTITY_DEFINITIONS,
+  CUSTOM_REPORT_OPERATOR_LABELS,
+  customReportChartProblem,
+  customReportFields,
+  customReportOperatorsFor,
+  DEFAULT_CUSTOM_REPORT,
+  formatCustomReportValue,
+  runCustomReport,
+  validateCustomReport,
+  type CustomReportAggregate,
+  type CustomReportChartType,
+  type CustomReportDateBucket,
+  type CustomReportDefinition,
+  type CustomReportEntity,
+  type CustomReportOperator,
+} from '@/lib/customReports';
+import type { CustomReport } from '@/domains/reports/model';
+
+const NONE = 'none';
+const PREVIEW_ROWS = 100;
+
+const CHART_TYPE_LABELS: Record<CustomReportChartType, string> = {
+  none: 'No chart',
+  bar: 'Bar',
+  donut: 'Donut',
+  line: 'Line',
+};
+
+const DATE_BUCKET_LABELS: Record<CustomReportDateBucket, string> = {
+  day: 'Day',
+  week: 'Week',
+  month: 'Month',
+};
+
+interface CustomReportBuilderProps {
+  /** The report data of the page's filters; custom reports run over its rows */
+  reportData: ReportData;
+}
+
+/** Saved reports older than a field of the definition get the default for it */
+const normalizeDefinition = (definition: Partial<CustomReportDefinition>): CustomReportDefinition => ({
+  ...DEFAULT_CUSTOM_REPORT,
+  ...definition,
+});
+
+export function CustomReportBuilder({ reportData }: CustomReportBuilderProps) {
+  const { hasOrgPermission, currentOrgRole } = usePermissions();
+  const canManage = ['owner', 'admin', 'manager'].includes(currentOrgRole);
+  const { data: savedReports = [] } = useCustomReports();
+  const saveReport = useSaveCustomReport();
+  const deleteReport = useDeleteCustomReport();
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [definition, setDefinition] = useState<CustomReportDefinition>(DEFAULT_CUSTOM_REPORT);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const entities = CUSTOM_REPORT_ENTITIES.filter(entity => {
+    const permission = CUSTOM_REPORT_ENTITY_DEFINITIONS[entity].permission;
+    return !permission || hasOrgPermission(permission);
+  });
+  const entityAllowed = entities.includes(definition.entity);
+  const fields = customReportFields(definition.entity, hasOrgPermission);
+  const numberFields = fields.filter(f => f.type === 'number');
+  const groupField = fields.find(f => f.key === definition.groupBy);
+
+  const update = (changes: Partial<CustomReportDefinition>) => setDefinition(current => ({ ...current, ...changes }));
+
+  const errors = entityAllowed ? validateCustomReport(definition, fields) : [];
+  const chartProblem = customReportChartProblem(definition, fields);
+  const reportName = name.trim() || 'Untitled report';
+
+  const table = entityAllowed && errors.length === 0
+    ? runCustomReport(reportData, definition, {
+        name: reportName,
+        description: description.trim() || undefined,
+        hasPermission: hasOrgPermission,
+      })
+    : null;
+
+  const openReport = (report: CustomReport | null) => {
+    setSelectedId(report?.id ?? null);
+    setName(report?.name ?? '');
+    setDescription(report?.description ?? '');
+    setDefinition(report ? normalizeDefinition(report.definition) : DEFAULT_CUSTOM_REPORT);
+  };
+
+  const changeEntity = (entity: CustomReportEntity) => {
+    setDefinition({
+      ...DEFAULT_CUSTOM_REPORT,
+      entity,
+      columns: customReportFields(entity, hasOrgPermission).slice(0, 3).map(f => f.key),
+      chart: definition.chart === 'bar' ? 'bar' : 'none',
+    });
+  };
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    // Columns keep the order of the field list
+    const columns = fields.map(f => f.key).filter(k => (k === key ? checked : definition.columns.includes(k)));
+    update({ columns, sort: definition.sort?.key === key && !checked ? null : definition.sort });
+  };
+
+  const changeGroupBy = (key: string) => {
+    const groupBy = key === NONE ? null : key;
+    update({
+      groupBy,
+      aggregations: definition.aggregations.length > 0 ? definition.aggregations : [{ fn: 'count', field: null }],
+      sort: null,
+    });
+  };
+
+  const sortOptions = table?.columns ?? [];
+
+  const handleSave = async () => {
+    const id = await saveReport.mutateAsync({ id: selectedId ?? undefined, name: reportName, description, definition });
+    setSelectedId(id);
+    setName(reportName);
+  };
+
+  const handleDelete = async () => {
+    if (!selectedId) return;
+    await deleteReport.mutateAsync(selectedId);
+    openReport(null);
+  };
+
+  const filename = (extension: string) =>
+    `${reportName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'custom-report'}-${format(new Date(), 'yyyy-MM-dd')}.${extension}`;
+
+  const handleExportPDF = async () => {
+    if (!table) return;
+    setIsExporting(true);
+    try {
+      await downloadReportPDF({ ...reportData, customReport: table }, filename('pdf'));
+    } catch (error) {
+      console.error('Export error:', error);
+      toast.error('Failed to export report: ' + (error instanceof Error ? error.message : String(error)));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportCSV = () => {
+    if (!table) return;
+    downloadReportCSV({ ...reportData, customReport: table }, filename('csv'));
+  };
+
+  const handleExportXLSX = () => {
+    if (!table) return;
+    downloadReportXLSX({ ...reportData, customReport: table }, filename('xlsx'));
+  };
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-[260px_1fr]">
+      {/* Saved reports */}
+      <Card className="h-fit">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg">Saved reports</CardTitle>
+          <CardDescription>Shared with your organization</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-1">
+          <Button
+            variant={selectedId === null ? 'secondary' : 'ghost'}
+            className="w-full justify-start"
+            onClick={() => openReport(null)}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            New report
+          </Button>
+          {savedReports.map(report => (
+            <Button
+              key={report.id}
+              variant={selectedId === report.id ? 'secondary' : 'ghost'}
+              className="w-full justify-between"
+              onClick={() => openReport(report)}
+            >
+              <span className="truncate">{report.name}</span>
+              <Badge variant="outline" className="ml-2 shrink-0 text-xs">
+                {CUSTOM_REPORT_ENTITY_DEFINITIONS[report.definition.entity]?.label ?? report.definition.entity}
+              </Badge>
+            </Button>
+          ))}
+          {savedReports.length === 0 && (
+            <p className="px-2 py-4 text-sm text-muted-foreground">No saved reports yet.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="space-y-4">
+        {/* Definition */}
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div className="flex-1 space-y-2">
+              <Input
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder="Report name"
+                className="text-lg font-semibold"
+                disabled={!canManage}
+              />
+              <Textarea
+                value={description}
+                onChange={e => setDescription(e.target.value)}
+                placeholder="Description (optional)"
+                rows={2}
+                disabled={!canManage}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              {canManage && (
+                <>
+                  {selectedId && (
+                    <Button variant="ghost" size="icon" onClick={handleDelete} disabled={deleteReport.isPending} title="Delete report">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button variant="outline" onClick={handleSave} disabled={saveReport.isPending || errors.length > 0 || !entityAllowed}>
+                    {saveReport.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                    Save
+                  </Button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button disabled={!table || isExporting}>
+                        {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+                        Export
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={handleExportPDF}>
+                        <FileText className="mr-2 h-4 w-4" />
+                        Export as PDF
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={handleExportCSV}>
+                        <FileSpreadsheet className="mr-2 h-4 w-4" />
+                        Export as CSV
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={handleExportXLSX}>
+                        <FileSpreadsheet className="mr-2 h-4 w-4" />
+                        Export as Excel
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-5">
+            {!entityAllowed ? (
+              <p className="text-sm text-muted-foreground">
+                You don't have access to {CUSTOM_REPORT_ENTITY_DEFINITIONS[definition.entity]?.label.toLowerCase() ?? 'this data'} reports.
+              </p>
+            ) : (
+              <>
+                <div className="grid gap-4 sm:grid-cols-3">
+                  <div className="space-y-2">
+                    <Label>Report on</Label>
+                    <Select value={definition.entity} onValueChange={v => changeEntity(v as CustomReportEntity)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {entities.map(entity => (
+                          <SelectItem key={entity} value={entity}>{CUSTOM_REPORT_ENTITY_DEFINITIONS[entity].label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Group by</Label>
+                    <div className="flex gap-2">
+                      <Select value={definition.groupBy ?? NONE} onValueChange={changeGroupBy}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NONE}>No grouping</SelectItem>
+                          {fields.map(f => (
+                            <SelectItem key={f.key} value={f.key}>{f.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {groupField?.type === 'date' && (
+                        <Select value={definition.dateBucket} onValueChange={v => update({ dateBucket: v as CustomReportDateBucket })}>
+                          <SelectTrigger className="w-[110px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(DATE_BUCKET_LABELS) as CustomReportDateBucket[]).map(bucket => (
+                              <SelectItem key={bucket} value={bucket}>{DATE_BUCKET_LABELS[bucket]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Chart</Label>
+                    <Select value={definition.chart} onValueChange={v => update({ chart: v as CustomReportChartType })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CUSTOM_REPORT_CHART_TYPES.map(chart => (
+                          <SelectItem key={chart} value={chart}>{CHART_TYPE_LABELS[chart]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {chartProblem && <p className="text-xs text-muted-foreground">{chartProblem}</p>}
+                  </div>
+                </div>
+
+                {/* Columns, or aggregations when grouped */}
+                {definition.groupBy ? (
+                  <div className="space-y-2">
+                    <Label>Aggregations</Label>
+                    {definition.aggregations.map((aggregation, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <Select
+                          value={aggregation.fn}
+                          onValueChange={v => {
+                            const fn = v as CustomReportAggregate;
+                            const aggregations = [...definition.aggregations];
+                            aggregations[index] = { fn, field: fn === 'count' ? null : aggregation.field ?? numberFields[0]?.key ?? null };
+                            update({ aggregations });
+                          }}
+                        >
+                          <SelectTrigger className="w-[140px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {CUSTOM_REPORT_AGGREGATES.map(fn => (
+                              <SelectItem key={fn} value={fn} disabled={fn !== 'count' && numberFields.length === 0}>
+                                {CUSTOM_REPORT_AGGREGATE_LABELS[fn]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {aggregation.fn !== 'count' && (
+                          <Select
+                            value={aggregation.field ?? undefined}
+                            onValueChange={field => {
+                              const aggregations = [...definition.aggregations];
+                              aggregations[index] = { ...aggregation, field };
+                              update({ aggregations });
+                            }}
+                          >
+                            <SelectTrigger className="w-[200px]">
+                              <SelectValue placeholder="Field" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {numberFields.map(f => (
+                                <SelectItem key={f.key} value={f.key}>{f.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => update({ aggregations: definition.aggregations.filter((_, i) => i !== index), sort: null })}
+                          disabled={definition.aggregations.length === 1}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => update({ aggregations: [...definition.aggregations, numberFields[0] ? { fn: 'sum', field: numberFields[0].key } : { fn: 'count', field: null }] })}
+                    >
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add aggregation
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <Label>Columns</Label>
+                    <div className="flex flex-wrap gap-x-5 gap-y-2">
+                      {fields.map(f => (
+                        <label key={f.key} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={definition.columns.includes(f.key)}
+                            onCheckedChange={checked => toggleColumn(f.key, checked === true)}
+                          />
+                          {f.label}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Filters */}
+                <div className="space-y-2">
+                  <Label>Filters</Label>
+                  {definition.filters.map((filter, index) => {
+                    const field = fields.find(f => f.key === filter.field);
+                    const setFilter = (changes: Partial<typeof filter>) => {
+                      const filters = [...definition.filters];
+                      filters[index] = { ...filter, ...changes };
+                      update({ filters });
+                    };
+                    return (
+                      <div key={index} className="flex flex-wrap items-center gap-2">
+                        <Select
+                          value={filter.field}
+                          onValueChange={key => {
+                            const type = fields.find(f => f.key === key)?.type ?? 'text';
+                            const operator = customReportOperatorsFor(type).includes(filter.operator) ? filter.operator : 'equals';
+                            setFilter({ field: key, operator, value: '' });
+                          }}
+                        >
+                          <SelectTrigger className="w-[180px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {fields.map(f => (
+                              <SelectItem key={f.key} value={f.key}>{f.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Select value={filter.operator} onValueChange={v => setFilter({ operator: v as CustomReportOperator })}>
+                          <SelectTrigger className="w-[130px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {customReportOperatorsFor(field?.type ?? 'text').map(operator => (
+                              <SelectItem key={operator} value={operator}>{CUSTOM_REPORT_OPERATOR_LABELS[operator]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {filter.operator !== 'is_empty' && filter.operator !== 'not_empty' && (
+                          <Input
+                            type={field?.type === 'number' ? 'number' : field?.type === 'date' ? 'date' : 'text'}
+                            value={filter.value}
+                            onChange={e => setFilter({ value: e.target.value })}
+                            className="w-[180px]"
+                          />
+                        )}
+                        <Button variant="ghost" size="icon" onClick={() => update({ filters: definition.filters.filter((_, i) => i !== index) })}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => update({ filters: [...definition.filters, { field: fields[0].key, operator: 'equals', value: '' }] })}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add filter
+                  </Button>
+                </div>
+
+                {/* Sort and limit */}
+                <div className="flex flex-wrap items-end gap-4">
+                  <div className="space-y-2">
+                    <Label>Sort by</Label>
+                    <div className="flex gap-2">
+                      <Select
+                        value={definition.sort?.key ?? NONE}
+                        onValueChange={key => update({ sort: key === NONE ? null : { key, direction: definition.sort?.direction ?? 'asc' } })}
+                      >
+                        <SelectTrigger className="w-[200px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NONE}>{definition.groupBy ? 'Group order' : 'Default order'}</SelectItem>
+                          {sortOptions.map(column => (
+                            <SelectItem key={column.key} value={column.key}>{column.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {definition.sort && (
+                        <Select
+                          value={definition.sort.direction}
+                          onValueChange={v => update({ sort: { ...definition.sort!, direction: v as 'asc' | 'desc' } })}
+                        >
+                          <SelectTrigger className="w-[130px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="asc">Ascending</SelectItem>
+                            <SelectItem value="desc">Descending</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Row limit</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={definition.limit ?? ''}
+                      onChange={e => update({ limit: e.target.value === '' ? null : Number(e.target.value) })}
+                      placeholder="All rows"
+                      className="w-[120px]"
+                    />
+                  </div>
+                </div>
+
+                {errors.length > 0 && (
+                  <ul className="space-y-1 text-sm text-destructive">
+                    {errors.map(error => <li key={error}>{error}</li>)}
+                  </ul>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Preview */}
+        {table && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">{table.entityLabel}</CardTitle>
+              <CardDescription>
+                {table.rows.length} {table.rows.length === 1 ? 'row' : 'rows'} · {reportData.dateRange}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {table.chart && <CustomReportChartPreview chart={table.chart} />}
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {table.columns.map(column => (
+                        <TableHead key={column.key} className={cn(column.type === 'number' && 'text-right')}>{column.label}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {table.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                      <TableRow key={index}>
+                        {table.columns.map(column => (
+                          <TableCell key={column.key} className={cn(column.type === 'number' && 'text-right tabular-nums')}>
+                            {formatCustomReportValue(row[column.key], column)}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                    {table.rows.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={table.columns.length} className="py-8 text-center text-muted-foreground">
+                          No rows match the filters.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+              {table.rows.length > PREVIEW_ROWS && (
+                <p className="text-sm text-muted-foreground">
+                  Showing {PREVIEW_ROWS} of {table.rows.length} rows. The export has them all.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** The report chart with recharts; the PDF draws the same chart model */
+function CustomReportChartPreview({ chart }: { chart: ReportChart }) {
+  const tick = { fontSize: 12, fill: 'hsl(var(--muted-foreground))' };
+  const formatValue = (value: number) => formatChartValue(value, chart.unit);
+
+  if (chart.kind === 'donut') {
+    return (
+      <div className="h-[280px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <PieChart>
+            <Pie data={chart.slices} dataKey="value" nameKey="label" innerRadius={60} outerRadius={100} paddingAngle={2}>
+              {chart.slices.map(slice => (
+                <Cell key={slice.label} fill={slice.color} />
+              ))}
+            </Pie>
+            <Tooltip formatter={(value: number) => formatValue(value)} />
+            <Legend />
+          </PieChart>
+        </ResponsiveContainer>
+      </div>
+    );
+  }
+
+  if (chart.kind === 'line') {
+    const points = chart.dates.map((date, i) => ({
+      date,
+      ...Object.fromEntries(chart.series.map(s => [s.label, s.values[i]])),
+    }));
+    return (
+      <div className="h-[280px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={points}>
+            <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+            <XAxis dataKey="date" tick={tick} tickFormatter={(d: string) => format(new Date(`${d}T00:00:00`), 'MMM d')} />
+            <YAxis tick={tick} tickFormatter={formatValue} />
+            <Tooltip formatter={(value: number) => formatValue(value)} />
+            <Legend />
+            {chart.series.map(s => (
+              <Line key={s.label} type="monotone" dataKey={s.label} stroke={s.color} strokeWidth={2} dot={false} connectNulls />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    );
+  }
+
+  const rows = chart.categories.map((category, i) => ({
+    category,
+    ...Object.fromEntries(chart.series.map(s => [s.label, s.values[i] ?? 0])),
+  }));
+  return (
+    <div className="space-y-1">
+      <div style={{ height: Math.max(rows.length * 32 + 40, 120) }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={rows} layout="vertical" margin={{ left: 20, right: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+            <XAxis type="number" tick={tick} tickFormatter={formatValue} domain={chart.max ? [0, chart.max] : undefined} />
+            <YAxis type="category" dataKey="category" tick={tick} width={140} />
+            <Tooltip formatter={(value: number) => formatValue(value)} />
+            {chart.series.map(s => (
+              <Bar key={s.label} dataKey={s.label} stackId="series" fill={s.color} radius={[0, 4, 4, 0]} />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+      {chart.omitted > 0 && <p className="text-xs text-muted-foreground">+{chart.omitted} more not shown</p>}
+    </div>
+  );
+}
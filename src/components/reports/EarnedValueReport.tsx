@@ -0,0 +1,259 @@
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Activity, Gauge, Target, TrendingUp } from 'lucide-react';
+import { CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useWorkingCalendar } from '@/hooks/useWorkingCalendar';
+import { computeEarnedValue, type EarnedValueReport as EarnedValueReportData, type EarnedValueRow } from '@/lib/earnedValue';
+import { cn } from '@/lib/utils';
+import type { Program, Project } from '@/types/portfolio';
+
+interface EarnedValueReportProps {
+  report: EarnedValueReportData;
+  programs: Program[];
+  projects: Project[];
+}
+
+const money = (value: number) => `$${Math.round(value).toLocaleString()}`;
+const compactMoney = (value: number) =>
+  Math.abs(value) >= 1000 ? `$${(value / 1000).toFixed(0)}k` : `$${Math.round(value)}`;
+
+function IndexValue({ value }: { value: number | null }) {
+  if (value === null) return <span className="text-muted-foreground">—</span>;
+  return (
+    <span className={cn('tabular-nums font-medium', value < 0.9 ? 'text-destructive' : value < 1 ? 'text-warning' : 'text-success')}>
+      {value.toFixed(2)}
+    </span>
+  );
+}
+
+function MetricsTable({ title, rows }: { title: string; rows: EarnedValueRow[] }) {
+  if (rows.length === 0) return null;
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-muted-foreground mb-3">{title}</h4>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead className="text-right">BAC</TableHead>
+            <TableHead className="text-right">PV</TableHead>
+            <TableHead className="text-right">EV</TableHead>
+            <TableHead className="text-right">AC</TableHead>
+            <TableHead className="text-right">CPI</TableHead>
+            <TableHead className="text-right">SPI</TableHead>
+            <TableHead className="text-right">EAC</TableHead>
+            <TableHead className="text-right">ETC</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.id}>
+              <TableCell className="font-medium">{row.name}</TableCell>
+              <TableCell className="text-right tabular-nums">{compactMoney(row.bac)}</TableCell>
+              <TableCell className="text-right tabular-nums">{compactMoney(row.pv)}</TableCell>
+              <TableCell className="text-right tabular-nums">{compactMoney(row.ev)}</TableCell>
+              <TableCell className="text-right tabular-nums">{compactMoney(row.ac)}</TableCell>
+              <TableCell className="text-right"><IndexValue value={row.cpi} /></TableCell>
+              <TableCell className="text-right"><IndexValue value={row.spi} /></TableCell>
+              <TableCell className={cn('text-right tabular-nums', row.eac > row.bac && 'text-destructive')}>
+                {compactMoney(row.eac)}
+              </TableCell>
+              <TableCell className="text-right tabular-nums">{compactMoney(row.etc)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export function EarnedValueReport({ report, programs, projects }: EarnedValueReportProps) {
+  const { calendar } = useWorkingCalendar();
+  const [curveScope, setCurveScope] = useState('all');
+
+  const budgetedProjects = useMemo(() => projects.filter((p) => report.projects.some((r) => r.id === p.id)), [projects, report.projects]);
+  const budgetedPrograms = useMemo(() => programs.filter((p) => report.programs.some((r) => r.id === p.id)), [programs, report.programs]);
+
+  const series = useMemo(() => {
+    if (curveScope === 'all') return report.series;
+    const [kind, id] = curveScope.split(':');
+    const scoped = kind === 'program' ? budgetedProjects.filter((p) => p.programId === id) : budgetedProjects.filter((p) => p.id === id);
+    return computeEarnedValue(scoped, { statusDate: parseISO(report.statusDate), calendar }).series;
+  }, [curveScope, report.series, report.statusDate, budgetedProjects, calendar]);
+
+  if (report.projects.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Earned Value</CardTitle>
+          <CardDescription>Planned value, earned value and actual cost</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col items-center justify-center py-12 text-center">
+            <Gauge className="h-12 w-12 text-muted-foreground/50" />
+            <p className="mt-4 text-lg font-medium text-muted-foreground">No budgeted projects</p>
+            <p className="text-sm text-muted-foreground">
+              Give projects a budget or allocation to track earned value
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { total } = report;
+  const chartData = series.map((p) => ({ ...p, label: format(parseISO(p.date), 'MMM d') }));
+  const statusLabel = format(parseISO(report.statusDate), 'MMM d');
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">Cost Performance (CPI)</p>
+                <p className="text-2xl font-bold text-foreground"><IndexValue value={total.cpi} /></p>
+              </div>
+              <div className="flex h-10 w-10 items-center justify-center rounded-full bg-primary/20">
+                <Gauge className="h-5 w-5 text-primary" />
+              </div>
+            </div>
+            <p className={cn('mt-2 text-xs', total.cv >= 0 ? 'text-success' : 'text-destructive')}>
+              Cost variance {total.cv >= 0 ? '+' : '-'}{money(Math.abs(total.cv))}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">Schedule Performance (SPI)</p>
+                <p className="text-2xl font-bold text-foreground"><IndexValue value={total.spi} /></p>
+              </div>
+              <div className="flex h-10 w-10 items-center justify-center rounded-full bg-primary/20">
+                <Activity className="h-5 w-5 text-primary" />
+              </div>
+            </div>
+            <p className={cn('mt-2 text-xs', total.sv >= 0 ? 'text-success' : 'text-destructive')}>
+              {total.percentComplete}% earned vs {total.percentPlanned}% planned
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">Estimate at Completion</p>
+                <p className={cn('text-2xl font-bold', total.eac > total.bac ? 'text-destructive' : 'text-foreground')}>
+                  {money(total.eac)}
+                </p>
+              </div>
+              <div className="flex h-10 w-10 items-center justify-center rounded-full bg-primary/20">
+                <Target className="h-5 w-5 text-primary" />
+              </div>
+            </div>
+            <p className="mt-2 text-xs text-muted-foreground">Budget at completion {money(total.bac)}</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">Estimate to Complete</p>
+                <p className="text-2xl font-bold text-foreground">{money(total.etc)}</p>
+              </div>
+              <div className="flex h-10 w-10 items-center justify-center rounded-full bg-primary/20">
+                <TrendingUp className="h-5 w-5 text-primary" />
+              </div>
+            </div>
+            <p className={cn('mt-2 text-xs', total.vac >= 0 ? 'text-success' : 'text-destructive')}>
+              {total.vac >= 0 ? 'Under budget at completion by ' : 'Over budget at completion by '}
+              {money(Math.abs(total.vac))}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle className="text-lg">Earned Value S-Curve</CardTitle>
+            <CardDescription>Cumulative planned value, earned value and actual cost</CardDescription>
+          </div>
+          <Select value={curveScope} onValueChange={setCurveScope}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All budgeted projects</SelectItem>
+              {budgetedPrograms.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel>Programs</SelectLabel>
+                  {budgetedPrograms.map((p) => (
+                    <SelectItem key={p.id} value={`program:${p.id}`}>{p.name}</SelectItem>
+                  ))}
+                </SelectGroup>
+              )}
+              <SelectGroup>
+                <SelectLabel>Projects</SelectLabel>
+                {budgetedProjects.map((p) => (
+                  <SelectItem key={p.id} value={`project:${p.id}`}>{p.name}</SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <div className="h-[320px] bg-background p-2 rounded">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ left: 20, right: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis dataKey="label" tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }} />
+                <YAxis
+                  tickFormatter={(v) => compactMoney(v)}
+                  tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
+                />
+                <Tooltip formatter={(value: number) => money(value)} />
+                <Legend />
+                <ReferenceLine x={statusLabel} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" label="Today" />
+                <Line type="monotone" dataKey="pv" name="Planned value" stroke="hsl(var(--muted-foreground))" strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="ev" name="Earned value" stroke="hsl(var(--success))" strokeWidth={2} dot={false} connectNulls={false} />
+                <Line type="monotone" dataKey="ac" name="Actual cost" stroke="hsl(var(--destructive))" strokeWidth={2} dot={false} connectNulls={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Earned Value Details</CardTitle>
+          <CardDescription>
+            As of {format(parseISO(report.statusDate), 'MMM d, yyyy')} · indices below 1.00 are behind plan or over cost
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-6">
+            <MetricsTable title="Portfolios" rows={report.portfolios} />
+            <MetricsTable title="Programs" rows={report.programs} />
+            <MetricsTable title="Projects" rows={report.projects} />
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,480 @@
+import { useState } from 'react';
+import { format, formatDistanceToNow, parseISO } from 'date-fns';
+import { CalendarClock, Pencil, Plus, Send, Trash2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { usePortfolioData } from '@/contexts/PortfolioDataContext';
+import {
+  useDeleteReportSubscription,
+  useReportSubscriptionRuns,
+  useReportSubscriptions,
+  useSaveReportSubscription,
+  useSendReportSubscriptionNow,
+  type ReportSubscriptionInput,
+} from '@/hooks/useReportSubscriptions';
+import {
+  REPORT_DATE_RANGE_LABELS,
+  REPORT_DATE_RANGES,
+  REPORT_TYPE_LABELS,
+  REPORT_TYPES,
+  type ReportDateRange,
+  type ReportType,
+} from '@/lib/reportData';
+import {
+  describeReportCron,
+  matchReportCronPreset,
+  presetReportCron,
+  REPORT_CADENCE_PRESETS,
+  validateReportCron,
+} from '@/lib/reportSchedule';
+import type { ReportFormat, ReportRunStatus, ReportSubscription } from '@/domains/reports/model';
+
+const ALL = 'all';
+const CUSTOM_CADENCE = 'custom';
+
+const statusVariant: Record<ReportRunStatus, 'default' | 'destructive' | 'secondary' | 'outline'> = {
+  sent: 'default',
+  partial: 'secondary',
+  failed: 'destructive',
+  skipped: 'outline',
+};
+
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+
+interface ReportSubscriptionsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Tab, filters and range of the Reports page, used for new subscriptions */
+  defaults: Pick<ReportSubscriptionInput, 'report_type' | 'portfolio_id' | 'program_id' | 'date_range'>;
+}
+
+/**
+ * Scheduled reports: saved report settings emailed to a recipient list on a cron cadence (UTC) by the
+ * send-scheduled-reports edge function, within the sender's email limits.
+ */
+export function ReportSubscriptionsDialog({ open, onClose, defaults }: ReportSubscriptionsDialogProps) {
+  const { portfolios, programs, teamMembers } = usePortfolioData();
+  const { data: subscriptions = [] } = useReportSubscriptions();
+  const { data: runs = [] } = useReportSubscriptionRuns(undefined, 10);
+  const saveSubscription = useSaveReportSubscription();
+  const deleteSubscription = useDeleteReportSubscription();
+  const sendNow = useSendReportSubscriptionNow();
+
+  const [draft, setDraft] = useState<ReportSubscriptionInput | null>(null);
+  const [cadence, setCadence] = useState<string>(REPORT_CADENCE_PRESETS[2].id);
+  const [customEmail, setCustomEmail] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const membersWithEmail = teamMembers.filter(m => m.email);
+  const availablePrograms = draft?.portfolio_id ? programs.filter(p => p.portfolioId === draft.portfolio_id) : programs;
+  const preset = draft ? matchReportCronPreset(draft.cron_expression) : null;
+
+  const subscriptionName = (id: string) => subscriptions.find(s => s.id === id)?.name ?? 'Deleted report';
+
+  const scopeLabel = (subscription: Pick<ReportSubscription, 'portfolio_id' | 'program_id'>) => {
+    if (subscription.program_id) return programs.find(p => p.id === subscription.program_id)?.name ?? 'Program';
+    if (subscription.portfolio_id) return portfolios.find(p => p.id === subscription.portfolio_id)?.name ?? 'Portfolio';
+    return 'All portfolios';
+  };
+
+  const openEditor = (subscription?: ReportSubscription) => {
+    setFormError(null);
+    setCustomEmail('');
+    const next: ReportSubscriptionInput = subscription
+      ? {
+          id: subscription.id,
+          name: subscription.name,
+          report_type: subscription.report_type,
+          portfolio_id: subscription.portfolio_id,
+          program_id: subscription.program_id,
+          date_range: subscription.date_range,
+          format: subscription.format,
+          recipients: subscription.recipients,
+          cron_expression: subscription.cron_expression,
+          is_active: subscription.is_active,
+        }
+      : {
+          ...defaults,
+          name: '',
+          format: 'pdf',
+          recipients: [],
+          cron_expression: REPORT_CADENCE_PRESETS[2].cron,
+          is_active: true,
+        };
+    setCadence(matchReportCronPreset(next.cron_expression)?.presetId ?? CUSTOM_CADENCE);
+    setDraft(next);
+  };
+
+  const setPreset = (presetId: string) => {
+    setCadence(presetId);
+    if (!draft || presetId === CUSTOM_CADENCE) return;
+    setDraft({ ...draft, cron_expression: presetReportCron(presetId, preset?.hour ?? 8, preset?.minute ?? 0) });
+  };
+
+  const toggleRecipient = (email: string, on: boolean) =>
+    setDraft(d => d && {
+      ...d,
+      recipients: on ? [...new Set([...d.recipients, email])] : d.recipients.filter(r => r !== email),
+    });
+
+  const addCustomEmail = () => {
+    const email = customEmail.trim().toLowerCase();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) return setFormError('Enter a valid email address.');
+    setFormError(null);
+    toggleRecipient(email, true);
+    setCustomEmail('');
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    if (!draft.name.trim()) return setFormError('Give the report a name.');
+    if (draft.recipients.length === 0) return setFormError('Choose at least one recipient.');
+    if (draft.recipients.length > 20) return setFormError('A report can go to at most 20 recipients.');
+    const cronError = validateReportCron(draft.cron_expression);
+    if (cronError) return setFormError(cronError);
+    setFormError(null);
+    saveSubscription.mutate(
+      { ...draft, name: draft.name.trim(), cron_expression: draft.cron_expression.trim().replace(/\s+/g, ' ') },
+      { onSuccess: () => setDraft(null) }
+    );
+  };
+
+  const customRecipients = draft ? draft.recipients.filter(r => !membersWithEmail.some(m => m.email.toLowerCase() === r)) : [];
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => !isOpen && (draft ? setDraft(null) : onClose())}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        {!draft ? (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <CalendarClock className="h-5 w-5 text-primary" />
+                Scheduled reports
+              </DialogTitle>
+              <DialogDescription>
+                Reports built from the saved tab, filters and date range and emailed on a schedule. They are sent as you
+                and count towards your email limits (20 an hour, 100 a day).
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-3">
+              <div className="flex justify-end">
+                <Button className="gap-2" onClick={() => openEditor()}>
+                  <Plus className="h-4 w-4" />
+                  New scheduled report
+                </Button>
+              </div>
+
+              {subscriptions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No scheduled reports yet. New ones start from this page's tab, filters and date range.
+                </p>
+              ) : (
+                <ul className="divide-y divide-border rounded-md border border-border">
+                  {subscriptions.map(subscription => (
+                    <li key={subscription.id} className="space-y-1 p-3 text-sm">
+                      <div className="flex flex-wrap items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="flex items-center gap-2 font-medium">
+                            {subscription.name}
+                            {!subscription.is_active && <Badge variant="outline">Paused</Badge>}
+                            {subscription.last_status && (
+                              <Badge variant={statusVariant[subscription.last_status]} className="capitalize">
+                                {subscription.last_status}
+                              </Badge>
+                            )}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {REPORT_TYPE_LABELS[subscription.report_type]} · {scopeLabel(subscription)} ·{' '}
+                            {REPORT_DATE_RANGE_LABELS[subscription.date_range]} · {subscription.format.toUpperCase()} ·{' '}
+                            {subscription.recipients.length} recipient{subscription.recipients.length === 1 ? '' : 's'}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {describeReportCron(subscription.cron_expression)}
+                            {subscription.is_active && subscription.next_run_at &&
+                              ` · next ${format(parseISO(subscription.next_run_at), 'MMM d, HH:mm')}`}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            aria-label={`Send ${subscription.name} now`}
+                            disabled={sendNow.isPending}
+                            onClick={() => sendNow.mutate(subscription.id)}
+                          >
+                            <Send className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" className="h-8 w-8" aria-label={`Edit ${subscription.name}`} onClick={() => openEditor(subscription)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            aria-label={`Delete ${subscription.name}`}
+                            onClick={() => deleteSubscription.mutate(subscription.id)}
+                          >
+                            <Trash2 className="h-4 w-4 text-muted-foreground" />
+                          </Button>
+                        </div>
+                      </div>
+                      {subscription.last_error && <p className="text-xs text-destructive">{subscription.last_error}</p>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {runs.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-medium text-foreground">Recent sends</h3>
+                  <ul className="divide-y divide-border rounded-md border border-border">
+                    {runs.map(run => (
+                      <li key={run.id} className="flex flex-wrap items-center justify-between gap-2 p-2 text-xs">
+                        <span className="flex min-w-0 items-center gap-2">
+                          <Badge variant={statusVariant[run.status]} className="capitalize">
+                            {run.status}
+                          </Badge>
+                          <span className="truncate">{subscriptionName(run.subscription_id)}</span>
+                        </span>
+                        <span className="text-muted-foreground">
+                          {run.sent_count}/{run.recipient_count} sent ·{' '}
+                          {formatDistanceToNow(parseISO(run.created_at), { addSuffix: true })}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          </>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle>{draft.id ? 'Edit scheduled report' : 'New scheduled report'}</DialogTitle>
+              <DialogDescription>
+                Times are in UTC. Reports are sent at most once an hour, to contacts and members of your organization.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="space-y-1.5">
+                <Label htmlFor="report-subscription-name">Name</Label>
+                <Input
+                  id="report-subscription-name"
+                  value={draft.name}
+                  placeholder="e.g. Weekly portfolio update"
+                  onChange={e => setDraft({ ...draft, name: e.target.value })}
+                />
+              </div>
+
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="space-y-1.5">
+                  <Label>Report</Label>
+                  <Select value={draft.report_type} onValueChange={value => setDraft({ ...draft, report_type: value as ReportType })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {REPORT_TYPES.map(type => (
+                        <SelectItem key={type} value={type}>{REPORT_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label>Format</Label>
+                  <Select value={draft.format} onValueChange={value => setDraft({ ...draft, format: value as ReportFormat })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="pdf">PDF</SelectItem>
+                      <SelectItem value="csv">CSV</SelectItem>
+                      <SelectItem value="xlsx">Excel (XLSX)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label>Portfolio</Label>
+                  <Select
+                    value={draft.portfolio_id ?? ALL}
+                    onValueChange={value => setDraft({ ...draft, portfolio_id: value === ALL ? null : value, program_id: null })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All Portfolios</SelectItem>
+                      {portfolios.map(p => (
+                        <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label>Program</Label>
+                  <Select
+                    value={draft.program_id ?? ALL}
+                    onValueChange={value => setDraft({ ...draft, program_id: value === ALL ? null : value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All Programs</SelectItem>
+                      {availablePrograms.map(p => (
+                        <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label>Date range</Label>
+                  <Select value={draft.date_range} onValueChange={value => setDraft({ ...draft, date_range: value as ReportDateRange })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {REPORT_DATE_RANGES.map(range => (
+                        <SelectItem key={range} value={range}>{REPORT_DATE_RANGE_LABELS[range]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-end gap-2 pb-2">
+                  <Switch
+                    id="report-subscription-active"
+                    checked={draft.is_active}
+                    onCheckedChange={checked => setDraft({ ...draft, is_active: checked })}
+                  />
+                  <Label htmlFor="report-subscription-active">Active</Label>
+                </div>
+              </div>
+
+              <div className="space-y-1.5">
+                <Label>Schedule</Label>
+                <div className="flex flex-wrap gap-2">
+                  <Select value={cadence} onValueChange={setPreset}>
+                    <SelectTrigger className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {REPORT_CADENCE_PRESETS.map(p => (
+                        <SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>
+                      ))}
+                      <SelectItem value={CUSTOM_CADENCE}>Custom (cron)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {cadence === CUSTOM_CADENCE ? (
+                    <Input
+                      className="w-48 font-mono"
+                      value={draft.cron_expression}
+                      placeholder="0 8 * * 1"
+                      aria-label="Cron expression"
+                      onChange={e => setDraft({ ...draft, cron_expression: e.target.value })}
+                    />
+                  ) : (
+                    <Select
+                      value={String(preset?.hour ?? 8)}
+                      onValueChange={value => setDraft({ ...draft, cron_expression: presetReportCron(cadence, Number(value), preset?.minute ?? 0) })}
+                    >
+                      <SelectTrigger className="w-32" aria-label="Time (UTC)">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {HOURS.map(h => (
+                          <SelectItem key={h} value={String(h)}>{`${String(h).padStart(2, '0')}:00 UTC`}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+                {cadence === CUSTOM_CADENCE && (
+                  <p className="text-xs text-muted-foreground">
+                    minute hour day-of-month month day-of-week, e.g. <code>30 7 * * 1-5</code> for weekdays at 07:30 UTC.
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Recipients</Label>
+                <ScrollArea className="h-32 rounded-md border border-border p-2">
+                  {membersWithEmail.length > 0 ? (
+                    <div className="space-y-2">
+                      {membersWithEmail.map(member => (
+                        <label key={member.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={draft.recipients.includes(member.email.toLowerCase())}
+                            onCheckedChange={checked => toggleRecipient(member.email.toLowerCase(), checked === true)}
+                          />
+                          {member.name}
+                          <span className="text-xs text-muted-foreground">{member.email}</span>
+                        </label>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No team members with an email address.</p>
+                  )}
+                </ScrollArea>
+                <div className="flex gap-2">
+                  <Input
+                    value={customEmail}
+                    placeholder="Add a contact's email"
+                    onChange={e => setCustomEmail(e.target.value)}
+                    onKeyDown={e => e.key === 'Enter' && (e.preventDefault(), addCustomEmail())}
+                  />
+                  <Button variant="outline" onClick={addCustomEmail}>Add</Button>
+                </div>
+                {customRecipients.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {customRecipients.map(email => (
+                      <Badge key={email} variant="secondary" className="gap-1 font-normal">
+                        {email}
+                        <button type="button" aria-label={`Remove ${email}`} onClick={() => toggleRecipient(email, false)}>
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {formError && <p className="text-sm text-destructive">{formError}</p>}
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDraft(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saveSubscription.isPending}>
+                {draft.id ? 'Save' : 'Schedule report'}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,292 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CalendarClock, Clock, DollarSign, Flag, GitCompareArrows } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { BaselineSelect } from '@/components/baselines/BaselineSelect';
+import { useScheduleBaselines, useScheduleBaselineItems } from '@/hooks/useScheduleBaselines';
+import { useWorkingCalendar } from '@/hooks/useWorkingCalendar';
+import { computeBaselineVariance } from '@/lib/baselineVariance';
+import { cn } from '@/lib/utils';
+import type { ScheduleBaseline, ScheduleBaselineItem } from '@/domains/schedule/model';
+import type { Milestone, Program, Project } from '@/types/portfolio';
+
+interface ScheduleVarianceReportProps {
+  programs: Program[];
+  projects: Project[];
+  milestones: Milestone[];
+}
+
+const EMPTY_BASELINES: ScheduleBaseline[] = [];
+const EMPTY_ITEMS: ScheduleBaselineItem[] = [];
+
+const formatDate = (date?: string) => (date ? format(parseISO(date), 'MMM d, yyyy') : '—');
+
+function VarianceCell({ days }: { days?: number }) {
+  if (days === undefined) return <span className="text-muted-foreground">—</span>;
+  return (
+    <span className={cn('tabular-nums', days > 0 && 'text-destructive', days < 0 && 'text-success')}>
+      {days > 0 ? `+${days}d` : `${days}d`}
+    </span>
+  );
+}
+
+export function ScheduleVarianceReport({ programs, projects, milestones }: ScheduleVarianceReportProps) {
+  const { data: allBaselines = EMPTY_BASELINES } = useScheduleBaselines();
+  const { calendar } = useWorkingCalendar();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const baselines = useMemo(() => {
+    const projectIds = new Set(projects.map((p) => p.id));
+    const programIds = new Set(programs.map((p) => p.id));
+    return allBaselines.filter((b) =>
+      b.scope_type === 'project' ? projectIds.has(b.scope_id) : programIds.has(b.scope_id)
+    );
+  }, [allBaselines, projects, programs]);
+
+  // Default to the most recent baseline in scope; reset when the filter removes the selection
+  useEffect(() => {
+    if (selectedId && baselines.some((b) => b.id === selectedId)) return;
+    setSelectedId(baselines[0]?.id ?? null);
+  }, [baselines, selectedId]);
+
+  const { data: items = EMPTY_ITEMS, isLoading } = useScheduleBaselineItems(selectedId);
+
+  const variance = useMemo(() => {
+    if (!selectedId || items.length === 0) return null;
+    return computeBaselineVariance(
+      items,
+      { projects, tasks: projects.flatMap((p) => p.tasks), milestones },
+      calendar
+    );
+  }, [selectedId, items, projects, milestones, calendar]);
+
+  const projectName = (id: string | null) => (id && projects.find((p) => p.id === id)?.name) || '—';
+
+  const header = (
+    <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+      <div>
+        <CardTitle className="text-lg">Schedule Variance</CardTitle>
+        <CardDescription>Current plan against a saved baseline (working days, + = later)</CardDescription>
+      </div>
+      <BaselineSelect baselines={baselines} value={selectedId} onChange={setSelectedId} noneLabel="Select a baseline" />
+    </CardHeader>
+  );
+
+  if (baselines.length === 0 || !variance) {
+    return (
+      <Card>
+        {header}
+        <CardContent>
+          <div className="flex flex-col items-center justify-center py-12 text-center">
+            <GitCompareArrows className="h-12 w-12 text-muted-foreground/50" />
+            <p className="mt-4 text-lg font-medium text-muted-foreground">
+              {baselines.length === 0 ? 'No baselines' : isLoading ? 'Loading baseline…' : 'Nothing to compare'}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {baselines.length === 0
+                ? 'Save a baseline from a project or program page to track schedule variance'
+                : 'Pick a baseline to compare against the current plan'}
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { summary } = variance;
+  const slipped = variance.milestones.filter((m) => m.slipDays !== 0 || m.removed);
+  const tasksByVariance = [...variance.tasks]
+    .filter((t) => t.removed || (t.finishVarianceDays ?? 0) !== 0 || (t.startVarianceDays ?? 0) !== 0)
+    .sort((a, b) => (b.finishVarianceDays ?? 0) - (a.finishVarianceDays ?? 0));
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        {header}
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            <div className="rounded-lg bg-muted p-4">
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <CalendarClock className="h-4 w-4" />
+                Finish variance
+              </div>
+              <p className={cn('mt-1 text-2xl font-bold', summary.avgFinishVarianceDays > 0 ? 'text-destructive' : 'text-foreground')}>
+                {summary.avgFinishVarianceDays > 0 ? '+' : ''}{summary.avgFinishVarianceDays}d
+              </p>
+              <p className="text-xs text-muted-foreground">
+                avg · worst {summary.maxFinishVarianceDays > 0 ? '+' : ''}{summary.maxFinishVarianceDays}d
+              </p>
+            </div>
+            <div className="rounded-lg bg-muted p-4">
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Clock className="h-4 w-4" />
+                Late tasks
+              </div>
+              <p className="mt-1 text-2xl font-bold text-foreground">
+                {summary.lateFinishes}
+                <span className="text-sm font-normal text-muted-foreground"> / {summary.tasksCompared}</span>
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {summary.lateStarts} started late · {summary.addedTasks} added · {summary.removedTasks} removed
+              </p>
+            </div>
+            <div className="rounded-lg bg-muted p-4">
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Flag className="h-4 w-4" />
+                Slipped milestones
+              </div>
+              <p className={cn('mt-1 text-2xl font-bold', summary.slippedMilestones > 0 ? 'text-destructive' : 'text-foreground')}>
+                {summary.slippedMilestones}
+              </p>
+              <p className="text-xs text-muted-foreground">of {variance.milestones.length} baselined</p>
+            </div>
+            <div className="rounded-lg bg-muted p-4">
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <DollarSign className="h-4 w-4" />
+                Hours / budget
+              </div>
+              <p className="mt-1 text-lg font-bold text-foreground">
+                {Math.round(summary.baselineHours)}h → {Math.round(summary.currentHours)}h
+              </p>
+              <p className="text-xs text-muted-foreground">
+                ${summary.baselineBudget.toLocaleString()} → ${summary.currentBudget.toLocaleString()}
+              </p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Projects</CardTitle>
+            <CardDescription>Start and finish against the baseline</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Project</TableHead>
+                  <TableHead>Baseline finish</TableHead>
+                  <TableHead>Current finish</TableHead>
+                  <TableHead className="text-right">Start</TableHead>
+                  <TableHead className="text-right">Finish</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {variance.projects.map((p) => (
+                  <TableRow key={p.itemId}>
+                    <TableCell className="font-medium">
+                      {p.name}
+                      {p.removed && <Badge variant="outline" className="ml-2 text-[10px]">Removed</Badge>}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-muted-foreground">{formatDate(p.baselineFinish)}</TableCell>
+                    <TableCell className="whitespace-nowrap">{formatDate(p.currentFinish)}</TableCell>
+                    <TableCell className="text-right"><VarianceCell days={p.startVarianceDays} /></TableCell>
+                    <TableCell className="text-right"><VarianceCell days={p.finishVarianceDays} /></TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Milestones</CardTitle>
+            <CardDescription>Due dates moved since the baseline</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {slipped.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">All milestones are on their baselined dates.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Milestone</TableHead>
+                    <TableHead>Project</TableHead>
+                    <TableHead>Baseline</TableHead>
+                    <TableHead>Current</TableHead>
+                    <TableHead className="text-right">Slip</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {slipped.map((m) => (
+                    <TableRow key={m.milestoneId}>
+                      <TableCell className="font-medium">
+                        {m.name}
+                        {m.removed && <Badge variant="outline" className="ml-2 text-[10px]">Removed</Badge>}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{projectName(m.projectId)}</TableCell>
+                      <TableCell className="whitespace-nowrap text-muted-foreground">{formatDate(m.baselineDue)}</TableCell>
+                      <TableCell className="whitespace-nowrap">{formatDate(m.currentDue)}</TableCell>
+                      <TableCell className="text-right">
+                        <VarianceCell days={m.removed ? undefined : m.slipDays} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Task Variance</CardTitle>
+          <CardDescription>Tasks whose dates moved, latest finish slip first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {tasksByVariance.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">Every task is on its baselined dates.</p>
+          ) : (
+            <ScrollArea className="max-h-[420px]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Task</TableHead>
+                    <TableHead>Project</TableHead>
+                    <TableHead>Baseline</TableHead>
+                    <TableHead>Current</TableHead>
+                    <TableHead className="text-right">Start</TableHead>
+                    <TableHead className="text-right">Finish</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {tasksByVariance.map((t) => (
+                    <TableRow key={t.itemId}>
+                      <TableCell className="font-medium">
+                        {t.name}
+                        {t.removed && <Badge variant="outline" className="ml-2 text-[10px]">Removed</Badge>}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{projectName(t.parentId)}</TableCell>
+                      <TableCell className="whitespace-nowrap text-muted-foreground">
+                        {formatDate(t.baselineStart)} – {formatDate(t.baselineFinish)}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {formatDate(t.currentStart)} – {formatDate(t.currentFinish)}
+                      </TableCell>
+                      <TableCell className="text-right"><VarianceCell days={t.startVarianceDays} /></TableCell>
+                      <TableCell className="text-right"><VarianceCell days={t.finishVarianceDays} /></TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
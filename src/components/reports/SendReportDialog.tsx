@@ -10,7 +10,7 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Checkbox } from '@/components/ui/checkbox';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { generateReportPDF, captureCharts, type ReportData } from '@/lib/reportExport';
+import { generateReportPDF, type ReportData } from '@/lib/reportExport';
 import { usePortfolioData } from '@/contexts/PortfolioDataContext';
 import { format } from 'date-fns';
 
@@ -94,17 +94,7 @@ export function SendReportDialog({ open, onClose, reportData }: SendReportDialog
         description: 'Creating report with charts...',
       });
 
-      // Capture charts - this might fail if charts aren't visible, so we'll continue anyway
-      let chartImages: Record<string, string | null> = {};
-      try {
-        chartImages = await captureCharts();
-        console.log('Charts captured:', Object.keys(chartImages).filter(k => chartImages[k] !== null).length);
-      } catch (chartError) {
-        console.warn('Failed to capture some charts, continuing without them:', chartError);
-        // Continue without charts - PDF will still be generated
-      }
-      
-      const pdfBlob = await generateReportPDF(reportData, chartImages);
+      const pdfBlob = await generateReportPDF(reportData);
       console.log('PDF generated, size:', pdfBlob.size, 'bytes');
       
       if (!pdfBlob || pdfBlob.size === 0) {
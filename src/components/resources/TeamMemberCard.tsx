@@ -1,6 +1,6 @@
 import { motion } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
-import { Mail, MoreVertical, Trash2, HelpCircle, ExternalLink } from 'lucide-react';
+import { Mail, MoreVertical, Trash2, HelpCircle, ExternalLink, Timer } from 'lucide-react';
 import { TeamMember, Project } from '@/types/portfolio';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
@@ -22,6 +22,8 @@ interface TeamMemberCardProps {
   projects: Project[];
   timeFrame?: TimeFrame;
   totalCapacity?: number;
+  /** Hours logged in timesheets this week */
+  loggedHours?: number;
   onDelete?: (member: TeamMember) => void;
   onClick?: (member: TeamMember) => void;
 }
@@ -48,7 +50,7 @@ function getStatusLabel(allocation: number, capacity: number = 40): string {
   return 'Allocated';
 }
 
-export function TeamMemberCard({ member, projects, timeFrame = 'current-week', totalCapacity, onDelete, onClick }: TeamMemberCardProps) {
+export function TeamMemberCard({ member, projects, timeFrame = 'current-week', totalCapacity, loggedHours, onDelete, onClick }: TeamMemberCardProps) {
   const navigate = useNavigate();
   const { hasOrgPermission } = usePermissions();
   const canViewEmails = hasOrgPermission('view_contact_emails');
@@ -136,6 +138,17 @@ export function TeamMemberCard({ member, projects, timeFrame = 'current-week', t
           value={Math.min((displayAllocation / displayCapacity) * 100, 100)} 
           className={cn('h-2', getAllocationBg(displayAllocation, displayCapacity))}
         />
+        {loggedHours !== undefined && (
+          <div className="mt-2 flex items-center justify-between text-xs text-muted-foreground">
+            <span className="flex items-center gap-1.5">
+              <Timer className="h-3.5 w-3.5" />
+              Logged this week
+            </span>
+            <span className={cn('tabular-nums', loggedHours > member.capacity && 'text-destructive')}>
+              {Math.round(loggedHours * 10) / 10}h / {member.capacity}h
+            </span>
+          </div>
+        )}
       </div>
 
       {memberProjects.length > 0 && (
@@ -37,6 +37,7 @@ export function TeamMemberModal({ open, onOpenChange, member, projects, onSave }
   const [email, setEmail] = useState('');
   const [role, setRole] = useState('');
   const [capacity, setCapacity] = useState(40);
+  const [hourlyRate, setHourlyRate] = useState('');
   const [selectedProjects, setSelectedProjects] = useState<string[]>([]);
   const [expandedProjects, setExpandedProjects] = useState<string[]>([]);
   const [assignedTaskIds, setAssignedTaskIds] = useState<string[]>([]);
@@ -93,6 +94,7 @@ export function TeamMemberModal({ open, onOpenChange, member, projects, onSave }
       setEmail(member.email);
       setRole(member.role);
       setCapacity(member.capacity);
+      setHourlyRate(member.hourlyRate ? String(member.hourlyRate) : '');
       setSelectedProjects(member.projectIds);
       setAssignedTaskIds(initialMemberTaskIds);
       setExpandedProjects([]);
@@ -101,6 +103,7 @@ export function TeamMemberModal({ open, onOpenChange, member, projects, onSave }
       setEmail('');
       setRole('');
       setCapacity(40);
+      setHourlyRate('');
       setSelectedProjects([]);
       setAssignedTaskIds([]);
       setExpandedProjects([]);
@@ -153,6 +156,7 @@ export function TeamMemberModal({ open, onOpenChange, member, projects, onSave }
       role,
       allocation,
       capacity,
+      hourlyRate: Math.max(0, parseFloat(hourlyRate) || 0),
       projectIds: selectedProjects,
     }, unassignedTasks, newlyAssignedTaskIds);
     onOpenChange(false);
@@ -239,15 +243,29 @@ export function TeamMemberModal({ open, onOpenChange, member, projects, onSave }
             </div>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="role">Role</Label>
-            <Input
-              id="role"
-              value={role}
-              onChange={(e) => setRole(e.target.value)}
-              placeholder="e.g. Senior Developer, Project Manager"
-              required
-            />
+          <div className="grid gap-4 sm:grid-cols-[1fr_140px]">
+            <div className="space-y-2">
+              <Label htmlFor="role">Role</Label>
+              <Input
+                id="role"
+                value={role}
+                onChange={(e) => setRole(e.target.value)}
+                placeholder="e.g. Senior Developer, Project Manager"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="hourlyRate">Hourly rate ($)</Label>
+              <Input
+                id="hourlyRate"
+                type="number"
+                min={0}
+                step="0.01"
+                value={hourlyRate}
+                onChange={(e) => setHourlyRate(e.target.value)}
+                placeholder="0"
+              />
+            </div>
           </div>
 
           <div className="space-y-3">
@@ -0,0 +1,306 @@
+/**
+ * Calendar Sync Dialog – the user's subscribable ICS feed (for Outlook, Google Calendar,
+ * Apple Calendar), CalDAV access for editing blocks from calendar apps, and .ics imports
+ * that show a team member's external events as busy time.
+ */
+
+import { useRef, useState } from 'react';
+import { format, formatDistanceToNow, parseISO } from 'date-fns';
+import { CalendarClock, Copy, KeyRound, Link2, RefreshCw, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  useCalendarConnections,
+  useCalendarFeedUrl,
+  useDeleteCalendarConnection,
+  useImportIcsCalendar,
+  useIssueCalDavPassword,
+  useIssueCalendarFeed,
+  useUpdateCalendarFeed,
+  type CalDavCredentials,
+} from '@/hooks/useCalendarConnections';
+import { IMPORT_WINDOW_FUTURE_DAYS, IMPORT_WINDOW_PAST_DAYS } from '@/lib/icsImport';
+import type { CalendarConnection } from '@/domains/schedule/model';
+import type { TeamMember } from '@/types/portfolio';
+
+interface CalendarSyncDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teamMembers: TeamMember[];
+  currentTeamMemberId: string | null;
+}
+
+const FEED_CONTENT: { key: 'include_tasks' | 'include_milestones' | 'include_blocks'; label: string }[] = [
+  { key: 'include_tasks', label: 'My open tasks' },
+  { key: 'include_milestones', label: 'Milestones of my projects' },
+  { key: 'include_blocks', label: 'My schedule blocks' },
+];
+
+export function CalendarSyncDialog({ open, onOpenChange, teamMembers, currentTeamMemberId }: CalendarSyncDialogProps) {
+  const { data: connections = [] } = useCalendarConnections();
+  const feed = connections.find((c) => c.kind === 'ics_feed');
+  const imports = connections.filter((c) => c.kind === 'ics_import');
+  const caldav = connections.find((c) => c.kind === 'caldav');
+
+  const { data: feedUrl, isLoading: feedUrlLoading } = useCalendarFeedUrl(open ? feed : undefined);
+  const issueFeed = useIssueCalendarFeed();
+  const updateFeed = useUpdateCalendarFeed();
+  const importCalendar = useImportIcsCalendar();
+  const deleteConnection = useDeleteCalendarConnection();
+  const issueCalDav = useIssueCalDavPassword();
+  const [caldavCredentials, setCaldavCredentials] = useState<CalDavCredentials | null>(null);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importAssigneeId, setImportAssigneeId] = useState<string | null>(null);
+  const [replaceTarget, setReplaceTarget] = useState<CalendarConnection | null>(null);
+  const assigneeId = importAssigneeId ?? currentTeamMemberId ?? teamMembers[0]?.id ?? null;
+
+  const memberName = (id: string | null) =>
+    (id && teamMembers.find((m) => m.id === id)?.name) || 'Unassigned';
+
+  const copy = async (value: string, label: string) => {
+    await navigator.clipboard.writeText(value);
+    toast.success(`${label} copied`);
+  };
+
+  const createCalDavPassword = async () => {
+    try {
+      setCaldavCredentials(await issueCalDav.mutateAsync());
+    } catch {
+      // Error toast is raised by the mutation
+    }
+  };
+
+  const revokeCalDav = (id: string) => {
+    setCaldavCredentials(null);
+    deleteConnection.mutate(id);
+  };
+
+  const chooseFile = (target: CalendarConnection | null) => {
+    setReplaceTarget(target);
+    fileInputRef.current?.click();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    const target = replaceTarget;
+    const targetAssigneeId = target?.assignee_id ?? assigneeId;
+    if (!file || !targetAssigneeId) return;
+    try {
+      await importCalendar.mutateAsync({
+        text: await file.text(),
+        name: target?.name ?? file.name.replace(/\.ics$/i, ''),
+        assigneeId: targetAssigneeId,
+        connectionId: target?.id,
+      });
+    } catch {
+      // Error toast is raised by the mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Calendar sync
+          </DialogTitle>
+          <DialogDescription>
+            Subscribe to your schedule from Outlook, Google Calendar or Apple Calendar, edit it from
+            CalDAV apps, and import external calendars as busy time.
+          </DialogDescription>
+        </DialogHeader>
+
+        <section className="space-y-3">
+          <h3 className="flex items-center gap-2 text-sm font-medium">
+            <Link2 className="h-4 w-4 text-muted-foreground" />
+            Subscribe
+          </h3>
+          {!feed ? (
+            <div className="flex items-center justify-between gap-3 rounded-md border border-border p-3">
+              <p className="text-sm text-muted-foreground">
+                Create a private URL that calendar apps can subscribe to.
+              </p>
+              <Button size="sm" onClick={() => issueFeed.mutate('issue')} disabled={issueFeed.isPending}>
+                Create feed URL
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-3 rounded-md border border-border p-3">
+              <div className="flex items-center gap-2">
+                <Input
+                  readOnly
+                  className="h-9 font-mono text-xs"
+                  aria-label="Feed URL"
+                  value={feedUrl ?? (feedUrlLoading ? 'Loading…' : '')}
+                  onFocus={(e) => e.target.select()}
+                />
+                <Button variant="outline" size="icon" className="h-9 w-9 shrink-0" onClick={() => feedUrl && copy(feedUrl, 'Feed URL')} disabled={!feedUrl} aria-label="Copy feed URL">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Anyone with this URL can see the feed. Calendar apps refresh subscriptions on their
+                own schedule, usually every few hours.
+                {feed.last_synced_at && ` Last fetched ${formatDistanceToNow(parseISO(feed.last_synced_at), { addSuffix: true })}.`}
+              </p>
+              <div className="space-y-2">
+                {FEED_CONTENT.map(({ key, label }) => (
+                  <div key={key} className="flex items-center gap-2">
+                    <Switch
+                      id={`feed-${key}`}
+                      checked={feed[key]}
+                      onCheckedChange={(checked) => updateFeed.mutate({ id: feed.id, [key]: checked })}
+                    />
+                    <Label htmlFor={`feed-${key}`} className="text-sm">{label}</Label>
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" className="gap-1.5 text-muted-foreground" onClick={() => deleteConnection.mutate(feed.id)} disabled={deleteConnection.isPending}>
+                  <Trash2 className="h-3.5 w-3.5" />
+                  Remove feed
+                </Button>
+                <Button variant="outline" size="sm" className="gap-1.5" onClick={() => issueFeed.mutate('rotate')} disabled={issueFeed.isPending}>
+                  <RefreshCw className="h-3.5 w-3.5" />
+                  New URL
+                </Button>
+              </div>
+            </div>
+          )}
+        </section>
+
+        <Separator />
+
+        <section className="space-y-3">
+          <h3 className="flex items-center gap-2 text-sm font-medium">
+            <KeyRound className="h-4 w-4 text-muted-foreground" />
+            Edit from calendar apps (CalDAV)
+          </h3>
+          <p className="text-xs text-muted-foreground">
+            Thunderbird, Apple Calendar and other CalDAV apps can create, move and delete your
+            schedule blocks. Add a CalDAV account with the server URL, your email and an app password.
+          </p>
+          {caldavCredentials ? (
+            <div className="space-y-2 rounded-md border border-border p-3">
+              {([
+                ['Server URL', caldavCredentials.url],
+                ['Username', caldavCredentials.username],
+                ['App password', caldavCredentials.password],
+              ] as const).map(([label, value]) => (
+                <div key={label} className="flex items-center gap-2">
+                  <Label className="w-28 shrink-0 text-xs text-muted-foreground">{label}</Label>
+                  <Input readOnly className="h-8 font-mono text-xs" value={value} onFocus={(e) => e.target.select()} />
+                  <Button variant="outline" size="icon" className="h-8 w-8 shrink-0" onClick={() => copy(value, label)} aria-label={`Copy ${label}`}>
+                    <Copy className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">The password is only shown now. Create a new one if you lose it.</p>
+            </div>
+          ) : caldav ? (
+            <div className="flex items-center justify-between gap-3 rounded-md border border-border p-3">
+              <p className="text-sm text-muted-foreground">
+                App password created {format(parseISO(caldav.created_at), 'MMM d, yyyy')}
+                {caldav.last_synced_at && `, last used ${formatDistanceToNow(parseISO(caldav.last_synced_at), { addSuffix: true })}`}.
+              </p>
+              <div className="flex shrink-0 gap-2">
+                <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={() => revokeCalDav(caldav.id)} disabled={deleteConnection.isPending}>
+                  Revoke
+                </Button>
+                <Button variant="outline" size="sm" onClick={createCalDavPassword} disabled={issueCalDav.isPending}>
+                  New password
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex justify-end">
+              <Button size="sm" variant="outline" onClick={createCalDavPassword} disabled={issueCalDav.isPending}>
+                Create app password
+              </Button>
+            </div>
+          )}
+        </section>
+
+        <Separator />
+
+        <section className="space-y-3">
+          <h3 className="flex items-center gap-2 text-sm font-medium">
+            <Upload className="h-4 w-4 text-muted-foreground" />
+            Import busy time
+          </h3>
+          <p className="text-xs text-muted-foreground">
+            Events from an .ics export ({IMPORT_WINDOW_PAST_DAYS} days back to {IMPORT_WINDOW_FUTURE_DAYS} days ahead)
+            are added to the member's schedule as busy time. Free and cancelled events are skipped.
+          </p>
+          <div className="flex items-center gap-2">
+            <Select value={assigneeId ?? undefined} onValueChange={setImportAssigneeId}>
+              <SelectTrigger className="h-9">
+                <SelectValue placeholder="Team member" />
+              </SelectTrigger>
+              <SelectContent>
+                {teamMembers.map((m) => (
+                  <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" className="h-9 shrink-0 gap-1.5" onClick={() => chooseFile(null)} disabled={!assigneeId || importCalendar.isPending}>
+              <Upload className="h-3.5 w-3.5" />
+              {importCalendar.isPending ? 'Importing…' : 'Import .ics file'}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".ics,text/calendar"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+
+          {imports.length > 0 && (
+            <ul className="divide-y divide-border rounded-md border border-border">
+              {imports.map((connection) => (
+                <li key={connection.id} className="flex items-center gap-3 px-3 py-2">
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium">{connection.name || 'Imported calendar'}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {memberName(connection.assignee_id)} · {connection.event_count} event{connection.event_count === 1 ? '' : 's'}
+                      {connection.last_synced_at && ` · imported ${format(parseISO(connection.last_synced_at), 'MMM d, HH:mm')}`}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="sm" className="gap-1.5" onClick={() => chooseFile(connection)} disabled={importCalendar.isPending}>
+                    <RefreshCw className="h-3.5 w-3.5" />
+                    Update
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground"
+                    onClick={() => deleteConnection.mutate(connection.id)}
+                    disabled={deleteConnection.isPending}
+                    aria-label="Remove import"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </DialogContent>
+    </Dialog>
+  );
+}
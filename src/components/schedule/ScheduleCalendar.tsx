@@ -17,10 +17,11 @@ import {
   getHours,
   getMinutes,
 } from 'date-fns';
-import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { CalendarClock, ChevronLeft, ChevronRight, Repeat } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
 import { cn } from '@/lib/utils';
+import { projectRecurringTasks } from '@/lib/recurringTasks';
 import type { ScheduleBlock } from '@/domains/schedule/model';
 import type { Task, Project, Milestone, TeamMember } from '@/types/portfolio';
 
@@ -41,6 +42,10 @@ export interface CalendarBlock {
   sourceId: string | null;
   items?: { title: string }[];
   isConflict?: boolean;
+  /** Upcoming occurrence of a recurring task; not a task yet, so it can't be moved */
+  isProjected?: boolean;
+  /** Event imported from an external calendar; the next import would undo a move, so it can't be moved */
+  isBusy?: boolean;
 }
 
 export type ViewMode = 'my-schedule' | 'my-team';
@@ -88,6 +93,7 @@ function buildCalendarBlocks(
       assigneeId: b.assignee_id,
       sourceType: b.source_type as 'manual' | 'task' | 'milestone',
       sourceId: b.source_id,
+      isBusy: !!b.calendar_connection_id,
     });
   }
 
@@ -147,6 +153,19 @@ function buildCalendarBlocks(
   return result;
 }
 
+function buildProjectedBlocks(tasks: Task[], from: Date, to: Date): CalendarBlock[] {
+  return projectRecurringTasks(tasks, format(from, 'yyyy-MM-dd'), format(to, 'yyyy-MM-dd')).map((occurrence) => ({
+    id: `projected-${occurrence.key}`,
+    title: occurrence.task.title,
+    startUtc: toUtc(parseISO(occurrence.startDate ?? occurrence.date)),
+    endUtc: toUtc(parseISO(occurrence.date)),
+    assigneeId: occurrence.task.assigneeId ?? null,
+    sourceType: 'task',
+    sourceId: occurrence.task.id,
+    isProjected: true,
+  }));
+}
+
 function markConflicts(blocks: CalendarBlock[]): CalendarBlock[] {
   const out = blocks.map((b) => ({ ...b }));
   const byAssignee = new Map<string, CalendarBlock[]>();
@@ -180,7 +199,11 @@ function blockToGridPlacement(
   weekStart: Date
 ): { colStart: number; colSpan: number; rowStart: number; rowSpan: number } | null {
   const start = toLocal(block.startUtc);
-  const end = toLocal(block.endUtc);
+  let end = toLocal(block.endUtc);
+  // Imported all-day events end at the following midnight; keep them off the next day's column
+  if (block.isBusy && end > start && getHours(end) === 0 && getMinutes(end) === 0) {
+    end = new Date(end.getTime() - 1);
+  }
   const startDayIndex = differenceInDays(start, weekStart);
   const endDayIndex = differenceInDays(end, weekStart);
   if (startDayIndex < 0 || endDayIndex >= 7) return null;
@@ -255,8 +278,9 @@ export function ScheduleCalendar({
 
   const allBlocks = useMemo(() => {
     const raw = buildCalendarBlocks(blocks, tasks, projects, milestones);
-    return markConflicts(raw);
-  }, [blocks, tasks, projects, milestones]);
+    // Projected occurrences are shown but don't count as conflicts until they exist
+    return [...markConflicts(raw), ...buildProjectedBlocks(tasks, weekStartNorm, weekEnd)];
+  }, [blocks, tasks, projects, milestones, weekStartNorm, weekEnd]);
 
   const conflictCount = useMemo(
     () => allBlocks.filter((b) => b.isConflict).length,
@@ -432,19 +456,30 @@ export function ScheduleCalendar({
                           key={block.id}
                           className={cn(
                             'rounded border border-border/80 bg-card shadow-sm overflow-hidden pointer-events-auto flex flex-col justify-center px-1 min-h-0',
-                            block.isConflict && 'border-l-4 border-l-destructive'
+                            block.isConflict && 'border-l-4 border-l-destructive',
+                            block.isProjected && 'border-dashed bg-card/60 shadow-none',
+                            block.isBusy && 'bg-muted shadow-none'
                           )}
+                          title={
+                            block.isProjected
+                              ? `Upcoming occurrence of "${block.title}"`
+                              : block.isBusy
+                                ? `Busy: "${block.title}" (imported calendar)`
+                                : undefined
+                          }
                           style={{
                             gridColumn: `${colStart} / span ${colSpan}`,
                             gridRow: `${rowStart} / span ${rowSpan}`,
                             minHeight: 20,
                           }}
-                          draggable={!!onBlockMove}
+                          draggable={!!onBlockMove && !block.isProjected && !block.isBusy}
                           onDragStart={() => setDraggingBlock(block)}
                           onDragEnd={() => setDraggingBlock(null)}
                         >
-                          <div className="p-0.5 text-xs truncate text-foreground font-medium">
-                            {block.title}
+                          <div className={cn('flex items-center gap-1 p-0.5 text-xs truncate font-medium', block.isProjected || block.isBusy ? 'text-muted-foreground' : 'text-foreground')}>
+                            {block.isProjected && <Repeat className="h-3 w-3 shrink-0" />}
+                            {block.isBusy && <CalendarClock className="h-3 w-3 shrink-0" />}
+                            <span className="truncate">{block.title}</span>
                           </div>
                         </div>
                       );
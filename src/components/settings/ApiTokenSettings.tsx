@@ -0,0 +1,351 @@
+import { useState } from 'react';
+import { addDays, format, formatDistanceToNow, parseISO } from 'date-fns';
+import { Copy, Download, KeyRound, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useApiTokens, useCreateApiToken, useRevokeApiToken, type CreateApiTokenInput } from '@/hooks/useApiTokens';
+import { useOrgMembers } from '@/hooks/useOrgMembers';
+import { useProjects } from '@/hooks/useProjects';
+import { buildOpenApiDocument, PUBLIC_API_VERSION } from '@/lib/publicApi';
+import { canManageOrgMembers, mapDatabaseRole } from '@/domains/permissions/service';
+import type { PersonalAccessToken } from '@/domains/apiTokens/model';
+
+const API_BASE_URL = 'https://bccdcbzdrwlmzholhdth.supabase.co/functions/v1/api';
+
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'No expiry' },
+];
+
+interface TokenDraft {
+  name: string;
+  scope: CreateApiTokenInput['scope'];
+  allProjects: boolean;
+  projectIds: string[];
+  expiry: string;
+}
+
+const emptyDraft = (): TokenDraft => ({ name: '', scope: 'read', allProjects: true, projectIds: [], expiry: '90' });
+
+const isActive = (token: PersonalAccessToken) =>
+  !token.revoked_at && (!token.expires_at || parseISO(token.expires_at) > new Date());
+
+/**
+ * Personal access tokens for the public REST API (the api edge function). A token acts as its user:
+ * what it can read and change follows the user's role, narrowed by the token's scope and projects.
+ */
+export function ApiTokenSettings() {
+  const { user, userRole } = useAuth();
+  const { data: tokens = [] } = useApiTokens();
+  const { data: projects = [] } = useProjects();
+  const { data: members = [] } = useOrgMembers();
+  const createToken = useCreateApiToken();
+  const revokeToken = useRevokeApiToken();
+
+  const [draft, setDraft] = useState<TokenDraft | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const isAdmin = canManageOrgMembers(mapDatabaseRole(userRole));
+  const ownTokens = tokens.filter((t) => t.user_id === user?.id);
+  const otherTokens = tokens.filter((t) => t.user_id !== user?.id);
+
+  const projectName = (id: string) => projects.find((p) => p.id === id)?.name ?? 'Deleted project';
+  const memberName = (userId: string) => {
+    const member = members.find((m) => m.id === userId);
+    if (!member) return 'Former member';
+    return [member.first_name, member.last_name].filter(Boolean).join(' ') || member.email || 'Member';
+  };
+
+  const copy = async (value: string, label: string) => {
+    await navigator.clipboard.writeText(value);
+    toast.success(`${label} copied`);
+  };
+
+  const downloadOpenApi = () => {
+    const document = buildOpenApiDocument(API_BASE_URL);
+    const blob = new Blob([JSON.stringify(document, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = window.document.createElement('a');
+    link.href = url;
+    link.download = `accord-api-${PUBLIC_API_VERSION}.openapi.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const openEditor = () => {
+    setFormError(null);
+    setDraft(emptyDraft());
+  };
+
+  const toggleProject = (projectId: string, on: boolean) =>
+    setDraft((d) => d && {
+      ...d,
+      projectIds: on ? [...d.projectIds, projectId] : d.projectIds.filter((id) => id !== projectId),
+    });
+
+  const handleCreate = () => {
+    if (!draft) return;
+    if (!draft.name.trim()) return setFormError('Give the token a name.');
+    if (!draft.allProjects && draft.projectIds.length === 0) return setFormError('Choose at least one project.');
+    setFormError(null);
+    createToken.mutate(
+      {
+        name: draft.name.trim(),
+        scope: draft.scope,
+        project_ids: draft.allProjects ? null : draft.projectIds,
+        expires_at: draft.expiry === 'never' ? null : addDays(new Date(), Number(draft.expiry)).toISOString(),
+      },
+      {
+        onSuccess: (token) => {
+          setDraft(null);
+          setNewToken(token);
+        },
+      }
+    );
+  };
+
+  const renderToken = (token: PersonalAccessToken, showOwner: boolean) => {
+    const active = isActive(token);
+    return (
+      <li key={token.id} className="flex flex-wrap items-center justify-between gap-3 p-3 text-sm">
+        <div className="min-w-0 space-y-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <KeyRound className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <span className="font-medium truncate">{token.name}</span>
+            <code className="rounded bg-muted px-1.5 py-0.5 text-xs">{token.token_prefix}…</code>
+            <Badge variant={token.scope === 'write' ? 'default' : 'secondary'}>
+              {token.scope === 'write' ? 'Read & write' : 'Read-only'}
+            </Badge>
+            {token.revoked_at ? (
+              <Badge variant="destructive">Revoked</Badge>
+            ) : !active && (
+              <Badge variant="outline">Expired</Badge>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {showOwner && `${memberName(token.user_id)} · `}
+            {token.project_ids ? token.project_ids.map(projectName).join(', ') : 'All projects'} ·{' '}
+            {token.expires_at ? `expires ${format(parseISO(token.expires_at), 'MMM d, yyyy')}` : 'no expiry'} ·{' '}
+            {token.last_used_at
+              ? `last used ${formatDistanceToNow(parseISO(token.last_used_at), { addSuffix: true })}`
+              : 'never used'}
+          </p>
+        </div>
+        {!token.revoked_at && (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={revokeToken.isPending}
+            onClick={() => revokeToken.mutate(token.id)}
+          >
+            Revoke
+          </Button>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="font-display text-lg font-semibold text-card-foreground">API tokens</h2>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Personal access tokens let scripts and BI tools use the REST API as you. They can never do more than your
+            role allows; read-only and project-limited tokens do less.
+          </p>
+        </div>
+        <Button className="gap-2" onClick={openEditor}>
+          <Plus className="h-4 w-4" />
+          New token
+        </Button>
+      </div>
+
+      <div className="space-y-2 rounded-md border border-border p-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Label className="text-xs text-muted-foreground shrink-0">Base URL</Label>
+          <code className="truncate rounded bg-muted px-2 py-1 text-xs">{`${API_BASE_URL}/${PUBLIC_API_VERSION}`}</code>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 shrink-0"
+            aria-label="Copy base URL"
+            onClick={() => copy(`${API_BASE_URL}/${PUBLIC_API_VERSION}`, 'Base URL')}
+          >
+            <Copy className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" className="gap-2 ml-auto" onClick={downloadOpenApi}>
+            <Download className="h-4 w-4" />
+            OpenAPI document
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Send the token as <code>Authorization: Bearer acc_…</code>. Lists take <code>limit</code> (up to 200),{' '}
+          <code>offset</code>, <code>updated_since</code> and field filters such as <code>?status=active</code>.
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="font-display text-base font-semibold text-card-foreground">Your tokens</h3>
+        {ownTokens.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No tokens yet.</p>
+        ) : (
+          <ul className="divide-y divide-border rounded-md border border-border">
+            {ownTokens.map((token) => renderToken(token, false))}
+          </ul>
+        )}
+      </div>
+
+      {isAdmin && otherTokens.length > 0 && (
+        <div className="space-y-3">
+          <div>
+            <h3 className="font-display text-base font-semibold text-card-foreground">Other members' tokens</h3>
+            <p className="mt-1 text-sm text-muted-foreground">As an admin you can revoke any token in the organization.</p>
+          </div>
+          <ul className="divide-y divide-border rounded-md border border-border">
+            {otherTokens.map((token) => renderToken(token, true))}
+          </ul>
+        </div>
+      )}
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New API token</DialogTitle>
+            <DialogDescription>
+              The token is shown once. Writing also needs a role that can edit the project.
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-1.5">
+                <Label htmlFor="api-token-name">Name</Label>
+                <Input
+                  id="api-token-name"
+                  value={draft.name}
+                  placeholder="e.g. Power BI refresh"
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="space-y-1.5">
+                  <Label>Access</Label>
+                  <Select
+                    value={draft.scope}
+                    onValueChange={(value) => setDraft({ ...draft, scope: value as TokenDraft['scope'] })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="read">Read-only</SelectItem>
+                      <SelectItem value="write">Read & write</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label>Expires after</Label>
+                  <Select value={draft.expiry} onValueChange={(value) => setDraft({ ...draft, expiry: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EXPIRY_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="api-token-all-projects"
+                    checked={draft.allProjects}
+                    onCheckedChange={(checked) => setDraft({ ...draft, allProjects: checked })}
+                  />
+                  <Label htmlFor="api-token-all-projects">All projects</Label>
+                </div>
+                {!draft.allProjects && (
+                  <div className="max-h-48 space-y-1.5 overflow-y-auto rounded-md border border-border p-3">
+                    {projects.map((project) => (
+                      <label key={project.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={draft.projectIds.includes(project.id)}
+                          onCheckedChange={(checked) => toggleProject(project.id, checked === true)}
+                        />
+                        {project.name}
+                      </label>
+                    ))}
+                    <p className="pt-1 text-xs text-muted-foreground">
+                      Project-limited tokens can't read contacts.
+                    </p>
+                  </div>
+                )}
+              </div>
+              {formError && <p className="text-sm text-destructive">{formError}</p>}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={createToken.isPending}>
+              Create token
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!newToken} onOpenChange={(open) => !open && setNewToken(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Copy your token</DialogTitle>
+            <DialogDescription>It won't be shown again. Keep it somewhere safe, like a password.</DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 break-all rounded bg-muted px-2 py-1.5 text-xs">{newToken}</code>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              aria-label="Copy token"
+              onClick={() => newToken && copy(newToken, 'Token')}
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setNewToken(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,413 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePortfolioData } from '@/contexts/PortfolioDataContext';
+import { useOrgMemberName, useOrgMembers } from '@/hooks/useOrgMembers';
+import {
+  useApprovalPolicies,
+  useDeleteApprovalPolicy,
+  useSaveApprovalPolicy,
+  type ApprovalPolicyInput,
+} from '@/hooks/useApprovalPolicies';
+import { optionalNumber } from '@/lib/utils';
+import type { ApprovalPolicy, ApprovalPolicyScope, ApprovalPolicyStage, ApprovalStageSource } from '@/types/masterbook';
+
+const scopeLabels: Record<ApprovalPolicyScope, string> = {
+  org: 'Whole organization',
+  portfolio: 'Portfolio',
+  program: 'Program',
+  project: 'Project',
+};
+
+const sourceLabels: Record<ApprovalStageSource, string> = {
+  users: 'Named approvers',
+  project_managers: 'Project managers',
+  program_manager: 'Program manager',
+  org_managers: 'Org managers',
+};
+
+const newStage = (): ApprovalPolicyStage => ({
+  name: '',
+  approverSource: 'project_managers',
+  approverIds: [],
+  requiredApprovals: 1,
+  reminderHours: 48,
+});
+
+const emptyPolicy = (): ApprovalPolicyInput => ({
+  name: '',
+  scopeType: 'org',
+  isActive: true,
+  stages: [newStage()],
+});
+
+function stageSummary(stage: ApprovalPolicyStage, memberName: (id: string) => string): string {
+  const who = stage.approverSource === 'users' ? stage.approverIds.map(memberName).join(', ') : sourceLabels[stage.approverSource];
+  const quorum = stage.approverSource === 'users' && stage.approverIds.length > 1
+    ? `any ${stage.requiredApprovals} of ${stage.approverIds.length}: `
+    : '';
+  const thresholds = [
+    stage.minScheduleImpactDays != null && `≥ ${stage.minScheduleImpactDays}d schedule impact`,
+    stage.minBudgetImpact != null && `≥ ${stage.minBudgetImpact.toLocaleString()} budget impact`,
+  ].filter(Boolean);
+  return `${stage.name}: ${quorum}${who}${thresholds.length > 0 ? ` (when ${thresholds.join(' or ')})` : ''}`;
+}
+
+/**
+ * Approval policies: ordered stages a change request goes through before it is approved. The most specific active
+ * policy (project, then program, portfolio, org) applies; without one, any org manager can approve.
+ */
+export function ApprovalPolicySettings() {
+  const { user } = useAuth();
+  const { portfolios, programs, projects } = usePortfolioData();
+  const { data: policies = [] } = useApprovalPolicies();
+  const { data: members = [] } = useOrgMembers();
+  const savePolicy = useSaveApprovalPolicy();
+  const deletePolicy = useDeleteApprovalPolicy();
+  const memberName = useOrgMemberName();
+
+  const [draft, setDraft] = useState<ApprovalPolicyInput | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const approverOptions = [...(user?.id ? [user.id] : []), ...members.map((m) => m.id)];
+  const scopeOptions: Record<Exclude<ApprovalPolicyScope, 'org'>, { id: string; name: string }[]> = {
+    portfolio: portfolios,
+    program: programs,
+    project: projects,
+  };
+
+  const scopeName = (policy: ApprovalPolicy) =>
+    policy.scopeType === 'org'
+      ? scopeLabels.org
+      : `${scopeLabels[policy.scopeType]}: ${scopeOptions[policy.scopeType].find((s) => s.id === policy.scopeId)?.name ?? 'Deleted'}`;
+
+  const openEditor = (policy?: ApprovalPolicy) => {
+    setFormError(null);
+    setDraft(
+      policy
+        ? { id: policy.id, name: policy.name, scopeType: policy.scopeType, scopeId: policy.scopeId, isActive: policy.isActive, stages: policy.stages }
+        : emptyPolicy()
+    );
+  };
+
+  const updateStage = (index: number, patch: Partial<ApprovalPolicyStage>) =>
+    setDraft((d) => d && { ...d, stages: d.stages.map((s, i) => (i === index ? { ...s, ...patch } : s)) });
+
+  const moveStage = (index: number, offset: number) =>
+    setDraft((d) => {
+      if (!d) return d;
+      const stages = [...d.stages];
+      const [stage] = stages.splice(index, 1);
+      stages.splice(index + offset, 0, stage);
+      return { ...d, stages };
+    });
+
+  const toggleApprover = (index: number, userId: string) => {
+    const stage = draft?.stages[index];
+    if (!stage) return;
+    const approverIds = stage.approverIds.includes(userId)
+      ? stage.approverIds.filter((id) => id !== userId)
+      : [...stage.approverIds, userId];
+    updateStage(index, { approverIds });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    if (!draft.name.trim()) return setFormError('Give the policy a name.');
+    if (draft.scopeType !== 'org' && !draft.scopeId) return setFormError(`Choose the ${draft.scopeType} this policy covers.`);
+    if (draft.stages.length === 0) return setFormError('Add at least one stage.');
+    for (const [i, stage] of draft.stages.entries()) {
+      const label = stage.name.trim() || `Stage ${i + 1}`;
+      if (!stage.name.trim()) return setFormError(`Name stage ${i + 1}.`);
+      if (!Number.isInteger(stage.requiredApprovals) || stage.requiredApprovals < 1) {
+        return setFormError(`${label} needs at least one required approval.`);
+      }
+      if (stage.approverSource === 'users' && stage.approverIds.length < stage.requiredApprovals) {
+        return setFormError(`${label} needs at least ${stage.requiredApprovals} approver(s).`);
+      }
+      if (!(stage.reminderHours > 0)) return setFormError(`${label} needs a reminder interval.`);
+    }
+    setFormError(null);
+    savePolicy.mutate(
+      { ...draft, name: draft.name.trim(), stages: draft.stages.map((s) => ({ ...s, name: s.name.trim() })) },
+      { onSuccess: () => setDraft(null) }
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="font-display text-lg font-semibold text-card-foreground">Approval Chains</h2>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Who approves change requests, in what order and with what quorum. The most specific active policy applies;
+            without one, any org manager can approve.
+          </p>
+        </div>
+        <Button className="gap-2" onClick={() => openEditor()}>
+          <Plus className="h-4 w-4" />
+          New policy
+        </Button>
+      </div>
+
+      {policies.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No approval policies yet.</p>
+      ) : (
+        policies.map((policy) => (
+          <Card key={policy.id} className="border-border bg-card">
+            <CardHeader className="pb-3">
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <CardTitle className="text-base flex items-center gap-2">
+                    {policy.name}
+                    {!policy.isActive && <Badge variant="outline">Inactive</Badge>}
+                  </CardTitle>
+                  <CardDescription>{scopeName(policy)}</CardDescription>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="icon" className="h-8 w-8" aria-label={`Edit ${policy.name}`} onClick={() => openEditor(policy)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    aria-label={`Delete ${policy.name}`}
+                    onClick={() => deletePolicy.mutate(policy.id)}
+                  >
+                    <Trash2 className="h-4 w-4 text-muted-foreground" />
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <ol className="list-decimal space-y-1 pl-5 text-sm text-muted-foreground">
+                {policy.stages.map((stage) => (
+                  <li key={stage.id ?? stage.name}>{stageSummary(stage, memberName)}</li>
+                ))}
+              </ol>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Edit approval policy' : 'New approval policy'}</DialogTitle>
+            <DialogDescription>
+              Stages run in order; a stage is approved once its required approvals are in and rejected as soon as that
+              can no longer happen. Stages with an impact threshold are skipped for smaller changes.
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="space-y-1.5 sm:col-span-2">
+                  <Label htmlFor="policy-name">Name</Label>
+                  <Input
+                    id="policy-name"
+                    value={draft.name}
+                    placeholder="e.g. Standard scope change"
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label>Applies to</Label>
+                  <Select
+                    value={draft.scopeType}
+                    onValueChange={(v) => setDraft({ ...draft, scopeType: v as ApprovalPolicyScope, scopeId: undefined })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(scopeLabels) as ApprovalPolicyScope[]).map((scope) => (
+                        <SelectItem key={scope} value={scope}>
+                          {scopeLabels[scope]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {draft.scopeType !== 'org' && (
+                  <div className="space-y-1.5">
+                    <Label>{scopeLabels[draft.scopeType]}</Label>
+                    <Select value={draft.scopeId ?? ''} onValueChange={(v) => setDraft({ ...draft, scopeId: v })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder={`Select ${draft.scopeType}`} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {scopeOptions[draft.scopeType].map((s) => (
+                          <SelectItem key={s.id} value={s.id}>
+                            {s.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div className="flex items-center gap-2 sm:col-span-2">
+                  <Switch
+                    id="policy-active"
+                    checked={draft.isActive}
+                    onCheckedChange={(checked) => setDraft({ ...draft, isActive: checked })}
+                  />
+                  <Label htmlFor="policy-active">Active</Label>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label>Stages</Label>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="gap-1"
+                    onClick={() => setDraft({ ...draft, stages: [...draft.stages, newStage()] })}
+                  >
+                    <Plus className="h-4 w-4" />
+                    Add stage
+                  </Button>
+                </div>
+                {draft.stages.map((stage, i) => (
+                  <div key={i} className="space-y-3 rounded-md border border-border p-3">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-muted-foreground w-6">{i + 1}.</span>
+                      <Input
+                        value={stage.name}
+                        placeholder="Stage name, e.g. Finance"
+                        aria-label={`Stage ${i + 1} name`}
+                        onChange={(e) => updateStage(i, { name: e.target.value })}
+                      />
+                      <Button type="button" variant="ghost" size="icon" className="h-8 w-8 shrink-0" disabled={i === 0} aria-label="Move stage up" onClick={() => moveStage(i, -1)}>
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button type="button" variant="ghost" size="icon" className="h-8 w-8 shrink-0" disabled={i === draft.stages.length - 1} aria-label="Move stage down" onClick={() => moveStage(i, 1)}>
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 shrink-0"
+                        aria-label="Remove stage"
+                        onClick={() => setDraft({ ...draft, stages: draft.stages.filter((_, j) => j !== i) })}
+                      >
+                        <Trash2 className="h-4 w-4 text-muted-foreground" />
+                      </Button>
+                    </div>
+                    <div className="grid gap-3 sm:grid-cols-2">
+                      <div className="space-y-1.5">
+                        <Label className="text-xs">Approvers</Label>
+                        <Select
+                          value={stage.approverSource}
+                          onValueChange={(v) => updateStage(i, { approverSource: v as ApprovalStageSource })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(sourceLabels) as ApprovalStageSource[]).map((source) => (
+                              <SelectItem key={source} value={source}>
+                                {sourceLabels[source]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1.5">
+                        <Label className="text-xs" htmlFor={`stage-${i}-quorum`}>Approvals required</Label>
+                        <Input
+                          id={`stage-${i}-quorum`}
+                          type="number"
+                          min={1}
+                          value={stage.requiredApprovals}
+                          onChange={(e) => updateStage(i, { requiredApprovals: Number(e.target.value) })}
+                        />
+                      </div>
+                      {stage.approverSource === 'users' && (
+                        <div className="grid gap-1.5 sm:col-span-2 sm:grid-cols-2">
+                          {approverOptions.map((id) => (
+                            <label key={id} className="flex items-center gap-2 text-sm">
+                              <Checkbox checked={stage.approverIds.includes(id)} onCheckedChange={() => toggleApprover(i, id)} />
+                              {memberName(id)}
+                            </label>
+                          ))}
+                        </div>
+                      )}
+                      <div className="space-y-1.5">
+                        <Label className="text-xs" htmlFor={`stage-${i}-schedule`}>Only from schedule impact (days)</Label>
+                        <Input
+                          id={`stage-${i}-schedule`}
+                          type="number"
+                          min={0}
+                          placeholder="Always"
+                          value={stage.minScheduleImpactDays ?? ''}
+                          onChange={(e) => updateStage(i, { minScheduleImpactDays: optionalNumber(e.target.value) })}
+                        />
+                      </div>
+                      <div className="space-y-1.5">
+                        <Label className="text-xs" htmlFor={`stage-${i}-budget`}>Only from budget impact</Label>
+                        <Input
+                          id={`stage-${i}-budget`}
+                          type="number"
+                          min={0}
+                          placeholder="Always"
+                          value={stage.minBudgetImpact ?? ''}
+                          onChange={(e) => updateStage(i, { minBudgetImpact: optionalNumber(e.target.value) })}
+                        />
+                      </div>
+                      <div className="space-y-1.5">
+                        <Label className="text-xs" htmlFor={`stage-${i}-reminder`}>Remind every (hours)</Label>
+                        <Input
+                          id={`stage-${i}-reminder`}
+                          type="number"
+                          min={1}
+                          value={stage.reminderHours}
+                          onChange={(e) => updateStage(i, { reminderHours: Number(e.target.value) })}
+                        />
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {formError && <p className="text-sm text-destructive">{formError}</p>}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={savePolicy.isPending}>
+              Save policy
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
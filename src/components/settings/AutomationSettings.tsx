@@ -0,0 +1,802 @@
+import { useMemo, useState } from 'react';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { Pencil, Plus, Trash2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { usePortfolioData } from '@/contexts/PortfolioDataContext';
+import {
+  useAutomationRules,
+  useAutomationRuns,
+  useDeleteAutomationRule,
+  useSaveAutomationRule,
+  useToggleAutomationRule,
+  type AutomationRuleInput,
+} from '@/hooks/useAutomationRules';
+import {
+  AUTOMATION_ACTION_LABELS,
+  AUTOMATION_ASSIGNEE_LABELS,
+  AUTOMATION_CONDITION_FIELDS,
+  AUTOMATION_OPERATOR_LABELS,
+  AUTOMATION_RECIPIENT_LABELS,
+  AUTOMATION_TEMPLATE_VARIABLES,
+  AUTOMATION_TRIGGERS,
+  AUTOMATION_TRIGGER_TYPES,
+  automationActionsFor,
+  automationAssigneesFor,
+  automationRecipientsFor,
+  defaultAutomationAction,
+  describeAutomationAction,
+  describeAutomationCondition,
+  describeAutomationTrigger,
+  validateAutomationRule,
+  type AutomationConditionField,
+  type AutomationOption,
+} from '@/lib/automationRules';
+import { defaultTaskPriorities, defaultTaskStatuses } from '@/lib/workflow';
+import type {
+  AutomationAction,
+  AutomationActionType,
+  AutomationAssignee,
+  AutomationCondition,
+  AutomationConditionOperator,
+  AutomationRule,
+  AutomationRunStatus,
+  AutomationTriggerType,
+} from '@/types/masterbook';
+import type { Task } from '@/types/portfolio';
+
+const ANY = '__any__';
+const ALL_PROJECTS = '__all__';
+
+const runStatusVariant: Record<AutomationRunStatus, 'default' | 'destructive' | 'secondary'> = {
+  success: 'default',
+  failed: 'destructive',
+  skipped: 'secondary',
+};
+
+const emptyRule = (): AutomationRuleInput => ({
+  name: '',
+  triggerType: 'task_status_changed',
+  toStatus: 'review',
+  conditions: [],
+  actions: [defaultAutomationAction('assign_task')],
+  isActive: true,
+});
+
+const valueless = (operator: AutomationConditionOperator) => operator === 'is_set' || operator === 'is_not_set';
+const listOperator = (operator: AutomationConditionOperator) => operator === 'in' || operator === 'not_in';
+
+/**
+ * Automations: trigger → conditions → actions, run by the database whenever a task, risk or project changes.
+ * Below the rules, the execution log shows each time a rule matched and what its actions did.
+ */
+export function AutomationSettings() {
+  const { projects, teamMembers, milestones } = usePortfolioData();
+  const { data: rules = [] } = useAutomationRules();
+  const { data: runs = [] } = useAutomationRuns();
+  const saveRule = useSaveAutomationRule();
+  const toggleRule = useToggleAutomationRule();
+  const deleteRule = useDeleteAutomationRule();
+
+  const [draft, setDraft] = useState<AutomationRuleInput | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const memberOptions = useMemo<AutomationOption[]>(
+    () => teamMembers.map((m) => ({ value: m.id, label: m.name })),
+    [teamMembers]
+  );
+
+  // Record columns holding ids get pickers instead of free text
+  const fieldsFor = (trigger: AutomationTriggerType): AutomationConditionField[] =>
+    AUTOMATION_CONDITION_FIELDS[AUTOMATION_TRIGGERS[trigger].entity].map((f) => {
+      if (f.field === 'assignee_id' || f.field === 'owner_id') return { ...f, options: memberOptions };
+      if (f.field === 'milestone_id') {
+        return {
+          ...f,
+          options: milestones
+            .filter((m) => !draft?.projectId || m.projectId === draft.projectId)
+            .map((m) => ({ value: m.id, label: m.title })),
+        };
+      }
+      return f;
+    });
+
+  const projectName = (id?: string) => (id ? projects.find((p) => p.id === id)?.name ?? 'Deleted project' : 'All projects');
+
+  const openEditor = (rule?: AutomationRule) => {
+    setFormError(null);
+    setDraft(
+      rule
+        ? {
+            id: rule.id,
+            name: rule.name,
+            description: rule.description,
+            projectId: rule.projectId,
+            triggerType: rule.triggerType,
+            fromStatus: rule.fromStatus,
+            toStatus: rule.toStatus,
+            conditions: rule.conditions,
+            actions: rule.actions,
+            isActive: rule.isActive,
+          }
+        : emptyRule()
+    );
+  };
+
+  const changeTrigger = (triggerType: AutomationTriggerType) =>
+    setDraft((d) => {
+      if (!d) return d;
+      const sameEntity = AUTOMATION_TRIGGERS[triggerType].entity === AUTOMATION_TRIGGERS[d.triggerType].entity;
+      const allowed = automationActionsFor(triggerType);
+      const actions = d.actions.filter((a) => allowed.includes(a.type));
+      return {
+        ...d,
+        triggerType,
+        fromStatus: undefined,
+        toStatus: undefined,
+        conditions: sameEntity ? d.conditions : [],
+        actions: actions.length > 0 ? actions : [defaultAutomationAction(allowed[allowed.length - 1])],
+      };
+    });
+
+  const updateCondition = (index: number, patch: Partial<AutomationCondition>) =>
+    setDraft((d) => d && { ...d, conditions: d.conditions.map((c, i) => (i === index ? { ...c, ...patch } : c)) });
+
+  const updateAction = (index: number, action: AutomationAction) =>
+    setDraft((d) => d && { ...d, actions: d.actions.map((a, i) => (i === index ? action : a)) });
+
+  const handleSave = () => {
+    if (!draft) return;
+    const error = validateAutomationRule(draft);
+    if (error) return setFormError(error);
+    setFormError(null);
+    saveRule.mutate(draft, { onSuccess: () => setDraft(null) });
+  };
+
+  const renderConditionValue = (condition: AutomationCondition, index: number, field?: AutomationConditionField) => {
+    if (valueless(condition.operator)) return null;
+    if (listOperator(condition.operator)) {
+      const values = Array.isArray(condition.value) ? condition.value : condition.value ? [condition.value] : [];
+      if (field?.options) {
+        return (
+          <div className="grid gap-1.5 sm:col-span-3 sm:grid-cols-2">
+            {field.options.map((option) => (
+              <label key={option.value} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={values.includes(option.value)}
+                  onCheckedChange={() =>
+                    updateCondition(index, {
+                      value: values.includes(option.value)
+                        ? values.filter((v) => v !== option.value)
+                        : [...values, option.value],
+                    })
+                  }
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        );
+      }
+      return (
+        <Input
+          className="sm:col-span-3"
+          value={values.join(', ')}
+          placeholder="Comma-separated values"
+          aria-label="Condition values"
+          onChange={(e) => updateCondition(index, { value: e.target.value.split(',').map((v) => v.trim()) })}
+        />
+      );
+    }
+    const value = Array.isArray(condition.value) ? condition.value[0] ?? '' : condition.value ?? '';
+    if (field?.options) {
+      return (
+        <Select value={value} onValueChange={(v) => updateCondition(index, { value: v })}>
+          <SelectTrigger aria-label="Condition value">
+            <SelectValue placeholder="Select" />
+          </SelectTrigger>
+          <SelectContent>
+            {field.options.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+    return (
+      <Input
+        type={field?.numeric ? 'number' : field?.field.endsWith('_date') ? 'date' : 'text'}
+        value={value}
+        aria-label="Condition value"
+        onChange={(e) => updateCondition(index, { value: e.target.value })}
+      />
+    );
+  };
+
+  const renderAssignee = (
+    action: Extract<AutomationAction, { type: 'assign_task' | 'create_task' }>,
+    index: number,
+    trigger: AutomationTriggerType
+  ) => (
+    <>
+      <div className="space-y-1.5">
+        <Label className="text-xs">Assign to</Label>
+        <Select
+          value={action.assignee ?? 'unassign'}
+          onValueChange={(v) => updateAction(index, { ...action, assignee: v as AutomationAssignee, memberId: undefined })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {automationAssigneesFor(trigger, action.type).map((assignee) => (
+              <SelectItem key={assignee} value={assignee}>
+                {AUTOMATION_ASSIGNEE_LABELS[assignee]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {action.assignee === 'member' && (
+        <div className="space-y-1.5">
+          <Label className="text-xs">Team member</Label>
+          <Select value={action.memberId ?? ''} onValueChange={(v) => updateAction(index, { ...action, memberId: v })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select member" />
+            </SelectTrigger>
+            <SelectContent>
+              {memberOptions.map((m) => (
+                <SelectItem key={m.value} value={m.value}>
+                  {m.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </>
+  );
+
+  const renderActionFields = (action: AutomationAction, index: number, trigger: AutomationTriggerType) => {
+    switch (action.type) {
+      case 'set_task_status':
+        return (
+          <div className="space-y-1.5">
+            <Label className="text-xs">Status</Label>
+            <Select value={action.status} onValueChange={(v) => updateAction(index, { ...action, status: v as Task['status'] })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {defaultTaskStatuses.map((s) => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {s.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        );
+      case 'set_task_priority':
+        return (
+          <div className="space-y-1.5">
+            <Label className="text-xs">Priority</Label>
+            <Select value={action.priority} onValueChange={(v) => updateAction(index, { ...action, priority: v as Task['priority'] })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {defaultTaskPriorities.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        );
+      case 'assign_task':
+        return renderAssignee(action, index, trigger);
+      case 'create_task':
+        return (
+          <>
+            <div className="space-y-1.5 sm:col-span-2">
+              <Label className="text-xs" htmlFor={`action-${index}-title`}>Task title</Label>
+              <Input
+                id={`action-${index}-title`}
+                value={action.title}
+                onChange={(e) => updateAction(index, { ...action, title: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1.5 sm:col-span-2">
+              <Label className="text-xs" htmlFor={`action-${index}-description`}>Description</Label>
+              <Textarea
+                id={`action-${index}-description`}
+                rows={2}
+                value={action.description ?? ''}
+                onChange={(e) => updateAction(index, { ...action, description: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Priority</Label>
+              <Select
+                value={action.priority ?? 'medium'}
+                onValueChange={(v) => updateAction(index, { ...action, priority: v as Task['priority'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {defaultTaskPriorities.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs" htmlFor={`action-${index}-due`}>Due in (days)</Label>
+              <Input
+                id={`action-${index}-due`}
+                type="number"
+                min={0}
+                placeholder="No due date"
+                value={action.dueInDays ?? ''}
+                onChange={(e) =>
+                  updateAction(index, { ...action, dueInDays: e.target.value.trim() === '' ? undefined : Number(e.target.value) })
+                }
+              />
+            </div>
+            {renderAssignee(action, index, trigger)}
+            {AUTOMATION_TRIGGERS[trigger].entity !== 'project' && AUTOMATION_TRIGGERS[trigger].entity !== 'milestone' && (
+              <label className="flex items-center gap-2 text-sm sm:col-span-2">
+                <Checkbox
+                  checked={!!action.linkBlocker}
+                  onCheckedChange={(checked) => updateAction(index, { ...action, linkBlocker: checked === true })}
+                />
+                {AUTOMATION_TRIGGERS[trigger].entity === 'risk'
+                  ? "Link as the risk's blocker task"
+                  : 'Block the triggering task until the new task is done'}
+              </label>
+            )}
+          </>
+        );
+      case 'notify':
+        return (
+          <>
+            <div className="grid gap-1.5 sm:col-span-2 sm:grid-cols-3">
+              {automationRecipientsFor(trigger).map((recipient) => (
+                <label key={recipient} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={action.recipients.includes(recipient)}
+                    onCheckedChange={() =>
+                      updateAction(index, {
+                        ...action,
+                        recipients: action.recipients.includes(recipient)
+                          ? action.recipients.filter((r) => r !== recipient)
+                          : [...action.recipients, recipient],
+                      })
+                    }
+                  />
+                  {AUTOMATION_RECIPIENT_LABELS[recipient]}
+                </label>
+              ))}
+            </div>
+            <div className="space-y-1.5 sm:col-span-2">
+              <Label className="text-xs" htmlFor={`action-${index}-title`}>Title</Label>
+              <Input
+                id={`action-${index}-title`}
+                value={action.title}
+                onChange={(e) => updateAction(index, { ...action, title: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1.5 sm:col-span-2">
+              <Label className="text-xs" htmlFor={`action-${index}-message`}>Message</Label>
+              <Textarea
+                id={`action-${index}-message`}
+                rows={2}
+                value={action.message ?? ''}
+                onChange={(e) => updateAction(index, { ...action, message: e.target.value })}
+              />
+            </div>
+          </>
+        );
+    }
+  };
+
+  const trigger = draft ? AUTOMATION_TRIGGERS[draft.triggerType] : null;
+  const fields = draft ? fieldsFor(draft.triggerType) : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="font-display text-lg font-semibold text-card-foreground">Automations</h2>
+          <p className="mt-1 text-sm text-muted-foreground">
+            When something happens to a task, risk, milestone or project and it matches every condition, the rule's
+            actions run. Changes made by automations can trigger other rules, up to three in a chain.
+          </p>
+        </div>
+        <Button className="gap-2" onClick={() => openEditor()}>
+          <Plus className="h-4 w-4" />
+          New automation
+        </Button>
+      </div>
+
+      {rules.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No automations yet.</p>
+      ) : (
+        rules.map((rule) => (
+          <Card key={rule.id} className="border-border bg-card">
+            <CardHeader className="pb-3">
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <CardTitle className="text-base flex items-center gap-2">
+                    {rule.name}
+                    {!rule.isActive && <Badge variant="outline">Off</Badge>}
+                  </CardTitle>
+                  <CardDescription>
+                    {describeAutomationTrigger(rule)} · {projectName(rule.projectId)}
+                  </CardDescription>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Switch
+                    checked={rule.isActive}
+                    aria-label={`${rule.isActive ? 'Turn off' : 'Turn on'} ${rule.name}`}
+                    onCheckedChange={(checked) => toggleRule.mutate({ id: rule.id, isActive: checked })}
+                  />
+                  <Button variant="ghost" size="icon" className="h-8 w-8" aria-label={`Edit ${rule.name}`} onClick={() => openEditor(rule)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    aria-label={`Delete ${rule.name}`}
+                    onClick={() => deleteRule.mutate(rule.id)}
+                  >
+                    <Trash2 className="h-4 w-4 text-muted-foreground" />
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-1 text-sm text-muted-foreground">
+              {rule.description && <p>{rule.description}</p>}
+              {rule.conditions.length > 0 && (
+                <p>If {rule.conditions.map((c) => describeAutomationCondition(rule.triggerType, c)).join(' and ')}</p>
+              )}
+              <ol className="list-decimal space-y-1 pl-5">
+                {rule.actions.map((action, i) => (
+                  <li key={i}>{describeAutomationAction(action)}</li>
+                ))}
+              </ol>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <div className="space-y-3">
+        <div>
+          <h3 className="font-display text-base font-semibold text-card-foreground">Execution log</h3>
+          <p className="mt-1 text-sm text-muted-foreground">The last 100 times a rule matched. Kept for 90 days.</p>
+        </div>
+        {runs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No automations have run yet.</p>
+        ) : (
+          <ul className="divide-y divide-border rounded-md border border-border">
+            {runs.map((run) => (
+              <li key={run.id} className="space-y-1 p-3 text-sm">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Badge variant={runStatusVariant[run.status]} className="capitalize">
+                      {run.status}
+                    </Badge>
+                    <span className="font-medium truncate">{run.ruleName}</span>
+                    <span className="text-muted-foreground truncate">
+                      on {run.entityType} {run.entityTitle ? `"${run.entityTitle}"` : ''}
+                    </span>
+                    {run.depth > 0 && <Badge variant="outline">Chained ({run.depth})</Badge>}
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(parseISO(run.createdAt), { addSuffix: true })}
+                  </span>
+                </div>
+                {run.detail && <p className="text-muted-foreground">{run.detail}</p>}
+                {run.actionResults.length > 0 && (
+                  <ul className="space-y-0.5 pl-4 text-xs text-muted-foreground">
+                    {run.actionResults.map((result, i) => (
+                      <li key={i} className={result.status === 'failed' ? 'text-destructive' : undefined}>
+                        {AUTOMATION_ACTION_LABELS[result.type] ?? result.type}: {result.detail ?? result.status}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Edit automation' : 'New automation'}</DialogTitle>
+            <DialogDescription>
+              Actions run in order right after the change is saved. A failing action is logged and doesn't undo the
+              change or the other actions.
+            </DialogDescription>
+          </DialogHeader>
+          {draft && trigger && (
+            <div className="space-y-4">
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="space-y-1.5 sm:col-span-2">
+                  <Label htmlFor="automation-name">Name</Label>
+                  <Input
+                    id="automation-name"
+                    value={draft.name}
+                    placeholder="e.g. Hand reviews to the project owner"
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1.5 sm:col-span-2">
+                  <Label htmlFor="automation-description">Description</Label>
+                  <Textarea
+                    id="automation-description"
+                    rows={2}
+                    value={draft.description ?? ''}
+                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label>When</Label>
+                  <Select value={draft.triggerType} onValueChange={(v) => changeTrigger(v as AutomationTriggerType)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {AUTOMATION_TRIGGER_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {AUTOMATION_TRIGGERS[type].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label>In</Label>
+                  <Select
+                    value={draft.projectId ?? ALL_PROJECTS}
+                    onValueChange={(v) => setDraft({ ...draft, projectId: v === ALL_PROJECTS ? undefined : v })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_PROJECTS}>All projects</SelectItem>
+                      {projects.map((p) => (
+                        <SelectItem key={p.id} value={p.id}>
+                          {p.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {trigger.statuses && (
+                  <>
+                    <div className="space-y-1.5">
+                      <Label>From status</Label>
+                      <Select
+                        value={draft.fromStatus ?? ANY}
+                        onValueChange={(v) => setDraft({ ...draft, fromStatus: v === ANY ? undefined : v })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ANY}>Any status</SelectItem>
+                          {trigger.statuses.map((s) => (
+                            <SelectItem key={s.value} value={s.value}>
+                              {s.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1.5">
+                      <Label>To status</Label>
+                      <Select
+                        value={draft.toStatus ?? ANY}
+                        onValueChange={(v) => setDraft({ ...draft, toStatus: v === ANY ? undefined : v })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ANY}>Any status</SelectItem>
+                          {trigger.statuses.map((s) => (
+                            <SelectItem key={s.value} value={s.value}>
+                              {s.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </>
+                )}
+                <div className="flex items-center gap-2 sm:col-span-2">
+                  <Switch
+                    id="automation-active"
+                    checked={draft.isActive}
+                    onCheckedChange={(checked) => setDraft({ ...draft, isActive: checked })}
+                  />
+                  <Label htmlFor="automation-active">Active</Label>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label>Only if</Label>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="gap-1"
+                    onClick={() =>
+                      setDraft({ ...draft, conditions: [...draft.conditions, { field: fields[0].field, operator: 'equals' }] })
+                    }
+                  >
+                    <Plus className="h-4 w-4" />
+                    Add condition
+                  </Button>
+                </div>
+                {draft.conditions.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No conditions: runs every time the trigger fires.</p>
+                )}
+                {draft.conditions.map((condition, i) => {
+                  const field = fields.find((f) => f.field === condition.field);
+                  return (
+                    <div key={i} className="flex items-start gap-2 rounded-md border border-border p-3">
+                      <div className="grid flex-1 gap-2 sm:grid-cols-3">
+                        <Select value={condition.field} onValueChange={(v) => updateCondition(i, { field: v, value: undefined })}>
+                          <SelectTrigger aria-label="Condition field">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {fields.map((f) => (
+                              <SelectItem key={f.field} value={f.field}>
+                                {f.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Select
+                          value={condition.operator}
+                          onValueChange={(v) => {
+                            const operator = v as AutomationConditionOperator;
+                            updateCondition(i, {
+                              operator,
+                              value: valueless(operator)
+                                ? undefined
+                                : listOperator(operator) !== listOperator(condition.operator)
+                                  ? undefined
+                                  : condition.value,
+                            });
+                          }}
+                        >
+                          <SelectTrigger aria-label="Condition operator">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(AUTOMATION_OPERATOR_LABELS) as AutomationConditionOperator[])
+                              .filter((op) => field?.numeric || (op !== 'greater_than' && op !== 'less_than') || field?.field.endsWith('_date'))
+                              .map((op) => (
+                                <SelectItem key={op} value={op}>
+                                  {AUTOMATION_OPERATOR_LABELS[op]}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                        {renderConditionValue(condition, i, field)}
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 shrink-0"
+                        aria-label="Remove condition"
+                        onClick={() => setDraft({ ...draft, conditions: draft.conditions.filter((_, j) => j !== i) })}
+                      >
+                        <X className="h-4 w-4 text-muted-foreground" />
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label>Then</Label>
+                  <Select
+                    value=""
+                    onValueChange={(v) =>
+                      setDraft({ ...draft, actions: [...draft.actions, defaultAutomationAction(v as AutomationActionType)] })
+                    }
+                  >
+                    <SelectTrigger className="w-44 h-9" aria-label="Add action">
+                      <SelectValue placeholder="Add action" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {automationActionsFor(draft.triggerType).map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {AUTOMATION_ACTION_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {draft.actions.map((action, i) => (
+                  <div key={i} className="space-y-3 rounded-md border border-border p-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium">
+                        {i + 1}. {AUTOMATION_ACTION_LABELS[action.type]}
+                      </span>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 shrink-0"
+                        aria-label="Remove action"
+                        onClick={() => setDraft({ ...draft, actions: draft.actions.filter((_, j) => j !== i) })}
+                      >
+                        <Trash2 className="h-4 w-4 text-muted-foreground" />
+                      </Button>
+                    </div>
+                    <div className="grid gap-3 sm:grid-cols-2">{renderActionFields(action, i, draft.triggerType)}</div>
+                  </div>
+                ))}
+                {draft.actions.some((a) => a.type === 'create_task' || a.type === 'notify') && (
+                  <p className="text-xs text-muted-foreground">
+                    Titles and messages can use {AUTOMATION_TEMPLATE_VARIABLES.join(', ')}.
+                  </p>
+                )}
+              </div>
+              {formError && <p className="text-sm text-destructive">{formError}</p>}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saveRule.isPending}>
+              Save automation
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
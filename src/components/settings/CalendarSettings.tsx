@@ -0,0 +1,316 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Plus, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { usePortfolioData } from '@/contexts/PortfolioDataContext';
+import {
+  useWorkingCalendar,
+  useSaveWorkingCalendar,
+  useAddHoliday,
+  useDeleteHoliday,
+  useAddTimeOff,
+  useDeleteTimeOff,
+} from '@/hooks/useWorkingCalendar';
+
+/** Display order Monday first; values are Date#getDay() (0 = Sunday). */
+const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' },
+];
+
+const formatDay = (date: string) => format(parseISO(date), 'EEE, MMM d, yyyy');
+
+export function CalendarSettings() {
+  const { calendar, holidays, timeOff } = useWorkingCalendar();
+  const { teamMembers } = usePortfolioData();
+  const saveCalendar = useSaveWorkingCalendar();
+  const addHoliday = useAddHoliday();
+  const deleteHoliday = useDeleteHoliday();
+  const addTimeOff = useAddTimeOff();
+  const deleteTimeOff = useDeleteTimeOff();
+
+  const [workingDays, setWorkingDays] = useState<number[]>(calendar.workingDays);
+  const [hoursPerDay, setHoursPerDay] = useState(String(calendar.hoursPerDay));
+  const [hasChanges, setHasChanges] = useState(false);
+
+  const [holidayDate, setHolidayDate] = useState('');
+  const [holidayName, setHolidayName] = useState('');
+
+  const [timeOffMember, setTimeOffMember] = useState('');
+  const [timeOffStart, setTimeOffStart] = useState('');
+  const [timeOffEnd, setTimeOffEnd] = useState('');
+  const [timeOffReason, setTimeOffReason] = useState('');
+
+  // Sync the form with the stored calendar until the user starts editing
+  useEffect(() => {
+    if (hasChanges) return;
+    setWorkingDays(calendar.workingDays);
+    setHoursPerDay(String(calendar.hoursPerDay));
+  }, [calendar.workingDays, calendar.hoursPerDay, hasChanges]);
+
+  const toggleDay = (day: number) => {
+    setWorkingDays((prev) => (prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort((a, b) => a - b)));
+    setHasChanges(true);
+  };
+
+  const parsedHours = Number(hoursPerDay);
+  const hoursValid = Number.isFinite(parsedHours) && parsedHours > 0 && parsedHours <= 24;
+
+  const handleSave = () => {
+    if (workingDays.length === 0 || !hoursValid) return;
+    saveCalendar.mutate(
+      { workingDays, hoursPerDay: parsedHours },
+      { onSuccess: () => setHasChanges(false) }
+    );
+  };
+
+  const handleAddHoliday = () => {
+    if (!holidayDate || !holidayName.trim()) return;
+    addHoliday.mutate(
+      { date: holidayDate, name: holidayName.trim() },
+      {
+        onSuccess: () => {
+          setHolidayDate('');
+          setHolidayName('');
+        },
+      }
+    );
+  };
+
+  const handleAddTimeOff = () => {
+    if (!timeOffMember || !timeOffStart || !timeOffEnd || timeOffEnd < timeOffStart) return;
+    addTimeOff.mutate(
+      { memberId: timeOffMember, startDate: timeOffStart, endDate: timeOffEnd, reason: timeOffReason.trim() },
+      {
+        onSuccess: () => {
+          setTimeOffStart('');
+          setTimeOffEnd('');
+          setTimeOffReason('');
+        },
+      }
+    );
+  };
+
+  const memberName = (id: string) => teamMembers.find((m) => m.id === id)?.name ?? 'Unknown member';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="font-display text-lg font-semibold text-card-foreground">
+          Working Calendar
+        </h2>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Critical path, auto-scheduling and Gantt shading skip non-working days, holidays and each member's time off.
+        </p>
+      </div>
+
+      {/* Working week */}
+      <Card className="border-border bg-card">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Working Week</CardTitle>
+          <CardDescription>Which weekdays count as working days, and how many hours each one has</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {WEEKDAYS.map((day) => {
+              const active = workingDays.includes(day.value);
+              return (
+                <Button
+                  key={day.value}
+                  type="button"
+                  size="sm"
+                  variant={active ? 'default' : 'outline'}
+                  className={cn('w-14', !active && 'text-muted-foreground')}
+                  aria-pressed={active}
+                  onClick={() => toggleDay(day.value)}
+                >
+                  {day.label}
+                </Button>
+              );
+            })}
+          </div>
+          <div className="flex items-end gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="hours-per-day">Hours per day</Label>
+              <Input
+                id="hours-per-day"
+                type="number"
+                min={1}
+                max={24}
+                step={0.5}
+                className="w-28"
+                value={hoursPerDay}
+                onChange={(e) => {
+                  setHoursPerDay(e.target.value);
+                  setHasChanges(true);
+                }}
+              />
+            </div>
+            <Button
+              onClick={handleSave}
+              disabled={!hasChanges || workingDays.length === 0 || !hoursValid || saveCalendar.isPending}
+              className="gap-2"
+            >
+              <Save className="h-4 w-4" />
+              Save
+            </Button>
+          </div>
+          {workingDays.length === 0 && (
+            <p className="text-xs text-destructive">Select at least one working day.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Holidays */}
+      <Card className="border-border bg-card">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Holidays</CardTitle>
+          <CardDescription>Org-wide non-working days</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <Input
+              type="date"
+              className="sm:w-44"
+              value={holidayDate}
+              onChange={(e) => setHolidayDate(e.target.value)}
+            />
+            <Input
+              placeholder="Holiday name"
+              value={holidayName}
+              onChange={(e) => setHolidayName(e.target.value)}
+            />
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={handleAddHoliday}
+              disabled={!holidayDate || !holidayName.trim() || addHoliday.isPending}
+            >
+              <Plus className="h-4 w-4" />
+              Add
+            </Button>
+          </div>
+          {holidays.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No holidays added yet.</p>
+          ) : (
+            <ul className="divide-y divide-border rounded-md border border-border">
+              {holidays.map((h) => (
+                <li key={h.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <span>
+                    <span className="font-medium text-foreground">{h.name}</span>
+                    <span className="ml-2 text-muted-foreground">{formatDay(h.date)}</span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => deleteHoliday.mutate(h.id)}
+                    aria-label={`Remove ${h.name}`}
+                  >
+                    <Trash2 className="h-4 w-4 text-muted-foreground" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Time off */}
+      <Card className="border-border bg-card">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Time Off</CardTitle>
+          <CardDescription>Days a team member is unavailable; their tasks are scheduled around them</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-2 sm:grid-cols-2">
+            <Select value={timeOffMember} onValueChange={setTimeOffMember}>
+              <SelectTrigger>
+                <SelectValue placeholder="Team member" />
+              </SelectTrigger>
+              <SelectContent>
+                {teamMembers.map((m) => (
+                  <SelectItem key={m.id} value={m.id}>
+                    {m.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Reason (optional)"
+              value={timeOffReason}
+              onChange={(e) => setTimeOffReason(e.target.value)}
+            />
+            <Input
+              type="date"
+              aria-label="First day off"
+              value={timeOffStart}
+              onChange={(e) => setTimeOffStart(e.target.value)}
+            />
+            <Input
+              type="date"
+              aria-label="Last day off"
+              min={timeOffStart || undefined}
+              value={timeOffEnd}
+              onChange={(e) => setTimeOffEnd(e.target.value)}
+            />
+          </div>
+          <Button
+            variant="outline"
+            className="gap-2"
+            onClick={handleAddTimeOff}
+            disabled={
+              !timeOffMember || !timeOffStart || !timeOffEnd || timeOffEnd < timeOffStart || addTimeOff.isPending
+            }
+          >
+            <Plus className="h-4 w-4" />
+            Add time off
+          </Button>
+          {timeOff.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No time off recorded.</p>
+          ) : (
+            <ul className="divide-y divide-border rounded-md border border-border">
+              {timeOff.map((t) => (
+                <li key={t.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <span>
+                    <span className="font-medium text-foreground">{memberName(t.member_id)}</span>
+                    <span className="ml-2 text-muted-foreground">
+                      {formatDay(t.start_date)}
+                      {t.end_date !== t.start_date && ` – ${formatDay(t.end_date)}`}
+                    </span>
+                    {t.reason && <span className="ml-2 text-muted-foreground">· {t.reason}</span>}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => deleteTimeOff.mutate(t.id)}
+                    aria-label="Remove time off"
+                  >
+                    <Trash2 className="h-4 w-4 text-muted-foreground" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,410 @@
+import { useState } from 'react';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { ChevronDown, ChevronRight, Copy, Eye, EyeOff, Pencil, Plus, RefreshCw, RotateCcw, Send, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  useDeleteWebhookSubscription,
+  useReplayWebhookDelivery,
+  useRotateWebhookSecret,
+  useSaveWebhookSubscription,
+  useSendTestWebhook,
+  useWebhookDeliveries,
+  useWebhookSubscriptions,
+  type WebhookSubscriptionInput,
+} from '@/hooks/useWebhooks';
+import { WEBHOOK_CATEGORY_LABELS, WEBHOOK_EVENTS, webhookEventsByCategory } from '@/lib/webhooks';
+import { isPrivateWebhookHost, WEBHOOK_MAX_ATTEMPTS } from '@/lib/webhookDelivery';
+import type { ActivityType } from '@/lib/activityLogger';
+import type { WebhookDelivery, WebhookDeliveryStatus, WebhookSubscription } from '@/domains/webhooks/model';
+
+const ALL_ENDPOINTS = '__all__';
+
+const statusVariant: Record<WebhookDeliveryStatus, 'default' | 'destructive' | 'secondary' | 'outline'> = {
+  succeeded: 'default',
+  failed: 'destructive',
+  pending: 'secondary',
+  delivering: 'outline',
+};
+
+const emptySubscription = (): WebhookSubscriptionInput => ({
+  name: '',
+  url: 'https://',
+  event_types: [],
+  is_active: true,
+});
+
+const eventGroups = webhookEventsByCategory();
+
+const eventLabel = (type: string) => WEBHOOK_EVENTS[type as ActivityType]?.label ?? (type === 'ping' ? 'Test event' : type);
+
+/**
+ * Outgoing webhooks: endpoints that receive a signed POST for the events they subscribe to, and the delivery log
+ * with replay. Deliveries are sent and retried by the deliver-webhooks edge function.
+ */
+export function WebhookSettings() {
+  const { data: subscriptions = [] } = useWebhookSubscriptions();
+  const saveSubscription = useSaveWebhookSubscription();
+  const deleteSubscription = useDeleteWebhookSubscription();
+  const rotateSecret = useRotateWebhookSecret();
+  const sendTest = useSendTestWebhook();
+  const replay = useReplayWebhookDelivery();
+
+  const [logFilter, setLogFilter] = useState<string>(ALL_ENDPOINTS);
+  const { data: deliveries = [] } = useWebhookDeliveries(logFilter === ALL_ENDPOINTS ? undefined : logFilter);
+
+  const [draft, setDraft] = useState<WebhookSubscriptionInput | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  const [expandedDelivery, setExpandedDelivery] = useState<string | null>(null);
+
+  const endpointName = (id: string) => subscriptions.find((s) => s.id === id)?.name ?? 'Deleted endpoint';
+
+  const copy = async (value: string, label: string) => {
+    await navigator.clipboard.writeText(value);
+    toast.success(`${label} copied`);
+  };
+
+  const openEditor = (subscription?: WebhookSubscription) => {
+    setFormError(null);
+    setDraft(
+      subscription
+        ? {
+            id: subscription.id,
+            name: subscription.name,
+            url: subscription.url,
+            event_types: subscription.event_types,
+            is_active: subscription.is_active,
+          }
+        : emptySubscription()
+    );
+  };
+
+  const toggleEvents = (events: ActivityType[], on: boolean) =>
+    setDraft((d) => d && {
+      ...d,
+      event_types: on
+        ? [...new Set([...d.event_types, ...events])]
+        : d.event_types.filter((t) => !events.includes(t)),
+    });
+
+  const handleSave = () => {
+    if (!draft) return;
+    if (!draft.name.trim()) return setFormError('Give the webhook a name.');
+    let url: URL;
+    try {
+      url = new URL(draft.url.trim());
+    } catch {
+      return setFormError('Enter a valid URL.');
+    }
+    if (url.protocol !== 'https:') return setFormError('The URL must start with https://');
+    if (isPrivateWebhookHost(url.hostname)) return setFormError('The URL must point to a public host, not a private or local address.');
+    if (draft.event_types.length === 0) return setFormError('Choose at least one event.');
+    setFormError(null);
+    saveSubscription.mutate(
+      { ...draft, name: draft.name.trim(), url: url.toString() },
+      { onSuccess: () => setDraft(null) }
+    );
+  };
+
+  const renderDelivery = (delivery: WebhookDelivery) => {
+    const expanded = expandedDelivery === delivery.id;
+    return (
+      <li key={delivery.id} className="p-3 text-sm">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <button
+            type="button"
+            className="flex min-w-0 items-center gap-2 text-left"
+            onClick={() => setExpandedDelivery(expanded ? null : delivery.id)}
+            aria-expanded={expanded}
+          >
+            {expanded ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronRight className="h-4 w-4 shrink-0" />}
+            <Badge variant={statusVariant[delivery.status]} className="capitalize">
+              {delivery.status}
+            </Badge>
+            <span className="font-medium truncate">{eventLabel(delivery.event_type)}</span>
+            <span className="text-muted-foreground truncate">→ {endpointName(delivery.subscription_id)}</span>
+            {delivery.replay_of && <Badge variant="outline">Replay</Badge>}
+          </button>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground">
+              {delivery.response_status ? `HTTP ${delivery.response_status} · ` : ''}
+              {delivery.attempts}/{WEBHOOK_MAX_ATTEMPTS} attempts ·{' '}
+              {formatDistanceToNow(parseISO(delivery.created_at), { addSuffix: true })}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 gap-1"
+              disabled={replay.isPending || delivery.status === 'pending' || delivery.status === 'delivering'}
+              onClick={() => replay.mutate(delivery.id)}
+            >
+              <RotateCcw className="h-3.5 w-3.5" />
+              Replay
+            </Button>
+          </div>
+        </div>
+        {delivery.status === 'pending' && delivery.attempts > 0 && (
+          <p className="mt-1 pl-6 text-xs text-muted-foreground">
+            Retrying {formatDistanceToNow(parseISO(delivery.next_attempt_at), { addSuffix: true })}
+          </p>
+        )}
+        {delivery.error && <p className="mt-1 pl-6 text-xs text-destructive">{delivery.error}</p>}
+        {expanded && (
+          <div className="mt-2 space-y-2 pl-6">
+            <div>
+              <p className="text-xs font-medium text-muted-foreground">Payload</p>
+              <pre className="max-h-60 overflow-auto rounded-md bg-muted p-2 text-xs">{JSON.stringify(delivery.payload, null, 2)}</pre>
+            </div>
+            {delivery.response_body && (
+              <div>
+                <p className="text-xs font-medium text-muted-foreground">Response</p>
+                <pre className="max-h-40 overflow-auto whitespace-pre-wrap rounded-md bg-muted p-2 text-xs">{delivery.response_body}</pre>
+              </div>
+            )}
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="font-display text-lg font-semibold text-card-foreground">Webhooks</h2>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Tell other systems when something changes. Each event is POSTed as JSON with a Webhook-Signature header
+            (HMAC-SHA256 of the timestamp and body); failed deliveries are retried for about 15 hours.
+          </p>
+        </div>
+        <Button className="gap-2" onClick={() => openEditor()}>
+          <Plus className="h-4 w-4" />
+          New webhook
+        </Button>
+      </div>
+
+      {subscriptions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No webhooks yet.</p>
+      ) : (
+        subscriptions.map((subscription) => (
+          <Card key={subscription.id} className="border-border bg-card">
+            <CardHeader className="pb-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <CardTitle className="text-base flex items-center gap-2">
+                    {subscription.name}
+                    {!subscription.is_active && <Badge variant="outline">Paused</Badge>}
+                  </CardTitle>
+                  <CardDescription className="truncate">{subscription.url}</CardDescription>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    aria-label={`Send test event to ${subscription.name}`}
+                    disabled={sendTest.isPending}
+                    onClick={() => sendTest.mutate(subscription.id)}
+                  >
+                    <Send className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" aria-label={`Edit ${subscription.name}`} onClick={() => openEditor(subscription)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    aria-label={`Delete ${subscription.name}`}
+                    onClick={() => deleteSubscription.mutate(subscription.id)}
+                  >
+                    <Trash2 className="h-4 w-4 text-muted-foreground" />
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex flex-wrap gap-1">
+                {subscription.event_types.map((type) => (
+                  <Badge key={type} variant="secondary" className="font-normal">
+                    {eventLabel(type)}
+                  </Badge>
+                ))}
+              </div>
+              <div className="flex items-center gap-2">
+                <Label className="text-xs text-muted-foreground shrink-0">Signing secret</Label>
+                <code className="truncate rounded bg-muted px-2 py-1 text-xs">
+                  {revealedSecret === subscription.id ? subscription.secret : 'whsec_••••••••••••'}
+                </code>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  aria-label={revealedSecret === subscription.id ? 'Hide secret' : 'Show secret'}
+                  onClick={() => setRevealedSecret(revealedSecret === subscription.id ? null : subscription.id)}
+                >
+                  {revealedSecret === subscription.id ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  aria-label="Copy secret"
+                  onClick={() => copy(subscription.secret, 'Signing secret')}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  aria-label="Rotate secret"
+                  disabled={rotateSecret.isPending}
+                  onClick={() => rotateSecret.mutate(subscription.id)}
+                >
+                  <RefreshCw className="h-4 w-4" />
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <h3 className="font-display text-base font-semibold text-card-foreground">Delivery log</h3>
+            <p className="mt-1 text-sm text-muted-foreground">
+              The last 100 deliveries, kept for 30 days. A replay sends the same event (same id) again.
+            </p>
+          </div>
+          {subscriptions.length > 1 && (
+            <Select value={logFilter} onValueChange={setLogFilter}>
+              <SelectTrigger className="w-48 h-9" aria-label="Filter by endpoint">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_ENDPOINTS}>All endpoints</SelectItem>
+                {subscriptions.map((s) => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {s.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+        {deliveries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing delivered yet.</p>
+        ) : (
+          <ul className="divide-y divide-border rounded-md border border-border">{deliveries.map(renderDelivery)}</ul>
+        )}
+      </div>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Edit webhook' : 'New webhook'}</DialogTitle>
+            <DialogDescription>
+              Events are sent within a minute of the change. The endpoint should answer with a 2xx status; anything
+              else is retried up to {WEBHOOK_MAX_ATTEMPTS} times.
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="grid gap-3">
+                <div className="space-y-1.5">
+                  <Label htmlFor="webhook-name">Name</Label>
+                  <Input
+                    id="webhook-name"
+                    value={draft.name}
+                    placeholder="e.g. Data warehouse sync"
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="webhook-url">Endpoint URL</Label>
+                  <Input
+                    id="webhook-url"
+                    type="url"
+                    value={draft.url}
+                    onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="webhook-active"
+                    checked={draft.is_active}
+                    onCheckedChange={(checked) => setDraft({ ...draft, is_active: checked })}
+                  />
+                  <Label htmlFor="webhook-active">Active</Label>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <Label>Events</Label>
+                {eventGroups.map(({ category, events }) => {
+                  const selected = events.filter((e) => draft.event_types.includes(e)).length;
+                  return (
+                    <div key={category} className="space-y-2 rounded-md border border-border p-3">
+                      <label className="flex items-center gap-2 text-sm font-medium">
+                        <Checkbox
+                          checked={selected === events.length ? true : selected > 0 ? 'indeterminate' : false}
+                          onCheckedChange={() => toggleEvents(events, selected < events.length)}
+                        />
+                        {WEBHOOK_CATEGORY_LABELS[category]}
+                      </label>
+                      <div className="grid gap-1.5 pl-6 sm:grid-cols-2">
+                        {events.map((type) => (
+                          <label key={type} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={draft.event_types.includes(type)}
+                              onCheckedChange={(checked) => toggleEvents([type], checked === true)}
+                            />
+                            {WEBHOOK_EVENTS[type].label}
+                            <code className="text-xs text-muted-foreground">{type}</code>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+              {formError && <p className="text-sm text-destructive">{formError}</p>}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saveSubscription.isPending}>
+              Save webhook
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,9 +1,14 @@
 import { useMemo } from 'react';
 import { cn } from '@/lib/utils';
+import { formatDependencyLink } from '@/lib/criticalPath';
+import type { DependencyLinkType } from '@/types/masterbook';
 
 interface TaskDependencyArrow {
   fromTaskId: string;
   toTaskId: string;
+  /** Defaults to finish-to-start */
+  linkType?: DependencyLinkType;
+  lagDays?: number;
 }
 
 interface DependencyArrowsProps {
@@ -29,20 +34,25 @@ export function DependencyArrows({
 
         if (!fromPos || !toPos) return null;
 
-        // Calculate start point (right edge of predecessor)
-        const startX = fromPos.left + fromPos.width;
+        const linkType = dep.linkType ?? 'FS';
+        const lagDays = dep.lagDays ?? 0;
+
+        // Start point: predecessor's finish (right edge) for FS/FF, its start (left edge) for SS/SF
+        const fromFinish = linkType === 'FS' || linkType === 'FF';
+        const startX = fromFinish ? fromPos.left + fromPos.width : fromPos.left;
         const startY = fromPos.top + fromPos.height / 2;
 
-        // Calculate end point (left edge of successor)
-        const endX = toPos.left;
+        // End point: successor's start (left edge) for FS/SS, its finish (right edge) for FF/SF
+        const toStart = linkType === 'FS' || linkType === 'SS';
+        const endX = toStart ? toPos.left : toPos.left + toPos.width;
         const endY = toPos.top + toPos.height / 2;
 
         // Calculate control points for bezier curve
         const horizontalDistance = endX - startX;
-        const controlPointOffset = Math.min(Math.max(horizontalDistance * 0.3, 20), 80);
+        const controlPointOffset = Math.min(Math.max(Math.abs(horizontalDistance) * 0.3, 20), 80);
 
-        // Determine if arrow needs to wrap around
-        const isWrapAround = horizontalDistance < 30;
+        // Determine if arrow needs to wrap around (only finish-to-start can run backwards into its target)
+        const isWrapAround = linkType === 'FS' && horizontalDistance < 30;
 
         let path: string;
         if (isWrapAround) {
@@ -56,10 +66,12 @@ export function DependencyArrows({
             C ${endX - wrapOffset} ${midY}, ${endX - wrapOffset} ${endY}, ${endX} ${endY}
           `;
         } else {
-          // Normal bezier curve
+          // Bezier curve leaving/entering each bar on the side of its anchor
+          const startDir = fromFinish ? 1 : -1;
+          const endDir = toStart ? -1 : 1;
           path = `
             M ${startX} ${startY}
-            C ${startX + controlPointOffset} ${startY}, ${endX - controlPointOffset} ${endY}, ${endX} ${endY}
+            C ${startX + startDir * controlPointOffset} ${startY}, ${endX + endDir * controlPointOffset} ${endY}, ${endX} ${endY}
           `;
         }
 
@@ -70,6 +82,7 @@ export function DependencyArrows({
           startY,
           endX,
           endY,
+          label: linkType !== 'FS' || lagDays !== 0 ? formatDependencyLink(linkType, lagDays) : null,
         };
       })
       .filter(Boolean);
@@ -139,6 +152,17 @@ export function DependencyArrows({
             r="3"
             className="fill-primary"
           />
+          {/* Link type / lag label */}
+          {arrow!.label && (
+            <text
+              x={(arrow!.startX + arrow!.endX) / 2}
+              y={(arrow!.startY + arrow!.endY) / 2 - 4}
+              textAnchor="middle"
+              className="fill-muted-foreground text-[10px] font-medium"
+            >
+              {arrow!.label}
+            </text>
+          )}
         </g>
       ))}
     </svg>
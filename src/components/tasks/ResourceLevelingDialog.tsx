@@ -0,0 +1,235 @@
+/**
+ * Resource Leveling Dialog – proposes a capacity-feasible schedule for a project's tasks
+ * and shows it as a reviewable diff before anything is written.
+ */
+
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle, ArrowRight, CalendarClock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useTaskDependencyIds } from '@/hooks/useTaskDependencies';
+import { useScheduleBlocks } from '@/hooks/useScheduleBlocks';
+import { useApplyScheduleShift, useScheduleShift } from '@/hooks/useScheduleShift';
+import { useWorkingCalendar } from '@/hooks/useWorkingCalendar';
+import { levelResources } from '@/lib/resourceLeveling';
+import { cn } from '@/lib/utils';
+import type { Task, TeamMember } from '@/types/portfolio';
+import type { ScheduleBlock } from '@/domains/schedule/model';
+
+interface ResourceLevelingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  /** All org tasks: other projects' work counts against shared assignees' capacity. */
+  tasks: Task[];
+  teamMembers: TeamMember[];
+}
+
+const EMPTY_BLOCKS: ScheduleBlock[] = [];
+
+const formatDate = (date?: string) => (date ? format(parseISO(date), 'MMM d') : '—');
+
+export function ResourceLevelingDialog({
+  open,
+  onOpenChange,
+  projectId,
+  tasks,
+  teamMembers,
+}: ResourceLevelingDialogProps) {
+  const { edges } = useTaskDependencyIds();
+  const { data: scheduleBlocks = EMPTY_BLOCKS } = useScheduleBlocks();
+  const { calendar } = useWorkingCalendar();
+  const { planReschedule } = useScheduleShift();
+  const applySchedule = useApplyScheduleShift();
+  const [keepPlannedStart, setKeepPlannedStart] = useState(true);
+
+  const result = useMemo(() => {
+    if (!open) return null;
+    const scope = new Set(tasks.filter((t) => t.projectId === projectId).map((t) => t.id));
+    return levelResources(
+      tasks,
+      edges,
+      teamMembers.map((m) => ({ id: m.id, capacity: m.capacity })),
+      scheduleBlocks.map((b) => ({
+        assigneeId: b.assignee_id,
+        startUtc: b.start_utc,
+        endUtc: b.end_utc,
+        sourceType: b.source_type,
+        sourceId: b.source_id,
+      })),
+      scope,
+      { keepPlannedStart, calendar }
+    );
+  }, [open, tasks, edges, teamMembers, scheduleBlocks, projectId, keepPlannedStart, calendar]);
+
+  // What "Apply" writes: the proposed dates plus the moved tasks' schedule blocks
+  const plan = useMemo(
+    () =>
+      result
+        ? planReschedule(
+            result.changes.map((c) => ({
+              taskId: c.taskId,
+              taskTitle: c.taskTitle,
+              projectId: c.projectId,
+              fromStart: c.currentStart,
+              fromDue: c.currentDue,
+              toStart: c.proposedStart,
+              toDue: c.proposedDue,
+            }))
+          )
+        : null,
+    [result, planReschedule]
+  );
+
+  const memberName = (id?: string) =>
+    (id && teamMembers.find((m) => m.id === id)?.name) || 'Unassigned';
+
+  const handleApply = async () => {
+    if (!plan || plan.taskChanges.length === 0) return;
+    try {
+      // One transaction, checked against the dates reviewed here; the success toast offers an undo
+      await applySchedule.mutateAsync(plan);
+      onOpenChange(false);
+    } catch {
+      // Error toast is raised by the mutation; keep the dialog open so the plan can be retried.
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Auto-schedule
+          </DialogTitle>
+          <DialogDescription>
+            Proposed dates keep every assignee within their weekly capacity (including calendar
+            blocks, work on other projects, holidays and time off) and respect blocking dependencies.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <Switch id="keep-planned-start" checked={keepPlannedStart} onCheckedChange={setKeepPlannedStart} />
+            <Label htmlFor="keep-planned-start" className="text-sm">
+              Never start tasks earlier than planned
+            </Label>
+          </div>
+          {result && (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span>Over-allocated member-days:</span>
+              <Badge variant="outline">{result.overloadedDaysBefore}</Badge>
+              <ArrowRight className="h-3 w-3" />
+              <Badge variant={result.overloadedDaysAfter > 0 ? 'destructive' : 'secondary'}>
+                {result.overloadedDaysAfter}
+              </Badge>
+            </div>
+          )}
+        </div>
+
+        {result && result.unscheduled.length > 0 && (
+          <div className="rounded-md border border-warning/30 bg-warning/10 p-3 text-sm">
+            <div className="mb-1 flex items-center gap-2 font-medium text-warning">
+              <AlertTriangle className="h-4 w-4" />
+              {result.unscheduled.length} task{result.unscheduled.length === 1 ? '' : 's'} left unchanged
+            </div>
+            <ul className="space-y-0.5 text-muted-foreground">
+              {result.unscheduled.map((u) => (
+                <li key={u.taskId}>
+                  {u.taskTitle}: {u.reason}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {result && result.changes.length > 0 ? (
+          <ScrollArea className="max-h-[360px] rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Task</TableHead>
+                  <TableHead>Assignee</TableHead>
+                  <TableHead>Current</TableHead>
+                  <TableHead>Proposed</TableHead>
+                  <TableHead className="text-right">Shift</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.changes.map((c) => (
+                  <TableRow key={c.taskId}>
+                    <TableCell className="font-medium">{c.taskTitle}</TableCell>
+                    <TableCell className="text-muted-foreground">{memberName(c.assigneeId)}</TableCell>
+                    <TableCell className="whitespace-nowrap text-muted-foreground">
+                      {formatDate(c.currentStart)} – {formatDate(c.currentDue)}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {formatDate(c.proposedStart)} – {formatDate(c.proposedDue)}
+                    </TableCell>
+                    <TableCell
+                      className={cn(
+                        'text-right tabular-nums',
+                        c.shiftDays > 0 && 'text-warning',
+                        c.shiftDays < 0 && 'text-success'
+                      )}
+                    >
+                      {c.shiftDays > 0 ? `+${c.shiftDays}d` : `${c.shiftDays}d`}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        ) : (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            {result && result.overloadedDaysAfter > 0
+              ? 'No task could be moved to clear the over-allocated days. Nothing to change.'
+              : "The current schedule already fits everyone's capacity. Nothing to change."}
+          </p>
+        )}
+
+        {plan && plan.blockChanges.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {plan.blockChanges.length} scheduled block{plan.blockChanges.length === 1 ? '' : 's'} will move with{' '}
+            {plan.blockChanges.length === 1 ? 'its task' : 'their tasks'}.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleApply}
+            disabled={!result || result.changes.length === 0 || applySchedule.isPending}
+          >
+            {applySchedule.isPending
+              ? 'Applying…'
+              : `Apply ${result?.changes.length ?? 0} change${result?.changes.length === 1 ? '' : 's'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
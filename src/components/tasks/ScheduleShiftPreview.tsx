@@ -0,0 +1,96 @@
+/**
+ * Schedule Shift Preview – what moving a task does downstream: successors pushed out by its
+ * dependencies, linked calendar blocks that move with them, and milestones whose finish changes.
+ */
+
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle, CalendarClock, Flag } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+import type { ScheduleShiftPreview as ShiftPreview } from '@/hooks/useScheduleShift';
+
+interface ScheduleShiftPreviewProps {
+  preview: ShiftPreview;
+  cascade: boolean;
+  onCascadeChange: (cascade: boolean) => void;
+}
+
+const formatDate = (date?: string) => (date ? format(parseISO(date), 'MMM d') : '—');
+
+export function ScheduleShiftPreview({ preview, cascade, onCascadeChange }: ScheduleShiftPreviewProps) {
+  const successors = preview.withSuccessors.taskChanges.filter((c) => !c.isRoot);
+  const active = cascade ? preview.withSuccessors : preview.taskOnly;
+  const blockCount = active.blockChanges.length;
+
+  if (successors.length === 0 && blockCount === 0 && active.milestoneImpacts.length === 0) return null;
+
+  return (
+    <div className="space-y-3 rounded-md border border-border bg-muted/30 p-3 text-sm">
+      {successors.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="cascade-successors"
+              checked={cascade}
+              onCheckedChange={(checked) => onCascadeChange(checked === true)}
+            />
+            <Label htmlFor="cascade-successors" className="text-sm font-medium">
+              Also reschedule {successors.length} downstream task{successors.length === 1 ? '' : 's'}
+            </Label>
+          </div>
+          <ul className={cn('max-h-32 space-y-1 overflow-y-auto pl-6', !cascade && 'opacity-60')}>
+            {successors.map((c) => (
+              <li key={c.taskId} className="flex items-center justify-between gap-2 text-muted-foreground">
+                <span className="truncate">{c.taskTitle}</span>
+                <span className="shrink-0 whitespace-nowrap text-xs tabular-nums">
+                  {formatDate(c.fromStart)} → {formatDate(c.toStart)}
+                  <span className="ml-1.5 text-warning">+{c.shiftDays}d</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+          {!cascade && (
+            <p className="flex items-center gap-1.5 pl-6 text-xs text-warning">
+              <AlertTriangle className="h-3.5 w-3.5" />
+              These tasks will start before their dependencies allow.
+            </p>
+          )}
+        </div>
+      )}
+
+      {blockCount > 0 && (
+        <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <CalendarClock className="h-3.5 w-3.5" />
+          {blockCount} scheduled block{blockCount === 1 ? '' : 's'} will move with {blockCount === 1 ? 'its task' : 'their tasks'}.
+        </p>
+      )}
+
+      {active.milestoneImpacts.length > 0 && (
+        <ul className="space-y-1">
+          {active.milestoneImpacts.map((m) => (
+            <li key={m.milestoneId} className="flex items-center justify-between gap-2">
+              <span className="flex min-w-0 items-center gap-1.5">
+                <Flag className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                <span className="truncate">{m.title}</span>
+              </span>
+              <span className="flex shrink-0 items-center gap-1.5 text-xs text-muted-foreground">
+                finishes {formatDate(m.projectedFinish)} (due {formatDate(m.dueDate)})
+                {m.isLate ? (
+                  <Badge variant={m.wasLate ? 'outline' : 'destructive'} className="text-[10px]">
+                    {m.wasLate ? 'Still late' : 'Now late'}
+                  </Badge>
+                ) : (
+                  <Badge variant="secondary" className="text-[10px]">
+                    On track
+                  </Badge>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
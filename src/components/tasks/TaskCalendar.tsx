@@ -12,13 +12,14 @@ import {
   startOfWeek,
   endOfWeek
 } from 'date-fns';
-import { ChevronLeft, ChevronRight, ChevronDown, Calendar, Eye, EyeOff, Focus, Plus, Trash2 } from 'lucide-react';
+import { ChevronLeft, ChevronRight, ChevronDown, Calendar, Eye, EyeOff, Focus, Plus, Repeat, Trash2 } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { cn } from '@/lib/utils';
+import { projectRecurringTasks } from '@/lib/recurringTasks';
 import { Task, TeamMember, Subtask } from '@/types/portfolio';
 import { useWatch } from '@/contexts/WatchContext';
 import { useToast } from '@/hooks/use-toast';
@@ -163,6 +164,17 @@ export function TaskCalendar({ tasks, teamMembers, onTaskEdit, onTaskUpdate, sch
     return eachDayOfInterval({ start: calendarStart, end: calendarEnd });
   }, [currentMonth]);
 
+  // Upcoming occurrences of recurring tasks that don't exist as tasks yet
+  const projectedByDay = useMemo(() => {
+    const byDay = new Map<string, ReturnType<typeof projectRecurringTasks>>();
+    const from = format(calendarDays[0], 'yyyy-MM-dd');
+    const to = format(calendarDays[calendarDays.length - 1], 'yyyy-MM-dd');
+    for (const occurrence of projectRecurringTasks(tasks, from, to)) {
+      byDay.set(occurrence.date, [...(byDay.get(occurrence.date) ?? []), occurrence]);
+    }
+    return byDay;
+  }, [tasks, calendarDays]);
+
   const getTasksForDay = (day: Date) => {
     return tasks.filter((t) => t.dueDate && isSameDay(new Date(t.dueDate), day));
   };
@@ -230,6 +242,7 @@ export function TaskCalendar({ tasks, teamMembers, onTaskEdit, onTaskUpdate, sch
                           "text-sm font-medium text-foreground truncate",
                           task.status === 'done' && "line-through text-muted-foreground"
                         )}>
+                          {task.recurrenceId && <Repeat className="mr-1 inline h-3 w-3 text-muted-foreground" />}
                           {task.title}
                         </p>
                         <div className="flex items-center gap-2 mt-1">
@@ -381,6 +394,8 @@ export function TaskCalendar({ tasks, teamMembers, onTaskEdit, onTaskUpdate, sch
           {calendarDays.map((day, index) => {
             const dayTasks = getTasksForDay(day);
             const dayBlocks = getBlocksForDay(day);
+            const dayProjected = projectedByDay.get(format(day, 'yyyy-MM-dd')) ?? [];
+            const projectedSlots = Math.max(0, 2 - dayTasks.length);
             const isCurrentMonth = isSameMonth(day, currentMonth);
             const isToday = isSameDay(day, new Date());
 
@@ -449,6 +464,7 @@ export function TaskCalendar({ tasks, teamMembers, onTaskEdit, onTaskUpdate, sch
                         )}>
                           {task.title}
                         </span>
+                        {task.recurrenceId && <Repeat className="h-3 w-3 shrink-0 text-muted-foreground" />}
                         {assignee && (
                           <div 
                             className="flex h-4 w-4 items-center justify-center rounded-full bg-accent text-[8px] font-medium text-accent-foreground flex-shrink-0"
@@ -460,9 +476,23 @@ export function TaskCalendar({ tasks, teamMembers, onTaskEdit, onTaskUpdate, sch
                       </div>
                     );
                   })}
-                  {dayTasks.length > 2 && (
+                  {dayProjected.slice(0, projectedSlots).map((occurrence) => (
+                    <div
+                      key={occurrence.key}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onTaskEdit(occurrence.task);
+                      }}
+                      className="flex items-center gap-1 rounded border border-dashed border-border px-1.5 py-0.5 text-xs text-muted-foreground cursor-pointer hover:ring-1 hover:ring-primary/30"
+                      title={`Upcoming occurrence of "${occurrence.task.title}"`}
+                    >
+                      <Repeat className="h-3 w-3 shrink-0" />
+                      <span className="flex-1 truncate">{occurrence.task.title}</span>
+                    </div>
+                  ))}
+                  {dayTasks.length + dayProjected.length > 2 && (
                     <div className="text-[10px] text-muted-foreground px-1.5">
-                      +{dayTasks.length - 2} more
+                      +{dayTasks.length + dayProjected.length - 2} more
                     </div>
                   )}
                 </div>
@@ -482,6 +512,10 @@ export function TaskCalendar({ tasks, teamMembers, onTaskEdit, onTaskUpdate, sch
               </div>
             ))}
           </div>
+          <div className="flex items-center gap-1">
+            <Repeat className="h-3 w-3 text-muted-foreground" />
+            <span className="text-xs text-muted-foreground">Repeats (dashed: upcoming)</span>
+          </div>
           <div className="flex items-center gap-3">
             <span className="text-xs text-muted-foreground">Priority:</span>
             {Object.entries(priorityConfig).map(([key, config]) => (
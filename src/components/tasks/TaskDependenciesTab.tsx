@@ -2,11 +2,20 @@ import { useState } from 'react';
 import { Plus, X, Link2, ArrowRight } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { cn } from '@/lib/utils';
+import { DEPENDENCY_LINK_LABELS, formatDependencyLink } from '@/lib/criticalPath';
 import { Task } from '@/types/portfolio';
+import type { DependencyLinkType } from '@/types/masterbook';
 
-interface TaskDependency {
+export interface DependencyLink {
+  linkType: DependencyLinkType;
+  /** Days; negative values are leads */
+  lagDays: number;
+}
+
+interface TaskDependency extends DependencyLink {
   taskId: string;
   type: 'blocked-by' | 'blocking';
 }
@@ -15,12 +24,21 @@ interface TaskDependenciesTabProps {
   task: Task;
   allTasks: Task[];
   dependencies: TaskDependency[];
-  onAddDependency: (targetTaskId: string, type: 'blocked-by' | 'blocking') => void;
+  onAddDependency: (targetTaskId: string, type: 'blocked-by' | 'blocking', link: DependencyLink) => void;
   onRemoveDependency: (targetTaskId: string, type: 'blocked-by' | 'blocking') => void;
+  /** Change link type / lag of an existing dependency */
+  onUpdateDependency?: (targetTaskId: string, type: 'blocked-by' | 'blocking', link: DependencyLink) => void;
   /** When provided, Add button will call this first (e.g. to show impact modal); parent then calls onAddDependency on confirm */
-  onRequestAddDependency?: (targetTaskId: string, type: 'blocked-by' | 'blocking') => void;
+  onRequestAddDependency?: (targetTaskId: string, type: 'blocked-by' | 'blocking', link: DependencyLink) => void;
 }
 
+const LINK_TYPES = Object.keys(DEPENDENCY_LINK_LABELS) as DependencyLinkType[];
+
+const parseLag = (value: string) => {
+  const n = parseInt(value, 10);
+  return Number.isFinite(n) ? Math.max(-365, Math.min(365, n)) : 0;
+};
+
 const statusColors: Record<string, string> = {
   'todo': 'bg-muted-foreground/20 text-muted-foreground',
   'in-progress': 'bg-primary/20 text-primary',
@@ -34,10 +52,13 @@ export function TaskDependenciesTab({
   dependencies,
   onAddDependency,
   onRemoveDependency,
+  onUpdateDependency,
   onRequestAddDependency,
 }: TaskDependenciesTabProps) {
   const [addingType, setAddingType] = useState<'blocked-by' | 'blocking' | null>(null);
   const [selectedTaskId, setSelectedTaskId] = useState<string>('');
+  const [newLinkType, setNewLinkType] = useState<DependencyLinkType>('FS');
+  const [newLagStr, setNewLagStr] = useState('0');
 
   const blockedByTasks = dependencies
     .filter(d => d.type === 'blocked-by')
@@ -49,6 +70,9 @@ export function TaskDependenciesTab({
     .map(d => allTasks.find(t => t.id === d.taskId))
     .filter(Boolean) as Task[];
 
+  const linkFor = (taskId: string, type: 'blocked-by' | 'blocking'): DependencyLink =>
+    dependencies.find(d => d.taskId === taskId && d.type === type) ?? { linkType: 'FS', lagDays: 0 };
+
   // Get available tasks (exclude self and already linked tasks)
   const linkedTaskIds = new Set(dependencies.map(d => d.taskId));
   const availableTasks = allTasks.filter(t => 
@@ -57,56 +81,95 @@ export function TaskDependenciesTab({
 
   const handleAddDependency = () => {
     if (!selectedTaskId || !addingType) return;
+    const link = { linkType: newLinkType, lagDays: parseLag(newLagStr) };
     if (onRequestAddDependency) {
-      onRequestAddDependency(selectedTaskId, addingType);
-      setSelectedTaskId('');
-      setAddingType(null);
+      onRequestAddDependency(selectedTaskId, addingType, link);
     } else {
-      onAddDependency(selectedTaskId, addingType);
-      setSelectedTaskId('');
-      setAddingType(null);
+      onAddDependency(selectedTaskId, addingType, link);
     }
+    setSelectedTaskId('');
+    setAddingType(null);
   };
 
-  const renderTaskItem = (depTask: Task, type: 'blocked-by' | 'blocking') => (
-    <div
-      key={depTask.id}
-      className="flex items-center justify-between gap-2 p-3 rounded-lg border border-border bg-muted/30 hover:bg-muted/50 transition-colors group"
-    >
-      <div className="flex items-center gap-3 min-w-0 flex-1">
-        <Link2 className="h-4 w-4 text-muted-foreground shrink-0" />
-        <div className="min-w-0 flex-1">
-          <p className="font-medium text-sm text-foreground truncate">{depTask.title}</p>
-          <div className="flex items-center gap-2 mt-1">
-            <Badge 
-              variant="secondary" 
-              className={cn("text-xs", statusColors[depTask.status])}
-            >
-              {depTask.status}
-            </Badge>
-            {depTask.dueDate && (
-              <span className="text-xs text-muted-foreground">
-                Due {new Date(depTask.dueDate).toLocaleDateString()}
-              </span>
-            )}
+  const renderLinkTypeSelect = (value: DependencyLinkType, onChange: (linkType: DependencyLinkType) => void) => (
+    <Select value={value} onValueChange={(v) => onChange(v as DependencyLinkType)}>
+      <SelectTrigger className="h-7 w-[72px] text-xs" aria-label="Link type">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {LINK_TYPES.map(lt => (
+          <SelectItem key={lt} value={lt} className="text-xs">
+            {lt} <span className="text-muted-foreground">· {DEPENDENCY_LINK_LABELS[lt]}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const renderTaskItem = (depTask: Task, type: 'blocked-by' | 'blocking') => {
+    const link = linkFor(depTask.id, type);
+    return (
+      <div
+        key={depTask.id}
+        className="flex items-center justify-between gap-2 p-3 rounded-lg border border-border bg-muted/30 hover:bg-muted/50 transition-colors group"
+      >
+        <div className="flex items-center gap-3 min-w-0 flex-1">
+          <Link2 className="h-4 w-4 text-muted-foreground shrink-0" />
+          <div className="min-w-0 flex-1">
+            <p className="font-medium text-sm text-foreground truncate">{depTask.title}</p>
+            <div className="flex items-center gap-2 mt-1">
+              <Badge 
+                variant="secondary" 
+                className={cn("text-xs", statusColors[depTask.status])}
+              >
+                {depTask.status}
+              </Badge>
+              {depTask.dueDate && (
+                <span className="text-xs text-muted-foreground">
+                  Due {new Date(depTask.dueDate).toLocaleDateString()}
+                </span>
+              )}
+              {!onUpdateDependency && (
+                <Badge variant="outline" className="text-xs">
+                  {formatDependencyLink(link.linkType, link.lagDays)}
+                </Badge>
+              )}
+            </div>
           </div>
         </div>
+        {onUpdateDependency && (
+          <div className="flex items-center gap-1">
+            {renderLinkTypeSelect(link.linkType, (linkType) => onUpdateDependency(depTask.id, type, { ...link, linkType }))}
+            <Input
+              key={link.lagDays}
+              type="number"
+              className="h-7 w-16 text-xs"
+              defaultValue={link.lagDays}
+              onBlur={(e) => {
+                const lagDays = parseLag(e.target.value);
+                if (lagDays !== link.lagDays) onUpdateDependency(depTask.id, type, { ...link, lagDays });
+              }}
+              title="Lag in days (negative = lead)"
+              aria-label="Lag in days"
+            />
+          </div>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity"
+          onClick={() => onRemoveDependency(depTask.id, type)}
+        >
+          <X className="h-4 w-4 text-muted-foreground hover:text-destructive" />
+        </Button>
       </div>
-      <Button
-        variant="ghost"
-        size="icon"
-        className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity"
-        onClick={() => onRemoveDependency(depTask.id, type)}
-      >
-        <X className="h-4 w-4 text-muted-foreground hover:text-destructive" />
-      </Button>
-    </div>
-  );
+    );
+  };
 
   const renderAddSection = (type: 'blocked-by' | 'blocking') => {
     if (addingType === type) {
       return (
-        <div className="flex items-center gap-2 mt-2">
+        <div className="flex flex-wrap items-center gap-2 mt-2">
           <Select value={selectedTaskId} onValueChange={setSelectedTaskId}>
             <SelectTrigger className="flex-1">
               <SelectValue placeholder="Select a task..." />
@@ -125,6 +188,15 @@ export function TaskDependenciesTab({
               )}
             </SelectContent>
           </Select>
+          {renderLinkTypeSelect(newLinkType, setNewLinkType)}
+          <Input
+            type="number"
+            className="h-7 w-16 text-xs"
+            value={newLagStr}
+            onChange={(e) => setNewLagStr(e.target.value)}
+            title="Lag in days (negative = lead)"
+            aria-label="Lag in days"
+          />
           <Button size="sm" onClick={handleAddDependency} disabled={!selectedTaskId}>
             Add
           </Button>
@@ -143,6 +215,8 @@ export function TaskDependenciesTab({
         onClick={() => {
           setAddingType(type);
           setSelectedTaskId('');
+          setNewLinkType('FS');
+          setNewLagStr('0');
         }}
       >
         <Plus className="h-4 w-4 mr-1" />
@@ -161,7 +235,7 @@ export function TaskDependenciesTab({
             Blocked By
           </div>
           <span className="text-xs text-muted-foreground">
-            (predecessors that must complete first)
+            (predecessors this task is scheduled against)
           </span>
         </div>
         
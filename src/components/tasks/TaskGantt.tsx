@@ -22,6 +22,10 @@ import { cn } from '@/lib/utils';
 import { Task, TeamMember, Subtask } from '@/types/portfolio';
 import { DateRange } from 'react-day-picker';
 import { useToast } from '@/hooks/use-toast';
+import { useWorkingCalendar } from '@/hooks/useWorkingCalendar';
+import { isWorkingDay, toDateKey } from '@/lib/workingCalendar';
+import { useScheduleShift, useApplyScheduleShift } from '@/hooks/useScheduleShift';
+import { ScheduleShiftPreview } from './ScheduleShiftPreview';
 
 interface TaskGanttProps {
   tasks: Task[];
@@ -38,6 +42,7 @@ const statusColors = {
 };
 
 export function TaskGantt({ tasks, teamMembers, onTaskEdit, onTaskUpdate }: TaskGanttProps) {
+  const { calendar } = useWorkingCalendar();
   const { toast } = useToast();
   const timelineRef = useRef<HTMLDivElement>(null);
   
@@ -49,6 +54,17 @@ export function TaskGantt({ tasks, teamMembers, onTaskEdit, onTaskUpdate }: Task
   const [draggingTask, setDraggingTask] = useState<Task | null>(null);
   const [dragOffset, setDragOffset] = useState(0);
   const [pendingUpdate, setPendingUpdate] = useState<{ task: Task; newStartDate: string; newDueDate: string } | null>(null);
+  const [cascadeShift, setCascadeShift] = useState(true);
+  const { previewShift } = useScheduleShift();
+  const applyShift = useApplyScheduleShift();
+
+  const shiftPreview = useMemo(
+    () =>
+      pendingUpdate
+        ? previewShift(pendingUpdate.task.id, { startDate: pendingUpdate.newStartDate, dueDate: pendingUpdate.newDueDate })
+        : null,
+    [pendingUpdate, previewShift]
+  );
 
   const toggleExpanded = (taskId: string, e: React.MouseEvent) => {
     e.stopPropagation();
@@ -257,6 +273,7 @@ export function TaskGantt({ tasks, teamMembers, onTaskEdit, onTaskUpdate }: Task
     const newStartDate = addDays(originalStart, dragOffset);
     const newDueDate = addDays(originalEnd, dragOffset);
 
+    setCascadeShift(true);
     setPendingUpdate({
       task: draggingTask,
       newStartDate: format(newStartDate, 'yyyy-MM-dd'),
@@ -270,6 +287,14 @@ export function TaskGantt({ tasks, teamMembers, onTaskEdit, onTaskUpdate }: Task
   const handleConfirmUpdate = () => {
     if (!pendingUpdate || !onTaskUpdate) return;
 
+    // Moves that carry successors or calendar blocks along are written together (and can be undone).
+    const plan = shiftPreview && (cascadeShift ? shiftPreview.withSuccessors : shiftPreview.taskOnly);
+    if (plan && (plan.taskChanges.length > 1 || plan.blockChanges.length > 0)) {
+      applyShift.mutate(plan);
+      setPendingUpdate(null);
+      return;
+    }
+
     onTaskUpdate(pendingUpdate.task.id, {
       startDate: pendingUpdate.newStartDate,
       dueDate: pendingUpdate.newDueDate,
@@ -366,9 +391,10 @@ export function TaskGantt({ tasks, teamMembers, onTaskEdit, onTaskUpdate }: Task
                     className={cn(
                       "text-center py-1 text-[10px] border-r border-border/30 last:border-r-0",
                       isToday(day) ? "bg-primary/20 text-primary font-bold" : 
-                      day.getDay() === 0 || day.getDay() === 6 ? "bg-muted text-muted-foreground" : "text-muted-foreground"
+                      !isWorkingDay(calendar, day) ? "bg-muted text-muted-foreground" : "text-muted-foreground"
                     )}
                     style={{ width: `${dayWidth}%` }}
+                    title={calendar.holidays.get(toDateKey(day))}
                   >
                     {format(day, 'd')}
                   </div>
@@ -475,7 +501,7 @@ export function TaskGantt({ tasks, teamMembers, onTaskEdit, onTaskUpdate }: Task
                               className={cn(
                                 "border-r last:border-r-0",
                                 day.getDay() === 0 ? "border-border" : "border-border/20",
-                                day.getDay() === 0 || day.getDay() === 6 ? "bg-muted" : "",
+                                !isWorkingDay(calendar, day) ? "bg-muted" : "",
                                 isToday(day) ? "bg-primary/10" : ""
                               )}
                               style={{ width: `${dayWidth}%` }}
@@ -657,6 +683,15 @@ export function TaskGantt({ tasks, teamMembers, onTaskEdit, onTaskUpdate }: Task
                         </Popover>
                       </div>
                     </div>
+                    {shiftPreview && (
+                      <div className="mt-4">
+                        <ScheduleShiftPreview
+                          preview={shiftPreview}
+                          cascade={cascadeShift}
+                          onCascadeChange={setCascadeShift}
+                        />
+                      </div>
+                    )}
                   </>
                 )}
               </div>
@@ -1,5 +1,6 @@
-import { useRef, useState, useEffect, useCallback } from 'react';
+import { useRef, useState, useEffect, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { format } from 'date-fns';
 import { X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,16 +8,34 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Task, TeamMember, Project } from '@/types/portfolio';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Task, TeamMember, Project, type RecurrenceEditScope, type TaskRecurrenceSettings } from '@/types/portfolio';
 import { PermissionGate } from '@/components/permissions/PermissionGate';
 import { AssignmentActions } from './AssignmentActions';
-import { TaskDependenciesTab } from './TaskDependenciesTab';
+import { TaskDependenciesTab, type DependencyLink } from './TaskDependenciesTab';
+import { TaskTimeTab } from './TaskTimeTab';
+import { TaskRecurrenceField } from './TaskRecurrenceField';
 import { DependencyImpactModal } from '@/components/masterbook/DependencyImpactModal';
+import { ScheduleShiftPreview } from './ScheduleShiftPreview';
+import { useScheduleShift, useApplyScheduleShift } from '@/hooks/useScheduleShift';
+import {
+  useCreateRecurringTask,
+  useEditRecurringTask,
+  useStopRecurrence,
+  type RecurringTaskChanges,
+} from '@/hooks/useTaskRecurrences';
+import {
+  useTaskDependencyIds,
+  useCreateTaskDependency,
+  useUpdateTaskDependency,
+  useDeleteTaskDependency,
+} from '@/hooks/useTaskDependencies';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
+import { daysBetweenKeys, remainingRule } from '@/lib/recurrence';
 
-interface TaskDependency {
+interface TaskDependency extends DependencyLink {
   taskId: string;
   type: 'blocked-by' | 'blocking';
 }
@@ -71,16 +90,65 @@ export function TaskModal({
   const [priority, setPriority] = useState<Task['priority']>('medium');
   const [weight] = useState(1); // Base weight of 1 point per hour
   const [estimatedHoursStr, setEstimatedHoursStr] = useState('1');
+  // Three-point estimate; both empty for a single-point estimate
+  const [optimisticHoursStr, setOptimisticHoursStr] = useState('');
+  const [pessimisticHoursStr, setPessimisticHoursStr] = useState('');
   const [actualCostStr, setActualCostStr] = useState('0');
   const [assigneeId, setAssigneeId] = useState<string | undefined>(undefined);
   const [startDate, setStartDate] = useState('');
   const [dueDate, setDueDate] = useState('');
   const [projectId, setProjectId] = useState('');
-  const [dependencies, setDependencies] = useState<TaskDependency[]>([]);
   const [activeTab, setActiveTab] = useState('details');
-  const [errors, setErrors] = useState<{ title?: string; projectId?: string }>({});
+  const [errors, setErrors] = useState<{ title?: string; projectId?: string; estimateRange?: string }>({});
   const [touched, setTouched] = useState<{ title?: boolean; projectId?: boolean }>({});
-  const [dependencyImpactPending, setDependencyImpactPending] = useState<{ targetTaskId: string; type: 'blocked-by' | 'blocking' } | null>(null);
+  const [dependencyImpactPending, setDependencyImpactPending] = useState<{ targetTaskId: string; type: 'blocked-by' | 'blocking'; link: DependencyLink } | null>(null);
+
+  const { edges: dependencyEdges } = useTaskDependencyIds();
+  const createDependency = useCreateTaskDependency();
+  const updateDependency = useUpdateTaskDependency();
+  const deleteDependency = useDeleteTaskDependency();
+  const { previewShift } = useScheduleShift();
+  const applyShift = useApplyScheduleShift();
+  const [cascadeShift, setCascadeShift] = useState(true);
+  const [recurrence, setRecurrence] = useState<TaskRecurrenceSettings | null>(null);
+  const [editScope, setEditScope] = useState<RecurrenceEditScope>('this');
+  const createRecurringTask = useCreateRecurringTask();
+  const editRecurringTask = useEditRecurringTask();
+  const stopRecurrence = useStopRecurrence();
+
+  const isRecurring = !!task?.recurrenceId && !!task.recurrence;
+  const recurrenceChanged = isRecurring && !!recurrence && (
+    recurrence.rrule !== task.recurrence!.rrule ||
+    recurrence.mode !== task.recurrence!.mode ||
+    recurrence.leadDays !== task.recurrence!.leadDays
+  );
+  // A new rule can't apply to a single occurrence; stopping the series always starts from this one
+  const effectiveScope: RecurrenceEditScope = !recurrence
+    ? 'this'
+    : recurrenceChanged && editScope === 'this' ? 'following' : editScope;
+
+  // Downstream effect of changing an existing task's dates (successors, calendar blocks, milestones).
+  const shiftPreview = useMemo(() => {
+    if (!task) return null;
+    const newStart = startDate || dueDate;
+    const newDue = dueDate || startDate;
+    if (!newStart || !newDue || newDue < newStart) return null;
+    if (newStart === (task.startDate || task.dueDate) && newDue === (task.dueDate || task.startDate)) return null;
+    return previewShift(task.id, { startDate: newStart, dueDate: newDue });
+  }, [task, startDate, dueDate, previewShift]);
+
+  // Persisted 'blocks' links of the task being edited, seen from this task's side.
+  const dependencies = useMemo<TaskDependency[]>(() => {
+    if (!task) return [];
+    return dependencyEdges
+      .filter(e => e.type === 'blocks')
+      .flatMap((e): TaskDependency[] => {
+        const link = { linkType: e.linkType, lagDays: e.lagDays };
+        if (e.successorTaskId === task.id) return [{ taskId: e.predecessorTaskId, type: 'blocked-by', ...link }];
+        if (e.predecessorTaskId === task.id) return [{ taskId: e.successorTaskId, type: 'blocking', ...link }];
+        return [];
+      });
+  }, [dependencyEdges, task]);
 
   // Initialize the form when the modal opens or when the task data changes.
   // IMPORTANT: Inline edits can change task fields without changing task.id.
@@ -93,28 +161,35 @@ export function TaskModal({
       setStatus(task.status);
       setPriority(task.priority);
       setEstimatedHoursStr(String(task.estimatedHours || 1));
+      setOptimisticHoursStr(task.optimisticHours ? String(task.optimisticHours) : '');
+      setPessimisticHoursStr(task.pessimisticHours ? String(task.pessimisticHours) : '');
       setActualCostStr(String(task.actualCost || 0));
       setAssigneeId(task.assigneeId);
       setStartDate(task.startDate || '');
       setDueDate(task.dueDate || '');
       setProjectId(task.projectId);
+      setCascadeShift(true);
+      setRecurrence(task.recurrence ?? null);
     } else {
       setTitle('');
       setDescription('');
       setStatus(defaults?.status || 'todo');
       setPriority('medium');
       setEstimatedHoursStr('1');
+      setOptimisticHoursStr('');
+      setPessimisticHoursStr('');
       setActualCostStr('0');
       setAssigneeId(defaults?.assigneeId);
       setStartDate('');
       setDueDate('');
+      setRecurrence(null);
 
       // Do not depend on `projects` in the effect deps; we will fill a default project in a separate guarded effect.
       setProjectId(initialProjectId || '');
     }
 
-    setDependencies([]);
     setActiveTab('details');
+    setEditScope('this');
     setErrors({});
     setTouched({});
   }, [isOpen, task, defaults?.status, defaults?.assigneeId, initialProjectId]);
@@ -130,12 +205,27 @@ export function TaskModal({
     if (fallbackProjectId) setProjectId(fallbackProjectId);
   }, [isOpen, task?.id, projectId, initialProjectId, projects[0]?.id]);
 
+  // Optimistic / pessimistic hours; null when the range is left empty
+  const estimateRange = () => {
+    if (!optimisticHoursStr.trim() && !pessimisticHoursStr.trim()) return null;
+    return { optimistic: parseFloat(optimisticHoursStr), pessimistic: parseFloat(pessimisticHoursStr) };
+  };
+
   const validate = () => {
-    const newErrors: { title?: string; projectId?: string } = {};
+    const newErrors: { title?: string; projectId?: string; estimateRange?: string } = {};
     if (!title.trim()) newErrors.title = 'Title is required';
     if (!projectId) newErrors.projectId = projects.length === 0 && !initialProjectId
       ? 'Create a project first'
       : 'Project is required';
+    const range = estimateRange();
+    if (range) {
+      const likely = Math.max(0.5, parseFloat(estimatedHoursStr) || 1);
+      if (isNaN(range.optimistic) || isNaN(range.pessimistic)) {
+        newErrors.estimateRange = 'Enter both optimistic and pessimistic hours, or neither';
+      } else if (range.optimistic <= 0 || range.optimistic > likely || range.pessimistic < likely) {
+        newErrors.estimateRange = 'Optimistic ≤ estimated ≤ pessimistic hours';
+      }
+    }
 
     if (Object.keys(newErrors).length > 0) {
       setErrors(newErrors);
@@ -148,14 +238,103 @@ export function TaskModal({
     return true;
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // "This and following" / "All" edits go to the series; status and cost stay per occurrence.
+  const saveRecurringSeries = async (scope: Exclude<RecurrenceEditScope, 'this'>) => {
+    if (!task?.recurrence) return;
+
+    const finalHours = Math.max(0.5, parseFloat(estimatedHoursStr) || 1);
+    const changes: RecurringTaskChanges = {};
+    if (title.trim() !== task.title) changes.title = title.trim();
+    if (description.trim() !== (task.description || '')) changes.description = description.trim();
+    if (priority !== task.priority) changes.priority = priority;
+    if (finalHours !== task.estimatedHours) changes.estimated_hours = finalHours;
+    if ((assigneeId || null) !== (task.assigneeId || null)) changes.assignee_id = assigneeId || null;
+    if (startDate !== (task.startDate || '') || dueDate !== (task.dueDate || '')) {
+      changes.duration_days = startDate && dueDate ? Math.max(0, daysBetweenKeys(startDate, dueDate)) : null;
+    }
+    const shiftDays = dueDate && task.dueDate ? daysBetweenKeys(task.dueDate, dueDate) : 0;
+
+    // A split series keeps the remaining COUNT, not the full one
+    const rule = recurrence ?? task.recurrence;
+    const rrule = scope === 'following' && task.recurrenceDate && rule.dtstart
+      ? remainingRule(rule.rrule, rule.dtstart, task.recurrenceDate)
+      : rule.rrule;
+
+    try {
+      await editRecurringTask.mutateAsync({
+        taskId: task.id,
+        scope,
+        changes,
+        shiftDays,
+        recurrence: recurrenceChanged || rrule !== task.recurrence.rrule ? { ...rule, rrule } : undefined,
+      });
+    } catch {
+      return;
+    }
+
+    const parsedCost = parseFloat(actualCostStr) || 0;
+    const ownChanges: Partial<Task> = {};
+    if (status !== task.status) ownChanges.status = status;
+    if (parsedCost !== (task.actualCost || 0)) ownChanges.actualCost = parsedCost;
+    // The estimate range is per occurrence; series keep a single-point estimate
+    const range = estimateRange();
+    if (range?.optimistic !== task.optimisticHours || range?.pessimistic !== task.pessimisticHours) {
+      ownChanges.optimisticHours = range?.optimistic;
+      ownChanges.pessimisticHours = range?.pessimistic;
+    }
+    if (Object.keys(ownChanges).length > 0 && onSave({ id: task.id, ...ownChanges }) === false) return;
+
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     if (!validate()) return;
 
+    if (task && isRecurring && effectiveScope !== 'this') {
+      await saveRecurringSeries(effectiveScope);
+      return;
+    }
+
+    // Reschedule successors and linked blocks first, in one transaction; keep the modal open if that fails.
+    const shiftPlan = shiftPreview && (cascadeShift ? shiftPreview.withSuccessors : shiftPreview.taskOnly);
+    if (shiftPlan && (shiftPlan.taskChanges.length > 1 || shiftPlan.blockChanges.length > 0)) {
+      try {
+        await applyShift.mutateAsync(shiftPlan);
+      } catch {
+        return;
+      }
+    }
+
     const parsedHours = parseFloat(estimatedHoursStr) || 1;
     const finalHours = Math.max(0.5, parsedHours);
     const parsedCost = parseFloat(actualCostStr) || 0;
+    const range = estimateRange();
+
+    const startsSeries = !!task && !isRecurring && !!recurrence;
+    if (task && startsSeries && recurrence) {
+      // Turn the existing task into the first occurrence of a new series
+      try {
+        await createRecurringTask.mutateAsync({
+          taskId: task.id,
+          title: title.trim(),
+          description: description.trim(),
+          project_id: projectId,
+          priority,
+          weight,
+          estimated_hours: finalHours,
+          assignee_id: assigneeId,
+          start_date: startDate || undefined,
+          due_date: dueDate || undefined,
+          recurrence,
+        });
+      } catch {
+        return;
+      }
+    } else if (task && isRecurring && !recurrence) {
+      stopRecurrence.mutate({ seriesId: task.recurrenceId!, lastDate: task.recurrenceDate ?? dueDate });
+    }
 
     const result = onSave({
       id: task?.id,
@@ -165,11 +344,16 @@ export function TaskModal({
       priority,
       weight,
       estimatedHours: finalHours,
-      actualCost: parsedCost,
+      optimisticHours: range?.optimistic,
+      pessimisticHours: range?.pessimistic,
+      // Approved timesheets add to the task's cost server-side; only send it when edited here
+      actualCost: !task || parsedCost !== (task.actualCost || 0) ? parsedCost : undefined,
       assigneeId: assigneeId || undefined,
-      startDate: startDate || undefined,
-      dueDate: dueDate || undefined,
+      // A new series moves the task onto its first occurrence
+      startDate: startsSeries ? undefined : startDate || undefined,
+      dueDate: startsSeries ? undefined : dueDate || undefined,
       projectId,
+      recurrence: !task ? recurrence ?? undefined : undefined,
     });
 
     // If parent rejects save (e.g. missing required context), keep modal open.
@@ -178,21 +362,35 @@ export function TaskModal({
     onClose();
   };
 
-  const handleAddDependency = useCallback((targetTaskId: string, type: 'blocked-by' | 'blocking') => {
-    setDependencies(prev => [...prev, { taskId: targetTaskId, type }]);
-  }, []);
+  const findDependencyEdge = useCallback((targetTaskId: string, type: 'blocked-by' | 'blocking') => {
+    if (!task) return undefined;
+    const [pred, succ] = type === 'blocked-by' ? [targetTaskId, task.id] : [task.id, targetTaskId];
+    return dependencyEdges.find(e => e.predecessorTaskId === pred && e.successorTaskId === succ);
+  }, [dependencyEdges, task]);
+
+  const handleAddDependency = useCallback((targetTaskId: string, type: 'blocked-by' | 'blocking', link: DependencyLink) => {
+    if (!task) return;
+    const [predecessorTaskId, successorTaskId] = type === 'blocked-by' ? [targetTaskId, task.id] : [task.id, targetTaskId];
+    createDependency.mutate({ predecessorTaskId, successorTaskId, type: 'blocks', ...link });
+  }, [task, createDependency]);
+
+  const handleUpdateDependency = useCallback((targetTaskId: string, type: 'blocked-by' | 'blocking', link: DependencyLink) => {
+    const edge = findDependencyEdge(targetTaskId, type);
+    if (edge) updateDependency.mutate({ id: edge.id, ...link });
+  }, [findDependencyEdge, updateDependency]);
 
   const handleRemoveDependency = useCallback((targetTaskId: string, type: 'blocked-by' | 'blocking') => {
-    setDependencies(prev => prev.filter(d => !(d.taskId === targetTaskId && d.type === type)));
-  }, []);
+    const edge = findDependencyEdge(targetTaskId, type);
+    if (edge) deleteDependency.mutate(edge.id);
+  }, [findDependencyEdge, deleteDependency]);
 
-  const handleRequestAddDependency = useCallback((targetTaskId: string, type: 'blocked-by' | 'blocking') => {
-    setDependencyImpactPending({ targetTaskId, type });
+  const handleRequestAddDependency = useCallback((targetTaskId: string, type: 'blocked-by' | 'blocking', link: DependencyLink) => {
+    setDependencyImpactPending({ targetTaskId, type, link });
   }, []);
 
   const confirmDependencyAndClose = useCallback(() => {
     if (dependencyImpactPending) {
-      handleAddDependency(dependencyImpactPending.targetTaskId, dependencyImpactPending.type);
+      handleAddDependency(dependencyImpactPending.targetTaskId, dependencyImpactPending.type, dependencyImpactPending.link);
       setDependencyImpactPending(null);
     }
   }, [dependencyImpactPending, handleAddDependency]);
@@ -263,6 +461,14 @@ export function TaskModal({
                       Dependencies
                     </TabsTrigger>
                   )}
+                  {task && (
+                    <TabsTrigger 
+                      value="time" 
+                      className="px-0 pb-3 pt-1 data-[state=active]:border-b-2 data-[state=active]:border-primary rounded-none bg-transparent data-[state=active]:bg-transparent data-[state=active]:shadow-none"
+                    >
+                      Time
+                    </TabsTrigger>
+                  )}
                 </TabsList>
               </Tabs>
             </div>
@@ -416,6 +622,44 @@ export function TaskModal({
                       <p className="text-xs text-muted-foreground">Hours required (affects resource allocation)</p>
                     </div>
 
+                    <div className="space-y-2">
+                      <Label htmlFor="optimisticHours">Estimate Range (optional)</Label>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          id="optimisticHours"
+                          type="text"
+                          inputMode="decimal"
+                          placeholder="Optimistic"
+                          aria-label="Optimistic hours"
+                          value={optimisticHoursStr}
+                          onChange={(e) => {
+                            setOptimisticHoursStr(e.target.value);
+                            setErrors((prev) => ({ ...prev, estimateRange: undefined }));
+                          }}
+                          className={errors.estimateRange ? 'border-destructive' : ''}
+                        />
+                        <span className="text-muted-foreground">–</span>
+                        <Input
+                          id="pessimisticHours"
+                          type="text"
+                          inputMode="decimal"
+                          placeholder="Pessimistic"
+                          aria-label="Pessimistic hours"
+                          value={pessimisticHoursStr}
+                          onChange={(e) => {
+                            setPessimisticHoursStr(e.target.value);
+                            setErrors((prev) => ({ ...prev, estimateRange: undefined }));
+                          }}
+                          className={errors.estimateRange ? 'border-destructive' : ''}
+                        />
+                      </div>
+                      {errors.estimateRange ? (
+                        <p className="text-xs text-destructive">{errors.estimateRange}</p>
+                      ) : (
+                        <p className="text-xs text-muted-foreground">Best and worst case hours (used for schedule risk)</p>
+                      )}
+                    </div>
+
                     {canViewBudget && (
                       <div className="space-y-2">
                         <Label htmlFor="actualCost">Actual Cost ($)</Label>
@@ -512,6 +756,52 @@ export function TaskModal({
                       onChange={(e) => setDueDate(e.target.value)}
                     />
                   </div>
+
+                  <TaskRecurrenceField
+                    value={recurrence}
+                    onChange={setRecurrence}
+                    anchorDate={dueDate || startDate || format(new Date(), 'yyyy-MM-dd')}
+                  />
+
+                  {isRecurring && !recurrence && (
+                    <p className="text-xs text-muted-foreground">
+                      No new occurrences will be created after this one. Existing tasks are kept.
+                    </p>
+                  )}
+
+                  {isRecurring && recurrence && (
+                    <div className="space-y-2">
+                      <Label>Apply changes to</Label>
+                      <RadioGroup
+                        value={effectiveScope}
+                        onValueChange={(v) => setEditScope(v as RecurrenceEditScope)}
+                        className="flex flex-wrap gap-4"
+                      >
+                        {([
+                          ['this', 'This task'],
+                          ['following', 'This and following'],
+                          ['all', 'All tasks'],
+                        ] as const).map(([value, label]) => (
+                          <div key={value} className="flex items-center gap-2">
+                            <RadioGroupItem
+                              value={value}
+                              id={`recurrence-scope-${value}`}
+                              disabled={value === 'this' && recurrenceChanged}
+                            />
+                            <Label htmlFor={`recurrence-scope-${value}`} className="font-normal">{label}</Label>
+                          </div>
+                        ))}
+                      </RadioGroup>
+                    </div>
+                  )}
+
+                  {shiftPreview && effectiveScope === 'this' && (
+                    <ScheduleShiftPreview
+                      preview={shiftPreview}
+                      cascade={cascadeShift}
+                      onCascadeChange={setCascadeShift}
+                    />
+                  )}
                 </div>
               )}
 
@@ -522,9 +812,14 @@ export function TaskModal({
                   dependencies={dependencies}
                   onAddDependency={handleAddDependency}
                   onRemoveDependency={handleRemoveDependency}
+                  onUpdateDependency={handleUpdateDependency}
                   onRequestAddDependency={handleRequestAddDependency}
                 />
               )}
+
+              {activeTab === 'time' && task && (
+                <TaskTimeTab task={task} teamMembers={teamMembers} />
+              )}
             </div>
 
             {/* Footer */}
@@ -532,7 +827,10 @@ export function TaskModal({
               <Button type="button" variant="outline" onClick={onClose}>
                 Cancel
               </Button>
-              <Button type="submit" disabled={!title.trim() || !projectId}>
+              <Button
+                type="submit"
+                disabled={!title.trim() || !projectId || applyShift.isPending || editRecurringTask.isPending || createRecurringTask.isPending}
+              >
                 {task ? 'Save Changes' : 'Create Task'}
               </Button>
             </div>
@@ -552,6 +850,8 @@ export function TaskModal({
             onOpenChange={(open) => { if (!open) setDependencyImpactPending(null); }}
             predecessorTask={predecessorTask}
             successorTask={successorTask}
+            linkType={dependencyImpactPending.link.linkType}
+            lagDays={dependencyImpactPending.link.lagDays}
             onConfirm={confirmDependencyAndClose}
             onCancel={() => setDependencyImpactPending(null)}
           />
@@ -0,0 +1,295 @@
+import { useMemo } from 'react';
+import { Repeat } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  WEEKDAYS,
+  describeRRule,
+  parseRRule,
+  formatRRule,
+  weekdayOfKey,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+  type Weekday,
+} from '@/lib/recurrence';
+import type { TaskRecurrenceSettings } from '@/types/portfolio';
+
+interface TaskRecurrenceFieldProps {
+  value: TaskRecurrenceSettings | null;
+  onChange: (value: TaskRecurrenceSettings | null) => void;
+  /** yyyy-MM-dd the rule is anchored on (the task's due or start date) */
+  anchorDate: string;
+  disabled?: boolean;
+}
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+  YEARLY: 'year',
+};
+
+const WEEKDAY_LETTERS: Record<Weekday, string> = {
+  MO: 'M',
+  TU: 'T',
+  WE: 'W',
+  TH: 'T',
+  FR: 'F',
+  SA: 'S',
+  SU: 'S',
+};
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: 'Monday',
+  TU: 'Tuesday',
+  WE: 'Wednesday',
+  TH: 'Thursday',
+  FR: 'Friday',
+  SA: 'Saturday',
+  SU: 'Sunday',
+};
+
+const ORDINAL_LABELS = ['first', 'second', 'third', 'fourth', 'fifth'];
+
+type MonthlyOn = 'day' | 'nth' | 'last';
+type EndType = 'never' | 'until' | 'count';
+
+/** Monthly variants offered for the anchor date, e.g. "on day 15", "on the third Tuesday", "on the last Tuesday". */
+function monthlyOptions(anchorDate: string) {
+  const day = Number(anchorDate.slice(8, 10));
+  const weekday = weekdayOfKey(anchorDate);
+  const [year, month] = anchorDate.split('-').map(Number);
+  const isLastWeek = day + 7 > new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const nth = Math.ceil(day / 7);
+  return {
+    day,
+    weekday,
+    nth,
+    isLastWeek,
+    labels: {
+      day: `On day ${day}`,
+      nth: `On the ${ORDINAL_LABELS[nth - 1]} ${WEEKDAY_LABELS[weekday]}`,
+      last: `On the last ${WEEKDAY_LABELS[weekday]}`,
+    } satisfies Record<MonthlyOn, string>,
+  };
+}
+
+/** "Repeat" controls for a task: frequency, interval, weekdays, monthly variant, end, and how instances are created. */
+export function TaskRecurrenceField({ value, onChange, anchorDate, disabled }: TaskRecurrenceFieldProps) {
+  const rule = useMemo<RecurrenceRule | null>(() => {
+    if (!value) return null;
+    try {
+      return parseRRule(value.rrule);
+    } catch {
+      return null;
+    }
+  }, [value]);
+
+  const monthly = monthlyOptions(anchorDate);
+  const monthlyOn: MonthlyOn = rule?.byDay?.[0]?.ordinal === -1 ? 'last' : rule?.byDay?.[0]?.ordinal ? 'nth' : 'day';
+  const endType: EndType = rule?.count ? 'count' : rule?.until ? 'until' : 'never';
+
+  const update = (next: RecurrenceRule, settings: Partial<TaskRecurrenceSettings> = {}) => {
+    onChange({
+      mode: value?.mode ?? 'on_complete',
+      leadDays: value?.leadDays ?? 7,
+      ...value,
+      ...settings,
+      rrule: formatRRule(next),
+    });
+  };
+
+  const handleFrequencyChange = (freq: string) => {
+    if (freq === 'none') {
+      onChange(null);
+      return;
+    }
+    const next: RecurrenceRule = { freq: freq as RecurrenceFrequency, interval: rule?.interval ?? 1, count: rule?.count, until: rule?.until };
+    if (freq === 'WEEKLY') next.byDay = [{ day: monthly.weekday }];
+    if (freq === 'MONTHLY') next.byMonthDay = [monthly.day];
+    update(next);
+  };
+
+  const handleMonthlyOnChange = (on: string) => {
+    if (!rule) return;
+    const { byDay: _byDay, byMonthDay: _byMonthDay, ...rest } = rule;
+    if (on === 'day') update({ ...rest, byMonthDay: [monthly.day] });
+    if (on === 'nth') update({ ...rest, byDay: [{ day: monthly.weekday, ordinal: monthly.nth }] });
+    if (on === 'last') update({ ...rest, byDay: [{ day: monthly.weekday, ordinal: -1 }] });
+  };
+
+  const handleEndTypeChange = (type: string) => {
+    if (!rule) return;
+    const { count: _count, until: _until, ...rest } = rule;
+    if (type === 'never') update(rest);
+    if (type === 'count') update({ ...rest, count: 10 });
+    if (type === 'until') update({ ...rest, until: anchorDate });
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border p-3">
+      <div className="flex items-center gap-3">
+        <Label className="flex w-24 shrink-0 items-center gap-1.5">
+          <Repeat className="h-3.5 w-3.5 text-muted-foreground" />
+          Repeat
+        </Label>
+        <Select value={rule?.freq ?? 'none'} onValueChange={handleFrequencyChange} disabled={disabled}>
+          <SelectTrigger className="h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Does not repeat</SelectItem>
+            <SelectItem value="DAILY">Daily</SelectItem>
+            <SelectItem value="WEEKLY">Weekly</SelectItem>
+            <SelectItem value="MONTHLY">Monthly</SelectItem>
+            <SelectItem value="YEARLY">Yearly</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {rule && value && (
+        <>
+          <div className="flex items-center gap-3">
+            <Label htmlFor="recurrenceInterval" className="w-24 shrink-0">Every</Label>
+            <Input
+              id="recurrenceInterval"
+              type="number"
+              min={1}
+              max={99}
+              className="h-9 w-20"
+              value={rule.interval}
+              disabled={disabled}
+              onChange={(e) => {
+                const interval = parseInt(e.target.value, 10);
+                if (interval >= 1 && interval <= 99) update({ ...rule, interval });
+              }}
+            />
+            <span className="text-sm text-muted-foreground">
+              {FREQUENCY_UNITS[rule.freq]}{rule.interval === 1 ? '' : 's'}
+            </span>
+          </div>
+
+          {rule.freq === 'WEEKLY' && (
+            <div className="flex items-center gap-3">
+              <Label className="w-24 shrink-0">On</Label>
+              <ToggleGroup
+                type="multiple"
+                size="sm"
+                disabled={disabled}
+                value={rule.byDay?.map((d) => d.day) ?? []}
+                onValueChange={(days) => {
+                  if (days.length === 0) return;
+                  const byDay = WEEKDAYS.filter((d) => days.includes(d)).map((day) => ({ day }));
+                  update({ ...rule, byDay });
+                }}
+              >
+                {WEEKDAYS.map((day) => (
+                  <ToggleGroupItem key={day} value={day} aria-label={WEEKDAY_LABELS[day]} className="h-8 w-8">
+                    {WEEKDAY_LETTERS[day]}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+          )}
+
+          {rule.freq === 'MONTHLY' && (
+            <div className="flex items-center gap-3">
+              <Label className="w-24 shrink-0">On</Label>
+              <Select value={monthlyOn} onValueChange={handleMonthlyOnChange} disabled={disabled}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="day">{monthly.labels.day}</SelectItem>
+                  {monthly.nth <= 4 && <SelectItem value="nth">{monthly.labels.nth}</SelectItem>}
+                  {monthly.isLastWeek && <SelectItem value="last">{monthly.labels.last}</SelectItem>}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="flex items-center gap-3">
+            <Label className="w-24 shrink-0">Ends</Label>
+            <Select value={endType} onValueChange={handleEndTypeChange} disabled={disabled}>
+              <SelectTrigger className="h-9 w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">Never</SelectItem>
+                <SelectItem value="until">On date</SelectItem>
+                <SelectItem value="count">After</SelectItem>
+              </SelectContent>
+            </Select>
+            {endType === 'until' && (
+              <Input
+                type="date"
+                className="h-9"
+                aria-label="Repeat until"
+                value={rule.until ?? ''}
+                disabled={disabled}
+                onChange={(e) => e.target.value && update({ ...rule, until: e.target.value })}
+              />
+            )}
+            {endType === 'count' && (
+              <>
+                <Input
+                  type="number"
+                  min={1}
+                  max={999}
+                  className="h-9 w-20"
+                  aria-label="Number of occurrences"
+                  value={rule.count ?? 1}
+                  disabled={disabled}
+                  onChange={(e) => {
+                    const count = parseInt(e.target.value, 10);
+                    if (count >= 1 && count <= 999) update({ ...rule, count });
+                  }}
+                />
+                <span className="text-sm text-muted-foreground">times</span>
+              </>
+            )}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Label className="w-24 shrink-0">Create next</Label>
+            <Select
+              value={value.mode}
+              onValueChange={(mode) => update(rule, { mode: mode as TaskRecurrenceSettings['mode'] })}
+              disabled={disabled}
+            >
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="on_complete">When this one is completed</SelectItem>
+                <SelectItem value="schedule">On a schedule</SelectItem>
+              </SelectContent>
+            </Select>
+            {value.mode === 'schedule' && (
+              <>
+                <Input
+                  type="number"
+                  min={0}
+                  max={365}
+                  className="h-9 w-20"
+                  aria-label="Days ahead"
+                  value={value.leadDays}
+                  disabled={disabled}
+                  onChange={(e) => {
+                    const leadDays = parseInt(e.target.value, 10);
+                    if (leadDays >= 0 && leadDays <= 365) update(rule, { leadDays });
+                  }}
+                />
+                <span className="shrink-0 text-sm text-muted-foreground">days ahead</span>
+              </>
+            )}
+          </div>
+
+          <p className="text-xs text-muted-foreground">{describeRRule(rule)}</p>
+        </>
+      )}
+    </div>
+  );
+}
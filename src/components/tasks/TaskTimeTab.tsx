@@ -0,0 +1,196 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Play, Plus, Square, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import {
+  getTimerElapsedHours,
+  useCreateTimeEntry,
+  useDeleteTimeEntry,
+  useStartTimer,
+  useStopTimer,
+  useTimeEntries,
+} from '@/hooks/useTimeEntries';
+import { useAuth } from '@/contexts/AuthContext';
+import { isEditableTimeEntry, type TimeEntry } from '@/domains/timesheets/model';
+import { cn } from '@/lib/utils';
+import type { Task, TeamMember } from '@/types/portfolio';
+
+interface TaskTimeTabProps {
+  task: Task;
+  teamMembers: TeamMember[];
+}
+
+const EMPTY_ENTRIES: TimeEntry[] = [];
+
+const STATUS_VARIANTS: Record<TimeEntry['status'], string> = {
+  draft: 'text-muted-foreground',
+  submitted: 'text-primary',
+  approved: 'text-success',
+  rejected: 'text-destructive',
+};
+
+function formatElapsed(startedAt: string, now: number) {
+  const seconds = Math.max(0, Math.floor((now - new Date(startedAt).getTime()) / 1000));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+}
+
+/** Time logged against one task: a timer for the current user, a quick log form, and every entry. */
+export function TaskTimeTab({ task, teamMembers }: TaskTimeTabProps) {
+  const { user } = useAuth();
+  const { data: entries = EMPTY_ENTRIES } = useTimeEntries({ taskId: task.id });
+  const createEntry = useCreateTimeEntry();
+  const deleteEntry = useDeleteTimeEntry();
+  const startTimer = useStartTimer();
+  const stopTimer = useStopTimer();
+
+  const [entryDate, setEntryDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [hoursStr, setHoursStr] = useState('');
+  const [notes, setNotes] = useState('');
+  const [now, setNow] = useState(() => Date.now());
+
+  const currentMemberId = useMemo(() => {
+    const email = user?.email?.toLowerCase();
+    if (!email) return null;
+    return teamMembers.find((m) => m.email?.toLowerCase() === email)?.id ?? null;
+  }, [teamMembers, user?.email]);
+
+  const runningEntry = entries.find((e) => e.timer_started_at && e.member_id === currentMemberId);
+
+  useEffect(() => {
+    if (!runningEntry) return;
+    const id = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(id);
+  }, [runningEntry]);
+
+  const loggedHours = entries.reduce((sum, e) => sum + Number(e.hours) + getTimerElapsedHours(e, new Date(now)), 0);
+  const approvedHours = task.actualHours ?? 0;
+  const progress = task.estimatedHours > 0 ? Math.min(100, (loggedHours / task.estimatedHours) * 100) : 0;
+  const memberName = (id: string) => teamMembers.find((m) => m.id === id)?.name ?? 'Unknown';
+
+  const handleLog = () => {
+    const hours = parseFloat(hoursStr);
+    if (!currentMemberId || !Number.isFinite(hours) || hours <= 0 || hours > 24) return;
+    createEntry.mutate(
+      { memberId: currentMemberId, taskId: task.id, entryDate, hours, notes: notes.trim() },
+      {
+        onSuccess: () => {
+          setHoursStr('');
+          setNotes('');
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-lg border border-border p-4 space-y-3">
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">Logged vs estimated</span>
+          <span className={cn('font-semibold tabular-nums', loggedHours > task.estimatedHours && 'text-destructive')}>
+            {Math.round(loggedHours * 100) / 100}h / {task.estimatedHours}h
+          </span>
+        </div>
+        <Progress value={progress} className="h-2" />
+        <p className="text-xs text-muted-foreground">{Math.round(approvedHours * 100) / 100}h approved</p>
+      </div>
+
+      {currentMemberId ? (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-foreground">Timer</h4>
+            {runningEntry ? (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={stopTimer.isPending}
+                onClick={() => stopTimer.mutate(currentMemberId)}
+              >
+                <Square className="mr-2 h-4 w-4 text-destructive" />
+                Stop · <span className="ml-1 tabular-nums">{formatElapsed(runningEntry.timer_started_at!, now)}</span>
+              </Button>
+            ) : (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={startTimer.isPending}
+                onClick={() => startTimer.mutate({ memberId: currentMemberId, taskId: task.id })}
+              >
+                <Play className="mr-2 h-4 w-4" />
+                Start timer
+              </Button>
+            )}
+          </div>
+
+          <div className="grid gap-2 sm:grid-cols-[140px_90px_1fr_auto]">
+            <Input type="date" value={entryDate} onChange={(e) => setEntryDate(e.target.value)} aria-label="Date" />
+            <Input
+              type="number"
+              inputMode="decimal"
+              min={0}
+              max={24}
+              step="0.25"
+              placeholder="Hours"
+              value={hoursStr}
+              onChange={(e) => setHoursStr(e.target.value)}
+              aria-label="Hours"
+            />
+            <Input placeholder="Notes (optional)" value={notes} onChange={(e) => setNotes(e.target.value)} aria-label="Notes" />
+            <Button type="button" onClick={handleLog} disabled={!hoursStr || !entryDate || createEntry.isPending}>
+              <Plus className="mr-1 h-4 w-4" />
+              Log
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          You need a team member profile to log time. Ask an admin to add you in Resources.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-foreground">Entries</h4>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No time logged yet.</p>
+        ) : (
+          <div className="divide-y divide-border rounded-lg border border-border">
+            {[...entries].reverse().map((entry) => (
+              <div key={entry.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                <span className="w-[90px] shrink-0 text-muted-foreground">{format(parseISO(entry.entry_date), 'MMM d')}</span>
+                <span className="flex-1 truncate">
+                  {memberName(entry.member_id)}
+                  {entry.notes && <span className="text-muted-foreground"> · {entry.notes}</span>}
+                </span>
+                <Badge variant="outline" className={cn('text-[10px] capitalize', STATUS_VARIANTS[entry.status])}>
+                  {entry.timer_started_at ? 'running' : entry.status}
+                </Badge>
+                <span className="w-[48px] text-right tabular-nums">{Number(entry.hours)}h</span>
+                {isEditableTimeEntry(entry) && entry.member_id === currentMemberId && !entry.timer_started_at ? (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    aria-label="Delete entry"
+                    onClick={() => deleteEntry.mutate(entry.id)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                ) : (
+                  <span className="w-7" />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useMemo, useState } from 'react';
+import { format, parseISO, startOfWeek, addDays } from 'date-fns';
+import { Check, ClipboardCheck, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { EmptyState } from '@/components/shared/EmptyState';
+import { useReviewTimeEntries } from '@/hooks/useTimeEntries';
+import type { TimeEntry } from '@/domains/timesheets/model';
+import type { Project, Task, TeamMember } from '@/types/portfolio';
+
+interface TimesheetApprovalsProps {
+  /** Submitted entries the current user may review */
+  entries: TimeEntry[];
+  tasks: Task[];
+  projects: Project[];
+  teamMembers: TeamMember[];
+}
+
+interface ApprovalGroup {
+  key: string;
+  memberId: string;
+  weekStart: Date;
+  entries: TimeEntry[];
+  hours: number;
+}
+
+function ApprovalCard({
+  group,
+  memberName,
+  hourlyRate,
+  taskTitle,
+  projectName,
+}: {
+  group: ApprovalGroup;
+  memberName: string;
+  hourlyRate: number;
+  taskTitle: (id: string) => string;
+  projectName: (id: string) => string;
+}) {
+  const review = useReviewTimeEntries();
+  const [note, setNote] = useState('');
+  const ids = group.entries.map((e) => e.id);
+
+  return (
+    <div className="rounded-lg border border-border/80 bg-card">
+      <div className="flex flex-wrap items-center justify-between gap-3 border-b border-border/80 px-4 py-3">
+        <div>
+          <p className="font-medium text-foreground">{memberName}</p>
+          <p className="text-xs text-muted-foreground">
+            Week of {format(group.weekStart, 'MMM d')} – {format(addDays(group.weekStart, 6), 'MMM d, yyyy')} ·{' '}
+            {group.hours}h{hourlyRate > 0 && ` · $${Math.round(group.hours * hourlyRate).toLocaleString()}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note (optional)"
+            className="h-8 w-[200px]"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={review.isPending}
+            onClick={() => review.mutate({ ids, approve: false, note })}
+          >
+            <X className="mr-1 h-4 w-4" />
+            Reject
+          </Button>
+          <Button size="sm" disabled={review.isPending} onClick={() => review.mutate({ ids, approve: true, note })}>
+            <Check className="mr-1 h-4 w-4" />
+            Approve
+          </Button>
+        </div>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-[110px]">Date</TableHead>
+            <TableHead>Task</TableHead>
+            <TableHead>Project</TableHead>
+            <TableHead>Notes</TableHead>
+            <TableHead className="text-right">Hours</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {group.entries.map((entry) => (
+            <TableRow key={entry.id}>
+              <TableCell className="whitespace-nowrap text-muted-foreground">
+                {format(parseISO(entry.entry_date), 'EEE, MMM d')}
+              </TableCell>
+              <TableCell className="font-medium">{taskTitle(entry.task_id)}</TableCell>
+              <TableCell className="text-muted-foreground">{projectName(entry.project_id)}</TableCell>
+              <TableCell className="text-muted-foreground">{entry.notes || '—'}</TableCell>
+              <TableCell className="text-right tabular-nums">{Number(entry.hours)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+/** Submitted time grouped by member and week, approved or rejected a week at a time. */
+export function TimesheetApprovals({ entries, tasks, projects, teamMembers }: TimesheetApprovalsProps) {
+  const groups = useMemo(() => {
+    const byKey = new Map<string, ApprovalGroup>();
+    for (const entry of entries) {
+      const weekStart = startOfWeek(parseISO(entry.entry_date), { weekStartsOn: 1 });
+      const key = `${entry.member_id}:${format(weekStart, 'yyyy-MM-dd')}`;
+      const group = byKey.get(key) ?? { key, memberId: entry.member_id, weekStart, entries: [], hours: 0 };
+      group.entries.push(entry);
+      group.hours = Math.round((group.hours + Number(entry.hours)) * 100) / 100;
+      byKey.set(key, group);
+    }
+    return [...byKey.values()].sort((a, b) => a.weekStart.getTime() - b.weekStart.getTime());
+  }, [entries]);
+
+  if (groups.length === 0) {
+    return (
+      <EmptyState
+        icon={ClipboardCheck}
+        title="Nothing to approve"
+        description="Submitted timesheets for projects you manage will appear here."
+      />
+    );
+  }
+
+  const member = (id: string) => teamMembers.find((m) => m.id === id);
+  const taskTitle = (id: string) => tasks.find((t) => t.id === id)?.title ?? 'Deleted task';
+  const projectName = (id: string) => projects.find((p) => p.id === id)?.name ?? '—';
+
+  return (
+    <div className="space-y-4">
+      {groups.map((group) => (
+        <ApprovalCard
+          key={group.key}
+          group={group}
+          memberName={member(group.memberId)?.name ?? 'Unknown member'}
+          hourlyRate={member(group.memberId)?.hourlyRate ?? 0}
+          taskTitle={taskTitle}
+          projectName={projectName}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+import { useEffect, useMemo, useState } from 'react';
+import { addDays, format, isToday } from 'date-fns';
+import { Play, Plus, Send, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  useSetTimesheetCell,
+  useStartTimer,
+  useStopTimer,
+  useSubmitTimesheet,
+} from '@/hooks/useTimeEntries';
+import { isEditableTimeEntry, type TimeEntry, type TimeEntryStatus } from '@/domains/timesheets/model';
+import { cn } from '@/lib/utils';
+import type { Project, Task } from '@/types/portfolio';
+
+interface TimesheetGridProps {
+  memberId: string;
+  /** Monday of the week shown */
+  weekStart: Date;
+  entries: TimeEntry[];
+  tasks: Task[];
+  projects: Project[];
+}
+
+const STATUS_LABELS: Record<TimeEntryStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Submitted',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+const STATUS_CLASSES: Record<TimeEntryStatus, string> = {
+  draft: 'text-foreground',
+  submitted: 'text-primary',
+  approved: 'text-success',
+  rejected: 'text-destructive',
+};
+
+const formatHours = (hours: number) => (hours === 0 ? '' : String(Math.round(hours * 100) / 100));
+const sumHours = (entries: TimeEntry[]) => entries.reduce((sum, e) => sum + Number(e.hours), 0);
+
+/** Least settled status in a set of entries, used to colour a cell or row. */
+function rowStatus(entries: TimeEntry[]): TimeEntryStatus | null {
+  const order: TimeEntryStatus[] = ['rejected', 'draft', 'submitted', 'approved'];
+  return order.find((s) => entries.some((e) => e.status === s)) ?? null;
+}
+
+export function TimesheetGrid({ memberId, weekStart, entries, tasks, projects }: TimesheetGridProps) {
+  const setCell = useSetTimesheetCell();
+  const startTimer = useStartTimer();
+  const stopTimer = useStopTimer();
+  const submitTimesheet = useSubmitTimesheet();
+
+  const [addedTaskIds, setAddedTaskIds] = useState<string[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setAddedTaskIds([]);
+    setDrafts({});
+  }, [memberId, weekStart]);
+
+  const days = useMemo(
+    () => Array.from({ length: 7 }, (_, i) => {
+      const date = addDays(weekStart, i);
+      return { date, key: format(date, 'yyyy-MM-dd') };
+    }),
+    [weekStart]
+  );
+
+  const taskById = useMemo(() => new Map(tasks.map((t) => [t.id, t])), [tasks]);
+  const projectById = useMemo(() => new Map(projects.map((p) => [p.id, p])), [projects]);
+
+  const rowTaskIds = useMemo(() => {
+    const ids = new Set(entries.map((e) => e.task_id));
+    addedTaskIds.forEach((id) => ids.add(id));
+    return [...ids];
+  }, [entries, addedTaskIds]);
+
+  const cellEntries = (taskId: string, dateKey: string) =>
+    entries.filter((e) => e.task_id === taskId && e.entry_date === dateKey);
+
+  const addableTasks = useMemo(() => {
+    const open = tasks.filter((t) => t.status !== 'done' && !rowTaskIds.includes(t.id));
+    return {
+      assigned: open.filter((t) => t.assigneeId === memberId),
+      other: open.filter((t) => t.assigneeId !== memberId),
+    };
+  }, [tasks, rowTaskIds, memberId]);
+
+  const runningEntry = entries.find((e) => e.timer_started_at);
+  const submittable = entries.filter((e) => isEditableTimeEntry(e) && !e.timer_started_at && Number(e.hours) > 0);
+  const weekTotal = sumHours(entries);
+
+  const commitCell = (taskId: string, dateKey: string) => {
+    const key = `${taskId}:${dateKey}`;
+    const raw = drafts[key];
+    if (raw === undefined) return;
+
+    setDrafts((prev) => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+
+    const hours = raw.trim() === '' ? 0 : parseFloat(raw);
+    const current = cellEntries(taskId, dateKey);
+    if (Number.isNaN(hours) || hours < 0 || hours === sumHours(current)) return;
+
+    setCell.mutate({ memberId, taskId, entryDate: dateKey, hours, entries: current });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-[220px]">Task</TableHead>
+              {days.map(({ date, key }) => (
+                <TableHead key={key} className={cn('w-[72px] text-center', isToday(date) && 'text-primary')}>
+                  <div>{format(date, 'EEE')}</div>
+                  <div className="text-xs font-normal">{format(date, 'MMM d')}</div>
+                </TableHead>
+              ))}
+              <TableHead className="w-[72px] text-right">Total</TableHead>
+              <TableHead className="w-[48px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rowTaskIds.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={10} className="py-8 text-center text-sm text-muted-foreground">
+                  No time logged this week. Add a task to start.
+                </TableCell>
+              </TableRow>
+            )}
+            {rowTaskIds.map((taskId) => {
+              const task = taskById.get(taskId);
+              const rowEntries = entries.filter((e) => e.task_id === taskId);
+              const status = rowStatus(rowEntries);
+              const isRunning = runningEntry?.task_id === taskId;
+
+              return (
+                <TableRow key={taskId}>
+                  <TableCell>
+                    <div className="font-medium text-foreground">{task?.title ?? 'Deleted task'}</div>
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      {task && projectById.get(task.projectId)?.name}
+                      {status && status !== 'draft' && (
+                        <Badge variant="outline" className={cn('text-[10px]', STATUS_CLASSES[status])}>
+                          {STATUS_LABELS[status]}
+                        </Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  {days.map(({ key }) => {
+                    const cell = cellEntries(taskId, key);
+                    const cellKey = `${taskId}:${key}`;
+                    const cellStatus = rowStatus(cell);
+                    const note = cell.find((e) => e.status === 'rejected' && e.review_note)?.review_note;
+                    return (
+                      <TableCell key={key} className="p-1">
+                        <Input
+                          type="number"
+                          inputMode="decimal"
+                          min={0}
+                          max={24}
+                          step="0.25"
+                          aria-label={`${task?.title ?? 'Task'} hours on ${key}`}
+                          title={note ? `Rejected: ${note}` : undefined}
+                          disabled={!task || cell.some((e) => e.timer_started_at)}
+                          value={drafts[cellKey] ?? formatHours(sumHours(cell))}
+                          onChange={(e) => setDrafts((prev) => ({ ...prev, [cellKey]: e.target.value }))}
+                          onBlur={() => commitCell(taskId, key)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') e.currentTarget.blur();
+                          }}
+                          className={cn(
+                            'h-8 px-1 text-center tabular-nums [appearance:textfield] [&::-webkit-inner-spin-button]:appearance-none',
+                            cellStatus && STATUS_CLASSES[cellStatus]
+                          )}
+                        />
+                      </TableCell>
+                    );
+                  })}
+                  <TableCell className="text-right font-medium tabular-nums">{formatHours(sumHours(rowEntries)) || '0'}</TableCell>
+                  <TableCell className="p-1">
+                    {task && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        aria-label={isRunning ? 'Stop timer' : 'Start timer'}
+                        disabled={startTimer.isPending || stopTimer.isPending}
+                        onClick={() =>
+                          isRunning ? stopTimer.mutate(memberId) : startTimer.mutate({ memberId, taskId })
+                        }
+                      >
+                        {isRunning ? <Square className="h-4 w-4 text-destructive" /> : <Play className="h-4 w-4" />}
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell className="font-medium">Total</TableCell>
+              {days.map(({ key }) => {
+                const total = sumHours(entries.filter((e) => e.entry_date === key));
+                return (
+                  <TableCell key={key} className={cn('text-center tabular-nums', total > 8 && 'text-warning')}>
+                    {formatHours(total) || '0'}
+                  </TableCell>
+                );
+              })}
+              <TableCell className="text-right font-semibold tabular-nums">{formatHours(weekTotal) || '0'}</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <Select
+          value=""
+          onValueChange={(taskId) => setAddedTaskIds((prev) => [...prev, taskId])}
+          disabled={addableTasks.assigned.length + addableTasks.other.length === 0}
+        >
+          <SelectTrigger className="w-[280px]">
+            <Plus className="mr-2 h-4 w-4" />
+            <SelectValue placeholder="Add task" />
+          </SelectTrigger>
+          <SelectContent>
+            {addableTasks.assigned.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>Assigned</SelectLabel>
+                {addableTasks.assigned.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>{t.title}</SelectItem>
+                ))}
+              </SelectGroup>
+            )}
+            {addableTasks.other.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>Other tasks</SelectLabel>
+                {addableTasks.other.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>{t.title}</SelectItem>
+                ))}
+              </SelectGroup>
+            )}
+          </SelectContent>
+        </Select>
+
+        <Button
+          onClick={() =>
+            submitTimesheet.mutate({
+              memberId,
+              from: days[0].key,
+              to: days[6].key,
+            })
+          }
+          disabled={submittable.length === 0 || submitTimesheet.isPending}
+        >
+          <Send className="mr-2 h-4 w-4" />
+          Submit week
+        </Button>
+      </div>
+    </div>
+  );
+}
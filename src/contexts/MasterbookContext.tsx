@@ -1,6 +1,8 @@
 /**
  * Masterbook v3.1 – Central context for risks, change requests, portfolio decision log,
- * and derived state (critical path, health signals). Persists to localStorage by org.
+ * and derived state (critical path, health signals). Risks, change requests and the decision
+ * log are stored in Supabase (org-scoped, realtime); weekly prompts and dismissed insights stay
+ * in localStorage by org.
  */
 
 import {
@@ -12,7 +14,34 @@ import {
   useEffect,
   useRef,
 } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { logError } from '@/lib/logger';
+import { SEVERITY_DEFAULT_SCORES } from '@/lib/riskScoring';
+import {
+  useRisks,
+  useCreateRisk,
+  useUpdateRisk,
+  useDeleteRisk,
+  toRiskColumns,
+} from '@/hooks/useRisks';
+import {
+  useChangeRequests,
+  useCreateChangeRequest,
+  useUpdateChangeRequest,
+  useSubmitChangeRequest,
+  useDecideChangeRequest,
+  useImplementChangeRequest,
+  useRevertChangeRequest,
+  toChangeRequestColumns,
+} from '@/hooks/useChangeRequests';
+import {
+  usePortfolioDecisions,
+  useAppendPortfolioDecision,
+  toPortfolioDecisionInsert,
+} from '@/hooks/usePortfolioDecisions';
 import type {
   Risk,
   ChangeRequest,
@@ -41,25 +70,29 @@ function saveJson(key: string, value: unknown): void {
   }
 }
 
-type MasterbookState = {
+type LocalState = {
+  weeklyReviewPrompts: WeeklyReviewPrompt[];
+  dismissedInsights: string[];
+};
+
+type MasterbookState = LocalState & {
   risks: Risk[];
   changeRequests: ChangeRequest[];
   portfolioDecisionLog: PortfolioDecisionLogEntry[];
-  weeklyReviewPrompts: WeeklyReviewPrompt[];
-  dismissedInsights: string[];
 };
 
-const defaultState: MasterbookState = {
-  risks: [],
-  changeRequests: [],
-  portfolioDecisionLog: [],
+const defaultLocalState: LocalState = {
   weeklyReviewPrompts: [],
   dismissedInsights: [],
 };
 
+const EMPTY_RISKS: Risk[] = [];
+const EMPTY_CHANGE_REQUESTS: ChangeRequest[] = [];
+const EMPTY_DECISIONS: PortfolioDecisionLogEntry[] = [];
+
 type MasterbookContextType = MasterbookState & {
   // Risks
-  addRisk: (risk: Omit<Risk, 'id' | 'createdAt' | 'updatedAt'>) => Risk;
+  addRisk: (risk: Omit<Risk, 'id' | 'createdAt' | 'updatedAt'>) => Promise<Risk>;
   updateRisk: (id: string, patch: Partial<Risk>) => void;
   removeRisk: (id: string) => void;
   getRisksByProject: (projectId: string) => Risk[];
@@ -67,14 +100,20 @@ type MasterbookContextType = MasterbookState & {
   realizeRisk: (id: string, blockerTaskId?: string) => void;
 
   // Change requests
-  addChangeRequest: (cr: Omit<ChangeRequest, 'id' | 'createdAt' | 'updatedAt' | 'approvals'>) => ChangeRequest;
+  addChangeRequest: (cr: Omit<ChangeRequest, 'id' | 'createdAt' | 'updatedAt' | 'approvals'>) => Promise<ChangeRequest>;
   updateChangeRequest: (id: string, patch: Partial<ChangeRequest>) => void;
-  addApproval: (crId: string, approval: ChangeRequest['approvals'][0]) => void;
+  /** Submit a draft or rejected request for approval; its impact is simulated on the server */
+  submitChangeRequest: (id: string) => Promise<void>;
+  /** Approve or reject the request's pending approval stage as the current user (or their delegate) */
+  decideChangeRequest: (id: string, approved: boolean, comment?: string) => Promise<void>;
+  /** Apply an approved request's items to tasks/milestones (snapshot kept for revert) */
+  implementChangeRequest: (id: string) => Promise<void>;
+  revertChangeRequest: (id: string) => Promise<void>;
   getChangeRequestsByProject: (projectId: string) => ChangeRequest[];
   getPendingChangeRequests: () => ChangeRequest[];
 
   // Portfolio decision log (append-only)
-  appendPortfolioDecision: (entry: Omit<PortfolioDecisionLogEntry, 'id' | 'decidedAt'>) => PortfolioDecisionLogEntry;
+  appendPortfolioDecision: (entry: Omit<PortfolioDecisionLogEntry, 'id' | 'decidedAt'>) => Promise<PortfolioDecisionLogEntry>;
   getPortfolioDecisionLog: (portfolioId?: string) => PortfolioDecisionLogEntry[];
 
   // Weekly prompts
@@ -92,170 +131,297 @@ function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
 }
 
+/** Insert rejected by RLS: the current user may not write these rows, so retrying won't help */
+const isPermissionDenied = (error: { code?: string }) => error.code === '42501';
+
+/** Insert rejected by a foreign key: the row names a project, portfolio or user that no longer exists */
+const isForeignKeyViolation = (error: { code?: string }) => error.code === '23503';
+
+type LegacyInsertResult<R> = { data: R | null; error: { code?: string; message: string } | null };
+
+/**
+ * Writes one localStorage collection row by row, so a single bad row doesn't hold back the rest.
+ * Rows RLS refuses or whose references are gone are logged and dropped; rows that failed for any
+ * other reason stay in localStorage for the next load. Returns the written rows with their results.
+ */
+async function importLegacyRows<T, R>(
+  storageKey: string,
+  context: string,
+  rows: T[],
+  insertRow: (row: T) => PromiseLike<LegacyInsertResult<R>>
+): Promise<Array<{ row: T; data: R | null }>> {
+  const written: Array<{ row: T; data: R | null }> = [];
+  const retry: T[] = [];
+  for (const row of rows) {
+    const { data, error } = await insertRow(row);
+    if (!error) {
+      written.push({ row, data });
+      continue;
+    }
+    logError(context, error);
+    if (!isPermissionDenied(error) && !isForeignKeyViolation(error)) retry.push(row);
+  }
+  if (retry.length > 0) saveJson(storageKey, retry);
+  else localStorage.removeItem(storageKey);
+  return written;
+}
+
+/**
+ * One-time import of risks, change requests and decision log entries that earlier
+ * versions kept in localStorage (see importLegacyRows for how failures are handled).
+ * Change requests come in as drafts: decisions made in the browser never went through
+ * an approval chain, so they are resubmitted rather than trusted.
+ */
+async function importLegacyMasterbookData(key: string, orgId: string, userId: string): Promise<boolean> {
+  let imported = false;
+
+  const legacyRisks = loadJson<Risk[]>(`${key}_risks`, []);
+  if (legacyRisks.length > 0) {
+    const written = await importLegacyRows(`${key}_risks`, 'MasterbookContext.importRisks', legacyRisks, (r) =>
+      supabase.from('risks').insert({
+        // Stored before risks were scored: score them from their severity
+        ...toRiskColumns({ ...SEVERITY_DEFAULT_SCORES[r.severity], ...r }),
+        title: r.title,
+        project_id: r.projectId,
+        org_id: orgId,
+        created_at: r.createdAt,
+      })
+    );
+    imported ||= written.length > 0;
+  }
+
+  const legacyChangeRequests = loadJson<ChangeRequest[]>(`${key}_changeRequests`, []);
+  if (legacyChangeRequests.length > 0) {
+    const written = await importLegacyRows(
+      `${key}_changeRequests`,
+      'MasterbookContext.importChangeRequests',
+      legacyChangeRequests,
+      (c) =>
+        supabase
+          .from('change_requests')
+          .insert({
+            ...toChangeRequestColumns(c),
+            title: c.title,
+            type: c.type,
+            status: 'draft',
+            project_id: c.projectId,
+            // Filed as the importing user, who resubmits the drafts
+            requested_by: userId,
+            org_id: orgId,
+            created_at: c.createdAt,
+          })
+          .select('id')
+          .single()
+    );
+    // Votes are recorded by the database (import_legacy_change_request_approvals), which only
+    // takes the current user's own votes on requests that list them as an approver.
+    const approvals = written.flatMap(({ row: c, data }) =>
+      data
+        ? (c.approvals ?? [])
+            .filter((a) => a.approverId === userId && c.approverIds?.includes(userId))
+            .map((a) => ({
+              change_request_id: data.id,
+              approved: a.approved,
+              comment: a.comment ?? null,
+              created_at: a.at,
+            }))
+        : []
+    );
+    if (approvals.length > 0) {
+      const { error: approvalError } = await supabase.rpc('import_legacy_change_request_approvals', {
+        _approvals: approvals as unknown as Json,
+      });
+      if (approvalError) logError('MasterbookContext.importApprovals', approvalError);
+    }
+    imported ||= written.length > 0;
+  }
+
+  const legacyLog = loadJson<PortfolioDecisionLogEntry[]>(`${key}_portfolioLog`, []);
+  if (legacyLog.length > 0) {
+    const written = await importLegacyRows(`${key}_portfolioLog`, 'MasterbookContext.importDecisionLog', legacyLog, (e) =>
+      // The database records the original author and time as unverified history in metadata
+      supabase.rpc('import_legacy_portfolio_decision', {
+        _entry: { ...toPortfolioDecisionInsert(e, orgId), decided_at: e.decidedAt } as unknown as Json,
+      })
+    );
+    imported ||= written.length > 0;
+  }
+
+  return imported;
+}
+
 export function MasterbookProvider({ children }: { children: React.ReactNode }) {
-  const { organization } = useAuth();
-  const [state, setState] = useState<MasterbookState>(() => defaultState);
+  const { organization, user } = useAuth();
+  const queryClient = useQueryClient();
+  const [localState, setLocalState] = useState<LocalState>(() => defaultLocalState);
   const storageKeyRef = useRef<string | null>(null);
+  const importedKeysRef = useRef<Set<string>>(new Set());
+
+  const { data: risks = EMPTY_RISKS } = useRisks();
+  const { data: changeRequests = EMPTY_CHANGE_REQUESTS } = useChangeRequests();
+  const { data: portfolioDecisionLog = EMPTY_DECISIONS } = usePortfolioDecisions();
+  const createRisk = useCreateRisk();
+  const updateRiskMutation = useUpdateRisk();
+  const deleteRisk = useDeleteRisk();
+  const createChangeRequest = useCreateChangeRequest();
+  const updateChangeRequestMutation = useUpdateChangeRequest();
+  const submitChangeRequestMutation = useSubmitChangeRequest();
+  const decideChangeRequestMutation = useDecideChangeRequest();
+  const implementChangeRequestMutation = useImplementChangeRequest();
+  const revertChangeRequestMutation = useRevertChangeRequest();
+  const appendDecision = useAppendPortfolioDecision();
 
   useEffect(() => {
     const key = organization?.id ? `${STORAGE_KEY_PREFIX}_${organization.id}` : null;
     storageKeyRef.current = key;
     if (key) {
-      setState({
-        risks: loadJson(`${key}_risks`, defaultState.risks),
-        changeRequests: loadJson(`${key}_changeRequests`, defaultState.changeRequests),
-        portfolioDecisionLog: loadJson(`${key}_portfolioLog`, defaultState.portfolioDecisionLog),
-        weeklyReviewPrompts: loadJson(`${key}_weeklyPrompts`, defaultState.weeklyReviewPrompts),
-        dismissedInsights: loadJson(`${key}_dismissedInsights`, defaultState.dismissedInsights),
+      setLocalState({
+        weeklyReviewPrompts: loadJson(`${key}_weeklyPrompts`, defaultLocalState.weeklyReviewPrompts),
+        dismissedInsights: loadJson(`${key}_dismissedInsights`, defaultLocalState.dismissedInsights),
       });
     } else {
-      setState(defaultState);
+      setLocalState(defaultLocalState);
     }
   }, [organization?.id]);
 
+  useEffect(() => {
+    const orgId = organization?.id;
+    if (!orgId || !user?.id) return;
+    const key = `${STORAGE_KEY_PREFIX}_${orgId}`;
+    if (importedKeysRef.current.has(key)) return;
+    importedKeysRef.current.add(key);
+    importLegacyMasterbookData(key, orgId, user.id).then((imported) => {
+      if (!imported) return;
+      queryClient.invalidateQueries({ queryKey: ['risks', orgId] });
+      queryClient.invalidateQueries({ queryKey: ['change_requests', orgId] });
+      queryClient.invalidateQueries({ queryKey: ['portfolio_decisions', orgId] });
+    });
+  }, [organization?.id, user?.id, queryClient]);
+
   const persist = useCallback(() => {
     const key = storageKeyRef.current;
     if (!key) return;
-    saveJson(`${key}_risks`, state.risks);
-    saveJson(`${key}_changeRequests`, state.changeRequests);
-    saveJson(`${key}_portfolioLog`, state.portfolioDecisionLog);
-    saveJson(`${key}_weeklyPrompts`, state.weeklyReviewPrompts);
-    saveJson(`${key}_dismissedInsights`, state.dismissedInsights);
-  }, [state.risks, state.changeRequests, state.portfolioDecisionLog, state.weeklyReviewPrompts, state.dismissedInsights]);
+    saveJson(`${key}_weeklyPrompts`, localState.weeklyReviewPrompts);
+    saveJson(`${key}_dismissedInsights`, localState.dismissedInsights);
+  }, [localState.weeklyReviewPrompts, localState.dismissedInsights]);
 
   useEffect(() => {
     if (organization?.id) persist();
   }, [organization?.id, persist]);
 
+  const { mutateAsync: createRiskAsync } = createRisk;
+  const { mutate: updateRiskMutate } = updateRiskMutation;
+  const { mutate: deleteRiskMutate } = deleteRisk;
+  const { mutateAsync: createChangeRequestAsync } = createChangeRequest;
+  const { mutate: updateChangeRequestMutate } = updateChangeRequestMutation;
+  const { mutateAsync: submitChangeRequestAsync } = submitChangeRequestMutation;
+  const { mutateAsync: decideChangeRequestAsync } = decideChangeRequestMutation;
+  const { mutateAsync: implementChangeRequestAsync } = implementChangeRequestMutation;
+  const { mutateAsync: revertChangeRequestAsync } = revertChangeRequestMutation;
+  const { mutateAsync: appendDecisionAsync } = appendDecision;
+
   const addRisk = useCallback(
-    (risk: Omit<Risk, 'id' | 'createdAt' | 'updatedAt' | 'orgId'>): Risk => {
+    (risk: Omit<Risk, 'id' | 'createdAt' | 'updatedAt' | 'orgId'>): Promise<Risk> => {
       if (!organization?.id) throw new Error('Organization required');
-      const now = new Date().toISOString();
-      const newRisk: Risk = {
-        ...risk,
-        orgId: organization.id,
-        id: generateId(),
-        createdAt: now,
-        updatedAt: now,
-      };
-      setState((s) => ({ ...s, risks: [...s.risks, newRisk] }));
-      return newRisk;
+      return createRiskAsync({ ...risk, orgId: organization.id });
     },
-    [organization?.id]
+    [organization?.id, createRiskAsync]
   );
 
-  const updateRisk = useCallback((id: string, patch: Partial<Risk>) => {
-    const now = new Date().toISOString();
-    setState((s) => ({
-      ...s,
-      risks: s.risks.map((r) =>
-        r.id === id ? { ...r, ...patch, updatedAt: now } : r
-      ),
-    }));
-  }, []);
+  const updateRisk = useCallback(
+    (id: string, patch: Partial<Risk>) => updateRiskMutate({ id, patch }),
+    [updateRiskMutate]
+  );
 
-  const removeRisk = useCallback((id: string) => {
-    setState((s) => ({ ...s, risks: s.risks.filter((r) => r.id !== id) }));
-  }, []);
+  const removeRisk = useCallback((id: string) => deleteRiskMutate(id), [deleteRiskMutate]);
 
   const getRisksByProject = useCallback(
-    (projectId: string) => state.risks.filter((r) => r.projectId === projectId),
-    [state.risks]
+    (projectId: string) => risks.filter((r) => r.projectId === projectId),
+    [risks]
   );
 
   const getActiveRisks = useCallback(
-    () => state.risks.filter((r) => r.status === 'identified' || r.status === 'active'),
-    [state.risks]
+    () => risks.filter((r) => r.status === 'identified' || r.status === 'active'),
+    [risks]
   );
 
-  const realizeRisk = useCallback((id: string, blockerTaskId?: string) => {
-    const now = new Date().toISOString();
-    setState((s) => ({
-      ...s,
-      risks: s.risks.map((r) =>
-        r.id === id
-          ? { ...r, status: 'realized' as const, realizedAt: now, blockerTaskId, updatedAt: now }
-          : r
-      ),
-    }));
-  }, []);
+  const realizeRisk = useCallback(
+    (id: string, blockerTaskId?: string) => {
+      updateRiskMutate({
+        id,
+        patch: { status: 'realized', realizedAt: new Date().toISOString(), blockerTaskId },
+      });
+    },
+    [updateRiskMutate]
+  );
 
   const addChangeRequest = useCallback(
-    (cr: Omit<ChangeRequest, 'id' | 'createdAt' | 'updatedAt' | 'approvals' | 'orgId'>): ChangeRequest => {
+    (cr: Omit<ChangeRequest, 'id' | 'createdAt' | 'updatedAt' | 'approvals' | 'orgId'>): Promise<ChangeRequest> => {
       if (!organization?.id) throw new Error('Organization required');
-      const now = new Date().toISOString();
-      const newCr: ChangeRequest = {
-        ...cr,
-        orgId: organization.id,
-        id: generateId(),
-        approvals: [],
-        createdAt: now,
-        updatedAt: now,
-      };
-      setState((s) => ({ ...s, changeRequests: [...s.changeRequests, newCr] }));
-      return newCr;
+      return createChangeRequestAsync({ ...cr, orgId: organization.id });
     },
-    [organization?.id]
+    [organization?.id, createChangeRequestAsync]
   );
 
-  const updateChangeRequest = useCallback((id: string, patch: Partial<ChangeRequest>) => {
-    const now = new Date().toISOString();
-    setState((s) => ({
-      ...s,
-      changeRequests: s.changeRequests.map((c) =>
-        c.id === id ? { ...c, ...patch, updatedAt: now } : c
-      ),
-    }));
-  }, []);
+  const updateChangeRequest = useCallback(
+    (id: string, patch: Partial<ChangeRequest>) => updateChangeRequestMutate({ id, patch }),
+    [updateChangeRequestMutate]
+  );
 
-  const addApproval = useCallback((crId: string, approval: ChangeRequest['approvals'][0]) => {
-    setState((s) => ({
-      ...s,
-      changeRequests: s.changeRequests.map((c) =>
-        c.id === crId ? { ...c, approvals: [...c.approvals, approval] } : c
-      ),
-    }));
-  }, []);
+  const submitChangeRequest = useCallback(
+    async (id: string) => {
+      await submitChangeRequestAsync(id);
+    },
+    [submitChangeRequestAsync]
+  );
+
+  const decideChangeRequest = useCallback(
+    async (id: string, approved: boolean, comment?: string) => {
+      await decideChangeRequestAsync({ changeRequestId: id, approved, comment });
+    },
+    [decideChangeRequestAsync]
+  );
+
+  const implementChangeRequest = useCallback(
+    async (id: string) => {
+      await implementChangeRequestAsync(id);
+    },
+    [implementChangeRequestAsync]
+  );
+
+  const revertChangeRequest = useCallback(
+    (id: string) => revertChangeRequestAsync(id),
+    [revertChangeRequestAsync]
+  );
 
   const getChangeRequestsByProject = useCallback(
     (projectId: string) =>
-      state.changeRequests.filter((c) => c.projectId === projectId),
-    [state.changeRequests]
+      changeRequests.filter((c) => c.projectId === projectId),
+    [changeRequests]
   );
 
   const getPendingChangeRequests = useCallback(
-    () => state.changeRequests.filter((c) => c.status === 'pending_approval'),
-    [state.changeRequests]
+    () => changeRequests.filter((c) => c.status === 'pending_approval'),
+    [changeRequests]
   );
 
   const getPortfolioDecisionLog = useCallback(
     (portfolioId?: string) =>
       portfolioId
-        ? state.portfolioDecisionLog.filter((e) => e.portfolioId === portfolioId)
-        : state.portfolioDecisionLog,
-    [state.portfolioDecisionLog]
+        ? portfolioDecisionLog.filter((e) => e.portfolioId === portfolioId)
+        : portfolioDecisionLog,
+    [portfolioDecisionLog]
   );
 
   const appendPortfolioDecision = useCallback(
-    (entry: Omit<PortfolioDecisionLogEntry, 'id' | 'decidedAt'>): PortfolioDecisionLogEntry => {
-      const now = new Date().toISOString();
-      const newEntry: PortfolioDecisionLogEntry = {
-        ...entry,
-        id: generateId(),
-        decidedAt: now,
-      };
-      setState((s) => ({
-        ...s,
-        portfolioDecisionLog: [...s.portfolioDecisionLog, newEntry],
-      }));
-      return newEntry;
-    },
-    []
+    (entry: Omit<PortfolioDecisionLogEntry, 'id' | 'decidedAt'>): Promise<PortfolioDecisionLogEntry> =>
+      appendDecisionAsync(entry),
+    [appendDecisionAsync]
   );
 
   const dismissWeeklyPrompt = useCallback((id: string) => {
     const now = new Date().toISOString();
-    setState((s) => ({
+    setLocalState((s) => ({
       ...s,
       weeklyReviewPrompts: s.weeklyReviewPrompts.map((p) =>
         p.id === id ? { ...p, dismissedAt: now } : p
@@ -265,7 +431,7 @@ export function MasterbookProvider({ children }: { children: React.ReactNode })
 
   const addWeeklyPrompt = useCallback((prompt: Omit<WeeklyReviewPrompt, 'id'>) => {
     const newPrompt: WeeklyReviewPrompt = { ...prompt, id: generateId() };
-    setState((s) => ({
+    setLocalState((s) => ({
       ...s,
       weeklyReviewPrompts: [...s.weeklyReviewPrompts, newPrompt],
     }));
@@ -273,7 +439,7 @@ export function MasterbookProvider({ children }: { children: React.ReactNode })
   }, []);
 
   const dismissInsight = useCallback((insightId: string) => {
-    setState((s) => ({
+    setLocalState((s) => ({
       ...s,
       dismissedInsights: s.dismissedInsights.includes(insightId)
         ? s.dismissedInsights
@@ -282,13 +448,16 @@ export function MasterbookProvider({ children }: { children: React.ReactNode })
   }, []);
 
   const isInsightDismissed = useCallback(
-    (insightId: string) => state.dismissedInsights.includes(insightId),
-    [state.dismissedInsights]
+    (insightId: string) => localState.dismissedInsights.includes(insightId),
+    [localState.dismissedInsights]
   );
 
   const value = useMemo<MasterbookContextType>(
     () => ({
-      ...state,
+      ...localState,
+      risks,
+      changeRequests,
+      portfolioDecisionLog,
       addRisk,
       updateRisk,
       removeRisk,
@@ -297,7 +466,10 @@ export function MasterbookProvider({ children }: { children: React.ReactNode })
       realizeRisk,
       addChangeRequest,
       updateChangeRequest,
-      addApproval,
+      submitChangeRequest,
+      decideChangeRequest,
+      implementChangeRequest,
+      revertChangeRequest,
       getChangeRequestsByProject,
       getPendingChangeRequests,
       getPortfolioDecisionLog,
@@ -308,7 +480,10 @@ export function MasterbookProvider({ children }: { children: React.ReactNode })
       isInsightDismissed,
     }),
     [
-      state,
+      localState,
+      risks,
+      changeRequests,
+      portfolioDecisionLog,
       addRisk,
       updateRisk,
       removeRisk,
@@ -317,7 +492,10 @@ export function MasterbookProvider({ children }: { children: React.ReactNode })
       realizeRisk,
       addChangeRequest,
       updateChangeRequest,
-      addApproval,
+      submitChangeRequest,
+      decideChangeRequest,
+      implementChangeRequest,
+      revertChangeRequest,
       getChangeRequestsByProject,
       getPendingChangeRequests,
       getPortfolioDecisionLog,
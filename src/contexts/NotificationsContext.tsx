@@ -44,6 +44,7 @@ function mapDbNotification(db: DbNotification): Notification {
     createdAt: new Date(db.created_at),
     projectId: db.project_id || undefined,
     taskId: db.task_id || undefined,
+    link: db.link || undefined,
   };
 }
 
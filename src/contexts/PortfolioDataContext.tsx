@@ -4,6 +4,7 @@ import { usePortfolios, useCreatePortfolio, useUpdatePortfolio, useDeletePortfol
 import { usePrograms, useCreateProgram, useUpdateProgram, useDeleteProgram, useArchiveProgram } from '@/hooks/usePrograms';
 import { useProjects, useCreateProject, useUpdateProject, useDeleteProject, useArchiveProject } from '@/hooks/useProjects';
 import { useTasks, useCreateTask, useUpdateTask, useDeleteTask, useCreateSubtask, useUpdateSubtask, useDeleteSubtask } from '@/hooks/useTasks';
+import { useTaskRecurrences, useCreateRecurringTask } from '@/hooks/useTaskRecurrences';
 import { useTeamMembers } from '@/hooks/useTeamMembers';
 import { useMilestones, useCreateMilestone, useUpdateMilestone, useDeleteMilestone } from '@/hooks/useMilestones';
 import { useContacts } from '@/hooks/useContacts';
@@ -76,6 +77,7 @@ export function PortfolioDataProvider({ children }: { children: React.ReactNode
   const { data: dbPrograms = [], isLoading: loadingPrograms } = usePrograms();
   const { data: dbProjects = [], isLoading: loadingProjects } = useProjects();
   const { data: dbTasks = [], isLoading: loadingTasks } = useTasks();
+  const { data: dbRecurrences = [] } = useTaskRecurrences();
   const { data: dbTeamMembers = [], isLoading: loadingTeamMembers } = useTeamMembers();
   const { data: dbMilestones = [], isLoading: loadingMilestones } = useMilestones();
   const { data: dbContacts = [], isLoading: loadingContacts } = useContacts();
@@ -96,6 +98,7 @@ export function PortfolioDataProvider({ children }: { children: React.ReactNode
   const archiveProjectMutation = useArchiveProject();
   
   const createTask = useCreateTask();
+  const createRecurringTask = useCreateRecurringTask();
   const updateTaskMutation = useUpdateTask();
   const deleteTaskMutation = useDeleteTask();
   const createSubtaskMutation = useCreateSubtask();
@@ -110,28 +113,45 @@ export function PortfolioDataProvider({ children }: { children: React.ReactNode
 
   // Convert database types to legacy types
   const tasks: Task[] = useMemo(() => {
-    return dbTasks.map(task => ({
-      id: task.id,
-      title: task.title,
-      description: task.description || '',
-      status: task.status,
-      priority: task.priority,
-      weight: task.weight,
-      estimatedHours: task.estimated_hours ?? 1,
-      actualCost: task.actual_cost ?? 0,
-      assigneeId: task.assignee_id || undefined,
-      startDate: task.start_date || undefined,
-      dueDate: task.due_date || undefined,
-      projectId: task.project_id,
-      milestoneId: task.milestone_id || undefined,
-      subtasks: (task.subtasks || []).map(s => ({
-        id: s.id,
-        title: s.title,
-        completed: s.completed,
-        assigneeId: s.assignee_id || undefined,
-      })),
-    }));
-  }, [dbTasks]);
+    const recurrenceById = new Map(dbRecurrences.map(r => [r.id, r]));
+    return dbTasks.map(task => {
+      const recurrence = task.recurrence_id ? recurrenceById.get(task.recurrence_id) : undefined;
+      return {
+        id: task.id,
+        title: task.title,
+        description: task.description || '',
+        status: task.status,
+        priority: task.priority,
+        weight: task.weight,
+        estimatedHours: task.estimated_hours ?? 1,
+        optimisticHours: task.optimistic_hours ?? undefined,
+        pessimisticHours: task.pessimistic_hours ?? undefined,
+        actualCost: task.actual_cost ?? 0,
+        actualHours: task.actual_hours ?? 0,
+        assigneeId: task.assignee_id || undefined,
+        startDate: task.start_date || undefined,
+        dueDate: task.due_date || undefined,
+        projectId: task.project_id,
+        milestoneId: task.milestone_id || undefined,
+        recurrenceId: task.recurrence_id || undefined,
+        recurrenceDate: task.recurrence_date || undefined,
+        recurrence: recurrence && {
+          rrule: recurrence.rrule,
+          mode: recurrence.mode,
+          leadDays: recurrence.lead_days,
+          dtstart: recurrence.dtstart,
+          endsOn: recurrence.ends_on || undefined,
+          exdates: recurrence.exdates,
+        },
+        subtasks: (task.subtasks || []).map(s => ({
+          id: s.id,
+          title: s.title,
+          completed: s.completed,
+          assigneeId: s.assignee_id || undefined,
+        })),
+      };
+    });
+  }, [dbTasks, dbRecurrences]);
 
   const milestones: Milestone[] = useMemo(() => {
     return dbMilestones.map(m => ({
@@ -168,6 +188,7 @@ export function PortfolioDataProvider({ children }: { children: React.ReactNode
       avatar: m.contacts?.avatar_url || undefined,
       allocation: m.allocation || 0,
       capacity: m.capacity,
+      hourlyRate: m.hourly_rate ?? 0,
       projectIds: projectAssignments[m.id] || [],
     }));
   }, [dbTeamMembers, dbTasks]);
@@ -376,7 +397,7 @@ export function PortfolioDataProvider({ children }: { children: React.ReactNode
 
   // Task operations
   const addTask = (data: Partial<Task>, projectId: string) => {
-    createTask.mutate({
+    const input = {
       title: data.title || '',
       description: data.description,
       project_id: projectId,
@@ -384,12 +405,19 @@ export function PortfolioDataProvider({ children }: { children: React.ReactNode
       priority: data.priority,
       weight: data.weight,
       estimated_hours: data.estimatedHours || 1,
+      optimistic_hours: data.optimisticHours,
+      pessimistic_hours: data.pessimisticHours,
       actual_cost: data.actualCost ?? 0,
       assignee_id: data.assigneeId,
       start_date: data.startDate,
       due_date: data.dueDate,
       milestone_id: data.milestoneId,
-    });
+    };
+    if (data.recurrence) {
+      createRecurringTask.mutate({ ...input, recurrence: data.recurrence });
+    } else {
+      createTask.mutate(input);
+    }
   };
 
   const updateTask = (id: string, data: Partial<Task>) => {
@@ -453,6 +481,8 @@ export function PortfolioDataProvider({ children }: { children: React.ReactNode
       if (taskData.priority !== undefined) updateData.priority = taskData.priority;
       if (taskData.weight !== undefined) updateData.weight = taskData.weight;
       if (taskData.estimatedHours !== undefined) updateData.estimated_hours = taskData.estimatedHours;
+      if ('optimisticHours' in taskData) updateData.optimistic_hours = taskData.optimisticHours ?? null;
+      if ('pessimisticHours' in taskData) updateData.pessimistic_hours = taskData.pessimisticHours ?? null;
       if (taskData.actualCost !== undefined) updateData.actual_cost = taskData.actualCost;
       // Explicitly handle assignee_id: if undefined, set to null to unassign
       if ('assigneeId' in taskData) {
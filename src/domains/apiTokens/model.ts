@@ -0,0 +1,18 @@
+import type { ApiTokenScope } from '@/domains/permissions/apiAccess';
+
+/** A personal access token for the public REST API. Only its hash is stored; the token is shown once. */
+export interface PersonalAccessToken {
+  id: string;
+  org_id: string;
+  user_id: string;
+  name: string;
+  /** Start of the token, to recognise it by */
+  token_prefix: string;
+  scope: ApiTokenScope;
+  /** Projects the token is limited to; null = every project */
+  project_ids: string[] | null;
+  expires_at: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
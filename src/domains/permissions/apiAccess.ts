@@ -0,0 +1,107 @@
+// Permissions domain: what a personal access token may do through the public REST API. Do not include UI or API calls.
+// Also imported by the api edge function (Deno), so imports in this folder carry the .ts extension.
+
+import type { OrgRole, ProjectRole } from './types.ts';
+import { defaultOrgRolePermissions } from './types.ts';
+import { canManageProjects, canManageTaskForUser } from './service.ts';
+
+export type ApiTokenScope = 'read' | 'write';
+
+export const API_RESOURCES = ['portfolios', 'programs', 'projects', 'tasks', 'milestones', 'contacts', 'time_entries'] as const;
+
+export type ApiResource = (typeof API_RESOURCES)[number];
+
+/** Org permission needed to read each resource */
+export const API_RESOURCE_PERMISSIONS: Record<ApiResource, string> = {
+  portfolios: 'view_portfolio',
+  programs: 'view_programs',
+  projects: 'view_projects',
+  tasks: 'view_projects',
+  milestones: 'view_projects',
+  contacts: 'view_projects',
+  time_entries: 'view_projects',
+};
+
+/** Budget and cost columns, returned only with view_budget */
+const BUDGET_FIELDS: Partial<Record<ApiResource, string[]>> = {
+  programs: ['budget', 'allocated_budget'],
+  projects: ['budget', 'allocated_budget', 'actual_cost'],
+  tasks: ['actual_cost'],
+  time_entries: ['hourly_rate'],
+};
+
+/** The token and the role of the user it belongs to, as of this request. */
+export interface ApiAccessContext {
+  orgRole: OrgRole;
+  scope: ApiTokenScope;
+  /** Projects the token is limited to; null when it is not limited */
+  projectIds: string[] | null;
+}
+
+export function hasOrgPermission(orgRole: OrgRole, permission: string): boolean {
+  return defaultOrgRolePermissions[orgRole]?.includes(permission) ?? false;
+}
+
+/**
+ * Whether the token may list and read the resource.
+ * Contacts belong to the org rather than a project, so project-limited tokens cannot read them.
+ */
+export function canReadApiResource(ctx: ApiAccessContext, resource: ApiResource): boolean {
+  if (!hasOrgPermission(ctx.orgRole, API_RESOURCE_PERMISSIONS[resource])) return false;
+  return !(resource === 'contacts' && ctx.projectIds);
+}
+
+/** Columns stripped from the resource's rows for this role. */
+export function apiHiddenFields(orgRole: OrgRole, resource: ApiResource): string[] {
+  const hidden = hasOrgPermission(orgRole, 'view_budget') ? [] : [...(BUDGET_FIELDS[resource] ?? [])];
+  if (resource === 'contacts' && !hasOrgPermission(orgRole, 'view_contact_emails')) hidden.push('email');
+  return hidden;
+}
+
+/** Everyone's time with view_resource_reports; otherwise only the user's own entries. */
+export function canReadAllTimeEntries(orgRole: OrgRole): boolean {
+  return hasOrgPermission(orgRole, 'view_resource_reports');
+}
+
+export function isProjectInApiScope(ctx: ApiAccessContext, projectId: string): boolean {
+  return !ctx.projectIds || ctx.projectIds.includes(projectId);
+}
+
+/** Map a project_members.role value to the ProjectRole used by permission checks. */
+export function projectRoleFromMembership(role: string | null | undefined): ProjectRole {
+  if (role === 'owner' || role === 'admin') return 'project-manager';
+  if (role === 'editor' || role === 'contributor') return 'contributor';
+  return 'viewer';
+}
+
+/** Creating tasks needs a write token and a role that can manage the project. */
+export function canCreateTaskViaApi(ctx: ApiAccessContext, projectId: string, projectRole: ProjectRole): boolean {
+  return ctx.scope === 'write' && isProjectInApiScope(ctx, projectId) && canManageProjects({ orgRole: ctx.orgRole, projectRole });
+}
+
+/** Updating a task follows the same rule as the Tasks page: assignees, project managers and org managers. */
+export function canUpdateTaskViaApi(
+  ctx: ApiAccessContext,
+  task: { project_id: string; assignee_id: string | null },
+  projectRole: ProjectRole,
+  currentTeamMemberId: string | null
+): boolean {
+  if (ctx.scope !== 'write' || ctx.orgRole === 'viewer' || !isProjectInApiScope(ctx, task.project_id)) return false;
+  return canManageTaskForUser({
+    orgRole: ctx.orgRole,
+    projectRole,
+    currentTeamMemberId: currentTeamMemberId ?? undefined,
+    taskAssigneeId: task.assignee_id,
+  });
+}
+
+/** Users log their own time; managers may log it for anyone (as in the time_entries policies). */
+export function canLogTimeViaApi(
+  ctx: ApiAccessContext,
+  projectId: string,
+  memberId: string,
+  currentTeamMemberId: string | null
+): boolean {
+  if (ctx.scope !== 'write' || ctx.orgRole === 'viewer' || !isProjectInApiScope(ctx, projectId)) return false;
+  return memberId === currentTeamMemberId || ['owner', 'admin', 'manager'].includes(ctx.orgRole);
+}
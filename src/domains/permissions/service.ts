@@ -7,13 +7,13 @@ import type {
   ProgramRole,
   PortfolioRole,
   PermissionContext,
-} from './types';
+} from './types.ts';
 import {
   defaultOrgRolePermissions,
   defaultProjectRolePermissions,
   defaultProgramRolePermissions,
   defaultPortfolioRolePermissions,
-} from './types';
+} from './types.ts';
 
 /**
  * Map a raw database role string to a safe OrgRole value.
@@ -0,0 +1,59 @@
+import type { CustomReportDefinition } from '@/lib/customReports';
+import type { ReportDateRange, ReportType } from '@/lib/reportData';
+
+export type ReportFormat = 'pdf' | 'csv' | 'xlsx';
+
+export type ReportRunStatus = 'sent' | 'partial' | 'failed' | 'skipped';
+
+/** A saved report emailed on a cron schedule (UTC). Managers only. */
+export interface ReportSubscription {
+  id: string;
+  org_id: string;
+  name: string;
+  /** Reports page tab the report was saved from */
+  report_type: ReportType;
+  /** Hierarchy filter; null = all */
+  portfolio_id: string | null;
+  program_id: string | null;
+  date_range: ReportDateRange;
+  format: ReportFormat;
+  recipients: string[];
+  cron_expression: string;
+  /** Null once the schedule has no further runs */
+  next_run_at: string | null;
+  is_active: boolean;
+  last_run_at: string | null;
+  last_status: ReportRunStatus | null;
+  last_error: string | null;
+  /** Reports are sent as this user, within their email rate limits */
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** One scheduled send: the delivery log. */
+export interface ReportSubscriptionRun {
+  id: string;
+  org_id: string;
+  subscription_id: string;
+  sender_id: string | null;
+  status: ReportRunStatus;
+  recipient_count: number;
+  sent_count: number;
+  /** Path in the Reports bucket; the file is removed after 24 hours */
+  file_path: string | null;
+  error: string | null;
+  created_at: string;
+}
+
+/** A report built on the Reports page, shared with the org. Managers edit them. */
+export interface CustomReport {
+  id: string;
+  org_id: string;
+  name: string;
+  description: string | null;
+  definition: CustomReportDefinition;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
@@ -9,6 +9,13 @@ export interface ScheduleBlock {
   end_utc: string;
   source_type: ScheduleBlockSourceType;
   source_id: string | null;
+  /** Set on events imported from an .ics file; such blocks are busy time */
+  calendar_connection_id?: string | null;
+  /** UID of the imported event (plus ":yyyy-MM-dd" for occurrences of recurring events) */
+  external_uid?: string | null;
+  /** Blocks created over CalDAV: the event's UID and the resource name the calendar app chose */
+  ical_uid?: string | null;
+  caldav_href?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -29,3 +36,56 @@ export interface ScheduleBlockUpdate {
   start_utc?: string;
   end_utc?: string;
 }
+
+export type CalendarConnectionKind = 'ics_feed' | 'ics_import' | 'caldav';
+
+/** A user's subscribable ICS feed, an .ics file imported as a team member's busy time, or a CalDAV app password. */
+export interface CalendarConnection {
+  id: string;
+  org_id: string;
+  user_id: string;
+  provider: string;
+  kind: CalendarConnectionKind;
+  name: string | null;
+  feed_nonce: string;
+  include_tasks: boolean;
+  include_milestones: boolean;
+  include_blocks: boolean;
+  assignee_id: string | null;
+  /** Feeds and CalDAV: last use by a calendar app. Imports: last import. */
+  last_synced_at: string | null;
+  event_count: number;
+  /** CalDAV: SHA-256 of the app password */
+  token_hash: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ScheduleBaselineScopeType = 'project' | 'program';
+export type ScheduleBaselineItemType = 'program' | 'project' | 'task' | 'milestone';
+
+/** A named, frozen snapshot of a project's or program's plan. */
+export interface ScheduleBaseline {
+  id: string;
+  org_id: string;
+  scope_type: ScheduleBaselineScopeType;
+  scope_id: string;
+  name: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface ScheduleBaselineItem {
+  id: string;
+  baseline_id: string;
+  org_id: string;
+  item_type: ScheduleBaselineItemType;
+  item_id: string;
+  /** Containing project (tasks, milestones) or program (projects) */
+  parent_id: string | null;
+  name: string;
+  start_date: string | null;
+  due_date: string | null;
+  estimated_hours: number | null;
+  budget: number | null;
+}
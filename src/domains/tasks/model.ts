@@ -9,17 +9,51 @@ export interface Task {
   priority: 'low' | 'medium' | 'high';
   weight: number;
   estimated_hours: number;
+  /** Three-point estimate around estimated_hours (most likely); both null for a single-point estimate */
+  optimistic_hours?: number | null;
+  pessimistic_hours?: number | null;
   actual_cost: number | null;
+  /** Approved hours from time entries */
+  actual_hours?: number;
   assignee_id: string | null;
   start_date: string | null;
   due_date: string | null;
   project_id: string;
   milestone_id: string | null;
+  /** Series this task was generated from */
+  recurrence_id?: string | null;
+  /** Occurrence (yyyy-MM-dd) this task was generated for */
+  recurrence_date?: string | null;
   org_id: string;
   created_at: string;
   updated_at: string;
 }
 
+/** A recurring task series: the RRULE plus the template each instance is created from. */
+export interface TaskRecurrence {
+  id: string;
+  org_id: string;
+  project_id: string;
+  rrule: string;
+  dtstart: string;
+  ends_on: string | null;
+  mode: 'on_complete' | 'schedule';
+  lead_days: number;
+  exdates: string[];
+  title: string;
+  description: string | null;
+  priority: Task['priority'];
+  weight: number;
+  estimated_hours: number;
+  assignee_id: string | null;
+  milestone_id: string | null;
+  /** Days from start to due; null when instances have no start date */
+  duration_days: number | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Subtask {
   id: string;
   title: string;
@@ -1,6 +1,7 @@
 // Tasks domain: task-related business logic lives here. Do not include UI or API calls.
 
-import type { Task } from './model';
+import { addDaysToKey } from '@/lib/recurrence';
+import type { Task, TaskRecurrence } from './model';
 
 export type NewTaskInput = {
   title: string;
@@ -10,6 +11,8 @@ export type NewTaskInput = {
   priority?: Task['priority'];
   weight?: number;
   estimated_hours?: number;
+  optimistic_hours?: number | null;
+  pessimistic_hours?: number | null;
   actual_cost?: number;
   assignee_id?: string;
   start_date?: string;
@@ -25,6 +28,8 @@ export interface NewTaskPayload {
   priority: Task['priority'];
   weight: number;
   estimated_hours: number;
+  optimistic_hours: number | null;
+  pessimistic_hours: number | null;
   actual_cost: number;
   assignee_id: string | null;
   start_date: string | null;
@@ -47,6 +52,8 @@ export function buildNewTaskPayload(input: NewTaskInput, orgId: string): NewTask
     priority: input.priority ?? 'medium',
     weight: input.weight ?? 1,
     estimated_hours: input.estimated_hours ?? 1,
+    optimistic_hours: input.optimistic_hours ?? null,
+    pessimistic_hours: input.pessimistic_hours ?? null,
     actual_cost: input.actual_cost ?? 0,
     assignee_id: input.assignee_id ?? null,
     start_date: input.start_date ?? null,
@@ -55,3 +62,38 @@ export function buildNewTaskPayload(input: NewTaskInput, orgId: string): NewTask
     org_id: orgId,
   };
 }
+
+export interface RecurringInstancePayload extends NewTaskPayload {
+  recurrence_id: string;
+  recurrence_date: string;
+}
+
+/**
+ * Build the task row for one occurrence of a recurring series. The occurrence is the
+ * due date; the start date keeps the template's distance from it.
+ */
+export function buildRecurringInstancePayload(
+  series: Pick<TaskRecurrence, 'id' | 'project_id' | 'title' | 'description' | 'priority' | 'weight' | 'estimated_hours' | 'assignee_id' | 'milestone_id' | 'duration_days'>,
+  occurrence: string,
+  orgId: string
+): RecurringInstancePayload {
+  return {
+    ...buildNewTaskPayload(
+      {
+        title: series.title,
+        description: series.description ?? undefined,
+        project_id: series.project_id,
+        priority: series.priority,
+        weight: series.weight,
+        estimated_hours: series.estimated_hours,
+        assignee_id: series.assignee_id ?? undefined,
+        start_date: series.duration_days === null ? undefined : addDaysToKey(occurrence, -series.duration_days),
+        due_date: occurrence,
+        milestone_id: series.milestone_id ?? undefined,
+      },
+      orgId
+    ),
+    recurrence_id: series.id,
+    recurrence_date: occurrence,
+  };
+}
@@ -0,0 +1,31 @@
+export type TimeEntryStatus = 'draft' | 'submitted' | 'approved' | 'rejected';
+
+/** Hours a team member logged against a task on one day. */
+export interface TimeEntry {
+  id: string;
+  org_id: string;
+  member_id: string;
+  task_id: string;
+  /** Copied from the task by the database */
+  project_id: string;
+  /** yyyy-MM-dd */
+  entry_date: string;
+  hours: number;
+  notes: string | null;
+  /** Set while a timer is running on this entry */
+  timer_started_at: string | null;
+  status: TimeEntryStatus;
+  /** Member rate frozen on approval */
+  hourly_rate: number | null;
+  submitted_at: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Entries that can still be changed by the member who logged them. */
+export const isEditableTimeEntry = (entry: Pick<TimeEntry, 'status'>) =>
+  entry.status === 'draft' || entry.status === 'rejected';
@@ -0,0 +1,43 @@
+import type { ActivityType } from '@/lib/activityLogger';
+
+/** An org's HTTPS endpoint and the events it receives. Managers only: the secret is readable. */
+export interface WebhookSubscription {
+  id: string;
+  org_id: string;
+  name: string;
+  url: string;
+  event_types: ActivityType[];
+  /** HMAC key for the Webhook-Signature header */
+  secret: string;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivering' | 'succeeded' | 'failed';
+
+/** One event sent to one subscription: the delivery queue and its log. */
+export interface WebhookDelivery {
+  id: string;
+  org_id: string;
+  subscription_id: string;
+  /** Same for every delivery and replay of the event */
+  event_id: string;
+  /** An ActivityType, or 'ping' for test events */
+  event_type: string;
+  payload: unknown;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** When a pending delivery is (re)tried */
+  next_attempt_at: string;
+  last_attempt_at: string | null;
+  response_status: number | null;
+  /** Start of the endpoint's response */
+  response_body: string | null;
+  error: string | null;
+  delivered_at: string | null;
+  /** Set on replays: the delivery they repeat */
+  replay_of: string | null;
+  created_at: string;
+}
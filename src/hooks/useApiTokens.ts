@@ -0,0 +1,78 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import type { PersonalAccessToken } from '@/domains/apiTokens/model';
+
+export interface CreateApiTokenInput {
+  name: string;
+  scope: PersonalAccessToken['scope'];
+  project_ids: string[] | null;
+  expires_at: string | null;
+}
+
+const TOKEN_COLUMNS = 'id, org_id, user_id, name, token_prefix, scope, project_ids, expires_at, last_used_at, revoked_at, created_at';
+
+/** The user's tokens; admins also get everyone else's in the org. Newest first. */
+export function useApiTokens() {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: ['personal_access_tokens', organization?.id],
+    queryFn: async () => {
+      if (!organization?.id) return [];
+
+      const { data, error } = await supabase
+        .from('personal_access_tokens')
+        .select(TOKEN_COLUMNS)
+        .eq('org_id', organization.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as PersonalAccessToken[];
+    },
+    enabled: !!organization?.id,
+  });
+}
+
+/** Returns the new token; it can't be read again. */
+export function useCreateApiToken() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: CreateApiTokenInput) => {
+      const { data, error } = await supabase.rpc('create_personal_access_token', {
+        _name: input.name,
+        _scope: input.scope,
+        _project_ids: input.project_ids ?? undefined,
+        _expires_at: input.expires_at ?? undefined,
+      });
+      if (error) throw error;
+      return data as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['personal_access_tokens'] });
+    },
+    onError: (error) => {
+      toast.error('Failed to create token: ' + error.message);
+    },
+  });
+}
+
+export function useRevokeApiToken() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (tokenId: string) => {
+      const { error } = await supabase.rpc('revoke_personal_access_token', { _token_id: tokenId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['personal_access_tokens'] });
+      toast.success('Token revoked');
+    },
+    onError: (error) => {
+      toast.error('Failed to revoke token: ' + error.message);
+    },
+  });
+}
@@ -0,0 +1,161 @@
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import type { ApprovalDelegation, ApprovalInboxItem } from '@/types/masterbook';
+
+export interface ApprovalDelegationRow {
+  id: string;
+  org_id: string;
+  delegator_id: string;
+  delegate_id: string;
+  starts_on: string;
+  ends_on: string;
+  reason: string | null;
+  created_at: string;
+}
+
+function toDelegation(row: ApprovalDelegationRow): ApprovalDelegation {
+  return {
+    id: row.id,
+    delegatorId: row.delegator_id,
+    delegateId: row.delegate_id,
+    startsOn: row.starts_on,
+    endsOn: row.ends_on,
+    reason: row.reason ?? undefined,
+  };
+}
+
+/**
+ * Approval stages waiting for the current user's decision, including stages of approvers who delegated to them.
+ * Refreshes when any approval step or delegation in the org changes.
+ */
+export function useApprovalInbox() {
+  const { organization, user } = useAuth();
+  const queryClient = useQueryClient();
+  const orgId = organization?.id;
+
+  useEffect(() => {
+    if (!orgId) return;
+
+    const invalidate = () => queryClient.invalidateQueries({ queryKey: ['approval_inbox', orgId] });
+    const channel = supabase
+      .channel(`realtime:approval_inbox:${orgId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'change_request_approval_steps', filter: `org_id=eq.${orgId}` }, invalidate)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'approval_delegations', filter: `org_id=eq.${orgId}` }, invalidate)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [orgId, queryClient]);
+
+  return useQuery({
+    queryKey: ['approval_inbox', orgId, user?.id],
+    queryFn: async (): Promise<ApprovalInboxItem[]> => {
+      if (!orgId) return [];
+
+      const { data, error } = await supabase.rpc('get_approval_inbox');
+      if (error) throw error;
+      return (data || [])
+        .map((row) => ({
+          stepId: row.step_id,
+          changeRequestId: row.change_request_id,
+          stepName: row.step_name,
+          stepPosition: row.step_position,
+          requiredApprovals: row.required_approvals,
+          approvalCount: row.approval_count,
+          activatedAt: row.activated_at ?? undefined,
+          onBehalfOf: row.on_behalf_of ?? undefined,
+        }))
+        .sort((a, b) => (a.activatedAt ?? '').localeCompare(b.activatedAt ?? ''));
+    },
+    enabled: !!orgId && !!user?.id,
+  });
+}
+
+/** Out-of-office delegations the current user gave or received. */
+export function useApprovalDelegations() {
+  const { organization, user } = useAuth();
+  const queryClient = useQueryClient();
+  const orgId = organization?.id;
+
+  useEffect(() => {
+    if (!orgId) return;
+
+    const invalidate = () => queryClient.invalidateQueries({ queryKey: ['approval_delegations', orgId] });
+    const channel = supabase
+      .channel(`realtime:approval_delegations:${orgId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'approval_delegations', filter: `org_id=eq.${orgId}` }, invalidate)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [orgId, queryClient]);
+
+  return useQuery({
+    queryKey: ['approval_delegations', orgId, user?.id],
+    queryFn: async () => {
+      if (!orgId || !user?.id) return [];
+
+      const { data, error } = await supabase
+        .from('approval_delegations')
+        .select('*')
+        .eq('org_id', orgId)
+        .or(`delegator_id.eq.${user.id},delegate_id.eq.${user.id}`)
+        .order('starts_on', { ascending: true });
+
+      if (error) throw error;
+      return ((data || []) as ApprovalDelegationRow[]).map(toDelegation);
+    },
+    enabled: !!orgId && !!user?.id,
+  });
+}
+
+export function useCreateApprovalDelegation() {
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
+
+  return useMutation({
+    mutationFn: async (delegation: Omit<ApprovalDelegation, 'id' | 'delegatorId'>) => {
+      if (!organization?.id) throw new Error('No organization');
+
+      const { error } = await supabase.from('approval_delegations').insert({
+        org_id: organization.id,
+        delegate_id: delegation.delegateId,
+        starts_on: delegation.startsOn,
+        ends_on: delegation.endsOn,
+        reason: delegation.reason ?? null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['approval_delegations'] });
+      queryClient.invalidateQueries({ queryKey: ['approval_inbox'] });
+      toast.success('Delegation added');
+    },
+    onError: (error) => {
+      toast.error('Failed to add delegation: ' + error.message);
+    },
+  });
+}
+
+export function useDeleteApprovalDelegation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('approval_delegations').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['approval_delegations'] });
+      queryClient.invalidateQueries({ queryKey: ['approval_inbox'] });
+    },
+    onError: (error) => {
+      toast.error('Failed to remove delegation: ' + error.message);
+    },
+  });
+}
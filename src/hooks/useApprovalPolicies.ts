@@ -0,0 +1,168 @@
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import type { ApprovalPolicy, ApprovalPolicyStage } from '@/types/masterbook';
+
+export interface ApprovalPolicyStageRow {
+  id: string;
+  org_id: string;
+  policy_id: string;
+  position: number;
+  name: string;
+  approver_source: ApprovalPolicyStage['approverSource'];
+  approver_ids: string[];
+  required_approvals: number;
+  min_schedule_impact_days: number | null;
+  min_budget_impact: number | null;
+  reminder_hours: number;
+  created_at: string;
+}
+
+export interface ApprovalPolicyRow {
+  id: string;
+  org_id: string;
+  name: string;
+  scope_type: ApprovalPolicy['scopeType'];
+  scope_id: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  approval_policy_stages?: ApprovalPolicyStageRow[];
+}
+
+export type ApprovalPolicyInput = Pick<ApprovalPolicy, 'name' | 'scopeType' | 'scopeId' | 'isActive' | 'stages'> & {
+  id?: string;
+};
+
+function toStage(row: ApprovalPolicyStageRow): ApprovalPolicyStage {
+  return {
+    id: row.id,
+    name: row.name,
+    approverSource: row.approver_source,
+    approverIds: row.approver_ids ?? [],
+    requiredApprovals: row.required_approvals,
+    minScheduleImpactDays: row.min_schedule_impact_days ?? undefined,
+    minBudgetImpact: row.min_budget_impact ?? undefined,
+    reminderHours: row.reminder_hours,
+  };
+}
+
+export function toApprovalPolicy(row: ApprovalPolicyRow): ApprovalPolicy {
+  return {
+    id: row.id,
+    name: row.name,
+    scopeType: row.scope_type,
+    scopeId: row.scope_id ?? undefined,
+    isActive: row.is_active,
+    stages: (row.approval_policy_stages ?? [])
+      .slice()
+      .sort((a, b) => a.position - b.position)
+      .map(toStage),
+    orgId: row.org_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/** Approval policies for the org, with their stages in chain order. */
+export function useApprovalPolicies() {
+  const { organization } = useAuth();
+  const queryClient = useQueryClient();
+  const orgId = organization?.id;
+
+  useEffect(() => {
+    if (!orgId) return;
+
+    const invalidate = () => queryClient.invalidateQueries({ queryKey: ['approval_policies', orgId] });
+    const channel = supabase
+      .channel(`realtime:approval_policies:${orgId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'approval_policies', filter: `org_id=eq.${orgId}` }, invalidate)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [orgId, queryClient]);
+
+  return useQuery({
+    queryKey: ['approval_policies', orgId],
+    queryFn: async () => {
+      if (!orgId) return [];
+
+      const { data, error } = await supabase
+        .from('approval_policies')
+        .select(`
+          *,
+          approval_policy_stages (*)
+        `)
+        .eq('org_id', orgId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return ((data || []) as unknown as ApprovalPolicyRow[]).map(toApprovalPolicy);
+    },
+    enabled: !!orgId,
+  });
+}
+
+/** Creates or updates a policy and replaces its stages (one transaction). */
+export function useSaveApprovalPolicy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (policy: ApprovalPolicyInput) => {
+      const { data, error } = await supabase.rpc('save_approval_policy', {
+        _policy_id: policy.id,
+        _name: policy.name,
+        _scope_type: policy.scopeType,
+        _scope_id: policy.scopeType === 'org' ? undefined : policy.scopeId,
+        _is_active: policy.isActive,
+        _stages: policy.stages.map((stage) => ({
+          name: stage.name,
+          approverSource: stage.approverSource,
+          approverIds: stage.approverSource === 'users' ? stage.approverIds : [],
+          requiredApprovals: stage.requiredApprovals,
+          minScheduleImpactDays: stage.minScheduleImpactDays ?? null,
+          minBudgetImpact: stage.minBudgetImpact ?? null,
+          reminderHours: stage.reminderHours,
+        })),
+      });
+      if (error) {
+        if (error.message.includes('idx_approval_policies_active_scope')) {
+          throw new Error('Another active policy already covers this scope');
+        }
+        if (error.message.startsWith('invalid_stage')) throw new Error(error.message.split(': ').slice(1).join(': '));
+        throw error;
+      }
+      return data as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['approval_policies'] });
+      toast.success('Approval policy saved');
+    },
+    onError: (error) => {
+      toast.error('Failed to save approval policy: ' + error.message);
+    },
+  });
+}
+
+export function useDeleteApprovalPolicy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('approval_policies').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['approval_policies'] });
+      toast.success('Approval policy deleted');
+    },
+    onError: (error) => {
+      toast.error('Failed to delete approval policy: ' + error.message);
+    },
+  });
+}
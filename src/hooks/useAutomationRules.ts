@@ -0,0 +1,277 @@
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import type { Json } from '@/integrations/supabase/types';
+import type {
+  AutomationAction,
+  AutomationActionResult,
+  AutomationCondition,
+  AutomationRule,
+  AutomationRun,
+} from '@/types/masterbook';
+
+export interface AutomationRuleRow {
+  id: string;
+  org_id: string;
+  name: string;
+  description: string | null;
+  project_id: string | null;
+  trigger_type: AutomationRule['triggerType'];
+  trigger_config: { from_status?: string; to_status?: string } | null;
+  conditions: AutomationCondition[] | null;
+  actions: Record<string, unknown>[] | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AutomationRunRow {
+  id: string;
+  org_id: string;
+  rule_id: string | null;
+  rule_name: string;
+  trigger_type: AutomationRun['triggerType'];
+  entity_type: AutomationRun['entityType'];
+  entity_id: string;
+  entity_title: string | null;
+  project_id: string | null;
+  status: AutomationRun['status'];
+  action_results: AutomationActionResult[] | null;
+  detail: string | null;
+  depth: number;
+  created_at: string;
+}
+
+export type AutomationRuleInput = Omit<AutomationRule, 'id' | 'orgId' | 'createdAt' | 'updatedAt'> & { id?: string };
+
+/** Actions are stored with the engine's snake_case keys */
+function toAction(row: Record<string, unknown>): AutomationAction {
+  const { member_id, due_in_days, link_blocker, ...rest } = row;
+  return {
+    ...rest,
+    ...(member_id ? { memberId: member_id as string } : {}),
+    ...(due_in_days !== undefined && due_in_days !== null ? { dueInDays: Number(due_in_days) } : {}),
+    ...(link_blocker ? { linkBlocker: true } : {}),
+  } as AutomationAction;
+}
+
+function toActionRow(action: AutomationAction): Record<string, unknown> {
+  switch (action.type) {
+    case 'assign_task':
+      return {
+        type: action.type,
+        assignee: action.assignee,
+        ...(action.assignee === 'member' ? { member_id: action.memberId } : {}),
+      };
+    case 'create_task':
+      return {
+        type: action.type,
+        title: action.title.trim(),
+        ...(action.description?.trim() ? { description: action.description.trim() } : {}),
+        priority: action.priority ?? 'medium',
+        ...(action.assignee && action.assignee !== 'unassign' ? { assignee: action.assignee } : {}),
+        ...(action.assignee === 'member' ? { member_id: action.memberId } : {}),
+        ...(action.dueInDays !== undefined ? { due_in_days: action.dueInDays } : {}),
+        ...(action.linkBlocker ? { link_blocker: true } : {}),
+      };
+    case 'notify':
+      return {
+        type: action.type,
+        recipients: action.recipients,
+        title: action.title.trim(),
+        ...(action.message?.trim() ? { message: action.message.trim() } : {}),
+      };
+    default:
+      return { ...action };
+  }
+}
+
+export function toAutomationRule(row: AutomationRuleRow): AutomationRule {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    projectId: row.project_id ?? undefined,
+    triggerType: row.trigger_type,
+    fromStatus: row.trigger_config?.from_status ?? undefined,
+    toStatus: row.trigger_config?.to_status ?? undefined,
+    conditions: row.conditions ?? [],
+    actions: (row.actions ?? []).map(toAction),
+    isActive: row.is_active,
+    orgId: row.org_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function toAutomationRun(row: AutomationRunRow): AutomationRun {
+  return {
+    id: row.id,
+    ruleId: row.rule_id ?? undefined,
+    ruleName: row.rule_name,
+    triggerType: row.trigger_type,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    entityTitle: row.entity_title ?? undefined,
+    projectId: row.project_id ?? undefined,
+    status: row.status,
+    actionResults: row.action_results ?? [],
+    detail: row.detail ?? undefined,
+    depth: row.depth,
+    createdAt: row.created_at,
+  };
+}
+
+/** Automation rules for the org, oldest first (the order they run in). */
+export function useAutomationRules() {
+  const { organization } = useAuth();
+  const queryClient = useQueryClient();
+  const orgId = organization?.id;
+
+  useEffect(() => {
+    if (!orgId) return;
+
+    const invalidate = () => queryClient.invalidateQueries({ queryKey: ['automation_rules', orgId] });
+    const channel = supabase
+      .channel(`realtime:automation_rules:${orgId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'automation_rules', filter: `org_id=eq.${orgId}` }, invalidate)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [orgId, queryClient]);
+
+  return useQuery({
+    queryKey: ['automation_rules', orgId],
+    queryFn: async () => {
+      if (!orgId) return [];
+
+      const { data, error } = await supabase
+        .from('automation_rules')
+        .select('*')
+        .eq('org_id', orgId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return ((data || []) as unknown as AutomationRuleRow[]).map(toAutomationRule);
+    },
+    enabled: !!orgId,
+  });
+}
+
+export function useSaveAutomationRule() {
+  const { organization } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (rule: AutomationRuleInput) => {
+      if (!organization?.id) throw new Error('No organization');
+
+      const payload = {
+        org_id: organization.id,
+        name: rule.name.trim(),
+        description: rule.description?.trim() || null,
+        project_id: rule.projectId ?? null,
+        trigger_type: rule.triggerType,
+        trigger_config: {
+          ...(rule.fromStatus ? { from_status: rule.fromStatus } : {}),
+          ...(rule.toStatus ? { to_status: rule.toStatus } : {}),
+        },
+        conditions: rule.conditions as unknown as Json,
+        actions: rule.actions.map(toActionRow) as unknown as Json,
+        is_active: rule.isActive,
+      };
+
+      const { error } = rule.id
+        ? await supabase.from('automation_rules').update(payload).eq('id', rule.id)
+        : await supabase.from('automation_rules').insert(payload);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['automation_rules'] });
+      toast.success('Automation saved');
+    },
+    onError: (error) => {
+      toast.error('Failed to save automation: ' + error.message);
+    },
+  });
+}
+
+/** Switches a rule on or off without opening the builder. */
+export function useToggleAutomationRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const { error } = await supabase.from('automation_rules').update({ is_active: isActive }).eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['automation_rules'] });
+    },
+    onError: (error) => {
+      toast.error('Failed to update automation: ' + error.message);
+    },
+  });
+}
+
+export function useDeleteAutomationRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('automation_rules').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['automation_rules'] });
+      toast.success('Automation deleted');
+    },
+    onError: (error) => {
+      toast.error('Failed to delete automation: ' + error.message);
+    },
+  });
+}
+
+/** Execution log: the latest runs across all rules, newest first. */
+export function useAutomationRuns(limit = 100) {
+  const { organization } = useAuth();
+  const queryClient = useQueryClient();
+  const orgId = organization?.id;
+
+  useEffect(() => {
+    if (!orgId) return;
+
+    const invalidate = () => queryClient.invalidateQueries({ queryKey: ['automation_runs', orgId] });
+    const channel = supabase
+      .channel(`realtime:automation_runs:${orgId}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'automation_runs', filter: `org_id=eq.${orgId}` }, invalidate)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [orgId, queryClient]);
+
+  return useQuery({
+    queryKey: ['automation_runs', orgId, limit],
+    queryFn: async () => {
+      if (!orgId) return [];
+
+      const { data, error } = await supabase
+        .from('automation_runs')
+        .select('*')
+        .eq('org_id', orgId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return ((data || []) as unknown as AutomationRunRow[]).map(toAutomationRun);
+    },
+    enabled: !!orgId,
+  });
+}
@@ -0,0 +1,227 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { parseIcs } from '@/lib/ics';
+import { icsEventsToBlocks } from '@/lib/icsImport';
+import type { CalendarConnection } from '@/domains/schedule/model';
+
+// Rows per schedule_blocks upsert / delete request
+const BATCH_SIZE = 500;
+
+/** The signed-in user's feed, CalDAV password and imports (connections are private to their owner). */
+export function useCalendarConnections() {
+  const { organization, user } = useAuth();
+
+  return useQuery({
+    queryKey: ['calendar_connections', organization?.id, user?.id],
+    queryFn: async () => {
+      if (!organization?.id || !user?.id) return [];
+
+      const { data, error } = await supabase
+        .from('calendar_connections')
+        .select('*')
+        .eq('org_id', organization.id)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as CalendarConnection[];
+    },
+    enabled: !!organization?.id && !!user?.id,
+  });
+}
+
+async function requestFeedUrl(action: 'issue' | 'rotate'): Promise<{ id: string; url: string }> {
+  const { data, error } = await supabase.functions.invoke('calendar-feed', { body: { action } });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data as { id: string; url: string };
+}
+
+/** Subscription URL of an existing feed. The signature is computed server-side, so it's fetched rather than stored. */
+export function useCalendarFeedUrl(feed: CalendarConnection | undefined) {
+  return useQuery({
+    queryKey: ['calendar_feed_url', feed?.id, feed?.feed_nonce],
+    queryFn: async () => (await requestFeedUrl('issue')).url,
+    enabled: !!feed,
+    staleTime: Infinity,
+  });
+}
+
+/** Creates the user's feed ('issue') or replaces its URL so old subscriptions stop working ('rotate'). */
+export function useIssueCalendarFeed() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: requestFeedUrl,
+    onSuccess: (_data, action) => {
+      queryClient.invalidateQueries({ queryKey: ['calendar_connections'], exact: false });
+      queryClient.invalidateQueries({ queryKey: ['calendar_feed_url'], exact: false });
+      toast.success(action === 'rotate' ? 'New feed URL created – update your calendar subscriptions' : 'Calendar feed created');
+    },
+    onError: (error) => {
+      toast.error('Failed to set up calendar feed: ' + error.message);
+    },
+  });
+}
+
+export function useUpdateCalendarFeed() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...updates }: Pick<CalendarConnection, 'id'> & Partial<Pick<CalendarConnection, 'name' | 'include_tasks' | 'include_milestones' | 'include_blocks'>>) => {
+      const { error } = await supabase
+        .from('calendar_connections')
+        .update(updates)
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar_connections'], exact: false });
+    },
+    onError: (error) => {
+      toast.error('Failed to update calendar feed: ' + error.message);
+    },
+  });
+}
+
+export interface CalDavCredentials {
+  url: string;
+  username: string;
+  password: string;
+}
+
+/** Creates or replaces the user's CalDAV app password. The password is only ever returned here. */
+export function useIssueCalDavPassword() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.functions.invoke('caldav', { body: {} });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      return data as CalDavCredentials;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar_connections'], exact: false });
+    },
+    onError: (error) => {
+      toast.error('Failed to create app password: ' + error.message);
+    },
+  });
+}
+
+/**
+ * Imports an .ics file as busy time for a team member. Importing again into the same
+ * connection updates its blocks in place and removes events no longer in the file.
+ */
+export function useImportIcsCalendar() {
+  const queryClient = useQueryClient();
+  const { organization, user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ text, name, assigneeId, connectionId }: {
+      text: string;
+      name: string;
+      assigneeId: string;
+      /** Existing import to replace */
+      connectionId?: string;
+    }) => {
+      if (!organization?.id || !user?.id) throw new Error('No organization');
+
+      const result = icsEventsToBlocks(parseIcs(text));
+
+      const connectionFields = {
+        name,
+        assignee_id: assigneeId,
+        last_synced_at: new Date().toISOString(),
+        event_count: result.blocks.length,
+      };
+      const { data: connection, error: connectionError } = connectionId
+        ? await supabase
+          .from('calendar_connections')
+          .update(connectionFields)
+          .eq('id', connectionId)
+          .select()
+          .single()
+        : await supabase
+          .from('calendar_connections')
+          .insert({ ...connectionFields, org_id: organization.id, user_id: user.id, kind: 'ics_import', provider: 'ics' })
+          .select()
+          .single();
+
+      if (connectionError) throw connectionError;
+
+      const payloads = result.blocks.map((block) => ({
+        org_id: organization.id,
+        assignee_id: assigneeId,
+        title: block.title,
+        start_utc: block.startUtc,
+        end_utc: block.endUtc,
+        source_type: 'manual',
+        calendar_connection_id: connection.id,
+        external_uid: block.externalUid,
+      }));
+      for (let i = 0; i < payloads.length; i += BATCH_SIZE) {
+        const { error } = await supabase
+          .from('schedule_blocks')
+          .upsert(payloads.slice(i, i + BATCH_SIZE), { onConflict: 'calendar_connection_id,external_uid' });
+        if (error) throw error;
+      }
+
+      // Events that were removed from the calendar since the last import
+      const { data: existing, error: existingError } = await supabase
+        .from('schedule_blocks')
+        .select('id, external_uid')
+        .eq('calendar_connection_id', connection.id);
+
+      if (existingError) throw existingError;
+      const keep = new Set(result.blocks.map((b) => b.externalUid));
+      const stale = (existing || []).filter((b) => !b.external_uid || !keep.has(b.external_uid)).map((b) => b.id);
+      for (let i = 0; i < stale.length; i += BATCH_SIZE) {
+        const { error } = await supabase
+          .from('schedule_blocks')
+          .delete()
+          .in('id', stale.slice(i, i + BATCH_SIZE));
+        if (error) throw error;
+      }
+
+      return { ...result, removed: stale.length };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['calendar_connections'], exact: false });
+      queryClient.invalidateQueries({ queryKey: ['schedule_blocks'], exact: false });
+      toast.success(`Imported ${result.blocks.length} event${result.blocks.length === 1 ? '' : 's'} as busy time`);
+      for (const warning of result.warnings) toast.warning(warning);
+    },
+    onError: (error) => {
+      toast.error('Failed to import calendar: ' + error.message);
+    },
+  });
+}
+
+/** Deletes a feed (its URL stops working), a CalDAV app password, or an import together with its blocks. */
+export function useDeleteCalendarConnection() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('calendar_connections')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar_connections'], exact: false });
+      queryClient.invalidateQueries({ queryKey: ['calendar_feed_url'], exact: false });
+      queryClient.invalidateQueries({ queryKey: ['schedule_blocks'], exact: false });
+    },
+    onError: (error) => {
+      toast.error('Failed to remove calendar: ' + error.message);
+    },
+  });
+}
@@ -0,0 +1,62 @@
+/**
+ * Change request impact analysis on live data – see src/lib/changeImpact.ts.
+ */
+
+import { useCallback, useMemo } from 'react';
+import { usePortfolioData } from '@/contexts/PortfolioDataContext';
+import { useTaskDependencyIds } from '@/hooks/useTaskDependencies';
+import { useWorkingCalendar } from '@/hooks/useWorkingCalendar';
+import { getStoredWeights } from '@/lib/allocationCalculator';
+import { analyzeChangeImpact, type ImpactTask } from '@/lib/changeImpact';
+import type { ChangeRequestImpactSummary, ChangeRequestItem, ChangeRequestType } from '@/types/masterbook';
+
+export function useChangeImpact() {
+  const { tasks, milestones, teamMembers } = usePortfolioData();
+  const { edges } = useTaskDependencyIds();
+  const { calendar } = useWorkingCalendar();
+
+  const impactTasks = useMemo<ImpactTask[]>(
+    () =>
+      (tasks ?? []).map((t) => ({
+        id: t.id,
+        title: t.title,
+        projectId: t.projectId,
+        estimatedHours: t.estimatedHours ?? 0,
+        startDate: t.startDate ?? undefined,
+        dueDate: t.dueDate ?? undefined,
+        assigneeId: t.assigneeId ?? undefined,
+        milestoneId: t.milestoneId ?? undefined,
+        status: t.status,
+        priority: t.priority,
+        weight: t.weight ?? 1,
+      })),
+    [tasks]
+  );
+
+  const impactMilestones = useMemo(
+    () => (milestones ?? []).map((m) => ({ id: m.id, title: m.title, projectId: m.projectId, dueDate: m.dueDate })),
+    [milestones]
+  );
+
+  const members = useMemo(
+    () => (teamMembers ?? []).map((m) => ({ id: m.id, capacity: m.capacity, hourlyRate: m.hourlyRate })),
+    [teamMembers]
+  );
+
+  /** Simulate the items against the current schedule (nothing is written). */
+  return useCallback(
+    (type: ChangeRequestType, projectId: string, items: ChangeRequestItem[]): ChangeRequestImpactSummary =>
+      analyzeChangeImpact({
+        type,
+        projectId,
+        items,
+        tasks: impactTasks,
+        milestones: impactMilestones,
+        members,
+        edges,
+        calendar,
+        weights: getStoredWeights(),
+      }),
+    [impactTasks, impactMilestones, members, edges, calendar]
+  );
+}
@@ -0,0 +1,395 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { useEffect } from 'react';
+import type { Json } from '@/integrations/supabase/types';
+import type {
+  ChangeRequest,
+  ChangeRequestApproval,
+  ChangeRequestApprovalStep,
+  ChangeRequestImplementation,
+} from '@/types/masterbook';
+
+export interface ChangeRequestApprovalRow {
+  id: string;
+  org_id: string;
+  change_request_id: string;
+  approver_id: string;
+  approved: boolean;
+  comment: string | null;
+  step_id: string | null;
+  on_behalf_of: string | null;
+  created_at: string;
+}
+
+export interface ChangeRequestApprovalStepRow {
+  id: string;
+  org_id: string;
+  change_request_id: string;
+  policy_id: string | null;
+  round: number;
+  position: number;
+  name: string;
+  approver_ids: string[];
+  required_approvals: number;
+  status: ChangeRequestApprovalStep['status'];
+  reminder_hours: number;
+  activated_at: string | null;
+  decided_at: string | null;
+  last_reminded_at: string | null;
+  created_at: string;
+}
+
+export interface ChangeRequestRow {
+  id: string;
+  org_id: string;
+  project_id: string;
+  program_id: string | null;
+  title: string;
+  description: string;
+  type: ChangeRequest['type'];
+  status: ChangeRequest['status'];
+  requested_by: string;
+  requested_at: string;
+  items: Json;
+  impact_summary: Json | null;
+  approver_ids: string[];
+  implemented_at: string | null;
+  implementation: Json | null;
+  reverted_at: string | null;
+  created_at: string;
+  updated_at: string;
+  change_request_approvals?: ChangeRequestApprovalRow[];
+  change_request_approval_steps?: ChangeRequestApprovalStepRow[];
+}
+
+export type ChangeRequestInput = Omit<ChangeRequest, 'id' | 'createdAt' | 'updatedAt' | 'approvals' | 'approvalSteps'>;
+
+const CHANGE_REQUEST_SELECT = `
+  *,
+  change_request_approvals (*),
+  change_request_approval_steps (*)
+`;
+
+function toApproval(row: ChangeRequestApprovalRow): ChangeRequestApproval {
+  return {
+    approverId: row.approver_id,
+    approved: row.approved,
+    comment: row.comment ?? undefined,
+    at: row.created_at,
+    stepId: row.step_id ?? undefined,
+    onBehalfOf: row.on_behalf_of ?? undefined,
+  };
+}
+
+function toApprovalStep(row: ChangeRequestApprovalStepRow): ChangeRequestApprovalStep {
+  return {
+    id: row.id,
+    round: row.round,
+    position: row.position,
+    name: row.name,
+    approverIds: row.approver_ids ?? [],
+    requiredApprovals: row.required_approvals,
+    status: row.status,
+    activatedAt: row.activated_at ?? undefined,
+    decidedAt: row.decided_at ?? undefined,
+  };
+}
+
+/** Map a change_requests row (with embedded approvals and approval steps) to the Masterbook ChangeRequest shape. */
+export function toChangeRequest(row: ChangeRequestRow): ChangeRequest {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description ?? '',
+    type: row.type,
+    status: row.status,
+    projectId: row.project_id,
+    programId: row.program_id ?? undefined,
+    requestedById: row.requested_by,
+    requestedAt: row.requested_at,
+    items: (Array.isArray(row.items) ? row.items : []) as unknown as ChangeRequest['items'],
+    impactSummary: (row.impact_summary ?? undefined) as unknown as ChangeRequest['impactSummary'],
+    approverIds: row.approver_ids ?? [],
+    approvals: (row.change_request_approvals ?? [])
+      .slice()
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map(toApproval),
+    approvalSteps: (row.change_request_approval_steps ?? [])
+      .slice()
+      .sort((a, b) => a.round - b.round || a.position - b.position)
+      .map(toApprovalStep),
+    implementedAt: row.implemented_at ?? undefined,
+    implementation: (row.implementation ?? undefined) as unknown as ChangeRequest['implementation'],
+    revertedAt: row.reverted_at ?? undefined,
+    orgId: row.org_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/** Map a (partial) ChangeRequest to column values; undefined keys are left out. */
+/** Client-writable columns of a change request; the impact summary and implementation are written by the database. */
+export function toChangeRequestColumns(cr: Partial<ChangeRequest>) {
+  const columns: Partial<Omit<ChangeRequestRow, 'id' | 'org_id' | 'created_at' | 'updated_at' | 'change_request_approvals' | 'change_request_approval_steps' | 'impact_summary' | 'implemented_at' | 'implementation' | 'reverted_at'>> = {};
+  if (cr.title !== undefined) columns.title = cr.title;
+  if (cr.description !== undefined) columns.description = cr.description;
+  if (cr.type !== undefined) columns.type = cr.type;
+  if (cr.status !== undefined) columns.status = cr.status;
+  if (cr.projectId !== undefined) columns.project_id = cr.projectId;
+  if ('programId' in cr) columns.program_id = cr.programId ?? null;
+  if (cr.requestedById !== undefined) columns.requested_by = cr.requestedById;
+  if (cr.requestedAt !== undefined) columns.requested_at = cr.requestedAt;
+  if (cr.items !== undefined) columns.items = cr.items as unknown as Json;
+  if (cr.approverIds !== undefined) columns.approver_ids = cr.approverIds;
+  return columns;
+}
+
+export function useChangeRequests() {
+  const { organization } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!organization?.id) return;
+
+    const invalidate = () => {
+      queryClient.invalidateQueries({ queryKey: ['change_requests', organization.id] });
+    };
+
+    const channel = supabase
+      .channel(`realtime:change_requests:${organization.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'change_requests',
+          filter: `org_id=eq.${organization.id}`,
+        },
+        invalidate
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'change_request_approvals',
+          filter: `org_id=eq.${organization.id}`,
+        },
+        invalidate
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'change_request_approval_steps',
+          filter: `org_id=eq.${organization.id}`,
+        },
+        invalidate
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [organization?.id, queryClient]);
+
+  return useQuery({
+    queryKey: ['change_requests', organization?.id],
+    queryFn: async () => {
+      if (!organization?.id) return [];
+
+      const { data, error } = await supabase
+        .from('change_requests')
+        .select(CHANGE_REQUEST_SELECT)
+        .eq('org_id', organization.id)
+        .order('requested_at', { ascending: true });
+
+      if (error) throw error;
+      return ((data || []) as unknown as ChangeRequestRow[]).map(toChangeRequest);
+    },
+    enabled: !!organization?.id,
+  });
+}
+
+export function useCreateChangeRequest() {
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
+
+  return useMutation({
+    mutationFn: async (cr: ChangeRequestInput) => {
+      if (!organization?.id) throw new Error('No organization');
+
+      const { data, error } = await supabase
+        .from('change_requests')
+        .insert({
+          ...toChangeRequestColumns(cr),
+          title: cr.title,
+          type: cr.type,
+          project_id: cr.projectId,
+          requested_by: cr.requestedById,
+          org_id: organization.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return toChangeRequest(data as unknown as ChangeRequestRow);
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ['change_requests'] });
+      // Drafts are usually submitted right away (useSubmitChangeRequest), which confirms it
+      if (created.status !== 'draft') toast.success('Change request submitted');
+    },
+    onError: (error) => {
+      toast.error('Failed to submit change request: ' + error.message);
+    },
+  });
+}
+
+/**
+ * Submits a draft or rejected change request for approval through the submit-change-request edge function,
+ * which simulates its impact on the server and starts the approval chain. Returns the status afterwards.
+ */
+export function useSubmitChangeRequest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (changeRequestId: string) => {
+      const { data, error } = await supabase.functions.invoke('submit-change-request', {
+        body: { change_request_id: changeRequestId },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      return data.status as ChangeRequest['status'];
+    },
+    onSuccess: (status) => {
+      queryClient.invalidateQueries({ queryKey: ['change_requests'] });
+      queryClient.invalidateQueries({ queryKey: ['approval_inbox'] });
+      toast.success(status === 'approved' ? 'Change request approved (no approval stage applied)' : 'Change request submitted');
+    },
+    onError: (error) => {
+      toast.error('Failed to submit change request: ' + error.message);
+    },
+  });
+}
+
+export function useUpdateChangeRequest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, patch }: { id: string; patch: Partial<ChangeRequest> }) => {
+      const { data, error } = await supabase
+        .from('change_requests')
+        .update(toChangeRequestColumns(patch))
+        .eq('id', id)
+        .select(CHANGE_REQUEST_SELECT)
+        .single();
+
+      if (error) throw error;
+      return toChangeRequest(data as unknown as ChangeRequestRow);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['change_requests'] });
+    },
+    onError: (error) => {
+      toast.error('Failed to update change request: ' + error.message);
+    },
+  });
+}
+
+/** Error codes raised by the change request RPCs, as user-facing messages. */
+function changeRequestRpcError(error: Error): Error {
+  const detail = error.message.split(': ').slice(1).join(': ');
+  if (error.message.startsWith('not_authorized')) return new Error('Only managers can implement or revert change requests');
+  if (error.message.startsWith('not_an_approver') || error.message.startsWith('invalid_status')) return new Error(detail);
+  if (error.message.startsWith('already_decided')) return new Error('You already decided on this approval stage');
+  if (error.message.startsWith('revert_conflict')) return new Error(`Work changed since it was implemented (${detail})`);
+  if (error.message.startsWith('has_time_entries')) return new Error(`Can't remove work with logged time (${detail})`);
+  if (error.message.startsWith('item_not_found') || error.message.startsWith('invalid_item')) return new Error(detail);
+  return error;
+}
+
+function invalidateImplementedWork(queryClient: ReturnType<typeof useQueryClient>) {
+  queryClient.invalidateQueries({ queryKey: ['change_requests'] });
+  queryClient.invalidateQueries({ queryKey: ['tasks'], exact: false });
+  queryClient.invalidateQueries({ queryKey: ['milestones'], exact: false });
+  queryClient.invalidateQueries({ queryKey: ['task_dependencies'], exact: false });
+  queryClient.invalidateQueries({ queryKey: ['portfolio_decisions'] });
+  queryClient.invalidateQueries({ queryKey: ['portfolio_decision_chain'] });
+}
+
+/**
+ * Applies an approved change request: creates, modifies or deletes the tasks and milestones in its items,
+ * marks it implemented and logs the decision, all in one transaction.
+ */
+export function useImplementChangeRequest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (changeRequestId: string) => {
+      const { data, error } = await supabase.rpc('implement_change_request', { _change_request_id: changeRequestId });
+      if (error) throw changeRequestRpcError(error);
+      return data as unknown as ChangeRequestImplementation;
+    },
+    onSuccess: (implementation) => {
+      invalidateImplementedWork(queryClient);
+      const count = implementation.entries.length;
+      toast.success(`Change request implemented (${count} change${count === 1 ? '' : 's'})`);
+    },
+    onError: (error) => {
+      toast.error('Failed to implement change request: ' + error.message);
+    },
+  });
+}
+
+/** Rolls an implemented change request back from its snapshot; the request returns to approved. */
+export function useRevertChangeRequest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (changeRequestId: string) => {
+      const { error } = await supabase.rpc('revert_change_request', { _change_request_id: changeRequestId });
+      if (error) throw changeRequestRpcError(error);
+    },
+    onSuccess: () => {
+      invalidateImplementedWork(queryClient);
+      toast.success('Change request reverted');
+    },
+    onError: (error) => {
+      toast.error('Failed to revert change request: ' + error.message);
+    },
+  });
+}
+
+/**
+ * Records the current user's approve/reject vote on the request's pending approval stage (as the approver or their
+ * delegate). The database advances the chain and settles the request once the stage quorum is met or out of reach.
+ */
+export function useDecideChangeRequest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ changeRequestId, approved, comment }: { changeRequestId: string; approved: boolean; comment?: string }) => {
+      const { data, error } = await supabase.rpc('decide_change_request', {
+        _change_request_id: changeRequestId,
+        _approved: approved,
+        _comment: comment,
+      });
+      if (error) throw changeRequestRpcError(error);
+      return data as ChangeRequest['status'];
+    },
+    onSuccess: (status) => {
+      queryClient.invalidateQueries({ queryKey: ['change_requests'] });
+      queryClient.invalidateQueries({ queryKey: ['approval_inbox'] });
+      if (status === 'approved') toast.success('Change request approved');
+      else if (status === 'rejected') toast.success('Change request rejected');
+      else toast.success('Decision recorded');
+    },
+    onError: (error) => {
+      toast.error('Failed to record decision: ' + error.message);
+    },
+  });
+}
@@ -5,6 +5,7 @@
 import { useMemo, useCallback } from 'react';
 import { usePortfolioData } from '@/contexts/PortfolioDataContext';
 import { useTaskDependencyIds } from '@/hooks/useTaskDependencies';
+import { useWorkingCalendar } from '@/hooks/useWorkingCalendar';
 import {
   computeCriticalPath,
   detectCircularDependencies,
@@ -18,6 +19,7 @@ import type { CriticalPathNode, DownstreamImpact as DownstreamImpactType } from
 export function useCriticalPath() {
   const { tasks, milestones } = usePortfolioData();
   const { edges } = useTaskDependencyIds();
+  const { calendar } = useWorkingCalendar();
 
   const taskForCp = useMemo(
     () =>
@@ -28,6 +30,7 @@ export function useCriticalPath() {
         estimatedHours: t.estimatedHours ?? 1,
         startDate: t.startDate ?? undefined,
         dueDate: t.dueDate ?? undefined,
+        assigneeId: t.assigneeId ?? undefined,
       })),
     [tasks]
   );
@@ -35,8 +38,8 @@ export function useCriticalPath() {
   const taskIds = useMemo(() => new Set(taskForCp.map((t) => t.id)), [taskForCp]);
 
   const criticalPathNodes = useMemo(
-    () => computeCriticalPath(taskForCp, edges),
-    [taskForCp, edges]
+    () => computeCriticalPath(taskForCp, edges, calendar),
+    [taskForCp, edges, calendar]
   );
 
   const criticalPathTaskIds = useMemo(
@@ -66,8 +69,8 @@ export function useCriticalPath() {
 
   const getDownstreamForTask = useMemo(
     () => (taskId: string): DownstreamImpactType[] =>
-      getDownstreamImpact(taskId, edges, taskForCp, milestoneByTaskId),
-    [edges, taskForCp, milestoneByTaskId]
+      getDownstreamImpact(taskId, edges, taskForCp, milestoneByTaskId, { calendar }),
+    [edges, taskForCp, milestoneByTaskId, calendar]
   );
 
   const wouldCreateCycle = useCallback(
@@ -85,5 +88,6 @@ export function useCriticalPath() {
     wouldCreateCycle,
     edges,
     taskForCp,
+    calendar,
   };
 }
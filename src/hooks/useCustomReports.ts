@@ -0,0 +1,99 @@
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import type { Json } from '@/integrations/supabase/types';
+import type { CustomReport } from '@/domains/reports/model';
+
+export type CustomReportInput = Pick<CustomReport, 'name' | 'description' | 'definition'> & { id?: string };
+
+/** The org's saved custom reports, by name. Edits by other managers arrive in realtime. */
+export function useCustomReports() {
+  const { organization } = useAuth();
+  const queryClient = useQueryClient();
+  const orgId = organization?.id;
+
+  useEffect(() => {
+    if (!orgId) return;
+
+    const channel = supabase
+      .channel(`realtime:custom_reports:${orgId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'custom_reports', filter: `org_id=eq.${orgId}` }, () => {
+        queryClient.invalidateQueries({ queryKey: ['custom_reports', orgId] });
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [orgId, queryClient]);
+
+  return useQuery({
+    queryKey: ['custom_reports', orgId],
+    queryFn: async () => {
+      if (!orgId) return [];
+
+      const { data, error } = await supabase
+        .from('custom_reports')
+        .select('*')
+        .eq('org_id', orgId)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as unknown as CustomReport[];
+    },
+    enabled: !!orgId,
+  });
+}
+
+/** Inserts or updates; resolves to the saved report's id. */
+export function useSaveCustomReport() {
+  const { organization } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...report }: CustomReportInput) => {
+      if (!organization?.id) throw new Error('No organization');
+
+      const values = {
+        name: report.name.trim(),
+        description: report.description?.trim() || null,
+        definition: report.definition as unknown as Json,
+      };
+      const { data, error } = id
+        ? await supabase.from('custom_reports').update(values).eq('id', id).select('id').single()
+        : await supabase.from('custom_reports').insert({ ...values, org_id: organization.id }).select('id').single();
+      if (error) {
+        if (error.code === '23505') throw new Error(`A report named "${values.name}" already exists`);
+        throw error;
+      }
+      return data.id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['custom_reports'] });
+      toast.success('Report saved');
+    },
+    onError: (error) => {
+      toast.error('Failed to save report: ' + error.message);
+    },
+  });
+}
+
+export function useDeleteCustomReport() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('custom_reports').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['custom_reports'] });
+      toast.success('Report deleted');
+    },
+    onError: (error) => {
+      toast.error('Failed to delete report: ' + error.message);
+    },
+  });
+}
@@ -0,0 +1,142 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { useTaskDependencyIds } from '@/hooks/useTaskDependencies';
+import { useWorkingCalendar } from '@/hooks/useWorkingCalendar';
+import { buildMsProjectXml, MS_PROJECT_BASELINE_LIMIT, type ProjectPlanImport } from '@/lib/msProject';
+import type { ScheduleBaseline, ScheduleBaselineItem } from '@/domains/schedule/model';
+import type { Milestone, Project, Task, TeamMember } from '@/types/portfolio';
+
+export interface ProjectBaselineSnapshot {
+  name: string;
+  items: ScheduleBaselineItem[];
+}
+
+/** A project's baselines with their rows, newest first, as many as MS Project holds. */
+async function fetchProjectBaselines(orgId: string, projectId: string): Promise<ProjectBaselineSnapshot[]> {
+  const { data: baselines, error } = await supabase
+    .from('schedule_baselines')
+    .select('*')
+    .eq('org_id', orgId)
+    .eq('scope_type', 'project')
+    .eq('scope_id', projectId)
+    .order('created_at', { ascending: false })
+    .limit(MS_PROJECT_BASELINE_LIMIT);
+
+  if (error) throw error;
+  if (!baselines?.length) return [];
+
+  const { data: items, error: itemsError } = await supabase
+    .from('schedule_baseline_items')
+    .select('*')
+    .in('baseline_id', baselines.map((b) => b.id));
+
+  if (itemsError) throw itemsError;
+  return (baselines as ScheduleBaseline[]).map((b) => ({
+    name: b.name,
+    items: ((items || []) as ScheduleBaselineItem[]).filter((i) => i.baseline_id === b.id),
+  }));
+}
+
+/** The project's baselines with their rows, for matching the baselines in an imported file. */
+export function useProjectBaselineSnapshots(projectId: string | undefined, enabled = true) {
+  const { organization } = useAuth();
+  const orgId = organization?.id;
+
+  return useQuery({
+    queryKey: ['schedule_baselines', orgId, 'snapshots', projectId],
+    queryFn: () => (orgId && projectId ? fetchProjectBaselines(orgId, projectId) : []),
+    enabled: enabled && !!orgId && !!projectId,
+  });
+}
+
+export interface MsProjectExportRequest {
+  project: Project;
+  tasks: Task[];
+  milestones: Milestone[];
+  teamMembers: TeamMember[];
+}
+
+/** Downloads the project as MS Project XML, with its dependencies, baselines and assignees. */
+export function useExportMsProject() {
+  const { organization } = useAuth();
+  const { edges } = useTaskDependencyIds();
+  const { calendar } = useWorkingCalendar();
+
+  return useMutation({
+    mutationFn: async ({ project, tasks, milestones, teamMembers }: MsProjectExportRequest) => {
+      if (!organization?.id) throw new Error('No organization');
+
+      const taskIds = new Set(tasks.map((t) => t.id));
+      const xml = buildMsProjectXml({
+        project,
+        tasks,
+        milestones,
+        dependencies: edges.filter((e) => taskIds.has(e.predecessorTaskId) && taskIds.has(e.successorTaskId)),
+        teamMembers,
+        baselines: await fetchProjectBaselines(organization.id, project.id),
+        calendar,
+        now: new Date(),
+      });
+
+      const blob = new Blob([xml], { type: 'application/xml' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${project.name.replace(/[\\/:*?"<>|]+/g, ' ').trim() || 'project'}.xml`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    },
+    onError: (error) => {
+      toast.error('Failed to export to MS Project: ' + error.message);
+    },
+  });
+}
+
+export interface ProjectPlanImportResult {
+  tasks_created: number;
+  tasks_updated: number;
+  milestones_created: number;
+  milestones_updated: number;
+  dependencies: number;
+  baselines: number;
+}
+
+/** Applies a plan built by buildMsProjectImport in one transaction. Managers only. */
+export function useImportProjectPlan() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ projectId, plan }: { projectId: string; plan: ProjectPlanImport }) => {
+      const { data, error } = await supabase.rpc('import_project_plan', {
+        _project_id: projectId,
+        _plan: plan as unknown as Json,
+      });
+
+      if (error) {
+        if (error.code === '23505') throw new Error('A baseline with the same name already exists');
+        if (error.message.includes('not_authorized')) throw new Error('Only managers can import project plans');
+        if (error.message.includes('assignee_not_found')) throw new Error('An assignee is no longer a team member');
+        throw error;
+      }
+      return data as unknown as ProjectPlanImportResult;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['tasks'], exact: false });
+      queryClient.invalidateQueries({ queryKey: ['milestones'], exact: false });
+      queryClient.invalidateQueries({ queryKey: ['task_dependencies'] });
+      queryClient.invalidateQueries({ queryKey: ['schedule_baselines'] });
+      toast.success(
+        `Imported ${result.tasks_created + result.tasks_updated} tasks, ` +
+          `${result.milestones_created + result.milestones_updated} milestones and ${result.dependencies} dependencies`
+      );
+    },
+    onError: (error) => {
+      toast.error('Failed to import project plan: ' + error.message);
+    },
+  });
+}
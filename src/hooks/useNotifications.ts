@@ -13,6 +13,8 @@ export interface DbNotification {
   project_id: string | null;
   task_id: string | null;
   org_id: string;
+  /** In-app route to open, e.g. /approvals for approval requests */
+  link: string | null;
   created_at: string;
 }
 
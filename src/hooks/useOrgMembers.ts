@@ -1,3 +1,4 @@
+import { useCallback } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
@@ -59,3 +60,21 @@ export function useOrgMembers() {
     enabled: !!organization?.id,
   });
 }
+
+const EMPTY_MEMBERS: OrgMember[] = [];
+
+/** Display name for an org user id ("You" for the current user), e.g. for approvers and delegates. */
+export function useOrgMemberName() {
+  const { user } = useAuth();
+  const { data: members = EMPTY_MEMBERS } = useOrgMembers();
+
+  return useCallback(
+    (userId: string) => {
+      if (userId === user?.id) return 'You';
+      const member = members.find((m) => m.id === userId);
+      if (!member) return 'Former member';
+      return [member.first_name, member.last_name].filter(Boolean).join(' ') || member.email || 'Unnamed member';
+    },
+    [members, user?.id]
+  );
+}
@@ -0,0 +1,165 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { useEffect } from 'react';
+import type { Json } from '@/integrations/supabase/types';
+import type { DecisionLogChainStatus, PortfolioDecisionLogEntry } from '@/types/masterbook';
+
+export interface PortfolioDecisionRow {
+  id: string;
+  org_id: string;
+  portfolio_id: string;
+  type: PortfolioDecisionLogEntry['type'];
+  title: string;
+  description: string;
+  project_ids: string[];
+  program_ids: string[];
+  decided_by: string;
+  decided_at: string;
+  outcome: string;
+  metadata: Json | null;
+  seq: number;
+  prev_hash: string | null;
+  entry_hash: string;
+}
+
+export type PortfolioDecisionInput = Omit<
+  PortfolioDecisionLogEntry,
+  'id' | 'decidedAt' | 'sequence' | 'prevHash' | 'entryHash'
+>;
+
+/** Map a portfolio_decisions row to the Masterbook log entry shape. */
+export function toPortfolioDecision(row: PortfolioDecisionRow): PortfolioDecisionLogEntry {
+  return {
+    id: row.id,
+    type: row.type,
+    title: row.title,
+    description: row.description ?? '',
+    portfolioId: row.portfolio_id,
+    projectIds: row.project_ids ?? [],
+    programIds: row.program_ids ?? [],
+    decidedBy: row.decided_by,
+    decidedAt: row.decided_at,
+    outcome: row.outcome ?? '',
+    metadata: (row.metadata ?? undefined) as PortfolioDecisionLogEntry['metadata'],
+    sequence: row.seq,
+    prevHash: row.prev_hash ?? undefined,
+    entryHash: row.entry_hash,
+  };
+}
+
+/** Insert columns for an entry. decided_by and decided_at are set by the database's chain trigger. */
+export function toPortfolioDecisionInsert(entry: PortfolioDecisionInput, orgId: string) {
+  return {
+    org_id: orgId,
+    portfolio_id: entry.portfolioId,
+    type: entry.type,
+    title: entry.title,
+    description: entry.description,
+    project_ids: entry.projectIds,
+    program_ids: entry.programIds,
+    decided_by: entry.decidedBy,
+    outcome: entry.outcome,
+    metadata: (entry.metadata ?? null) as Json,
+  };
+}
+
+/** Org-wide decision log in chain order. Rows are append-only (enforced by database triggers). */
+export function usePortfolioDecisions() {
+  const { organization } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!organization?.id) return;
+
+    const channel = supabase
+      .channel(`realtime:portfolio_decisions:${organization.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'portfolio_decisions',
+          filter: `org_id=eq.${organization.id}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['portfolio_decisions', organization.id] });
+          queryClient.invalidateQueries({ queryKey: ['portfolio_decision_chain', organization.id] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [organization?.id, queryClient]);
+
+  return useQuery({
+    queryKey: ['portfolio_decisions', organization?.id],
+    queryFn: async () => {
+      if (!organization?.id) return [];
+
+      const { data, error } = await supabase
+        .from('portfolio_decisions')
+        .select('*')
+        .eq('org_id', organization.id)
+        .order('seq', { ascending: true });
+
+      if (error) throw error;
+      return ((data || []) as PortfolioDecisionRow[]).map(toPortfolioDecision);
+    },
+    enabled: !!organization?.id,
+  });
+}
+
+export function useAppendPortfolioDecision() {
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
+
+  return useMutation({
+    mutationFn: async (entry: PortfolioDecisionInput) => {
+      if (!organization?.id) throw new Error('No organization');
+
+      const { data, error } = await supabase
+        .from('portfolio_decisions')
+        .insert(toPortfolioDecisionInsert(entry, organization.id))
+        .select()
+        .single();
+
+      if (error) throw error;
+      return toPortfolioDecision(data as PortfolioDecisionRow);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['portfolio_decisions'] });
+      queryClient.invalidateQueries({ queryKey: ['portfolio_decision_chain'] });
+      toast.success('Decision logged');
+    },
+    onError: (error) => {
+      toast.error('Failed to log decision: ' + error.message);
+    },
+  });
+}
+
+/** Server-side verification of the org's decision log hash chain. */
+export function usePortfolioDecisionChainStatus() {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: ['portfolio_decision_chain', organization?.id],
+    queryFn: async (): Promise<DecisionLogChainStatus> => {
+      const { data, error } = await supabase.rpc('verify_portfolio_decision_chain');
+
+      if (error) throw error;
+      const row = data?.[0];
+      return {
+        isValid: row?.is_valid ?? true,
+        checkedCount: row?.checked_count ?? 0,
+        headHash: row?.head_hash ?? undefined,
+        firstInvalidId: row?.first_invalid_id ?? undefined,
+        firstInvalidSequence: row?.first_invalid_seq ?? undefined,
+      };
+    },
+    enabled: !!organization?.id,
+  });
+}
@@ -0,0 +1,150 @@
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { nextCronRun } from '@/lib/reportSchedule';
+import type { ReportSubscription, ReportSubscriptionRun } from '@/domains/reports/model';
+
+export type ReportSubscriptionInput = Pick<
+  ReportSubscription,
+  'name' | 'report_type' | 'portfolio_id' | 'program_id' | 'date_range' | 'format' | 'recipients' | 'cron_expression' | 'is_active'
+> & { id?: string };
+
+/** The org's scheduled reports (managers only). Run status updates arrive in realtime. */
+export function useReportSubscriptions() {
+  const { organization } = useAuth();
+  const queryClient = useQueryClient();
+  const orgId = organization?.id;
+
+  useEffect(() => {
+    if (!orgId) return;
+
+    const invalidate = () => {
+      queryClient.invalidateQueries({ queryKey: ['report_subscriptions', orgId] });
+      queryClient.invalidateQueries({ queryKey: ['report_subscription_runs', orgId] });
+    };
+    const channel = supabase
+      .channel(`realtime:report_subscriptions:${orgId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'report_subscriptions', filter: `org_id=eq.${orgId}` }, invalidate)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [orgId, queryClient]);
+
+  return useQuery({
+    queryKey: ['report_subscriptions', orgId],
+    queryFn: async () => {
+      if (!orgId) return [];
+
+      const { data, error } = await supabase
+        .from('report_subscriptions')
+        .select('*')
+        .eq('org_id', orgId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as ReportSubscription[];
+    },
+    enabled: !!orgId,
+  });
+}
+
+/** Saving makes the current user the sender, and schedules the next run from the cadence. */
+export function useSaveReportSubscription() {
+  const { organization, user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...subscription }: ReportSubscriptionInput) => {
+      if (!organization?.id || !user) throw new Error('No organization');
+
+      const values = {
+        ...subscription,
+        next_run_at: nextCronRun(subscription.cron_expression, new Date())?.toISOString() ?? null,
+        created_by: user.id,
+        claimed_at: null,
+      };
+      const { error } = id
+        ? await supabase.from('report_subscriptions').update(values).eq('id', id)
+        : await supabase.from('report_subscriptions').insert({ ...values, org_id: organization.id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['report_subscriptions'] });
+      toast.success('Scheduled report saved');
+    },
+    onError: (error) => {
+      toast.error('Failed to save scheduled report: ' + error.message);
+    },
+  });
+}
+
+export function useDeleteReportSubscription() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('report_subscriptions').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['report_subscriptions'] });
+      queryClient.invalidateQueries({ queryKey: ['report_subscription_runs'] });
+      toast.success('Scheduled report deleted');
+    },
+    onError: (error) => {
+      toast.error('Failed to delete scheduled report: ' + error.message);
+    },
+  });
+}
+
+/** Makes the subscription due now; the scheduler sends it within 5 minutes. */
+export function useSendReportSubscriptionNow() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('report_subscriptions')
+        .update({ next_run_at: new Date().toISOString(), is_active: true })
+        .eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['report_subscriptions'] });
+      toast.success('Report queued – it is sent within 5 minutes');
+    },
+    onError: (error) => {
+      toast.error('Failed to queue report: ' + error.message);
+    },
+  });
+}
+
+/** Run log, newest first; all subscriptions or one. */
+export function useReportSubscriptionRuns(subscriptionId?: string, limit = 20) {
+  const { organization } = useAuth();
+  const orgId = organization?.id;
+
+  return useQuery({
+    queryKey: ['report_subscription_runs', orgId, subscriptionId, limit],
+    queryFn: async () => {
+      if (!orgId) return [];
+
+      let query = supabase
+        .from('report_subscription_runs')
+        .select('*')
+        .eq('org_id', orgId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+      if (subscriptionId) query = query.eq('subscription_id', subscriptionId);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []) as ReportSubscriptionRun[];
+    },
+    enabled: !!orgId,
+  });
+}
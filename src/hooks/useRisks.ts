@@ -0,0 +1,291 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { useEffect } from 'react';
+import type { Risk, RiskScoreHistoryEntry, RiskScoreLevel } from '@/types/masterbook';
+
+export interface RiskRow {
+  id: string;
+  org_id: string;
+  project_id: string;
+  program_id: string | null;
+  title: string;
+  description: string;
+  status: Risk['status'];
+  severity: Risk['severity'];
+  probability: number;
+  impact: number;
+  residual_probability: number | null;
+  residual_impact: number | null;
+  cost_exposure: number | null;
+  schedule_exposure_days: number | null;
+  owner_id: string | null;
+  identified_at: string;
+  due_date: string | null;
+  mitigation_plan: string | null;
+  realized_at: string | null;
+  blocker_task_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RiskScoreHistoryRow {
+  id: string;
+  org_id: string;
+  risk_id: string;
+  project_id: string;
+  status: Risk['status'];
+  probability: number;
+  impact: number;
+  residual_probability: number | null;
+  residual_impact: number | null;
+  cost_exposure: number | null;
+  schedule_exposure_days: number | null;
+  recorded_at: string;
+}
+
+export type RiskInput = Omit<Risk, 'id' | 'createdAt' | 'updatedAt'>;
+
+const toLevel = (value: number) => value as RiskScoreLevel;
+const toOptionalLevel = (value: number | null) => (value == null ? undefined : toLevel(value));
+
+/** Map a risks row to the Masterbook Risk shape. */
+export function toRisk(row: RiskRow): Risk {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description ?? '',
+    status: row.status,
+    severity: row.severity,
+    probability: toLevel(row.probability),
+    impact: toLevel(row.impact),
+    residualProbability: toOptionalLevel(row.residual_probability),
+    residualImpact: toOptionalLevel(row.residual_impact),
+    costExposure: row.cost_exposure ?? undefined,
+    scheduleExposureDays: row.schedule_exposure_days ?? undefined,
+    projectId: row.project_id,
+    programId: row.program_id ?? undefined,
+    ownerId: row.owner_id ?? undefined,
+    identifiedAt: row.identified_at,
+    dueDate: row.due_date ?? undefined,
+    mitigationPlan: row.mitigation_plan ?? undefined,
+    realizedAt: row.realized_at ?? undefined,
+    blockerTaskId: row.blocker_task_id ?? undefined,
+    orgId: row.org_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/** Map a (partial) Risk to column values; undefined keys are left out. */
+export function toRiskColumns(risk: Partial<Risk>) {
+  const columns: Partial<Omit<RiskRow, 'id' | 'org_id' | 'created_at' | 'updated_at' | 'created_by'>> = {};
+  if (risk.title !== undefined) columns.title = risk.title;
+  if (risk.description !== undefined) columns.description = risk.description;
+  if (risk.status !== undefined) columns.status = risk.status;
+  if (risk.severity !== undefined) columns.severity = risk.severity;
+  if (risk.probability !== undefined) columns.probability = risk.probability;
+  if (risk.impact !== undefined) columns.impact = risk.impact;
+  if ('residualProbability' in risk) columns.residual_probability = risk.residualProbability ?? null;
+  if ('residualImpact' in risk) columns.residual_impact = risk.residualImpact ?? null;
+  if ('costExposure' in risk) columns.cost_exposure = risk.costExposure ?? null;
+  if ('scheduleExposureDays' in risk) columns.schedule_exposure_days = risk.scheduleExposureDays ?? null;
+  if (risk.projectId !== undefined) columns.project_id = risk.projectId;
+  if ('programId' in risk) columns.program_id = risk.programId ?? null;
+  if ('ownerId' in risk) columns.owner_id = risk.ownerId ?? null;
+  if (risk.identifiedAt !== undefined) columns.identified_at = risk.identifiedAt;
+  if ('dueDate' in risk) columns.due_date = risk.dueDate ? risk.dueDate.slice(0, 10) : null;
+  if ('mitigationPlan' in risk) columns.mitigation_plan = risk.mitigationPlan ?? null;
+  if ('realizedAt' in risk) columns.realized_at = risk.realizedAt ?? null;
+  if ('blockerTaskId' in risk) columns.blocker_task_id = risk.blockerTaskId ?? null;
+  return columns;
+}
+
+export function useRisks() {
+  const { organization } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!organization?.id) return;
+
+    const channel = supabase
+      .channel(`realtime:risks:${organization.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'risks',
+          filter: `org_id=eq.${organization.id}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['risks', organization.id] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [organization?.id, queryClient]);
+
+  return useQuery({
+    queryKey: ['risks', organization?.id],
+    queryFn: async () => {
+      if (!organization?.id) return [];
+
+      const { data, error } = await supabase
+        .from('risks')
+        .select('*')
+        .eq('org_id', organization.id)
+        .order('identified_at', { ascending: true });
+
+      if (error) throw error;
+      return ((data || []) as RiskRow[]).map(toRisk);
+    },
+    enabled: !!organization?.id,
+  });
+}
+
+/** Map a risk_score_history row to its entry. */
+export function toRiskScoreHistoryEntry(row: RiskScoreHistoryRow): RiskScoreHistoryEntry {
+  return {
+    riskId: row.risk_id,
+    projectId: row.project_id,
+    status: row.status,
+    probability: toLevel(row.probability),
+    impact: toLevel(row.impact),
+    residualProbability: toOptionalLevel(row.residual_probability),
+    residualImpact: toOptionalLevel(row.residual_impact),
+    costExposure: row.cost_exposure ?? undefined,
+    scheduleExposureDays: row.schedule_exposure_days ?? undefined,
+    recordedAt: row.recorded_at,
+  };
+}
+
+/** Score history of the org's risks (every status, score or exposure change), oldest first. */
+export function useRiskScoreHistory() {
+  const { organization } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!organization?.id) return;
+
+    const channel = supabase
+      .channel(`realtime:risk_score_history:${organization.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'risk_score_history',
+          filter: `org_id=eq.${organization.id}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['risk_score_history', organization.id] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [organization?.id, queryClient]);
+
+  return useQuery({
+    queryKey: ['risk_score_history', organization?.id],
+    queryFn: async () => {
+      if (!organization?.id) return [];
+
+      const { data, error } = await supabase
+        .from('risk_score_history')
+        .select('*')
+        .eq('org_id', organization.id)
+        .order('recorded_at', { ascending: true });
+
+      if (error) throw error;
+      return ((data || []) as RiskScoreHistoryRow[]).map(toRiskScoreHistoryEntry);
+    },
+    enabled: !!organization?.id,
+  });
+}
+
+export function useCreateRisk() {
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
+
+  return useMutation({
+    mutationFn: async (risk: RiskInput) => {
+      if (!organization?.id) throw new Error('No organization');
+
+      const { data, error } = await supabase
+        .from('risks')
+        .insert({
+          ...toRiskColumns(risk),
+          title: risk.title,
+          project_id: risk.projectId,
+          org_id: organization.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return toRisk(data as RiskRow);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['risks'] });
+      toast.success('Risk added');
+    },
+    onError: (error) => {
+      toast.error('Failed to add risk: ' + error.message);
+    },
+  });
+}
+
+export function useUpdateRisk() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, patch }: { id: string; patch: Partial<Risk> }) => {
+      const { data, error } = await supabase
+        .from('risks')
+        .update(toRiskColumns(patch))
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return toRisk(data as RiskRow);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['risks'] });
+    },
+    onError: (error) => {
+      toast.error('Failed to update risk: ' + error.message);
+    },
+  });
+}
+
+export function useDeleteRisk() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('risks')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['risks'] });
+      toast.success('Risk removed');
+    },
+    onError: (error) => {
+      toast.error('Failed to remove risk: ' + error.message);
+    },
+  });
+}
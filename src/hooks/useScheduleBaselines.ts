@@ -0,0 +1,159 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import type {
+  ScheduleBaseline,
+  ScheduleBaselineItem,
+  ScheduleBaselineItemType,
+  ScheduleBaselineScopeType,
+} from '@/domains/schedule/model';
+
+const EMPTY_BASELINES: ScheduleBaseline[] = [];
+const EMPTY_ITEMS: ScheduleBaselineItem[] = [];
+
+export function useScheduleBaselines() {
+  const { organization } = useAuth();
+  const queryClient = useQueryClient();
+  const orgId = organization?.id;
+
+  useEffect(() => {
+    if (!orgId) return;
+
+    const channel = supabase
+      .channel(`realtime:schedule_baselines:${orgId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'schedule_baselines', filter: `org_id=eq.${orgId}` },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['schedule_baselines', orgId] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [orgId, queryClient]);
+
+  return useQuery({
+    queryKey: ['schedule_baselines', orgId],
+    queryFn: async () => {
+      if (!orgId) return [];
+
+      const { data, error } = await supabase
+        .from('schedule_baselines')
+        .select('*')
+        .eq('org_id', orgId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as ScheduleBaseline[];
+    },
+    enabled: !!orgId,
+  });
+}
+
+/** Snapshot rows of one baseline. Baselines never change once taken, so this is cached indefinitely. */
+export function useScheduleBaselineItems(baselineId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['schedule_baseline_items', baselineId],
+    queryFn: async () => {
+      if (!baselineId) return [];
+
+      const { data, error } = await supabase
+        .from('schedule_baseline_items')
+        .select('*')
+        .eq('baseline_id', baselineId);
+
+      if (error) throw error;
+      return (data || []) as ScheduleBaselineItem[];
+    },
+    enabled: !!baselineId,
+    staleTime: Infinity,
+  });
+}
+
+export function useCreateScheduleBaseline() {
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ scopeType, scopeId, name }: { scopeType: ScheduleBaselineScopeType; scopeId: string; name: string }) => {
+      const { data, error } = await supabase.rpc('create_schedule_baseline', {
+        _scope_type: scopeType,
+        _scope_id: scopeId,
+        _name: name,
+      });
+
+      if (error) {
+        if (error.code === '23505') throw new Error(`A baseline named "${name}" already exists`);
+        throw error;
+      }
+      return data as string;
+    },
+    onSuccess: (_, { name }) => {
+      queryClient.invalidateQueries({ queryKey: ['schedule_baselines', organization?.id] });
+      toast.success(`Baseline "${name}" saved`);
+    },
+    onError: (error) => {
+      toast.error('Failed to save baseline: ' + error.message);
+    },
+  });
+}
+
+export function useDeleteScheduleBaseline() {
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('schedule_baselines')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['schedule_baselines', organization?.id] });
+    },
+    onError: (error) => {
+      toast.error('Failed to delete baseline: ' + error.message);
+    },
+  });
+}
+
+/**
+ * Baselines covering the given projects/programs, the one picked for display in a Gantt,
+ * and a lookup of its snapshot rows for drawing ghost bars.
+ */
+export function useBaselineOverlay(projectIds: string[], programIds: string[]) {
+  const { data: allBaselines = EMPTY_BASELINES } = useScheduleBaselines();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const baselines = useMemo(() => {
+    const projects = new Set(projectIds);
+    const programs = new Set(programIds);
+    return allBaselines.filter((b) =>
+      b.scope_type === 'project' ? projects.has(b.scope_id) : programs.has(b.scope_id)
+    );
+  }, [allBaselines, projectIds, programIds]);
+
+  // Drop the selection if its baseline is deleted or falls out of scope
+  const activeId = selectedId && baselines.some((b) => b.id === selectedId) ? selectedId : null;
+  const { data: items = EMPTY_ITEMS } = useScheduleBaselineItems(activeId);
+
+  const itemByKey = useMemo(
+    () => new Map(items.map((i) => [`${i.item_type}:${i.item_id}`, i])),
+    [items]
+  );
+
+  return {
+    baselines,
+    selectedId: activeId,
+    setSelectedId,
+    getItem: (type: ScheduleBaselineItemType, id: string) => (activeId ? itemByKey.get(`${type}:${id}`) : undefined),
+  };
+}
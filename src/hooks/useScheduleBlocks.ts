@@ -1,23 +1,60 @@
+import { useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
 import type { ScheduleBlock, ScheduleBlockInsert, ScheduleBlockUpdate } from '@/domains/schedule/model';
 
-// Note: schedule_blocks table doesn't exist yet in the database schema
-// These hooks return empty data until the migration is run
-
 export function useScheduleBlocks(assigneeId?: string | null) {
   const { organization } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!organization?.id) return;
+
+    const channel = supabase
+      .channel(`realtime:schedule_blocks:${organization.id}:${assigneeId ?? 'all'}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'schedule_blocks',
+          filter: `org_id=eq.${organization.id}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['schedule_blocks', organization.id] });
+        }
+      )
+      .subscribe();
 
-  // Return empty data since table doesn't exist yet
-  const { data = [] } = useQuery({
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [organization?.id, assigneeId, queryClient]);
+
+  return useQuery({
     queryKey: ['schedule_blocks', organization?.id, assigneeId],
     queryFn: async () => {
-      // Table doesn't exist yet - return empty array
-      return [] as ScheduleBlock[];
+      if (!organization?.id) return [];
+
+      let query = supabase
+        .from('schedule_blocks')
+        .select('*')
+        .eq('org_id', organization.id)
+        .order('start_utc', { ascending: true });
+
+      if (assigneeId) {
+        query = query.eq('assignee_id', assigneeId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return (data || []) as ScheduleBlock[];
     },
     enabled: !!organization?.id,
   });
-  return { data };
 }
 
 export function useCreateScheduleBlock() {
@@ -25,12 +62,21 @@ export function useCreateScheduleBlock() {
   const { organization } = useAuth();
   return useMutation({
     mutationFn: async (payload: ScheduleBlockInsert) => {
-      console.warn('schedule_blocks table not yet created');
-      return { id: '' };
+      const { data, error } = await supabase
+        .from('schedule_blocks')
+        .insert(payload)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as ScheduleBlock;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['schedule_blocks', organization?.id] });
     },
+    onError: (error) => {
+      toast.error('Failed to create schedule block: ' + error.message);
+    },
   });
 }
 
@@ -39,11 +85,19 @@ export function useUpdateScheduleBlock() {
   const { organization } = useAuth();
   return useMutation({
     mutationFn: async ({ id, ...updates }: ScheduleBlockUpdate & { id: string }) => {
-      console.warn('schedule_blocks table not yet created');
+      const { error } = await supabase
+        .from('schedule_blocks')
+        .update(updates)
+        .eq('id', id);
+
+      if (error) throw error;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['schedule_blocks', organization?.id] });
     },
+    onError: (error) => {
+      toast.error('Failed to update schedule block: ' + error.message);
+    },
   });
 }
 
@@ -52,10 +106,18 @@ export function useDeleteScheduleBlock() {
   const { organization } = useAuth();
   return useMutation({
     mutationFn: async (id: string) => {
-      console.warn('schedule_blocks table not yet created');
+      const { error } = await supabase
+        .from('schedule_blocks')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['schedule_blocks', organization?.id] });
     },
+    onError: (error) => {
+      toast.error('Failed to delete schedule block: ' + error.message);
+    },
   });
 }
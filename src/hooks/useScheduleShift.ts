@@ -0,0 +1,146 @@
+/**
+ * Reschedule a task together with its downstream successors and their schedule blocks.
+ * `previewShift` builds reviewable SchedulePlans (`planReschedule` does for a set of independent moves,
+ * such as a leveled schedule); `useApplyScheduleShift` writes one in a single transaction and offers an undo.
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { usePortfolioData } from '@/contexts/PortfolioDataContext';
+import { useTaskDependencyIds } from '@/hooks/useTaskDependencies';
+import { useScheduleBlocks } from '@/hooks/useScheduleBlocks';
+import { useWorkingCalendar } from '@/hooks/useWorkingCalendar';
+import {
+  invertSchedulePlan,
+  planReschedule as planRescheduleChanges,
+  planScheduleShift,
+  type LinkedBlock,
+  type SchedulePlan,
+  type TaskReschedule,
+} from '@/lib/scheduleShift';
+import type { ScheduleBlock } from '@/domains/schedule/model';
+
+const EMPTY_BLOCKS: ScheduleBlock[] = [];
+
+/** The same move planned with and without rescheduling successors, so the user can choose. */
+export interface ScheduleShiftPreview {
+  withSuccessors: SchedulePlan;
+  taskOnly: SchedulePlan;
+}
+
+export function useScheduleShift() {
+  const { tasks, milestones } = usePortfolioData();
+  const { edges } = useTaskDependencyIds();
+  const { data: scheduleBlocks = EMPTY_BLOCKS } = useScheduleBlocks();
+  const { calendar } = useWorkingCalendar();
+
+  const tasksForShift = useMemo(
+    () =>
+      (tasks ?? []).map((t) => ({
+        id: t.id,
+        title: t.title,
+        projectId: t.projectId,
+        estimatedHours: t.estimatedHours ?? 1,
+        startDate: t.startDate ?? undefined,
+        dueDate: t.dueDate ?? undefined,
+        assigneeId: t.assigneeId ?? undefined,
+        milestoneId: t.milestoneId ?? undefined,
+      })),
+    [tasks]
+  );
+
+  const taskBlocks = useMemo<LinkedBlock[]>(
+    () =>
+      scheduleBlocks
+        .filter((b) => b.source_type === 'task' && b.source_id)
+        .map((b) => ({
+          id: b.id,
+          taskId: b.source_id!,
+          title: b.title,
+          assigneeId: b.assignee_id ?? undefined,
+          startUtc: b.start_utc,
+          endUtc: b.end_utc,
+        })),
+    [scheduleBlocks]
+  );
+
+  const previewShift = useCallback(
+    (taskId: string, dates: { startDate: string; dueDate: string }): ScheduleShiftPreview => {
+      const plan = (cascade: boolean) =>
+        planScheduleShift(taskId, dates, tasksForShift, edges, taskBlocks, milestones ?? [], { cascade, calendar });
+      return { withSuccessors: plan(true), taskOnly: plan(false) };
+    },
+    [tasksForShift, edges, taskBlocks, milestones, calendar]
+  );
+
+  const planReschedule = useCallback(
+    (changes: TaskReschedule[]) => planRescheduleChanges(changes, taskBlocks, { calendar }),
+    [taskBlocks, calendar]
+  );
+
+  return { previewShift, planReschedule };
+}
+
+async function writeSchedulePlan(plan: SchedulePlan) {
+  const { error } = await supabase.rpc('apply_schedule_shift', {
+    _tasks: plan.taskChanges.map((c) => ({
+      id: c.taskId,
+      start_date: c.toStart ?? null,
+      due_date: c.toDue ?? null,
+      prev_start_date: c.fromStart ?? null,
+      prev_due_date: c.fromDue ?? null,
+    })),
+    _blocks: plan.blockChanges.map((b) => ({
+      id: b.blockId,
+      start_utc: b.toStartUtc,
+      end_utc: b.toEndUtc,
+      prev_start_utc: b.fromStartUtc,
+      prev_end_utc: b.fromEndUtc,
+    })),
+  });
+
+  if (error) {
+    if (error.message.includes('schedule_changed')) {
+      throw new Error('The schedule changed since this preview. Review the new dates and try again.');
+    }
+    throw error;
+  }
+}
+
+export function useApplyScheduleShift() {
+  const queryClient = useQueryClient();
+
+  const invalidate = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: ['tasks'], exact: false });
+    queryClient.invalidateQueries({ queryKey: ['schedule_blocks'], exact: false });
+  }, [queryClient]);
+
+  const undo = useMutation({
+    mutationFn: (plan: SchedulePlan) => writeSchedulePlan(invertSchedulePlan(plan)),
+    onSuccess: () => {
+      invalidate();
+      toast.success('Schedule change undone');
+    },
+    onError: (error) => {
+      toast.error('Failed to undo schedule change: ' + error.message);
+    },
+  });
+
+  return useMutation({
+    mutationFn: writeSchedulePlan,
+    onSuccess: (_, plan) => {
+      invalidate();
+      const moved = plan.taskChanges.length;
+      const late = plan.milestoneImpacts.filter((m) => m.isLate && !m.wasLate).length;
+      toast.success(`Rescheduled ${moved} task${moved === 1 ? '' : 's'}`, {
+        description: late > 0 ? `${late} milestone${late === 1 ? ' is' : 's are'} now projected late` : undefined,
+        action: { label: 'Undo', onClick: () => undo.mutate(plan) },
+      });
+    },
+    onError: (error) => {
+      toast.error('Failed to reschedule: ' + error.message);
+    },
+  });
+}
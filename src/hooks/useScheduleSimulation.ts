@@ -0,0 +1,72 @@
+/**
+ * Schedule risk simulation – Masterbook "Uncertainty Brings Opportunity".
+ * Runs the Monte Carlo simulation in a Web Worker whenever tasks, links or the calendar change.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { usePortfolioData } from '@/contexts/PortfolioDataContext';
+import { useTaskDependencyIds } from '@/hooks/useTaskDependencies';
+import { useWorkingCalendar } from '@/hooks/useWorkingCalendar';
+import { simulateSchedule, type ScheduleSimulationInput } from '@/lib/monteCarlo';
+import type { ScheduleSimulationResult } from '@/types/masterbook';
+
+export function useScheduleSimulation() {
+  const { tasks, projects, milestones } = usePortfolioData();
+  const { edges } = useTaskDependencyIds();
+  const { calendar } = useWorkingCalendar();
+  const [result, setResult] = useState<ScheduleSimulationResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const input = useMemo<ScheduleSimulationInput>(
+    () => ({
+      tasks: (tasks ?? []).map((t) => ({
+        id: t.id,
+        projectId: t.projectId,
+        milestoneId: t.milestoneId,
+        estimatedHours: t.estimatedHours ?? 1,
+        optimisticHours: t.optimisticHours,
+        pessimisticHours: t.pessimisticHours,
+        startDate: t.startDate,
+        dueDate: t.dueDate,
+        done: t.status === 'done',
+      })),
+      edges,
+      projects: (projects ?? []).map((p) => ({ id: p.id, endDate: p.endDate })),
+      milestones: (milestones ?? []).map((m) => ({ id: m.id, projectId: m.projectId, dueDate: m.dueDate })),
+      calendar,
+    }),
+    [tasks, edges, projects, milestones, calendar]
+  );
+
+  useEffect(() => {
+    if (input.tasks.length === 0) {
+      setResult(null);
+      return;
+    }
+    if (typeof Worker === 'undefined') {
+      setResult(simulateSchedule(input));
+      return;
+    }
+
+    // A newer input replaces the running simulation
+    const worker = new Worker(new URL('../workers/scheduleSimulation.worker.ts', import.meta.url), { type: 'module' });
+    setIsRunning(true);
+    worker.onmessage = (event: MessageEvent<ScheduleSimulationResult>) => {
+      setResult(event.data);
+      setIsRunning(false);
+      worker.terminate();
+    };
+    worker.onerror = (event) => {
+      console.error('Schedule simulation failed:', event.message);
+      setIsRunning(false);
+      worker.terminate();
+    };
+    worker.postMessage(input);
+    return () => {
+      worker.terminate();
+      setIsRunning(false);
+    };
+  }, [input]);
+
+  return { result, isRunning };
+}
@@ -1,16 +1,67 @@
-import { useMemo } from 'react';
+import { useEffect, useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
-import type { TaskDependencyEdge } from '@/types/masterbook';
+import { toast } from 'sonner';
+import type { DependencyLinkType, DependencyType, TaskDependencyEdge } from '@/types/masterbook';
 
-// Note: task_dependencies table doesn't exist yet in the database schema
-// This hook returns empty data until the migration is run
+interface TaskDependencyRow {
+  id: string;
+  org_id: string;
+  predecessor_task_id: string;
+  successor_task_id: string;
+  type: string;
+  link_type: string;
+  lag_days: number;
+  created_at: string;
+}
+
+const EMPTY_ROWS: TaskDependencyRow[] = [];
 
-/** Fetches task dependency IDs (predecessor -> successor, type blocks). */
+/** Fetches task dependencies (predecessor -> successor) with link type and lag. */
 export function useTaskDependencyIds() {
   const { organization } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!organization?.id) return;
+
+    const channel = supabase
+      .channel(`realtime:task_dependencies:${organization.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'task_dependencies',
+          filter: `org_id=eq.${organization.id}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['task_dependencies', organization.id] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [organization?.id, queryClient]);
+
+  const { data: rows = EMPTY_ROWS } = useQuery({
+    queryKey: ['task_dependencies', organization?.id],
+    queryFn: async () => {
+      if (!organization?.id) return [];
 
-  // Return empty data since table doesn't exist yet
-  const rows: { id: string; org_id: string; predecessor_task_id: string; successor_task_id: string; type: string }[] = [];
+      const { data, error } = await supabase
+        .from('task_dependencies')
+        .select('*')
+        .eq('org_id', organization.id);
+
+      if (error) throw error;
+      return (data || []) as TaskDependencyRow[];
+    },
+    enabled: !!organization?.id,
+  });
 
   const getForTask = useMemo(() => {
     const byPredecessor = new Map<string, { blocks: string[]; relates: string[] }>();
@@ -33,9 +84,93 @@ export function useTaskDependencyIds() {
         predecessorTaskId: r.predecessor_task_id,
         successorTaskId: r.successor_task_id,
         type: r.type as TaskDependencyEdge['type'],
+        linkType: (r.link_type ?? 'FS') as DependencyLinkType,
+        lagDays: r.lag_days ?? 0,
+        createdAt: r.created_at,
       })),
     [rows]
   );
 
   return { getForTask, edges };
 }
+
+export interface TaskDependencyInput {
+  predecessorTaskId: string;
+  successorTaskId: string;
+  type?: DependencyType;
+  linkType?: DependencyLinkType;
+  lagDays?: number;
+}
+
+export function useCreateTaskDependency() {
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
+
+  return useMutation({
+    mutationFn: async (input: TaskDependencyInput) => {
+      if (!organization?.id) throw new Error('No organization');
+
+      const { error } = await supabase.from('task_dependencies').insert({
+        org_id: organization.id,
+        predecessor_task_id: input.predecessorTaskId,
+        successor_task_id: input.successorTaskId,
+        type: input.type ?? 'blocks',
+        link_type: input.linkType ?? 'FS',
+        lag_days: input.lagDays ?? 0,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['task_dependencies'] });
+    },
+    onError: (error) => {
+      toast.error('Failed to add dependency: ' + error.message);
+    },
+  });
+}
+
+export function useUpdateTaskDependency() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, linkType, lagDays }: { id: string; linkType?: DependencyLinkType; lagDays?: number }) => {
+      const { error } = await supabase
+        .from('task_dependencies')
+        .update({
+          ...(linkType !== undefined ? { link_type: linkType } : {}),
+          ...(lagDays !== undefined ? { lag_days: lagDays } : {}),
+        })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['task_dependencies'] });
+    },
+    onError: (error) => {
+      toast.error('Failed to update dependency: ' + error.message);
+    },
+  });
+}
+
+export function useDeleteTaskDependency() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('task_dependencies')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['task_dependencies'] });
+    },
+    onError: (error) => {
+      toast.error('Failed to remove dependency: ' + error.message);
+    },
+  });
+}
@@ -0,0 +1,319 @@
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { logActivity } from '@/lib/activityLogger';
+import {
+  addDaysToKey,
+  daysBetweenKeys,
+  dueOccurrences,
+  firstOccurrenceOnOrAfter,
+  type RecurrenceMode,
+} from '@/lib/recurrence';
+import type { Json } from '@/integrations/supabase/types';
+import type { Task, TaskRecurrence } from '@/domains/tasks/model';
+import { buildRecurringInstancePayload, type NewTaskInput } from '@/domains/tasks/service';
+import type { RecurrenceEditScope } from '@/types/portfolio';
+
+const todayKey = () => format(new Date(), 'yyyy-MM-dd');
+
+/**
+ * Creates whatever instances a series is missing right now: the next one for
+ * 'on_complete' series with nothing open, every occurrence inside the lead window for
+ * 'schedule' series. Safe to call repeatedly – the unique (recurrence_id,
+ * recurrence_date) index drops duplicates. Returns the number of tasks created.
+ */
+export async function materializeRecurrence(seriesId: string, orgId: string): Promise<number> {
+  const { data: series, error } = await supabase
+    .from('task_recurrences')
+    .select('*')
+    .eq('id', seriesId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!series) return 0;
+
+  // Completed instances before yesterday can't affect what is due
+  const today = todayKey();
+  const { data: instances, error: instancesError } = await supabase
+    .from('tasks')
+    .select('recurrence_date, status')
+    .eq('recurrence_id', seriesId)
+    .or(`status.neq.done,recurrence_date.gte.${addDaysToKey(today, -1)}`);
+
+  if (instancesError) throw instancesError;
+
+  const dates = dueOccurrences(
+    {
+      rrule: series.rrule,
+      dtstart: series.dtstart,
+      endsOn: series.ends_on,
+      mode: series.mode as RecurrenceMode,
+      leadDays: series.lead_days,
+      exdates: series.exdates,
+    },
+    (instances || [])
+      .filter((i) => i.recurrence_date)
+      .map((i) => ({ date: i.recurrence_date!, open: i.status !== 'done' })),
+    today
+  );
+  if (dates.length === 0) return 0;
+
+  const payloads = dates.map((date) =>
+    buildRecurringInstancePayload({ ...series, priority: series.priority as Task['priority'] }, date, orgId)
+  );
+  const { data: created, error: insertError } = await supabase
+    .from('tasks')
+    .upsert(payloads, { onConflict: 'recurrence_id,recurrence_date', ignoreDuplicates: true })
+    .select('id');
+
+  if (insertError) throw insertError;
+  return created?.length ?? 0;
+}
+
+export function useTaskRecurrences() {
+  const { organization } = useAuth();
+  const queryClient = useQueryClient();
+  const orgId = organization?.id;
+
+  useEffect(() => {
+    if (!orgId) return;
+
+    const channel = supabase
+      .channel(`realtime:task_recurrences:${orgId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'task_recurrences', filter: `org_id=eq.${orgId}` },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['task_recurrences', orgId] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [orgId, queryClient]);
+
+  return useQuery({
+    queryKey: ['task_recurrences', orgId],
+    queryFn: async () => {
+      if (!orgId) return [];
+
+      const { data, error } = await supabase
+        .from('task_recurrences')
+        .select('*')
+        .eq('org_id', orgId);
+
+      if (error) throw error;
+      return (data || []) as TaskRecurrence[];
+    },
+    enabled: !!orgId,
+  });
+}
+
+export interface RecurrenceInput {
+  rrule: string;
+  mode: RecurrenceMode;
+  leadDays: number;
+}
+
+/**
+ * Creates a series from a task's fields and its first instance. The first occurrence is
+ * the first match of the rule on or after the task's due date (or start date, or today).
+ * With `taskId`, that existing task becomes the first instance instead of a new one.
+ */
+export function useCreateRecurringTask() {
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ recurrence, taskId, ...input }: NewTaskInput & { recurrence: RecurrenceInput; taskId?: string }) => {
+      if (!organization?.id) throw new Error('No organization');
+
+      const anchor = input.due_date ?? input.start_date ?? todayKey();
+      const dtstart = firstOccurrenceOnOrAfter(recurrence.rrule, anchor, anchor);
+      if (!dtstart) throw new Error('The repeat rule has no occurrences');
+
+      const durationDays = input.start_date
+        ? Math.max(0, daysBetweenKeys(input.start_date, input.due_date ?? input.start_date))
+        : null;
+
+      const { data: series, error } = await supabase
+        .from('task_recurrences')
+        .insert({
+          org_id: organization.id,
+          project_id: input.project_id,
+          rrule: recurrence.rrule,
+          dtstart,
+          mode: recurrence.mode,
+          lead_days: recurrence.leadDays,
+          title: input.title,
+          description: input.description ?? null,
+          priority: input.priority ?? 'medium',
+          weight: input.weight ?? 1,
+          estimated_hours: input.estimated_hours ?? 1,
+          assignee_id: input.assignee_id ?? null,
+          milestone_id: input.milestone_id ?? null,
+          duration_days: durationDays,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const instance = buildRecurringInstancePayload({ ...series, priority: series.priority as Task['priority'] }, dtstart, organization.id);
+      const { data: task, error: taskError } = taskId
+        ? await supabase
+          .from('tasks')
+          .update({
+            recurrence_id: series.id,
+            recurrence_date: dtstart,
+            start_date: instance.start_date,
+            due_date: instance.due_date,
+          })
+          .eq('id', taskId)
+          .select()
+          .single()
+        : await supabase
+          .from('tasks')
+          .insert({ ...instance, status: input.status ?? 'todo', actual_cost: input.actual_cost ?? 0 })
+          .select()
+          .single();
+
+      if (taskError) throw taskError;
+
+      // Schedule-mode series may already have further occurrences inside the lead window
+      await materializeRecurrence(series.id, organization.id);
+      return task;
+    },
+    onSuccess: (task, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['tasks'], exact: false, refetchType: 'all' });
+      queryClient.invalidateQueries({ queryKey: ['task_recurrences'], exact: false });
+      queryClient.invalidateQueries({ queryKey: ['team_members'], exact: false });
+      if (variables.taskId) {
+        toast.success('Task now repeats');
+        return;
+      }
+      toast.success('Recurring task created');
+      logActivity({
+        type: 'task_created',
+        category: 'tasks',
+        title: `Created recurring task "${task.title}"`,
+        entityId: task.id,
+        entityType: 'task',
+      });
+    },
+    onError: (error) => {
+      toast.error('Failed to create recurring task: ' + error.message);
+    },
+  });
+}
+
+export interface RecurringTaskChanges {
+  title?: string;
+  description?: string | null;
+  priority?: Task['priority'];
+  weight?: number;
+  estimated_hours?: number;
+  assignee_id?: string | null;
+  milestone_id?: string | null;
+  duration_days?: number | null;
+}
+
+/** Applies an edit to this and following instances, or to the whole series ("this" edits are plain task updates). */
+export function useEditRecurringTask() {
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
+
+  return useMutation({
+    mutationFn: async (params: {
+      taskId: string;
+      scope: Exclude<RecurrenceEditScope, 'this'>;
+      changes: RecurringTaskChanges;
+      /** Days to move open instances' start and due dates */
+      shiftDays?: number;
+      recurrence?: RecurrenceInput;
+    }) => {
+      if (!organization?.id) throw new Error('No organization');
+
+      const { data: seriesId, error } = await supabase.rpc('edit_recurring_task', {
+        _task_id: params.taskId,
+        _scope: params.scope,
+        _changes: params.changes as Json,
+        _shift_days: params.shiftDays ?? 0,
+        _series: params.recurrence
+          ? { rrule: params.recurrence.rrule, mode: params.recurrence.mode, lead_days: params.recurrence.leadDays }
+          : undefined,
+      });
+
+      if (error) throw error;
+      await materializeRecurrence(seriesId, organization.id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tasks'], exact: false });
+      queryClient.invalidateQueries({ queryKey: ['task_recurrences'], exact: false });
+      queryClient.invalidateQueries({ queryKey: ['team_members'], exact: false });
+      toast.success('Recurring task updated');
+    },
+    onError: (error) => {
+      toast.error('Failed to update recurring task: ' + error.message);
+    },
+  });
+}
+
+/** Deletes this and following instances, or the whole series. Completed instances are kept. */
+export function useDeleteRecurringTask() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ taskId, scope }: { taskId: string; scope: Exclude<RecurrenceEditScope, 'this'> }) => {
+      const { error } = await supabase.rpc('delete_recurring_task', { _task_id: taskId, _scope: scope });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tasks'], exact: false });
+      queryClient.invalidateQueries({ queryKey: ['task_recurrences'], exact: false });
+      queryClient.invalidateQueries({ queryKey: ['team_members'], exact: false });
+      toast.success('Recurring tasks deleted');
+    },
+    onError: (error) => {
+      toast.error('Failed to delete recurring tasks: ' + error.message);
+    },
+  });
+}
+
+/** Ends a series after the given occurrence, removing open instances scheduled later. Existing tasks stay. */
+export function useStopRecurrence() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ seriesId, lastDate }: { seriesId: string; lastDate: string }) => {
+      const { error } = await supabase
+        .from('task_recurrences')
+        .update({ ends_on: lastDate })
+        .eq('id', seriesId);
+
+      if (error) throw error;
+
+      const { error: deleteError } = await supabase
+        .from('tasks')
+        .delete()
+        .eq('recurrence_id', seriesId)
+        .gt('recurrence_date', lastDate)
+        .neq('status', 'done');
+
+      if (deleteError) throw deleteError;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tasks'], exact: false });
+      queryClient.invalidateQueries({ queryKey: ['task_recurrences'], exact: false });
+      toast.success('Task no longer repeats');
+    },
+    onError: (error) => {
+      toast.error('Failed to stop repeating: ' + error.message);
+    },
+  });
+}
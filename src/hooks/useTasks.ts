@@ -5,6 +5,7 @@ import { toast } from 'sonner';
 import { logActivity } from '@/lib/activityLogger';
 import type { Task, TaskWithRelations, Subtask } from '@/domains/tasks/model';
 import { buildNewTaskPayload } from '@/domains/tasks/service';
+import { materializeRecurrence } from '@/hooks/useTaskRecurrences';
 import { useEffect } from 'react';
 
 export function useTasks(projectId?: string) {
@@ -118,6 +119,8 @@ export function useCreateTask() {
       priority?: 'low' | 'medium' | 'high';
       weight?: number;
       estimated_hours?: number;
+      optimistic_hours?: number | null;
+      pessimistic_hours?: number | null;
       actual_cost?: number;
       assignee_id?: string;
       start_date?: string;
@@ -168,6 +171,8 @@ export function useUpdateTask() {
       priority?: 'low' | 'medium' | 'high';
       weight?: number;
       estimated_hours?: number;
+      optimistic_hours?: number | null;
+      pessimistic_hours?: number | null;
       actual_cost?: number | null;
       assignee_id?: string | null;
       start_date?: string | null;
@@ -282,6 +287,13 @@ export function useUpdateTask() {
       return { previousTasks, previousTask };
     },
     onSuccess: async (updated) => {
+      // Completing a recurring instance creates the next one
+      if (updated.status === 'done' && updated.recurrence_id && organization?.id) {
+        await materializeRecurrence(updated.recurrence_id, organization.id).catch((error: Error) => {
+          toast.error('Failed to create next occurrence: ' + error.message);
+        });
+      }
+
       // Update single task query
       queryClient.setQueryData(['task', updated.id], updated);
       
@@ -324,15 +336,21 @@ export function useUpdateTask() {
 
 export function useDeleteTask() {
   const queryClient = useQueryClient();
+  const { organization } = useAuth();
 
   return useMutation({
     mutationFn: async (id: string) => {
-      const { error } = await supabase
+      const { data: deleted, error } = await supabase
         .from('tasks')
         .delete()
-        .eq('id', id);
+        .eq('id', id)
+        .select('recurrence_id');
 
       if (error) throw error;
+
+      // The occurrence is now skipped; an 'on_complete' series needs a new open instance
+      const seriesId = deleted?.[0]?.recurrence_id;
+      if (seriesId && organization?.id) await materializeRecurrence(seriesId, organization.id);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['tasks'], exact: false });
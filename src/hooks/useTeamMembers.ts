@@ -13,6 +13,7 @@ export interface TeamMember {
   id: string;
   contact_id: string;
   capacity: number;
+  hourly_rate?: number;
   org_id: string;
   created_at: string;
   updated_at: string;
@@ -166,6 +167,7 @@ export function useCreateTeamMember() {
     mutationFn: async (data: { 
       contact_id: string; 
       capacity?: number;
+      hourly_rate?: number;
     }) => {
       if (!organization?.id) throw new Error('No organization');
       
@@ -174,6 +176,7 @@ export function useCreateTeamMember() {
         .insert({
           contact_id: data.contact_id,
           capacity: data.capacity || 40,
+          hourly_rate: data.hourly_rate ?? 0,
           org_id: organization.id,
         })
         .select()
@@ -199,6 +202,7 @@ export function useUpdateTeamMember() {
     mutationFn: async ({ id, ...data }: { 
       id: string; 
       capacity?: number;
+      hourly_rate?: number;
     }) => {
       const { data: member, error } = await supabase
         .from('team_members')
@@ -0,0 +1,377 @@
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { isEditableTimeEntry, type TimeEntry } from '@/domains/timesheets/model';
+
+export interface TimeEntryFilters {
+  memberId?: string | null;
+  taskId?: string | null;
+  /** Inclusive yyyy-MM-dd bounds on entry_date */
+  from?: string;
+  to?: string;
+  status?: TimeEntry['status'];
+  /** Only entries with a running timer */
+  running?: boolean;
+}
+
+const roundHours = (hours: number) => Math.round(hours * 100) / 100;
+
+/** Hours elapsed on a running timer, to the hundredth. */
+export function getTimerElapsedHours(entry: Pick<TimeEntry, 'timer_started_at'>, now = new Date()) {
+  if (!entry.timer_started_at) return 0;
+  return Math.max(0, roundHours((now.getTime() - new Date(entry.timer_started_at).getTime()) / 3_600_000));
+}
+
+export function useTimeEntries(filters: TimeEntryFilters = {}, options: { enabled?: boolean } = {}) {
+  const { organization } = useAuth();
+  const queryClient = useQueryClient();
+  const orgId = organization?.id;
+  const { memberId, taskId, from, to, status, running } = filters;
+
+  useEffect(() => {
+    if (!orgId) return;
+
+    const channel = supabase
+      .channel(`realtime:time_entries:${orgId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'time_entries', filter: `org_id=eq.${orgId}` },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['time_entries', orgId] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [orgId, queryClient]);
+
+  return useQuery({
+    queryKey: ['time_entries', orgId, { memberId, taskId, from, to, status, running }],
+    queryFn: async () => {
+      if (!orgId) return [];
+
+      let query = supabase
+        .from('time_entries')
+        .select('*')
+        .eq('org_id', orgId);
+
+      if (memberId) query = query.eq('member_id', memberId);
+      if (taskId) query = query.eq('task_id', taskId);
+      if (from) query = query.gte('entry_date', from);
+      if (to) query = query.lte('entry_date', to);
+      if (status) query = query.eq('status', status);
+      if (running) query = query.not('timer_started_at', 'is', null);
+
+      const { data, error } = await query.order('entry_date').order('created_at');
+
+      if (error) throw error;
+      return (data || []) as TimeEntry[];
+    },
+    enabled: !!orgId && options.enabled !== false,
+  });
+}
+
+/**
+ * Sets the hours of one timesheet cell (member × task × day). Submitted and approved entries in
+ * the cell are kept; the member's editable entries are collapsed into one that makes up the rest.
+ */
+export function useSetTimesheetCell() {
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({
+      memberId,
+      taskId,
+      entryDate,
+      hours,
+      entries,
+    }: {
+      memberId: string;
+      taskId: string;
+      entryDate: string;
+      hours: number;
+      /** Entries currently in the cell */
+      entries: TimeEntry[];
+    }) => {
+      if (!organization?.id) throw new Error('No organization');
+
+      const editable = entries.filter((e) => isEditableTimeEntry(e) && !e.timer_started_at);
+      const locked = entries
+        .filter((e) => !editable.includes(e))
+        .reduce((sum, e) => sum + Number(e.hours), 0);
+      const remaining = roundHours(Math.max(0, hours - locked));
+      if (remaining > 24) throw new Error('A day cannot have more than 24 hours');
+
+      const [keep, ...extra] = editable;
+      if (extra.length > 0 || (keep && remaining === 0)) {
+        const ids = (remaining === 0 ? editable : extra).map((e) => e.id);
+        const { error } = await supabase.from('time_entries').delete().in('id', ids);
+        if (error) throw error;
+      }
+
+      if (remaining === 0) return;
+
+      if (keep) {
+        const { error } = await supabase
+          .from('time_entries')
+          .update({ hours: remaining, status: 'draft' })
+          .eq('id', keep.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('time_entries').insert({
+          org_id: organization.id,
+          member_id: memberId,
+          task_id: taskId,
+          entry_date: entryDate,
+          hours: remaining,
+        });
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['time_entries', organization?.id] });
+    },
+    onError: (error) => {
+      toast.error('Failed to save time: ' + error.message);
+    },
+  });
+}
+
+export function useCreateTimeEntry() {
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
+
+  return useMutation({
+    mutationFn: async (entry: { memberId: string; taskId: string; entryDate: string; hours: number; notes?: string }) => {
+      if (!organization?.id) throw new Error('No organization');
+
+      const { data, error } = await supabase
+        .from('time_entries')
+        .insert({
+          org_id: organization.id,
+          member_id: entry.memberId,
+          task_id: entry.taskId,
+          entry_date: entry.entryDate,
+          hours: roundHours(entry.hours),
+          notes: entry.notes || null,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as TimeEntry;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['time_entries', organization?.id] });
+      toast.success('Time logged');
+    },
+    onError: (error) => {
+      toast.error('Failed to log time: ' + error.message);
+    },
+  });
+}
+
+export function useDeleteTimeEntry() {
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('time_entries')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['time_entries', organization?.id] });
+    },
+    onError: (error) => {
+      toast.error('Failed to delete time entry: ' + error.message);
+    },
+  });
+}
+
+async function stopRunningTimer(memberId: string) {
+  const { data: running, error } = await supabase
+    .from('time_entries')
+    .select('*')
+    .eq('member_id', memberId)
+    .not('timer_started_at', 'is', null)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!running) return null;
+
+  const entry = running as TimeEntry;
+  const hours = Math.min(24, roundHours(Number(entry.hours) + getTimerElapsedHours(entry)));
+  const { error: updateError } = await supabase
+    .from('time_entries')
+    .update({ hours, timer_started_at: null })
+    .eq('id', entry.id);
+
+  if (updateError) throw updateError;
+  return { ...entry, hours, timer_started_at: null };
+}
+
+/** Starts a timer on today's entry for a task, stopping the member's running timer first. */
+export function useStartTimer() {
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ memberId, taskId }: { memberId: string; taskId: string }) => {
+      if (!organization?.id) throw new Error('No organization');
+
+      await stopRunningTimer(memberId);
+
+      const today = format(new Date(), 'yyyy-MM-dd');
+      const startedAt = new Date().toISOString();
+      const { data: existing, error } = await supabase
+        .from('time_entries')
+        .select('*')
+        .eq('member_id', memberId)
+        .eq('task_id', taskId)
+        .eq('entry_date', today)
+        .in('status', ['draft', 'rejected'])
+        .limit(1);
+
+      if (error) throw error;
+
+      if (existing?.[0]) {
+        const { error: updateError } = await supabase
+          .from('time_entries')
+          .update({ timer_started_at: startedAt, status: 'draft' })
+          .eq('id', existing[0].id);
+        if (updateError) throw updateError;
+        return;
+      }
+
+      const { error: insertError } = await supabase.from('time_entries').insert({
+        org_id: organization.id,
+        member_id: memberId,
+        task_id: taskId,
+        entry_date: today,
+        hours: 0,
+        timer_started_at: startedAt,
+      });
+      if (insertError) throw insertError;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['time_entries', organization?.id] });
+    },
+    onError: (error) => {
+      toast.error('Failed to start timer: ' + error.message);
+    },
+  });
+}
+
+/** Stops the member's running timer and adds the elapsed time to its entry. */
+export function useStopTimer() {
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
+
+  return useMutation({
+    mutationFn: (memberId: string) => stopRunningTimer(memberId),
+    onSuccess: (entry) => {
+      queryClient.invalidateQueries({ queryKey: ['time_entries', organization?.id] });
+      if (entry) toast.success(`Logged ${entry.hours}h`);
+    },
+    onError: (error) => {
+      toast.error('Failed to stop timer: ' + error.message);
+    },
+  });
+}
+
+/** Submits a member's draft and rejected entries in a date range for approval. */
+export function useSubmitTimesheet() {
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ memberId, from, to }: { memberId: string; from: string; to: string }) => {
+      const { data, error } = await supabase
+        .from('time_entries')
+        .update({ status: 'submitted', submitted_at: new Date().toISOString() })
+        .eq('member_id', memberId)
+        .gte('entry_date', from)
+        .lte('entry_date', to)
+        .in('status', ['draft', 'rejected'])
+        .is('timer_started_at', null)
+        .gt('hours', 0)
+        .select('id');
+
+      if (error) throw error;
+      return data?.length ?? 0;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ['time_entries', organization?.id] });
+      toast.success(count > 0 ? `Submitted ${count} time ${count === 1 ? 'entry' : 'entries'}` : 'Nothing to submit');
+    },
+    onError: (error) => {
+      toast.error('Failed to submit timesheet: ' + error.message);
+    },
+  });
+}
+
+/** Approves or rejects entries; approval rolls hours and cost up to tasks and projects. */
+export function useReviewTimeEntries() {
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ ids, approve, note }: { ids: string[]; approve: boolean; note?: string }) => {
+      const { data, error } = await supabase.rpc('review_time_entries', {
+        _ids: ids,
+        _approve: approve,
+        _note: note || undefined,
+      });
+
+      if (error) {
+        if (error.message.includes('not_authorized')) {
+          throw new Error('You can only review time for projects you manage');
+        }
+        throw error;
+      }
+      return data as number;
+    },
+    onSuccess: (count, { approve }) => {
+      queryClient.invalidateQueries({ queryKey: ['time_entries', organization?.id] });
+      queryClient.invalidateQueries({ queryKey: ['tasks'], exact: false });
+      queryClient.invalidateQueries({ queryKey: ['projects'], exact: false });
+      toast.success(`${approve ? 'Approved' : 'Rejected'} ${count} time ${count === 1 ? 'entry' : 'entries'}`);
+    },
+    onError: (error) => {
+      toast.error('Failed to review time: ' + error.message);
+    },
+  });
+}
+
+/** Projects whose time a member approves as a project owner or admin (org managers approve all). */
+export function useTimeApprovalProjectIds(memberId: string | null | undefined) {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: ['time_approval_projects', organization?.id, memberId],
+    queryFn: async () => {
+      if (!memberId) return [];
+
+      const { data, error } = await supabase
+        .from('project_members')
+        .select('project_id')
+        .eq('member_id', memberId)
+        .in('role', ['owner', 'admin']);
+
+      if (error) throw error;
+      return (data || []).map((row) => row.project_id);
+    },
+    enabled: !!organization?.id && !!memberId,
+  });
+}
@@ -0,0 +1,175 @@
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import type { WebhookDelivery, WebhookSubscription } from '@/domains/webhooks/model';
+
+export type WebhookSubscriptionInput = Pick<WebhookSubscription, 'name' | 'url' | 'event_types' | 'is_active'> & { id?: string };
+
+/** The org's webhook endpoints (managers only). */
+export function useWebhookSubscriptions() {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: ['webhook_subscriptions', organization?.id],
+    queryFn: async () => {
+      if (!organization?.id) return [];
+
+      const { data, error } = await supabase
+        .from('webhook_subscriptions')
+        .select('*')
+        .eq('org_id', organization.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as WebhookSubscription[];
+    },
+    enabled: !!organization?.id,
+  });
+}
+
+export function useSaveWebhookSubscription() {
+  const { organization } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...subscription }: WebhookSubscriptionInput) => {
+      if (!organization?.id) throw new Error('No organization');
+
+      const { error } = id
+        ? await supabase.from('webhook_subscriptions').update(subscription).eq('id', id)
+        : await supabase.from('webhook_subscriptions').insert({ ...subscription, org_id: organization.id });
+      if (error) {
+        if (error.message.includes('webhook_subscriptions_url_check')) throw new Error('The URL must start with https://');
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhook_subscriptions'] });
+      toast.success('Webhook saved');
+    },
+    onError: (error) => {
+      toast.error('Failed to save webhook: ' + error.message);
+    },
+  });
+}
+
+export function useDeleteWebhookSubscription() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('webhook_subscriptions').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhook_subscriptions'] });
+      queryClient.invalidateQueries({ queryKey: ['webhook_deliveries'] });
+      toast.success('Webhook deleted');
+    },
+    onError: (error) => {
+      toast.error('Failed to delete webhook: ' + error.message);
+    },
+  });
+}
+
+/** Replaces the signing secret; the old one stops working immediately. */
+export function useRotateWebhookSecret() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (subscriptionId: string) => {
+      const { data, error } = await supabase.rpc('rotate_webhook_secret', { _subscription_id: subscriptionId });
+      if (error) throw error;
+      return data as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhook_subscriptions'] });
+      toast.success('New signing secret created – update your receiver');
+    },
+    onError: (error) => {
+      toast.error('Failed to rotate secret: ' + error.message);
+    },
+  });
+}
+
+/** Queues a 'ping' event to the endpoint. */
+export function useSendTestWebhook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (subscriptionId: string) => {
+      const { error } = await supabase.rpc('send_test_webhook', { _subscription_id: subscriptionId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhook_deliveries'] });
+      toast.success('Test event queued – it is sent within a minute');
+    },
+    onError: (error) => {
+      toast.error('Failed to send test event: ' + error.message);
+    },
+  });
+}
+
+/** Delivery log, newest first; all endpoints or one. */
+export function useWebhookDeliveries(subscriptionId?: string, limit = 100) {
+  const { organization } = useAuth();
+  const queryClient = useQueryClient();
+  const orgId = organization?.id;
+
+  useEffect(() => {
+    if (!orgId) return;
+
+    const invalidate = () => queryClient.invalidateQueries({ queryKey: ['webhook_deliveries', orgId] });
+    const channel = supabase
+      .channel(`realtime:webhook_deliveries:${orgId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'webhook_deliveries', filter: `org_id=eq.${orgId}` }, invalidate)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [orgId, queryClient]);
+
+  return useQuery({
+    queryKey: ['webhook_deliveries', orgId, subscriptionId, limit],
+    queryFn: async () => {
+      if (!orgId) return [];
+
+      let query = supabase
+        .from('webhook_deliveries')
+        .select('*')
+        .eq('org_id', orgId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+      if (subscriptionId) query = query.eq('subscription_id', subscriptionId);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []) as WebhookDelivery[];
+    },
+    enabled: !!orgId,
+  });
+}
+
+/** Sends the delivery's event again, as a new delivery with the same event id. */
+export function useReplayWebhookDelivery() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (deliveryId: string) => {
+      const { data, error } = await supabase.rpc('replay_webhook_delivery', { _delivery_id: deliveryId });
+      if (error) throw error;
+      return data as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhook_deliveries'] });
+      toast.success('Replay queued – it is sent within a minute');
+    },
+    onError: (error) => {
+      toast.error('Failed to replay delivery: ' + error.message);
+    },
+  });
+}
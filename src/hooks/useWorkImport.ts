@@ -0,0 +1,46 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+import type { WorkImportPlan } from '@/lib/workImport';
+
+export interface WorkImportResult {
+  program_id: string;
+  projects_created: number;
+  members_created: number;
+  tasks: number;
+  subtasks: number;
+  dependencies: number;
+}
+
+/** Creates the projects, tasks, team members and dependencies of a plan built by buildWorkImport. Managers only. */
+export function useImportWorkItems() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (plan: WorkImportPlan) => {
+      const { data, error } = await supabase.rpc('import_work_items', { _plan: plan as unknown as Json });
+
+      if (error) {
+        if (error.code === '23505') throw new Error('A program or project with that name already exists');
+        if (error.message.includes('not_authorized')) throw new Error('Only managers can import work');
+        if (error.message.includes('assignee_not_found')) throw new Error('An assignee is no longer a team member');
+        if (error.message.includes('_not_found')) throw new Error('The target program or project no longer exists');
+        throw error;
+      }
+      return data as unknown as WorkImportResult;
+    },
+    onSuccess: (result) => {
+      ['portfolios', 'programs', 'projects', 'tasks', 'team_members', 'contacts', 'task_dependencies'].forEach((table) =>
+        queryClient.invalidateQueries({ queryKey: [table], exact: false })
+      );
+      toast.success(
+        `Imported ${result.tasks} task${result.tasks === 1 ? '' : 's'}` +
+          (result.projects_created ? ` into ${result.projects_created} new project${result.projects_created === 1 ? '' : 's'}` : '')
+      );
+    },
+    onError: (error) => {
+      toast.error('Failed to import: ' + error.message);
+    },
+  });
+}
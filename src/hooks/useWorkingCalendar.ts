@@ -0,0 +1,252 @@
+import { useEffect, useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { DEFAULT_WORKING_CALENDAR, type TimeOffRange, type WorkingCalendar } from '@/lib/workingCalendar';
+
+export interface OrgHolidayRow {
+  id: string;
+  org_id: string;
+  date: string;
+  name: string;
+  created_at: string;
+}
+
+export interface MemberTimeOffRow {
+  id: string;
+  org_id: string;
+  member_id: string;
+  start_date: string;
+  end_date: string;
+  reason: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+interface WorkingCalendarSettings {
+  workingDays: number[];
+  hoursPerDay: number;
+}
+
+const EMPTY_HOLIDAYS: OrgHolidayRow[] = [];
+const EMPTY_TIME_OFF: MemberTimeOffRow[] = [];
+
+/**
+ * Org working calendar (weekdays, hours per day), holidays and member time off,
+ * combined into a WorkingCalendar for scheduling. Falls back to Monday–Friday, 8h/day.
+ */
+export function useWorkingCalendar() {
+  const { organization } = useAuth();
+  const queryClient = useQueryClient();
+  const orgId = organization?.id;
+
+  useEffect(() => {
+    if (!orgId) return;
+
+    const invalidate = () => queryClient.invalidateQueries({ queryKey: ['working_calendar', orgId] });
+    const channel = supabase
+      .channel(`realtime:working_calendar:${orgId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'org_working_calendars', filter: `org_id=eq.${orgId}` }, invalidate)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'org_holidays', filter: `org_id=eq.${orgId}` }, invalidate)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'member_time_off', filter: `org_id=eq.${orgId}` }, invalidate)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [orgId, queryClient]);
+
+  const settingsQuery = useQuery({
+    queryKey: ['working_calendar', orgId, 'settings'],
+    queryFn: async (): Promise<WorkingCalendarSettings | null> => {
+      if (!orgId) return null;
+
+      const { data, error } = await supabase
+        .from('org_working_calendars')
+        .select('*')
+        .eq('org_id', orgId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? { workingDays: data.working_days, hoursPerDay: Number(data.hours_per_day) } : null;
+    },
+    enabled: !!orgId,
+  });
+
+  const holidaysQuery = useQuery({
+    queryKey: ['working_calendar', orgId, 'holidays'],
+    queryFn: async () => {
+      if (!orgId) return [];
+
+      const { data, error } = await supabase
+        .from('org_holidays')
+        .select('*')
+        .eq('org_id', orgId)
+        .order('date', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as OrgHolidayRow[];
+    },
+    enabled: !!orgId,
+  });
+
+  const timeOffQuery = useQuery({
+    queryKey: ['working_calendar', orgId, 'time_off'],
+    queryFn: async () => {
+      if (!orgId) return [];
+
+      const { data, error } = await supabase
+        .from('member_time_off')
+        .select('*')
+        .eq('org_id', orgId)
+        .order('start_date', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as MemberTimeOffRow[];
+    },
+    enabled: !!orgId,
+  });
+
+  const settings = settingsQuery.data;
+  const holidays = holidaysQuery.data ?? EMPTY_HOLIDAYS;
+  const timeOff = timeOffQuery.data ?? EMPTY_TIME_OFF;
+
+  const calendar = useMemo<WorkingCalendar>(() => {
+    const timeOffByMember = new Map<string, TimeOffRange[]>();
+    for (const t of timeOff) {
+      const list = timeOffByMember.get(t.member_id) ?? [];
+      list.push({ start: t.start_date, end: t.end_date });
+      timeOffByMember.set(t.member_id, list);
+    }
+    return {
+      workingDays: settings?.workingDays?.length ? settings.workingDays : DEFAULT_WORKING_CALENDAR.workingDays,
+      hoursPerDay: settings?.hoursPerDay || DEFAULT_WORKING_CALENDAR.hoursPerDay,
+      holidays: new Map(holidays.map((h) => [h.date, h.name])),
+      timeOff: timeOffByMember,
+    };
+  }, [settings, holidays, timeOff]);
+
+  return {
+    calendar,
+    holidays,
+    timeOff,
+    isLoading: settingsQuery.isLoading || holidaysQuery.isLoading || timeOffQuery.isLoading,
+  };
+}
+
+export function useSaveWorkingCalendar() {
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ workingDays, hoursPerDay }: WorkingCalendarSettings) => {
+      if (!organization?.id) throw new Error('No organization');
+
+      const { error } = await supabase
+        .from('org_working_calendars')
+        .upsert({ org_id: organization.id, working_days: workingDays, hours_per_day: hoursPerDay });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['working_calendar'] });
+      toast.success('Working calendar saved');
+    },
+    onError: (error) => {
+      toast.error('Failed to save working calendar: ' + error.message);
+    },
+  });
+}
+
+export function useAddHoliday() {
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ date, name }: { date: string; name: string }) => {
+      if (!organization?.id) throw new Error('No organization');
+
+      const { error } = await supabase
+        .from('org_holidays')
+        .insert({ org_id: organization.id, date, name });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['working_calendar'] });
+    },
+    onError: (error) => {
+      toast.error('Failed to add holiday: ' + error.message);
+    },
+  });
+}
+
+export function useDeleteHoliday() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('org_holidays')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['working_calendar'] });
+    },
+    onError: (error) => {
+      toast.error('Failed to remove holiday: ' + error.message);
+    },
+  });
+}
+
+export function useAddTimeOff() {
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
+
+  return useMutation({
+    mutationFn: async (input: { memberId: string; startDate: string; endDate: string; reason?: string }) => {
+      if (!organization?.id) throw new Error('No organization');
+
+      const { error } = await supabase.from('member_time_off').insert({
+        org_id: organization.id,
+        member_id: input.memberId,
+        start_date: input.startDate,
+        end_date: input.endDate,
+        reason: input.reason ?? '',
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['working_calendar'] });
+    },
+    onError: (error) => {
+      toast.error('Failed to add time off: ' + error.message);
+    },
+  });
+}
+
+export function useDeleteTimeOff() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('member_time_off')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['working_calendar'] });
+    },
+    onError: (error) => {
+      toast.error('Failed to remove time off: ' + error.message);
+    },
+  });
+}
@@ -75,52 +75,40 @@ export type Database = {
           },
         ]
       }
-      contacts: {
+      approval_delegations: {
         Row: {
-          avatar_url: string | null
-          company: string | null
           created_at: string
-          email: string | null
-          expertise: string | null
+          delegate_id: string
+          delegator_id: string
+          ends_on: string
           id: string
-          name: string
-          notes: string | null
           org_id: string
-          phone: string | null
-          role: string | null
-          updated_at: string
+          reason: string | null
+          starts_on: string
         }
         Insert: {
-          avatar_url?: string | null
-          company?: string | null
           created_at?: string
-          email?: string | null
-          expertise?: string | null
+          delegate_id: string
+          delegator_id?: string
+          ends_on: string
           id?: string
-          name: string
-          notes?: string | null
           org_id: string
-          phone?: string | null
-          role?: string | null
-          updated_at?: string
+          reason?: string | null
+          starts_on: string
         }
         Update: {
-          avatar_url?: string | null
-          company?: string | null
           created_at?: string
-          email?: string | null
-          expertise?: string | null
+          delegate_id?: string
+          delegator_id?: string
+          ends_on?: string
           id?: string
-          name?: string
-          notes?: string | null
           org_id?: string
-          phone?: string | null
-          role?: string | null
-          updated_at?: string
+          reason?: string | null
+          starts_on?: string
         }
         Relationships: [
           {
-            foreignKeyName: "contacts_org_id_fkey"
+            foreignKeyName: "approval_delegations_org_id_fkey"
             columns: ["org_id"]
             isOneToOne: false
             referencedRelation: "organizations"
@@ -128,127 +116,166 @@ export type Database = {
           },
         ]
       }
-      messages: {
+      approval_policies: {
         Row: {
-          body: string
           created_at: string
-          folder: string
+          created_by: string | null
           id: string
+          is_active: boolean
+          name: string
           org_id: string
-          read: boolean
-          recipient_email: string
-          recipient_name: string | null
-          sender_email: string
-          sender_id: string | null
-          sender_name: string
-          subject: string
+          scope_id: string | null
+          scope_type: string
           updated_at: string
         }
         Insert: {
-          body: string
           created_at?: string
-          folder?: string
+          created_by?: string | null
           id?: string
+          is_active?: boolean
+          name: string
           org_id: string
-          read?: boolean
-          recipient_email: string
-          recipient_name?: string | null
-          sender_email: string
-          sender_id?: string | null
-          sender_name: string
-          subject: string
+          scope_id?: string | null
+          scope_type: string
           updated_at?: string
         }
         Update: {
-          body?: string
           created_at?: string
-          folder?: string
+          created_by?: string | null
           id?: string
+          is_active?: boolean
+          name?: string
           org_id?: string
-          read?: boolean
-          recipient_email?: string
-          recipient_name?: string | null
-          sender_email?: string
-          sender_id?: string | null
-          sender_name?: string
-          subject?: string
+          scope_id?: string | null
+          scope_type?: string
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "messages_org_id_fkey"
+            foreignKeyName: "approval_policies_org_id_fkey"
             columns: ["org_id"]
             isOneToOne: false
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      approval_policy_stages: {
+        Row: {
+          approver_ids: string[]
+          approver_source: string
+          created_at: string
+          id: string
+          min_budget_impact: number | null
+          min_schedule_impact_days: number | null
+          name: string
+          org_id: string
+          policy_id: string
+          position: number
+          reminder_hours: number
+          required_approvals: number
+        }
+        Insert: {
+          approver_ids?: string[]
+          approver_source?: string
+          created_at?: string
+          id?: string
+          min_budget_impact?: number | null
+          min_schedule_impact_days?: number | null
+          name: string
+          org_id: string
+          policy_id: string
+          position: number
+          reminder_hours?: number
+          required_approvals?: number
+        }
+        Update: {
+          approver_ids?: string[]
+          approver_source?: string
+          created_at?: string
+          id?: string
+          min_budget_impact?: number | null
+          min_schedule_impact_days?: number | null
+          name?: string
+          org_id?: string
+          policy_id?: string
+          position?: number
+          reminder_hours?: number
+          required_approvals?: number
+        }
+        Relationships: [
           {
-            foreignKeyName: "messages_sender_id_fkey"
-            columns: ["sender_id"]
+            foreignKeyName: "approval_policy_stages_org_id_fkey"
+            columns: ["org_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "messages_sender_id_fkey"
-            columns: ["sender_id"]
+            foreignKeyName: "approval_policy_stages_policy_id_fkey"
+            columns: ["policy_id"]
             isOneToOne: false
-            referencedRelation: "profiles_safe"
+            referencedRelation: "approval_policies"
             referencedColumns: ["id"]
           },
         ]
       }
-      milestones: {
+      automation_rules: {
         Row: {
+          actions: Json
+          conditions: Json
           created_at: string
+          created_by: string | null
           description: string | null
-          due_date: string
           id: string
+          is_active: boolean
+          name: string
           org_id: string
-          program_id: string
-          project_id: string
-          title: string
+          project_id: string | null
+          trigger_config: Json
+          trigger_type: string
           updated_at: string
         }
         Insert: {
+          actions: Json
+          conditions?: Json
           created_at?: string
+          created_by?: string | null
           description?: string | null
-          due_date: string
           id?: string
+          is_active?: boolean
+          name: string
           org_id: string
-          program_id: string
-          project_id: string
-          title: string
+          project_id?: string | null
+          trigger_config?: Json
+          trigger_type: string
           updated_at?: string
         }
         Update: {
+          actions?: Json
+          conditions?: Json
           created_at?: string
+          created_by?: string | null
           description?: string | null
-          due_date?: string
           id?: string
+          is_active?: boolean
+          name?: string
           org_id?: string
-          program_id?: string
-          project_id?: string
-          title?: string
+          project_id?: string | null
+          trigger_config?: Json
+          trigger_type?: string
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "milestones_org_id_fkey"
+            foreignKeyName: "automation_rules_org_id_fkey"
             columns: ["org_id"]
             isOneToOne: false
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "milestones_program_id_fkey"
-            columns: ["program_id"]
-            isOneToOne: false
-            referencedRelation: "programs"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "milestones_project_id_fkey"
+            foreignKeyName: "automation_rules_project_id_fkey"
             columns: ["project_id"]
             isOneToOne: false
             referencedRelation: "projects"
@@ -256,227 +283,423 @@ export type Database = {
           },
         ]
       }
-      notifications: {
+      automation_runs: {
         Row: {
+          action_results: Json
           created_at: string
+          depth: number
+          detail: string | null
+          entity_id: string
+          entity_title: string | null
+          entity_type: string
           id: string
-          message: string
           org_id: string
           project_id: string | null
-          read: boolean
-          task_id: string | null
-          title: string
-          type: string
-          user_id: string
+          rule_id: string | null
+          rule_name: string
+          status: string
+          trigger_type: string
         }
         Insert: {
+          action_results?: Json
           created_at?: string
+          depth?: number
+          detail?: string | null
+          entity_id: string
+          entity_title?: string | null
+          entity_type: string
           id?: string
-          message: string
           org_id: string
           project_id?: string | null
-          read?: boolean
-          task_id?: string | null
-          title: string
-          type?: string
-          user_id: string
+          rule_id?: string | null
+          rule_name: string
+          status: string
+          trigger_type: string
         }
         Update: {
+          action_results?: Json
           created_at?: string
+          depth?: number
+          detail?: string | null
+          entity_id?: string
+          entity_title?: string | null
+          entity_type?: string
           id?: string
-          message?: string
           org_id?: string
           project_id?: string | null
-          read?: boolean
-          task_id?: string | null
-          title?: string
-          type?: string
-          user_id?: string
+          rule_id?: string | null
+          rule_name?: string
+          status?: string
+          trigger_type?: string
         }
         Relationships: [
           {
-            foreignKeyName: "notifications_org_id_fkey"
+            foreignKeyName: "automation_runs_org_id_fkey"
             columns: ["org_id"]
             isOneToOne: false
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "notifications_project_id_fkey"
+            foreignKeyName: "automation_runs_project_id_fkey"
             columns: ["project_id"]
             isOneToOne: false
             referencedRelation: "projects"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "notifications_task_id_fkey"
-            columns: ["task_id"]
-            isOneToOne: false
-            referencedRelation: "tasks"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "notifications_user_id_fkey"
-            columns: ["user_id"]
-            isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "notifications_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "automation_runs_rule_id_fkey"
+            columns: ["rule_id"]
             isOneToOne: false
-            referencedRelation: "profiles_safe"
+            referencedRelation: "automation_rules"
             referencedColumns: ["id"]
           },
         ]
       }
-      org_invites: {
+      calendar_connections: {
         Row: {
-          accepted_at: string | null
+          assignee_id: string | null
           created_at: string
-          email: string
-          expires_at: string
+          event_count: number
+          feed_nonce: string
           id: string
-          invited_by: string | null
+          include_blocks: boolean
+          include_milestones: boolean
+          include_tasks: boolean
+          kind: string
+          last_synced_at: string | null
+          name: string | null
           org_id: string
-          role: Database["public"]["Enums"]["app_role"]
-          token: string
+          provider: string
+          token_hash: string | null
+          updated_at: string
+          user_id: string
         }
         Insert: {
-          accepted_at?: string | null
+          assignee_id?: string | null
           created_at?: string
-          email: string
-          expires_at?: string
+          event_count?: number
+          feed_nonce?: string
           id?: string
-          invited_by?: string | null
+          include_blocks?: boolean
+          include_milestones?: boolean
+          include_tasks?: boolean
+          kind?: string
+          last_synced_at?: string | null
+          name?: string | null
           org_id: string
-          role?: Database["public"]["Enums"]["app_role"]
-          token?: string
+          provider?: string
+          token_hash?: string | null
+          updated_at?: string
+          user_id: string
         }
         Update: {
-          accepted_at?: string | null
+          assignee_id?: string | null
           created_at?: string
-          email?: string
-          expires_at?: string
+          event_count?: number
+          feed_nonce?: string
           id?: string
-          invited_by?: string | null
+          include_blocks?: boolean
+          include_milestones?: boolean
+          include_tasks?: boolean
+          kind?: string
+          last_synced_at?: string | null
+          name?: string | null
           org_id?: string
-          role?: Database["public"]["Enums"]["app_role"]
-          token?: string
+          provider?: string
+          token_hash?: string | null
+          updated_at?: string
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "org_invites_org_id_fkey"
+            foreignKeyName: "calendar_connections_assignee_id_fkey"
+            columns: ["assignee_id"]
+            isOneToOne: false
+            referencedRelation: "team_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "calendar_connections_org_id_fkey"
             columns: ["org_id"]
             isOneToOne: false
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "calendar_connections_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      organizations: {
+      change_request_approval_steps: {
         Row: {
-          archived_at: string | null
-          archived_by: string | null
+          activated_at: string | null
+          approver_ids: string[]
+          change_request_id: string
           created_at: string
+          decided_at: string | null
           id: string
-          logo_url: string | null
+          last_reminded_at: string | null
           name: string
-          slug: string
-          updated_at: string
+          org_id: string
+          policy_id: string | null
+          position: number
+          reminder_hours: number
+          required_approvals: number
+          round: number
+          status: string
         }
         Insert: {
-          archived_at?: string | null
-          archived_by?: string | null
+          activated_at?: string | null
+          approver_ids: string[]
+          change_request_id: string
           created_at?: string
+          decided_at?: string | null
           id?: string
-          logo_url?: string | null
+          last_reminded_at?: string | null
           name: string
-          slug: string
-          updated_at?: string
+          org_id: string
+          policy_id?: string | null
+          position: number
+          reminder_hours?: number
+          required_approvals: number
+          round?: number
+          status?: string
         }
         Update: {
-          archived_at?: string | null
-          archived_by?: string | null
+          activated_at?: string | null
+          approver_ids?: string[]
+          change_request_id?: string
           created_at?: string
+          decided_at?: string | null
           id?: string
-          logo_url?: string | null
+          last_reminded_at?: string | null
           name?: string
-          slug?: string
-          updated_at?: string
+          org_id?: string
+          policy_id?: string | null
+          position?: number
+          reminder_hours?: number
+          required_approvals?: number
+          round?: number
+          status?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "change_request_approval_steps_change_request_id_fkey"
+            columns: ["change_request_id"]
+            isOneToOne: false
+            referencedRelation: "change_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "change_request_approval_steps_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "change_request_approval_steps_policy_id_fkey"
+            columns: ["policy_id"]
+            isOneToOne: false
+            referencedRelation: "approval_policies"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      portfolios: {
+      change_request_approvals: {
         Row: {
+          approved: boolean
+          approver_id: string
+          change_request_id: string
+          comment: string | null
           created_at: string
-          description: string | null
           id: string
-          name: string
+          on_behalf_of: string | null
           org_id: string
-          updated_at: string
+          step_id: string | null
         }
         Insert: {
+          approved: boolean
+          approver_id: string
+          change_request_id: string
+          comment?: string | null
           created_at?: string
-          description?: string | null
           id?: string
-          name: string
+          on_behalf_of?: string | null
           org_id: string
-          updated_at?: string
+          step_id?: string | null
         }
         Update: {
+          approved?: boolean
+          approver_id?: string
+          change_request_id?: string
+          comment?: string | null
           created_at?: string
-          description?: string | null
           id?: string
-          name?: string
+          on_behalf_of?: string | null
           org_id?: string
-          updated_at?: string
+          step_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "portfolios_org_id_fkey"
+            foreignKeyName: "change_request_approvals_change_request_id_fkey"
+            columns: ["change_request_id"]
+            isOneToOne: false
+            referencedRelation: "change_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "change_request_approvals_org_id_fkey"
             columns: ["org_id"]
             isOneToOne: false
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "change_request_approvals_step_id_fkey"
+            columns: ["step_id"]
+            isOneToOne: false
+            referencedRelation: "change_request_approval_steps"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      profiles: {
+      change_requests: {
+        Row: {
+          approver_ids: string[]
+          created_at: string
+          description: string
+          id: string
+          impact_summary: Json | null
+          implementation: Json | null
+          implemented_at: string | null
+          items: Json
+          org_id: string
+          program_id: string | null
+          project_id: string
+          requested_at: string
+          requested_by: string
+          reverted_at: string | null
+          status: string
+          title: string
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          approver_ids?: string[]
+          created_at?: string
+          description?: string
+          id?: string
+          impact_summary?: Json | null
+          implementation?: Json | null
+          implemented_at?: string | null
+          items?: Json
+          org_id: string
+          program_id?: string | null
+          project_id: string
+          requested_at?: string
+          requested_by?: string
+          reverted_at?: string | null
+          status?: string
+          title: string
+          type: string
+          updated_at?: string
+        }
+        Update: {
+          approver_ids?: string[]
+          created_at?: string
+          description?: string
+          id?: string
+          impact_summary?: Json | null
+          implementation?: Json | null
+          implemented_at?: string | null
+          items?: Json
+          org_id?: string
+          program_id?: string | null
+          project_id?: string
+          requested_at?: string
+          requested_by?: string
+          reverted_at?: string | null
+          status?: string
+          title?: string
+          type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "change_requests_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "change_requests_program_id_fkey"
+            columns: ["program_id"]
+            isOneToOne: false
+            referencedRelation: "programs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "change_requests_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contacts: {
         Row: {
           avatar_url: string | null
+          company: string | null
           created_at: string
-          email: string
-          first_name: string | null
+          email: string | null
+          expertise: string | null
           id: string
-          last_name: string | null
-          org_id: string | null
+          name: string
+          notes: string | null
+          org_id: string
+          phone: string | null
+          role: string | null
           updated_at: string
         }
         Insert: {
           avatar_url?: string | null
+          company?: string | null
           created_at?: string
-          email: string
-          first_name?: string | null
-          id: string
-          last_name?: string | null
-          org_id?: string | null
+          email?: string | null
+          expertise?: string | null
+          id?: string
+          name: string
+          notes?: string | null
+          org_id: string
+          phone?: string | null
+          role?: string | null
           updated_at?: string
         }
         Update: {
           avatar_url?: string | null
+          company?: string | null
           created_at?: string
-          email?: string
-          first_name?: string | null
+          email?: string | null
+          expertise?: string | null
           id?: string
-          last_name?: string | null
-          org_id?: string | null
+          name?: string
+          notes?: string | null
+          org_id?: string
+          phone?: string | null
+          role?: string | null
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "profiles_org_id_fkey"
+            foreignKeyName: "contacts_org_id_fkey"
             columns: ["org_id"]
             isOneToOne: false
             referencedRelation: "organizations"
@@ -484,273 +707,1544 @@ export type Database = {
           },
         ]
       }
-      programs: {
+      custom_reports: {
         Row: {
-          allocated_budget: number | null
-          archived_at: string | null
-          budget: number | null
           created_at: string
-          custom_project_statuses: Json | null
-          custom_statuses: Json | null
+          created_by: string | null
+          definition: Json
           description: string | null
-          end_date: string | null
           id: string
           name: string
           org_id: string
-          owner_id: string | null
-          portfolio_id: string
-          start_date: string | null
-          status: string
           updated_at: string
         }
         Insert: {
-          allocated_budget?: number | null
-          archived_at?: string | null
-          budget?: number | null
           created_at?: string
-          custom_project_statuses?: Json | null
-          custom_statuses?: Json | null
+          created_by?: string | null
+          definition: Json
           description?: string | null
-          end_date?: string | null
           id?: string
           name: string
           org_id: string
-          owner_id?: string | null
-          portfolio_id: string
-          start_date?: string | null
-          status?: string
           updated_at?: string
         }
         Update: {
-          allocated_budget?: number | null
-          archived_at?: string | null
-          budget?: number | null
           created_at?: string
-          custom_project_statuses?: Json | null
-          custom_statuses?: Json | null
+          created_by?: string | null
+          definition?: Json
           description?: string | null
-          end_date?: string | null
           id?: string
           name?: string
           org_id?: string
-          owner_id?: string | null
-          portfolio_id?: string
-          start_date?: string | null
-          status?: string
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "programs_org_id_fkey"
+            foreignKeyName: "custom_reports_org_id_fkey"
             columns: ["org_id"]
             isOneToOne: false
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      member_time_off: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          end_date: string
+          id: string
+          member_id: string
+          org_id: string
+          reason: string
+          start_date: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          end_date: string
+          id?: string
+          member_id: string
+          org_id: string
+          reason?: string
+          start_date: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          end_date?: string
+          id?: string
+          member_id?: string
+          org_id?: string
+          reason?: string
+          start_date?: string
+        }
+        Relationships: [
           {
-            foreignKeyName: "programs_owner_id_fkey"
-            columns: ["owner_id"]
-            isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "programs_owner_id_fkey"
-            columns: ["owner_id"]
+            foreignKeyName: "member_time_off_member_id_fkey"
+            columns: ["member_id"]
             isOneToOne: false
-            referencedRelation: "profiles_safe"
+            referencedRelation: "team_members"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "programs_portfolio_id_fkey"
-            columns: ["portfolio_id"]
+            foreignKeyName: "member_time_off_org_id_fkey"
+            columns: ["org_id"]
             isOneToOne: false
-            referencedRelation: "portfolios"
+            referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
         ]
       }
-      project_members: {
+      messages: {
         Row: {
+          body: string
           created_at: string
+          folder: string
           id: string
-          member_id: string
           org_id: string
-          project_id: string
-          role: string
+          read: boolean
+          recipient_email: string
+          recipient_name: string | null
+          sender_email: string
+          sender_id: string | null
+          sender_name: string
+          subject: string
+          updated_at: string
         }
         Insert: {
+          body: string
           created_at?: string
+          folder?: string
           id?: string
-          member_id: string
           org_id: string
-          project_id: string
-          role?: string
+          read?: boolean
+          recipient_email: string
+          recipient_name?: string | null
+          sender_email: string
+          sender_id?: string | null
+          sender_name: string
+          subject: string
+          updated_at?: string
         }
         Update: {
+          body?: string
           created_at?: string
+          folder?: string
           id?: string
-          member_id?: string
           org_id?: string
-          project_id?: string
-          role?: string
+          read?: boolean
+          recipient_email?: string
+          recipient_name?: string | null
+          sender_email?: string
+          sender_id?: string | null
+          sender_name?: string
+          subject?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "project_members_member_id_fkey"
-            columns: ["member_id"]
+            foreignKeyName: "messages_org_id_fkey"
+            columns: ["org_id"]
             isOneToOne: false
-            referencedRelation: "team_members"
+            referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "project_members_org_id_fkey"
-            columns: ["org_id"]
+            foreignKeyName: "messages_sender_id_fkey"
+            columns: ["sender_id"]
             isOneToOne: false
-            referencedRelation: "organizations"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "project_members_project_id_fkey"
-            columns: ["project_id"]
+            foreignKeyName: "messages_sender_id_fkey"
+            columns: ["sender_id"]
             isOneToOne: false
-            referencedRelation: "projects"
+            referencedRelation: "profiles_safe"
             referencedColumns: ["id"]
           },
         ]
       }
-      projects: {
+      milestones: {
+        Row: {
+          created_at: string
+          description: string | null
+          due_date: string
+          id: string
+          org_id: string
+          program_id: string
+          project_id: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          due_date: string
+          id?: string
+          org_id: string
+          program_id: string
+          project_id: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          due_date?: string
+          id?: string
+          org_id?: string
+          program_id?: string
+          project_id?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "milestones_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "milestones_program_id_fkey"
+            columns: ["program_id"]
+            isOneToOne: false
+            referencedRelation: "programs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "milestones_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          created_at: string
+          id: string
+          link: string | null
+          message: string
+          org_id: string
+          project_id: string | null
+          read: boolean
+          task_id: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          link?: string | null
+          message: string
+          org_id: string
+          project_id?: string | null
+          read?: boolean
+          task_id?: string | null
+          title: string
+          type?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          link?: string | null
+          message?: string
+          org_id?: string
+          project_id?: string | null
+          read?: boolean
+          task_id?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles_safe"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      org_holidays: {
+        Row: {
+          created_at: string
+          date: string
+          id: string
+          name: string
+          org_id: string
+        }
+        Insert: {
+          created_at?: string
+          date: string
+          id?: string
+          name?: string
+          org_id: string
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          id?: string
+          name?: string
+          org_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "org_holidays_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      org_invites: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          org_id: string
+          role: Database["public"]["Enums"]["app_role"]
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          org_id: string
+          role?: Database["public"]["Enums"]["app_role"]
+          token?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          org_id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "org_invites_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      org_working_calendars: {
+        Row: {
+          created_at: string
+          hours_per_day: number
+          org_id: string
+          updated_at: string
+          working_days: number[]
+        }
+        Insert: {
+          created_at?: string
+          hours_per_day?: number
+          org_id: string
+          updated_at?: string
+          working_days?: number[]
+        }
+        Update: {
+          created_at?: string
+          hours_per_day?: number
+          org_id?: string
+          updated_at?: string
+          working_days?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "org_working_calendars_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          archived_at: string | null
+          archived_by: string | null
+          created_at: string
+          id: string
+          logo_url: string | null
+          name: string
+          slug: string
+          updated_at: string
+        }
+        Insert: {
+          archived_at?: string | null
+          archived_by?: string | null
+          created_at?: string
+          id?: string
+          logo_url?: string | null
+          name: string
+          slug: string
+          updated_at?: string
+        }
+        Update: {
+          archived_at?: string | null
+          archived_by?: string | null
+          created_at?: string
+          id?: string
+          logo_url?: string | null
+          name?: string
+          slug?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      personal_access_tokens: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          id: string
+          last_used_at: string | null
+          name: string
+          org_id: string
+          project_ids: string[] | null
+          revoked_at: string | null
+          scope: string
+          token_hash: string
+          token_prefix: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          last_used_at?: string | null
+          name: string
+          org_id: string
+          project_ids?: string[] | null
+          revoked_at?: string | null
+          scope?: string
+          token_hash: string
+          token_prefix: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          last_used_at?: string | null
+          name?: string
+          org_id?: string
+          project_ids?: string[] | null
+          revoked_at?: string | null
+          scope?: string
+          token_hash?: string
+          token_prefix?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "personal_access_tokens_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      portfolio_decisions: {
+        Row: {
+          decided_at: string
+          decided_by: string
+          description: string
+          entry_hash: string
+          id: string
+          metadata: Json | null
+          org_id: string
+          outcome: string
+          portfolio_id: string
+          prev_hash: string | null
+          program_ids: string[]
+          project_ids: string[]
+          seq: number
+          title: string
+          type: string
+        }
+        Insert: {
+          decided_at?: string
+          decided_by: string
+          description?: string
+          entry_hash?: string
+          id?: string
+          metadata?: Json | null
+          org_id: string
+          outcome?: string
+          portfolio_id: string
+          prev_hash?: string | null
+          program_ids?: string[]
+          project_ids?: string[]
+          seq?: number
+          title: string
+          type: string
+        }
+        Update: {
+          decided_at?: string
+          decided_by?: string
+          description?: string
+          entry_hash?: string
+          id?: string
+          metadata?: Json | null
+          org_id?: string
+          outcome?: string
+          portfolio_id?: string
+          prev_hash?: string | null
+          program_ids?: string[]
+          project_ids?: string[]
+          seq?: number
+          title?: string
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "portfolio_decisions_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      portfolios: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          org_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          org_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          org_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "portfolios_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          email: string
+          first_name: string | null
+          id: string
+          last_name: string | null
+          org_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          email: string
+          first_name?: string | null
+          id: string
+          last_name?: string | null
+          org_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          email?: string
+          first_name?: string | null
+          id?: string
+          last_name?: string | null
+          org_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      programs: {
+        Row: {
+          allocated_budget: number | null
+          archived_at: string | null
+          budget: number | null
+          created_at: string
+          custom_project_statuses: Json | null
+          custom_statuses: Json | null
+          description: string | null
+          end_date: string | null
+          id: string
+          name: string
+          org_id: string
+          owner_id: string | null
+          portfolio_id: string
+          start_date: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          allocated_budget?: number | null
+          archived_at?: string | null
+          budget?: number | null
+          created_at?: string
+          custom_project_statuses?: Json | null
+          custom_statuses?: Json | null
+          description?: string | null
+          end_date?: string | null
+          id?: string
+          name: string
+          org_id: string
+          owner_id?: string | null
+          portfolio_id: string
+          start_date?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          allocated_budget?: number | null
+          archived_at?: string | null
+          budget?: number | null
+          created_at?: string
+          custom_project_statuses?: Json | null
+          custom_statuses?: Json | null
+          description?: string | null
+          end_date?: string | null
+          id?: string
+          name?: string
+          org_id?: string
+          owner_id?: string | null
+          portfolio_id?: string
+          start_date?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "programs_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "programs_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "programs_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles_safe"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "programs_portfolio_id_fkey"
+            columns: ["portfolio_id"]
+            isOneToOne: false
+            referencedRelation: "portfolios"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_members: {
+        Row: {
+          created_at: string
+          id: string
+          member_id: string
+          org_id: string
+          project_id: string
+          role: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          member_id: string
+          org_id: string
+          project_id: string
+          role?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          member_id?: string
+          org_id?: string
+          project_id?: string
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_members_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "team_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_members_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_members_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      projects: {
+        Row: {
+          actual_cost: number | null
+          allocated_budget: number | null
+          archived_at: string | null
+          budget: number | null
+          created_at: string
+          custom_statuses: Json | null
+          custom_task_priorities: Json | null
+          custom_task_statuses: Json | null
+          description: string | null
+          end_date: string | null
+          id: string
+          name: string
+          org_id: string
+          program_id: string
+          progress: number
+          start_date: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          actual_cost?: number | null
+          allocated_budget?: number | null
+          archived_at?: string | null
+          budget?: number | null
+          created_at?: string
+          custom_statuses?: Json | null
+          custom_task_priorities?: Json | null
+          custom_task_statuses?: Json | null
+          description?: string | null
+          end_date?: string | null
+          id?: string
+          name: string
+          org_id: string
+          program_id: string
+          progress?: number
+          start_date?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          actual_cost?: number | null
+          allocated_budget?: number | null
+          archived_at?: string | null
+          budget?: number | null
+          created_at?: string
+          custom_statuses?: Json | null
+          custom_task_priorities?: Json | null
+          custom_task_statuses?: Json | null
+          description?: string | null
+          end_date?: string | null
+          id?: string
+          name?: string
+          org_id?: string
+          program_id?: string
+          progress?: number
+          start_date?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "projects_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "projects_program_id_fkey"
+            columns: ["program_id"]
+            isOneToOne: false
+            referencedRelation: "programs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_subscription_runs: {
+        Row: {
+          created_at: string
+          error: string | null
+          file_path: string | null
+          id: string
+          org_id: string
+          recipient_count: number
+          sender_id: string | null
+          sent_count: number
+          status: string
+          subscription_id: string
+        }
+        Insert: {
+          created_at?: string
+          error?: string | null
+          file_path?: string | null
+          id?: string
+          org_id: string
+          recipient_count?: number
+          sender_id?: string | null
+          sent_count?: number
+          status: string
+          subscription_id: string
+        }
+        Update: {
+          created_at?: string
+          error?: string | null
+          file_path?: string | null
+          id?: string
+          org_id?: string
+          recipient_count?: number
+          sender_id?: string | null
+          sent_count?: number
+          status?: string
+          subscription_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_subscription_runs_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_subscription_runs_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "report_subscriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_subscriptions: {
+        Row: {
+          claimed_at: string | null
+          created_at: string
+          created_by: string | null
+          cron_expression: string
+          date_range: string
+          format: string
+          id: string
+          is_active: boolean
+          last_error: string | null
+          last_run_at: string | null
+          last_status: string | null
+          name: string
+          next_run_at: string | null
+          org_id: string
+          portfolio_id: string | null
+          program_id: string | null
+          recipients: string[]
+          report_type: string
+          updated_at: string
+        }
+        Insert: {
+          claimed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          cron_expression: string
+          date_range?: string
+          format?: string
+          id?: string
+          is_active?: boolean
+          last_error?: string | null
+          last_run_at?: string | null
+          last_status?: string | null
+          name: string
+          next_run_at?: string | null
+          org_id: string
+          portfolio_id?: string | null
+          program_id?: string | null
+          recipients: string[]
+          report_type?: string
+          updated_at?: string
+        }
+        Update: {
+          claimed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          cron_expression?: string
+          date_range?: string
+          format?: string
+          id?: string
+          is_active?: boolean
+          last_error?: string | null
+          last_run_at?: string | null
+          last_status?: string | null
+          name?: string
+          next_run_at?: string | null
+          org_id?: string
+          portfolio_id?: string | null
+          program_id?: string | null
+          recipients?: string[]
+          report_type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_subscriptions_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_subscriptions_portfolio_id_fkey"
+            columns: ["portfolio_id"]
+            isOneToOne: false
+            referencedRelation: "portfolios"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_subscriptions_program_id_fkey"
+            columns: ["program_id"]
+            isOneToOne: false
+            referencedRelation: "programs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      risk_score_history: {
+        Row: {
+          cost_exposure: number | null
+          id: string
+          impact: number
+          org_id: string
+          probability: number
+          project_id: string
+          recorded_at: string
+          residual_impact: number | null
+          residual_probability: number | null
+          risk_id: string
+          schedule_exposure_days: number | null
+          status: string
+        }
+        Insert: {
+          cost_exposure?: number | null
+          id?: string
+          impact: number
+          org_id: string
+          probability: number
+          project_id: string
+          recorded_at?: string
+          residual_impact?: number | null
+          residual_probability?: number | null
+          risk_id: string
+          schedule_exposure_days?: number | null
+          status: string
+        }
+        Update: {
+          cost_exposure?: number | null
+          id?: string
+          impact?: number
+          org_id?: string
+          probability?: number
+          project_id?: string
+          recorded_at?: string
+          residual_impact?: number | null
+          residual_probability?: number | null
+          risk_id?: string
+          schedule_exposure_days?: number | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "risk_score_history_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "risk_score_history_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "risk_score_history_risk_id_fkey"
+            columns: ["risk_id"]
+            isOneToOne: false
+            referencedRelation: "risks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      risks: {
+        Row: {
+          blocker_task_id: string | null
+          cost_exposure: number | null
+          created_at: string
+          created_by: string | null
+          description: string
+          due_date: string | null
+          id: string
+          identified_at: string
+          impact: number
+          mitigation_plan: string | null
+          org_id: string
+          owner_id: string | null
+          probability: number
+          program_id: string | null
+          project_id: string
+          realized_at: string | null
+          residual_impact: number | null
+          residual_probability: number | null
+          schedule_exposure_days: number | null
+          severity: string
+          status: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          blocker_task_id?: string | null
+          cost_exposure?: number | null
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          due_date?: string | null
+          id?: string
+          identified_at?: string
+          impact?: number
+          mitigation_plan?: string | null
+          org_id: string
+          owner_id?: string | null
+          probability?: number
+          program_id?: string | null
+          project_id: string
+          realized_at?: string | null
+          residual_impact?: number | null
+          residual_probability?: number | null
+          schedule_exposure_days?: number | null
+          severity?: string
+          status?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          blocker_task_id?: string | null
+          cost_exposure?: number | null
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          due_date?: string | null
+          id?: string
+          identified_at?: string
+          impact?: number
+          mitigation_plan?: string | null
+          org_id?: string
+          owner_id?: string | null
+          probability?: number
+          program_id?: string | null
+          project_id?: string
+          realized_at?: string | null
+          residual_impact?: number | null
+          residual_probability?: number | null
+          schedule_exposure_days?: number | null
+          severity?: string
+          status?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "risks_blocker_task_id_fkey"
+            columns: ["blocker_task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "risks_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "risks_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "team_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "risks_program_id_fkey"
+            columns: ["program_id"]
+            isOneToOne: false
+            referencedRelation: "programs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "risks_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      schedule_baseline_items: {
+        Row: {
+          baseline_id: string
+          budget: number | null
+          due_date: string | null
+          estimated_hours: number | null
+          id: string
+          item_id: string
+          item_type: string
+          name: string
+          org_id: string
+          parent_id: string | null
+          start_date: string | null
+        }
+        Insert: {
+          baseline_id: string
+          budget?: number | null
+          due_date?: string | null
+          estimated_hours?: number | null
+          id?: string
+          item_id: string
+          item_type: string
+          name: string
+          org_id: string
+          parent_id?: string | null
+          start_date?: string | null
+        }
+        Update: {
+          baseline_id?: string
+          budget?: number | null
+          due_date?: string | null
+          estimated_hours?: number | null
+          id?: string
+          item_id?: string
+          item_type?: string
+          name?: string
+          org_id?: string
+          parent_id?: string | null
+          start_date?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schedule_baseline_items_baseline_id_fkey"
+            columns: ["baseline_id"]
+            isOneToOne: false
+            referencedRelation: "schedule_baselines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_baseline_items_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      schedule_baselines: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          org_id: string
+          scope_id: string
+          scope_type: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          org_id: string
+          scope_id: string
+          scope_type: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          org_id?: string
+          scope_id?: string
+          scope_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schedule_baselines_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      schedule_blocks: {
+        Row: {
+          assignee_id: string | null
+          caldav_href: string | null
+          calendar_connection_id: string | null
+          created_at: string
+          end_utc: string
+          external_uid: string | null
+          ical_uid: string | null
+          id: string
+          org_id: string
+          source_id: string | null
+          source_type: string
+          start_utc: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          assignee_id?: string | null
+          caldav_href?: string | null
+          calendar_connection_id?: string | null
+          created_at?: string
+          end_utc: string
+          external_uid?: string | null
+          ical_uid?: string | null
+          id?: string
+          org_id: string
+          source_id?: string | null
+          source_type?: string
+          start_utc: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          assignee_id?: string | null
+          caldav_href?: string | null
+          calendar_connection_id?: string | null
+          created_at?: string
+          end_utc?: string
+          external_uid?: string | null
+          ical_uid?: string | null
+          id?: string
+          org_id?: string
+          source_id?: string | null
+          source_type?: string
+          start_utc?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schedule_blocks_assignee_id_fkey"
+            columns: ["assignee_id"]
+            isOneToOne: false
+            referencedRelation: "team_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_blocks_calendar_connection_id_fkey"
+            columns: ["calendar_connection_id"]
+            isOneToOne: false
+            referencedRelation: "calendar_connections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_blocks_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      subtasks: {
+        Row: {
+          assignee_id: string | null
+          completed: boolean
+          created_at: string
+          id: string
+          org_id: string
+          position: number
+          task_id: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          assignee_id?: string | null
+          completed?: boolean
+          created_at?: string
+          id?: string
+          org_id: string
+          position?: number
+          task_id: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          assignee_id?: string | null
+          completed?: boolean
+          created_at?: string
+          id?: string
+          org_id?: string
+          position?: number
+          task_id?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subtasks_assignee_id_fkey"
+            columns: ["assignee_id"]
+            isOneToOne: false
+            referencedRelation: "team_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subtasks_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subtasks_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_dependencies: {
         Row: {
-          actual_cost: number | null
-          allocated_budget: number | null
-          archived_at: string | null
-          budget: number | null
           created_at: string
-          custom_statuses: Json | null
-          custom_task_priorities: Json | null
-          custom_task_statuses: Json | null
-          description: string | null
-          end_date: string | null
           id: string
-          name: string
+          lag_days: number
+          link_type: string
           org_id: string
-          program_id: string
-          progress: number
-          start_date: string | null
-          status: string
-          updated_at: string
+          predecessor_task_id: string
+          successor_task_id: string
+          type: string
         }
         Insert: {
-          actual_cost?: number | null
-          allocated_budget?: number | null
-          archived_at?: string | null
-          budget?: number | null
           created_at?: string
-          custom_statuses?: Json | null
-          custom_task_priorities?: Json | null
-          custom_task_statuses?: Json | null
-          description?: string | null
-          end_date?: string | null
           id?: string
-          name: string
+          lag_days?: number
+          link_type?: string
           org_id: string
-          program_id: string
-          progress?: number
-          start_date?: string | null
-          status?: string
-          updated_at?: string
+          predecessor_task_id: string
+          successor_task_id: string
+          type: string
         }
         Update: {
-          actual_cost?: number | null
-          allocated_budget?: number | null
-          archived_at?: string | null
-          budget?: number | null
           created_at?: string
-          custom_statuses?: Json | null
-          custom_task_priorities?: Json | null
-          custom_task_statuses?: Json | null
-          description?: string | null
-          end_date?: string | null
           id?: string
-          name?: string
+          lag_days?: number
+          link_type?: string
           org_id?: string
-          program_id?: string
-          progress?: number
-          start_date?: string | null
-          status?: string
-          updated_at?: string
+          predecessor_task_id?: string
+          successor_task_id?: string
+          type?: string
         }
         Relationships: [
           {
-            foreignKeyName: "projects_org_id_fkey"
+            foreignKeyName: "task_dependencies_org_id_fkey"
             columns: ["org_id"]
             isOneToOne: false
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "projects_program_id_fkey"
-            columns: ["program_id"]
+            foreignKeyName: "task_dependencies_predecessor_task_id_fkey"
+            columns: ["predecessor_task_id"]
             isOneToOne: false
-            referencedRelation: "programs"
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_dependencies_successor_task_id_fkey"
+            columns: ["successor_task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
             referencedColumns: ["id"]
           },
         ]
       }
-      subtasks: {
+      task_recurrences: {
         Row: {
           assignee_id: string | null
-          completed: boolean
           created_at: string
+          created_by: string | null
+          description: string | null
+          dtstart: string
+          duration_days: number | null
+          ends_on: string | null
+          estimated_hours: number
+          exdates: string[]
           id: string
+          lead_days: number
+          milestone_id: string | null
+          mode: string
           org_id: string
-          position: number
-          task_id: string
+          priority: string
+          project_id: string
+          rrule: string
           title: string
           updated_at: string
+          weight: number
         }
         Insert: {
           assignee_id?: string | null
-          completed?: boolean
           created_at?: string
+          created_by?: string | null
+          description?: string | null
+          dtstart: string
+          duration_days?: number | null
+          ends_on?: string | null
+          estimated_hours?: number
+          exdates?: string[]
           id?: string
+          lead_days?: number
+          milestone_id?: string | null
+          mode?: string
           org_id: string
-          position?: number
-          task_id: string
+          priority?: string
+          project_id: string
+          rrule: string
           title: string
           updated_at?: string
+          weight?: number
         }
         Update: {
           assignee_id?: string | null
-          completed?: boolean
           created_at?: string
+          created_by?: string | null
+          description?: string | null
+          dtstart?: string
+          duration_days?: number | null
+          ends_on?: string | null
+          estimated_hours?: number
+          exdates?: string[]
           id?: string
+          lead_days?: number
+          milestone_id?: string | null
+          mode?: string
           org_id?: string
-          position?: number
-          task_id?: string
+          priority?: string
+          project_id?: string
+          rrule?: string
           title?: string
           updated_at?: string
+          weight?: number
         }
         Relationships: [
           {
-            foreignKeyName: "subtasks_assignee_id_fkey"
+            foreignKeyName: "task_recurrences_assignee_id_fkey"
             columns: ["assignee_id"]
             isOneToOne: false
             referencedRelation: "team_members"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "subtasks_org_id_fkey"
+            foreignKeyName: "task_recurrences_milestone_id_fkey"
+            columns: ["milestone_id"]
+            isOneToOne: false
+            referencedRelation: "milestones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_recurrences_org_id_fkey"
             columns: ["org_id"]
             isOneToOne: false
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "subtasks_task_id_fkey"
-            columns: ["task_id"]
+            foreignKeyName: "task_recurrences_project_id_fkey"
+            columns: ["project_id"]
             isOneToOne: false
-            referencedRelation: "tasks"
+            referencedRelation: "projects"
             referencedColumns: ["id"]
           },
         ]
@@ -758,6 +2252,7 @@ export type Database = {
       tasks: {
         Row: {
           actual_cost: number | null
+          actual_hours: number
           archived_at: string | null
           assignee_id: string | null
           created_at: string
@@ -766,10 +2261,14 @@ export type Database = {
           estimated_hours: number
           id: string
           milestone_id: string | null
+          optimistic_hours: number | null
           org_id: string
+          pessimistic_hours: number | null
           position: number
           priority: string
           project_id: string
+          recurrence_date: string | null
+          recurrence_id: string | null
           start_date: string | null
           status: string
           title: string
@@ -778,6 +2277,7 @@ export type Database = {
         }
         Insert: {
           actual_cost?: number | null
+          actual_hours?: number
           archived_at?: string | null
           assignee_id?: string | null
           created_at?: string
@@ -786,10 +2286,14 @@ export type Database = {
           estimated_hours?: number
           id?: string
           milestone_id?: string | null
+          optimistic_hours?: number | null
           org_id: string
+          pessimistic_hours?: number | null
           position?: number
           priority?: string
           project_id: string
+          recurrence_date?: string | null
+          recurrence_id?: string | null
           start_date?: string | null
           status?: string
           title: string
@@ -798,6 +2302,7 @@ export type Database = {
         }
         Update: {
           actual_cost?: number | null
+          actual_hours?: number
           archived_at?: string | null
           assignee_id?: string | null
           created_at?: string
@@ -806,10 +2311,14 @@ export type Database = {
           estimated_hours?: number
           id?: string
           milestone_id?: string | null
+          optimistic_hours?: number | null
           org_id?: string
+          pessimistic_hours?: number | null
           position?: number
           priority?: string
           project_id?: string
+          recurrence_date?: string | null
+          recurrence_id?: string | null
           start_date?: string | null
           status?: string
           title?: string
@@ -845,6 +2354,13 @@ export type Database = {
             referencedRelation: "projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "tasks_recurrence_id_fkey"
+            columns: ["recurrence_id"]
+            isOneToOne: false
+            referencedRelation: "task_recurrences"
+            referencedColumns: ["id"]
+          },
         ]
       }
       team_members: {
@@ -852,6 +2368,7 @@ export type Database = {
           capacity: number
           contact_id: string
           created_at: string
+          hourly_rate: number
           id: string
           org_id: string
           updated_at: string
@@ -860,6 +2377,7 @@ export type Database = {
           capacity?: number
           contact_id: string
           created_at?: string
+          hourly_rate?: number
           id?: string
           org_id: string
           updated_at?: string
@@ -868,6 +2386,7 @@ export type Database = {
           capacity?: number
           contact_id?: string
           created_at?: string
+          hourly_rate?: number
           id?: string
           org_id?: string
           updated_at?: string
@@ -889,6 +2408,98 @@ export type Database = {
           },
         ]
       }
+      time_entries: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          entry_date: string
+          hourly_rate: number | null
+          hours: number
+          id: string
+          member_id: string
+          notes: string | null
+          org_id: string
+          project_id: string
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          submitted_at: string | null
+          task_id: string
+          timer_started_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          entry_date: string
+          hourly_rate?: number | null
+          hours?: number
+          id?: string
+          member_id: string
+          notes?: string | null
+          org_id: string
+          project_id?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          submitted_at?: string | null
+          task_id: string
+          timer_started_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          entry_date?: string
+          hourly_rate?: number | null
+          hours?: number
+          id?: string
+          member_id?: string
+          notes?: string | null
+          org_id?: string
+          project_id?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          submitted_at?: string | null
+          task_id?: string
+          timer_started_at?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "time_entries_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "team_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entries_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entries_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entries_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -973,6 +2584,132 @@ export type Database = {
           },
         ]
       }
+      webhook_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          error: string | null
+          event_id: string
+          event_type: string
+          id: string
+          last_attempt_at: string | null
+          next_attempt_at: string
+          org_id: string
+          payload: Json
+          replay_of: string | null
+          response_body: string | null
+          response_status: number | null
+          status: string
+          subscription_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          error?: string | null
+          event_id: string
+          event_type: string
+          id?: string
+          last_attempt_at?: string | null
+          next_attempt_at?: string
+          org_id: string
+          payload: Json
+          replay_of?: string | null
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+          subscription_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          error?: string | null
+          event_id?: string
+          event_type?: string
+          id?: string
+          last_attempt_at?: string | null
+          next_attempt_at?: string
+          org_id?: string
+          payload?: Json
+          replay_of?: string | null
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+          subscription_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_replay_of_fkey"
+            columns: ["replay_of"]
+            isOneToOne: false
+            referencedRelation: "webhook_deliveries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_subscriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_subscriptions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          event_types: string[]
+          id: string
+          is_active: boolean
+          name: string
+          org_id: string
+          secret: string
+          updated_at: string
+          url: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          event_types: string[]
+          id?: string
+          is_active?: boolean
+          name: string
+          org_id: string
+          secret?: string
+          updated_at?: string
+          url: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          event_types?: string[]
+          id?: string
+          is_active?: boolean
+          name?: string
+          org_id?: string
+          secret?: string
+          updated_at?: string
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_subscriptions_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       profiles_safe: {
@@ -1018,7 +2755,15 @@ export type Database = {
       }
     }
     Functions: {
+      apply_schedule_shift: {
+        Args: { _blocks?: Json; _tasks: Json }
+        Returns: undefined
+      }
       archive_organization: { Args: { _org_id: string }; Returns: undefined }
+      can_approve_project_time: {
+        Args: { _project_id: string; _user_id: string }
+        Returns: boolean
+      }
       create_organization_and_assign_owner: {
         Args: { _name: string; _slug: string }
         Returns: {
@@ -1038,12 +2783,57 @@ export type Database = {
           isSetofReturn: false
         }
       }
+      create_personal_access_token: {
+        Args: {
+          _expires_at?: string
+          _name: string
+          _project_ids?: string[]
+          _scope?: string
+        }
+        Returns: string
+      }
+      create_schedule_baseline: {
+        Args: { _name: string; _scope_id: string; _scope_type: string }
+        Returns: string
+      }
+      decide_change_request: {
+        Args: { _approved: boolean; _change_request_id: string; _comment?: string }
+        Returns: string
+      }
+      delete_recurring_task: {
+        Args: { _scope: string; _task_id: string }
+        Returns: undefined
+      }
+      edit_recurring_task: {
+        Args: {
+          _changes?: Json
+          _scope: string
+          _series?: Json
+          _shift_days?: number
+          _task_id: string
+        }
+        Returns: string
+      }
+      get_approval_inbox: {
+        Args: never
+        Returns: {
+          activated_at: string
+          approval_count: number
+          change_request_id: string
+          on_behalf_of: string
+          required_approvals: number
+          step_id: string
+          step_name: string
+          step_position: number
+        }[]
+      }
       get_user_email: { Args: { _user_id: string }; Returns: string }
       get_user_org_id: { Args: { _user_id: string }; Returns: string }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
       }
+      get_user_team_member_id: { Args: { _user_id: string }; Returns: string }
       handle_owner_leaving: {
         Args: { _org_id: string; _user_id: string }
         Returns: undefined
@@ -1062,11 +2852,62 @@ export type Database = {
         }
         Returns: boolean
       }
+      implement_change_request: {
+        Args: { _change_request_id: string }
+        Returns: Json
+      }
+      import_legacy_change_request_approvals: {
+        Args: { _approvals: Json }
+        Returns: number
+      }
+      import_legacy_portfolio_decision: { Args: { _entry: Json }; Returns: string }
+      import_project_plan: {
+        Args: { _plan: Json; _project_id: string }
+        Returns: Json
+      }
+      import_work_items: { Args: { _plan: Json }; Returns: Json }
       remove_user_from_org: {
         Args: { _org_id: string; _user_id: string }
         Returns: undefined
       }
+      replay_webhook_delivery: { Args: { _delivery_id: string }; Returns: string }
+      revert_change_request: {
+        Args: { _change_request_id: string }
+        Returns: undefined
+      }
+      review_time_entries: {
+        Args: { _approve: boolean; _ids: string[]; _note?: string }
+        Returns: number
+      }
+      revoke_personal_access_token: {
+        Args: { _token_id: string }
+        Returns: undefined
+      }
+      risk_score_severity: { Args: { _score: number }; Returns: string }
+      rotate_webhook_secret: { Args: { _subscription_id: string }; Returns: string }
+      save_approval_policy: {
+        Args: {
+          _is_active?: boolean
+          _name: string
+          _policy_id?: string
+          _scope_id?: string
+          _scope_type: string
+          _stages: Json
+        }
+        Returns: string
+      }
+      send_test_webhook: { Args: { _subscription_id: string }; Returns: string }
       user_has_no_org: { Args: { user_id: string }; Returns: boolean }
+      verify_portfolio_decision_chain: {
+        Args: never
+        Returns: {
+          checked_count: number
+          first_invalid_id: string
+          first_invalid_seq: number
+          head_hash: string
+          is_valid: boolean
+        }[]
+      }
     }
     Enums: {
       app_role: "owner" | "admin" | "manager" | "member" | "viewer"
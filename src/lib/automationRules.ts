@@ -0,0 +1,264 @@
+/**
+ * Automation rules – Masterbook "Discipline Creates Freedom".
+ *
+ * A rule is trigger → conditions → actions. Rules run in the database (see the automation_rules
+ * migration) whenever a task, risk or project changes, so this module only describes them: which
+ * conditions and actions make sense for each trigger, how a rule reads in one line, and what
+ * makes a draft invalid before it is saved.
+ */
+
+import type {
+  AutomationAction,
+  AutomationActionType,
+  AutomationAssignee,
+  AutomationCondition,
+  AutomationConditionOperator,
+  AutomationRecipient,
+  AutomationRule,
+  AutomationTriggerType,
+} from '@/types/masterbook';
+import { defaultProjectStatuses, defaultTaskPriorities, defaultTaskStatuses } from './workflow';
+
+export type AutomationEntity = 'task' | 'risk' | 'milestone' | 'project';
+
+export interface AutomationOption {
+  value: string;
+  label: string;
+}
+
+export interface AutomationTriggerDefinition {
+  label: string;
+  entity: AutomationEntity;
+  /** Statuses for the from / to narrowing of status triggers */
+  statuses?: AutomationOption[];
+}
+
+const taskStatusOptions = defaultTaskStatuses.map((s) => ({ value: s.id, label: s.label }));
+const taskPriorityOptions = defaultTaskPriorities.map((p) => ({ value: p.id, label: p.label }));
+const projectStatusOptions = defaultProjectStatuses.map((s) => ({ value: s.id, label: s.label }));
+
+export const RISK_STATUS_OPTIONS: AutomationOption[] = [
+  { value: 'identified', label: 'Identified' },
+  { value: 'active', label: 'Active' },
+  { value: 'mitigated', label: 'Mitigated' },
+  { value: 'realized', label: 'Realized' },
+];
+
+export const AUTOMATION_TRIGGERS: Record<AutomationTriggerType, AutomationTriggerDefinition> = {
+  task_created: { label: 'Task is created', entity: 'task' },
+  task_status_changed: { label: 'Task status changes', entity: 'task', statuses: taskStatusOptions },
+  task_assigned: { label: 'Task is assigned', entity: 'task' },
+  milestone_completed: { label: 'All tasks in a milestone are done', entity: 'milestone' },
+  risk_created: { label: 'Risk is identified', entity: 'risk' },
+  risk_status_changed: { label: 'Risk status changes', entity: 'risk', statuses: RISK_STATUS_OPTIONS },
+  project_status_changed: { label: 'Project status changes', entity: 'project', statuses: projectStatusOptions },
+};
+
+export const AUTOMATION_TRIGGER_TYPES = Object.keys(AUTOMATION_TRIGGERS) as AutomationTriggerType[];
+
+export interface AutomationConditionField {
+  field: string;
+  label: string;
+  /** Fixed values to pick from; free text otherwise */
+  options?: AutomationOption[];
+  numeric?: boolean;
+}
+
+/** Columns of the triggering record that conditions can test */
+export const AUTOMATION_CONDITION_FIELDS: Record<AutomationEntity, AutomationConditionField[]> = {
+  task: [
+    { field: 'status', label: 'Status', options: taskStatusOptions },
+    { field: 'priority', label: 'Priority', options: taskPriorityOptions },
+    { field: 'assignee_id', label: 'Assignee' },
+    { field: 'milestone_id', label: 'Milestone' },
+    { field: 'due_date', label: 'Due date' },
+    { field: 'estimated_hours', label: 'Estimated hours', numeric: true },
+    { field: 'title', label: 'Title' },
+  ],
+  risk: [
+    { field: 'status', label: 'Status', options: RISK_STATUS_OPTIONS },
+    {
+      field: 'severity',
+      label: 'Severity',
+      options: ['low', 'medium', 'high', 'critical'].map((s) => ({ value: s, label: s[0].toUpperCase() + s.slice(1) })),
+    },
+    { field: 'probability', label: 'Probability (1–5)', numeric: true },
+    { field: 'impact', label: 'Impact (1–5)', numeric: true },
+    { field: 'owner_id', label: 'Owner' },
+    { field: 'blocker_task_id', label: 'Blocker task' },
+  ],
+  milestone: [
+    { field: 'title', label: 'Title' },
+    { field: 'due_date', label: 'Due date' },
+  ],
+  project: [
+    { field: 'status', label: 'Status', options: projectStatusOptions },
+    { field: 'progress', label: 'Progress (%)', numeric: true },
+    { field: 'budget', label: 'Budget', numeric: true },
+    { field: 'end_date', label: 'End date' },
+  ],
+};
+
+export const AUTOMATION_OPERATOR_LABELS: Record<AutomationConditionOperator, string> = {
+  equals: 'is',
+  not_equals: 'is not',
+  in: 'is one of',
+  not_in: 'is none of',
+  is_set: 'is set',
+  is_not_set: 'is empty',
+  greater_than: 'is greater than',
+  less_than: 'is less than',
+};
+
+export const AUTOMATION_ACTION_LABELS: Record<AutomationActionType, string> = {
+  set_task_status: 'Set task status',
+  set_task_priority: 'Set task priority',
+  assign_task: 'Assign task',
+  create_task: 'Create a task',
+  notify: 'Send a notification',
+};
+
+export const AUTOMATION_ASSIGNEE_LABELS: Record<AutomationAssignee, string> = {
+  project_owner: 'Project owner',
+  member: 'A team member',
+  task_assignee: 'Task assignee',
+  risk_owner: 'Risk owner',
+  unassign: 'Nobody',
+};
+
+export const AUTOMATION_RECIPIENT_LABELS: Record<AutomationRecipient, string> = {
+  watchers: 'Watchers',
+  assignee: 'Task assignee',
+  risk_owner: 'Risk owner',
+  project_owner: 'Project owner',
+  org_managers: 'Org managers',
+};
+
+/** Placeholders rendered into task titles and notification text */
+export const AUTOMATION_TEMPLATE_VARIABLES = ['{{title}}', '{{status}}', '{{previous_status}}', '{{project}}'];
+
+/** Task actions change the triggering task, so they only apply to task triggers */
+export function automationActionsFor(trigger: AutomationTriggerType): AutomationActionType[] {
+  return AUTOMATION_TRIGGERS[trigger].entity === 'task'
+    ? ['set_task_status', 'set_task_priority', 'assign_task', 'create_task', 'notify']
+    : ['create_task', 'notify'];
+}
+
+/** Assignees available to a new task; an assign action can't hand the task to its own assignee */
+export function automationAssigneesFor(trigger: AutomationTriggerType, actionType: 'assign_task' | 'create_task'): AutomationAssignee[] {
+  const entity = AUTOMATION_TRIGGERS[trigger].entity;
+  const assignees: AutomationAssignee[] = ['project_owner', 'member'];
+  if (actionType === 'create_task' && entity === 'task') assignees.push('task_assignee');
+  if (entity === 'risk') assignees.push('risk_owner');
+  assignees.push('unassign');
+  return assignees;
+}
+
+export function automationRecipientsFor(trigger: AutomationTriggerType): AutomationRecipient[] {
+  const entity = AUTOMATION_TRIGGERS[trigger].entity;
+  return [
+    'watchers',
+    ...(entity === 'task' ? (['assignee'] as const) : []),
+    ...(entity === 'risk' ? (['risk_owner'] as const) : []),
+    'project_owner',
+    'org_managers',
+  ];
+}
+
+/** A fresh action of the given type with sensible defaults */
+export function defaultAutomationAction(type: AutomationActionType): AutomationAction {
+  switch (type) {
+    case 'set_task_status':
+      return { type, status: 'review' };
+    case 'set_task_priority':
+      return { type, priority: 'high' };
+    case 'assign_task':
+      return { type, assignee: 'project_owner' };
+    case 'create_task':
+      return { type, title: 'Follow up: {{title}}', priority: 'medium', assignee: 'project_owner' };
+    case 'notify':
+      return { type, recipients: ['watchers'], title: '{{title}}' };
+  }
+}
+
+function optionLabel(options: AutomationOption[] | undefined, value: string | undefined) {
+  return options?.find((o) => o.value === value)?.label ?? value;
+}
+
+/** e.g. "Task status changes to Review" */
+export function describeAutomationTrigger(rule: Pick<AutomationRule, 'triggerType' | 'fromStatus' | 'toStatus'>): string {
+  const trigger = AUTOMATION_TRIGGERS[rule.triggerType];
+  const parts = [trigger.label];
+  if (rule.fromStatus) parts.push(`from ${optionLabel(trigger.statuses, rule.fromStatus)}`);
+  if (rule.toStatus) parts.push(`to ${optionLabel(trigger.statuses, rule.toStatus)}`);
+  return parts.join(' ');
+}
+
+export function describeAutomationCondition(trigger: AutomationTriggerType, condition: AutomationCondition): string {
+  const field = AUTOMATION_CONDITION_FIELDS[AUTOMATION_TRIGGERS[trigger].entity].find((f) => f.field === condition.field);
+  const operator = AUTOMATION_OPERATOR_LABELS[condition.operator];
+  if (condition.operator === 'is_set' || condition.operator === 'is_not_set') {
+    return `${field?.label ?? condition.field} ${operator}`;
+  }
+  const values = Array.isArray(condition.value) ? condition.value : [condition.value ?? ''];
+  return `${field?.label ?? condition.field} ${operator} ${values.map((v) => optionLabel(field?.options, v)).join(', ')}`;
+}
+
+export function describeAutomationAction(action: AutomationAction): string {
+  switch (action.type) {
+    case 'set_task_status':
+      return `Set status to ${optionLabel(taskStatusOptions, action.status)}`;
+    case 'set_task_priority':
+      return `Set priority to ${optionLabel(taskPriorityOptions, action.priority)}`;
+    case 'assign_task':
+      return action.assignee === 'unassign' ? 'Unassign the task' : `Assign to ${AUTOMATION_ASSIGNEE_LABELS[action.assignee].toLowerCase()}`;
+    case 'create_task':
+      return `Create ${action.linkBlocker ? 'blocker ' : ''}task "${action.title}"`;
+    case 'notify':
+      return `Notify ${action.recipients.map((r) => AUTOMATION_RECIPIENT_LABELS[r].toLowerCase()).join(', ')}`;
+  }
+}
+
+/** First problem with a rule draft, or null when it can be saved */
+export function validateAutomationRule(
+  rule: Pick<AutomationRule, 'name' | 'triggerType' | 'fromStatus' | 'toStatus' | 'conditions' | 'actions'>
+): string | null {
+  if (!rule.name.trim()) return 'Name the rule';
+  if (rule.fromStatus && rule.fromStatus === rule.toStatus) return 'The from and to statuses must differ';
+
+  for (const condition of rule.conditions) {
+    if (!condition.field) return 'Pick a field for each condition';
+    if (condition.operator === 'is_set' || condition.operator === 'is_not_set') continue;
+    const values = Array.isArray(condition.value) ? condition.value : [condition.value];
+    if (values.length === 0 || values.some((v) => !v?.trim())) return 'Give each condition a value';
+    const field = AUTOMATION_CONDITION_FIELDS[AUTOMATION_TRIGGERS[rule.triggerType].entity].find((f) => f.field === condition.field);
+    if (field?.numeric && values.some((v) => Number.isNaN(Number(v)))) return `${field.label} must be compared with a number`;
+  }
+
+  if (rule.actions.length === 0) return 'Add at least one action';
+  const allowed = automationActionsFor(rule.triggerType);
+  for (const action of rule.actions) {
+    if (!allowed.includes(action.type)) return `${AUTOMATION_ACTION_LABELS[action.type]} only works with task triggers`;
+    if ((action.type === 'assign_task' || action.type === 'create_task') && action.assignee === 'member' && !action.memberId) {
+      return 'Pick the team member to assign';
+    }
+    if (action.type === 'create_task') {
+      if (!action.title.trim()) return 'Give the new task a title';
+      if (action.dueInDays !== undefined && (!Number.isInteger(action.dueInDays) || action.dueInDays < 0)) {
+        return 'Due in days must be a whole number of 0 or more';
+      }
+    }
+    if (action.type === 'notify') {
+      if (action.recipients.length === 0) return 'Pick who to notify';
+      if (!action.title.trim()) return 'Give the notification a title';
+    }
+  }
+
+  // A rule that sets the status it triggers on re-runs itself; loop protection would stop it, but it is never intended
+  if (rule.triggerType === 'task_status_changed' && !rule.toStatus) {
+    if (rule.actions.some((a) => a.type === 'set_task_status')) {
+      return 'A rule that sets the task status needs a "to" status, or it would trigger itself';
+    }
+  }
+  return null;
+}
@@ -0,0 +1,182 @@
+/**
+ * Baseline Variance
+ *
+ * Compares a saved schedule baseline with the live plan: start/finish variance per task and
+ * project (in org working days, positive = later than baselined), milestones that slipped,
+ * and estimated-hours / budget drift.
+ */
+
+import { parseISO } from 'date-fns';
+import type { ScheduleBaselineItem } from '@/domains/schedule/model';
+import type { Milestone, Project, Task } from '@/types/portfolio';
+import { DEFAULT_WORKING_CALENDAR, workingDaysBetween, type WorkingCalendar } from './workingCalendar';
+
+export interface ItemVariance {
+  itemId: string;
+  itemType: 'project' | 'task';
+  name: string;
+  /** Project for tasks, program for projects */
+  parentId: string | null;
+  baselineStart?: string;
+  baselineFinish?: string;
+  currentStart?: string;
+  currentFinish?: string;
+  /** Working days; undefined when either side has no date */
+  startVarianceDays?: number;
+  finishVarianceDays?: number;
+  baselineHours?: number;
+  currentHours?: number;
+  /** In the baseline but since deleted or archived */
+  removed: boolean;
+}
+
+export interface MilestoneSlip {
+  milestoneId: string;
+  name: string;
+  projectId: string | null;
+  baselineDue: string;
+  currentDue?: string;
+  /** Working days later than baselined (negative = pulled in) */
+  slipDays: number;
+  removed: boolean;
+}
+
+export interface BaselineVarianceSummary {
+  tasksCompared: number;
+  lateStarts: number;
+  lateFinishes: number;
+  /** Mean finish variance over compared tasks, working days */
+  avgFinishVarianceDays: number;
+  maxFinishVarianceDays: number;
+  slippedMilestones: number;
+  addedTasks: number;
+  removedTasks: number;
+  baselineHours: number;
+  currentHours: number;
+  baselineBudget: number;
+  currentBudget: number;
+}
+
+export interface BaselineVariance {
+  projects: ItemVariance[];
+  tasks: ItemVariance[];
+  milestones: MilestoneSlip[];
+  /** Live tasks in the baselined projects that were created after the baseline */
+  addedTaskIds: string[];
+  summary: BaselineVarianceSummary;
+}
+
+const variance = (calendar: WorkingCalendar, baseline?: string, current?: string) =>
+  baseline && current ? workingDaysBetween(calendar, parseISO(baseline), parseISO(current)) : undefined;
+
+export function computeBaselineVariance(
+  items: ScheduleBaselineItem[],
+  current: { projects: Project[]; tasks: Task[]; milestones: Milestone[] },
+  calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR
+): BaselineVariance {
+  const projectMap = new Map(current.projects.map((p) => [p.id, p]));
+  const taskMap = new Map(current.tasks.map((t) => [t.id, t]));
+  const milestoneMap = new Map(current.milestones.map((m) => [m.id, m]));
+
+  const projects: ItemVariance[] = [];
+  const tasks: ItemVariance[] = [];
+  const milestones: MilestoneSlip[] = [];
+  const baselinedTaskIds = new Set<string>();
+  const baselinedProjectIds = new Set<string>();
+  let baselineBudget = 0;
+  let currentBudget = 0;
+
+  for (const item of items) {
+    const baselineStart = item.start_date ?? undefined;
+    const baselineFinish = item.due_date ?? undefined;
+
+    if (item.item_type === 'project') {
+      baselinedProjectIds.add(item.item_id);
+      const p = projectMap.get(item.item_id);
+      baselineBudget += item.budget ?? 0;
+      currentBudget += p ? p.allocatedBudget ?? p.budget ?? 0 : 0;
+      projects.push({
+        itemId: item.item_id,
+        itemType: 'project',
+        name: p?.name ?? item.name,
+        parentId: item.parent_id,
+        baselineStart,
+        baselineFinish,
+        currentStart: p?.startDate || undefined,
+        currentFinish: p?.endDate || undefined,
+        startVarianceDays: variance(calendar, baselineStart, p?.startDate || undefined),
+        finishVarianceDays: variance(calendar, baselineFinish, p?.endDate || undefined),
+        baselineHours: item.estimated_hours ?? undefined,
+        removed: !p,
+      });
+    } else if (item.item_type === 'task') {
+      baselinedTaskIds.add(item.item_id);
+      const t = taskMap.get(item.item_id);
+      tasks.push({
+        itemId: item.item_id,
+        itemType: 'task',
+        name: t?.title ?? item.name,
+        parentId: item.parent_id,
+        baselineStart,
+        baselineFinish,
+        currentStart: t?.startDate,
+        currentFinish: t?.dueDate,
+        startVarianceDays: variance(calendar, baselineStart, t?.startDate),
+        finishVarianceDays: variance(calendar, baselineFinish, t?.dueDate),
+        baselineHours: item.estimated_hours ?? undefined,
+        currentHours: t?.estimatedHours,
+        removed: !t,
+      });
+    } else if (item.item_type === 'milestone' && baselineFinish) {
+      const m = milestoneMap.get(item.item_id);
+      milestones.push({
+        milestoneId: item.item_id,
+        name: m?.title ?? item.name,
+        projectId: item.parent_id,
+        baselineDue: baselineFinish,
+        currentDue: m?.dueDate,
+        slipDays: variance(calendar, baselineFinish, m?.dueDate) ?? 0,
+        removed: !m,
+      });
+    }
+  }
+
+  // Project hours: live total of the project's tasks, for comparison with the baselined total.
+  for (const p of projects) {
+    p.currentHours = current.tasks
+      .filter((t) => t.projectId === p.itemId)
+      .reduce((sum, t) => sum + (t.estimatedHours ?? 0), 0);
+  }
+
+  const addedTaskIds = current.tasks
+    .filter((t) => baselinedProjectIds.has(t.projectId) && !baselinedTaskIds.has(t.id))
+    .map((t) => t.id);
+
+  const compared = tasks.filter((t) => t.finishVarianceDays !== undefined);
+  const finishVariances = compared.map((t) => t.finishVarianceDays!);
+
+  return {
+    projects,
+    tasks,
+    milestones: milestones.sort((a, b) => b.slipDays - a.slipDays),
+    addedTaskIds,
+    summary: {
+      tasksCompared: compared.length,
+      lateStarts: tasks.filter((t) => (t.startVarianceDays ?? 0) > 0).length,
+      lateFinishes: finishVariances.filter((v) => v > 0).length,
+      avgFinishVarianceDays: finishVariances.length
+        ? Math.round((finishVariances.reduce((a, b) => a + b, 0) / finishVariances.length) * 10) / 10
+        : 0,
+      maxFinishVarianceDays: finishVariances.length ? Math.max(...finishVariances) : 0,
+      slippedMilestones: milestones.filter((m) => m.slipDays > 0).length,
+      addedTasks: addedTaskIds.length,
+      removedTasks: tasks.filter((t) => t.removed).length,
+      baselineHours: tasks.reduce((sum, t) => sum + (t.baselineHours ?? 0), 0),
+      currentHours: current.tasks
+        .filter((t) => baselinedProjectIds.has(t.projectId))
+        .reduce((sum, t) => sum + (t.estimatedHours ?? 0), 0),
+      baselineBudget,
+      currentBudget,
+    },
+  };
+}
@@ -0,0 +1,307 @@
+/**
+ * Change request impact analysis – Masterbook "Discipline Defines Reality".
+ * Simulates a change request's items against the live schedule: critical path before/after
+ * (computeCriticalPath), date moves pushed through the dependency graph (getDownstreamImpact),
+ * milestone slips, members pushed over capacity (calculateMemberAllocation) and the labour cost delta.
+ */
+
+import { parseISO } from 'date-fns';
+import type {
+  ChangeRequestImpactSummary,
+  ChangeRequestItem,
+  ChangeRequestMilestoneSlip,
+  ChangeRequestOverallocation,
+  ChangeRequestType,
+  TaskDependencyEdge,
+} from '../types/masterbook.ts';
+import { computeCriticalPath, getDownstreamImpact, type TaskForCriticalPath } from './criticalPath.ts';
+import {
+  calculateMemberAllocation,
+  defaultAllocationWeights,
+  type AllocationWeights,
+  type TaskForAllocation,
+} from './allocationCalculator.ts';
+import { DEFAULT_WORKING_CALENDAR, workingDaysBetween, type WorkingCalendar } from './workingCalendar.ts';
+
+export interface ImpactTask extends TaskForCriticalPath {
+  milestoneId?: string;
+  status: string;
+  priority: string;
+  weight: number;
+}
+
+export interface ImpactMilestone {
+  id: string;
+  title: string;
+  projectId: string;
+  dueDate: string;
+}
+
+export interface ImpactMember {
+  id: string;
+  capacity: number;
+  hourlyRate?: number;
+}
+
+export interface ChangeImpactInput {
+  type: ChangeRequestType;
+  projectId: string;
+  items: ChangeRequestItem[];
+  /** All org tasks (successors may sit in other projects) */
+  tasks: ImpactTask[];
+  milestones: ImpactMilestone[];
+  members: ImpactMember[];
+  edges: TaskDependencyEdge[];
+  calendar?: WorkingCalendar;
+  weights?: AllocationWeights;
+}
+
+/** Id given to proposed new work, so it can't collide with stored rows */
+const proposedId = (index: number) => `proposed-${index}`;
+
+const maxDate = (dates: (string | undefined)[]) =>
+  dates.reduce<string | undefined>((max, d) => (d && (!max || d > max) ? d : max), undefined);
+
+interface SimulatedState {
+  tasks: Map<string, ImpactTask>;
+  milestones: Map<string, ImpactMilestone>;
+  edges: TaskDependencyEdge[];
+  /** Existing tasks/milestones the items touch directly */
+  changedTaskIds: Set<string>;
+  changedMilestoneIds: Set<string>;
+  /** Tasks whose dates the items move; their successors are re-dated */
+  movedTaskIds: string[];
+}
+
+/** The schedule with the change request's items applied. */
+function applyItems(input: ChangeImpactInput): SimulatedState {
+  const tasks = new Map(input.tasks.map((t) => [t.id, { ...t }]));
+  const milestones = new Map(input.milestones.map((m) => [m.id, { ...m }]));
+  const removed = new Set<string>();
+  const state: SimulatedState = {
+    tasks,
+    milestones,
+    edges: input.edges,
+    changedTaskIds: new Set(),
+    changedMilestoneIds: new Set(),
+    movedTaskIds: [],
+  };
+
+  input.items.forEach((item, i) => {
+    const changes = item.changes ?? {};
+    if (item.type === 'task') {
+      if (input.type === 'add_work') {
+        const id = proposedId(i);
+        state.changedTaskIds.add(id);
+        tasks.set(id, {
+          id,
+          title: item.title,
+          projectId: input.projectId,
+          estimatedHours: changes.estimatedHours ?? 0,
+          startDate: changes.startDate,
+          dueDate: changes.dueDate,
+          assigneeId: changes.assigneeId ?? undefined,
+          status: 'todo',
+          priority: 'medium',
+          weight: 1,
+        });
+        return;
+      }
+      const current = item.existingId ? tasks.get(item.existingId) : undefined;
+      if (!current) return;
+      state.changedTaskIds.add(current.id);
+      if (input.type === 'remove_work') {
+        tasks.delete(current.id);
+        removed.add(current.id);
+        return;
+      }
+      const next: ImpactTask = {
+        ...current,
+        ...(changes.title !== undefined ? { title: changes.title } : {}),
+        ...(changes.startDate !== undefined ? { startDate: changes.startDate } : {}),
+        ...(changes.dueDate !== undefined ? { dueDate: changes.dueDate } : {}),
+        ...(changes.estimatedHours !== undefined ? { estimatedHours: changes.estimatedHours } : {}),
+        ...('assigneeId' in changes ? { assigneeId: changes.assigneeId ?? undefined } : {}),
+      };
+      tasks.set(current.id, next);
+      if (next.startDate !== current.startDate || next.dueDate !== current.dueDate) state.movedTaskIds.push(current.id);
+    } else if (item.type === 'milestone') {
+      if (input.type === 'add_work') {
+        if (!changes.dueDate) return;
+        const id = proposedId(i);
+        state.changedMilestoneIds.add(id);
+        milestones.set(id, { id, title: item.title, projectId: input.projectId, dueDate: changes.dueDate });
+        return;
+      }
+      const current = item.existingId ? milestones.get(item.existingId) : undefined;
+      if (!current) return;
+      state.changedMilestoneIds.add(current.id);
+      if (input.type === 'remove_work') {
+        milestones.delete(current.id);
+        return;
+      }
+      milestones.set(current.id, {
+        ...current,
+        ...(changes.title !== undefined ? { title: changes.title } : {}),
+        ...(changes.dueDate ? { dueDate: changes.dueDate } : {}),
+      });
+    }
+  });
+
+  if (removed.size > 0) {
+    state.edges = input.edges.filter((e) => !removed.has(e.predecessorTaskId) && !removed.has(e.successorTaskId));
+  }
+  return state;
+}
+
+/** Latest early finish on the project's critical path, with the critical task ids. */
+function projectCriticalPath(tasks: ImpactTask[], edges: TaskDependencyEdge[], projectId: string, calendar: WorkingCalendar) {
+  const nodes = computeCriticalPath(
+    tasks.filter((t) => t.projectId === projectId),
+    edges,
+    calendar
+  );
+  return {
+    finish: maxDate(nodes.map((n) => n.earliestFinishDate)),
+    criticalIds: new Set(nodes.filter((n) => n.isCritical).map((n) => n.taskId)),
+  };
+}
+
+const toAllocationTask = (t: ImpactTask): TaskForAllocation => ({
+  id: t.id,
+  assignee_id: t.assigneeId ?? null,
+  estimated_hours: t.estimatedHours ?? 1,
+  weight: t.weight,
+  priority: t.priority,
+  status: t.status,
+  due_date: t.dueDate ?? null,
+});
+
+const daysBetween = (calendar: WorkingCalendar, from?: string, to?: string) =>
+  from && to ? workingDaysBetween(calendar, parseISO(from), parseISO(to)) : 0;
+
+/**
+ * Simulate a change request and summarize its impact. Nothing is written; the result is what
+ * would happen if the request were implemented against the current tasks, links and milestones.
+ */
+export function analyzeChangeImpact(input: ChangeImpactInput): ChangeRequestImpactSummary {
+  const calendar = input.calendar ?? DEFAULT_WORKING_CALENDAR;
+  const weights = input.weights ?? defaultAllocationWeights;
+  const state = applyItems(input);
+
+  // Moved tasks push their successors (link types and lags on the working calendar)
+  const milestoneIdsOf = (taskId: string) => {
+    const milestoneId = state.tasks.get(taskId)?.milestoneId;
+    return milestoneId ? [milestoneId] : [];
+  };
+  const shiftedTaskIds = new Set<string>();
+  for (const id of state.movedTaskIds) {
+    const moved = state.tasks.get(id)!;
+    const downstream = getDownstreamImpact(id, state.edges, [...state.tasks.values()], milestoneIdsOf, {
+      rootDates: { startDate: moved.startDate, dueDate: moved.dueDate },
+      calendar,
+    });
+    for (const d of downstream) {
+      if (!d.suggestedNewStart) continue;
+      const task = state.tasks.get(d.taskId)!;
+      state.tasks.set(d.taskId, { ...task, startDate: d.suggestedNewStart, dueDate: d.suggestedNewDue });
+      shiftedTaskIds.add(d.taskId);
+    }
+  }
+  const afterTasks = [...state.tasks.values()];
+
+  // Critical path of the project before and after
+  const cpBefore = projectCriticalPath(input.tasks, input.edges, input.projectId, calendar);
+  const cpAfter = projectCriticalPath(afterTasks, state.edges, input.projectId, calendar);
+  const criticalPath = {
+    finishBefore: cpBefore.finish,
+    finishAfter: cpAfter.finish,
+    deltaDays: daysBetween(calendar, cpBefore.finish, cpAfter.finish),
+    enteringTaskIds: [...cpAfter.criticalIds].filter((id) => !cpBefore.criticalIds.has(id)),
+    leavingTaskIds: [...cpBefore.criticalIds].filter((id) => state.tasks.has(id) && !cpAfter.criticalIds.has(id)),
+  };
+
+  // Planned project end: latest task or milestone date
+  const plannedEnd = (tasks: Iterable<ImpactTask>, milestones: Iterable<ImpactMilestone>) =>
+    maxDate([
+      ...[...tasks].filter((t) => t.projectId === input.projectId).map((t) => t.dueDate ?? t.startDate),
+      ...[...milestones].filter((m) => m.projectId === input.projectId).map((m) => m.dueDate),
+    ]);
+  const plannedDelta = daysBetween(
+    calendar,
+    plannedEnd(input.tasks, input.milestones),
+    plannedEnd(afterTasks, state.milestones.values())
+  );
+
+  // Milestone completion: its due date or its latest task, whichever is later
+  const completion = (milestone: ImpactMilestone, tasks: ImpactTask[]) =>
+    maxDate([milestone.dueDate, ...tasks.filter((t) => t.milestoneId === milestone.id).map((t) => t.dueDate)])!;
+  const milestoneSlips: ChangeRequestMilestoneSlip[] = [];
+  for (const before of input.milestones) {
+    const after = state.milestones.get(before.id);
+    if (!after) continue;
+    const forecastBefore = completion(before, input.tasks);
+    const forecastAfter = completion(after, afterTasks);
+    const slipDays = daysBetween(calendar, forecastBefore, forecastAfter);
+    if (slipDays > 0) {
+      milestoneSlips.push({ milestoneId: after.id, title: after.title, dueDate: after.dueDate, forecastBefore, forecastAfter, slipDays });
+    }
+  }
+
+  // Members whose weighted allocation ends up over capacity
+  const touched = [...state.changedTaskIds, ...shiftedTaskIds];
+  const memberIds = new Set(
+    touched.flatMap((id) => [input.tasks.find((t) => t.id === id)?.assigneeId, state.tasks.get(id)?.assigneeId])
+      .filter((id): id is string => !!id)
+  );
+  const allocationBefore = input.tasks.map(toAllocationTask);
+  const allocationAfter = afterTasks.map(toAllocationTask);
+  const overallocatedMembers: ChangeRequestOverallocation[] = [];
+  for (const member of input.members) {
+    if (!memberIds.has(member.id)) continue;
+    const before = calculateMemberAllocation(member.id, allocationBefore, weights);
+    const after = calculateMemberAllocation(member.id, allocationAfter, weights);
+    if (after > member.capacity && after > before) {
+      overallocatedMembers.push({ memberId: member.id, capacity: member.capacity, allocationBefore: before, allocationAfter: after });
+    }
+  }
+
+  // Labour cost of the directly changed tasks
+  const rate = (assigneeId?: string) => input.members.find((m) => m.id === assigneeId)?.hourlyRate ?? 0;
+  let budgetImpact = 0;
+  let unpricedHours = 0;
+  const addCost = (task: ImpactTask | undefined, sign: 1 | -1) => {
+    if (!task) return;
+    const hours = task.estimatedHours ?? 0;
+    const hourly = rate(task.assigneeId);
+    if (hourly > 0) budgetImpact += sign * hours * hourly;
+    else unpricedHours += sign * hours;
+  };
+  for (const id of state.changedTaskIds) {
+    addCost(input.tasks.find((t) => t.id === id), -1);
+    addCost(state.tasks.get(id), 1);
+  }
+
+  const affectedTaskIds = [...state.changedTaskIds, ...shiftedTaskIds].filter((id) => !id.startsWith('proposed-'));
+  const affectedMilestoneIds = [
+    ...new Set([...state.changedMilestoneIds, ...milestoneSlips.map((s) => s.milestoneId)]),
+  ].filter((id) => !id.startsWith('proposed-'));
+
+  return {
+    scheduleImpactDays: Math.max(criticalPath.deltaDays, plannedDelta),
+    budgetImpact: Math.round(budgetImpact * 100) / 100,
+    unpricedHours: Math.round(unpricedHours * 100) / 100,
+    affectedTaskIds,
+    affectedMilestoneIds,
+    dependencyImpact:
+      shiftedTaskIds.size > 0
+        ? shiftedTaskIds.size === 1
+          ? '1 dependent task moves to keep its links'
+          : `${shiftedTaskIds.size} dependent tasks move to keep their links`
+        : undefined,
+    criticalPath,
+    milestoneSlips,
+    overallocatedMembers,
+    analyzedAt: new Date().toISOString(),
+  };
+}
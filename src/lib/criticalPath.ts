@@ -3,8 +3,38 @@
  * Computes critical path from tasks + dependency edges; detects circular deps; downstream impact.
  */
 
-import type { Task } from '@/types/portfolio';
-import type { TaskDependencyEdge, CriticalPathNode, DownstreamImpact, CircularDependencyResult } from '@/types/masterbook';
+import { min as minDate, parseISO } from 'date-fns';
+import type {
+  TaskDependencyEdge,
+  DependencyLinkType,
+  CriticalPathNode,
+  DownstreamImpact,
+  CircularDependencyResult,
+} from '../types/masterbook.ts';
+import {
+  DEFAULT_WORKING_CALENDAR,
+  addWorkingDays,
+  durationInWorkingDays,
+  nextWorkingDay,
+  previousWorkingDay,
+  toDateKey,
+  workingDaysBetween,
+  workingDaysInRange,
+  type WorkingCalendar,
+} from './workingCalendar.ts';
+
+export const DEPENDENCY_LINK_LABELS: Record<DependencyLinkType, string> = {
+  FS: 'Finish → Start',
+  SS: 'Start → Start',
+  FF: 'Finish → Finish',
+  SF: 'Start → Finish',
+};
+
+/** Short label for a link, e.g. "FS", "SS+2d", "FF-1d". */
+export function formatDependencyLink(linkType: DependencyLinkType, lagDays: number): string {
+  if (!lagDays) return linkType;
+  return `${linkType}${lagDays > 0 ? '+' : ''}${lagDays}d`;
+}
 
 export interface TaskForCriticalPath {
   id: string;
@@ -13,6 +43,8 @@ export interface TaskForCriticalPath {
   estimatedHours: number;
   startDate?: string;
   dueDate?: string;
+  /** Time off of the assignee stretches the task on the calendar */
+  assigneeId?: string;
 }
 
 /** Build adjacency: taskId -> list of successor task ids (type blocks only for CP). */
@@ -27,18 +59,6 @@ function buildSuccessorMap(edges: TaskDependencyEdge[], blocksOnly: boolean): Ma
   return map;
 }
 
-/** Build reverse: taskId -> list of predecessor task ids (blocks only). */
-function buildPredecessorMap(edges: TaskDependencyEdge[], blocksOnly: boolean): Map<string, string[]> {
-  const map = new Map<string, string[]>();
-  for (const e of edges) {
-    if (blocksOnly && e.type !== 'blocks') continue;
-    const list = map.get(e.successorTaskId) ?? [];
-    if (!list.includes(e.predecessorTaskId)) list.push(e.predecessorTaskId);
-    map.set(e.successorTaskId, list);
-  }
-  return map;
-}
-
 /** Detect cycle via DFS; returns one cycle (list of task ids) if any. */
 function findCycle(
   taskIds: Set<string>,
@@ -115,116 +135,315 @@ export function detectCircularDependencies(
 }
 
 /**
- * Compute critical path (forward/backward pass). Uses only 'blocks' edges.
- * Assumes tasks have estimatedHours; uses 1 if missing.
+ * Topological order of the given tasks over 'blocks' edges (Kahn). Tasks on a cycle are appended
+ * last in input order so passes still terminate; detectCircularDependencies reports the cycle.
+ */
+function topologicalOrder(taskIds: string[], edges: TaskDependencyEdge[]): string[] {
+  const ids = new Set(taskIds);
+  const inDegree = new Map(taskIds.map((id) => [id, 0]));
+  const successors = new Map<string, string[]>();
+  for (const e of edges) {
+    if (e.type !== 'blocks' || !ids.has(e.predecessorTaskId) || !ids.has(e.successorTaskId)) continue;
+    inDegree.set(e.successorTaskId, (inDegree.get(e.successorTaskId) ?? 0) + 1);
+    successors.set(e.predecessorTaskId, [...(successors.get(e.predecessorTaskId) ?? []), e.successorTaskId]);
+  }
+  const queue = taskIds.filter((id) => inDegree.get(id) === 0);
+  const order: string[] = [];
+  const placed = new Set<string>();
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    placed.add(id);
+    for (const s of successors.get(id) ?? []) {
+      const left = inDegree.get(s)! - 1;
+      inDegree.set(s, left);
+      if (left === 0) queue.push(s);
+    }
+  }
+  for (const id of taskIds) if (!placed.has(id)) order.push(id);
+  return order;
+}
+
+/**
+ * Earliest start a successor may have under one link, given the predecessor's dates.
+ * FS: S.start after P.finish + lag · SS: S.start ≥ P.start + lag · FF: S.finish ≥ P.finish + lag · SF: S.finish ≥ P.start + lag
+ * Lags count org working days; the successor's duration counts working days on its assignee's calendar.
+ */
+function linkStartBound(
+  calendar: WorkingCalendar,
+  linkType: DependencyLinkType,
+  lagDays: number,
+  pred: { start: Date; finish: Date },
+  succDurationDays: number,
+  succMemberId?: string
+): Date {
+  switch (linkType) {
+    case 'SS':
+      return addWorkingDays(calendar, pred.start, lagDays);
+    case 'FF':
+      return addWorkingDays(calendar, addWorkingDays(calendar, pred.finish, lagDays), -(succDurationDays - 1), succMemberId);
+    case 'SF':
+      return addWorkingDays(calendar, addWorkingDays(calendar, pred.start, lagDays - 1), -(succDurationDays - 1), succMemberId);
+    default:
+      return addWorkingDays(calendar, pred.finish, lagDays + 1);
+  }
+}
+
+/** Latest finish a predecessor may have under one link, given the successor's late dates. */
+function linkFinishBound(
+  calendar: WorkingCalendar,
+  linkType: DependencyLinkType,
+  lagDays: number,
+  succ: { start: Date; finish: Date },
+  predDurationDays: number,
+  predMemberId?: string
+): Date {
+  switch (linkType) {
+    case 'SS':
+      return addWorkingDays(calendar, addWorkingDays(calendar, succ.start, -lagDays), predDurationDays - 1, predMemberId);
+    case 'FF':
+      return addWorkingDays(calendar, succ.finish, -lagDays);
+    case 'SF':
+      return addWorkingDays(calendar, addWorkingDays(calendar, succ.finish, 1 - lagDays), predDurationDays - 1, predMemberId);
+    default:
+      return addWorkingDays(calendar, succ.start, -(lagDays + 1));
+  }
+}
+
+const latest = (a: Date, b: Date) => (b > a ? b : a);
+const earliest = (a: Date, b: Date) => (b < a ? b : a);
+
+/**
+ * Compute critical path (forward/backward pass) on the org working calendar. Uses only 'blocks'
+ * edges, honouring each edge's link type (FS/SS/FF/SF) and lag.
+ *
+ * Durations are whole working days (estimatedHours / hoursPerDay, rounded up; 1 if missing) on the
+ * assignee's calendar, so holidays and time off push dates out. Each project starts at its earliest
+ * planned date (or today) and its tasks' late dates are measured back from the project's early finish.
+ * Numeric fields are working hours from the earliest project start.
  */
 export function computeCriticalPath(
   tasks: TaskForCriticalPath[],
-  edges: TaskDependencyEdge[]
+  edges: TaskDependencyEdge[],
+  calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR
 ): CriticalPathNode[] {
   const taskMap = new Map(tasks.map((t) => [t.id, t]));
-  const successorMap = buildSuccessorMap(edges, true);
-  const predecessorMap = buildPredecessorMap(edges, true);
-
-  const duration = (t: TaskForCriticalPath) => Math.max(1, t.estimatedHours ?? 1);
-  const nodes: CriticalPathNode[] = tasks.map((t) => ({
-    taskId: t.id,
-    taskTitle: t.title,
-    projectId: t.projectId,
-    earliestStart: 0,
-    earliestFinish: 0,
-    latestStart: 0,
-    latestFinish: 0,
-    slack: 0,
-    isCritical: false,
-    durationHours: duration(t),
-  }));
-
-  const nodeMap = new Map(nodes.map((n) => [n.taskId, n]));
-
-  // Forward pass: topological order (simplified: multiple passes until no change)
-  let updated = true;
-  while (updated) {
-    updated = false;
-    for (const n of nodes) {
-      const preds = predecessorMap.get(n.taskId) ?? [];
-      const predNodes = preds.map((id) => nodeMap.get(id)).filter(Boolean) as CriticalPathNode[];
-      const maxPredFinish = predNodes.length
-        ? Math.max(...predNodes.map((p) => p.earliestFinish))
-        : 0;
-      const newES = maxPredFinish;
-      const newEF = newES + n.durationHours;
-      if (newEF > n.earliestFinish) {
-        n.earliestStart = newES;
-        n.earliestFinish = newEF;
-        updated = true;
-      }
+  const durationDays = new Map(
+    tasks.map((t) => [t.id, durationInWorkingDays(calendar, Math.max(1, t.estimatedHours ?? 1))])
+  );
+
+  // Project start: earliest planned date among the project's tasks, else today.
+  const today = parseISO(toDateKey(new Date()));
+  const plannedByProject = new Map<string, Date[]>();
+  for (const t of tasks) {
+    const planned = t.startDate ?? t.dueDate;
+    if (!planned) continue;
+    plannedByProject.set(t.projectId, [...(plannedByProject.get(t.projectId) ?? []), parseISO(planned)]);
+  }
+  const projectStart = (projectId: string) => {
+    const dates = plannedByProject.get(projectId);
+    return nextWorkingDay(calendar, dates?.length ? minDate(dates) : today);
+  };
+
+  const blockEdges = edges.filter(
+    (e) => e.type === 'blocks' && taskMap.has(e.predecessorTaskId) && taskMap.has(e.successorTaskId)
+  );
+  const incoming = new Map<string, TaskDependencyEdge[]>();
+  const outgoing = new Map<string, TaskDependencyEdge[]>();
+  for (const e of blockEdges) {
+    incoming.set(e.successorTaskId, [...(incoming.get(e.successorTaskId) ?? []), e]);
+    outgoing.set(e.predecessorTaskId, [...(outgoing.get(e.predecessorTaskId) ?? []), e]);
+  }
+  const order = topologicalOrder(tasks.map((t) => t.id), blockEdges);
+
+  // Forward pass: nothing starts before its project start, even with leads.
+  const early = new Map<string, { start: Date; finish: Date }>();
+  for (const id of order) {
+    const t = taskMap.get(id)!;
+    const days = durationDays.get(id)!;
+    let start = projectStart(t.projectId);
+    for (const e of incoming.get(id) ?? []) {
+      const pred = early.get(e.predecessorTaskId);
+      if (!pred) continue; // predecessor on a cycle
+      start = latest(start, linkStartBound(calendar, e.linkType, e.lagDays, pred, days, t.assigneeId));
     }
+    start = nextWorkingDay(calendar, start, t.assigneeId);
+    early.set(id, { start, finish: addWorkingDays(calendar, start, days - 1, t.assigneeId) });
   }
 
-  const projectFinish = Math.max(...nodes.map((n) => n.earliestFinish), 0);
+  const projectFinish = new Map<string, Date>();
+  for (const t of tasks) {
+    const finish = early.get(t.id)!.finish;
+    const current = projectFinish.get(t.projectId);
+    if (!current || finish > current) projectFinish.set(t.projectId, finish);
+  }
 
   // Backward pass
-  updated = true;
-  while (updated) {
-    updated = false;
-    for (const n of nodes) {
-      const succs = successorMap.get(n.taskId) ?? [];
-      const succNodes = succs.map((id) => nodeMap.get(id)).filter(Boolean) as CriticalPathNode[];
-      const minSuccStart = succNodes.length
-        ? Math.min(...succNodes.map((s) => s.latestStart))
-        : projectFinish;
-      const newLF = minSuccStart;
-      const newLS = newLF - n.durationHours;
-      if (n.latestFinish === 0 || newLS < n.latestStart) {
-        n.latestFinish = newLF;
-        n.latestStart = newLS;
-        updated = true;
-      }
+  const late = new Map<string, { start: Date; finish: Date }>();
+  for (const id of [...order].reverse()) {
+    const t = taskMap.get(id)!;
+    const days = durationDays.get(id)!;
+    let finish = projectFinish.get(t.projectId)!;
+    for (const e of outgoing.get(id) ?? []) {
+      const succ = late.get(e.successorTaskId);
+      if (!succ) continue;
+      finish = earliest(finish, linkFinishBound(calendar, e.linkType, e.lagDays, succ, days, t.assigneeId));
     }
+    finish = previousWorkingDay(calendar, finish, t.assigneeId);
+    late.set(id, { start: addWorkingDays(calendar, finish, -(days - 1), t.assigneeId), finish });
   }
 
-  for (const n of nodes) {
-    n.slack = n.latestStart - n.earliestStart;
-    n.isCritical = n.slack <= 0;
-  }
+  const origin = minDate([...plannedByProject.keys()].map(projectStart).concat(today));
+  const hoursFromOrigin = (date: Date, inclusive = false) =>
+    (workingDaysBetween(calendar, origin, date) + (inclusive ? 1 : 0)) * calendar.hoursPerDay;
 
-  return nodes;
+  return tasks.map((t) => {
+    const e = early.get(t.id)!;
+    const l = late.get(t.id)!;
+    const slackDays = workingDaysBetween(calendar, e.start, l.start);
+    return {
+      taskId: t.id,
+      taskTitle: t.title,
+      projectId: t.projectId,
+      earliestStart: hoursFromOrigin(e.start),
+      earliestFinish: hoursFromOrigin(e.finish, true),
+      latestStart: hoursFromOrigin(l.start),
+      latestFinish: hoursFromOrigin(l.finish, true),
+      slack: slackDays * calendar.hoursPerDay,
+      isCritical: slackDays <= 0,
+      durationHours: Math.max(1, t.estimatedHours ?? 1),
+      durationDays: durationDays.get(t.id)!,
+      earliestStartDate: toDateKey(e.start),
+      earliestFinishDate: toDateKey(e.finish),
+      latestStartDate: toDateKey(l.start),
+      latestFinishDate: toDateKey(l.finish),
+      slackDays,
+    };
+  });
+}
+
+/**
+ * Earliest start date (yyyy-MM-dd) a successor needs so that one link is satisfied, given the
+ * predecessor's dates. FS with no lag starts on the next working day after the predecessor finishes.
+ * `succDurationDays` counts working days (inclusive) on the successor's assignee calendar.
+ */
+export function requiredSuccessorStart(
+  linkType: DependencyLinkType,
+  lagDays: number,
+  pred: { startDate: string; dueDate: string },
+  succDurationDays: number,
+  calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR,
+  succMemberId?: string
+): string {
+  const start = linkStartBound(
+    calendar,
+    linkType,
+    lagDays,
+    { start: parseISO(pred.startDate), finish: parseISO(pred.dueDate) },
+    succDurationDays,
+    succMemberId
+  );
+  return toDateKey(nextWorkingDay(calendar, start, succMemberId));
+}
+
+export interface DownstreamImpactOptions {
+  /** Proposed dates for the root task; when set, successors that would violate a link get suggested dates */
+  rootDates?: { startDate?: string; dueDate?: string };
+  calendar?: WorkingCalendar;
 }
 
 /**
  * Get downstream tasks (successors via blocks) with depth and optional milestone ids.
+ * With `rootDates` (e.g. a proposed move of `taskId`), dates are propagated through each link's
+ * type and lag on the working calendar; successors whose current start would violate a link get
+ * suggestedNewStart/Due (working-day duration preserved).
  */
 export function getDownstreamImpact(
   taskId: string,
   edges: TaskDependencyEdge[],
   tasks: TaskForCriticalPath[],
-  milestoneByTaskId: (taskId: string) => string[]
+  milestoneByTaskId: (taskId: string) => string[],
+  { rootDates, calendar = DEFAULT_WORKING_CALENDAR }: DownstreamImpactOptions = {}
 ): DownstreamImpact[] {
   const taskMap = new Map(tasks.map((t) => [t.id, t]));
-  const successorMap = buildSuccessorMap(edges, true);
-  const result: DownstreamImpact[] = [];
-  const visited = new Set<string>();
+  const blockEdges = edges.filter((e) => e.type === 'blocks');
+  const outgoing = new Map<string, TaskDependencyEdge[]>();
+  for (const e of blockEdges) {
+    outgoing.set(e.predecessorTaskId, [...(outgoing.get(e.predecessorTaskId) ?? []), e]);
+  }
 
-  function visit(id: string, depth: number) {
-    if (visited.has(id)) return;
-    visited.add(id);
-    const t = taskMap.get(id);
-    if (t) {
-      result.push({
-        taskId: t.id,
-        taskTitle: t.title,
-        projectId: t.projectId,
-        depth,
-        affectedMilestoneIds: milestoneByTaskId(t.id),
-      });
+  // Breadth-first: depth is the shortest link distance from the root.
+  const depthById = new Map<string, number>([[taskId, 0]]);
+  const queue = [taskId];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const e of outgoing.get(id) ?? []) {
+      if (depthById.has(e.successorTaskId)) continue;
+      depthById.set(e.successorTaskId, depthById.get(id)! + 1);
+      queue.push(e.successorTaskId);
     }
-    const succs = successorMap.get(id) ?? [];
-    for (const s of succs) visit(s, depth + 1);
   }
 
-  const succs = successorMap.get(taskId) ?? [];
-  for (const s of succs) visit(s, 1);
+  // Effective dates, propagated in dependency order across the reachable subgraph.
+  const dates = new Map<string, { startDate: string; dueDate: string }>();
+  const datesOf = (t: TaskForCriticalPath) => {
+    const start = t.startDate ?? t.dueDate;
+    const due = t.dueDate ?? t.startDate;
+    return start && due ? { startDate: start, dueDate: due } : null;
+  };
+  const root = taskMap.get(taskId);
+  const rootBase = root ? datesOf({ ...root, ...rootDates }) : null;
+  if (rootBase) dates.set(taskId, rootBase);
+
+  const reachable = [...depthById.keys()];
+  const reachableSet = new Set(reachable);
+  const order = topologicalOrder(reachable, blockEdges);
+  const incoming = new Map<string, TaskDependencyEdge[]>();
+  for (const e of blockEdges) {
+    if (!reachableSet.has(e.predecessorTaskId) || !reachableSet.has(e.successorTaskId)) continue;
+    incoming.set(e.successorTaskId, [...(incoming.get(e.successorTaskId) ?? []), e]);
+  }
+
+  const suggestions = new Map<string, { start: string; due: string }>();
+  if (rootDates) {
+    for (const id of order) {
+      if (id === taskId) continue;
+      const t = taskMap.get(id);
+      const current = t ? datesOf(t) : null;
+      if (!t || !current) continue;
+      const durationDays = workingDaysInRange(calendar, current.startDate, current.dueDate, t.assigneeId);
+      let required = current.startDate;
+      for (const e of incoming.get(id) ?? []) {
+        const pred = dates.get(e.predecessorTaskId);
+        if (!pred) continue;
+        const needed = requiredSuccessorStart(e.linkType, e.lagDays, pred, durationDays, calendar, t.assigneeId);
+        if (needed > required) required = needed;
+      }
+      if (required > current.startDate) {
+        const due = toDateKey(addWorkingDays(calendar, parseISO(required), durationDays - 1, t.assigneeId));
+        suggestions.set(id, { start: required, due });
+        dates.set(id, { startDate: required, dueDate: due });
+      } else {
+        dates.set(id, current);
+      }
+    }
+  }
+
+  const result: DownstreamImpact[] = [];
+  for (const id of order) {
+    if (id === taskId) continue;
+    const t = taskMap.get(id);
+    if (!t) continue;
+    const suggestion = suggestions.get(id);
+    result.push({
+      taskId: t.id,
+      taskTitle: t.title,
+      projectId: t.projectId,
+      depth: depthById.get(id)!,
+      affectedMilestoneIds: milestoneByTaskId(t.id),
+      ...(suggestion ? { suggestedNewStart: suggestion.start, suggestedNewDue: suggestion.due } : {}),
+    });
+  }
   return result;
 }
 
@@ -252,6 +471,8 @@ export function wouldCreateCycle(
       predecessorTaskId: predecessorId,
       successorTaskId: successorId,
       type: 'blocks',
+      linkType: 'FS',
+      lagDays: 0,
     },
   ];
   const result = detectCircularDependencies(extendedEdges, taskIds);
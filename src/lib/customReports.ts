@@ -0,0 +1,515 @@
+/**
+ * Custom Reports
+ *
+ * User-built reports over the rows of ReportData: pick an entity, its columns, filters, an
+ * optional grouping with aggregations, a sort and a chart. Definitions are saved per org
+ * (custom_reports); running one gives a CustomReportTable that the PDF and CSV exports render
+ * in place of the standard report.
+ */
+
+import { format, parseISO } from 'date-fns';
+import type { CustomReportTable, ReportData } from './reportRender.ts';
+import { barChart, REPORT_CHART_COLORS, type ReportChart, type ReportChartUnit } from './reportCharts.ts';
+
+export const CUSTOM_REPORT_ENTITIES = ['projects', 'tasks', 'milestones', 'programs', 'portfolios', 'teamMembers'] as const;
+export type CustomReportEntity = (typeof CUSTOM_REPORT_ENTITIES)[number];
+
+export type CustomReportFieldType = 'text' | 'number' | 'date';
+
+export interface CustomReportField {
+  key: string;
+  label: string;
+  type: CustomReportFieldType;
+  /** How numbers are shown on charts */
+  unit?: ReportChartUnit;
+  /** Org permission needed to see the field */
+  permission?: string;
+}
+
+export interface CustomReportEntityDefinition {
+  label: string;
+  /** Org permission needed to report on the entity at all */
+  permission?: string;
+  fields: CustomReportField[];
+}
+
+const text = (key: string, label: string): CustomReportField => ({ key, label, type: 'text' });
+const date = (key: string, label: string): CustomReportField => ({ key, label, type: 'date' });
+const num = (key: string, label: string, unit: ReportChartUnit = 'count', permission?: string): CustomReportField => ({
+  key,
+  label,
+  type: 'number',
+  unit,
+  permission,
+});
+
+/** The fields of each ReportData row type a report can use */
+export const CUSTOM_REPORT_ENTITY_DEFINITIONS: Record<CustomReportEntity, CustomReportEntityDefinition> = {
+  projects: {
+    label: 'Projects',
+    permission: 'view_project_reports',
+    fields: [
+      text('name', 'Name'),
+      text('status', 'Status'),
+      text('programName', 'Program'),
+      text('portfolioName', 'Portfolio'),
+      text('ownerName', 'Owner'),
+      date('startDate', 'Start date'),
+      date('endDate', 'End date'),
+      num('progress', 'Progress', 'percent'),
+      num('tasksCount', 'Tasks'),
+      num('completedTasksCount', 'Completed tasks'),
+      num('budget', 'Budget', 'currency', 'view_budget'),
+      num('actualCost', 'Actual cost', 'currency', 'view_budget'),
+    ],
+  },
+  tasks: {
+    label: 'Tasks',
+    permission: 'view_task_reports',
+    fields: [
+      text('title', 'Title'),
+      text('status', 'Status'),
+      text('priority', 'Priority'),
+      text('projectName', 'Project'),
+      text('programName', 'Program'),
+      text('portfolioName', 'Portfolio'),
+      text('assigneeName', 'Assignee'),
+      text('assigneeRole', 'Assignee role'),
+      text('milestoneName', 'Milestone'),
+      date('startDate', 'Start date'),
+      date('dueDate', 'Due date'),
+      date('createdAt', 'Created'),
+      num('weight', 'Weight'),
+      num('estimatedHours', 'Estimated hours', 'hours'),
+      num('actualCost', 'Actual cost', 'currency', 'view_budget'),
+      num('subtaskCount', 'Subtasks'),
+      num('completedSubtasks', 'Completed subtasks'),
+    ],
+  },
+  milestones: {
+    label: 'Milestones',
+    permission: 'view_project_reports',
+    fields: [
+      text('title', 'Title'),
+      text('projectName', 'Project'),
+      text('programName', 'Program'),
+      date('dueDate', 'Due date'),
+      num('taskCount', 'Tasks'),
+      num('completedTaskCount', 'Completed tasks'),
+    ],
+  },
+  programs: {
+    label: 'Programs',
+    fields: [
+      text('name', 'Name'),
+      text('status', 'Status'),
+      text('portfolioName', 'Portfolio'),
+      num('projectCount', 'Projects'),
+      num('taskCount', 'Tasks'),
+      num('completedTasks', 'Completed tasks'),
+      num('progress', 'Progress', 'percent'),
+      num('budget', 'Budget', 'currency', 'view_budget'),
+      num('actualCost', 'Actual cost', 'currency', 'view_budget'),
+    ],
+  },
+  portfolios: {
+    label: 'Portfolios',
+    fields: [
+      text('name', 'Name'),
+      num('programCount', 'Programs'),
+      num('projectCount', 'Projects'),
+      num('taskCount', 'Tasks'),
+      num('completedTasks', 'Completed tasks'),
+      num('budget', 'Budget', 'currency', 'view_budget'),
+      num('actualCost', 'Actual cost', 'currency', 'view_budget'),
+    ],
+  },
+  teamMembers: {
+    label: 'Team members',
+    permission: 'view_resource_reports',
+    fields: [
+      text('name', 'Name'),
+      text('role', 'Role'),
+      num('allocation', 'Allocation', 'hours'),
+      num('capacity', 'Capacity', 'hours'),
+      num('taskCount', 'Tasks'),
+      num('completedTaskCount', 'Completed tasks'),
+      num('loggedHours', 'Logged hours', 'hours'),
+      num('approvedHours', 'Approved hours', 'hours'),
+      num('laborCost', 'Labor cost', 'currency', 'view_budget'),
+    ],
+  },
+};
+
+export const CUSTOM_REPORT_OPERATORS = ['equals', 'not_equals', 'contains', 'gt', 'gte', 'lt', 'lte', 'is_empty', 'not_empty'] as const;
+export type CustomReportOperator = (typeof CUSTOM_REPORT_OPERATORS)[number];
+
+export const CUSTOM_REPORT_OPERATOR_LABELS: Record<CustomReportOperator, string> = {
+  equals: 'is',
+  not_equals: 'is not',
+  contains: 'contains',
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  is_empty: 'is empty',
+  not_empty: 'is not empty',
+};
+
+/** Operators that make sense for a field type; the empty checks need no value */
+export function customReportOperatorsFor(type: CustomReportFieldType): CustomReportOperator[] {
+  if (type === 'text') return ['equals', 'not_equals', 'contains', 'is_empty', 'not_empty'];
+  return ['equals', 'not_equals', 'gt', 'gte', 'lt', 'lte', 'is_empty', 'not_empty'];
+}
+
+export const CUSTOM_REPORT_AGGREGATES = ['count', 'sum', 'avg', 'min', 'max'] as const;
+export type CustomReportAggregate = (typeof CUSTOM_REPORT_AGGREGATES)[number];
+
+export const CUSTOM_REPORT_AGGREGATE_LABELS: Record<CustomReportAggregate, string> = {
+  count: 'Count',
+  sum: 'Sum',
+  avg: 'Average',
+  min: 'Minimum',
+  max: 'Maximum',
+};
+
+export const CUSTOM_REPORT_CHART_TYPES = ['none', 'bar', 'donut', 'line'] as const;
+export type CustomReportChartType = (typeof CUSTOM_REPORT_CHART_TYPES)[number];
+
+export type CustomReportDateBucket = 'day' | 'week' | 'month';
+
+export interface CustomReportFilter {
+  field: string;
+  operator: CustomReportOperator;
+  /** Dates as yyyy-MM-dd; ignored by the empty checks */
+  value: string;
+}
+
+export interface CustomReportAggregation {
+  fn: CustomReportAggregate;
+  /** Numeric field; null for count */
+  field: string | null;
+}
+
+/** Saved as custom_reports.definition */
+export interface CustomReportDefinition {
+  entity: CustomReportEntity;
+  /** Columns of the ungrouped table, in order */
+  columns: string[];
+  filters: CustomReportFilter[];
+  /** One row per value of this field, with the aggregations as columns */
+  groupBy: string | null;
+  /** Grouping on a date field: the period rows are rolled up to */
+  dateBucket: CustomReportDateBucket;
+  aggregations: CustomReportAggregation[];
+  /** A column key, or an aggregation key (see customReportAggregationKey) when grouped */
+  sort: { key: string; direction: 'asc' | 'desc' } | null;
+  /** Rows kept after sorting; null keeps all */
+  limit: number | null;
+  chart: CustomReportChartType;
+}
+
+export const DEFAULT_CUSTOM_REPORT: CustomReportDefinition = {
+  entity: 'projects',
+  columns: ['name', 'status', 'progress'],
+  filters: [],
+  groupBy: null,
+  dateBucket: 'month',
+  aggregations: [{ fn: 'count', field: null }],
+  sort: null,
+  limit: null,
+  chart: 'none',
+};
+
+type CellValue = string | number | null;
+type Row = Record<string, CellValue>;
+
+/** A cell as shown in the PDF and the preview; the CSV keeps the raw value */
+export function formatCustomReportValue(value: CellValue | undefined, column: CustomReportTable['columns'][number]): string {
+  if (isEmpty(value)) return '-';
+  if (column.type === 'date') {
+    const day = parseISO(String(value).slice(0, 10));
+    return Number.isNaN(day.getTime()) ? String(value) : format(day, 'MMM d, yyyy');
+  }
+  if (column.type !== 'number') return String(value);
+  const number = Number(value);
+  switch (column.unit) {
+    case 'currency':
+      return `$${Math.round(number).toLocaleString('en-US')}`;
+    case 'percent':
+      return `${number}%`;
+    case 'hours':
+      return `${number}h`;
+    default:
+      return number.toLocaleString('en-US');
+  }
+}
+
+/** Fields of the entity the user may see */
+export function customReportFields(entity: CustomReportEntity, hasPermission: (permission: string) => boolean = () => true) {
+  return CUSTOM_REPORT_ENTITY_DEFINITIONS[entity].fields.filter(f => !f.permission || hasPermission(f.permission));
+}
+
+export const customReportAggregationKey = (aggregation: CustomReportAggregation) =>
+  aggregation.fn === 'count' ? 'count' : `${aggregation.fn}:${aggregation.field}`;
+
+export function customReportAggregationLabel(entity: CustomReportEntity, aggregation: CustomReportAggregation): string {
+  if (aggregation.fn === 'count') return `Number of ${CUSTOM_REPORT_ENTITY_DEFINITIONS[entity].label.toLowerCase()}`;
+  const field = CUSTOM_REPORT_ENTITY_DEFINITIONS[entity].fields.find(f => f.key === aggregation.field);
+  return `${CUSTOM_REPORT_AGGREGATE_LABELS[aggregation.fn]} of ${(field?.label ?? aggregation.field ?? '').toLowerCase()}`;
+}
+
+function entityRows(data: ReportData, entity: CustomReportEntity): Row[] {
+  const rows: Record<CustomReportEntity, unknown[] | undefined> = {
+    projects: data.projects,
+    tasks: data.tasks,
+    milestones: data.milestones,
+    programs: data.programs,
+    portfolios: data.portfolios,
+    teamMembers: data.teamMembers,
+  };
+  return (rows[entity] ?? []) as Row[];
+}
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+/** Dates compare by their yyyy-MM-dd prefix, numbers numerically, text case-insensitively */
+function compareValues(a: unknown, b: unknown, type: CustomReportFieldType): number {
+  if (type === 'number') return Number(a) - Number(b);
+  const left = type === 'date' ? String(a).slice(0, 10) : String(a).toLowerCase();
+  const right = type === 'date' ? String(b).slice(0, 10) : String(b).toLowerCase();
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function matchesFilter(row: Row, filter: CustomReportFilter, field: CustomReportField): boolean {
+  const value = row[filter.field];
+  switch (filter.operator) {
+    case 'is_empty':
+      return isEmpty(value);
+    case 'not_empty':
+      return !isEmpty(value);
+    case 'contains':
+      return !isEmpty(value) && String(value).toLowerCase().includes(filter.value.trim().toLowerCase());
+  }
+  if (isEmpty(value)) return filter.operator === 'not_equals';
+  if (field.type === 'number' && (filter.value.trim() === '' || Number.isNaN(Number(filter.value)))) return true;
+  const order = compareValues(value, field.type === 'number' ? Number(filter.value) : filter.value.trim(), field.type);
+  switch (filter.operator) {
+    case 'equals':
+      return order === 0;
+    case 'not_equals':
+      return order !== 0;
+    case 'gt':
+      return order > 0;
+    case 'gte':
+      return order >= 0;
+    case 'lt':
+      return order < 0;
+    case 'lte':
+      return order <= 0;
+  }
+  return true;
+}
+
+/** yyyy-MM-dd of the day, Monday of the week or first of the month (UTC) */
+function bucketDate(value: string, bucket: CustomReportDateBucket): string {
+  const day = value.slice(0, 10);
+  if (bucket === 'day') return day;
+  if (bucket === 'month') return `${day.slice(0, 7)}-01`;
+  const d = new Date(`${day}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d.toISOString().slice(0, 10);
+}
+
+function aggregate(rows: Row[], aggregation: CustomReportAggregation): number | null {
+  if (aggregation.fn === 'count') return rows.length;
+  const values = rows.map(r => r[aggregation.field!]).filter(v => !isEmpty(v)).map(Number).filter(v => !Number.isNaN(v));
+  if (values.length === 0) return null;
+  switch (aggregation.fn) {
+    case 'sum':
+      return Math.round(values.reduce((sum, v) => sum + v, 0) * 100) / 100;
+    case 'avg':
+      return Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 100) / 100;
+    case 'min':
+      return Math.min(...values);
+    case 'max':
+      return Math.max(...values);
+  }
+}
+
+/**
+ * Problems that stop the definition from running, e.g. a column the entity doesn't have or an
+ * aggregation over a text field; empty when it is valid. Fields outside `fields` (hidden by
+ * permissions) count as unknown.
+ */
+export function validateCustomReport(definition: CustomReportDefinition, fields: CustomReportField[]): string[] {
+  const errors: string[] = [];
+  const byKey = new Map(fields.map(f => [f.key, f]));
+  const unknown = (key: string) => !byKey.has(key);
+
+  if (!CUSTOM_REPORT_ENTITIES.includes(definition.entity)) errors.push(`Unknown entity "${definition.entity}"`);
+  if (!definition.groupBy && definition.columns.length === 0) errors.push('Choose at least one column');
+  definition.columns.filter(unknown).forEach(key => errors.push(`Unknown column "${key}"`));
+  definition.filters.filter(f => unknown(f.field)).forEach(f => errors.push(`Unknown filter field "${f.field}"`));
+  if (definition.groupBy) {
+    if (unknown(definition.groupBy)) errors.push(`Unknown group field "${definition.groupBy}"`);
+    if (definition.aggregations.length === 0) errors.push('Add at least one aggregation to a grouped report');
+    definition.aggregations.forEach(a => {
+      if (a.fn === 'count') return;
+      const field = a.field ? byKey.get(a.field) : undefined;
+      if (!field) errors.push(`Unknown aggregation field "${a.field}"`);
+      else if (field.type !== 'number') errors.push(`${CUSTOM_REPORT_AGGREGATE_LABELS[a.fn]} needs a number field, not ${field.label}`);
+    });
+  }
+  if (definition.limit !== null && (!Number.isInteger(definition.limit) || definition.limit < 1)) {
+    errors.push('The row limit must be a whole number above 0');
+  }
+  return errors;
+}
+
+/** Why the chart can't be drawn for this definition, or null when it can (or there is none) */
+export function customReportChartProblem(definition: CustomReportDefinition, fields: CustomReportField[]): string | null {
+  const groupField = fields.find(f => f.key === definition.groupBy);
+  switch (definition.chart) {
+    case 'donut':
+      return groupField ? null : 'A donut chart needs a grouping';
+    case 'line':
+      return groupField?.type === 'date' ? null : 'A line chart needs a grouping on a date field';
+    case 'bar':
+      if (groupField) return null;
+      return fields.some(f => f.type === 'number' && definition.columns.includes(f.key))
+        ? null
+        : 'A bar chart needs a grouping or a number column';
+    default:
+      return null;
+  }
+}
+
+function customReportChart(
+  definition: CustomReportDefinition,
+  fields: CustomReportField[],
+  table: Pick<CustomReportTable, 'columns' | 'rows'>,
+  title: string
+): ReportChart | null {
+  if (definition.chart === 'none' || customReportChartProblem(definition, fields)) return null;
+  const palette = [REPORT_CHART_COLORS.primary, REPORT_CHART_COLORS.info, REPORT_CHART_COLORS.warning, REPORT_CHART_COLORS.success, REPORT_CHART_COLORS.destructive, REPORT_CHART_COLORS.mutedForeground];
+  const unitOf = (aggregation: CustomReportAggregation): ReportChartUnit =>
+    aggregation.fn === 'count' ? 'count' : fields.find(f => f.key === aggregation.field)?.unit ?? 'count';
+  const label = (value: CellValue) => (isEmpty(value) ? '(none)' : String(value));
+
+  if (definition.groupBy) {
+    const [first] = definition.aggregations;
+    const firstKey = customReportAggregationKey(first);
+    const base = { id: 'customReport' as const, title, unit: unitOf(first) };
+    if (definition.chart === 'donut') {
+      return {
+        ...base,
+        kind: 'donut',
+        slices: table.rows.map((r, i) => ({ label: label(r[definition.groupBy!]), value: Number(r[firstKey] ?? 0), color: palette[i % palette.length] })),
+      };
+    }
+    if (definition.chart === 'line') {
+      const points = table.rows
+        .filter(r => !isEmpty(r[definition.groupBy!]))
+        .sort((a, b) => compareValues(a[definition.groupBy!], b[definition.groupBy!], 'date'));
+      if (points.length < 2) return null;
+      return {
+        ...base,
+        kind: 'line',
+        dates: points.map(r => String(r[definition.groupBy!])),
+        series: definition.aggregations.map((a, i) => ({
+          label: table.columns.find(c => c.key === customReportAggregationKey(a))?.label ?? a.fn,
+          color: palette[i % palette.length],
+          values: points.map(r => (r[customReportAggregationKey(a)] as number | null) ?? null),
+        })),
+      };
+    }
+    return barChart(
+      base,
+      table.rows.map(r => ({ name: label(r[definition.groupBy!]), values: [Number(r[firstKey] ?? 0)] })),
+      [{ label: table.columns.find(c => c.key === firstKey)?.label ?? first.fn, color: palette[0] }]
+    );
+  }
+
+  // Ungrouped bars: the first text column names the rows, the first number column is the bar
+  const numberField = fields.find(f => f.type === 'number' && definition.columns.includes(f.key))!;
+  const nameKey = definition.columns.find(key => fields.find(f => f.key === key)?.type !== 'number') ?? numberField.key;
+  return barChart(
+    { id: 'customReport', title, unit: numberField.unit ?? 'count', max: numberField.unit === 'percent' ? 100 : undefined },
+    table.rows.map(r => ({ name: label(r[nameKey]), values: [Number(r[numberField.key] ?? 0)] })),
+    [{ label: numberField.label, color: palette[0] }]
+  );
+}
+
+/**
+ * Runs the definition over the report's rows: filter, then group and aggregate or pick the
+ * columns, then sort and limit. Throws when the definition is invalid for the visible fields.
+ */
+export function runCustomReport(
+  data: ReportData,
+  definition: CustomReportDefinition,
+  options: { name: string; description?: string; hasPermission?: (permission: string) => boolean }
+): CustomReportTable {
+  const fields = customReportFields(definition.entity, options.hasPermission);
+  const errors = validateCustomReport(definition, fields);
+  if (errors.length > 0) throw new Error(errors.join('; '));
+  const byKey = new Map(fields.map(f => [f.key, f]));
+
+  const filtered = entityRows(data, definition.entity).filter(row =>
+    definition.filters.every(filter => matchesFilter(row, filter, byKey.get(filter.field)!))
+  );
+
+  let columns: CustomReportTable['columns'];
+  let rows: Row[];
+  if (definition.groupBy) {
+    const groupField = byKey.get(definition.groupBy)!;
+    const groups = new Map<string, Row[]>();
+    filtered.forEach(row => {
+      const value = row[groupField.key];
+      const key = isEmpty(value) ? '' : groupField.type === 'date' ? bucketDate(String(value), definition.dateBucket) : String(value);
+      groups.set(key, [...(groups.get(key) ?? []), row]);
+    });
+    columns = [
+      { key: groupField.key, label: groupField.label, type: groupField.type },
+      ...definition.aggregations.map(a => ({
+        key: customReportAggregationKey(a),
+        label: customReportAggregationLabel(definition.entity, a),
+        type: 'number' as const,
+        unit: a.fn === 'count' ? ('count' as const) : byKey.get(a.field!)?.unit,
+      })),
+    ];
+    rows = [...groups.entries()].map(([key, groupRows]) => ({
+      [groupField.key]: key === '' ? null : groupField.type === 'number' ? Number(key) : key,
+      ...Object.fromEntries(definition.aggregations.map(a => [customReportAggregationKey(a), aggregate(groupRows, a)])),
+    }));
+    // Groups in their natural order unless a sort is set
+    rows.sort((a, b) => compareValues(a[groupField.key] ?? '', b[groupField.key] ?? '', groupField.type));
+  } else {
+    columns = definition.columns.map(key => {
+      const field = byKey.get(key)!;
+      return { key, label: field.label, type: field.type, unit: field.unit };
+    });
+    rows = filtered.map(row => Object.fromEntries(definition.columns.map(key => [key, isEmpty(row[key]) ? null : row[key]])));
+  }
+
+  const sortColumn = definition.sort ? columns.find(c => c.key === definition.sort!.key) : undefined;
+  if (sortColumn) {
+    const direction = definition.sort!.direction === 'desc' ? -1 : 1;
+    rows.sort((a, b) => {
+      // Empty values last either way
+      if (isEmpty(a[sortColumn.key])) return isEmpty(b[sortColumn.key]) ? 0 : 1;
+      if (isEmpty(b[sortColumn.key])) return -1;
+      return compareValues(a[sortColumn.key], b[sortColumn.key], sortColumn.type) * direction;
+    });
+  }
+  if (definition.limit !== null) rows = rows.slice(0, definition.limit);
+
+  const table = { columns, rows };
+  return {
+    name: options.name,
+    description: options.description,
+    entityLabel: CUSTOM_REPORT_ENTITY_DEFINITIONS[definition.entity].label,
+    ...table,
+    chart: customReportChart(definition, fields, table, options.name),
+  };
+}
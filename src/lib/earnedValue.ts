@@ -0,0 +1,314 @@
+/**
+ * Earned Value
+ *
+ * Planned value, earned value and actual cost for projects with a budget, with the usual
+ * indices (CPI, SPI) and forecasts (EAC, ETC). A project's budget at completion is spread over
+ * its tasks by estimated hours (falling back to task weight), and each task's share is planned
+ * evenly over its working days. Projects without tasks are planned evenly from start to end.
+ *
+ * Tasks earn their full value when done, the share of completed subtasks while open, or half
+ * once in progress / review (50/50 rule). There is no completion or cost history, so the
+ * time-phased EV and AC curves are reconstructed: done tasks earn on their due date (never after
+ * the status date), open progress on the status date, and task costs accrue evenly over the
+ * task up to the status date.
+ */
+
+import { addDays, differenceInCalendarDays, parseISO, startOfDay } from 'date-fns';
+import type { Project, Task } from '../types/portfolio.ts';
+import { DEFAULT_WORKING_CALENDAR, toDateKey, workingDaysBetween, type WorkingCalendar } from './workingCalendar.ts';
+
+export interface EarnedValueMetrics {
+  /** Budget at completion */
+  bac: number;
+  pv: number;
+  ev: number;
+  ac: number;
+  /** Cost variance, EV − AC */
+  cv: number;
+  /** Schedule variance, EV − PV */
+  sv: number;
+  /** EV / AC; null before any cost is recorded */
+  cpi: number | null;
+  /** EV / PV; null before any value is planned */
+  spi: number | null;
+  /** Estimate at completion, AC + (BAC − EV) / CPI */
+  eac: number;
+  /** Estimate to complete, EAC − AC */
+  etc: number;
+  /** Variance at completion, BAC − EAC */
+  vac: number;
+  /** EV / BAC, 0–100 */
+  percentComplete: number;
+  /** PV / BAC, 0–100 */
+  percentPlanned: number;
+}
+
+export interface EarnedValuePoint {
+  /** yyyy-MM-dd */
+  date: string;
+  pv: number;
+  /** Only up to the status date */
+  ev?: number;
+  ac?: number;
+}
+
+export interface EarnedValueResult {
+  metrics: EarnedValueMetrics;
+  /** Cumulative S-curve from the earliest planned start to the later of the plan end and the status date */
+  series: EarnedValuePoint[];
+}
+
+export interface EarnedValueOptions {
+  statusDate?: Date;
+  calendar?: WorkingCalendar;
+  /** Upper bound on S-curve points; the step widens in whole weeks to fit */
+  maxPoints?: number;
+}
+
+interface PlannedWork {
+  value: number;
+  start: Date;
+  end: Date;
+  /** Length of the window; calendar days when it contains no working days */
+  days: number;
+  inCalendarDays: boolean;
+  /** 0–1 of value earned as of the status date */
+  earned: number;
+  earnedOn: Date;
+  cost: number;
+}
+
+interface ProjectPlan {
+  bac: number;
+  work: PlannedWork[];
+  /** Project cost not recorded against tasks, accrued evenly from project start to the status date */
+  unattributedCost: number;
+  costStart: Date;
+}
+
+/** Budget the project is measured against: its allocation from the program, else its own budget. */
+export const getBudgetAtCompletion = (project: Project) => project.allocatedBudget || project.budget || 0;
+
+export const hasEarnedValueBudget = (project: Project) => getBudgetAtCompletion(project) > 0;
+
+function taskPercentComplete(task: Task): number {
+  if (task.status === 'done') return 1;
+  if (task.subtasks.length > 0) return task.subtasks.filter((s) => s.completed).length / task.subtasks.length;
+  return task.status === 'in-progress' || task.status === 'review' ? 0.5 : 0;
+}
+
+const minDate = (a: Date, b: Date) => (a < b ? a : b);
+
+function planProject(project: Project, statusDate: Date, calendar: WorkingCalendar): ProjectPlan | null {
+  const bac = getBudgetAtCompletion(project);
+  if (bac <= 0) return null;
+
+  const projectStart = project.startDate ? startOfDay(parseISO(project.startDate)) : statusDate;
+  const projectEnd = project.endDate ? startOfDay(parseISO(project.endDate)) : projectStart;
+
+  const window = (start: Date, end: Date) => {
+    const last = end < start ? start : end;
+    const days = workingDaysBetween(calendar, start, addDays(last, 1));
+    return days > 0
+      ? { start, end: last, days, inCalendarDays: false }
+      : { start, end: last, days: differenceInCalendarDays(last, start) + 1, inCalendarDays: true };
+  };
+
+  const tasks = project.tasks;
+  if (tasks.length === 0) {
+    const earned = Math.min(1, Math.max(0, (project.progress ?? 0) / 100));
+    return {
+      bac,
+      work: [{ value: bac, ...window(projectStart, projectEnd), earned, earnedOn: statusDate, cost: 0 }],
+      unattributedCost: project.actualCost ?? 0,
+      costStart: projectStart,
+    };
+  }
+
+  const totalHours = tasks.reduce((sum, t) => sum + Math.max(0, t.estimatedHours || 0), 0);
+  const totalWeight = tasks.reduce((sum, t) => sum + Math.max(0, t.weight || 0), 0);
+  const basis = (t: Task) =>
+    totalHours > 0 ? Math.max(0, t.estimatedHours || 0) : totalWeight > 0 ? Math.max(0, t.weight || 0) : 1;
+  const totalBasis = totalHours > 0 ? totalHours : totalWeight > 0 ? totalWeight : tasks.length;
+
+  const work = tasks.map((t): PlannedWork => {
+    const start = startOfDay(parseISO(t.startDate ?? t.dueDate ?? project.startDate ?? toDateKey(statusDate)));
+    const end = t.dueDate ? startOfDay(parseISO(t.dueDate)) : projectEnd;
+    const earned = taskPercentComplete(t);
+    const earnedOn = t.status === 'done' && t.dueDate ? minDate(startOfDay(parseISO(t.dueDate)), statusDate) : statusDate;
+    return { value: (bac * basis(t)) / totalBasis, ...window(start, end), earned, earnedOn, cost: t.actualCost ?? 0 };
+  });
+
+  const taskCost = work.reduce((sum, w) => sum + w.cost, 0);
+  return {
+    bac,
+    work,
+    unattributedCost: Math.max(0, (project.actualCost ?? taskCost) - taskCost),
+    costStart: projectStart,
+  };
+}
+
+/** Share of the work's window elapsed by the end of `date`. */
+function elapsed(calendar: WorkingCalendar, w: PlannedWork, date: Date): number {
+  if (date < w.start) return 0;
+  if (date >= w.end) return 1;
+  const days = w.inCalendarDays
+    ? differenceInCalendarDays(date, w.start) + 1
+    : workingDaysBetween(calendar, w.start, addDays(date, 1));
+  return Math.min(1, days / w.days);
+}
+
+const plannedValue = (plans: ProjectPlan[], date: Date, calendar: WorkingCalendar) =>
+  plans.reduce((sum, p) => sum + p.work.reduce((s, w) => s + w.value * elapsed(calendar, w, date), 0), 0);
+
+const earnedValue = (plans: ProjectPlan[], date: Date) =>
+  plans.reduce((sum, p) => sum + p.work.reduce((s, w) => s + (w.earnedOn <= date ? w.value * w.earned : 0), 0), 0);
+
+function actualCost(plans: ProjectPlan[], date: Date, statusDate: Date): number {
+  const at = minDate(date, statusDate);
+  const spread = (cost: number, from: Date, end: Date) => {
+    // Cost already booked against work planned after the status date counts from the status date
+    const start = minDate(from, end);
+    if (cost <= 0 || at < start) return 0;
+    if (at >= end) return cost;
+    return cost * ((differenceInCalendarDays(at, start) + 1) / (differenceInCalendarDays(end, start) + 1));
+  };
+  return plans.reduce(
+    (sum, p) =>
+      sum +
+      spread(p.unattributedCost, p.costStart, statusDate) +
+      p.work.reduce((s, w) => s + spread(w.cost, w.start, minDate(w.end, statusDate)), 0),
+    0
+  );
+}
+
+function toMetrics(bac: number, pv: number, ev: number, ac: number): EarnedValueMetrics {
+  const cpi = ac > 0 ? ev / ac : null;
+  const spi = pv > 0 ? ev / pv : null;
+  const eac = cpi && cpi > 0 ? ac + (bac - ev) / cpi : Math.max(bac, ac);
+  const round = (n: number) => Math.round(n * 100) / 100;
+  return {
+    bac: round(bac),
+    pv: round(pv),
+    ev: round(ev),
+    ac: round(ac),
+    cv: round(ev - ac),
+    sv: round(ev - pv),
+    cpi: cpi === null ? null : round(cpi),
+    spi: spi === null ? null : round(spi),
+    eac: round(eac),
+    etc: round(Math.max(0, eac - ac)),
+    vac: round(bac - eac),
+    percentComplete: bac > 0 ? Math.round((ev / bac) * 100) : 0,
+    percentPlanned: bac > 0 ? Math.round((pv / bac) * 100) : 0,
+  };
+}
+
+/**
+ * Earned value for a set of projects (one project, a program's projects or a portfolio's).
+ * Projects without a budget are ignored. PV, EV, AC, BAC and EAC add up across projects and the
+ * indices are taken from the totals.
+ */
+export function computeEarnedValue(projects: Project[], options: EarnedValueOptions = {}): EarnedValueResult {
+  const statusDate = startOfDay(options.statusDate ?? new Date());
+  const calendar = options.calendar ?? DEFAULT_WORKING_CALENDAR;
+  const maxPoints = options.maxPoints ?? 60;
+
+  const plans = projects
+    .map((p) => planProject(p, statusDate, calendar))
+    .filter((p): p is ProjectPlan => p !== null);
+
+  const perProject = plans.map((p) =>
+    toMetrics(p.bac, plannedValue([p], statusDate, calendar), earnedValue([p], statusDate), actualCost([p], statusDate, statusDate))
+  );
+  const sum = (key: 'bac' | 'pv' | 'ev' | 'ac' | 'eac') => perProject.reduce((total, m) => total + m[key], 0);
+  const metrics = toMetrics(sum('bac'), sum('pv'), sum('ev'), sum('ac'));
+  // EAC adds up per project so one project's CPI doesn't skew another's forecast
+  if (perProject.length > 1) {
+    const eac = sum('eac');
+    metrics.eac = Math.round(eac * 100) / 100;
+    metrics.etc = Math.round(Math.max(0, eac - metrics.ac) * 100) / 100;
+    metrics.vac = Math.round((metrics.bac - eac) * 100) / 100;
+  }
+
+  if (plans.length === 0) return { metrics, series: [] };
+
+  const allWork = plans.flatMap((p) => p.work);
+  const first = plans.reduce((min, p) => minDate(min, p.costStart), allWork.reduce((min, w) => minDate(min, w.start), statusDate));
+  const planEnd = allWork.reduce((max, w) => (w.end > max ? w.end : max), first);
+  const last = planEnd > statusDate ? planEnd : statusDate;
+
+  const weeks = Math.ceil((differenceInCalendarDays(last, first) + 1) / 7);
+  const step = 7 * Math.max(1, Math.ceil(weeks / maxPoints));
+  const dates: Date[] = [];
+  for (let d = first; d < last; d = addDays(d, step)) dates.push(d);
+  dates.push(last);
+  if (!dates.some((d) => d.getTime() === statusDate.getTime())) {
+    dates.push(statusDate);
+    dates.sort((a, b) => a.getTime() - b.getTime());
+  }
+
+  const series = dates.map((date): EarnedValuePoint => {
+    const point: EarnedValuePoint = { date: toDateKey(date), pv: Math.round(plannedValue(plans, date, calendar)) };
+    if (date <= statusDate) {
+      point.ev = Math.round(earnedValue(plans, date));
+      point.ac = Math.round(actualCost(plans, date, statusDate));
+    }
+    return point;
+  });
+
+  return { metrics, series };
+}
+
+export interface EarnedValueRow extends EarnedValueMetrics {
+  id: string;
+  name: string;
+}
+
+export interface EarnedValueReport {
+  /** yyyy-MM-dd */
+  statusDate: string;
+  total: EarnedValueMetrics;
+  portfolios: EarnedValueRow[];
+  programs: EarnedValueRow[];
+  projects: EarnedValueRow[];
+  series: EarnedValuePoint[];
+}
+
+/** Earned value rolled up per project, program and portfolio, plus the S-curve for all of them. */
+export function buildEarnedValueReport(
+  scope: {
+    portfolios: Array<{ id: string; name: string }>;
+    programs: Array<{ id: string; name: string; portfolioId: string }>;
+    projects: Project[];
+  },
+  options: EarnedValueOptions = {}
+): EarnedValueReport {
+  const statusDate = startOfDay(options.statusDate ?? new Date());
+  const opts = { ...options, statusDate };
+  const budgeted = scope.projects.filter(hasEarnedValueBudget);
+
+  const row = (id: string, name: string, projects: Project[]): EarnedValueRow | null =>
+    projects.length > 0 ? { id, name, ...computeEarnedValue(projects, opts).metrics } : null;
+  const rows = (items: Array<EarnedValueRow | null>) => items.filter((r): r is EarnedValueRow => r !== null);
+
+  const programProjects = (programId: string) => budgeted.filter((p) => p.programId === programId);
+  const { metrics: total, series } = computeEarnedValue(budgeted, opts);
+
+  return {
+    statusDate: toDateKey(statusDate),
+    total,
+    portfolios: rows(
+      scope.portfolios.map((port) =>
+        row(
+          port.id,
+          port.name,
+          scope.programs.filter((prog) => prog.portfolioId === port.id).flatMap((prog) => programProjects(prog.id))
+        )
+      )
+    ),
+    programs: rows(scope.programs.map((prog) => row(prog.id, prog.name, programProjects(prog.id)))),
+    projects: rows(budgeted.map((p) => row(p.id, p.name, [p]))),
+    series,
+  };
+}
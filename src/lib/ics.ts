@@ -0,0 +1,381 @@
+/**
+ * iCalendar (RFC 5545)
+ *
+ * Reads VEVENTs from .ics files and writes feeds and single calendar objects.
+ * Dependency-free so the calendar-feed and caldav edge functions can import it as
+ * well. Only what busy-time import, feeds and CalDAV need is handled: no VTIMEZONE
+ * definitions (TZIDs are resolved by name), no alarms, no attendees.
+ */
+
+/** A DATE or DATE-TIME value as written in the file. */
+export interface IcsDateValue {
+  /** yyyy-MM-dd */
+  date: string;
+  /** HH:mm:ss; absent for all-day (DATE) values */
+  time?: string;
+  /** Time has a trailing Z */
+  utc: boolean;
+  /** TZID parameter of a local time */
+  tzid?: string;
+}
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  start: IcsDateValue;
+  end?: IcsDateValue;
+  /** DURATION in seconds, when given instead of DTEND */
+  durationSeconds?: number;
+  /** RRULE value without the "RRULE:" prefix */
+  rrule?: string;
+  exdates: IcsDateValue[];
+  /** Set on an event that overrides one occurrence of a recurring event */
+  recurrenceId?: IcsDateValue;
+  /** TENTATIVE, CONFIRMED or CANCELLED */
+  status?: string;
+  /** TRANSP:TRANSPARENT – the event doesn't block time */
+  transparent: boolean;
+}
+
+/** An event written to a feed. All-day events use yyyy-MM-dd with an exclusive end; timed events use ISO instants. */
+export interface IcsFeedEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  allDay: boolean;
+  start: string;
+  end: string;
+  categories?: string[];
+}
+
+export interface IcsFeed {
+  name: string;
+  events: IcsFeedEvent[];
+  /** Suggested refresh interval for subscribers, in minutes */
+  refreshMinutes?: number;
+}
+
+/** A calendar object resource (CalDAV): one event, no METHOD. */
+export interface IcsObject {
+  event: IcsFeedEvent;
+  /** ISO instant, written as LAST-MODIFIED */
+  lastModified?: string;
+}
+
+export class IcsParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IcsParseError';
+  }
+}
+
+const PRODID = '-//Accord//Calendar Feed//EN';
+
+const pad = (n: number) => (n < 10 ? `0${n}` : String(n));
+
+// ============================================
+// Reading
+// ============================================
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/** Joins folded lines (a line break followed by a space or tab continues the previous line). */
+function unfold(text: string): string[] {
+  return text.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+}
+
+/** Splits on a separator outside double quotes. */
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const ch of text) {
+    if (ch === '"') quoted = !quoted;
+    if (ch === separator && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    if (line[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...paramParts] = splitOutsideQuotes(line.slice(0, colon), ';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const eq = part.indexOf('=');
+    if (eq < 0) continue;
+    params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+}
+
+function parseDateValue(value: string, params: Record<string, string>): IcsDateValue | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  if (!match[4] || params.VALUE === 'DATE') return { date, utc: false };
+  const utc = !!match[7];
+  return {
+    date,
+    time: `${match[4]}:${match[5]}:${match[6]}`,
+    utc,
+    ...(!utc && params.TZID ? { tzid: params.TZID } : {}),
+  };
+}
+
+/** DURATION value in seconds, e.g. PT1H30M or P1D. Null when invalid or negative. */
+function parseDuration(value: string): number | null {
+  const match = /^(-)?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match || match[1]) return null;
+  const [, , weeks, days, hours, minutes, seconds] = match.map((part) => Number(part ?? 0));
+  return (((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds;
+}
+
+/**
+ * VEVENTs of a calendar file, in file order. Components nested in events (alarms) are
+ * skipped, as are events without DTSTART. Events without a UID get one derived from
+ * their start and summary. Throws IcsParseError when the text isn't a calendar.
+ */
+export function parseIcs(text: string): IcsEvent[] {
+  if (!/BEGIN:VCALENDAR/i.test(text)) throw new IcsParseError('Not an iCalendar file');
+
+  const events: IcsEvent[] = [];
+  let current: Partial<IcsEvent> & { exdates: IcsDateValue[]; transparent: boolean } | null = null;
+  let nested = 0;
+
+  for (const raw of unfold(text)) {
+    if (!raw.trim()) continue;
+    const line = parseContentLine(raw);
+    if (!line) continue;
+    const { name, params, value } = line;
+
+    if (name === 'BEGIN') {
+      if (current) nested++;
+      else if (value.trim().toUpperCase() === 'VEVENT') current = { exdates: [], transparent: false };
+      continue;
+    }
+    if (name === 'END') {
+      if (current && nested > 0) {
+        nested--;
+      } else if (current && value.trim().toUpperCase() === 'VEVENT') {
+        if (current.start) {
+          events.push({
+            ...current,
+            uid: current.uid || `${current.start.date}T${current.start.time ?? ''}/${current.summary ?? ''}`,
+            summary: current.summary ?? '',
+            start: current.start,
+          });
+        }
+        current = null;
+      }
+      continue;
+    }
+    if (!current || nested > 0) continue;
+
+    switch (name) {
+      case 'UID':
+        current.uid = value.trim();
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeText(value).trim();
+        break;
+      case 'DTSTART':
+        current.start = parseDateValue(value, params) ?? undefined;
+        break;
+      case 'DTEND':
+        current.end = parseDateValue(value, params) ?? undefined;
+        break;
+      case 'DURATION':
+        current.durationSeconds = parseDuration(value) ?? undefined;
+        break;
+      case 'RRULE':
+        current.rrule = value.trim();
+        break;
+      case 'EXDATE':
+        for (const part of value.split(',')) {
+          const exdate = parseDateValue(part, params);
+          if (exdate) current.exdates.push(exdate);
+        }
+        break;
+      case 'RECURRENCE-ID':
+        current.recurrenceId = parseDateValue(value, params) ?? undefined;
+        break;
+      case 'STATUS':
+        current.status = value.trim().toUpperCase();
+        break;
+      case 'TRANSP':
+        current.transparent = value.trim().toUpperCase() === 'TRANSPARENT';
+        break;
+    }
+  }
+
+  return events;
+}
+
+// ============================================
+// Time zones
+// ============================================
+
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Offset of a time zone from UTC at an instant, in ms. Throws RangeError for unknown zones. */
+function zoneOffset(time: number, timeZone: string): number {
+  let formatter = offsetFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    offsetFormatters.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(new Date(time));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  const wall = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wall - Math.floor(time / 1000) * 1000;
+}
+
+/**
+ * Epoch ms of a value. All-day and floating values are read in the runtime's local time,
+ * as are TZIDs the runtime doesn't know – `onUnknownZone` is told about those.
+ */
+export function icsDateToTime(value: IcsDateValue, onUnknownZone?: (tzid: string) => void): number {
+  const [year, month, day] = value.date.split('-').map(Number);
+  const [hour, minute, second] = (value.time ?? '00:00:00').split(':').map(Number);
+
+  if (value.utc) return Date.UTC(year, month - 1, day, hour, minute, second);
+  if (value.time && value.tzid) {
+    const wall = Date.UTC(year, month - 1, day, hour, minute, second);
+    try {
+      // Second pass corrects for a DST change between the wall time and the guess
+      const guess = wall - zoneOffset(wall, value.tzid);
+      return wall - zoneOffset(guess, value.tzid);
+    } catch {
+      onUnknownZone?.(value.tzid);
+    }
+  }
+  return new Date(year, month - 1, day, hour, minute, second).getTime();
+}
+
+// ============================================
+// Writing
+// ============================================
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+const utf8Length = (ch: string) => {
+  const code = ch.codePointAt(0)!;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+/** Folds a content line at 75 octets; continuation lines start with a space. */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const ch of line) {
+    const size = utf8Length(ch);
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += ch;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const formatDate = (key: string) => key.replace(/-/g, '');
+
+function formatInstant(value: string | Date): string {
+  const d = typeof value === 'string' ? new Date(value) : value;
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+}
+
+function eventLines(event: IcsFeedEvent, stamp: string, lastModified?: string): string[] {
+  const lines = ['BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`];
+  if (lastModified) lines.push(`LAST-MODIFIED:${formatInstant(lastModified)}`);
+  if (event.allDay) {
+    lines.push(`DTSTART;VALUE=DATE:${formatDate(event.start)}`, `DTEND;VALUE=DATE:${formatDate(event.end)}`);
+  } else {
+    lines.push(`DTSTART:${formatInstant(event.start)}`, `DTEND:${formatInstant(event.end)}`);
+  }
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+  // All-day entries are things due that day, not meetings – calendars shouldn't show the time as taken
+  if (event.allDay) lines.push('TRANSP:TRANSPARENT');
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+const serialize = (lines: string[]) => lines.map(foldLine).join('\r\n') + '\r\n';
+
+/** Serializes a feed as a VCALENDAR with CRLF line endings. */
+export function buildIcs(feed: IcsFeed, now: Date = new Date()): string {
+  const refresh = feed.refreshMinutes ?? 60;
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(feed.name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:PT${refresh}M`,
+    `X-PUBLISHED-TTL:PT${refresh}M`,
+  ];
+
+  const stamp = formatInstant(now);
+  for (const event of feed.events) lines.push(...eventLines(event, stamp));
+
+  lines.push('END:VCALENDAR');
+  return serialize(lines);
+}
+
+/** Serializes a single event as a calendar object resource. */
+export function buildIcsObject(object: IcsObject, now: Date = new Date()): string {
+  return serialize([
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    ...eventLines(object.event, formatInstant(now), object.lastModified),
+    'END:VCALENDAR',
+  ]);
+}
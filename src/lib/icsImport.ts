@@ -0,0 +1,138 @@
+/**
+ * ICS Import
+ *
+ * Turns the events of an .ics file into busy-time schedule blocks. Recurring events are
+ * expanded over the import window with the recurrence engine, overridden occurrences
+ * (RECURRENCE-ID) replace the ones they modify, and cancelled or free (transparent)
+ * events are left out.
+ */
+
+import { addDays, format } from 'date-fns';
+import { icsDateToTime, type IcsDateValue, type IcsEvent } from './ics';
+import { addDaysToKey, daysBetweenKeys, listOccurrences } from './recurrence';
+
+/** Days before today that imported events are kept for */
+export const IMPORT_WINDOW_PAST_DAYS = 30;
+/** Days after today that recurring events are expanded to */
+export const IMPORT_WINDOW_FUTURE_DAYS = 180;
+
+export interface ImportedBlock {
+  /** Event UID, plus ":yyyy-MM-dd" for occurrences of recurring events */
+  externalUid: string;
+  title: string;
+  startUtc: string;
+  endUtc: string;
+}
+
+export interface IcsImportResult {
+  blocks: ImportedBlock[];
+  /** Cancelled, free or zero-length events that were left out */
+  skipped: number;
+  warnings: string[];
+}
+
+export interface IcsImportWindow {
+  from: Date;
+  to: Date;
+}
+
+export function defaultImportWindow(now: Date = new Date()): IcsImportWindow {
+  return { from: addDays(now, -IMPORT_WINDOW_PAST_DAYS), to: addDays(now, IMPORT_WINDOW_FUTURE_DAYS) };
+}
+
+/** Instant of a value; TZIDs the browser doesn't know are read as local time, with a warning. */
+function toInstant(value: IcsDateValue, warnings: Set<string>): number {
+  return icsDateToTime(value, (tzid) => warnings.add(`Unknown time zone "${tzid}" – its times were read as local time`));
+}
+
+/** End of an occurrence starting at `start`, keeping the event's length (whole days for all-day events). */
+function occurrenceEnd(event: IcsEvent, start: IcsDateValue, startTime: number, warnings: Set<string>): number {
+  if (!start.time) {
+    const days = event.end && !event.end.time
+      ? daysBetweenKeys(event.start.date, event.end.date)
+      : Math.round((event.durationSeconds ?? 86_400) / 86_400);
+    return toInstant({ date: addDaysToKey(start.date, Math.max(1, days)), utc: false }, warnings);
+  }
+  const duration = event.end
+    ? toInstant(event.end, warnings) - toInstant(event.start, warnings)
+    : (event.durationSeconds ?? 0) * 1000;
+  return startTime + duration;
+}
+
+/** Busy-time blocks for the events of a file that overlap the window. */
+export function icsEventsToBlocks(events: IcsEvent[], window: IcsImportWindow = defaultImportWindow()): IcsImportResult {
+  const warnings = new Set<string>();
+  const blocks = new Map<string, ImportedBlock>();
+  const fromTime = window.from.getTime();
+  const toTime = window.to.getTime();
+  let skipped = 0;
+
+  const add = (event: IcsEvent, externalUid: string, start: IcsDateValue) => {
+    const startTime = toInstant(start, warnings);
+    const endTime = occurrenceEnd(event, start, startTime, warnings);
+    if (endTime <= fromTime || startTime >= toTime) return;
+    if (event.status === 'CANCELLED' || event.transparent || endTime <= startTime) {
+      skipped++;
+      return;
+    }
+    blocks.set(externalUid, {
+      externalUid,
+      title: event.summary || 'Busy',
+      startUtc: new Date(startTime).toISOString(),
+      endUtc: new Date(endTime).toISOString(),
+    });
+  };
+
+  const overrides = new Map<string, IcsEvent>();
+  for (const event of events) {
+    if (event.recurrenceId) overrides.set(`${event.uid}:${event.recurrenceId.date}`, event);
+  }
+
+  const fromKey = format(window.from, 'yyyy-MM-dd');
+  const toKey = format(window.to, 'yyyy-MM-dd');
+
+  for (const event of events) {
+    if (event.recurrenceId) continue;
+    if (!event.rrule) {
+      add(event, event.uid, event.start);
+      continue;
+    }
+
+    // Occurrences starting before the window may still run into it
+    const spanDays = event.end ? Math.max(0, daysBetweenKeys(event.start.date, event.end.date)) : 0;
+    let dates: string[];
+    try {
+      dates = listOccurrences(event.rrule, event.start.date, { from: addDaysToKey(fromKey, -spanDays - 1), to: toKey });
+    } catch (err) {
+      warnings.add(`"${event.summary || event.uid}" repeats in a way that isn't supported (${err instanceof Error ? err.message : String(err)}) – only its first occurrence was imported`);
+      add(event, event.uid, event.start);
+      continue;
+    }
+    // DTSTART is always an occurrence, even when it doesn't match the rule
+    if (event.start.date >= addDaysToKey(fromKey, -spanDays - 1) && !dates.includes(event.start.date)) {
+      dates.unshift(event.start.date);
+    }
+
+    const excluded = new Set(event.exdates.map((d) => d.date));
+    for (const date of dates) {
+      if (excluded.has(date)) continue;
+      const key = `${event.uid}:${date}`;
+      const override = overrides.get(key);
+      if (override) {
+        overrides.delete(key);
+        add(override, key, override.start);
+      } else {
+        add(event, key, { ...event.start, date });
+      }
+    }
+  }
+
+  // Overrides whose recurring event isn't in the file (or whose original date is outside the window)
+  for (const [key, override] of overrides) add(override, key, override.start);
+
+  return {
+    blocks: [...blocks.values()].sort((a, b) => a.startUtc.localeCompare(b.startUtc)),
+    skipped,
+    warnings: [...warnings],
+  };
+}
@@ -0,0 +1,380 @@
+/**
+ * Schedule risk simulation – Masterbook "Uncertainty Brings Opportunity".
+ *
+ * Monte Carlo over the task dependency network: each iteration draws a duration for every task
+ * with a three-point estimate (PERT-Beta between optimistic and pessimistic hours, peaking at the
+ * estimate) and runs the same forward/backward pass as computeCriticalPath, so P50/P80/P90 dates
+ * for projects and milestones and each task's criticality index (share of iterations with no
+ * float) come from one model. Tasks without a range keep their estimate in every iteration; done
+ * tasks take no time and are pinned at their actual finish (the due date, or today if that is
+ * later), so completed work doesn't push the forecast out.
+ *
+ * Passes count org working days from the earliest project start; unlike computeCriticalPath,
+ * assignee time off is not applied, which keeps an iteration to integer arithmetic.
+ */
+
+import { addDays, min as minDate, parseISO } from 'date-fns';
+import type {
+  DependencyLinkType,
+  MilestoneScheduleForecast,
+  ProjectScheduleForecast,
+  ScheduleForecast,
+  ScheduleSimulationResult,
+  TaskCriticality,
+  TaskDependencyEdge,
+} from '@/types/masterbook';
+import {
+  DEFAULT_WORKING_CALENDAR,
+  addWorkingDays,
+  durationInWorkingDays,
+  nextWorkingDay,
+  toDateKey,
+  workingDaysBetween,
+  type WorkingCalendar,
+} from './workingCalendar';
+
+export const DEFAULT_SIMULATION_ITERATIONS = 1000;
+
+export interface TaskForSimulation {
+  id: string;
+  projectId: string;
+  milestoneId?: string;
+  /** Most likely estimate */
+  estimatedHours: number;
+  optimisticHours?: number;
+  pessimisticHours?: number;
+  startDate?: string;
+  dueDate?: string;
+  /** Completed; never sampled */
+  done?: boolean;
+}
+
+export interface ScheduleSimulationInput {
+  tasks: TaskForSimulation[];
+  edges: TaskDependencyEdge[];
+  projects: { id: string; endDate?: string }[];
+  milestones: { id: string; projectId: string; dueDate: string }[];
+  calendar?: WorkingCalendar;
+  iterations?: number;
+  /** Same seed, same result; keeps the numbers steady between re-renders */
+  seed?: number;
+}
+
+export const hasThreePointEstimate = (t: Pick<TaskForSimulation, 'optimisticHours' | 'pessimisticHours'>) =>
+  t.optimisticHours !== undefined && t.pessimisticHours !== undefined;
+
+// --- Sampling ---
+
+/** mulberry32: small seeded PRNG, uniform in [0, 1) */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sampleNormal(random: () => number): number {
+  const u = 1 - random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+/** Gamma(shape, 1) for shape ≥ 1 (Marsaglia–Tsang) */
+function sampleGamma(shape: number, random: () => number): number {
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    const x = sampleNormal(random);
+    const v = (1 + c * x) ** 3;
+    if (v <= 0) continue;
+    const u = 1 - random();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) return d * v;
+  }
+}
+
+/**
+ * PERT-Beta draw between `low` and `high` with mode `likely` (λ = 4). The range is widened to
+ * include `likely`, since the estimate is edited on its own.
+ */
+export function samplePert(low: number, likely: number, high: number, random: () => number): number {
+  const a = Math.min(low, likely);
+  const b = Math.max(high, likely);
+  if (b <= a) return likely;
+  const alpha = 1 + (4 * (likely - a)) / (b - a);
+  const beta = 1 + (4 * (b - likely)) / (b - a);
+  const x = sampleGamma(alpha, random);
+  const y = sampleGamma(beta, random);
+  return a + ((b - a) * x) / (x + y);
+}
+
+// --- Network ---
+
+interface Link {
+  other: number;
+  linkType: DependencyLinkType;
+  lagDays: number;
+}
+
+/** Earliest start offset under one link (see linkStartBound in criticalPath) */
+function startBound(link: Link, predStart: number, predFinish: number, days: number): number {
+  switch (link.linkType) {
+    case 'SS':
+      return predStart + link.lagDays;
+    case 'FF':
+      return predFinish + link.lagDays - (days - 1);
+    case 'SF':
+      return predStart + link.lagDays - 1 - (days - 1);
+    default:
+      return predFinish + link.lagDays + 1;
+  }
+}
+
+/** Latest finish offset under one link (see linkFinishBound in criticalPath) */
+function finishBound(link: Link, succStart: number, succFinish: number, days: number): number {
+  switch (link.linkType) {
+    case 'SS':
+      return succStart - link.lagDays + (days - 1);
+    case 'FF':
+      return succFinish - link.lagDays;
+    case 'SF':
+      return succFinish - link.lagDays + 1 + (days - 1);
+    default:
+      return succStart - link.lagDays - 1;
+  }
+}
+
+/** Kahn order over the links; tasks on a cycle go last so the passes still terminate */
+function topologicalOrder(count: number, incoming: Link[][], outgoing: Link[][]): number[] {
+  const inDegree = incoming.map((links) => links.length);
+  const queue: number[] = [];
+  for (let i = 0; i < count; i++) if (inDegree[i] === 0) queue.push(i);
+  const order: number[] = [];
+  const placed = new Uint8Array(count);
+  for (let head = 0; head < queue.length; head++) {
+    const i = queue[head];
+    order.push(i);
+    placed[i] = 1;
+    for (const link of outgoing[i]) {
+      if (--inDegree[link.other] === 0) queue.push(link.other);
+    }
+  }
+  for (let i = 0; i < count; i++) if (!placed[i]) order.push(i);
+  return order;
+}
+
+/** Value at percentile `p` (0–1) of ascending `sorted` */
+const percentile = (sorted: Int32Array, p: number) =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1))];
+
+/**
+ * Run the simulation. Projects and milestones without tasks are left out; a milestone completes
+ * when the last of its tasks finishes.
+ */
+export function simulateSchedule({
+  tasks,
+  edges,
+  projects,
+  milestones,
+  calendar = DEFAULT_WORKING_CALENDAR,
+  iterations: requestedIterations = DEFAULT_SIMULATION_ITERATIONS,
+  seed = 1,
+}: ScheduleSimulationInput): ScheduleSimulationResult {
+  const iterations = Math.max(1, Math.round(requestedIterations));
+  const count = tasks.length;
+  const empty: ScheduleSimulationResult = {
+    iterations,
+    projects: [],
+    milestones: [],
+    tasks: [],
+    threePointTaskCount: 0,
+    taskCount: count,
+  };
+  if (count === 0) return empty;
+
+  const indexById = new Map(tasks.map((t, i) => [t.id, i]));
+  const incoming: Link[][] = tasks.map(() => []);
+  const outgoing: Link[][] = tasks.map(() => []);
+  for (const e of edges) {
+    const pred = indexById.get(e.predecessorTaskId);
+    const succ = indexById.get(e.successorTaskId);
+    if (e.type !== 'blocks' || pred === undefined || succ === undefined) continue;
+    incoming[succ].push({ other: pred, linkType: e.linkType, lagDays: e.lagDays });
+    outgoing[pred].push({ other: succ, linkType: e.linkType, lagDays: e.lagDays });
+  }
+  const order = topologicalOrder(count, incoming, outgoing);
+
+  // Project starts as in computeCriticalPath, as offsets from the earliest one
+  const today = parseISO(toDateKey(new Date()));
+  const plannedByProject = new Map<string, Date[]>();
+  for (const t of tasks) {
+    const planned = t.startDate ?? t.dueDate;
+    if (!planned) continue;
+    plannedByProject.set(t.projectId, [...(plannedByProject.get(t.projectId) ?? []), parseISO(planned)]);
+  }
+  const projectIds = [...new Set(tasks.map((t) => t.projectId))];
+  const projectStartDates = new Map(
+    projectIds.map((id) => {
+      const dates = plannedByProject.get(id);
+      return [id, nextWorkingDay(calendar, dates?.length ? minDate(dates) : today)];
+    })
+  );
+  const origin = minDate([...projectStartDates.values()]);
+  const projectIndex = new Map(projectIds.map((id, i) => [id, i]));
+  const projectStart = Int32Array.from(projectIds, (id) => workingDaysBetween(calendar, origin, projectStartDates.get(id)!));
+  const taskProject = Int32Array.from(tasks, (t) => projectIndex.get(t.projectId)!);
+
+  // Last offset finishing on or before the date
+  const dateToOffset = (date: string) => workingDaysBetween(calendar, origin, addDays(parseISO(date), 1)) - 1;
+
+  const hoursToDays = (hours: number) => durationInWorkingDays(calendar, Math.max(1, hours));
+  const likelyDays = Int32Array.from(tasks, (t) => (t.done ? 0 : hoursToDays(t.estimatedHours ?? 1)));
+  const ranged = tasks.flatMap((t, i) => (!t.done && hasThreePointEstimate(t) ? [i] : []));
+  // Done tasks finish on their due date as in earnedValue (today if it is still ahead); without one,
+  // just before their project starts
+  const todayKey = toDateKey(today);
+  const doneFinish = Int32Array.from(tasks, (t, i) =>
+    t.done && t.dueDate
+      ? dateToOffset(t.dueDate < todayKey ? t.dueDate : todayKey)
+      : projectStart[taskProject[i]] - 1
+  );
+
+  const days = new Int32Array(count);
+  const earlyStart = new Int32Array(count);
+  const earlyFinish = new Int32Array(count);
+  const lateFinish = new Int32Array(count);
+  const lateStart = new Int32Array(count);
+  const scheduled = new Uint8Array(count);
+  const projectFinish = new Int32Array(projectIds.length);
+
+  // One forward/backward pass over `days`; leaves dates in the arrays above
+  const runPasses = () => {
+    scheduled.fill(0);
+    projectFinish.fill(-1);
+    for (const i of order) {
+      if (tasks[i].done) {
+        earlyStart[i] = doneFinish[i] + 1;
+        earlyFinish[i] = doneFinish[i];
+        scheduled[i] = 1;
+        if (earlyFinish[i] > projectFinish[taskProject[i]]) projectFinish[taskProject[i]] = earlyFinish[i];
+        continue;
+      }
+      let start = projectStart[taskProject[i]];
+      for (const link of incoming[i]) {
+        if (!scheduled[link.other]) continue; // predecessor on a cycle
+        start = Math.max(start, startBound(link, earlyStart[link.other], earlyFinish[link.other], days[i]));
+      }
+      earlyStart[i] = start;
+      earlyFinish[i] = start + days[i] - 1;
+      scheduled[i] = 1;
+      if (earlyFinish[i] > projectFinish[taskProject[i]]) projectFinish[taskProject[i]] = earlyFinish[i];
+    }
+    scheduled.fill(0);
+    for (let k = order.length - 1; k >= 0; k--) {
+      const i = order[k];
+      let finish = projectFinish[taskProject[i]];
+      for (const link of outgoing[i]) {
+        if (!scheduled[link.other]) continue;
+        finish = Math.min(finish, finishBound(link, lateStart[link.other], lateFinish[link.other], days[i]));
+      }
+      lateFinish[i] = finish;
+      lateStart[i] = finish - (days[i] - 1);
+      scheduled[i] = 1;
+    }
+  };
+
+  const milestoneIds = milestones.map((m) => m.id);
+  const milestoneIndex = new Map(milestoneIds.map((id, i) => [id, i]));
+  const taskMilestone = Int32Array.from(tasks, (t) => (t.milestoneId ? milestoneIndex.get(t.milestoneId) ?? -1 : -1));
+  const milestoneFinish = new Int32Array(milestoneIds.length);
+  const collectMilestones = () => {
+    milestoneFinish.fill(-1);
+    for (let i = 0; i < count; i++) {
+      const m = taskMilestone[i];
+      if (m >= 0 && earlyFinish[i] > milestoneFinish[m]) milestoneFinish[m] = earlyFinish[i];
+    }
+  };
+
+  // Deterministic run: every task at its estimate
+  days.set(likelyDays);
+  runPasses();
+  collectMilestones();
+  const deterministicProject = Int32Array.from(projectFinish);
+  const deterministicMilestone = Int32Array.from(milestoneFinish);
+
+  const random = createRandom(seed);
+  const projectSamples = projectIds.map(() => new Int32Array(iterations));
+  const milestoneSamples = milestoneIds.map(() => new Int32Array(iterations));
+  const criticalCounts = new Int32Array(count);
+  for (let n = 0; n < iterations; n++) {
+    days.set(likelyDays);
+    for (const i of ranged) {
+      const t = tasks[i];
+      days[i] = hoursToDays(samplePert(t.optimisticHours!, t.estimatedHours ?? 1, t.pessimisticHours!, random));
+    }
+    runPasses();
+    collectMilestones();
+    for (let i = 0; i < count; i++) if (!tasks[i].done && lateStart[i] <= earlyStart[i]) criticalCounts[i]++;
+    for (let p = 0; p < projectIds.length; p++) projectSamples[p][n] = projectFinish[p];
+    for (let m = 0; m < milestoneIds.length; m++) milestoneSamples[m][n] = milestoneFinish[m];
+  }
+
+  const dateCache = new Map<number, string>();
+  const offsetToDate = (offset: number) => {
+    let key = dateCache.get(offset);
+    if (key === undefined) {
+      key = toDateKey(addWorkingDays(calendar, origin, offset));
+      dateCache.set(offset, key);
+    }
+    return key;
+  };
+  const forecast = (samples: Int32Array, deterministic: number, targetDate?: string): ScheduleForecast => {
+    const sorted = Int32Array.from(samples).sort();
+    const result: ScheduleForecast = {
+      deterministicFinish: offsetToDate(deterministic),
+      p50: offsetToDate(percentile(sorted, 0.5)),
+      p80: offsetToDate(percentile(sorted, 0.8)),
+      p90: offsetToDate(percentile(sorted, 0.9)),
+    };
+    if (targetDate) {
+      const target = dateToOffset(targetDate);
+      let onTime = 0;
+      for (const finish of samples) if (finish <= target) onTime++;
+      result.targetDate = targetDate;
+      result.onTimeProbability = onTime / samples.length;
+    }
+    return result;
+  };
+
+  const endDateById = new Map(projects.map((p) => [p.id, p.endDate]));
+  const projectForecasts: ProjectScheduleForecast[] = projectIds.map((projectId, p) => ({
+    projectId,
+    ...forecast(projectSamples[p], deterministicProject[p], endDateById.get(projectId)),
+  }));
+
+  const milestoneForecasts: MilestoneScheduleForecast[] = [];
+  milestones.forEach((milestone, m) => {
+    if (deterministicMilestone[m] < 0) return; // no tasks
+    milestoneForecasts.push({
+      milestoneId: milestone.id,
+      projectId: milestone.projectId,
+      ...forecast(milestoneSamples[m], deterministicMilestone[m], milestone.dueDate),
+    });
+  });
+
+  const criticality: TaskCriticality[] = tasks.map((t, i) => ({
+    taskId: t.id,
+    projectId: t.projectId,
+    criticalityIndex: criticalCounts[i] / iterations,
+  }));
+
+  return {
+    ...empty,
+    projects: projectForecasts,
+    milestones: milestoneForecasts,
+    tasks: criticality,
+    threePointTaskCount: ranged.length,
+  };
+}
@@ -0,0 +1,547 @@
+/**
+ * Microsoft Project XML
+ *
+ * Round-trip of a project with MS Project through its XML format (MSPDI): tasks and milestones,
+ * finish-to-start / start-to-start / finish-to-finish / start-to-finish links with lags, schedule
+ * baselines (Baseline 0–10) and team members as resources with assignments.
+ *
+ * Exported tasks, milestones and resources carry our ids as their GUIDs, which MS Project keeps,
+ * so importing the file back updates the same rows; items MS Project added get created.
+ * The import is planned here (buildMsProjectImport) and applied in one transaction by the
+ * import_project_plan database function.
+ */
+
+import { format, parseISO } from 'date-fns';
+import type { Milestone, Project, Task, TeamMember } from '@/types/portfolio';
+import type { DependencyLinkType, TaskDependencyEdge } from '@/types/masterbook';
+import type { ScheduleBaselineItem } from '@/domains/schedule/model';
+import { addWorkingDays, durationInWorkingDays, workingDaysInRange, type WorkingCalendar } from './workingCalendar';
+
+/** MS Project keeps Baseline and Baseline 1–10 */
+export const MS_PROJECT_BASELINE_LIMIT = 11;
+
+const DAY_START_HOUR = 8;
+
+// PredecessorLink Type codes
+const LINK_TYPE_CODES: Record<DependencyLinkType, number> = { FF: 0, FS: 1, SF: 2, SS: 3 };
+const LINK_TYPES_BY_CODE: DependencyLinkType[] = ['FF', 'FS', 'SF', 'SS'];
+
+// LagFormat codes for elapsed and working days, hours and minutes; the rest (percent lags) are dropped
+const LAG_FORMATS = new Set([3, 4, 5, 6, 7, 8, 35, 36, 37, 38, 39, 40]);
+
+const PRIORITY_VALUES: Record<string, number> = { low: 300, medium: 500, high: 700 };
+
+// ============================================
+// Export
+// ============================================
+
+export interface MsProjectExportInput {
+  project: Pick<Project, 'id' | 'name' | 'description' | 'startDate' | 'endDate'>;
+  /** The project's tasks */
+  tasks: Task[];
+  /** The project's milestones */
+  milestones: Milestone[];
+  /** Links among the tasks; only 'blocks' links are scheduling links in MS Project */
+  dependencies: TaskDependencyEdge[];
+  teamMembers: TeamMember[];
+  /** Project baselines with their snapshot rows, newest first; the first becomes Baseline 0 */
+  baselines: Array<{ name: string; items: ScheduleBaselineItem[] }>;
+  calendar: WorkingCalendar;
+  now: Date;
+}
+
+const escapeXml = (text: string) =>
+  text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const element = (name: string, value: string | number | undefined | null) =>
+  value === undefined || value === null || value === '' ? '' : `<${name}>${typeof value === 'number' ? value : escapeXml(value)}</${name}>`;
+
+const pad = (n: number) => (n < 10 ? `0${n}` : String(n));
+
+/** PT8H0M0S */
+const xmlDuration = (hours: number) => {
+  const minutes = Math.round(hours * 60);
+  return `PT${Math.floor(minutes / 60)}H${minutes % 60}M0S`;
+};
+
+/** 16:30:00 */
+const timeOfDay = (hour: number) => `${pad(Math.floor(hour))}:${pad(Math.round((hour % 1) * 60))}:00`;
+
+const dayTime = (date: string, hour: number) => `${date.slice(0, 10)}T${timeOfDay(hour)}`;
+
+/** Start, finish and working hours of a dated item on the calendar */
+function span(calendar: WorkingCalendar, startDate: string | undefined, dueDate: string | undefined, estimatedHours: number) {
+  const dayEnd = DAY_START_HOUR + calendar.hoursPerDay;
+  let start = startDate?.slice(0, 10);
+  let finish = dueDate?.slice(0, 10);
+  if (!start && !finish) return null;
+  if (!start) start = finish!;
+  if (!finish || finish < start) {
+    finish = format(addWorkingDays(calendar, parseISO(start), durationInWorkingDays(calendar, estimatedHours) - 1), 'yyyy-MM-dd');
+  }
+  const days = workingDaysInRange(calendar, start, finish);
+  return { start: dayTime(start, DAY_START_HOUR), finish: dayTime(finish, dayEnd), hours: days * calendar.hoursPerDay };
+}
+
+const percentComplete = (status: string) => (status === 'done' ? 100 : status === 'in-progress' || status === 'review' ? 50 : 0);
+
+function calendarXml(calendar: WorkingCalendar): string {
+  const dayEnd = DAY_START_HOUR + calendar.hoursPerDay;
+  const weekDays = [0, 1, 2, 3, 4, 5, 6].map(day => {
+    const working = calendar.workingDays.includes(day);
+    return `<WeekDay><DayType>${day + 1}</DayType><DayWorking>${working ? 1 : 0}</DayWorking>${
+      working
+        ? `<WorkingTimes><WorkingTime><FromTime>${timeOfDay(DAY_START_HOUR)}</FromTime><ToTime>${timeOfDay(dayEnd)}</ToTime></WorkingTime></WorkingTimes>`
+        : ''
+    }</WeekDay>`;
+  });
+  // Holidays as non-working exception days
+  const holidays = [...calendar.holidays.keys()].sort().map(
+    date => `<WeekDay><DayType>0</DayType><DayWorking>0</DayWorking><TimePeriod><FromDate>${date}T00:00:00</FromDate><ToDate>${date}T23:59:00</ToDate></TimePeriod></WeekDay>`
+  );
+  return `<Calendars><Calendar><UID>1</UID><Name>Standard</Name><IsBaseCalendar>1</IsBaseCalendar><BaseCalendarUID>-1</BaseCalendarUID><WeekDays>${[...weekDays, ...holidays].join('')}</WeekDays></Calendar></Calendars>`;
+}
+
+/** The project as MS Project XML */
+export function buildMsProjectXml(input: MsProjectExportInput): string {
+  const { project, calendar } = input;
+  const hoursPerDay = calendar.hoursPerDay;
+
+  // Tasks and milestones in date order, undated tasks last
+  const items = [
+    ...input.tasks.map(task => ({ kind: 'task' as const, id: task.id, date: task.startDate ?? task.dueDate ?? '', task })),
+    ...input.milestones.map(milestone => ({ kind: 'milestone' as const, id: milestone.id, date: milestone.dueDate, milestone })),
+  ].sort((a, b) => (a.date === b.date ? 0 : !a.date ? 1 : !b.date ? -1 : a.date < b.date ? -1 : 1));
+  const uidById = new Map(items.map((item, i) => [item.id, i + 1]));
+
+  const members = input.teamMembers.filter(m => input.tasks.some(t => t.assigneeId === m.id));
+  const resourceUid = new Map(members.map((m, i) => [m.id, i + 1]));
+
+  // Scheduling links into each item: task links, and each task into the milestone it belongs to
+  const predecessors = new Map<string, string[]>();
+  const addLink = (successorId: string, xml: string) => predecessors.set(successorId, [...(predecessors.get(successorId) ?? []), xml]);
+  input.dependencies
+    .filter(d => d.type === 'blocks' && uidById.has(d.predecessorTaskId) && uidById.has(d.successorTaskId))
+    .forEach(d => {
+      addLink(
+        d.successorTaskId,
+        `<PredecessorLink><PredecessorUID>${uidById.get(d.predecessorTaskId)}</PredecessorUID><Type>${LINK_TYPE_CODES[d.linkType]}</Type><CrossProject>0</CrossProject><LinkLag>${d.lagDays * hoursPerDay * 600}</LinkLag><LagFormat>7</LagFormat></PredecessorLink>`
+      );
+    });
+  input.tasks
+    .filter(t => t.milestoneId && uidById.has(t.milestoneId))
+    .forEach(t => {
+      addLink(t.milestoneId!, `<PredecessorLink><PredecessorUID>${uidById.get(t.id)}</PredecessorUID><Type>1</Type><CrossProject>0</CrossProject><LinkLag>0</LinkLag><LagFormat>7</LagFormat></PredecessorLink>`);
+    });
+
+  const baselines = input.baselines.slice(0, MS_PROJECT_BASELINE_LIMIT);
+  const baselineXml = (itemType: 'task' | 'milestone', id: string) =>
+    baselines
+      .map((baseline, number) => {
+        const item = baseline.items.find(i => i.item_type === itemType && i.item_id === id);
+        if (!item) return '';
+        const dates = span(calendar, item.start_date ?? undefined, item.due_date ?? undefined, item.estimated_hours ?? 0);
+        if (!dates) return '';
+        const isMilestone = itemType === 'milestone';
+        return `<Baseline><Number>${number}</Number><Start>${isMilestone ? dates.finish : dates.start}</Start><Finish>${dates.finish}</Finish><Duration>${xmlDuration(isMilestone ? 0 : dates.hours)}</Duration><DurationFormat>7</DurationFormat><Work>${xmlDuration(item.estimated_hours ?? 0)}</Work></Baseline>`;
+      })
+      .join('');
+
+  const assignments: string[] = [];
+  const tasksXml = items.map((item, i) => {
+    const uid = i + 1;
+    const links = (predecessors.get(item.id) ?? []).join('');
+    const common = `<UID>${uid}</UID><GUID>${item.id}</GUID><ID>${uid}</ID>`;
+
+    if (item.kind === 'milestone') {
+      const { milestone } = item;
+      const at = dayTime(milestone.dueDate, DAY_START_HOUR + hoursPerDay);
+      return `<Task>${common}${element('Name', milestone.title)}<Type>1</Type><IsNull>0</IsNull><OutlineNumber>${uid}</OutlineNumber><OutlineLevel>1</OutlineLevel><Priority>500</Priority><Start>${at}</Start><Finish>${at}</Finish><Duration>PT0H0M0S</Duration><DurationFormat>7</DurationFormat><Work>PT0H0M0S</Work><Milestone>1</Milestone><Summary>0</Summary><PercentComplete>0</PercentComplete><ConstraintType>7</ConstraintType><ConstraintDate>${at}</ConstraintDate>${element('Notes', milestone.description)}${links}${baselineXml('milestone', milestone.id)}</Task>`;
+    }
+
+    const { task } = item;
+    const dates = span(calendar, task.startDate, task.dueDate, task.estimatedHours);
+    const start = dates?.start ?? dayTime(project.startDate, DAY_START_HOUR);
+    const hours = dates?.hours ?? durationInWorkingDays(calendar, task.estimatedHours) * hoursPerDay;
+    const finish = dates?.finish ?? dayTime(format(addWorkingDays(calendar, parseISO(project.startDate), hours / hoursPerDay - 1), 'yyyy-MM-dd'), DAY_START_HOUR + hoursPerDay);
+    // Dated tasks keep their dates: start no earlier than their start date
+    const constraint = dates ? `<ConstraintType>4</ConstraintType><ConstraintDate>${start}</ConstraintDate>` : '<ConstraintType>0</ConstraintType>';
+    const resource = task.assigneeId ? resourceUid.get(task.assigneeId) : undefined;
+    if (resource) {
+      assignments.push(
+        `<Assignment><UID>${assignments.length + 1}</UID><TaskUID>${uid}</TaskUID><ResourceUID>${resource}</ResourceUID><PercentWorkComplete>${percentComplete(task.status)}</PercentWorkComplete><Finish>${finish}</Finish><Start>${start}</Start><Units>1</Units><Work>${xmlDuration(task.estimatedHours)}</Work></Assignment>`
+      );
+    }
+    return `<Task>${common}${element('Name', task.title)}<Type>1</Type><IsNull>0</IsNull><OutlineNumber>${uid}</OutlineNumber><OutlineLevel>1</OutlineLevel><Priority>${PRIORITY_VALUES[task.priority] ?? 500}</Priority><Start>${start}</Start><Finish>${finish}</Finish><Duration>${xmlDuration(hours)}</Duration><DurationFormat>7</DurationFormat><Work>${xmlDuration(task.estimatedHours)}</Work><Milestone>0</Milestone><Summary>0</Summary><PercentComplete>${percentComplete(task.status)}</PercentComplete>${constraint}${element('Notes', task.description)}${links}${baselineXml('task', task.id)}</Task>`;
+  });
+
+  const resourcesXml = members.map(
+    (member, i) =>
+      `<Resource><UID>${i + 1}</UID><GUID>${member.id}</GUID><ID>${i + 1}</ID>${element('Name', member.name)}<Type>1</Type><IsNull>0</IsNull>${element('EmailAddress', member.email)}${element('Group', member.role)}<MaxUnits>1</MaxUnits>${
+        member.hourlyRate ? `<StandardRate>${member.hourlyRate}</StandardRate><StandardRateFormat>2</StandardRateFormat>` : ''
+      }</Resource>`
+  );
+
+  const projectStart = dayTime(project.startDate, DAY_START_HOUR);
+  const projectFinish = project.endDate ? dayTime(project.endDate, DAY_START_HOUR + hoursPerDay) : undefined;
+  const minutesPerDay = hoursPerDay * 60;
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Project xmlns="http://schemas.microsoft.com/project">
+<SaveVersion>14</SaveVersion>
+${element('Name', `${project.name}.xml`)}
+${element('Title', project.name)}
+${element('Subject', project.description)}
+<CreationDate>${format(input.now, "yyyy-MM-dd'T'HH:mm:ss")}</CreationDate>
+<ScheduleFromStart>1</ScheduleFromStart>
+<StartDate>${projectStart}</StartDate>
+${element('FinishDate', projectFinish)}
+<CalendarUID>1</CalendarUID>
+<DefaultStartTime>${timeOfDay(DAY_START_HOUR)}</DefaultStartTime>
+<MinutesPerDay>${minutesPerDay}</MinutesPerDay>
+<MinutesPerWeek>${minutesPerDay * calendar.workingDays.length}</MinutesPerWeek>
+<DaysPerMonth>20</DaysPerMonth>
+<DurationFormat>7</DurationFormat>
+<WorkFormat>2</WorkFormat>
+${calendarXml(calendar)}
+<Tasks>
+<Task><UID>0</UID><ID>0</ID>${element('Name', project.name)}<Type>1</Type><IsNull>0</IsNull><OutlineNumber>0</OutlineNumber><OutlineLevel>0</OutlineLevel><Start>${projectStart}</Start><Summary>1</Summary></Task>
+${tasksXml.join('\n')}
+</Tasks>
+<Resources>
+${resourcesXml.join('\n')}
+</Resources>
+<Assignments>
+${assignments.join('\n')}
+</Assignments>
+</Project>
+`;
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+export interface MsProjectTask {
+  uid: string;
+  guid?: string;
+  name: string;
+  notes?: string;
+  /** yyyy-MM-dd */
+  start?: string;
+  finish?: string;
+  durationHours: number;
+  workHours: number | null;
+  percentComplete: number;
+  priority: number;
+  milestone: boolean;
+  summary: boolean;
+  predecessors: Array<{ uid: string; linkType: DependencyLinkType; lagDays: number | null }>;
+  baselines: Array<{ number: number; start?: string; finish?: string; workHours: number | null }>;
+}
+
+export interface MsProjectResource {
+  uid: string;
+  guid?: string;
+  name: string;
+  email?: string;
+}
+
+export interface MsProjectFile {
+  name: string;
+  tasks: MsProjectTask[];
+  resources: MsProjectResource[];
+  assignments: Array<{ taskUid: string; resourceUid: string; workHours: number }>;
+}
+
+/** Hours of an XML duration like PT12H30M0S (days count as 24 hours) */
+export function parseXmlDuration(value: string | undefined): number | null {
+  if (!value) return null;
+  const match = /^-?P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, days, hours, minutes, seconds] = match.map(Number);
+  const total = (days || 0) * 24 + (hours || 0) + (minutes || 0) / 60 + (seconds || 0) / 3600;
+  return Math.round(total * 100) / 100;
+}
+
+const children = (parent: Element, name: string) => Array.from(parent.children).filter(el => el.localName === name);
+const text = (parent: Element, name: string) => children(parent, name)[0]?.textContent?.trim() || undefined;
+const day = (value: string | undefined) => (value && /^\d{4}-\d{2}-\d{2}/.test(value) ? value.slice(0, 10) : undefined);
+const stripGuid = (value: string | undefined) => value?.replace(/[{}]/g, '').toLowerCase() || undefined;
+
+/** Reads an MS Project XML file; throws when it isn't one */
+export function parseMsProjectXml(xml: string): MsProjectFile {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = doc.documentElement;
+  if (doc.getElementsByTagName('parsererror').length > 0 || root?.localName !== 'Project') {
+    throw new Error('The file is not Microsoft Project XML (save it from MS Project as "XML Format")');
+  }
+
+  const minutesPerDay = Number(text(root, 'MinutesPerDay')) || 480;
+  const section = (name: string, item: string) => children(root, name).flatMap(el => children(el, item));
+
+  const tasks = section('Tasks', 'Task')
+    .filter(el => text(el, 'IsNull') !== '1' && text(el, 'OutlineLevel') !== '0' && text(el, 'UID') !== '0')
+    .map((el): MsProjectTask => ({
+      uid: text(el, 'UID') ?? '',
+      guid: stripGuid(text(el, 'GUID')),
+      name: text(el, 'Name') ?? '',
+      notes: text(el, 'Notes'),
+      start: day(text(el, 'Start')),
+      finish: day(text(el, 'Finish')),
+      durationHours: parseXmlDuration(text(el, 'Duration')) ?? 0,
+      workHours: parseXmlDuration(text(el, 'Work')),
+      percentComplete: Number(text(el, 'PercentComplete')) || 0,
+      priority: Number(text(el, 'Priority')) || 500,
+      milestone: text(el, 'Milestone') === '1',
+      summary: text(el, 'Summary') === '1',
+      predecessors: children(el, 'PredecessorLink').map(link => {
+        const lagFormat = Number(text(link, 'LagFormat') ?? 7);
+        const lag = Number(text(link, 'LinkLag')) || 0;
+        return {
+          uid: text(link, 'PredecessorUID') ?? '',
+          linkType: LINK_TYPES_BY_CODE[Number(text(link, 'Type') ?? 1)] ?? 'FS',
+          // LinkLag is in tenths of a minute
+          lagDays: LAG_FORMATS.has(lagFormat) ? Math.round(lag / 10 / minutesPerDay) : null,
+        };
+      }),
+      baselines: children(el, 'Baseline').map(baseline => ({
+        number: Number(text(baseline, 'Number')) || 0,
+        start: day(text(baseline, 'Start')),
+        finish: day(text(baseline, 'Finish')),
+        workHours: parseXmlDuration(text(baseline, 'Work')),
+      })),
+    }))
+    .filter(task => task.uid !== '');
+
+  const resources = section('Resources', 'Resource')
+    .filter(el => text(el, 'IsNull') !== '1' && text(el, 'Name') && text(el, 'UID') !== '0')
+    .map(el => ({
+      uid: text(el, 'UID') ?? '',
+      guid: stripGuid(text(el, 'GUID')),
+      name: text(el, 'Name') ?? '',
+      email: text(el, 'EmailAddress'),
+    }));
+
+  const assignments = section('Assignments', 'Assignment').map(el => ({
+    taskUid: text(el, 'TaskUID') ?? '',
+    resourceUid: text(el, 'ResourceUID') ?? '',
+    workHours: parseXmlDuration(text(el, 'Work')) ?? 0,
+  }));
+
+  return { name: text(root, 'Title') ?? text(root, 'Name')?.replace(/\.xml$/i, '') ?? '', tasks, resources, assignments };
+}
+
+// ============================================
+// Import planning
+// ============================================
+
+/** Payload of import_project_plan; items are keyed by their task UID in the file */
+export interface ProjectPlanImport {
+  milestones: Array<{ key: string; id: string | null; title: string; description: string | null; due_date: string }>;
+  tasks: Array<{
+    key: string;
+    id: string | null;
+    title: string;
+    description: string | null;
+    status: string;
+    priority: string;
+    start_date: string | null;
+    due_date: string | null;
+    estimated_hours: number;
+    assignee_id: string | null;
+    milestone_key: string | null;
+  }>;
+  dependencies: Array<{ predecessor: string; successor: string; link_type: DependencyLinkType; lag_days: number }>;
+  baselines: Array<{
+    name: string;
+    items: Array<{ key: string; start_date: string | null; due_date: string | null; estimated_hours: number | null }>;
+  }>;
+}
+
+export interface MsProjectImportPreview {
+  plan: ProjectPlanImport;
+  tasksCreated: number;
+  tasksUpdated: number;
+  milestonesCreated: number;
+  milestonesUpdated: number;
+  /** Project tasks the file doesn't have; left as they are */
+  tasksUntouched: number;
+  /** Names of the baselines that will be created */
+  baselineNames: string[];
+  /** What couldn't be imported as it is */
+  warnings: string[];
+}
+
+export interface MsProjectImportContext {
+  /** The project's tasks and milestones */
+  tasks: Task[];
+  milestones: Milestone[];
+  teamMembers: TeamMember[];
+  /** The project's baselines with their rows, to skip the ones the file brings back unchanged */
+  baselines: Array<{ name: string; items: ScheduleBaselineItem[] }>;
+}
+
+function importedStatus(percent: number, current: string | undefined): string {
+  if (percent >= 100) return 'done';
+  if (percent > 0) return !current || current === 'todo' || current === 'done' ? 'in-progress' : current;
+  return !current || current === 'done' ? 'todo' : current;
+}
+
+const importedPriority = (priority: number) => (priority >= 600 ? 'high' : priority <= 400 ? 'low' : 'medium');
+
+const baselineName = (number: number) => (number === 0 ? 'MS Project Baseline' : `MS Project Baseline ${number}`);
+
+/** What importing the file does to the project, and the payload for import_project_plan */
+export function buildMsProjectImport(file: MsProjectFile, context: MsProjectImportContext): MsProjectImportPreview {
+  const warnings: string[] = [];
+  const taskById = new Map(context.tasks.map(t => [t.id, t]));
+  const milestoneById = new Map(context.milestones.map(m => [m.id, m]));
+
+  const summaries = file.tasks.filter(t => t.summary);
+  if (summaries.length > 0) {
+    warnings.push(`${summaries.length} summary ${summaries.length === 1 ? 'task was' : 'tasks were'} flattened; their subtasks are imported as tasks`);
+  }
+  const leaves = file.tasks.filter(t => !t.summary && t.name);
+  const milestoneTasks = leaves.filter(t => t.milestone || (t.guid !== undefined && milestoneById.has(t.guid)));
+  const workTasks = leaves.filter(t => !milestoneTasks.includes(t));
+
+  // Resources: our id (GUID), then email, then name
+  const memberByResource = new Map<string, TeamMember>();
+  file.resources.forEach(resource => {
+    const member =
+      context.teamMembers.find(m => m.id === resource.guid) ??
+      context.teamMembers.find(m => resource.email && m.email?.toLowerCase() === resource.email.toLowerCase()) ??
+      context.teamMembers.find(m => m.name.trim().toLowerCase() === resource.name.trim().toLowerCase());
+    if (member) memberByResource.set(resource.uid, member);
+    else warnings.push(`Resource "${resource.name}" doesn't match a team member; its assignments are skipped`);
+  });
+  // One assignee per task: the resource with the most work
+  const assigneeByTask = new Map<string, { memberId: string; work: number; count: number }>();
+  file.assignments.forEach(a => {
+    const member = memberByResource.get(a.resourceUid);
+    if (!member) return;
+    const current = assigneeByTask.get(a.taskUid);
+    const count = (current?.count ?? 0) + 1;
+    assigneeByTask.set(a.taskUid, !current || a.workHours > current.work ? { memberId: member.id, work: a.workHours, count } : { ...current, count });
+  });
+  const multiCount = [...assigneeByTask.values()].filter(a => a.count > 1).length;
+  if (multiCount > 0) warnings.push(`${multiCount} ${multiCount === 1 ? 'task has' : 'tasks have'} several resources; the one with the most work becomes the assignee`);
+
+  const milestones: ProjectPlanImport['milestones'] = [];
+  milestoneTasks.forEach(t => {
+    const due = t.finish ?? t.start;
+    if (!due) {
+      warnings.push(`Milestone "${t.name}" has no date and was skipped`);
+      return;
+    }
+    const existing = t.guid ? milestoneById.get(t.guid) : undefined;
+    milestones.push({ key: t.uid, id: existing?.id ?? null, title: t.name, description: t.notes ?? existing?.description ?? null, due_date: due });
+  });
+  const milestoneKeys = new Set(milestones.map(m => m.key));
+
+  // Links into milestones say which milestone a task belongs to
+  const milestoneOfTask = new Map<string, string>();
+  const dependencies: ProjectPlanImport['dependencies'] = [];
+  let droppedLinks = 0;
+  let percentLags = 0;
+  const taskKeys = new Set(workTasks.map(t => t.uid));
+  leaves.forEach(successor => {
+    successor.predecessors.forEach(link => {
+      const linksTask = taskKeys.has(link.uid) && link.uid !== successor.uid;
+      if (milestoneKeys.has(successor.uid) && linksTask) {
+        milestoneOfTask.set(link.uid, successor.uid);
+      } else if (taskKeys.has(successor.uid) && linksTask) {
+        if (dependencies.some(d => d.predecessor === link.uid && d.successor === successor.uid)) return;
+        if (link.lagDays === null) percentLags++;
+        dependencies.push({
+          predecessor: link.uid,
+          successor: successor.uid,
+          link_type: link.linkType,
+          lag_days: Math.max(-365, Math.min(365, link.lagDays ?? 0)),
+        });
+      } else {
+        droppedLinks++;
+      }
+    });
+  });
+  if (droppedLinks > 0) {
+    warnings.push(`${droppedLinks} ${droppedLinks === 1 ? 'link' : 'links'} from milestones or summary tasks can't be stored as task dependencies and ${droppedLinks === 1 ? 'was' : 'were'} skipped`);
+  }
+  if (percentLags > 0) warnings.push(`${percentLags} percentage ${percentLags === 1 ? 'lag was' : 'lags were'} imported as no lag`);
+
+  const tasks: ProjectPlanImport['tasks'] = workTasks.map(t => {
+    const existing = t.guid ? taskById.get(t.guid) : undefined;
+    return {
+      key: t.uid,
+      id: existing?.id ?? null,
+      title: t.name,
+      description: t.notes ?? existing?.description ?? null,
+      status: importedStatus(t.percentComplete, existing?.status),
+      priority: existing && PRIORITY_VALUES[existing.priority] === t.priority ? existing.priority : importedPriority(t.priority),
+      start_date: t.start ?? null,
+      due_date: t.finish ?? null,
+      estimated_hours: t.workHours ?? t.durationHours,
+      // A file without resources leaves assignees alone
+      assignee_id: file.resources.length > 0 ? assigneeByTask.get(t.uid)?.memberId ?? null : existing?.assigneeId ?? null,
+      milestone_key: milestoneOfTask.get(t.uid) ?? null,
+    };
+  });
+
+  // Baselines, unless the file brings back one the project already has
+  const itemIdByKey = new Map(leaves.map(t => [t.uid, t.guid]));
+  const numbers = [...new Set(leaves.flatMap(t => t.baselines.map(b => b.number)))].sort((a, b) => a - b);
+  const usedNames = new Set(context.baselines.map(b => b.name.toLowerCase()));
+  const baselines: ProjectPlanImport['baselines'] = [];
+  numbers.forEach(number => {
+    const items = leaves
+      .filter(t => milestoneKeys.has(t.uid) || taskKeys.has(t.uid))
+      .flatMap(t => {
+        const b = t.baselines.find(x => x.number === number);
+        if (!b) return [];
+        const isMilestone = milestoneKeys.has(t.uid);
+        return [{ key: t.uid, start_date: isMilestone ? null : b.start ?? null, due_date: b.finish ?? null, estimated_hours: isMilestone ? null : b.workHours }];
+      });
+    if (items.length === 0) return;
+
+    const sameAsExisting = context.baselines.some(existing => {
+      const rows = existing.items.filter(i => i.item_type === 'task' || i.item_type === 'milestone');
+      return (
+        rows.length === items.length &&
+        items.every(item => {
+          const row = rows.find(r => r.item_id === itemIdByKey.get(item.key));
+          return (
+            row &&
+            (row.start_date ?? null) === item.start_date &&
+            (row.due_date ?? null) === item.due_date &&
+            (row.item_type === 'milestone' || Number(row.estimated_hours ?? 0) === Number(item.estimated_hours ?? 0))
+          );
+        })
+      );
+    });
+    if (sameAsExisting) return;
+
+    let name = baselineName(number);
+    for (let n = 2; usedNames.has(name.toLowerCase()); n++) name = `${baselineName(number)} (${n})`;
+    usedNames.add(name.toLowerCase());
+    baselines.push({ name, items });
+  });
+
+  const fileIds = new Set(leaves.map(t => t.guid).filter(Boolean));
+  return {
+    plan: { milestones, tasks, dependencies, baselines },
+    tasksCreated: tasks.filter(t => !t.id).length,
+    tasksUpdated: tasks.filter(t => t.id).length,
+    milestonesCreated: milestones.filter(m => !m.id).length,
+    milestonesUpdated: milestones.filter(m => m.id).length,
+    tasksUntouched: context.tasks.filter(t => !fileIds.has(t.id)).length,
+    baselineNames: baselines.map(b => b.name),
+    warnings,
+  };
+}
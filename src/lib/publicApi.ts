@@ -0,0 +1,424 @@
+/**
+ * Public REST API (v1) – the resources, their fields and filters, the write bodies, list parameters and the
+ * OpenAPI document. Served by the api edge function; who may do what is in src/domains/permissions/apiAccess.ts.
+ * Imported by Deno as well, so imports carry the .ts extension.
+ */
+
+import { API_RESOURCES, type ApiResource } from '../domains/permissions/apiAccess.ts';
+
+export const PUBLIC_API_VERSION = 'v1';
+export const API_DEFAULT_LIMIT = 50;
+export const API_MAX_LIMIT = 200;
+
+export type ApiFieldType = 'uuid' | 'string' | 'date' | 'date-time' | 'number' | 'integer';
+
+/** A field type; a trailing '?' means it can be null */
+export type ApiFieldSpec = ApiFieldType | `${ApiFieldType}?`;
+
+export interface PublicApiResourceDefinition {
+  table: string;
+  /** Singular name, used in the OpenAPI document */
+  name: string;
+  description: string;
+  fields: Record<string, ApiFieldSpec>;
+  /** Fields that can be filtered on by equality, e.g. ?status=active */
+  filters: string[];
+  /** Date field the from / to parameters apply to */
+  dateField?: string;
+  /** Archived rows are left out unless include_archived=true */
+  archivable?: boolean;
+}
+
+const TIMESTAMPS = { created_at: 'date-time', updated_at: 'date-time' } as const;
+
+export const PUBLIC_API_RESOURCES: Record<ApiResource, PublicApiResourceDefinition> = {
+  portfolios: {
+    table: 'portfolios',
+    name: 'Portfolio',
+    description: 'Portfolios of the organization.',
+    fields: { id: 'uuid', name: 'string', description: 'string?', ...TIMESTAMPS },
+    filters: [],
+  },
+  programs: {
+    table: 'programs',
+    name: 'Program',
+    description: 'Programs, each in one portfolio.',
+    fields: {
+      id: 'uuid', portfolio_id: 'uuid', name: 'string', description: 'string?', status: 'string', owner_id: 'uuid?',
+      start_date: 'date?', end_date: 'date?', budget: 'number?', allocated_budget: 'number?', archived_at: 'date-time?',
+      ...TIMESTAMPS,
+    },
+    filters: ['portfolio_id', 'status', 'owner_id'],
+    dateField: 'start_date',
+    archivable: true,
+  },
+  projects: {
+    table: 'projects',
+    name: 'Project',
+    description: 'Projects, each in one program.',
+    fields: {
+      id: 'uuid', program_id: 'uuid', name: 'string', description: 'string?', status: 'string', progress: 'number',
+      start_date: 'date?', end_date: 'date?', budget: 'number?', allocated_budget: 'number?', actual_cost: 'number?',
+      archived_at: 'date-time?', ...TIMESTAMPS,
+    },
+    filters: ['program_id', 'status'],
+    dateField: 'start_date',
+    archivable: true,
+  },
+  tasks: {
+    table: 'tasks',
+    name: 'Task',
+    description: 'Tasks of the projects the token can reach.',
+    fields: {
+      id: 'uuid', project_id: 'uuid', milestone_id: 'uuid?', title: 'string', description: 'string?', status: 'string',
+      priority: 'string', assignee_id: 'uuid?', start_date: 'date?', due_date: 'date?', estimated_hours: 'number',
+      actual_hours: 'number', actual_cost: 'number?', position: 'integer', archived_at: 'date-time?', ...TIMESTAMPS,
+    },
+    filters: ['project_id', 'milestone_id', 'assignee_id', 'status', 'priority'],
+    dateField: 'due_date',
+    archivable: true,
+  },
+  milestones: {
+    table: 'milestones',
+    name: 'Milestone',
+    description: 'Project milestones.',
+    fields: {
+      id: 'uuid', project_id: 'uuid', program_id: 'uuid', title: 'string', description: 'string?', due_date: 'date',
+      ...TIMESTAMPS,
+    },
+    filters: ['project_id', 'program_id'],
+    dateField: 'due_date',
+  },
+  contacts: {
+    table: 'contacts',
+    name: 'Contact',
+    description: 'Organization contacts. Not available to project-limited tokens; email needs the View Contact Emails permission.',
+    fields: {
+      id: 'uuid', name: 'string', email: 'string?', phone: 'string?', company: 'string?', role: 'string?',
+      expertise: 'string?', notes: 'string?', ...TIMESTAMPS,
+    },
+    filters: ['company', 'role'],
+  },
+  time_entries: {
+    table: 'time_entries',
+    name: 'TimeEntry',
+    description: "Logged time. Without the View Resource Reports permission only the token owner's own entries are returned.",
+    fields: {
+      id: 'uuid', member_id: 'uuid', task_id: 'uuid', project_id: 'uuid', entry_date: 'date', hours: 'number',
+      notes: 'string?', status: 'string', hourly_rate: 'number?', submitted_at: 'date-time?', reviewed_at: 'date-time?',
+      ...TIMESTAMPS,
+    },
+    filters: ['project_id', 'task_id', 'member_id', 'status'],
+    dateField: 'entry_date',
+  },
+};
+
+export interface PublicApiWriteDefinition {
+  name: string;
+  fields: Record<string, ApiFieldSpec>;
+  required: string[];
+}
+
+const TASK_WRITE_FIELDS: Record<string, ApiFieldSpec> = {
+  title: 'string', description: 'string?', status: 'string', priority: 'string', assignee_id: 'uuid?',
+  milestone_id: 'uuid?', start_date: 'date?', due_date: 'date?', estimated_hours: 'number',
+};
+
+/** Request bodies of the write endpoints (tokens with the write scope) */
+export const PUBLIC_API_WRITES = {
+  createTask: { name: 'TaskCreate', fields: { project_id: 'uuid', ...TASK_WRITE_FIELDS }, required: ['project_id', 'title'] },
+  updateTask: { name: 'TaskUpdate', fields: TASK_WRITE_FIELDS, required: [] },
+  createTimeEntry: {
+    name: 'TimeEntryCreate',
+    fields: { task_id: 'uuid', member_id: 'uuid', entry_date: 'date', hours: 'number', notes: 'string?', status: 'string' },
+    required: ['task_id', 'entry_date', 'hours'],
+  },
+} satisfies Record<string, PublicApiWriteDefinition>;
+
+// ============================================
+// Validation
+// ============================================
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isUuid(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+function isValidValue(type: ApiFieldType, value: unknown): boolean {
+  switch (type) {
+    case 'uuid':
+      return typeof value === 'string' && isUuid(value);
+    case 'date':
+      return typeof value === 'string' && DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+    case 'date-time':
+      return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    default:
+      return typeof value === 'string';
+  }
+}
+
+/** Checks a JSON request body against a write definition. Returns the values to write or an error message. */
+export function validateApiBody(
+  definition: PublicApiWriteDefinition,
+  body: unknown
+): { values: Record<string, unknown> } | { error: string } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return { error: 'Request body must be a JSON object' };
+
+  const values: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(body)) {
+    // Own fields only: keys such as `constructor` or `__proto__` are unknown, not Object.prototype members
+    if (!Object.prototype.hasOwnProperty.call(definition.fields, field)) return { error: `Unknown field: ${field}` };
+    const spec = definition.fields[field];
+    const nullable = spec.endsWith('?');
+    if (value === null && nullable) {
+      values[field] = null;
+      continue;
+    }
+    const type = (nullable ? spec.slice(0, -1) : spec) as ApiFieldType;
+    if (!isValidValue(type, value)) return { error: `${field} must be ${nullable ? `a ${type} or null` : `a ${type}`}` };
+    values[field] = value;
+  }
+
+  const missing = definition.required.filter((field) => values[field] === undefined);
+  if (missing.length > 0) return { error: `Missing required field${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}` };
+  if (Object.keys(values).length === 0) return { error: 'Nothing to update' };
+  return { values };
+}
+
+export interface ApiListParams {
+  limit: number;
+  offset: number;
+  /** [field, value] equality filters */
+  filters: [string, string][];
+  updatedSince: string | null;
+  from: string | null;
+  to: string | null;
+  includeArchived: boolean;
+}
+
+const LIST_PARAMS = ['limit', 'offset', 'updated_since', 'from', 'to', 'include_archived'];
+
+/** Reads the query string of a list request. Unknown parameters are rejected so typos do not go unnoticed. */
+export function parseApiListParams(
+  definition: PublicApiResourceDefinition,
+  params: URLSearchParams
+): ApiListParams | { error: string } {
+  for (const key of params.keys()) {
+    if (!LIST_PARAMS.includes(key) && !definition.filters.includes(key)) return { error: `Unknown parameter: ${key}` };
+  }
+
+  const limit = params.has('limit') ? Number(params.get('limit')) : API_DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > API_MAX_LIMIT) {
+    return { error: `limit must be a whole number from 1 to ${API_MAX_LIMIT}` };
+  }
+  const offset = params.has('offset') ? Number(params.get('offset')) : 0;
+  if (!Number.isInteger(offset) || offset < 0) return { error: 'offset must be a whole number of 0 or more' };
+
+  const filters: [string, string][] = [];
+  for (const field of definition.filters) {
+    const value = params.get(field);
+    if (value === null) continue;
+    const spec = definition.fields[field].replace('?', '') as ApiFieldType;
+    if (spec === 'uuid' && !isUuid(value)) return { error: `${field} must be a uuid` };
+    filters.push([field, value]);
+  }
+
+  const updatedSince = params.get('updated_since');
+  if (updatedSince !== null && !isValidValue('date-time', updatedSince)) return { error: 'updated_since must be a date-time' };
+
+  const from = params.get('from');
+  const to = params.get('to');
+  if ((from !== null || to !== null) && !definition.dateField) return { error: 'from and to are not supported here' };
+  if (from !== null && !isValidValue('date', from)) return { error: 'from must be a date (YYYY-MM-DD)' };
+  if (to !== null && !isValidValue('date', to)) return { error: 'to must be a date (YYYY-MM-DD)' };
+
+  const includeArchived = params.get('include_archived');
+  if (includeArchived !== null && !definition.archivable) return { error: 'include_archived is not supported here' };
+  if (includeArchived !== null && includeArchived !== 'true' && includeArchived !== 'false') {
+    return { error: 'include_archived must be true or false' };
+  }
+
+  return { limit, offset, filters, updatedSince, from, to, includeArchived: includeArchived === 'true' };
+}
+
+// ============================================
+// OpenAPI document
+// ============================================
+
+function fieldSchema(spec: ApiFieldSpec): Record<string, unknown> {
+  const nullable = spec.endsWith('?');
+  const type = (nullable ? spec.slice(0, -1) : spec) as ApiFieldType;
+  const base: Record<string, unknown> =
+    type === 'uuid' ? { type: 'string', format: 'uuid' }
+    : type === 'date' ? { type: 'string', format: 'date' }
+    : type === 'date-time' ? { type: 'string', format: 'date-time' }
+    : { type };
+  return nullable ? { ...base, type: [base.type, 'null'] } : base;
+}
+
+function objectSchema(fields: Record<string, ApiFieldSpec>, required: string[]): Record<string, unknown> {
+  return {
+    type: 'object',
+    properties: Object.fromEntries(Object.entries(fields).map(([field, spec]) => [field, fieldSchema(spec)])),
+    required,
+    additionalProperties: false,
+  };
+}
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: ref('Error') } },
+});
+
+const ERROR_RESPONSES = {
+  '400': errorResponse('Invalid parameters or body'),
+  '401': errorResponse('Missing, invalid, expired or revoked token'),
+  '403': errorResponse('The token or its user may not do this'),
+};
+
+const dataResponse = (description: string, schema: Record<string, unknown>) => ({
+  description,
+  content: { 'application/json': { schema: { type: 'object', properties: { data: schema }, required: ['data'] } } },
+});
+
+const queryParam = (name: string, description: string, schema: Record<string, unknown>) => ({ name, in: 'query', description, schema });
+
+const ID_PARAM = { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } };
+
+/** The OpenAPI 3.1 document of the v1 API; serverUrl is the base the /v1 paths are relative to. */
+export function buildOpenApiDocument(serverUrl: string): Record<string, unknown> {
+  const schemas: Record<string, unknown> = {
+    Error: { type: 'object', properties: { error: { type: 'string' } }, required: ['error'] },
+    Pagination: {
+      type: 'object',
+      properties: {
+        limit: { type: 'integer' },
+        offset: { type: 'integer' },
+        total: { type: 'integer' },
+        next_offset: { type: ['integer', 'null'], description: 'Offset of the next page; null on the last page' },
+      },
+      required: ['limit', 'offset', 'total', 'next_offset'],
+    },
+    Me: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string', format: 'uuid' },
+        org_id: { type: 'string', format: 'uuid' },
+        org_role: { type: 'string', enum: ['owner', 'admin', 'manager', 'member', 'viewer'] },
+        team_member_id: { type: ['string', 'null'], format: 'uuid' },
+        scope: { type: 'string', enum: ['read', 'write'] },
+        project_ids: { type: ['array', 'null'], items: { type: 'string', format: 'uuid' } },
+        expires_at: { type: ['string', 'null'], format: 'date-time' },
+      },
+    },
+  };
+  const paths: Record<string, Record<string, unknown>> = {
+    [`/${PUBLIC_API_VERSION}/me`]: {
+      get: {
+        summary: 'The token and the role of its user',
+        operationId: 'getMe',
+        responses: { '200': dataResponse('Token details', ref('Me')), '401': ERROR_RESPONSES['401'] },
+      },
+    },
+  };
+
+  for (const resource of API_RESOURCES) {
+    const definition = PUBLIC_API_RESOURCES[resource];
+    schemas[definition.name] = {
+      ...objectSchema(definition.fields, []),
+      description: 'Fields the role may not see (budgets without View Budget, contact emails without View Contact Emails) are left out.',
+    };
+
+    const parameters = [
+      queryParam('limit', `Page size (1–${API_MAX_LIMIT})`, { type: 'integer', minimum: 1, maximum: API_MAX_LIMIT, default: API_DEFAULT_LIMIT }),
+      queryParam('offset', 'Rows to skip', { type: 'integer', minimum: 0, default: 0 }),
+      queryParam('updated_since', 'Only rows changed at or after this time', { type: 'string', format: 'date-time' }),
+      ...definition.filters.map((field) => queryParam(field, `Only rows with this ${field}`, fieldSchema(definition.fields[field].replace('?', '') as ApiFieldSpec))),
+      ...(definition.dateField
+        ? [
+            queryParam('from', `Only rows with ${definition.dateField} on or after this date`, { type: 'string', format: 'date' }),
+            queryParam('to', `Only rows with ${definition.dateField} on or before this date`, { type: 'string', format: 'date' }),
+          ]
+        : []),
+      ...(definition.archivable ? [queryParam('include_archived', 'Include archived rows', { type: 'boolean', default: false })] : []),
+    ];
+
+    paths[`/${PUBLIC_API_VERSION}/${resource}`] = {
+      get: {
+        summary: `List ${resource.replace('_', ' ')}`,
+        description: definition.description,
+        operationId: `list_${resource}`,
+        parameters,
+        responses: {
+          '200': {
+            description: 'One page, oldest first',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: { data: { type: 'array', items: ref(definition.name) }, pagination: ref('Pagination') },
+                  required: ['data', 'pagination'],
+                },
+              },
+            },
+          },
+          ...ERROR_RESPONSES,
+        },
+      },
+    };
+    paths[`/${PUBLIC_API_VERSION}/${resource}/{id}`] = {
+      get: {
+        summary: `Get one ${definition.name}`,
+        operationId: `get_${resource}`,
+        parameters: [ID_PARAM],
+        responses: { '200': dataResponse(definition.name, ref(definition.name)), ...ERROR_RESPONSES, '404': errorResponse('Not found') },
+      },
+    };
+  }
+
+  for (const write of Object.values(PUBLIC_API_WRITES)) {
+    schemas[write.name] = objectSchema(write.fields, write.required);
+  }
+  const writeOperation = (operationId: string, summary: string, body: string, result: string, status: string) => ({
+    summary,
+    description: 'Needs a token with the write scope.',
+    operationId,
+    requestBody: { required: true, content: { 'application/json': { schema: ref(body) } } },
+    responses: { [status]: dataResponse(result, ref(result)), ...ERROR_RESPONSES, '404': errorResponse('Not found') },
+  });
+  paths[`/${PUBLIC_API_VERSION}/tasks`].post = writeOperation('create_task', 'Create a task', 'TaskCreate', 'Task', '201');
+  paths[`/${PUBLIC_API_VERSION}/tasks/{id}`].patch = {
+    ...writeOperation('update_task', 'Update a task', 'TaskUpdate', 'Task', '200'),
+    parameters: [ID_PARAM],
+  };
+  paths[`/${PUBLIC_API_VERSION}/time_entries`].post = {
+    ...writeOperation('create_time_entry', 'Log time', 'TimeEntryCreate', 'TimeEntry', '201'),
+    description: 'Needs a token with the write scope. member_id defaults to the token owner; status is draft (default) or submitted.',
+  };
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Accord REST API',
+      version: `${PUBLIC_API_VERSION}`,
+      description:
+        'Read (and with a write token, update) portfolios, programs, projects, tasks, milestones, contacts and time entries. ' +
+        'Authenticate with a personal access token from Settings → API tokens: Authorization: Bearer acc_…',
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ bearerAuth: [] }],
+    components: {
+      securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer', description: 'Personal access token' } },
+      schemas,
+    },
+    paths,
+  };
+}
@@ -0,0 +1,440 @@
+/**
+ * Recurrence
+ *
+ * A dependency-free RFC 5545 RRULE subset for recurring tasks: FREQ (DAILY, WEEKLY,
+ * MONTHLY, YEARLY), INTERVAL, BYDAY (with ordinals such as 1MO or -1FR in monthly and
+ * yearly rules), BYMONTHDAY, BYMONTH, COUNT and UNTIL. Occurrences are whole days
+ * (yyyy-MM-dd) – tasks have due dates, not times – so everything here works on date
+ * keys in UTC. The generate-recurring-tasks edge function imports this file directly,
+ * so it must not import anything.
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+/** 'on_complete': the next instance is created when the open one is done. 'schedule': instances are created ahead of time. */
+export type RecurrenceMode = 'on_complete' | 'schedule';
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface WeekdayRule {
+  day: Weekday;
+  /** 1 = first, -1 = last in the month (or year without BYMONTH); omitted = every */
+  ordinal?: number;
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: WeekdayRule[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  count?: number;
+  /** yyyy-MM-dd, inclusive */
+  until?: string;
+}
+
+/** A stored series, as far as occurrence generation is concerned. */
+export interface RecurrenceSeries {
+  rrule: string;
+  /** yyyy-MM-dd of the first occurrence */
+  dtstart: string;
+  /** yyyy-MM-dd; no occurrences after it (set when a series is split or stopped) */
+  endsOn?: string | null;
+  mode: RecurrenceMode;
+  leadDays: number;
+  exdates?: string[];
+}
+
+export interface RecurrenceInstance {
+  /** The occurrence the task was created for */
+  date: string;
+  open: boolean;
+}
+
+export const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: 'Monday',
+  TU: 'Tuesday',
+  WE: 'Wednesday',
+  TH: 'Thursday',
+  FR: 'Friday',
+  SA: 'Saturday',
+  SU: 'Sunday',
+};
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+/** Periods (days, weeks, months or years) scanned before giving up on a rule that never matches. */
+const MAX_PERIODS = 5000;
+
+/** Occurrences returned when the caller sets no limit. */
+const DEFAULT_LIMIT = 500;
+
+const DAY_MS = 86_400_000;
+
+const pad = (n: number) => (n < 10 ? `0${n}` : String(n));
+
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceRuleError';
+  }
+}
+
+// ============================================
+// Date keys
+// ============================================
+
+function parseKey(key: string): number {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key);
+  if (!match) throw new RecurrenceRuleError(`Invalid date: ${key}`);
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+function formatKey(time: number): string {
+  const d = new Date(time);
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+}
+
+export function addDaysToKey(key: string, days: number): string {
+  return formatKey(parseKey(key) + days * DAY_MS);
+}
+
+/** Whole days from a to b (positive when b is later). */
+export function daysBetweenKeys(a: string, b: string): number {
+  return Math.round((parseKey(b) - parseKey(a)) / DAY_MS);
+}
+
+/** Weekday code of a date key. */
+export function weekdayOfKey(key: string): Weekday {
+  return WEEKDAYS[(new Date(parseKey(key)).getUTCDay() + 6) % 7];
+}
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// ============================================
+// Parsing & formatting
+// ============================================
+
+/** Parses an RRULE value, with or without the "RRULE:" prefix. Throws RecurrenceRuleError on anything outside the subset. */
+export function parseRRule(value: string): RecurrenceRule {
+  const body = value.trim().replace(/^RRULE:/i, '');
+  const rule: Partial<RecurrenceRule> = { interval: 1 };
+
+  for (const part of body.split(';').filter(Boolean)) {
+    const [rawKey, rawValue = ''] = part.split('=');
+    const key = rawKey.toUpperCase();
+    const val = rawValue.toUpperCase();
+
+    switch (key) {
+      case 'FREQ':
+        if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(val)) {
+          throw new RecurrenceRuleError(`Unsupported frequency: ${rawValue}`);
+        }
+        rule.freq = val as RecurrenceFrequency;
+        break;
+      case 'INTERVAL': {
+        const n = Number(val);
+        if (!Number.isInteger(n) || n < 1) throw new RecurrenceRuleError(`Invalid interval: ${rawValue}`);
+        rule.interval = n;
+        break;
+      }
+      case 'COUNT': {
+        const n = Number(val);
+        if (!Number.isInteger(n) || n < 1) throw new RecurrenceRuleError(`Invalid count: ${rawValue}`);
+        rule.count = n;
+        break;
+      }
+      case 'UNTIL': {
+        const match = /^(\d{4})(\d{2})(\d{2})/.exec(val);
+        if (!match) throw new RecurrenceRuleError(`Invalid UNTIL: ${rawValue}`);
+        rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+        break;
+      }
+      case 'BYDAY':
+        rule.byDay = val.split(',').map((token) => {
+          const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(token);
+          if (!match) throw new RecurrenceRuleError(`Invalid BYDAY: ${token}`);
+          const ordinal = match[1] ? Number(match[1]) : undefined;
+          if (ordinal === 0) throw new RecurrenceRuleError(`Invalid BYDAY: ${token}`);
+          return ordinal === undefined ? { day: match[2] as Weekday } : { day: match[2] as Weekday, ordinal };
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = val.split(',').map((token) => {
+          const n = Number(token);
+          if (!Number.isInteger(n) || n === 0 || n < -31 || n > 31) throw new RecurrenceRuleError(`Invalid BYMONTHDAY: ${token}`);
+          return n;
+        });
+        break;
+      case 'BYMONTH':
+        rule.byMonth = val.split(',').map((token) => {
+          const n = Number(token);
+          if (!Number.isInteger(n) || n < 1 || n > 12) throw new RecurrenceRuleError(`Invalid BYMONTH: ${token}`);
+          return n;
+        });
+        break;
+      case 'WKST':
+        // Weeks always start on Monday here
+        break;
+      default:
+        throw new RecurrenceRuleError(`Unsupported rule part: ${rawKey}`);
+    }
+  }
+
+  if (!rule.freq) throw new RecurrenceRuleError('FREQ is required');
+  if (rule.count && rule.until) throw new RecurrenceRuleError('COUNT and UNTIL cannot both be set');
+  if (rule.byDay?.some((d) => d.ordinal !== undefined) && (rule.freq === 'DAILY' || rule.freq === 'WEEKLY')) {
+    throw new RecurrenceRuleError('Numbered BYDAY values need a monthly or yearly rule');
+  }
+  return rule as RecurrenceRule;
+}
+
+/** Serializes a rule without the "RRULE:" prefix, in a stable part order. */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map((d) => `${d.ordinal ?? ''}${d.day}`).join(',')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  return parts.join(';');
+}
+
+/** Returns the parse error message, or null when the rule is usable. */
+export function validateRRule(value: string): string | null {
+  try {
+    parseRRule(value);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid rule';
+  }
+}
+
+const ordinalName = (n: number) => {
+  if (n === -1) return 'last';
+  if (n < 0) return `${ordinalName(-n)} to last`;
+  if (n % 100 >= 11 && n % 100 <= 13) return `${n}th`;
+  return `${n}${['th', 'st', 'nd', 'rd'][n % 10] ?? 'th'}`;
+};
+
+const joinList = (items: string[]) =>
+  items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+
+/** Human-readable summary, e.g. "Every 2 weeks on Monday and Thursday, 10 times". */
+export function describeRRule(value: string | RecurrenceRule): string {
+  const rule = typeof value === 'string' ? parseRRule(value) : value;
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }[rule.freq];
+  let text = rule.interval === 1
+    ? { DAILY: 'Daily', WEEKLY: 'Weekly', MONTHLY: 'Monthly', YEARLY: 'Yearly' }[rule.freq]
+    : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.byMonth?.length) text += ` in ${joinList(rule.byMonth.map((m) => MONTH_NAMES[m - 1]))}`;
+
+  if (rule.byDay?.length) {
+    const days = rule.byDay.map((d) =>
+      d.ordinal === undefined ? WEEKDAY_NAMES[d.day] : `the ${ordinalName(d.ordinal)} ${WEEKDAY_NAMES[d.day]}`
+    );
+    const isWeekdays = rule.byDay.length === 5 && ['MO', 'TU', 'WE', 'TH', 'FR'].every((d) => rule.byDay!.some((b) => b.day === d && b.ordinal === undefined));
+    text += isWeekdays ? ' on weekdays' : ` on ${joinList(days)}`;
+  }
+
+  if (rule.byMonthDay?.length) {
+    text += ` on the ${joinList(rule.byMonthDay.map((d) => (d === -1 ? 'last day' : ordinalName(d))))}`;
+  }
+
+  if (rule.count) text += rule.count === 1 ? ', once' : `, ${rule.count} times`;
+  if (rule.until) text += `, until ${rule.until}`;
+  return text;
+}
+
+// ============================================
+// Expansion
+// ============================================
+
+/** Days of a month matching BYDAY entries; ordinals count within the month. */
+function monthDaysByWeekday(year: number, month: number, byDay: WeekdayRule[]): number[] {
+  const total = daysInMonth(year, month);
+  const result: number[] = [];
+  for (const { day, ordinal } of byDay) {
+    const target = WEEKDAYS.indexOf(day);
+    const matches: number[] = [];
+    for (let d = 1; d <= total; d++) {
+      if ((new Date(Date.UTC(year, month, d)).getUTCDay() + 6) % 7 === target) matches.push(d);
+    }
+    if (ordinal === undefined) result.push(...matches);
+    else {
+      const picked = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+      if (picked !== undefined) result.push(picked);
+    }
+  }
+  return result;
+}
+
+function monthDaysByMonthDay(year: number, month: number, byMonthDay: number[]): number[] {
+  const total = daysInMonth(year, month);
+  return byMonthDay
+    .map((d) => (d > 0 ? d : total + d + 1))
+    .filter((d) => d >= 1 && d <= total);
+}
+
+/** Candidate dates for one month of a MONTHLY or YEARLY rule. */
+function monthCandidates(rule: RecurrenceRule, year: number, month: number, anchorDay: number): number[] {
+  let days: number[];
+  if (rule.byMonthDay?.length) {
+    days = monthDaysByMonthDay(year, month, rule.byMonthDay);
+    // BYDAY alongside BYMONTHDAY narrows the month days (e.g. Friday the 13th)
+    if (rule.byDay?.length) {
+      const allowed = new Set(monthDaysByWeekday(year, month, rule.byDay));
+      days = days.filter((d) => allowed.has(d));
+    }
+  } else if (rule.byDay?.length) {
+    days = monthDaysByWeekday(year, month, rule.byDay);
+  } else {
+    // Months without the anchor day (e.g. the 31st) are skipped, as RFC 5545 does
+    days = anchorDay <= daysInMonth(year, month) ? [anchorDay] : [];
+  }
+  return days.map((d) => Date.UTC(year, month, d));
+}
+
+/** Candidate dates (UTC ms, unsorted) for the period-th period after dtstart. */
+function periodCandidates(rule: RecurrenceRule, start: Date, period: number): number[] {
+  const step = period * rule.interval;
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const time = start.getTime() + step * DAY_MS;
+      const d = new Date(time);
+      if (rule.byMonth?.length && !rule.byMonth.includes(d.getUTCMonth() + 1)) return [];
+      if (rule.byMonthDay?.length && !monthDaysByMonthDay(d.getUTCFullYear(), d.getUTCMonth(), rule.byMonthDay).includes(d.getUTCDate())) return [];
+      if (rule.byDay?.length && !rule.byDay.some((b) => b.day === WEEKDAYS[(d.getUTCDay() + 6) % 7])) return [];
+      return [time];
+    }
+    case 'WEEKLY': {
+      const monday = start.getTime() - ((start.getUTCDay() + 6) % 7) * DAY_MS + step * 7 * DAY_MS;
+      const days = rule.byDay?.length
+        ? rule.byDay.map((b) => WEEKDAYS.indexOf(b.day))
+        : [(start.getUTCDay() + 6) % 7];
+      return days
+        .map((offset) => monday + offset * DAY_MS)
+        .filter((time) => !rule.byMonth?.length || rule.byMonth.includes(new Date(time).getUTCMonth() + 1));
+    }
+    case 'MONTHLY': {
+      const first = new Date(Date.UTC(year, month + step, 1));
+      if (rule.byMonth?.length && !rule.byMonth.includes(first.getUTCMonth() + 1)) return [];
+      return monthCandidates(rule, first.getUTCFullYear(), first.getUTCMonth(), start.getUTCDate());
+    }
+    case 'YEARLY': {
+      const y = year + step;
+      const months = rule.byMonth?.length ? rule.byMonth.map((m) => m - 1) : [month];
+      // Without BYMONTH, numbered weekdays count within the year's month of dtstart – a simplification of RFC 5545
+      return months.flatMap((m) => monthCandidates(rule, y, m, start.getUTCDate()));
+    }
+  }
+}
+
+export interface OccurrenceRange {
+  /** yyyy-MM-dd, inclusive */
+  from?: string;
+  /** yyyy-MM-dd, inclusive */
+  to?: string;
+  limit?: number;
+}
+
+/**
+ * Occurrences of a rule anchored at dtstart, ascending. COUNT counts from dtstart,
+ * so occurrences before `from` still use it up. dtstart itself is only an occurrence
+ * when it matches the rule.
+ */
+export function listOccurrences(value: string | RecurrenceRule, dtstart: string, range: OccurrenceRange = {}): string[] {
+  const rule = typeof value === 'string' ? parseRRule(value) : value;
+  const startTime = parseKey(dtstart);
+  const start = new Date(startTime);
+  const fromTime = range.from ? parseKey(range.from) : -Infinity;
+  const untilTime = Math.min(
+    range.to ? parseKey(range.to) : Infinity,
+    rule.until ? parseKey(rule.until) : Infinity
+  );
+  const limit = range.limit ?? DEFAULT_LIMIT;
+
+  const result: string[] = [];
+  let counted = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    const candidates = [...new Set(periodCandidates(rule, start, period))].sort((a, b) => a - b);
+    for (const time of candidates) {
+      if (time < startTime) continue;
+      if (time > untilTime) return result;
+      counted++;
+      if (rule.count && counted > rule.count) return result;
+      if (time >= fromTime) {
+        result.push(formatKey(time));
+        if (result.length >= limit) return result;
+      }
+    }
+  }
+  return result;
+}
+
+/** First occurrence on or after a date, or null when the rule has ended. */
+export function firstOccurrenceOnOrAfter(value: string | RecurrenceRule, dtstart: string, date: string): string | null {
+  return listOccurrences(value, dtstart, { from: date, limit: 1 })[0] ?? null;
+}
+
+/**
+ * The rule for the part of a series from `from` onwards, used when a series is split:
+ * COUNT is reduced by the occurrences before `from` so the total stays the same.
+ */
+export function remainingRule(value: string, dtstart: string, from: string): string {
+  const rule = parseRRule(value);
+  if (!rule.count) return formatRRule(rule);
+  const before = listOccurrences(rule, dtstart, { to: addDaysToKey(from, -1) }).length;
+  return formatRRule({ ...rule, count: Math.max(1, rule.count - before) });
+}
+
+// ============================================
+// Series
+// ============================================
+
+/** Occurrences of a series after `after` (exclusive) up to `to`, skipping excluded dates and honouring endsOn. */
+export function seriesOccurrences(series: RecurrenceSeries, after: string, to: string, limit = 60): string[] {
+  const end = series.endsOn && series.endsOn < to ? series.endsOn : to;
+  if (end <= after) return [];
+  const excluded = new Set(series.exdates ?? []);
+  return listOccurrences(series.rrule, series.dtstart, { from: addDaysToKey(after, 1), to: end, limit: limit + excluded.size })
+    .filter((date) => !excluded.has(date))
+    .slice(0, limit);
+}
+
+/**
+ * Occurrences that should exist as tasks now but don't. Past occurrences are never
+ * backfilled.
+ *
+ * 'on_complete' series get one new instance once none is open: the next occurrence
+ * after the latest instance (or today, if that's later). 'schedule' series get every
+ * occurrence from today to today + leadDays that hasn't been created.
+ */
+export function dueOccurrences(series: RecurrenceSeries, instances: RecurrenceInstance[], today: string, limit = 60): string[] {
+  const yesterday = addDaysToKey(today, -1);
+  const beforeStart = addDaysToKey(series.dtstart, -1);
+  const latest = instances.reduce((max, i) => (i.date > max ? i.date : max), beforeStart);
+
+  if (series.mode === 'on_complete') {
+    if (instances.some((i) => i.open)) return [];
+    const after = latest > yesterday ? latest : yesterday;
+    return seriesOccurrences(series, after, addDaysToKey(after, 3660), 1);
+  }
+
+  const existing = new Set(instances.map((i) => i.date));
+  const after = beforeStart > yesterday ? beforeStart : yesterday;
+  return seriesOccurrences(series, after, addDaysToKey(today, series.leadDays), limit + existing.size)
+    .filter((date) => !existing.has(date))
+    .slice(0, limit);
+}
@@ -0,0 +1,63 @@
+/**
+ * Recurring Tasks
+ *
+ * Projects future occurrences of recurring task series for calendars. Only the open
+ * instance (or the lead window) exists as task rows; the occurrences after it are
+ * computed here from the series rule so views can show what is coming.
+ */
+
+import { format } from 'date-fns';
+import type { Task } from '@/types/portfolio';
+import { addDaysToKey, daysBetweenKeys, seriesOccurrences } from './recurrence';
+
+export interface ProjectedOccurrence {
+  /** Stable key: series id + occurrence date */
+  key: string;
+  seriesId: string;
+  /** Occurrence (due date), yyyy-MM-dd */
+  date: string;
+  startDate?: string;
+  /** Latest existing instance of the series, used as the template */
+  task: Task;
+}
+
+/**
+ * Occurrences between `from` and `to` (inclusive, yyyy-MM-dd) that have no task yet.
+ * Dates before today are skipped – missed occurrences are never created.
+ */
+export function projectRecurringTasks(tasks: Task[], from: string, to: string, limitPerSeries = 60): ProjectedOccurrence[] {
+  const latestBySeries = new Map<string, Task>();
+  for (const task of tasks) {
+    if (!task.recurrenceId || !task.recurrence?.dtstart || !task.recurrenceDate) continue;
+    const current = latestBySeries.get(task.recurrenceId);
+    if (!current || task.recurrenceDate > current.recurrenceDate!) latestBySeries.set(task.recurrenceId, task);
+  }
+
+  const yesterday = format(new Date(Date.now() - 86_400_000), 'yyyy-MM-dd');
+  const dayBeforeFrom = addDaysToKey(from, -1);
+  const projected: ProjectedOccurrence[] = [];
+
+  for (const [seriesId, task] of latestBySeries) {
+    const recurrence = task.recurrence!;
+    const after = [task.recurrenceDate!, dayBeforeFrom, yesterday].sort().pop()!;
+    const duration = task.startDate && task.dueDate ? daysBetweenKeys(task.startDate, task.dueDate) : null;
+
+    const dates = seriesOccurrences(
+      { ...recurrence, dtstart: recurrence.dtstart!, endsOn: recurrence.endsOn ?? null },
+      after,
+      to,
+      limitPerSeries
+    );
+    for (const date of dates) {
+      projected.push({
+        key: `${seriesId}:${date}`,
+        seriesId,
+        date,
+        startDate: duration === null ? undefined : addDaysToKey(date, -duration),
+        task,
+      });
+    }
+  }
+
+  return projected;
+}
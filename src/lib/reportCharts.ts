@@ -0,0 +1,455 @@
+/**
+ * Report charts drawn from ReportData: the charts of the Reports page as vector shapes in the PDF
+ * and as table bars in the email HTML. Nothing is captured from the screen, so the browser and the
+ * render-report / send-scheduled-reports edge functions draw the same charts from the same data.
+ */
+import type { jsPDF } from 'jspdf';
+import { format, parseISO } from 'date-fns';
+import type { ReportData } from './reportRender.ts';
+
+export type ReportChartId =
+  | 'taskDistribution'
+  | 'projectProgress'
+  | 'teamUtilization'
+  | 'portfolioProgress'
+  | 'programStatus'
+  | 'programProgress'
+  | 'earnedValue'
+  /** The chart of a custom report (customReports.ts) */
+  | 'customReport';
+
+/** Theme colors of the app (index.css, light mode) as hex */
+export const REPORT_CHART_COLORS = {
+  primary: '#259d91',
+  muted: '#e8ebee',
+  mutedForeground: '#627084',
+  info: '#0da2e7',
+  warning: '#f59f0a',
+  success: '#1eb857',
+  destructive: '#dc2828',
+} as const;
+
+export type ReportChartUnit = 'count' | 'percent' | 'hours' | 'currency';
+
+export interface ReportChartSeries {
+  label: string;
+  color: string;
+  /** One value per category / label; null leaves a gap in a line */
+  values: Array<number | null>;
+}
+
+interface ReportChartBase {
+  id: ReportChartId;
+  title: string;
+  unit: ReportChartUnit;
+}
+
+/** Share of a whole, e.g. tasks per status */
+export interface DonutChart extends ReportChartBase {
+  kind: 'donut';
+  slices: Array<{ label: string; value: number; color: string }>;
+}
+
+/** Horizontal bars, one row per category; several series are stacked */
+export interface BarChart extends ReportChartBase {
+  kind: 'bar';
+  categories: string[];
+  series: ReportChartSeries[];
+  /** Axis maximum; defaults to the largest row total */
+  max?: number;
+  /** Categories left out after BAR_CHART_LIMIT */
+  omitted: number;
+}
+
+/** Values over time, e.g. the earned value S-curve */
+export interface LineChart extends ReportChartBase {
+  kind: 'line';
+  /** yyyy-MM-dd per point */
+  dates: string[];
+  series: ReportChartSeries[];
+  /** Dashed "Today" marker */
+  markerDate?: string;
+}
+
+export type ReportChart = DonutChart | BarChart | LineChart;
+
+/** Rows per bar chart; the rest are counted in `omitted` */
+export const BAR_CHART_LIMIT = 12;
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.substring(0, length)}...` : text);
+
+export function formatChartValue(value: number, unit: ReportChartUnit): string {
+  switch (unit) {
+    case 'percent':
+      return `${Math.round(value)}%`;
+    case 'hours':
+      return `${Math.round(value)}h`;
+    case 'currency':
+      if (Math.abs(value) >= 1_000_000) return `$${(value / 1_000_000).toFixed(1)}M`;
+      if (Math.abs(value) >= 1_000) return `$${Math.round(value / 1_000)}k`;
+      return `$${Math.round(value)}`;
+    default:
+      return String(Math.round(value));
+  }
+}
+
+/** Bar chart of the first BAR_CHART_LIMIT rows, or null without rows */
+export function barChart(
+  base: Omit<BarChart, 'kind' | 'categories' | 'series' | 'omitted'>,
+  rows: Array<{ name: string; values: number[] }>,
+  series: Array<Omit<ReportChartSeries, 'values'>>
+): BarChart | null {
+  if (rows.length === 0) return null;
+  const shown = rows.slice(0, BAR_CHART_LIMIT);
+  return {
+    ...base,
+    kind: 'bar',
+    categories: shown.map(r => r.name),
+    series: series.map((s, i) => ({ ...s, values: shown.map(r => r.values[i]) })),
+    omitted: rows.length - shown.length,
+  };
+}
+
+/** The charts the data supports; a chart is null when there is nothing to draw. */
+export function buildReportCharts(data: ReportData): Record<Exclude<ReportChartId, 'customReport'>, ReportChart | null> {
+  const { stats } = data;
+
+  const taskSlices = [
+    { label: 'To Do', value: stats.todoTasks, color: REPORT_CHART_COLORS.mutedForeground },
+    { label: 'In Progress', value: stats.inProgressTasks, color: REPORT_CHART_COLORS.info },
+    { label: 'Review', value: stats.reviewTasks ?? 0, color: REPORT_CHART_COLORS.warning },
+    { label: 'Done', value: stats.completedTasks, color: REPORT_CHART_COLORS.success },
+  ];
+
+  const programs = data.programs ?? [];
+  const programSlices = [
+    { label: 'Planning', value: programs.filter(p => p.status === 'planning').length, color: REPORT_CHART_COLORS.mutedForeground },
+    { label: 'Active', value: programs.filter(p => p.status === 'active').length, color: REPORT_CHART_COLORS.info },
+    { label: 'Completed', value: programs.filter(p => p.status === 'completed').length, color: REPORT_CHART_COLORS.success },
+    { label: 'On Hold', value: programs.filter(p => p.status === 'on-hold').length, color: REPORT_CHART_COLORS.warning },
+  ];
+
+  const series = data.earnedValue?.series ?? [];
+
+  return {
+    taskDistribution: taskSlices.some(s => s.value > 0)
+      ? { id: 'taskDistribution', title: 'Task Distribution', kind: 'donut', unit: 'count', slices: taskSlices }
+      : null,
+    projectProgress: barChart(
+      { id: 'projectProgress', title: 'Project Progress', unit: 'percent', max: 100 },
+      data.projects.map(p => ({ name: p.name, values: [p.progress] })),
+      [{ label: 'Progress', color: REPORT_CHART_COLORS.primary }]
+    ),
+    teamUtilization: barChart(
+      { id: 'teamUtilization', title: 'Team Utilization', unit: 'hours' },
+      data.teamMembers.map(m => ({
+        name: m.name,
+        values: [m.allocation, Math.max(m.capacity - m.allocation, 0)],
+      })),
+      [
+        { label: 'Allocated', color: REPORT_CHART_COLORS.primary },
+        { label: 'Available', color: REPORT_CHART_COLORS.muted },
+      ]
+    ),
+    portfolioProgress: barChart(
+      { id: 'portfolioProgress', title: 'Portfolio Overview', unit: 'percent', max: 100 },
+      (data.portfolios ?? []).map(p => ({
+        name: p.name,
+        values: [p.taskCount > 0 ? Math.round((p.completedTasks / p.taskCount) * 100) : 0],
+      })),
+      [{ label: 'Tasks completed', color: REPORT_CHART_COLORS.success }]
+    ),
+    programStatus: programs.length > 0
+      ? { id: 'programStatus', title: 'Program Status Distribution', kind: 'donut', unit: 'count', slices: programSlices }
+      : null,
+    programProgress: barChart(
+      { id: 'programProgress', title: 'Program Progress', unit: 'percent', max: 100 },
+      programs.map(p => ({ name: p.name, values: [p.progress ?? 0] })),
+      [{ label: 'Progress', color: REPORT_CHART_COLORS.primary }]
+    ),
+    earnedValue: series.length > 1
+      ? {
+          id: 'earnedValue',
+          title: 'Earned Value S-Curve',
+          kind: 'line',
+          unit: 'currency',
+          dates: series.map(p => p.date),
+          series: [
+            { label: 'Planned value', color: REPORT_CHART_COLORS.mutedForeground, values: series.map(p => p.pv) },
+            { label: 'Earned value', color: REPORT_CHART_COLORS.success, values: series.map(p => p.ev ?? null) },
+            { label: 'Actual cost', color: REPORT_CHART_COLORS.destructive, values: series.map(p => p.ac ?? null) },
+          ],
+          markerDate: data.earnedValue?.statusDate,
+        }
+      : null,
+  };
+}
+
+// ============================================
+// PDF
+// ============================================
+
+const rgb = (hex: string): [number, number, number] => [
+  parseInt(hex.slice(1, 3), 16),
+  parseInt(hex.slice(3, 5), 16),
+  parseInt(hex.slice(5, 7), 16),
+];
+
+/** Height in mm the chart takes at the given width, legend included */
+export function reportChartHeight(chart: ReportChart): number {
+  switch (chart.kind) {
+    case 'donut':
+      return 50;
+    case 'bar':
+      return chart.categories.length * 7 + (chart.series.length > 1 ? 8 : 0) + (chart.omitted > 0 ? 6 : 0) + 4;
+    case 'line':
+      return 70;
+  }
+}
+
+function drawLegend(pdf: jsPDF, items: Array<{ label: string; color: string }>, x: number, y: number) {
+  pdf.setFontSize(8);
+  pdf.setFont('helvetica', 'normal');
+  let cursor = x;
+  items.forEach(item => {
+    pdf.setFillColor(...rgb(item.color));
+    pdf.rect(cursor, y - 2.5, 3, 3, 'F');
+    pdf.setTextColor(71, 85, 105);
+    pdf.text(item.label, cursor + 4.5, y);
+    cursor += pdf.getTextWidth(item.label) + 12;
+  });
+}
+
+function drawDonut(pdf: jsPDF, chart: DonutChart, x: number, y: number, width: number, height: number) {
+  const total = chart.slices.reduce((sum, s) => sum + s.value, 0);
+  const outer = Math.min(height / 2 - 2, 22);
+  const inner = outer * 0.6;
+  const cx = x + outer + 4;
+  const cy = y + height / 2;
+
+  // Each slice is a polygon along the outer arc and back along the inner arc
+  let angle = -Math.PI / 2;
+  chart.slices.forEach(slice => {
+    if (slice.value <= 0 || total === 0) return;
+    const sweep = (slice.value / total) * Math.PI * 2;
+    const steps = Math.max(2, Math.ceil(sweep / (Math.PI / 36)));
+    const points: Array<[number, number]> = [];
+    for (let i = 0; i <= steps; i++) {
+      const a = angle + (sweep * i) / steps;
+      points.push([cx + outer * Math.cos(a), cy + outer * Math.sin(a)]);
+    }
+    for (let i = steps; i >= 0; i--) {
+      const a = angle + (sweep * i) / steps;
+      points.push([cx + inner * Math.cos(a), cy + inner * Math.sin(a)]);
+    }
+    const deltas = points.slice(1).map(([px, py], i) => [px - points[i][0], py - points[i][1]]);
+    pdf.setFillColor(...rgb(slice.color));
+    pdf.lines(deltas, points[0][0], points[0][1], [1, 1], 'F', true);
+    angle += sweep;
+  });
+
+  pdf.setFontSize(12);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setTextColor(51, 51, 51);
+  pdf.text(String(total), cx, cy + 1.5, { align: 'center' });
+
+  // Legend with value and share
+  const legendX = cx + outer + 12;
+  let legendY = cy - ((chart.slices.length - 1) * 7) / 2;
+  chart.slices.forEach(slice => {
+    pdf.setFillColor(...rgb(slice.color));
+    pdf.rect(legendX, legendY - 3, 4, 4, 'F');
+    pdf.setFontSize(9);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setTextColor(71, 85, 105);
+    pdf.text(slice.label, legendX + 6, legendY);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setTextColor(51, 51, 51);
+    const share = total > 0 ? Math.round((slice.value / total) * 100) : 0;
+    pdf.text(`${formatChartValue(slice.value, chart.unit)} (${share}%)`, Math.min(legendX + 40, x + width - 25), legendY);
+    legendY += 7;
+  });
+}
+
+function drawBars(pdf: jsPDF, chart: BarChart, x: number, y: number, width: number) {
+  const labelWidth = 48;
+  const valueWidth = 18;
+  const barX = x + labelWidth;
+  const barWidth = width - labelWidth - valueWidth;
+  const totals = chart.categories.map((_, i) => chart.series.reduce((sum, s) => sum + (s.values[i] ?? 0), 0));
+  const max = chart.max ?? Math.max(...totals, 1);
+
+  let rowY = y + 2;
+  chart.categories.forEach((category, i) => {
+    pdf.setFontSize(8);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setTextColor(71, 85, 105);
+    pdf.text(truncate(category, 28), x, rowY + 3.5);
+
+    pdf.setFillColor(241, 245, 249);
+    pdf.rect(barX, rowY, barWidth, 5, 'F');
+    let cursor = barX;
+    chart.series.forEach(s => {
+      const value = s.values[i] ?? 0;
+      const length = Math.min((value / max) * barWidth, barX + barWidth - cursor);
+      if (length <= 0) return;
+      pdf.setFillColor(...rgb(s.color));
+      pdf.rect(cursor, rowY, length, 5, 'F');
+      cursor += length;
+    });
+
+    pdf.setTextColor(51, 51, 51);
+    const label = chart.series.length > 1
+      ? `${formatChartValue(chart.series[0].values[i] ?? 0, chart.unit)} / ${formatChartValue(totals[i], chart.unit)}`
+      : formatChartValue(totals[i], chart.unit);
+    pdf.text(label, barX + barWidth + 2, rowY + 3.5);
+    rowY += 7;
+  });
+
+  if (chart.omitted > 0) {
+    pdf.setFontSize(8);
+    pdf.setTextColor(100, 100, 100);
+    pdf.text(`... and ${chart.omitted} more`, x, rowY + 3);
+    rowY += 6;
+  }
+  if (chart.series.length > 1) drawLegend(pdf, chart.series, barX, rowY + 4);
+}
+
+function drawLine(pdf: jsPDF, chart: LineChart, x: number, y: number, width: number, height: number) {
+  const axisWidth = 16;
+  const plotX = x + axisWidth;
+  const plotWidth = width - axisWidth;
+  const plotHeight = height - 18;
+  const plotBottom = y + plotHeight;
+  const values = chart.series.flatMap(s => s.values.filter((v): v is number => v !== null));
+  const max = Math.max(...values, 1);
+  const pointX = (i: number) => plotX + (chart.dates.length > 1 ? (i / (chart.dates.length - 1)) * plotWidth : 0);
+  const pointY = (value: number) => plotBottom - (value / max) * plotHeight;
+
+  // Grid and value axis
+  pdf.setLineWidth(0.1);
+  pdf.setDrawColor(226, 232, 240);
+  pdf.setFontSize(7);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setTextColor(100, 116, 139);
+  for (let i = 0; i <= 4; i++) {
+    const value = (max * i) / 4;
+    const gridY = pointY(value);
+    pdf.line(plotX, gridY, plotX + plotWidth, gridY);
+    pdf.text(formatChartValue(value, chart.unit), plotX - 2, gridY + 1, { align: 'right' });
+  }
+
+  // Date axis: first, middle and last point
+  const last = chart.dates.length - 1;
+  [...new Set([0, Math.floor(last / 2), last])].forEach(i => {
+    const align = i === 0 ? 'left' : i === last ? 'right' : 'center';
+    pdf.text(format(parseISO(chart.dates[i]), 'MMM d, yyyy'), pointX(i), plotBottom + 4, { align });
+  });
+
+  // Status date marker
+  const markerIndex = chart.markerDate ? chart.dates.findIndex(d => d >= chart.markerDate!) : -1;
+  if (markerIndex >= 0) {
+    const markerX = pointX(markerIndex);
+    pdf.setDrawColor(100, 116, 139);
+    pdf.setLineDashPattern([1, 1], 0);
+    pdf.line(markerX, y, markerX, plotBottom);
+    pdf.setLineDashPattern([], 0);
+    pdf.text('Today', markerX + 1, y + 3);
+  }
+
+  // Series; a null breaks the line
+  pdf.setLineWidth(0.6);
+  chart.series.forEach(s => {
+    pdf.setDrawColor(...rgb(s.color));
+    s.values.forEach((value, i) => {
+      const next = s.values[i + 1];
+      if (value === null || next === null || next === undefined) return;
+      pdf.line(pointX(i), pointY(value), pointX(i + 1), pointY(next));
+    });
+  });
+  pdf.setLineWidth(0.2);
+
+  drawLegend(pdf, chart.series, plotX, plotBottom + 11);
+}
+
+/** Draws the chart with its top-left corner at (x, y); it takes reportChartHeight(chart) mm. */
+export function drawReportChart(pdf: jsPDF, chart: ReportChart, x: number, y: number, width: number): void {
+  const height = reportChartHeight(chart);
+  switch (chart.kind) {
+    case 'donut':
+      drawDonut(pdf, chart, x, y, width, height);
+      break;
+    case 'bar':
+      drawBars(pdf, chart, x, y, width);
+      break;
+    case 'line':
+      drawLine(pdf, chart, x, y, width, height);
+      break;
+  }
+}
+
+// ============================================
+// Email HTML
+// ============================================
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * The chart as nested tables, which email clients render (most drop SVG and canvas). A donut becomes
+ * one stacked bar with a legend. Line charts have no table form and return an empty string.
+ */
+export function renderReportChartHTML(chart: ReportChart): string {
+  const cell = (color: string, percent: number) =>
+    percent > 0 ? `<td style="background: ${color}; width: ${percent}%; height: 10px; font-size: 0; line-height: 0;">&nbsp;</td>` : '';
+  const title = `<h3 style="color: #1e293b; margin: 0 0 12px 0; font-size: 14px;">${escapeHtml(chart.title)}</h3>`;
+
+  if (chart.kind === 'donut') {
+    const total = chart.slices.reduce((sum, s) => sum + s.value, 0);
+    const shares = chart.slices.map(s => (total > 0 ? Math.round((s.value / total) * 1000) / 10 : 0));
+    return `
+      ${title}
+      <table style="width: 100%; border-collapse: collapse; border-radius: 4px; overflow: hidden;"><tr>
+        ${chart.slices.map((s, i) => cell(s.color, shares[i])).join('')}
+      </tr></table>
+      <p style="margin: 8px 0 0 0; font-size: 12px; color: #64748b;">
+        ${chart.slices
+          .map((s, i) => `<span style="color: ${s.color};">&#9632;</span> ${escapeHtml(s.label)} ${formatChartValue(s.value, chart.unit)} (${Math.round(shares[i])}%)`)
+          .join(' &nbsp; ')}
+      </p>
+    `;
+  }
+
+  if (chart.kind === 'bar') {
+    const totals = chart.categories.map((_, i) => chart.series.reduce((sum, s) => sum + (s.values[i] ?? 0), 0));
+    const max = chart.max ?? Math.max(...totals, 1);
+    const rows = chart.categories.map((category, i) => {
+      const parts = chart.series.map(s => Math.min(((s.values[i] ?? 0) / max) * 100, 100));
+      const rest = Math.max(100 - parts.reduce((sum, p) => sum + p, 0), 0);
+      return `
+        <tr>
+          <td style="padding: 4px 8px 4px 0; font-size: 12px; color: #64748b; width: 35%;">${escapeHtml(truncate(category, 28))}</td>
+          <td style="padding: 4px 0;">
+            <table style="width: 100%; border-collapse: collapse; background: #f1f5f9;"><tr>
+              ${chart.series.map((s, j) => cell(s.color, Math.round(parts[j] * 10) / 10)).join('')}${cell('#f1f5f9', Math.round(rest * 10) / 10)}
+            </tr></table>
+          </td>
+          <td style="padding: 4px 0 4px 8px; font-size: 12px; color: #1e293b; text-align: right; white-space: nowrap;">${formatChartValue(totals[i], chart.unit)}</td>
+        </tr>
+      `;
+    });
+    const legend = chart.series.length > 1
+      ? `<p style="margin: 8px 0 0 0; font-size: 12px; color: #64748b;">${chart.series
+          .map(s => `<span style="color: ${s.color};">&#9632;</span> ${escapeHtml(s.label)}`)
+          .join(' &nbsp; ')}</p>`
+      : '';
+    const more = chart.omitted > 0 ? `<p style="margin: 4px 0 0 0; font-size: 11px; color: #94a3b8;">... and ${chart.omitted} more</p>` : '';
+    return `
+      ${title}
+      <table style="width: 100%; border-collapse: collapse;">${rows.join('')}</table>
+      ${more}${legend}
+    `;
+  }
+
+  return '';
+}
@@ -0,0 +1,410 @@
+/**
+ * Report data – builds the ReportData behind report exports from the portfolio hierarchy.
+ *
+ * The Reports page and the send-scheduled-reports edge function both build reports here, so a
+ * scheduled email carries the same numbers as an export from the page with the same filters. The
+ * edge function imports this file directly: imports are type-only and carry the .ts extension.
+ */
+import type { ReportData } from './reportRender.ts';
+import type { Milestone, Portfolio, Program, Project, Task, TeamMember } from '../types/portfolio.ts';
+
+export const REPORT_DATE_RANGES = ['this-week', 'this-month', 'this-quarter', 'this-year', 'all-time'] as const;
+
+export type ReportDateRange = (typeof REPORT_DATE_RANGES)[number];
+
+export const REPORT_DATE_RANGE_LABELS: Record<ReportDateRange, string> = {
+  'this-week': 'This Week',
+  'this-month': 'This Month',
+  'this-quarter': 'This Quarter',
+  'this-year': 'This Year',
+  'all-time': 'All Time',
+};
+
+/** Tabs of the Reports page */
+export const REPORT_TYPES = [
+  'overview',
+  'portfolios',
+  'programs',
+  'projects',
+  'tasks',
+  'resources',
+  'activity',
+  'variance',
+  'budget',
+  'executive',
+  'status-update',
+] as const;
+
+export type ReportType = (typeof REPORT_TYPES)[number];
+
+export const REPORT_TYPE_LABELS: Record<ReportType, string> = {
+  overview: 'Overview',
+  portfolios: 'Portfolios',
+  programs: 'Programs',
+  projects: 'Projects',
+  tasks: 'Tasks',
+  resources: 'Resources',
+  activity: 'Activity Log',
+  variance: 'Variance',
+  budget: 'Budget',
+  executive: 'Executive',
+  'status-update': 'Status Update',
+};
+
+/** Rows loaded from the database carry their timestamps; the page's rows don't. */
+interface RecordTimestamps {
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface ReportSource {
+  portfolios: Portfolio[];
+  programs: Program[];
+  projects: Project[];
+  teamMembers: TeamMember[];
+  milestones: Milestone[];
+}
+
+/** Hierarchy filter; 'all' when not filtered */
+export interface ReportScope {
+  portfolioId: string;
+  programId: string;
+}
+
+export interface MemberTimeTotals {
+  loggedHours: number;
+  approvedHours: number;
+  laborCost: number;
+}
+
+export interface ReportBuildOptions {
+  scope: ReportScope;
+  /** Label of the date range, e.g. "This Month" */
+  dateRange: string;
+  organizationName?: string;
+  /** Timesheet totals per team member in the date range */
+  timeByMember?: Map<string, MemberTimeTotals>;
+  earnedValue?: ReportData['earnedValue'];
+  scheduleRisk?: ReportData['scheduleRisk'];
+  /** Overdue and upcoming are counted from here; also the report's generatedAt */
+  now?: Date;
+}
+
+const toKey = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * First and last day (yyyy-MM-dd, UTC) of the range containing `now`, or null for all time.
+ * Weeks start on Monday, as on the Reports page.
+ */
+export function reportDateRangeBounds(range: ReportDateRange, now: Date = new Date()): { from: string; to: string } | null {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  switch (range) {
+    case 'this-week': {
+      const start = new Date(Date.UTC(year, month, now.getUTCDate() - ((now.getUTCDay() + 6) % 7)));
+      return { from: toKey(start), to: toKey(new Date(start.getTime() + 6 * 86_400_000)) };
+    }
+    case 'this-month':
+      return { from: toKey(new Date(Date.UTC(year, month, 1))), to: toKey(new Date(Date.UTC(year, month + 1, 0))) };
+    case 'this-quarter': {
+      const first = month - (month % 3);
+      return { from: toKey(new Date(Date.UTC(year, first, 1))), to: toKey(new Date(Date.UTC(year, first + 3, 0))) };
+    }
+    case 'this-year':
+      return { from: `${year}-01-01`, to: `${year}-12-31` };
+    default:
+      return null;
+  }
+}
+
+/** Projects under the selected program, or under the selected portfolio's programs */
+export function scopeReportProjects(source: Pick<ReportSource, 'programs' | 'projects'>, scope: ReportScope): Project[] {
+  if (scope.programId !== 'all') {
+    return source.projects.filter(p => p.programId === scope.programId);
+  }
+  if (scope.portfolioId !== 'all') {
+    const programIds = source.programs.filter(prog => prog.portfolioId === scope.portfolioId).map(prog => prog.id);
+    return source.projects.filter(p => programIds.includes(p.programId));
+  }
+  return source.projects;
+}
+
+export function scopeReportPrograms(programs: Program[], scope: ReportScope): Program[] {
+  if (scope.portfolioId === 'all') return programs;
+  return programs.filter(p => p.portfolioId === scope.portfolioId);
+}
+
+/** Names of the selected portfolio and program, shown in the report header */
+export function reportFilterScope(source: Pick<ReportSource, 'portfolios' | 'programs'>, scope: ReportScope): ReportData['filterScope'] {
+  const filterScope: NonNullable<ReportData['filterScope']> = {};
+
+  if (scope.portfolioId !== 'all') {
+    const portfolio = source.portfolios.find(p => p.id === scope.portfolioId);
+    if (portfolio) {
+      filterScope.portfolioId = portfolio.id;
+      filterScope.portfolioName = portfolio.name;
+    }
+  }
+
+  if (scope.programId !== 'all') {
+    const program = source.programs.find(p => p.id === scope.programId);
+    if (program) {
+      filterScope.programId = program.id;
+      filterScope.programName = program.name;
+    }
+  }
+
+  return Object.keys(filterScope).length > 0 ? filterScope : undefined;
+}
+
+/** Task, project, utilization and budget figures for the filtered hierarchy */
+export function computeReportStats(source: ReportSource, scope: ReportScope, now: Date = new Date()) {
+  const filteredProjects = scopeReportProjects(source, scope);
+  const filteredPrograms = scopeReportPrograms(source.programs, scope);
+
+  const allTasks = filteredProjects.flatMap(p => p.tasks);
+  const totalTasks = allTasks.length;
+  const completedTasks = allTasks.filter(t => t.status === 'done').length;
+  const inProgressTasks = allTasks.filter(t => t.status === 'in-progress').length;
+  const todoTasks = allTasks.filter(t => t.status === 'todo').length;
+  const reviewTasks = allTasks.filter(t => t.status === 'review').length;
+
+  const overdueTasks = allTasks.filter(t =>
+    t.dueDate && new Date(t.dueDate) < now && t.status !== 'done'
+  ).length;
+
+  const highPriorityTasks = allTasks.filter(t => t.priority === 'high' && t.status !== 'done').length;
+
+  const activeProjects = filteredProjects.filter(p => p.status === 'active').length;
+  const planningProjects = filteredProjects.filter(p => p.status === 'planning').length;
+  const completedProjects = filteredProjects.filter(p => p.status === 'completed').length;
+  const onHoldProjects = filteredProjects.filter(p => p.status === 'on-hold').length;
+
+  const avgProgress = filteredProjects.length > 0
+    ? Math.round(filteredProjects.reduce((sum, p) => sum + p.progress, 0) / filteredProjects.length)
+    : 0;
+
+  const totalAllocation = source.teamMembers.reduce((sum, m) => sum + m.allocation, 0);
+  const totalCapacity = source.teamMembers.reduce((sum, m) => sum + m.capacity, 0);
+  const utilizationRate = totalCapacity > 0 ? Math.round((totalAllocation / totalCapacity) * 100) : 0;
+
+  const upcomingMilestones = source.milestones.filter(m => new Date(m.dueDate) > now).length;
+
+  // Budget comes from the filtered programs, cost from their projects
+  const totalBudget = filteredPrograms.reduce((sum, p) => sum + (p.budget || 0), 0);
+  const totalActualCost = filteredProjects.reduce((sum, p) => sum + (p.actualCost || 0), 0);
+  const budgetRemaining = totalBudget - totalActualCost;
+  const budgetUtilization = totalBudget > 0 ? Math.round((totalActualCost / totalBudget) * 100) : 0;
+
+  // 'under' (<90%), 'at-risk' (90-100%), 'over' (>100%)
+  let budgetStatus: 'under' | 'at-risk' | 'over' | 'no-budget' = 'no-budget';
+  if (totalBudget > 0) {
+    if (budgetUtilization > 100) {
+      budgetStatus = 'over';
+    } else if (budgetUtilization >= 90) {
+      budgetStatus = 'at-risk';
+    } else {
+      budgetStatus = 'under';
+    }
+  }
+
+  const overBudgetProjects = filteredProjects.filter(p =>
+    (p.allocatedBudget || 0) > 0 && (p.actualCost || 0) > (p.allocatedBudget || 0)
+  ).length;
+
+  return {
+    totalTasks,
+    completedTasks,
+    inProgressTasks,
+    todoTasks,
+    reviewTasks,
+    overdueTasks,
+    highPriorityTasks,
+    completionRate: totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0,
+    activeProjects,
+    planningProjects,
+    completedProjects,
+    onHoldProjects,
+    totalProjects: filteredProjects.length,
+    avgProgress,
+    utilizationRate,
+    upcomingMilestones,
+    totalPrograms: filteredPrograms.length,
+    totalPortfolios: source.portfolios.length,
+    totalBudget,
+    totalActualCost,
+    budgetRemaining,
+    budgetUtilization,
+    budgetStatus,
+    overBudgetProjects,
+  };
+}
+
+/** Logged hours per member, and approved hours and their cost */
+export function summarizeTimeEntries(
+  entries: Array<{ member_id: string; hours: number | string; status: string; hourly_rate?: number | string | null }>
+): Map<string, MemberTimeTotals> {
+  const totals = new Map<string, MemberTimeTotals>();
+  entries.forEach(e => {
+    const total = totals.get(e.member_id) ?? { loggedHours: 0, approvedHours: 0, laborCost: 0 };
+    const hours = Number(e.hours);
+    total.loggedHours += hours;
+    if (e.status === 'approved') {
+      total.approvedHours += hours;
+      total.laborCost += hours * Number(e.hourly_rate ?? 0);
+    }
+    totals.set(e.member_id, total);
+  });
+  return totals;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** The full report for the filtered hierarchy: stats, every level of the hierarchy, tasks, milestones and people. */
+export function buildReportData(source: ReportSource, options: ReportBuildOptions): ReportData {
+  const { scope, timeByMember } = options;
+  const { portfolios, programs, teamMembers, milestones } = source;
+  const filteredProjects = scopeReportProjects(source, scope);
+  const filteredPrograms = scopeReportPrograms(programs, scope);
+  const projectIds = new Set(filteredProjects.map(p => p.id));
+
+  const allFilteredTasks = filteredProjects.flatMap(p =>
+    p.tasks.map(t => ({
+      ...t,
+      projectName: p.name,
+      programName: programs.find(prog => prog.id === p.programId)?.name,
+    }))
+  );
+  const filteredMilestones = milestones.filter(m => projectIds.has(m.projectId));
+  const now = options.now ?? new Date();
+
+  return {
+    organizationName: options.organizationName,
+    dateRange: options.dateRange,
+    generatedAt: now.toISOString(),
+    filterScope: reportFilterScope(source, scope),
+    stats: computeReportStats(source, scope, now),
+    portfolios: (scope.portfolioId === 'all' ? portfolios : portfolios.filter(p => p.id === scope.portfolioId)).map(port => {
+      const portPrograms = filteredPrograms.filter(prog => prog.portfolioId === port.id);
+      const portProjects = filteredProjects.filter(p => portPrograms.some(prog => prog.id === p.programId));
+      const portTasks = portProjects.flatMap(p => p.tasks);
+      return {
+        name: port.name,
+        description: port.description,
+        programCount: portPrograms.length,
+        projectCount: portProjects.length,
+        taskCount: portTasks.length,
+        completedTasks: portTasks.filter(t => t.status === 'done').length,
+        budget: portPrograms.reduce((sum, p) => sum + (p.budget || 0), 0),
+        actualCost: portProjects.reduce((sum, p) => sum + (p.actualCost || 0), 0),
+      };
+    }),
+    programs: filteredPrograms.map(prog => {
+      const programProjects = filteredProjects.filter(p => p.programId === prog.id);
+      const programTasks = programProjects.flatMap(p => p.tasks);
+      return {
+        id: prog.id,
+        name: prog.name,
+        status: prog.status,
+        portfolioName: portfolios.find(p => p.id === prog.portfolioId)?.name,
+        description: prog.description,
+        projectCount: programProjects.length,
+        taskCount: programTasks.length,
+        completedTasks: programTasks.filter(t => t.status === 'done').length,
+        progress: programProjects.length > 0
+          ? Math.round(programProjects.reduce((sum, p) => sum + p.progress, 0) / programProjects.length)
+          : 0,
+        budget: prog.budget || 0,
+        actualCost: prog.actualCost || 0,
+      };
+    }),
+    projects: filteredProjects.map(p => {
+      const program = programs.find(prog => prog.id === p.programId);
+      const owner = p.ownerId ? teamMembers.find(m => m.id === p.ownerId) : null;
+      const timestamps = p as Project & RecordTimestamps;
+      return {
+        id: p.id,
+        name: p.name,
+        status: p.status,
+        programName: program?.name,
+        portfolioName: program ? portfolios.find(port => port.id === program.portfolioId)?.name : undefined,
+        description: p.description,
+        startDate: p.startDate,
+        endDate: p.endDate,
+        createdAt: timestamps.createdAt,
+        updatedAt: timestamps.updatedAt,
+        progress: p.progress,
+        tasksCount: p.tasks.length,
+        completedTasksCount: p.tasks.filter(t => t.status === 'done').length,
+        budget: p.budget,
+        actualCost: p.actualCost,
+        ownerName: owner?.name,
+        ownerEmail: owner?.email,
+      };
+    }),
+    teamMembers: teamMembers.map(m => {
+      const memberTasks = allFilteredTasks.filter(t => t.assigneeId === m.id);
+      const time = timeByMember?.get(m.id);
+      return {
+        id: m.id,
+        name: m.name,
+        email: m.email,
+        role: m.role,
+        allocation: m.allocation,
+        capacity: m.capacity,
+        taskCount: memberTasks.length,
+        completedTaskCount: memberTasks.filter(t => t.status === 'done').length,
+        loggedHours: round2(time?.loggedHours ?? 0),
+        approvedHours: round2(time?.approvedHours ?? 0),
+        laborCost: round2(time?.laborCost ?? 0),
+      };
+    }),
+    tasks: allFilteredTasks.map(t => {
+      const assignee = teamMembers.find(m => m.id === t.assigneeId);
+      const milestone = t.milestoneId ? milestones.find(m => m.id === t.milestoneId) : null;
+      const project = filteredProjects.find(p => p.id === t.projectId);
+      const program = project ? programs.find(prog => prog.id === project.programId) : null;
+      const timestamps = t as Task & RecordTimestamps;
+      return {
+        id: t.id,
+        title: t.title,
+        status: t.status,
+        priority: t.priority,
+        weight: t.weight,
+        projectName: t.projectName,
+        programName: t.programName,
+        portfolioName: program ? portfolios.find(port => port.id === program.portfolioId)?.name : undefined,
+        assigneeId: t.assigneeId,
+        assigneeName: assignee?.name,
+        assigneeEmail: assignee?.email,
+        assigneeRole: assignee?.role,
+        startDate: t.startDate,
+        dueDate: t.dueDate,
+        createdAt: timestamps.createdAt,
+        updatedAt: timestamps.updatedAt,
+        estimatedHours: t.estimatedHours,
+        actualCost: t.actualCost,
+        milestoneName: milestone?.title,
+        milestoneDueDate: milestone?.dueDate,
+        subtaskCount: t.subtasks?.length || 0,
+        completedSubtasks: t.subtasks?.filter(st => st.completed).length || 0,
+      };
+    }),
+    milestones: filteredMilestones.map(m => {
+      const project = filteredProjects.find(p => p.id === m.projectId);
+      const program = project ? programs.find(prog => prog.id === project.programId) : null;
+      const linkedTasks = allFilteredTasks.filter(t => t.milestoneId === m.id);
+      return {
+        title: m.title,
+        projectName: project?.name,
+        programName: program?.name,
+        dueDate: m.dueDate,
+        description: m.description,
+        taskCount: linkedTasks.length,
+        completedTaskCount: linkedTasks.filter(t => t.status === 'done').length,
+      };
+    }),
+    earnedValue: options.earnedValue,
+    scheduleRisk: options.scheduleRisk,
+  };
+}
@@ -0,0 +1,1196 @@
+/**
+ * Report rendering – the PDF, email HTML and CSV documents built from ReportData.
+ *
+ * Nothing here touches the DOM, so the render-report and send-scheduled-reports edge functions
+ * import this file as well (their deno.json maps jspdf and date-fns to npm). Charts are drawn from
+ * the data (reportCharts.ts), and the dates and document id come from the data too, so the same
+ * ReportData renders the same file wherever it is rendered. Relative imports carry the .ts
+ * extension for Deno.
+ */
+import jsPDF from 'jspdf';
+import { format, parseISO } from 'date-fns';
+import { buildReportCharts, drawReportChart, renderReportChartHTML, reportChartHeight, type ReportChart, type ReportChartUnit } from './reportCharts.ts';
+import { formatCustomReportValue } from './customReports.ts';
+import { buildXlsxWorkbook, XLSX_CONTENT_TYPE, type XlsxColumnType, type XlsxSheet } from './xlsx.ts';
+import type { EarnedValueReport } from './earnedValue.ts';
+import type { ScheduleForecast } from '../types/masterbook.ts';
+
+export interface ReportData {
+  organizationName?: string;
+  dateRange: string;
+  /** ISO time the data was built; documents show it instead of the time they were rendered */
+  generatedAt?: string;
+  filterScope?: {
+    portfolioId?: string;
+    portfolioName?: string;
+    programId?: string;
+    programName?: string;
+  };
+  stats: {
+    totalTasks: number;
+    completedTasks: number;
+    inProgressTasks: number;
+    reviewTasks?: number;
+    todoTasks: number;
+    overdueTasks: number;
+    highPriorityTasks: number;
+    completionRate: number;
+    activeProjects: number;
+    completedProjects: number;
+    totalProjects: number;
+    avgProgress: number;
+    utilizationRate: number;
+    totalPrograms: number;
+    totalPortfolios?: number;
+    // Budget stats
+    totalBudget?: number;
+    totalActualCost?: number;
+    budgetRemaining?: number;
+    budgetUtilization?: number;
+    budgetStatus?: 'under' | 'at-risk' | 'over' | 'no-budget';
+    overBudgetProjects?: number;
+  };
+  portfolios?: Array<{
+    name: string;
+    description?: string;
+    programCount: number;
+    projectCount: number;
+    taskCount: number;
+    completedTasks: number;
+    budget: number;
+    actualCost: number;
+  }>;
+  programs?: Array<{
+    id?: string;
+    name: string;
+    status: string;
+    portfolioName?: string;
+    description?: string;
+    startDate?: string;
+    endDate?: string;
+    projectCount: number;
+    taskCount: number;
+    completedTasks: number;
+    /** Average progress of the program's projects */
+    progress?: number;
+    budget: number;
+    actualCost: number;
+    ownerName?: string;
+  }>;
+  projects: Array<{
+    id?: string;
+    name: string;
+    status: string;
+    programName?: string;
+    portfolioName?: string;
+    description?: string;
+    startDate?: string;
+    endDate?: string;
+    createdAt?: string;
+    updatedAt?: string;
+    progress: number;
+    tasksCount: number;
+    completedTasksCount: number;
+    budget?: number;
+    actualCost?: number;
+    ownerName?: string;
+    ownerEmail?: string;
+  }>;
+  teamMembers: Array<{
+    id?: string;
+    name: string;
+    email?: string;
+    role?: string;
+    allocation: number;
+    capacity: number;
+    taskCount?: number;
+    completedTaskCount?: number;
+    /** Timesheet hours in the report range */
+    loggedHours?: number;
+    approvedHours?: number;
+    laborCost?: number;
+  }>;
+  // NEW: Comprehensive task data
+  tasks?: Array<{
+    id?: string;
+    title: string;
+    status: string;
+    priority: string;
+    weight?: number;
+    projectName?: string;
+    programName?: string;
+    portfolioName?: string;
+    assigneeId?: string;
+    assigneeName?: string;
+    assigneeEmail?: string;
+    assigneeRole?: string;
+    startDate?: string;
+    dueDate?: string;
+    createdAt?: string;
+    updatedAt?: string;
+    estimatedHours?: number;
+    actualCost?: number;
+    milestoneName?: string;
+    milestoneDueDate?: string;
+    subtaskCount?: number;
+    completedSubtasks?: number;
+  }>;
+  // NEW: Milestone data
+  milestones?: Array<{
+    title: string;
+    projectName?: string;
+    programName?: string;
+    dueDate?: string;
+    description?: string;
+    taskCount?: number;
+    completedTaskCount?: number;
+  }>;
+  // Earned value per portfolio / program / project with the S-curve
+  earnedValue?: EarnedValueReport;
+  // Monte Carlo forecast per project and milestone, and the tasks most often on the critical path
+  scheduleRisk?: {
+    iterations: number;
+    threePointTaskCount: number;
+    projects: Array<{ name: string } & ScheduleForecast>;
+    milestones: Array<{ name: string; projectName?: string } & ScheduleForecast>;
+    tasks: Array<{ title: string; projectName?: string; criticalityIndex: number }>;
+  };
+  // A custom report (customReports.ts); the PDF and CSV show it instead of the standard report
+  customReport?: CustomReportTable;
+}
+
+export interface CustomReportTable {
+  name: string;
+  description?: string;
+  entityLabel: string;
+  columns: Array<{ key: string; label: string; type: 'text' | 'number' | 'date'; unit?: ReportChartUnit }>;
+  rows: Array<Record<string, string | number | null>>;
+  chart: ReportChart | null;
+}
+
+export type ReportDocumentFormat = 'pdf' | 'html' | 'csv' | 'xlsx';
+
+export const REPORT_DOCUMENT_TYPES: Record<ReportDocumentFormat, string> = {
+  pdf: 'application/pdf',
+  html: 'text/html;charset=utf-8',
+  csv: 'text/csv;charset=utf-8',
+  xlsx: XLSX_CONTENT_TYPE,
+};
+
+const truncateText = (text: string, length: number) => (text.length > length ? `${text.substring(0, length - 3)}...` : text);
+
+const reportDate = (data: ReportData) => (data.generatedAt ? parseISO(data.generatedAt) : new Date());
+
+/** 32 hex characters from the report content (FNV-1a, four seeds), used as the PDF document id */
+function reportDocumentId(data: ReportData): string {
+  const text = JSON.stringify(data);
+  return [0x811c9dc5, 0x01000193, 0x5bd1e995, 0x27d4eb2f]
+    .map(seed => {
+      let hash = seed >>> 0;
+      for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+      }
+      return hash.toString(16).padStart(8, '0');
+    })
+    .join('')
+    .toUpperCase();
+}
+
+// Generate PDF from report data; charts are drawn from the data
+export async function generateReportPDF(data: ReportData): Promise<Blob> {
+  const pdf = new jsPDF('p', 'mm', 'a4');
+  // Fixed metadata so re-rendering the same data gives the same bytes
+  pdf.setCreationDate(reportDate(data));
+  pdf.setFileId(reportDocumentId(data));
+  const charts = buildReportCharts(data);
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const margin = 20;
+  let yPos = 20;
+
+  // Helper functions
+  const addTitle = (text: string, size: number = 16) => {
+    pdf.setFontSize(size);
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(text, margin, yPos);
+    yPos += size * 0.5 + 4;
+  };
+
+  const addText = (text: string, size: number = 10, color: [number, number, number] = [51, 51, 51]) => {
+    pdf.setFontSize(size);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setTextColor(...color);
+    pdf.text(text, margin, yPos);
+    yPos += size * 0.4 + 2;
+  };
+
+  const addStatRow = (label: string, value: string | number) => {
+    pdf.setFontSize(10);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setTextColor(100, 100, 100);
+    pdf.text(label, margin, yPos);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setTextColor(51, 51, 51);
+    pdf.text(String(value), margin + 80, yPos);
+    yPos += 6;
+  };
+
+  const addDivider = () => {
+    yPos += 4;
+    pdf.setDrawColor(220, 220, 220);
+    pdf.line(margin, yPos, pageWidth - margin, yPos);
+    yPos += 8;
+  };
+
+  const checkPageBreak = (requiredSpace: number = 30) => {
+    if (yPos + requiredSpace > pdf.internal.pageSize.getHeight() - 20) {
+      pdf.addPage();
+      yPos = 20;
+    }
+  };
+
+  // Header
+  const headerHeight = data.filterScope ? 50 : 40;
+  pdf.setFillColor(15, 23, 42); // slate-900
+  pdf.rect(0, 0, pageWidth, headerHeight, 'F');
+  
+  pdf.setTextColor(255, 255, 255);
+  pdf.setFontSize(22);
+  pdf.setFont('helvetica', 'bold');
+  pdf.text(data.customReport ? truncateText(data.customReport.name, 40) : 'Portfolio Report', margin, 25);
+  
+  pdf.setFontSize(10);
+  pdf.setFont('helvetica', 'normal');
+  const dateText = `Generated: ${format(reportDate(data), 'MMMM d, yyyy')} | Period: ${data.dateRange}`;
+  pdf.text(dateText, margin, 34);
+  
+  // Show filter scope if applied
+  if (data.filterScope) {
+    pdf.setFontSize(9);
+    const filterParts: string[] = [];
+    if (data.filterScope.portfolioName) {
+      filterParts.push(`Portfolio: ${data.filterScope.portfolioName}`);
+    }
+    if (data.filterScope.programName) {
+      filterParts.push(`Program: ${data.filterScope.programName}`);
+    }
+    if (filterParts.length > 0) {
+      pdf.text(`Filtered by: ${filterParts.join(' → ')}`, margin, 44);
+    }
+  }
+  
+  yPos = headerHeight + 12;
+  pdf.setTextColor(51, 51, 51);
+
+  const addFooters = () => {
+    const totalPages = pdf.getNumberOfPages();
+    for (let i = 1; i <= totalPages; i++) {
+      pdf.setPage(i);
+      pdf.setFontSize(8);
+      pdf.setTextColor(150, 150, 150);
+      pdf.text(
+        `Page ${i} of ${totalPages} | Accord Portfolio Management`,
+        pageWidth / 2,
+        pdf.internal.pageSize.getHeight() - 10,
+        { align: 'center' }
+      );
+    }
+  };
+
+  if (data.customReport) {
+    const report = data.customReport;
+    if (report.description) {
+      pdf.splitTextToSize(report.description, pageWidth - margin * 2).slice(0, 4).forEach((line: string) => {
+        addText(line, 10, [100, 100, 100]);
+      });
+      yPos += 4;
+    }
+
+    if (report.chart) {
+      const height = reportChartHeight(report.chart);
+      checkPageBreak(height + 16);
+      drawReportChart(pdf, report.chart, margin, yPos, pageWidth - margin * 2);
+      yPos += height + 4;
+      addDivider();
+    }
+
+    // Table, columns sharing the width evenly; the header repeats on every page
+    const columnWidth = (pageWidth - margin * 2) / Math.max(report.columns.length, 1);
+    const fontSize = report.columns.length > 6 ? 7 : 9;
+    const maxChars = Math.max(Math.floor(columnWidth / (fontSize * 0.2)), 4);
+    const addTableHeader = () => {
+      pdf.setFillColor(248, 250, 252);
+      pdf.rect(margin, yPos - 4, pageWidth - margin * 2, 8, 'F');
+      pdf.setFontSize(fontSize);
+      pdf.setFont('helvetica', 'bold');
+      pdf.setTextColor(71, 85, 105);
+      report.columns.forEach((column, i) => {
+        pdf.text(truncateText(column.label, maxChars), margin + 2 + i * columnWidth, yPos);
+      });
+      yPos += 8;
+      pdf.setFont('helvetica', 'normal');
+      pdf.setTextColor(51, 51, 51);
+    };
+
+    addTitle(`${report.entityLabel} (${report.rows.length})`, 14);
+    yPos += 4;
+    addTableHeader();
+    report.rows.forEach((row) => {
+      if (yPos + 10 > pdf.internal.pageSize.getHeight() - 20) {
+        pdf.addPage();
+        yPos = 20;
+        addTableHeader();
+      }
+      pdf.setFontSize(fontSize);
+      report.columns.forEach((column, i) => {
+        pdf.text(truncateText(formatCustomReportValue(row[column.key], column), maxChars), margin + 2 + i * columnWidth, yPos);
+      });
+      yPos += 6;
+    });
+    if (report.rows.length === 0) addText('No rows match the filters.', 9, [100, 100, 100]);
+
+    addFooters();
+    return pdf.output('blob');
+  }
+
+  // Executive Summary
+  addTitle('Executive Summary', 14);
+  yPos += 2;
+
+  // Stats grid
+  const statsData = [
+    ['Task Completion Rate', `${data.stats.completionRate}%`],
+    ['Team Utilization', `${data.stats.utilizationRate}%`],
+    ['Total Projects', String(data.stats.totalProjects)],
+    ['Total Programs', String(data.stats.totalPrograms)],
+    ['Active Projects', String(data.stats.activeProjects)],
+    ['Average Progress', `${data.stats.avgProgress}%`],
+    ['Overdue Tasks', String(data.stats.overdueTasks)],
+    ['High Priority Tasks', String(data.stats.highPriorityTasks)],
+    ['Total Budget', data.stats.totalBudget ? `$${data.stats.totalBudget.toLocaleString()}` : 'N/A'],
+    ['Actual Cost', data.stats.totalActualCost ? `$${data.stats.totalActualCost.toLocaleString()}` : 'N/A'],
+    ['Budget Utilization', data.stats.budgetUtilization ? `${data.stats.budgetUtilization}%` : 'N/A'],
+  ];
+
+  statsData.forEach(([label, value]) => {
+    addStatRow(label, value);
+  });
+
+  addDivider();
+
+  // Charts, each kept on one page with its title
+  const addChart = (chart: ReportChart | null, withDivider: boolean = true) => {
+    if (!chart) return;
+
+    const height = reportChartHeight(chart);
+    checkPageBreak(height + 16);
+    addTitle(chart.title, 14);
+    yPos += 2;
+    drawReportChart(pdf, chart, margin, yPos, pageWidth - margin * 2);
+    yPos += height + 4;
+    pdf.setTextColor(51, 51, 51);
+    if (withDivider) addDivider();
+  };
+
+  addChart(charts.taskDistribution);
+  addChart(charts.projectProgress);
+  addChart(charts.teamUtilization);
+  addChart(charts.portfolioProgress);
+
+  // Portfolio Summary
+  if (data.portfolios && data.portfolios.length > 0) {
+    checkPageBreak(50);
+    addTitle('Portfolios Summary', 14);
+    yPos += 4;
+
+    // Table header
+    pdf.setFillColor(248, 250, 252);
+    pdf.rect(margin, yPos - 4, pageWidth - margin * 2, 8, 'F');
+    
+    pdf.setFontSize(9);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setTextColor(71, 85, 105);
+    pdf.text('Portfolio', margin + 2, yPos);
+    pdf.text('Programs', margin + 55, yPos);
+    pdf.text('Projects', margin + 80, yPos);
+    pdf.text('Tasks', margin + 105, yPos);
+    pdf.text('Budget', margin + 130, yPos);
+    pdf.text('Cost', margin + 155, yPos);
+    yPos += 8;
+
+    // Table rows
+    pdf.setFont('helvetica', 'normal');
+    pdf.setTextColor(51, 51, 51);
+    
+    data.portfolios.forEach((portfolio) => {
+      checkPageBreak(10);
+      pdf.setFontSize(9);
+      const truncatedName = portfolio.name.length > 25 ? portfolio.name.substring(0, 25) + '...' : portfolio.name;
+      pdf.text(truncatedName, margin + 2, yPos);
+      pdf.text(String(portfolio.programCount), margin + 55, yPos);
+      pdf.text(String(portfolio.projectCount), margin + 80, yPos);
+      pdf.text(`${portfolio.completedTasks}/${portfolio.taskCount}`, margin + 105, yPos);
+      pdf.text(portfolio.budget > 0 ? `$${(portfolio.budget / 1000).toFixed(0)}k` : '-', margin + 130, yPos);
+      pdf.text(portfolio.actualCost > 0 ? `$${(portfolio.actualCost / 1000).toFixed(0)}k` : '-', margin + 155, yPos);
+      yPos += 6;
+    });
+
+    addDivider();
+  }
+
+  addChart(charts.programStatus);
+  addChart(charts.programProgress);
+
+  // Programs Summary
+  if (data.programs && data.programs.length > 0) {
+    checkPageBreak(50);
+    addTitle('Programs Summary', 14);
+    yPos += 4;
+
+    // Table header
+    pdf.setFillColor(248, 250, 252);
+    pdf.rect(margin, yPos - 4, pageWidth - margin * 2, 8, 'F');
+    
+    pdf.setFontSize(9);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setTextColor(71, 85, 105);
+    pdf.text('Program', margin + 2, yPos);
+    pdf.text('Status', margin + 50, yPos);
+    pdf.text('Projects', margin + 80, yPos);
+    pdf.text('Tasks', margin + 105, yPos);
+    pdf.text('Budget', margin + 130, yPos);
+    pdf.text('Cost', margin + 155, yPos);
+    yPos += 8;
+
+    // Table rows
+    pdf.setFont('helvetica', 'normal');
+    pdf.setTextColor(51, 51, 51);
+    
+    data.programs.slice(0, 15).forEach((program) => {
+      checkPageBreak(10);
+      pdf.setFontSize(9);
+      const truncatedName = program.name.length > 22 ? program.name.substring(0, 22) + '...' : program.name;
+      pdf.text(truncatedName, margin + 2, yPos);
+      pdf.text(program.status.charAt(0).toUpperCase() + program.status.slice(1), margin + 50, yPos);
+      pdf.text(String(program.projectCount), margin + 80, yPos);
+      pdf.text(`${program.completedTasks}/${program.taskCount}`, margin + 105, yPos);
+      pdf.text(program.budget > 0 ? `$${(program.budget / 1000).toFixed(0)}k` : '-', margin + 130, yPos);
+      pdf.text(program.actualCost > 0 ? `$${(program.actualCost / 1000).toFixed(0)}k` : '-', margin + 155, yPos);
+      yPos += 6;
+    });
+
+    if (data.programs.length > 15) {
+      pdf.setFontSize(8);
+      pdf.setTextColor(100, 100, 100);
+      pdf.text(`... and ${data.programs.length - 15} more programs`, margin + 2, yPos);
+      yPos += 6;
+    }
+
+    addDivider();
+  }
+
+  // Earned Value
+  if (data.earnedValue && data.earnedValue.projects.length > 0) {
+    const ev = data.earnedValue;
+    const k = (value: number) => `$${(value / 1000).toFixed(0)}k`;
+    const idx = (value: number | null) => (value === null ? '-' : value.toFixed(2));
+
+    checkPageBreak(90);
+    addTitle('Earned Value', 14);
+    addText(`Status date: ${format(parseISO(ev.statusDate), 'MMMM d, yyyy')}`, 9, [100, 100, 100]);
+    yPos += 2;
+
+    addStatRow('Budget at Completion (BAC)', `$${ev.total.bac.toLocaleString()}`);
+    addStatRow('Planned Value (PV)', `$${ev.total.pv.toLocaleString()}`);
+    addStatRow('Earned Value (EV)', `$${ev.total.ev.toLocaleString()}`);
+    addStatRow('Actual Cost (AC)', `$${ev.total.ac.toLocaleString()}`);
+    addStatRow('CPI / SPI', `${idx(ev.total.cpi)} / ${idx(ev.total.spi)}`);
+    addStatRow('Estimate at Completion (EAC)', `$${ev.total.eac.toLocaleString()}`);
+    addStatRow('Estimate to Complete (ETC)', `$${ev.total.etc.toLocaleString()}`);
+
+    yPos += 4;
+    addChart(charts.earnedValue, false);
+
+    const rowGroups: Array<[string, typeof ev.projects]> = [
+      ['Portfolio', ev.portfolios],
+      ['Program', ev.programs],
+      ['Project', ev.projects],
+    ];
+    rowGroups.forEach(([label, rows]) => {
+      if (rows.length === 0) return;
+      checkPageBreak(30);
+      yPos += 4;
+
+      pdf.setFillColor(248, 250, 252);
+      pdf.rect(margin, yPos - 4, pageWidth - margin * 2, 8, 'F');
+      pdf.setFontSize(9);
+      pdf.setFont('helvetica', 'bold');
+      pdf.setTextColor(71, 85, 105);
+      pdf.text(label, margin + 2, yPos);
+      pdf.text('PV', margin + 55, yPos);
+      pdf.text('EV', margin + 72, yPos);
+      pdf.text('AC', margin + 89, yPos);
+      pdf.text('CPI', margin + 106, yPos);
+      pdf.text('SPI', margin + 121, yPos);
+      pdf.text('EAC', margin + 136, yPos);
+      pdf.text('ETC', margin + 153, yPos);
+      yPos += 8;
+
+      pdf.setFont('helvetica', 'normal');
+      pdf.setTextColor(51, 51, 51);
+      rows.slice(0, 15).forEach((row) => {
+        checkPageBreak(10);
+        pdf.setFontSize(9);
+        const truncatedName = row.name.length > 25 ? row.name.substring(0, 25) + '...' : row.name;
+        pdf.text(truncatedName, margin + 2, yPos);
+        pdf.text(k(row.pv), margin + 55, yPos);
+        pdf.text(k(row.ev), margin + 72, yPos);
+        pdf.text(k(row.ac), margin + 89, yPos);
+        pdf.text(idx(row.cpi), margin + 106, yPos);
+        pdf.text(idx(row.spi), margin + 121, yPos);
+        pdf.text(k(row.eac), margin + 136, yPos);
+        pdf.text(k(row.etc), margin + 153, yPos);
+        yPos += 6;
+      });
+
+      if (rows.length > 15) {
+        pdf.setFontSize(8);
+        pdf.setTextColor(100, 100, 100);
+        pdf.text(`... and ${rows.length - 15} more`, margin + 2, yPos);
+        yPos += 6;
+      }
+    });
+
+    addDivider();
+  }
+
+  // Schedule Risk
+  if (data.scheduleRisk && data.scheduleRisk.projects.length > 0) {
+    const risk = data.scheduleRisk;
+    const day = (date: string) => format(parseISO(date), 'MMM d, yyyy');
+    const pct = (share?: number) => (share === undefined ? '-' : `${Math.round(share * 100)}%`);
+
+    checkPageBreak(60);
+    addTitle('Schedule Risk (Monte Carlo)', 14);
+    addText(
+      `${risk.iterations.toLocaleString()} simulations · ${risk.threePointTaskCount} task${risk.threePointTaskCount === 1 ? '' : 's'} with three-point estimates`,
+      9,
+      [100, 100, 100]
+    );
+    yPos += 2;
+
+    const forecastGroups: Array<[string, Array<{ name: string } & ScheduleForecast>]> = [
+      ['Project', risk.projects],
+      ['Milestone', risk.milestones],
+    ];
+    forecastGroups.forEach(([label, rows]) => {
+      if (rows.length === 0) return;
+      checkPageBreak(30);
+      yPos += 4;
+
+      pdf.setFillColor(248, 250, 252);
+      pdf.rect(margin, yPos - 4, pageWidth - margin * 2, 8, 'F');
+      pdf.setFontSize(9);
+      pdf.setFont('helvetica', 'bold');
+      pdf.setTextColor(71, 85, 105);
+      pdf.text(label, margin + 2, yPos);
+      pdf.text('Planned', margin + 52, yPos);
+      pdf.text('P50', margin + 75, yPos);
+      pdf.text('P80', margin + 98, yPos);
+      pdf.text('P90', margin + 121, yPos);
+      pdf.text('Target', margin + 144, yPos);
+      pdf.text('On time', margin + 160, yPos);
+      yPos += 8;
+
+      pdf.setFont('helvetica', 'normal');
+      pdf.setTextColor(51, 51, 51);
+      rows.slice(0, 15).forEach((row) => {
+        checkPageBreak(10);
+        pdf.setFontSize(8);
+        const truncatedName = row.name.length > 25 ? row.name.substring(0, 25) + '...' : row.name;
+        pdf.text(truncatedName, margin + 2, yPos);
+        pdf.text(day(row.deterministicFinish), margin + 52, yPos);
+        pdf.text(day(row.p50), margin + 75, yPos);
+        pdf.text(day(row.p80), margin + 98, yPos);
+        pdf.text(day(row.p90), margin + 121, yPos);
+        pdf.text(row.targetDate ? format(parseISO(row.targetDate), 'MMM d') : '-', margin + 144, yPos);
+        pdf.text(pct(row.onTimeProbability), margin + 160, yPos);
+        yPos += 6;
+      });
+
+      if (rows.length > 15) {
+        pdf.setFontSize(8);
+        pdf.setTextColor(100, 100, 100);
+        pdf.text(`... and ${rows.length - 15} more`, margin + 2, yPos);
+        yPos += 6;
+      }
+    });
+
+    if (risk.tasks.length > 0) {
+      checkPageBreak(30);
+      yPos += 4;
+      addText('Criticality index (share of simulations on the critical path)', 9, [100, 100, 100]);
+      risk.tasks.slice(0, 10).forEach((task) => {
+        checkPageBreak(10);
+        const name = task.projectName ? `${task.title} (${task.projectName})` : task.title;
+        addStatRow(name.length > 45 ? name.substring(0, 45) + '...' : name, pct(task.criticalityIndex));
+      });
+    }
+
+    addDivider();
+  }
+
+  // Task Overview
+  checkPageBreak(50);
+  addTitle('Task Overview', 14);
+  yPos += 2;
+
+  addStatRow('Total Tasks', data.stats.totalTasks);
+  addStatRow('Completed', data.stats.completedTasks);
+  addStatRow('In Progress', data.stats.inProgressTasks);
+  addStatRow('To Do', data.stats.todoTasks);
+  addStatRow('Overdue', data.stats.overdueTasks);
+
+  addDivider();
+
+  // Projects Summary
+  checkPageBreak(50);
+  addTitle('Projects Summary', 14);
+  yPos += 4;
+
+  // Table header
+  pdf.setFillColor(248, 250, 252);
+  pdf.rect(margin, yPos - 4, pageWidth - margin * 2, 8, 'F');
+  
+  pdf.setFontSize(9);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setTextColor(71, 85, 105);
+  pdf.text('Project Name', margin + 2, yPos);
+  pdf.text('Status', margin + 70, yPos);
+  pdf.text('Progress', margin + 100, yPos);
+  pdf.text('Tasks', margin + 130, yPos);
+  yPos += 8;
+
+  // Table rows
+  pdf.setFont('helvetica', 'normal');
+  pdf.setTextColor(51, 51, 51);
+  
+  data.projects.slice(0, 10).forEach((project) => {
+    checkPageBreak(10);
+    pdf.setFontSize(9);
+    const truncatedName = project.name.length > 30 ? project.name.substring(0, 30) + '...' : project.name;
+    pdf.text(truncatedName, margin + 2, yPos);
+    pdf.text(project.status, margin + 70, yPos);
+    pdf.text(`${project.progress}%`, margin + 100, yPos);
+    pdf.text(`${project.completedTasksCount}/${project.tasksCount}`, margin + 130, yPos);
+    yPos += 6;
+  });
+
+  if (data.projects.length > 10) {
+    pdf.setFontSize(8);
+    pdf.setTextColor(100, 100, 100);
+    pdf.text(`... and ${data.projects.length - 10} more projects`, margin + 2, yPos);
+    yPos += 6;
+  }
+
+  addDivider();
+
+  // Team Utilization
+  checkPageBreak(50);
+  addTitle('Team Utilization', 14);
+  yPos += 4;
+
+  // Table header
+  pdf.setFillColor(248, 250, 252);
+  pdf.rect(margin, yPos - 4, pageWidth - margin * 2, 8, 'F');
+  
+  pdf.setFontSize(9);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setTextColor(71, 85, 105);
+  pdf.text('Team Member', margin + 2, yPos);
+  pdf.text('Allocation', margin + 80, yPos);
+  pdf.text('Capacity', margin + 110, yPos);
+  pdf.text('Utilization', margin + 140, yPos);
+  pdf.text('Logged', margin + 165, yPos);
+  yPos += 8;
+
+  // Table rows
+  pdf.setFont('helvetica', 'normal');
+  pdf.setTextColor(51, 51, 51);
+  
+  data.teamMembers.slice(0, 15).forEach((member) => {
+    checkPageBreak(10);
+    pdf.setFontSize(9);
+    const utilization = member.capacity > 0 ? Math.round((member.allocation / member.capacity) * 100) : 0;
+    pdf.text(member.name, margin + 2, yPos);
+    pdf.text(`${member.allocation}h`, margin + 80, yPos);
+    pdf.text(`${member.capacity}h`, margin + 110, yPos);
+    pdf.text(`${utilization}%`, margin + 140, yPos);
+    pdf.text(`${member.loggedHours ?? 0}h`, margin + 165, yPos);
+    yPos += 6;
+  });
+
+  addFooters();
+
+  return pdf.output('blob');
+}
+
+// Generate HTML content for email
+export function generateReportHTML(data: ReportData): string {
+  const statusColor = (rate: number) => {
+    if (rate >= 70) return '#10b981';
+    if (rate >= 40) return '#f59e0b';
+    return '#ef4444';
+  };
+
+  // Email clients render table bars; the S-curve is in the PDF only
+  const charts = buildReportCharts(data);
+  const chartSections = [charts.taskDistribution, charts.projectProgress, charts.teamUtilization]
+    .filter((chart): chart is ReportChart => chart !== null)
+    .map(chart => `
+      <div style="padding: 24px; background: white; border-left: 1px solid #e2e8f0; border-right: 1px solid #e2e8f0; border-top: 1px solid #f1f5f9;">
+        ${renderReportChartHTML(chart)}
+      </div>
+    `)
+    .join('');
+
+  return `
+    <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 0;">
+      <!-- Header -->
+      <div style="background: linear-gradient(135deg, #0f172a 0%, #1e293b 100%); padding: 32px 24px; border-radius: 12px 12px 0 0;">
+        <h1 style="color: #ffffff; margin: 0 0 8px 0; font-size: 24px;">📊 Portfolio Update</h1>
+        <p style="color: #94a3b8; margin: 0; font-size: 14px;">
+          Generated on ${format(reportDate(data), 'MMMM d, yyyy')} | Period: ${data.dateRange}
+        </p>
+      </div>
+
+      <!-- Quick Stats -->
+      <div style="background: #f8fafc; padding: 24px; border-left: 1px solid #e2e8f0; border-right: 1px solid #e2e8f0;">
+        <h2 style="color: #1e293b; margin: 0 0 16px 0; font-size: 16px;">Quick Overview</h2>
+        <table style="width: 100%; border-collapse: collapse;">
+          <tr>
+            <td style="padding: 12px; background: white; border-radius: 8px; text-align: center; width: 50%;">
+              <div style="font-size: 28px; font-weight: bold; color: ${statusColor(data.stats.completionRate)};">${data.stats.completionRate}%</div>
+              <div style="font-size: 12px; color: #64748b; margin-top: 4px;">Task Completion</div>
+            </td>
+            <td style="width: 12px;"></td>
+            <td style="padding: 12px; background: white; border-radius: 8px; text-align: center; width: 50%;">
+              <div style="font-size: 28px; font-weight: bold; color: ${statusColor(100 - data.stats.utilizationRate)};">${data.stats.utilizationRate}%</div>
+              <div style="font-size: 12px; color: #64748b; margin-top: 4px;">Team Utilization</div>
+            </td>
+          </tr>
+        </table>
+      </div>
+
+      <!-- Summary Stats -->
+      <div style="padding: 24px; background: white; border-left: 1px solid #e2e8f0; border-right: 1px solid #e2e8f0;">
+        <h2 style="color: #1e293b; margin: 0 0 16px 0; font-size: 16px;">Summary</h2>
+        <table style="width: 100%; border-collapse: collapse;">
+          <tr>
+            <td style="padding: 8px 0; border-bottom: 1px solid #f1f5f9;">
+              <span style="color: #64748b;">Total Projects</span>
+            </td>
+            <td style="padding: 8px 0; border-bottom: 1px solid #f1f5f9; text-align: right; font-weight: 600; color: #1e293b;">
+              ${data.stats.totalProjects}
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 8px 0; border-bottom: 1px solid #f1f5f9;">
+              <span style="color: #64748b;">Active Projects</span>
+            </td>
+            <td style="padding: 8px 0; border-bottom: 1px solid #f1f5f9; text-align: right; font-weight: 600; color: #1e293b;">
+              ${data.stats.activeProjects}
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 8px 0; border-bottom: 1px solid #f1f5f9;">
+              <span style="color: #64748b;">Average Progress</span>
+            </td>
+            <td style="padding: 8px 0; border-bottom: 1px solid #f1f5f9; text-align: right; font-weight: 600; color: #1e293b;">
+              ${data.stats.avgProgress}%
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 8px 0; border-bottom: 1px solid #f1f5f9;">
+              <span style="color: #64748b;">Total Tasks</span>
+            </td>
+            <td style="padding: 8px 0; border-bottom: 1px solid #f1f5f9; text-align: right; font-weight: 600; color: #1e293b;">
+              ${data.stats.totalTasks}
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 8px 0; border-bottom: 1px solid #f1f5f9;">
+              <span style="color: #64748b;">Completed Tasks</span>
+            </td>
+            <td style="padding: 8px 0; border-bottom: 1px solid #f1f5f9; text-align: right; font-weight: 600; color: #10b981;">
+              ${data.stats.completedTasks}
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 8px 0;">
+              <span style="color: #64748b;">Overdue Tasks</span>
+            </td>
+            <td style="padding: 8px 0; text-align: right; font-weight: 600; color: ${data.stats.overdueTasks > 0 ? '#ef4444' : '#10b981'};">
+              ${data.stats.overdueTasks}
+            </td>
+          </tr>
+        </table>
+      </div>
+
+      <!-- Charts -->
+      ${chartSections}
+
+      <!-- Attention Items -->
+      ${data.stats.overdueTasks > 0 || data.stats.highPriorityTasks > 0 ? `
+      <div style="padding: 24px; background: #fef2f2; border-left: 1px solid #e2e8f0; border-right: 1px solid #e2e8f0;">
+        <h2 style="color: #dc2626; margin: 0 0 12px 0; font-size: 16px;">⚠️ Requires Attention</h2>
+        <ul style="margin: 0; padding-left: 20px; color: #991b1b;">
+          ${data.stats.overdueTasks > 0 ? `<li style="margin-bottom: 8px;">${data.stats.overdueTasks} overdue task(s) need immediate attention</li>` : ''}
+          ${data.stats.highPriorityTasks > 0 ? `<li>${data.stats.highPriorityTasks} high priority task(s) pending</li>` : ''}
+        </ul>
+      </div>
+      ` : ''}
+
+      <!-- Footer -->
+      <div style="padding: 24px; background: #f8fafc; border: 1px solid #e2e8f0; border-top: none; border-radius: 0 0 12px 12px; text-align: center;">
+        <p style="color: #64748b; margin: 0; font-size: 12px;">
+          This is an automated report from Accord Portfolio Management.
+        </p>
+      </div>
+    </div>
+  `;
+}
+
+// Generate CSV content - Linear-compatible task export, followed by earned value and timesheet tables when available
+export function generateReportCSV(data: ReportData): string {
+  const lines: string[] = [];
+  
+  const esc = (val: string | number | undefined | null): string => {
+    if (val === null || val === undefined) return '""';
+    const str = String(val);
+    return `"${str.replace(/"/g, '""')}"`;
+  };
+
+  const fmtDate = (val: string | undefined | null): string => {
+    if (!val) return '""';
+    try {
+      return esc(format(new Date(val), "MMM dd, yyyy"));
+    } catch {
+      return esc(val);
+    }
+  };
+
+  // A custom report is its own table, raw values under the column labels
+  if (data.customReport) {
+    const { columns, rows } = data.customReport;
+    lines.push(columns.map(c => esc(c.label)).join(','));
+    rows.forEach(row => lines.push(columns.map(c => esc(row[c.key])).join(',')));
+    return lines.join('\n');
+  }
+
+  // Header matching Linear CSV schema
+  lines.push('"ID","Team","Title","Description","Status","Estimate","Priority","Project ID","Project","Creator","Assignee","Labels","Cycle Number","Cycle Name","Cycle Start","Cycle End","Created","Updated","Started","Triaged","Completed","Canceled","Archived","Due Date","Parent issue","Initiatives","Project Milestone ID","Project Milestone","SLA Status","UUID","Time in status (minutes)","Related to","Blocked by","Duplicate of"');
+
+  if (data.tasks && data.tasks.length > 0) {
+    data.tasks.forEach(task => {
+      const completed = task.status === 'done';
+      lines.push([
+        esc(task.id || ''),
+        esc(data.organizationName || ''),
+        esc(task.title),
+        esc(''),
+        esc(task.status),
+        esc(task.estimatedHours || ''),
+        esc(task.priority),
+        esc(''),
+        esc(task.projectName || ''),
+        esc(''),
+        esc(task.assigneeName || ''),
+        esc(''),
+        '""', '""', '""', '""',
+        fmtDate(task.createdAt),
+        fmtDate(task.updatedAt),
+        fmtDate(task.startDate),
+        '""',
+        completed ? fmtDate(task.updatedAt) : '""',
+        '""', '""',
+        fmtDate(task.dueDate),
+        '""',
+        esc(task.programName || ''),
+        esc(''),
+        esc(task.milestoneName || ''),
+        '""',
+        esc(task.id || ''),
+        '""', '""', '""', '""',
+      ].join(','));
+    });
+  }
+
+  // Earned value: separate table after a blank line so the task rows above stay importable
+  if (data.earnedValue && data.earnedValue.projects.length > 0) {
+    const ev = data.earnedValue;
+    const idx = (value: number | null) => (value === null ? '""' : esc(value));
+    lines.push('');
+    lines.push('"Level","Name","Status Date","BAC","PV","EV","AC","CV","SV","CPI","SPI","EAC","ETC","VAC","% Complete","% Planned"');
+    const rows: Array<[string, { name: string } & typeof ev.total]> = [
+      ['Total', { name: data.filterScope?.programName || data.filterScope?.portfolioName || data.organizationName || 'All', ...ev.total }],
+      ...ev.portfolios.map((r): [string, typeof r] => ['Portfolio', r]),
+      ...ev.programs.map((r): [string, typeof r] => ['Program', r]),
+      ...ev.projects.map((r): [string, typeof r] => ['Project', r]),
+    ];
+    rows.forEach(([level, r]) => {
+      lines.push([
+        esc(level),
+        esc(r.name),
+        esc(ev.statusDate),
+        esc(r.bac),
+        esc(r.pv),
+        esc(r.ev),
+        esc(r.ac),
+        esc(r.cv),
+        esc(r.sv),
+        idx(r.cpi),
+        idx(r.spi),
+        esc(r.eac),
+        esc(r.etc),
+        esc(r.vac),
+        esc(r.percentComplete),
+        esc(r.percentPlanned),
+      ].join(','));
+    });
+  }
+
+  // Schedule risk: forecasts, then criticality per task
+  if (data.scheduleRisk && data.scheduleRisk.projects.length > 0) {
+    const risk = data.scheduleRisk;
+    const share = (value?: number) => (value === undefined ? '""' : esc(Math.round(value * 1000) / 1000));
+    lines.push('');
+    lines.push('"Level","Name","Project","Simulations","Planned Finish","P50","P80","P90","Target Date","On-Time Probability"');
+    const rows: Array<[string, { name: string; projectName?: string } & ScheduleForecast]> = [
+      ...risk.projects.map((r): [string, typeof r] => ['Project', r]),
+      ...risk.milestones.map((r): [string, typeof r] => ['Milestone', r]),
+    ];
+    rows.forEach(([level, r]) => {
+      lines.push([
+        esc(level),
+        esc(r.name),
+        esc(r.projectName ?? (level === 'Project' ? r.name : '')),
+        esc(risk.iterations),
+        esc(r.deterministicFinish),
+        esc(r.p50),
+        esc(r.p80),
+        esc(r.p90),
+        esc(r.targetDate ?? ''),
+        share(r.onTimeProbability),
+      ].join(','));
+    });
+
+    if (risk.tasks.length > 0) {
+      lines.push('');
+      lines.push('"Task","Project","Criticality Index"');
+      risk.tasks.forEach(t => {
+        lines.push([esc(t.title), esc(t.projectName || ''), share(t.criticalityIndex)].join(','));
+      });
+    }
+  }
+
+  const loggedMembers = data.teamMembers.filter(m => (m.loggedHours ?? 0) > 0);
+  if (loggedMembers.length > 0) {
+    lines.push('');
+    lines.push('"Team Member","Report Range","Logged Hours","Approved Hours","Labor Cost"');
+    loggedMembers.forEach(m => {
+      lines.push([
+        esc(m.name),
+        esc(data.dateRange),
+        esc(m.loggedHours),
+        esc(m.approvedHours ?? 0),
+        esc(m.laborCost ?? 0),
+      ].join(','));
+    });
+  }
+
+  return lines.join('\n');
+}
+
+// Generate an Excel workbook: a summary sheet and one sheet per entity, or the custom report's table
+export function generateReportXLSX(data: ReportData): Uint8Array {
+  const options = { title: data.customReport?.name ?? 'Portfolio Report', modified: reportDate(data) };
+
+  if (data.customReport) {
+    const { name, columns, rows } = data.customReport;
+    const typeOf = (column: CustomReportTable['columns'][number]): XlsxColumnType => {
+      if (column.type !== 'number') return column.type;
+      return column.unit === 'currency' ? 'currency' : column.unit === 'percent' ? 'percent' : 'number';
+    };
+    return buildXlsxWorkbook(
+      [{ name, columns: columns.map(c => ({ header: c.label, type: typeOf(c) })), rows: rows.map(row => columns.map(c => row[c.key])) }],
+      options
+    );
+  }
+
+  const { stats } = data;
+  const scope = [data.filterScope?.portfolioName, data.filterScope?.programName].filter(Boolean).join(' → ');
+  const sheets: XlsxSheet[] = [
+    {
+      name: 'Summary',
+      columns: [{ header: 'Metric', width: 28 }, { header: 'Value', width: 32 }],
+      rows: [
+        ['Organization', data.organizationName ?? ''],
+        ['Period', data.dateRange],
+        ['Generated', format(reportDate(data), 'yyyy-MM-dd HH:mm')],
+        ['Scope', scope || 'All portfolios'],
+        ['Total Tasks', stats.totalTasks],
+        ['Completed Tasks', stats.completedTasks],
+        ['In Progress Tasks', stats.inProgressTasks],
+        ['Overdue Tasks', stats.overdueTasks],
+        ['High Priority Tasks', stats.highPriorityTasks],
+        ['Task Completion Rate (%)', stats.completionRate],
+        ['Total Projects', stats.totalProjects],
+        ['Active Projects', stats.activeProjects],
+        ['Average Progress (%)', stats.avgProgress],
+        ['Total Programs', stats.totalPrograms],
+        ['Team Utilization (%)', stats.utilizationRate],
+        ['Total Budget', stats.totalBudget ?? null],
+        ['Actual Cost', stats.totalActualCost ?? null],
+        ['Budget Utilization (%)', stats.budgetUtilization ?? null],
+      ],
+    },
+    {
+      name: 'Portfolios',
+      columns: [
+        { header: 'Name' },
+        { header: 'Description', width: 40 },
+        { header: 'Programs', type: 'number' },
+        { header: 'Projects', type: 'number' },
+        { header: 'Tasks', type: 'number' },
+        { header: 'Completed Tasks', type: 'number' },
+        { header: 'Budget', type: 'currency' },
+        { header: 'Actual Cost', type: 'currency' },
+      ],
+      rows: (data.portfolios ?? []).map(p => [p.name, p.description, p.programCount, p.projectCount, p.taskCount, p.completedTasks, p.budget, p.actualCost]),
+    },
+    {
+      name: 'Programs',
+      columns: [
+        { header: 'Name' },
+        { header: 'Status' },
+        { header: 'Portfolio' },
+        { header: 'Owner' },
+        { header: 'Start Date', type: 'date' },
+        { header: 'End Date', type: 'date' },
+        { header: 'Projects', type: 'number' },
+        { header: 'Tasks', type: 'number' },
+        { header: 'Completed Tasks', type: 'number' },
+        { header: 'Progress', type: 'percent' },
+        { header: 'Budget', type: 'currency' },
+        { header: 'Actual Cost', type: 'currency' },
+      ],
+      rows: (data.programs ?? []).map(p => [
+        p.name, p.status, p.portfolioName, p.ownerName, p.startDate, p.endDate,
+        p.projectCount, p.taskCount, p.completedTasks, p.progress, p.budget, p.actualCost,
+      ]),
+    },
+    {
+      name: 'Projects',
+      columns: [
+        { header: 'Name' },
+        { header: 'Status' },
+        { header: 'Program' },
+        { header: 'Portfolio' },
+        { header: 'Owner' },
+        { header: 'Start Date', type: 'date' },
+        { header: 'End Date', type: 'date' },
+        { header: 'Progress', type: 'percent' },
+        { header: 'Tasks', type: 'number' },
+        { header: 'Completed Tasks', type: 'number' },
+        { header: 'Budget', type: 'currency' },
+        { header: 'Actual Cost', type: 'currency' },
+      ],
+      rows: data.projects.map(p => [
+        p.name, p.status, p.programName, p.portfolioName, p.ownerName, p.startDate, p.endDate,
+        p.progress, p.tasksCount, p.completedTasksCount, p.budget, p.actualCost,
+      ]),
+    },
+    {
+      name: 'Tasks',
+      columns: [
+        { header: 'Title', width: 40 },
+        { header: 'Status' },
+        { header: 'Priority' },
+        { header: 'Weight', type: 'number' },
+        { header: 'Project' },
+        { header: 'Program' },
+        { header: 'Portfolio' },
+        { header: 'Assignee' },
+        { header: 'Milestone' },
+        { header: 'Start Date', type: 'date' },
+        { header: 'Due Date', type: 'date' },
+        { header: 'Estimated Hours', type: 'number' },
+        { header: 'Actual Cost', type: 'currency' },
+        { header: 'Subtasks', type: 'number' },
+        { header: 'Completed Subtasks', type: 'number' },
+        { header: 'Created', type: 'date' },
+        { header: 'Updated', type: 'date' },
+      ],
+      rows: (data.tasks ?? []).map(t => [
+        t.title, t.status, t.priority, t.weight, t.projectName, t.programName, t.portfolioName, t.assigneeName,
+        t.milestoneName, t.startDate, t.dueDate, t.estimatedHours, t.actualCost, t.subtaskCount, t.completedSubtasks,
+        t.createdAt, t.updatedAt,
+      ]),
+    },
+    {
+      name: 'Milestones',
+      columns: [
+        { header: 'Title', width: 40 },
+        { header: 'Project' },
+        { header: 'Program' },
+        { header: 'Due Date', type: 'date' },
+        { header: 'Tasks', type: 'number' },
+        { header: 'Completed Tasks', type: 'number' },
+        { header: 'Description', width: 40 },
+      ],
+      rows: (data.milestones ?? []).map(m => [m.title, m.projectName, m.programName, m.dueDate, m.taskCount, m.completedTaskCount, m.description]),
+    },
+    {
+      name: 'Team Members',
+      columns: [
+        { header: 'Name' },
+        { header: 'Role' },
+        { header: 'Allocation (h)', type: 'number' },
+        { header: 'Capacity (h)', type: 'number' },
+        { header: 'Utilization', type: 'percent' },
+        { header: 'Tasks', type: 'number' },
+        { header: 'Completed Tasks', type: 'number' },
+        { header: 'Logged Hours', type: 'number' },
+        { header: 'Approved Hours', type: 'number' },
+        { header: 'Labor Cost', type: 'currency' },
+      ],
+      rows: data.teamMembers.map(m => [
+        m.name, m.role, m.allocation, m.capacity, m.capacity > 0 ? Math.round((m.allocation / m.capacity) * 100) : 0,
+        m.taskCount, m.completedTaskCount, m.loggedHours, m.approvedHours, m.laborCost,
+      ]),
+    },
+  ];
+
+  return buildXlsxWorkbook(sheets, options);
+}
+
+/**
+ * The report as a file: the PDF, a standalone HTML page of the email body, the CSV with a BOM
+ * so spreadsheet apps read it as UTF-8, or the Excel workbook.
+ */
+export async function renderReportDocument(data: ReportData, documentFormat: ReportDocumentFormat): Promise<Blob> {
+  switch (documentFormat) {
+    case 'pdf':
+      return generateReportPDF(data);
+    case 'csv':
+      return new Blob(['\uFEFF' + generateReportCSV(data)], { type: REPORT_DOCUMENT_TYPES.csv });
+    case 'xlsx':
+      return new Blob([generateReportXLSX(data)], { type: REPORT_DOCUMENT_TYPES.xlsx });
+    case 'html': {
+      const title = `Portfolio Report – ${format(reportDate(data), 'MMMM d, yyyy')}`;
+      const page = `<!DOCTYPE html>\n<html lang="en">\n<head>\n<meta charset="utf-8">\n<title>${title}</title>\n</head>\n<body style="margin: 0; padding: 24px; background: #f1f5f9;">${generateReportHTML(data)}</body>\n</html>\n`;
+      return new Blob([page], { type: REPORT_DOCUMENT_TYPES.html });
+    }
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Report schedules – the cron cadence of report subscriptions.
+ *
+ * Standard five-field cron (minute hour day-of-month month day-of-week) with lists, ranges, steps
+ * and JAN-DEC / SUN-SAT names, evaluated in UTC. As in cron, when both day fields are restricted a
+ * day matching either one fires. The send-scheduled-reports edge function imports this file
+ * directly, so it must not import anything.
+ */
+
+export class CronParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronParseError';
+  }
+}
+
+export interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[];
+  /** 0 = Sunday */
+  daysOfWeek: number[];
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+export const REPORT_CADENCE_PRESETS = [
+  { id: 'daily', label: 'Every day', cron: '0 8 * * *' },
+  { id: 'weekdays', label: 'Every weekday', cron: '0 8 * * 1-5' },
+  { id: 'weekly', label: 'Every Monday', cron: '0 8 * * 1' },
+  { id: 'monthly', label: 'First day of every month', cron: '0 8 1 * *' },
+] as const;
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameBase: 1 },
+  // 7 is Sunday as well
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, nameBase: 0 },
+];
+
+// Give up when nothing matches within this many years (e.g. 0 0 30 2 *)
+const SEARCH_YEARS = 5;
+
+function parseValue(raw: string, field: (typeof FIELDS)[number]): number {
+  const upper = raw.toUpperCase();
+  const nameIndex = field.names?.indexOf(upper) ?? -1;
+  if (nameIndex >= 0) return nameIndex + (field.nameBase ?? 0);
+  if (!/^\d+$/.test(raw)) throw new CronParseError(`Invalid ${field.name}: ${raw}`);
+  const value = Number(raw);
+  if (value < field.min || value > field.max) {
+    throw new CronParseError(`${field.name[0].toUpperCase()}${field.name.slice(1)} must be between ${field.min} and ${field.max}`);
+  }
+  return value;
+}
+
+function parseField(raw: string, field: (typeof FIELDS)[number]): number[] {
+  const values = new Set<number>();
+  for (const part of raw.split(',')) {
+    const [range, stepRaw] = part.split('/');
+    const step = stepRaw === undefined ? 1 : Number(stepRaw);
+    if (!Number.isInteger(step) || step < 1) throw new CronParseError(`Invalid step in ${field.name}: ${part}`);
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, field);
+      end = parseValue(to, field);
+      if (end < start) throw new CronParseError(`Invalid range in ${field.name}: ${range}`);
+    } else {
+      start = parseValue(range, field);
+      end = stepRaw === undefined ? start : field.max;
+    }
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return [...values].sort((a, b) => a - b);
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new CronParseError('Use five fields: minute hour day-of-month month day-of-week');
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseField(part, FIELDS[i]));
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek: [...new Set(daysOfWeek.map(d => d % 7))].sort((a, b) => a - b),
+    dayOfMonthRestricted: !parts[2].startsWith('*'),
+    dayOfWeekRestricted: !parts[4].startsWith('*'),
+  };
+}
+
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.includes(date.getUTCDate());
+  const dowMatch = schedule.daysOfWeek.includes(date.getUTCDay());
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) return domMatch || dowMatch;
+  if (schedule.dayOfMonthRestricted) return domMatch;
+  if (schedule.dayOfWeekRestricted) return dowMatch;
+  return true;
+}
+
+/** First time strictly after `after` that the schedule fires, or null when it never does */
+export function nextCronRun(schedule: CronSchedule | string, after: Date): Date | null {
+  const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  // Start at the next whole minute
+  const start = new Date(Math.floor(after.getTime() / 60_000) * 60_000 + 60_000);
+  const limit = Date.UTC(start.getUTCFullYear() + SEARCH_YEARS, 0, 1);
+
+  let day = Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+  for (; day < limit; day += 86_400_000) {
+    const date = new Date(day);
+    if (!cron.months.includes(date.getUTCMonth() + 1) || !dayMatches(cron, date)) continue;
+
+    const firstDay = day === Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+    for (const hour of cron.hours) {
+      if (firstDay && hour < start.getUTCHours()) continue;
+      for (const minute of cron.minutes) {
+        const time = day + hour * 3_600_000 + minute * 60_000;
+        if (time >= start.getTime()) return new Date(time);
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Why the expression can't be used for a report subscription, or null when it can.
+ * Reports go out at most once an hour, so the minute field must be a single value.
+ */
+export function validateReportCron(expression: string): string | null {
+  try {
+    const schedule = parseCron(expression);
+    if (schedule.minutes.length !== 1) return 'Reports can be sent at most once an hour; use a single minute';
+    if (!nextCronRun(schedule, new Date())) return 'This schedule never runs';
+    return null;
+  } catch (error) {
+    return error instanceof CronParseError ? error.message : 'Invalid schedule';
+  }
+}
+
+/** Cron expression for a preset at the given UTC time */
+export function presetReportCron(presetId: string, hour: number, minute: number = 0): string {
+  const preset = REPORT_CADENCE_PRESETS.find(p => p.id === presetId) ?? REPORT_CADENCE_PRESETS[0];
+  return `${minute} ${hour} ${preset.cron.split(' ').slice(2).join(' ')}`;
+}
+
+/** The preset and UTC time the expression was made from, if any */
+export function matchReportCronPreset(expression: string): { presetId: string; hour: number; minute: number } | null {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5 || !/^\d+$/.test(parts[0]) || !/^\d+$/.test(parts[1])) return null;
+  const days = parts.slice(2).join(' ');
+  const preset = REPORT_CADENCE_PRESETS.find(p => p.cron.split(' ').slice(2).join(' ') === days);
+  return preset ? { presetId: preset.id, hour: Number(parts[1]), minute: Number(parts[0]) } : null;
+}
+
+/** "Every Monday at 08:00 UTC", or the expression itself */
+export function describeReportCron(expression: string): string {
+  const match = matchReportCronPreset(expression);
+  if (!match) return `${expression.trim()} (UTC)`;
+  const label = REPORT_CADENCE_PRESETS.find(p => p.id === match.presetId)!.label;
+  return `${label} at ${String(match.hour).padStart(2, '0')}:${String(match.minute).padStart(2, '0')} UTC`;
+}
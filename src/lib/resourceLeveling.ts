@@ -0,0 +1,364 @@
+/**
+ * Resource Leveling
+ *
+ * Proposes start/due dates so that no assignee exceeds their weekly capacity
+ * (team_members.capacity, hours/week) and every 'blocks' dependency (FS/SS/FF/SF + lag) still holds.
+ *
+ * Serial schedule generation: tasks are placed one at a time in dependency order
+ * (ties broken by priority, then by current planned date). Each task's estimated
+ * hours are poured into its assignee's remaining daily capacity, after existing
+ * schedule_blocks and out-of-scope tasks have been subtracted. Holidays and the
+ * assignee's time off have no capacity; lags count org working days.
+ */
+
+import { addDays, differenceInCalendarDays, format, parseISO, startOfDay } from 'date-fns';
+import type { TaskDependencyEdge } from '@/types/masterbook';
+import { DEFAULT_WORKING_CALENDAR, addWorkingDays, isWorkingDay, type WorkingCalendar } from '@/lib/workingCalendar';
+
+export interface TaskForLeveling {
+  id: string;
+  title: string;
+  projectId: string;
+  assigneeId?: string;
+  estimatedHours: number;
+  startDate?: string;
+  dueDate?: string;
+  status: string;
+  priority: string;
+}
+
+export interface MemberCapacity {
+  id: string;
+  /** Hours per week */
+  capacity: number;
+}
+
+export interface BusyBlock {
+  assigneeId: string | null;
+  startUtc: string;
+  endUtc: string;
+  sourceType: string;
+  sourceId: string | null;
+}
+
+export interface LevelingOptions {
+  /** First day the scheduler may place work (default: today) */
+  startFrom?: Date;
+  /** Org working calendar (default: Monday–Friday, 8h/day, no holidays) */
+  calendar?: WorkingCalendar;
+  /** Daily hours assumed for unassigned tasks (default: calendar hours per day) */
+  unassignedHoursPerDay?: number;
+  /** Never move a task earlier than its currently planned start (default: true) */
+  keepPlannedStart?: boolean;
+  /** Give up on a task if it cannot finish within this many days of startFrom (default: 365) */
+  horizonDays?: number;
+}
+
+export interface ScheduleChange {
+  taskId: string;
+  taskTitle: string;
+  projectId: string;
+  assigneeId?: string;
+  currentStart?: string;
+  currentDue?: string;
+  proposedStart: string;
+  proposedDue: string;
+  /** Calendar days the due date moves (positive = later) */
+  shiftDays: number;
+}
+
+export interface LevelingResult {
+  /** Tasks whose dates differ from the current plan */
+  changes: ScheduleChange[];
+  /** Tasks that could not be placed */
+  unscheduled: { taskId: string; taskTitle: string; reason: string }[];
+  /** Member-days over capacity in the current plan */
+  overloadedDaysBefore: number;
+  /** Member-days over capacity once changes are applied */
+  overloadedDaysAfter: number;
+}
+
+const EPSILON = 0.001;
+const priorityRank: Record<string, number> = { high: 0, medium: 1, low: 2 };
+
+const dayKey = (d: Date) => format(d, 'yyyy-MM-dd');
+
+type Load = Map<string, Map<string, number>>;
+
+function addLoad(load: Load, memberId: string, day: string, hours: number) {
+  const byDay = load.get(memberId) ?? new Map<string, number>();
+  byDay.set(day, (byDay.get(day) ?? 0) + hours);
+  load.set(memberId, byDay);
+}
+
+function getLoad(load: Load, memberId: string, day: string): number {
+  return load.get(memberId)?.get(day) ?? 0;
+}
+
+/** Spread hours evenly over the working days between start and due (inclusive). */
+function spreadHours(
+  task: TaskForLeveling,
+  calendar: WorkingCalendar,
+  load: Load
+) {
+  if (!task.assigneeId || (!task.startDate && !task.dueDate)) return;
+  const start = parseISO(task.startDate ?? task.dueDate!);
+  const end = parseISO(task.dueDate ?? task.startDate!);
+  const days: string[] = [];
+  for (let d = start; d <= end; d = addDays(d, 1)) {
+    if (isWorkingDay(calendar, d, task.assigneeId)) days.push(dayKey(d));
+  }
+  if (days.length === 0) days.push(dayKey(end));
+  const perDay = Math.max(1, task.estimatedHours || 1) / days.length;
+  for (const day of days) addLoad(load, task.assigneeId, day, perDay);
+}
+
+/** Hours of busy time per assignee per day from schedule blocks. */
+function busyLoad(blocks: BusyBlock[]): Load {
+  const load: Load = new Map();
+  for (const b of blocks) {
+    if (!b.assigneeId) continue;
+    const start = new Date(b.startUtc);
+    const end = new Date(b.endUtc);
+    for (let day = startOfDay(start); day < end; day = addDays(day, 1)) {
+      const next = addDays(day, 1);
+      const overlap = Math.min(end.getTime(), next.getTime()) - Math.max(start.getTime(), day.getTime());
+      if (overlap > 0) addLoad(load, b.assigneeId, dayKey(day), overlap / 3_600_000);
+    }
+  }
+  return load;
+}
+
+function countOverloadedDays(
+  load: Load,
+  dailyCapacity: (memberId: string) => number | null
+): number {
+  let count = 0;
+  for (const [memberId, byDay] of load) {
+    const cap = dailyCapacity(memberId);
+    if (cap === null) continue;
+    for (const hours of byDay.values()) {
+      if (hours > cap + EPSILON) count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Propose a capacity-feasible schedule for the tasks in scope.
+ * Tasks outside `scopeTaskIds` (and done tasks) keep their dates and count as existing load.
+ */
+export function levelResources(
+  tasks: TaskForLeveling[],
+  edges: TaskDependencyEdge[],
+  members: MemberCapacity[],
+  blocks: BusyBlock[],
+  scopeTaskIds: Set<string>,
+  options: LevelingOptions = {}
+): LevelingResult {
+  const startFrom = startOfDay(options.startFrom ?? new Date());
+  const calendar = options.calendar ?? DEFAULT_WORKING_CALENDAR;
+  const unassignedHoursPerDay = options.unassignedHoursPerDay ?? calendar.hoursPerDay;
+  const keepPlannedStart = options.keepPlannedStart ?? true;
+  const horizonDays = options.horizonDays ?? 365;
+
+  const capacityById = new Map(members.map((m) => [m.id, m.capacity]));
+  const dailyCapacity = (memberId: string): number | null => {
+    const weekly = capacityById.get(memberId);
+    if (!weekly || weekly <= 0) return null;
+    return weekly / calendar.workingDays.length;
+  };
+
+  const taskMap = new Map(tasks.map((t) => [t.id, t]));
+  const toSchedule = tasks.filter((t) => scopeTaskIds.has(t.id) && t.status !== 'done');
+  const toScheduleIds = new Set(toSchedule.map((t) => t.id));
+
+  // Blocks booked for tasks being rescheduled move with them when the plan is applied (planReschedule
+  // shifts them with the task's start, so only for tasks that have one), and blocks of tasks whose
+  // estimate is spread over their dates below would count the same work twice: neither is busy time.
+  const movingIds = new Set(toSchedule.filter((t) => t.startDate).map((t) => t.id));
+  const estimatedIds = new Set(
+    tasks.filter((t) => t.status !== 'done' && t.assigneeId && (t.startDate || t.dueDate)).map((t) => t.id)
+  );
+  const fixedBlocks = blocks.filter(
+    (b) => !(b.sourceType === 'task' && b.sourceId && (movingIds.has(b.sourceId) || estimatedIds.has(b.sourceId)))
+  );
+
+  // Current plan (for the before/after comparison) and the fixed load the scheduler must respect.
+  const beforeLoad = busyLoad(fixedBlocks);
+  const fixedLoad = busyLoad(fixedBlocks);
+  for (const t of tasks) {
+    if (t.status === 'done') continue;
+    spreadHours(t, calendar, beforeLoad);
+    if (!toScheduleIds.has(t.id)) spreadHours(t, calendar, fixedLoad);
+  }
+
+  // Dependency graph restricted to 'blocks' edges.
+  const incoming = new Map<string, TaskDependencyEdge[]>();
+  const succs = new Map<string, string[]>();
+  for (const e of edges) {
+    if (e.type !== 'blocks') continue;
+    if (!taskMap.has(e.predecessorTaskId) || !taskMap.has(e.successorTaskId)) continue;
+    incoming.set(e.successorTaskId, [...(incoming.get(e.successorTaskId) ?? []), e]);
+    succs.set(e.predecessorTaskId, [...(succs.get(e.predecessorTaskId) ?? []), e.successorTaskId]);
+  }
+
+  // Start/finish day of every task placed so far (fixed tasks use their current dates).
+  const started = new Map<string, Date>();
+  const finish = new Map<string, Date>();
+  for (const t of tasks) {
+    if (toScheduleIds.has(t.id)) continue;
+    const start = t.startDate ?? t.dueDate;
+    const due = t.dueDate ?? t.startDate;
+    if (start && due) {
+      started.set(t.id, parseISO(start));
+      finish.set(t.id, parseISO(due));
+    }
+  }
+
+  const plannedDate = (t: TaskForLeveling) => t.startDate ?? t.dueDate ?? '9999-12-31';
+  const compare = (a: TaskForLeveling, b: TaskForLeveling) =>
+    (priorityRank[a.priority] ?? 1) - (priorityRank[b.priority] ?? 1) ||
+    plannedDate(a).localeCompare(plannedDate(b)) ||
+    a.title.localeCompare(b.title);
+
+  // Kahn's algorithm over in-scope tasks; out-of-scope predecessors are already "placed".
+  const pending = new Map<string, number>();
+  for (const t of toSchedule) {
+    pending.set(t.id, (incoming.get(t.id) ?? []).filter((e) => toScheduleIds.has(e.predecessorTaskId)).length);
+  }
+  const ready = toSchedule.filter((t) => pending.get(t.id) === 0);
+
+  const result: LevelingResult = {
+    changes: [],
+    unscheduled: [],
+    overloadedDaysBefore: countOverloadedDays(beforeLoad, dailyCapacity),
+    overloadedDaysAfter: 0,
+  };
+  const afterLoad = fixedLoad;
+  const placed = new Set<string>();
+
+  while (ready.length > 0) {
+    ready.sort(compare);
+    const task = ready.shift()!;
+    placed.add(task.id);
+
+    let earliest = startFrom;
+    if (keepPlannedStart && task.startDate) {
+      const planned = parseISO(task.startDate);
+      if (planned > earliest) earliest = planned;
+    }
+    // FS/SS bound the start; FF/SF bound the finish.
+    let minFinish: Date | null = null;
+    let blockedByUnplaced = false;
+    for (const e of incoming.get(task.id) ?? []) {
+      const predStart = started.get(e.predecessorTaskId);
+      const predFinish = finish.get(e.predecessorTaskId);
+      if (!predStart || !predFinish) {
+        if (toScheduleIds.has(e.predecessorTaskId)) blockedByUnplaced = true;
+        continue;
+      }
+      let startBound: Date | null = null;
+      let finishBound: Date | null = null;
+      switch (e.linkType) {
+        case 'SS':
+          startBound = addWorkingDays(calendar, predStart, e.lagDays);
+          break;
+        case 'FF':
+          finishBound = addWorkingDays(calendar, predFinish, e.lagDays);
+          break;
+        case 'SF':
+          finishBound = addWorkingDays(calendar, predStart, e.lagDays - 1);
+          break;
+        default:
+          startBound = addWorkingDays(calendar, predFinish, e.lagDays + 1);
+      }
+      if (startBound && startBound > earliest) earliest = startBound;
+      if (finishBound && (!minFinish || finishBound > minFinish)) minFinish = finishBound;
+    }
+
+    const memberCap = task.assigneeId ? dailyCapacity(task.assigneeId) : null;
+    const assigneeId = memberCap !== null ? task.assigneeId! : null;
+
+    const place = (from: Date) => {
+      let remaining = Math.max(1, task.estimatedHours || 1);
+      let first: Date | null = null;
+      let last: Date | null = null;
+      const taken: [string, number][] = [];
+      for (let i = 0, day = from; i < horizonDays && remaining > EPSILON; i++, day = addDays(day, 1)) {
+        if (!isWorkingDay(calendar, day, task.assigneeId)) continue;
+        const key = dayKey(day);
+        const available = assigneeId
+          ? memberCap! - getLoad(afterLoad, assigneeId, key)
+          : unassignedHoursPerDay;
+        if (available <= EPSILON) continue;
+        const take = Math.min(available, remaining);
+        remaining -= take;
+        taken.push([key, take]);
+        first ??= day;
+        last = day;
+      }
+      return { remaining, first, last, taken };
+    };
+
+    let placement = blockedByUnplaced ? null : place(earliest);
+    // Finish-bound links: push the start out until the finish lands on or after the bound.
+    for (let attempt = 0; placement?.last && minFinish && placement.last < minFinish && attempt < 20; attempt++) {
+      earliest = addDays(earliest, differenceInCalendarDays(minFinish, placement.last));
+      placement = place(earliest);
+    }
+    const first = placement?.first ?? null;
+    const last = placement?.last ?? null;
+
+    if (!placement || placement.remaining > EPSILON || !first || !last) {
+      result.unscheduled.push({
+        taskId: task.id,
+        taskTitle: task.title,
+        reason: blockedByUnplaced
+          ? 'A predecessor could not be scheduled'
+          : `Not enough capacity within ${horizonDays} days`,
+      });
+    } else {
+      if (assigneeId) for (const [key, hours] of placement.taken) addLoad(afterLoad, assigneeId, key, hours);
+      finish.set(task.id, last);
+
+      // A task already in progress keeps the start it actually had.
+      const proposedStart =
+        task.status === 'in-progress' && task.startDate && parseISO(task.startDate) < first
+          ? task.startDate
+          : dayKey(first);
+      const proposedDue = dayKey(last);
+      started.set(task.id, parseISO(proposedStart));
+      if (proposedStart !== task.startDate || proposedDue !== task.dueDate) {
+        result.changes.push({
+          taskId: task.id,
+          taskTitle: task.title,
+          projectId: task.projectId,
+          assigneeId: task.assigneeId,
+          currentStart: task.startDate,
+          currentDue: task.dueDate,
+          proposedStart,
+          proposedDue,
+          shiftDays: task.dueDate ? differenceInCalendarDays(last, parseISO(task.dueDate)) : 0,
+        });
+      }
+    }
+
+    for (const s of succs.get(task.id) ?? []) {
+      if (!pending.has(s)) continue;
+      const left = pending.get(s)! - 1;
+      pending.set(s, left);
+      if (left === 0) ready.push(taskMap.get(s)!);
+    }
+  }
+
+  // Anything never released by Kahn's algorithm sits on a dependency cycle.
+  for (const t of toSchedule) {
+    if (!placed.has(t.id)) {
+      result.unscheduled.push({ taskId: t.id, taskTitle: t.title, reason: 'Circular dependency' });
+    }
+  }
+
+  result.overloadedDaysAfter = countOverloadedDays(afterLoad, dailyCapacity);
+  return result;
+}
@@ -0,0 +1,297 @@
+/**
+ * Risk Scoring – Masterbook "Uncertainty Brings Opportunity".
+ *
+ * Risks are scored probability × impact on 1–5 scales (score 1–25), once as identified
+ * (inherent) and once as expected after the mitigation plan (residual). Severity follows the
+ * inherent score with the same bands as the database trigger. A risk's current score is its
+ * inherent score while open, its residual score once mitigated and nothing once realized (it is
+ * a blocker then). Expected cost weighs the cost exposure by the probability's midpoint.
+ */
+
+import { addDays, differenceInCalendarDays, endOfDay, parseISO, startOfDay } from 'date-fns';
+import type { Program, Project } from '@/types/portfolio';
+import type {
+  PortfolioHealthSignal,
+  Risk,
+  RiskScoreHistoryEntry,
+  RiskScoreLevel,
+  RiskSeverity,
+  RiskStatus,
+} from '@/types/masterbook';
+import { toDateKey } from './workingCalendar';
+
+export const RISK_SCORE_LEVELS: RiskScoreLevel[] = [1, 2, 3, 4, 5];
+
+export const RISK_PROBABILITY_LABELS: Record<RiskScoreLevel, string> = {
+  1: 'Rare',
+  2: 'Unlikely',
+  3: 'Possible',
+  4: 'Likely',
+  5: 'Almost certain',
+};
+
+export const RISK_IMPACT_LABELS: Record<RiskScoreLevel, string> = {
+  1: 'Negligible',
+  2: 'Minor',
+  3: 'Moderate',
+  4: 'Major',
+  5: 'Severe',
+};
+
+/** Midpoint probability of each level, for expected cost */
+export const RISK_PROBABILITY_PERCENT: Record<RiskScoreLevel, number> = {
+  1: 0.1,
+  2: 0.3,
+  3: 0.5,
+  4: 0.7,
+  5: 0.9,
+};
+
+/** Scores given to risks that only have a severity (e.g. imported ones) */
+export const SEVERITY_DEFAULT_SCORES: Record<RiskSeverity, { probability: RiskScoreLevel; impact: RiskScoreLevel }> = {
+  low: { probability: 2, impact: 2 },
+  medium: { probability: 3, impact: 3 },
+  high: { probability: 4, impact: 4 },
+  critical: { probability: 5, impact: 5 },
+};
+
+export type RiskScoreBasis = 'inherent' | 'residual';
+
+type ScoredRisk = Pick<
+  Risk,
+  'status' | 'probability' | 'impact' | 'residualProbability' | 'residualImpact' | 'costExposure' | 'scheduleExposureDays'
+>;
+
+/** Same bands as public.risk_score_severity */
+export function scoreSeverity(score: number): RiskSeverity {
+  if (score >= 20) return 'critical';
+  if (score >= 12) return 'high';
+  if (score >= 5) return 'medium';
+  return 'low';
+}
+
+export const isOpenRisk = (status: RiskStatus) => status === 'identified' || status === 'active';
+
+/** Probability and impact for the basis; residual falls back to inherent when not assessed */
+export function riskLevels(risk: ScoredRisk, basis: RiskScoreBasis) {
+  if (basis === 'residual' && risk.residualProbability && risk.residualImpact) {
+    return { probability: risk.residualProbability, impact: risk.residualImpact };
+  }
+  return { probability: risk.probability, impact: risk.impact };
+}
+
+export function riskScore(risk: ScoredRisk, basis: RiskScoreBasis = 'inherent'): number {
+  const { probability, impact } = riskLevels(risk, basis);
+  return probability * impact;
+}
+
+/** Basis that describes the risk now: inherent while open, residual once mitigated; null once realized */
+export function currentBasis(status: RiskStatus): RiskScoreBasis | null {
+  if (status === 'realized') return null;
+  return status === 'mitigated' ? 'residual' : 'inherent';
+}
+
+export function currentRiskScore(risk: ScoredRisk): number {
+  const basis = currentBasis(risk.status);
+  return basis ? riskScore(risk, basis) : 0;
+}
+
+/** Cost exposure × probability on the current basis */
+export function expectedRiskCost(risk: ScoredRisk): number {
+  const basis = currentBasis(risk.status);
+  if (!basis || !risk.costExposure) return 0;
+  return risk.costExposure * RISK_PROBABILITY_PERCENT[riskLevels(risk, basis).probability];
+}
+
+/** Schedule exposure × probability on the current basis, in working days */
+export function expectedRiskDelay(risk: ScoredRisk): number {
+  const basis = currentBasis(risk.status);
+  if (!basis || !risk.scheduleExposureDays) return 0;
+  return risk.scheduleExposureDays * RISK_PROBABILITY_PERCENT[riskLevels(risk, basis).probability];
+}
+
+// --- Heat map ---
+
+export interface RiskHeatMapCell {
+  probability: RiskScoreLevel;
+  impact: RiskScoreLevel;
+  score: number;
+  severity: RiskSeverity;
+  riskIds: string[];
+}
+
+/**
+ * 5×5 grid of risks by probability and impact, rows from impact 5 down to 1 and columns from
+ * probability 1 to 5. Realized risks are left out; they are blockers now.
+ */
+export function buildRiskHeatMap(risks: (ScoredRisk & { id: string })[], basis: RiskScoreBasis): RiskHeatMapCell[][] {
+  const rows = [...RISK_SCORE_LEVELS].reverse().map((impact) =>
+    RISK_SCORE_LEVELS.map((probability) => ({
+      probability,
+      impact,
+      score: probability * impact,
+      severity: scoreSeverity(probability * impact),
+      riskIds: [] as string[],
+    }))
+  );
+  for (const risk of risks) {
+    if (risk.status === 'realized') continue;
+    const { probability, impact } = riskLevels(risk, basis);
+    rows[5 - impact][probability - 1].riskIds.push(risk.id);
+  }
+  return rows;
+}
+
+// --- Burndown ---
+
+export interface RiskBurndownPoint {
+  date: string;
+  /** Identified or active risks at the end of the day */
+  openRisks: number;
+  /** Sum of current scores (open: inherent, mitigated: residual) */
+  exposure: number;
+  /** Sum of the open part of it: the inherent score of identified/active risks */
+  openExposure: number;
+  expectedCost: number;
+}
+
+/**
+ * Risk exposure at the end of each day (or week, for ranges over 120 days) between `from` and
+ * `to`, replayed from the score history. Deleted risks have no history and don't appear.
+ */
+export function buildRiskBurndown(history: RiskScoreHistoryEntry[], from: Date, to: Date): RiskBurndownPoint[] {
+  const entries = [...history].sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+  const stepDays = differenceInCalendarDays(to, from) > 120 ? 7 : 1;
+  const latest = new Map<string, RiskScoreHistoryEntry>();
+  const points: RiskBurndownPoint[] = [];
+  let next = 0;
+
+  for (let day = startOfDay(from); day <= to; day = addDays(day, stepDays)) {
+    const cutoff = endOfDay(day).getTime();
+    while (next < entries.length && parseISO(entries[next].recordedAt).getTime() <= cutoff) {
+      latest.set(entries[next].riskId, entries[next]);
+      next++;
+    }
+    const point: RiskBurndownPoint = { date: toDateKey(day), openRisks: 0, exposure: 0, openExposure: 0, expectedCost: 0 };
+    for (const entry of latest.values()) {
+      const score = currentRiskScore(entry);
+      point.exposure += score;
+      point.expectedCost += expectedRiskCost(entry);
+      if (isOpenRisk(entry.status)) {
+        point.openRisks++;
+        point.openExposure += score;
+      }
+    }
+    point.expectedCost = Math.round(point.expectedCost);
+    points.push(point);
+  }
+  return points;
+}
+
+// --- Portfolio health ---
+
+const SIGNAL_RANK: Record<PortfolioHealthSignal['signal'], number> = {
+  on_track: 0,
+  at_risk: 1,
+  critical: 2,
+  blocked: 3,
+};
+
+/** Share of budget in expected risk cost that turns a project at risk / critical */
+const AT_RISK_COST_SHARE = 0.1;
+const CRITICAL_COST_SHARE = 0.25;
+
+interface RiskRollup {
+  openRisks: number;
+  critical: number;
+  high: number;
+  exposure: number;
+  expectedCost: number;
+  expectedDelayDays: number;
+  budget: number;
+}
+
+function rollup(risks: Risk[], budget: number): RiskRollup {
+  const totals: RiskRollup = { openRisks: 0, critical: 0, high: 0, exposure: 0, expectedCost: 0, expectedDelayDays: 0, budget };
+  for (const risk of risks) {
+    totals.exposure += currentRiskScore(risk);
+    totals.expectedCost += expectedRiskCost(risk);
+    if (!isOpenRisk(risk.status)) continue;
+    totals.openRisks++;
+    totals.expectedDelayDays = Math.max(totals.expectedDelayDays, expectedRiskDelay(risk));
+    const severity = scoreSeverity(riskScore(risk));
+    if (severity === 'critical') totals.critical++;
+    else if (severity === 'high') totals.high++;
+  }
+  return totals;
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+function rollupSignal(totals: RiskRollup): Pick<PortfolioHealthSignal, 'signal' | 'reason' | 'metric'> {
+  const costShare = totals.budget > 0 ? totals.expectedCost / totals.budget : 0;
+  const delay = Math.round(totals.expectedDelayDays * 10) / 10;
+  const metric =
+    `Exposure ${totals.exposure} · expected cost $${Math.round(totals.expectedCost).toLocaleString()}` +
+    (delay > 0 ? ` · expected slip up to ${delay}d` : '');
+  if (totals.critical > 0) {
+    return { signal: 'critical', reason: `${plural(totals.critical, 'critical risk')} open`, metric };
+  }
+  if (costShare >= CRITICAL_COST_SHARE) {
+    return { signal: 'critical', reason: `Expected risk cost is ${Math.round(costShare * 100)}% of budget`, metric };
+  }
+  if (totals.high > 0) {
+    return { signal: 'at_risk', reason: `${plural(totals.high, 'high risk')} open`, metric };
+  }
+  if (costShare >= AT_RISK_COST_SHARE) {
+    return { signal: 'at_risk', reason: `Expected risk cost is ${Math.round(costShare * 100)}% of budget`, metric };
+  }
+  return {
+    signal: 'on_track',
+    reason: totals.openRisks > 0 ? `${plural(totals.openRisks, 'open risk')}, none high` : 'No open risks',
+    metric,
+  };
+}
+
+/**
+ * Risk health of a portfolio, its programs and their projects, worst first within each level:
+ * critical when a critical risk is open or expected risk cost reaches 25% of budget, at risk for
+ * open high risks or 10% of budget, otherwise on track.
+ */
+export function buildRiskHealthSignals(
+  portfolioId: string,
+  risks: Risk[],
+  programs: Program[],
+  projects: Project[],
+  now: Date = new Date()
+): PortfolioHealthSignal[] {
+  const updatedAt = now.toISOString();
+  const portfolioPrograms = programs.filter((p) => p.portfolioId === portfolioId);
+  const byRank = (a: PortfolioHealthSignal, b: PortfolioHealthSignal) => SIGNAL_RANK[b.signal] - SIGNAL_RANK[a.signal];
+  const projectBudget = (p: Project) => p.allocatedBudget ?? p.budget ?? 0;
+
+  const programSignals: PortfolioHealthSignal[] = [];
+  const projectSignals: PortfolioHealthSignal[] = [];
+  for (const program of portfolioPrograms) {
+    const programProjects = projects.filter((p) => p.programId === program.id);
+    for (const project of programProjects) {
+      const totals = rollup(risks.filter((r) => r.projectId === project.id), projectBudget(project));
+      projectSignals.push({ portfolioId, programId: program.id, projectId: project.id, ...rollupSignal(totals), updatedAt });
+    }
+    const projectIds = new Set(programProjects.map((p) => p.id));
+    const budget = program.allocatedBudget ?? program.budget ?? programProjects.reduce((sum, p) => sum + projectBudget(p), 0);
+    const totals = rollup(risks.filter((r) => projectIds.has(r.projectId)), budget);
+    programSignals.push({ portfolioId, programId: program.id, ...rollupSignal(totals), updatedAt });
+  }
+
+  const programIds = new Set(portfolioPrograms.map((p) => p.id));
+  const portfolioProjectIds = new Set(projects.filter((p) => programIds.has(p.programId)).map((p) => p.id));
+  const portfolioBudget = portfolioPrograms.reduce((sum, p) => sum + (p.allocatedBudget ?? p.budget ?? 0), 0);
+  const portfolioTotals = rollup(risks.filter((r) => portfolioProjectIds.has(r.projectId)), portfolioBudget);
+
+  return [
+    { portfolioId, ...rollupSignal(portfolioTotals), updatedAt },
+    ...programSignals.sort(byRank),
+    ...projectSignals.sort(byRank),
+  ];
+}
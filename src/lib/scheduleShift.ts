@@ -0,0 +1,240 @@
+/**
+ * Schedule Shift
+ *
+ * Plans moving a task to new dates together with the downstream tasks its blocking links push
+ * out (via getDownstreamImpact) and the schedule blocks booked against each moved task. The plan
+ * is a plain before/after diff: it is shown for review, applied atomically, and undone by applying
+ * it in reverse.
+ */
+
+import { parseISO } from 'date-fns';
+import type { TaskDependencyEdge } from '@/types/masterbook';
+import type { Milestone } from '@/types/portfolio';
+import { getDownstreamImpact } from './criticalPath';
+import {
+  DEFAULT_WORKING_CALENDAR,
+  addWorkingDays,
+  workingDaysBetween,
+  type WorkingCalendar,
+} from './workingCalendar';
+
+export interface TaskForShift {
+  id: string;
+  title: string;
+  projectId: string;
+  estimatedHours: number;
+  startDate?: string;
+  dueDate?: string;
+  assigneeId?: string;
+  milestoneId?: string;
+}
+
+/** A schedule block booked for a task (schedule_blocks with source_type 'task'). */
+export interface LinkedBlock {
+  id: string;
+  taskId: string;
+  title: string;
+  assigneeId?: string;
+  startUtc: string;
+  endUtc: string;
+}
+
+export interface TaskDateChange {
+  taskId: string;
+  taskTitle: string;
+  projectId: string;
+  /** True for the task being moved; false for successors pushed out by it */
+  isRoot: boolean;
+  fromStart?: string;
+  fromDue?: string;
+  /** Only unset when undoing a shift of a task that had no dates */
+  toStart?: string;
+  toDue?: string;
+  /** Org working days the start moved by (negative = earlier) */
+  shiftDays: number;
+}
+
+export interface BlockShift {
+  blockId: string;
+  taskId: string;
+  title: string;
+  fromStartUtc: string;
+  fromEndUtc: string;
+  toStartUtc: string;
+  toEndUtc: string;
+}
+
+export interface MilestoneShiftImpact {
+  milestoneId: string;
+  title: string;
+  dueDate: string;
+  /** Latest due date of the milestone's tasks before / after the shift */
+  previousFinish?: string;
+  projectedFinish: string;
+  /** Projected finish is after the milestone's due date */
+  isLate: boolean;
+  /** It already was before the shift */
+  wasLate: boolean;
+}
+
+export interface SchedulePlan {
+  /** Unset for a plan of several independently chosen moves (see planReschedule) */
+  rootTaskId?: string;
+  taskChanges: TaskDateChange[];
+  blockChanges: BlockShift[];
+  milestoneImpacts: MilestoneShiftImpact[];
+}
+
+export interface PlanScheduleShiftOptions {
+  /** Also reschedule successors whose links the new dates would violate (default true) */
+  cascade?: boolean;
+  calendar?: WorkingCalendar;
+}
+
+const latestDue = (dates: (string | undefined)[]) =>
+  dates.reduce<string | undefined>((max, d) => (d && (!max || d > max) ? d : max), undefined);
+
+/** Blocks move by the same number of working days as their task's start, keeping time of day and length. */
+function shiftLinkedBlocks(taskChanges: TaskDateChange[], blocks: LinkedBlock[], calendar: WorkingCalendar): BlockShift[] {
+  const blockChanges: BlockShift[] = [];
+  const shiftByTask = new Map(taskChanges.map((c) => [c.taskId, c.shiftDays]));
+  for (const b of blocks) {
+    const shift = shiftByTask.get(b.taskId);
+    if (!shift) continue;
+    const start = new Date(b.startUtc);
+    const length = new Date(b.endUtc).getTime() - start.getTime();
+    const newStart = addWorkingDays(calendar, start, shift, b.assigneeId);
+    blockChanges.push({
+      blockId: b.id,
+      taskId: b.taskId,
+      title: b.title,
+      fromStartUtc: b.startUtc,
+      fromEndUtc: b.endUtc,
+      toStartUtc: newStart.toISOString(),
+      toEndUtc: new Date(newStart.getTime() + length).toISOString(),
+    });
+  }
+  return blockChanges;
+}
+
+/**
+ * Plan moving `taskId` to `dates`. Successors are only ever pushed later, keeping their
+ * working-day duration; tasks already clear of their predecessors stay put.
+ */
+export function planScheduleShift(
+  taskId: string,
+  dates: { startDate: string; dueDate: string },
+  tasks: TaskForShift[],
+  edges: TaskDependencyEdge[],
+  blocks: LinkedBlock[],
+  milestones: Pick<Milestone, 'id' | 'title' | 'dueDate'>[],
+  { cascade = true, calendar = DEFAULT_WORKING_CALENDAR }: PlanScheduleShiftOptions = {}
+): SchedulePlan {
+  const taskMap = new Map(tasks.map((t) => [t.id, t]));
+  const taskChanges: TaskDateChange[] = [];
+
+  const pushChange = (t: TaskForShift, toStart: string, toDue: string, isRoot: boolean) => {
+    if (t.startDate === toStart && t.dueDate === toDue) return;
+    taskChanges.push({
+      taskId: t.id,
+      taskTitle: t.title,
+      projectId: t.projectId,
+      isRoot,
+      fromStart: t.startDate,
+      fromDue: t.dueDate,
+      toStart,
+      toDue,
+      shiftDays: t.startDate ? workingDaysBetween(calendar, parseISO(t.startDate), parseISO(toStart)) : 0,
+    });
+  };
+
+  const root = taskMap.get(taskId);
+  if (root) pushChange(root, dates.startDate, dates.dueDate, true);
+
+  if (root && cascade) {
+    const downstream = getDownstreamImpact(taskId, edges, tasks, () => [], { rootDates: dates, calendar });
+    for (const d of downstream) {
+      const t = taskMap.get(d.taskId);
+      if (t && d.suggestedNewStart && d.suggestedNewDue) pushChange(t, d.suggestedNewStart, d.suggestedNewDue, false);
+    }
+  }
+
+  const blockChanges = shiftLinkedBlocks(taskChanges, blocks, calendar);
+
+  // A milestone finishes with its latest task; flag those whose finish moves.
+  const newDueByTask = new Map(taskChanges.map((c) => [c.taskId, c.toDue]));
+  const touchedMilestones = new Set(
+    taskChanges.map((c) => taskMap.get(c.taskId)?.milestoneId).filter((id): id is string => !!id)
+  );
+  const milestoneImpacts: MilestoneShiftImpact[] = [];
+  for (const m of milestones) {
+    if (!touchedMilestones.has(m.id)) continue;
+    const milestoneTasks = tasks.filter((t) => t.milestoneId === m.id);
+    const previousFinish = latestDue(milestoneTasks.map((t) => t.dueDate));
+    const projectedFinish = latestDue(milestoneTasks.map((t) => newDueByTask.get(t.id) ?? t.dueDate));
+    if (!projectedFinish || projectedFinish === previousFinish) continue;
+    milestoneImpacts.push({
+      milestoneId: m.id,
+      title: m.title,
+      dueDate: m.dueDate,
+      previousFinish,
+      projectedFinish,
+      isLate: projectedFinish > m.dueDate,
+      wasLate: !!previousFinish && previousFinish > m.dueDate,
+    });
+  }
+
+  return { rootTaskId: taskId, taskChanges, blockChanges, milestoneImpacts };
+}
+
+/** A task moved to dates chosen for it alone, e.g. by resource leveling. */
+export interface TaskReschedule {
+  taskId: string;
+  taskTitle: string;
+  projectId: string;
+  fromStart?: string;
+  fromDue?: string;
+  toStart: string;
+  toDue: string;
+}
+
+/**
+ * Plan writing a set of task moves, and the schedule blocks booked against those tasks, as one
+ * schedule change, so it is applied atomically and undone like a shift. Successors are not
+ * cascaded: the moves are expected to respect the links already.
+ */
+export function planReschedule(
+  changes: TaskReschedule[],
+  blocks: LinkedBlock[],
+  { calendar = DEFAULT_WORKING_CALENDAR }: Pick<PlanScheduleShiftOptions, 'calendar'> = {}
+): SchedulePlan {
+  const taskChanges: TaskDateChange[] = changes.map((c) => ({
+    ...c,
+    isRoot: true,
+    shiftDays: c.fromStart ? workingDaysBetween(calendar, parseISO(c.fromStart), parseISO(c.toStart)) : 0,
+  }));
+  return { taskChanges, blockChanges: shiftLinkedBlocks(taskChanges, blocks, calendar), milestoneImpacts: [] };
+}
+
+/** The plan that restores what `plan` changed. */
+export function invertSchedulePlan(plan: SchedulePlan): SchedulePlan {
+  return {
+    ...plan,
+    taskChanges: plan.taskChanges.map((c) => ({
+      ...c,
+      fromStart: c.toStart,
+      fromDue: c.toDue,
+      toStart: c.fromStart,
+      toDue: c.fromDue,
+      shiftDays: -c.shiftDays,
+    })),
+    blockChanges: plan.blockChanges.map((b) => ({
+      ...b,
+      fromStartUtc: b.toStartUtc,
+      fromEndUtc: b.toEndUtc,
+      toStartUtc: b.fromStartUtc,
+      toEndUtc: b.fromEndUtc,
+    })),
+    milestoneImpacts: [],
+  };
+}
@@ -4,3 +4,6 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+/** Number typed into an optional input; blank means no value */
+export const optionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
@@ -0,0 +1,117 @@
+/**
+ * Outgoing webhooks – request signing and the retry schedule.
+ *
+ * Imported by the deliver-webhooks edge function, so it has no imports. Each delivery is a POST
+ * of the JSON event with these headers:
+ *
+ *   Webhook-Id          delivery id (a replay gets a new one)
+ *   Webhook-Event       event type, e.g. task_created
+ *   Webhook-Timestamp   unix seconds when the request was signed
+ *   Webhook-Signature   v1=<hex HMAC-SHA256 of "<timestamp>.<body>" keyed with the subscription secret>
+ *
+ * Receivers should recompute the signature over the raw body, compare it in constant time and
+ * reject timestamps more than a few minutes old. The event id in the body is stable across
+ * retries and replays, so it can be used to drop duplicates.
+ */
+
+/** Attempts before a delivery is marked failed */
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+
+// Wait after each failed attempt: 1 min, 5 min, 30 min, 2 h, 12 h
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 720];
+
+/** Minutes to wait after the given (1-based) failed attempt, or null when it was the last one */
+export function webhookRetryDelayMinutes(attempt: number): number | null {
+  if (attempt >= WEBHOOK_MAX_ATTEMPTS) return null;
+  return RETRY_DELAYS_MINUTES[Math.min(attempt, RETRY_DELAYS_MINUTES.length) - 1];
+}
+
+/** Webhook-Signature header value for a body signed at `timestamp` (unix seconds) */
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  const hex = Array.from(new Uint8Array(signature), (b) => b.toString(16).padStart(2, '0')).join('');
+  return `v1=${hex}`;
+}
+
+// Endpoints are called from inside the platform, so they must not reach private networks. Addresses
+// in these ranges (and host names that only resolve locally) are refused when a subscription is saved
+// and again, after resolving the host, before each delivery.
+const PRIVATE_IPV4_RANGES: Array<[number, number, number, number, number]> = [
+  [0, 0, 0, 0, 8], // "this" network
+  [10, 0, 0, 0, 8],
+  [100, 64, 0, 0, 10], // carrier-grade NAT
+  [127, 0, 0, 0, 8], // loopback
+  [169, 254, 0, 0, 16], // link-local, cloud metadata
+  [172, 16, 0, 0, 12],
+  [192, 0, 0, 0, 24],
+  [192, 168, 0, 0, 16],
+  [198, 18, 0, 0, 15], // benchmarking
+  [224, 0, 0, 0, 4], // multicast
+  [240, 0, 0, 0, 4], // reserved, broadcast
+];
+
+const LOCAL_HOST_SUFFIXES = ['.localhost', '.local', '.internal', '.lan', '.home.arpa'];
+
+function parseIPv4(text: string): number[] | null {
+  if (!/^\d{1,3}(\.\d{1,3}){3}$/.test(text)) return null;
+  const parts = text.split('.').map(Number);
+  return parts.every((p) => p <= 255) ? parts : null;
+}
+
+function isPrivateIPv4(parts: number[]): boolean {
+  const value = ((parts[0] << 24) | (parts[1] << 16) | (parts[2] << 8) | parts[3]) >>> 0;
+  return PRIVATE_IPV4_RANGES.some(([a, b, c, d, bits]) => {
+    const base = ((a << 24) | (b << 16) | (c << 8) | d) >>> 0;
+    const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+    return ((value & mask) >>> 0) === base;
+  });
+}
+
+/** The eight 16-bit groups of an IPv6 address, or null when it isn't one */
+function parseIPv6(text: string): number[] | null {
+  let address = text;
+  const groups: number[] = [];
+  const ipv4 = /(\d{1,3}(\.\d{1,3}){3})$/.exec(address);
+  if (ipv4) {
+    const parts = parseIPv4(ipv4[1]);
+    if (!parts) return null;
+    address = address.slice(0, -ipv4[1].length) + `${((parts[0] << 8) | parts[1]).toString(16)}:${((parts[2] << 8) | parts[3]).toString(16)}`;
+  }
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+  for (const group of [...head, ...Array(missing).fill('0'), ...tail]) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+    groups.push(parseInt(group, 16));
+  }
+  return groups;
+}
+
+function isPrivateIPv6(groups: number[]): boolean {
+  const embedded = [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff];
+  if (groups.slice(0, 6).every((g) => g === 0)) return true; // unspecified, loopback, IPv4-compatible
+  if (groups.slice(0, 5).every((g) => g === 0) && groups[5] === 0xffff) return isPrivateIPv4(embedded); // IPv4-mapped
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((g) => g === 0)) return isPrivateIPv4(embedded); // NAT64
+  return (groups[0] & 0xfe00) === 0xfc00 || (groups[0] & 0xffc0) === 0xfe80 || (groups[0] & 0xff00) === 0xff00;
+}
+
+/** True for loopback, private, link-local and other non-public IPv4 and IPv6 addresses */
+export function isPrivateAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4) return isPrivateIPv4(ipv4);
+  const ipv6 = parseIPv6(address.replace(/^\[|\]$/g, '').replace(/%.*$/, ''));
+  return ipv6 ? isPrivateIPv6(ipv6) : false;
+}
+
+/** True when a URL host (as URL#hostname gives it) is a private address or a name that only resolves locally */
+export function isPrivateWebhookHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  if (parseIPv4(host) || host.startsWith('[')) return isPrivateAddress(host);
+  if (/^[\d.]+$/.test(host)) return true;
+  return host === 'localhost' || !host.includes('.') || LOCAL_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix));
+}
@@ -0,0 +1,73 @@
+/**
+ * Outgoing webhooks – the events a subscription can choose from (every ActivityType).
+ * Signing and retries are in ./webhookDelivery.
+ */
+
+import type { ActivityCategory, ActivityType } from './activityLogger';
+
+export interface WebhookEventDefinition {
+  label: string;
+  category: ActivityCategory;
+}
+
+/** Every ActivityType can be subscribed to */
+export const WEBHOOK_EVENTS: Record<ActivityType, WebhookEventDefinition> = {
+  task_created: { label: 'Task created', category: 'tasks' },
+  task_updated: { label: 'Task updated', category: 'tasks' },
+  task_deleted: { label: 'Task deleted', category: 'tasks' },
+  task_completed: { label: 'Task completed', category: 'tasks' },
+  task_assigned: { label: 'Task assigned', category: 'tasks' },
+  subtask_added: { label: 'Subtask added', category: 'tasks' },
+  subtask_completed: { label: 'Subtask completed', category: 'tasks' },
+  subtask_deleted: { label: 'Subtask deleted', category: 'tasks' },
+  project_created: { label: 'Project created', category: 'projects' },
+  project_updated: { label: 'Project updated', category: 'projects' },
+  project_deleted: { label: 'Project deleted', category: 'projects' },
+  program_created: { label: 'Program created', category: 'programs' },
+  program_updated: { label: 'Program updated', category: 'programs' },
+  program_deleted: { label: 'Program deleted', category: 'programs' },
+  portfolio_created: { label: 'Portfolio created', category: 'portfolios' },
+  portfolio_updated: { label: 'Portfolio updated', category: 'portfolios' },
+  portfolio_deleted: { label: 'Portfolio deleted', category: 'portfolios' },
+  milestone_created: { label: 'Milestone created', category: 'milestones' },
+  milestone_updated: { label: 'Milestone updated', category: 'milestones' },
+  milestone_deleted: { label: 'Milestone deleted', category: 'milestones' },
+  team_member_added: { label: 'Team member added', category: 'team' },
+  team_member_removed: { label: 'Team member removed', category: 'team' },
+  contact_created: { label: 'Contact created', category: 'contacts' },
+  contact_updated: { label: 'Contact updated', category: 'contacts' },
+  contact_deleted: { label: 'Contact deleted', category: 'contacts' },
+  email_sent: { label: 'Email sent', category: 'email' },
+  permission_changed: { label: 'Permission changed', category: 'settings' },
+  role_assigned: { label: 'Role assigned', category: 'settings' },
+  settings_updated: { label: 'Settings updated', category: 'settings' },
+  report_exported: { label: 'Report exported', category: 'reports' },
+  login: { label: 'Signed in', category: 'auth' },
+  logout: { label: 'Signed out', category: 'auth' },
+};
+
+export const WEBHOOK_EVENT_TYPES = Object.keys(WEBHOOK_EVENTS) as ActivityType[];
+
+export const WEBHOOK_CATEGORY_LABELS: Record<ActivityCategory, string> = {
+  tasks: 'Tasks',
+  projects: 'Projects',
+  programs: 'Programs',
+  portfolios: 'Portfolios',
+  milestones: 'Milestones',
+  team: 'Team',
+  contacts: 'Contacts',
+  email: 'Email',
+  settings: 'Settings',
+  auth: 'Sign-in',
+  reports: 'Reports',
+};
+
+/** Event types by category, in catalogue order */
+export function webhookEventsByCategory(): { category: ActivityCategory; events: ActivityType[] }[] {
+  const groups = new Map<ActivityCategory, ActivityType[]>();
+  for (const type of WEBHOOK_EVENT_TYPES) {
+    const category = WEBHOOK_EVENTS[type].category;
+    groups.set(category, [...(groups.get(category) ?? []), type]);
+  }
+  return [...groups].map(([category, events]) => ({ category, events }));
+}
@@ -0,0 +1,824 @@
+/**
+ * Work Import
+ *
+ * Reads tasks from other tools into one shape (ImportedTask): CSV or Excel sheets with a column
+ * mapping, Jira CSV and JSON exports, Asana project JSON exports and Trello board JSON exports.
+ * buildWorkImport then maps source statuses onto the projects' task statuses (adding new ones to
+ * their custom_task_statuses), assignees onto team members (creating the missing ones), and links
+ * onto task dependencies, and returns the plan for import_work_items with a dry-run preview and
+ * an error report. Nothing here writes; rows with errors are left out of the plan.
+ */
+
+import { defaultTaskStatuses } from './workflow';
+import { csvCell } from './csv';
+import type { Project, TaskStatus, TeamMember } from '@/types/portfolio';
+
+export type WorkImportSource = 'csv' | 'jira' | 'asana' | 'trello';
+
+export const WORK_IMPORT_SOURCE_LABELS: Record<WorkImportSource, string> = {
+  csv: 'CSV / Excel',
+  jira: 'Jira',
+  asana: 'Asana',
+  trello: 'Trello',
+};
+
+/** Tasks in one import; larger migrations are split into several files */
+export const WORK_IMPORT_MAX_TASKS = 5000;
+
+export type ImportedLinkType = 'blocks' | 'blocked_by' | 'relates_to';
+
+export interface ImportedTask {
+  /** Where the task is in the file, for the error report: "Row 4", "PROJ-12", a card name */
+  ref: string;
+  /** Id in the source, which links refer to */
+  key: string;
+  /** Source project, board or sheet value; empty to use the import's default project */
+  project: string;
+  title: string;
+  description: string;
+  /** Source status, list or section name */
+  status: string;
+  priority: string;
+  assignee: string;
+  assigneeEmail: string;
+  /** Raw source values; checked by buildWorkImport */
+  startDate: string;
+  dueDate: string;
+  estimatedHours: number | null;
+  links: Array<{ key: string; type: ImportedLinkType }>;
+  subtasks: Array<{ title: string; completed: boolean }>;
+}
+
+export type WorkImportIssueLevel = 'error' | 'warning';
+
+/** One line of the error report; errors leave the row out, warnings import it with the change described */
+export interface WorkImportIssue {
+  level: WorkImportIssueLevel;
+  ref: string;
+  message: string;
+}
+
+export interface WorkImportDataset {
+  source: WorkImportSource;
+  /** Board, project or file name, suggested as the default project */
+  name: string;
+  tasks: ImportedTask[];
+  issues: WorkImportIssue[];
+}
+
+const emptyTask = (ref: string, key: string): ImportedTask => ({
+  ref,
+  key,
+  project: '',
+  title: '',
+  description: '',
+  status: '',
+  priority: '',
+  assignee: '',
+  assigneeEmail: '',
+  startDate: '',
+  dueDate: '',
+  estimatedHours: null,
+  links: [],
+  subtasks: [],
+});
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+
+// ============================================
+// Values
+// ============================================
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const isoDate = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+};
+
+const fullYear = (year: string) => (year.length === 2 ? 2000 + Number(year) : Number(year));
+
+/**
+ * yyyy-MM-dd of a date as tools export it: ISO dates and timestamps, Jira's 05/Mar/26 10:00 AM,
+ * 5 Mar 2026, and numeric dates (month first unless the first number can't be a month).
+ * Empty input gives '', an unreadable one null.
+ */
+export function parseImportDate(value: string): string | null {
+  const text = value.trim();
+  if (!text) return '';
+
+  let m = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/.exec(text);
+  if (m) return isoDate(Number(m[1]), Number(m[2]), Number(m[3]));
+
+  m = /^(\d{1,2})[/ -]([A-Za-z]{3})[A-Za-z]*[/ -](\d{2}|\d{4})\b/.exec(text);
+  if (m && MONTHS.includes(m[2].toLowerCase())) return isoDate(fullYear(m[3]), MONTHS.indexOf(m[2].toLowerCase()) + 1, Number(m[1]));
+
+  m = /^([A-Za-z]{3})[A-Za-z]* (\d{1,2}),? (\d{4})\b/.exec(text);
+  if (m && MONTHS.includes(m[1].toLowerCase())) return isoDate(Number(m[3]), MONTHS.indexOf(m[1].toLowerCase()) + 1, Number(m[2]));
+
+  m = /^(\d{1,2})[/.](\d{1,2})[/.](\d{2}|\d{4})\b/.exec(text);
+  if (m) {
+    const [a, b] = [Number(m[1]), Number(m[2])];
+    // Dots are day-first (31.12.2026); slashes month-first unless that can't be
+    const dayFirst = text.includes('.') || a > 12;
+    return isoDate(fullYear(m[3]), dayFirst ? b : a, dayFirst ? a : b);
+  }
+  return null;
+}
+
+const DURATION_UNITS: Record<string, number> = { w: 40, d: 8, h: 1, m: 1 / 60 };
+
+/** Hours of "4", "4.5", "2h 30m" or "1w 2d" (5-day weeks of 8 hours); null when unreadable */
+export function parseImportHours(value: string): number | null {
+  const text = value.trim().toLowerCase().replace(',', '.');
+  if (!text) return null;
+  if (/^\d+(\.\d+)?$/.test(text)) return Number(text);
+  const parts = [...text.matchAll(/(\d+(?:\.\d+)?)\s*([wdhm])[a-z]*/g)];
+  if (parts.length === 0 || parts.map((p) => p[0]).join('').length !== text.replace(/\s+/g, '').length) return null;
+  return Math.round(parts.reduce((sum, p) => sum + Number(p[1]) * DURATION_UNITS[p[2]], 0) * 100) / 100;
+}
+
+const splitList = (value: string) =>
+  value
+    .split(/[,;\n]/)
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+/** Plain text of an Atlassian Document Format node (Jira Cloud descriptions) */
+function adfText(node: unknown): string {
+  if (!node || typeof node !== 'object') return typeof node === 'string' ? node : '';
+  const { type, text, content } = node as { type?: string; text?: string; content?: unknown[] };
+  if (type === 'text') return text ?? '';
+  if (type === 'hardBreak') return '\n';
+  const inner = (content ?? []).map(adfText).join('');
+  return ['paragraph', 'heading', 'listItem', 'codeBlock', 'blockquote'].includes(type ?? '') ? `${inner}\n` : inner;
+}
+
+// ============================================
+// CSV / Excel with a column mapping
+// ============================================
+
+export type CsvImportField =
+  | 'key'
+  | 'title'
+  | 'description'
+  | 'project'
+  | 'status'
+  | 'priority'
+  | 'assignee'
+  | 'assigneeEmail'
+  | 'startDate'
+  | 'dueDate'
+  | 'estimatedHours'
+  | 'dependsOn';
+
+export const CSV_IMPORT_FIELDS: Array<{ id: CsvImportField; label: string; required?: boolean; aliases: string[] }> = [
+  { id: 'title', label: 'Title', required: true, aliases: ['title', 'name', 'summary', 'task', 'task name', 'card name'] },
+  { id: 'key', label: 'ID', aliases: ['id', 'key', 'task id', 'issue key', 'issue id', 'card id', 'gid'] },
+  { id: 'description', label: 'Description', aliases: ['description', 'notes', 'desc', 'details'] },
+  { id: 'project', label: 'Project', aliases: ['project', 'projects', 'project name', 'board'] },
+  { id: 'status', label: 'Status', aliases: ['status', 'state', 'stage', 'section', 'section/column', 'column', 'list'] },
+  { id: 'priority', label: 'Priority', aliases: ['priority', 'importance'] },
+  { id: 'assignee', label: 'Assignee', aliases: ['assignee', 'assigned to', 'owner', 'assignee name', 'member', 'members'] },
+  { id: 'assigneeEmail', label: 'Assignee email', aliases: ['assignee email', 'email', 'owner email'] },
+  { id: 'startDate', label: 'Start date', aliases: ['start date', 'start', 'start on', 'begin date'] },
+  { id: 'dueDate', label: 'Due date', aliases: ['due date', 'due', 'due on', 'deadline', 'end date', 'finish date'] },
+  { id: 'estimatedHours', label: 'Estimated hours', aliases: ['estimated hours', 'estimate', 'hours', 'effort', 'original estimate'] },
+  {
+    id: 'dependsOn',
+    label: 'Depends on (IDs)',
+    aliases: ['depends on', 'dependencies', 'blocked by', 'blocked by (dependencies)', 'predecessors'],
+  },
+];
+
+/** Column index per field; unmapped fields are left out */
+export type CsvColumnMapping = Partial<Record<CsvImportField, number>>;
+
+/** Mapping from header names, using each column once */
+export function guessCsvMapping(headers: string[]): CsvColumnMapping {
+  const mapping: CsvColumnMapping = {};
+  const used = new Set<number>();
+  const normalized = headers.map(normalize);
+  CSV_IMPORT_FIELDS.forEach((field) => {
+    const index = field.aliases.map((alias) => normalized.findIndex((h, i) => h === alias && !used.has(i))).find((i) => i >= 0);
+    if (index !== undefined) {
+      mapping[field.id] = index;
+      used.add(index);
+    }
+  });
+  return mapping;
+}
+
+/** Tasks from sheet rows (the first row being the headers) */
+export function csvRowsToTasks(rows: string[][], mapping: CsvColumnMapping, name: string): WorkImportDataset {
+  const issues: WorkImportIssue[] = [];
+  const cell = (row: string[], field: CsvImportField) => (mapping[field] === undefined ? '' : (row[mapping[field]!] ?? '').trim());
+
+  const tasks = rows.slice(1).map((row, i) => {
+    const ref = `Row ${i + 2}`;
+    const task = emptyTask(ref, cell(row, 'key') || ref);
+    task.title = cell(row, 'title');
+    task.description = cell(row, 'description');
+    task.project = cell(row, 'project');
+    task.status = cell(row, 'status');
+    task.priority = cell(row, 'priority');
+    task.assignee = cell(row, 'assignee');
+    task.assigneeEmail = cell(row, 'assigneeEmail');
+    task.startDate = cell(row, 'startDate');
+    task.dueDate = cell(row, 'dueDate');
+
+    const hours = cell(row, 'estimatedHours');
+    task.estimatedHours = parseImportHours(hours);
+    if (hours && task.estimatedHours === null) issues.push({ level: 'warning', ref, message: `Estimate "${hours}" isn't a number of hours and was left out` });
+
+    task.links = splitList(cell(row, 'dependsOn')).map((key) => ({ key, type: 'blocked_by' }));
+    return task;
+  });
+
+  return { source: 'csv', name, tasks, issues };
+}
+
+// ============================================
+// Jira
+// ============================================
+
+/** Jira's CSV export: "Issue key" and "Summary" columns */
+export const isJiraCsv = (headers: string[]) => {
+  const normalized = headers.map(normalize);
+  return normalized.includes('issue key') && normalized.includes('summary');
+};
+
+/** Tasks from a Jira CSV export; repeated columns (links, sub-tasks) are all read */
+export function jiraCsvToTasks(rows: string[][], name: string): WorkImportDataset {
+  const headers = rows[0]?.map((h) => h.trim()) ?? [];
+  const columns = (header: string) => headers.flatMap((h, i) => (h.toLowerCase() === header.toLowerCase() ? [i] : []));
+  const linkColumns = (pattern: RegExp) => headers.flatMap((h, i) => (pattern.test(h) ? [{ i, header: h }] : []));
+  const issues: WorkImportIssue[] = [];
+
+  const one = (row: string[], ...names: string[]) => {
+    for (const header of names) {
+      const value = columns(header).map((i) => row[i]?.trim()).find(Boolean);
+      if (value) return value;
+    }
+    return '';
+  };
+
+  const outward = linkColumns(/^outward issue link \((.+)\)$/i);
+  const inward = linkColumns(/^inward issue link \((.+)\)$/i);
+
+  const tasks = rows.slice(1).map((row, r) => {
+    const key = one(row, 'Issue key') || `Row ${r + 2}`;
+    const task = emptyTask(key, key);
+    task.title = one(row, 'Summary');
+    task.description = one(row, 'Description');
+    task.project = one(row, 'Project name', 'Project key');
+    task.status = one(row, 'Status');
+    task.priority = one(row, 'Priority');
+    task.assignee = one(row, 'Assignee');
+    task.startDate = one(row, 'Custom field (Start date)', 'Start date');
+    task.dueDate = one(row, 'Due date', 'Due Date');
+    // Original Estimate is exported in seconds
+    const estimate = one(row, 'Original Estimate', 'Original estimate');
+    task.estimatedHours = estimate && Number.isFinite(Number(estimate)) ? Math.round((Number(estimate) / 3600) * 100) / 100 : null;
+
+    outward.forEach(({ i, header }) => {
+      const other = row[i]?.trim();
+      if (other) task.links.push({ key: other, type: /\(blocks\)$/i.test(header) ? 'blocks' : 'relates_to' });
+    });
+    inward.forEach(({ i, header }) => {
+      const other = row[i]?.trim();
+      if (other) task.links.push({ key: other, type: /\(blocks\)$/i.test(header) ? 'blocked_by' : 'relates_to' });
+    });
+    return task;
+  });
+
+  return { source: 'jira', name, tasks, issues };
+}
+
+interface JiraIssueJson {
+  key?: string;
+  fields?: {
+    summary?: string;
+    description?: unknown;
+    status?: { name?: string };
+    priority?: { name?: string };
+    assignee?: { displayName?: string; emailAddress?: string } | null;
+    project?: { name?: string; key?: string };
+    duedate?: string | null;
+    startdate?: string | null;
+    timeoriginalestimate?: number | null;
+    issuelinks?: Array<{ type?: { name?: string }; inwardIssue?: { key?: string }; outwardIssue?: { key?: string } }>;
+  };
+}
+
+/** Issues of a Jira REST search result (or a plain array of issues) */
+function jiraJsonIssues(data: unknown): JiraIssueJson[] | null {
+  const list = Array.isArray(data) ? data : (data as { issues?: unknown })?.issues;
+  if (!Array.isArray(list) || list.length === 0) return null;
+  return list.every((issue) => issue && typeof issue === 'object' && 'key' in issue && 'fields' in issue) ? (list as JiraIssueJson[]) : null;
+}
+
+function jiraJsonToTasks(issues: JiraIssueJson[], name: string): WorkImportDataset {
+  const tasks = issues.map((issue) => {
+    const fields = issue.fields ?? {};
+    const key = issue.key ?? '';
+    const task = emptyTask(key, key);
+    task.title = fields.summary?.trim() ?? '';
+    task.description = (typeof fields.description === 'string' ? fields.description : adfText(fields.description)).trim();
+    task.project = fields.project?.name ?? fields.project?.key ?? '';
+    task.status = fields.status?.name ?? '';
+    task.priority = fields.priority?.name ?? '';
+    task.assignee = fields.assignee?.displayName ?? '';
+    task.assigneeEmail = fields.assignee?.emailAddress ?? '';
+    task.startDate = fields.startdate ?? '';
+    task.dueDate = fields.duedate ?? '';
+    task.estimatedHours = fields.timeoriginalestimate ? Math.round((fields.timeoriginalestimate / 3600) * 100) / 100 : null;
+    (fields.issuelinks ?? []).forEach((link) => {
+      const blocks = link.type?.name?.toLowerCase() === 'blocks';
+      if (link.outwardIssue?.key) task.links.push({ key: link.outwardIssue.key, type: blocks ? 'blocks' : 'relates_to' });
+      if (link.inwardIssue?.key) task.links.push({ key: link.inwardIssue.key, type: blocks ? 'blocked_by' : 'relates_to' });
+    });
+    return task;
+  });
+  return { source: 'jira', name, tasks, issues: [] };
+}
+
+// ============================================
+// Asana
+// ============================================
+
+interface AsanaTaskJson {
+  gid?: string;
+  name?: string;
+  notes?: string;
+  completed?: boolean;
+  resource_subtype?: string;
+  assignee?: { name?: string; email?: string } | null;
+  start_on?: string | null;
+  due_on?: string | null;
+  memberships?: Array<{ project?: { name?: string }; section?: { name?: string } }>;
+  dependencies?: Array<{ gid?: string }>;
+  dependents?: Array<{ gid?: string }>;
+  subtasks?: Array<{ name?: string; completed?: boolean }>;
+  custom_fields?: Array<{ name?: string; display_value?: string | null; enum_value?: { name?: string } | null }>;
+}
+
+/** Tasks of an Asana JSON export: { data: [task, …] } */
+function asanaJsonTasks(data: unknown): AsanaTaskJson[] | null {
+  const list = (data as { data?: unknown })?.data;
+  if (!Array.isArray(list) || list.length === 0) return null;
+  return list.every((task) => task && typeof task === 'object' && 'gid' in task && 'name' in task) ? (list as AsanaTaskJson[]) : null;
+}
+
+function asanaJsonToTasks(list: AsanaTaskJson[], name: string): WorkImportDataset {
+  // Section rows only group the tasks below them
+  const tasks = list.filter((item) => item.resource_subtype !== 'section').map((item) => {
+    const key = item.gid ?? '';
+    const task = emptyTask(item.name?.trim() || key, key);
+    const membership = item.memberships?.[0];
+    task.title = item.name?.trim() ?? '';
+    task.description = item.notes?.trim() ?? '';
+    task.project = membership?.project?.name ?? '';
+    // Completed tasks keep their section in Asana; here they're done
+    task.status = item.completed ? 'Completed' : membership?.section?.name ?? '';
+    const priority = item.custom_fields?.find((f) => f.name?.toLowerCase() === 'priority');
+    task.priority = priority?.enum_value?.name ?? priority?.display_value ?? '';
+    task.assignee = item.assignee?.name ?? '';
+    task.assigneeEmail = item.assignee?.email ?? '';
+    task.startDate = item.start_on ?? '';
+    task.dueDate = item.due_on ?? '';
+    (item.dependencies ?? []).forEach((d) => d.gid && task.links.push({ key: d.gid, type: 'blocked_by' }));
+    (item.dependents ?? []).forEach((d) => d.gid && task.links.push({ key: d.gid, type: 'blocks' }));
+    task.subtasks = (item.subtasks ?? []).filter((s) => s.name?.trim()).map((s) => ({ title: s.name!.trim(), completed: !!s.completed }));
+    return task;
+  });
+  return { source: 'asana', name, tasks, issues: [] };
+}
+
+// ============================================
+// Trello
+// ============================================
+
+interface TrelloBoardJson {
+  name?: string;
+  lists?: Array<{ id: string; name?: string }>;
+  members?: Array<{ id: string; fullName?: string; username?: string }>;
+  labels?: Array<{ id: string; name?: string }>;
+  checklists?: Array<{ id: string; idCard?: string; checkItems?: Array<{ name?: string; state?: string; pos?: number }> }>;
+  cards?: Array<{
+    id: string;
+    name?: string;
+    desc?: string;
+    idList?: string;
+    idMembers?: string[];
+    labels?: Array<{ name?: string }>;
+    start?: string | null;
+    due?: string | null;
+    dueComplete?: boolean;
+    closed?: boolean;
+    idChecklists?: string[];
+  }>;
+}
+
+const isTrelloBoard = (data: unknown): data is TrelloBoardJson =>
+  !!data && typeof data === 'object' && Array.isArray((data as TrelloBoardJson).cards) && Array.isArray((data as TrelloBoardJson).lists);
+
+const PRIORITY_WORDS = /^(highest|high|urgent|critical|medium|normal|low|lowest|p[0-4])$/i;
+
+function trelloBoardToTasks(board: TrelloBoardJson, name: string): WorkImportDataset {
+  const issues: WorkImportIssue[] = [];
+  const lists = new Map((board.lists ?? []).map((l) => [l.id, l.name ?? '']));
+  const members = new Map((board.members ?? []).map((m) => [m.id, m.fullName || m.username || '']));
+  const checklists = board.checklists ?? [];
+  const cards = board.cards ?? [];
+
+  const archived = cards.filter((c) => c.closed).length;
+  if (archived > 0) issues.push({ level: 'warning', ref: 'Board', message: `${archived} archived card${archived === 1 ? ' was' : 's were'} skipped` });
+
+  const tasks = cards
+    .filter((card) => !card.closed)
+    .map((card) => {
+      const task = emptyTask(card.name?.trim() || card.id, card.id);
+      task.title = card.name?.trim() ?? '';
+      task.description = card.desc?.trim() ?? '';
+      task.project = board.name ?? '';
+      task.status = lists.get(card.idList ?? '') ?? '';
+      task.priority = card.labels?.map((l) => l.name?.trim() ?? '').find((l) => PRIORITY_WORDS.test(l)) ?? '';
+      const cardMembers = (card.idMembers ?? []).map((id) => members.get(id)).filter((m): m is string => !!m);
+      task.assignee = cardMembers[0] ?? '';
+      if (cardMembers.length > 1) {
+        issues.push({ level: 'warning', ref: task.ref, message: `Has ${cardMembers.length} members; ${cardMembers[0]} becomes the assignee` });
+      }
+      task.startDate = card.start ?? '';
+      task.dueDate = card.due ?? '';
+      task.subtasks = checklists
+        .filter((c) => c.idCard === card.id)
+        .flatMap((c) => [...(c.checkItems ?? [])].sort((a, b) => (a.pos ?? 0) - (b.pos ?? 0)))
+        .filter((item) => item.name?.trim())
+        .map((item) => ({ title: item.name!.trim(), completed: item.state === 'complete' }));
+      return task;
+    });
+
+  return { source: 'trello', name: board.name || name, tasks, issues };
+}
+
+// ============================================
+// Detection
+// ============================================
+
+/** Tasks of a JSON export from Jira, Asana or Trello; throws for other JSON */
+export function jsonToWorkImport(text: string, fileName: string): WorkImportDataset {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  const name = fileName.replace(/\.[^.]+$/, '');
+  if (isTrelloBoard(data)) return trelloBoardToTasks(data, name);
+  const jira = jiraJsonIssues(data);
+  if (jira) return jiraJsonToTasks(jira, name);
+  const asana = asanaJsonTasks(data);
+  if (asana) return asanaJsonToTasks(asana, name);
+  throw new Error('Not a Jira, Asana or Trello JSON export');
+}
+
+// ============================================
+// Mapping
+// ============================================
+
+export type StatusTarget = { kind: 'existing'; id: string } | { kind: 'new' };
+
+export type MemberTarget = { kind: 'member'; id: string } | { kind: 'new' } | { kind: 'none' };
+
+export interface ImportAssignee {
+  /** Email when the source has one, else the name (lower case) */
+  key: string;
+  name: string;
+  email: string;
+  tasks: number;
+}
+
+const STATUS_SYNONYMS: Record<string, string[]> = {
+  todo: ['to do', 'todo', 'open', 'backlog', 'new', 'not started', 'selected for development', 'ready', 'planned', 'ideas'],
+  'in-progress': ['in progress', 'doing', 'started', 'active', 'in development', 'wip', 'working on it'],
+  review: ['review', 'in review', 'code review', 'qa', 'testing', 'in testing', 'verify', 'awaiting review'],
+  done: ['done', 'closed', 'resolved', 'complete', 'completed', 'finished', 'shipped', 'released'],
+};
+
+const assigneeKey = (task: Pick<ImportedTask, 'assignee' | 'assigneeEmail'>) =>
+  (task.assigneeEmail || task.assignee).trim().toLowerCase();
+
+/** Source statuses in order of first use, with their task counts */
+export function importStatuses(dataset: WorkImportDataset): Array<{ name: string; tasks: number }> {
+  const counts = new Map<string, number>();
+  dataset.tasks.forEach((t) => {
+    const name = t.status.trim();
+    if (name) counts.set(name, (counts.get(name) ?? 0) + 1);
+  });
+  return [...counts].map(([name, tasks]) => ({ name, tasks }));
+}
+
+/** Source assignees in order of first use */
+export function importAssignees(dataset: WorkImportDataset): ImportAssignee[] {
+  const byKey = new Map<string, ImportAssignee>();
+  dataset.tasks.forEach((t) => {
+    const key = assigneeKey(t);
+    if (!key) return;
+    const current = byKey.get(key);
+    if (current) current.tasks++;
+    else byKey.set(key, { key, name: t.assignee.trim() || t.assigneeEmail.split('@')[0], email: t.assigneeEmail.trim(), tasks: 1 });
+  });
+  return [...byKey.values()];
+}
+
+/** Same label or id, then a known synonym of a default status; otherwise a new status */
+export function suggestStatusTarget(status: string, options: TaskStatus[]): StatusTarget {
+  const name = normalize(status);
+  const exact = options.find((o) => normalize(o.label) === name || normalize(o.id) === name);
+  if (exact) return { kind: 'existing', id: exact.id };
+  const synonym = Object.entries(STATUS_SYNONYMS).find(([id, words]) => words.includes(name) && options.some((o) => o.id === id));
+  return synonym ? { kind: 'existing', id: synonym[0] } : { kind: 'new' };
+}
+
+/** Email, then name; otherwise a new team member */
+export function suggestMemberTarget(assignee: ImportAssignee, teamMembers: TeamMember[]): MemberTarget {
+  const byEmail = assignee.email && teamMembers.find((m) => m.email?.toLowerCase() === assignee.email.toLowerCase());
+  const byName = teamMembers.find((m) => normalize(m.name) === normalize(assignee.name));
+  const member = byEmail || byName;
+  return member ? { kind: 'member', id: member.id } : { kind: 'new' };
+}
+
+/** Statuses the mapping can target: the defaults and the custom statuses of the program's projects */
+export function importStatusOptions(projects: Project[]): TaskStatus[] {
+  const options = [...defaultTaskStatuses];
+  projects.forEach((p) => (p.customTaskStatuses ?? []).forEach((s) => !options.some((o) => o.id === s.id) && options.push(s)));
+  return options;
+}
+
+const importedPriority = (value: string) => {
+  const name = normalize(value);
+  if (!name) return 'medium';
+  if (/^(highest|high|urgent|critical|blocker|major|p0|p1)$/.test(name)) return 'high';
+  if (/^(lowest|low|minor|trivial|p3|p4)$/.test(name)) return 'low';
+  return 'medium';
+};
+
+const statusColor = (label: string): TaskStatus['color'] => {
+  const name = normalize(label);
+  if (STATUS_SYNONYMS.done.includes(name)) return 'success';
+  if (STATUS_SYNONYMS.review.includes(name)) return 'warning';
+  if (/block|hold|stuck|cancel/.test(name)) return 'destructive';
+  if (STATUS_SYNONYMS.todo.includes(name)) return 'muted';
+  return 'info';
+};
+
+const statusId = (label: string, taken: Set<string>) => {
+  const base = normalize(label).replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'status';
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  taken.add(id);
+  return id;
+};
+
+// ============================================
+// Plan & preview
+// ============================================
+
+/** Payload of import_work_items; tasks and projects are referenced by their keys in the plan */
+export interface WorkImportPlan {
+  program: { id: string | null; name: string; portfolio_id: string | null; portfolio_name: string | null };
+  members: Array<{ key: string; name: string; email: string | null }>;
+  projects: Array<{ key: string; id: string | null; name: string; custom_task_statuses: TaskStatus[] | null }>;
+  tasks: Array<{
+    key: string;
+    project_key: string;
+    title: string;
+    description: string | null;
+    status: string;
+    priority: string;
+    start_date: string | null;
+    due_date: string | null;
+    estimated_hours: number;
+    assignee_id: string | null;
+    /** A member created by the import */
+    assignee_key: string | null;
+    subtasks: Array<{ title: string; completed: boolean }>;
+  }>;
+  dependencies: Array<{ predecessor: string; successor: string; type: 'blocks' | 'relates_to' }>;
+}
+
+export interface WorkImportOptions {
+  /** Where the projects go: an existing program, or a new one in an existing or new portfolio */
+  program: WorkImportPlan['program'];
+  /** Projects already in the target program, matched by name */
+  projects: Project[];
+  teamMembers: TeamMember[];
+  /** Project for tasks without one */
+  defaultProject: string;
+  statusTargets: Record<string, StatusTarget>;
+  memberTargets: Record<string, MemberTarget>;
+}
+
+export interface WorkImportPreview {
+  plan: WorkImportPlan;
+  projects: Array<{ name: string; existing: boolean; tasks: number }>;
+  /** Statuses added to the projects' workflows */
+  statusesCreated: string[];
+  membersCreated: string[];
+  subtasks: number;
+  /** Errors and warnings, in file order; rows with errors are not imported */
+  issues: WorkImportIssue[];
+  skipped: number;
+}
+
+/** Drops the links that would close a cycle of blocking dependencies */
+function dropCycles(dependencies: WorkImportPlan['dependencies'], refs: Map<string, string>, issues: WorkImportIssue[]) {
+  const successors = new Map<string, string[]>();
+  const reaches = (from: string, to: string) => {
+    const seen = new Set<string>();
+    const stack = [from];
+    while (stack.length) {
+      const node = stack.pop()!;
+      if (node === to) return true;
+      if (seen.has(node)) continue;
+      seen.add(node);
+      stack.push(...(successors.get(node) ?? []));
+    }
+    return false;
+  };
+  return dependencies.filter((d) => {
+    if (d.type !== 'blocks') return true;
+    if (reaches(d.successor, d.predecessor)) {
+      issues.push({ level: 'warning', ref: refs.get(d.successor) ?? d.successor, message: `Link from ${refs.get(d.predecessor)} would create a dependency cycle and was skipped` });
+      return false;
+    }
+    successors.set(d.predecessor, [...(successors.get(d.predecessor) ?? []), d.successor]);
+    return true;
+  });
+}
+
+/** The dry run: what import_work_items will create, and why rows are left out */
+export function buildWorkImport(dataset: WorkImportDataset, options: WorkImportOptions): WorkImportPreview {
+  const issues: WorkImportIssue[] = [...dataset.issues];
+  const error = (ref: string, message: string) => issues.push({ level: 'error', ref, message });
+  const warn = (ref: string, message: string) => issues.push({ level: 'warning', ref, message });
+
+  if (dataset.tasks.length > WORK_IMPORT_MAX_TASKS) {
+    error('File', `${dataset.tasks.length} tasks is more than the ${WORK_IMPORT_MAX_TASKS} one import can take; split the file`);
+  }
+
+  // Rows that can be imported
+  const seenKeys = new Set<string>();
+  const accepted: Array<ImportedTask & { start: string | null; due: string | null }> = [];
+  dataset.tasks.slice(0, WORK_IMPORT_MAX_TASKS).forEach((task) => {
+    const problem = !task.title
+      ? 'Has no title'
+      : task.title.length > 500
+        ? 'Title is longer than 500 characters'
+        : seenKeys.has(task.key)
+          ? `ID "${task.key}" is used by an earlier row`
+          : null;
+    if (problem) {
+      error(task.ref, problem);
+      return;
+    }
+    seenKeys.add(task.key);
+
+    const start = parseImportDate(task.startDate);
+    const due = parseImportDate(task.dueDate);
+    if (start === null) warn(task.ref, `Start date "${task.startDate}" isn't a date and was left out`);
+    if (due === null) warn(task.ref, `Due date "${task.dueDate}" isn't a date and was left out`);
+    let startDate = start || null;
+    const dueDate = due || null;
+    if (startDate && dueDate && startDate > dueDate) {
+      warn(task.ref, 'Starts after its due date; the start date was left out');
+      startDate = null;
+    }
+    let estimatedHours = task.estimatedHours;
+    if (estimatedHours !== null && (estimatedHours < 0 || estimatedHours > 10_000)) {
+      warn(task.ref, `Estimate of ${estimatedHours} hours is out of range and was left out`);
+      estimatedHours = null;
+    }
+    accepted.push({ ...task, estimatedHours, start: startDate, due: dueDate });
+  });
+
+  // Projects: by name within the program
+  const projectName = (t: ImportedTask) => (t.project || options.defaultProject).trim() || 'Imported tasks';
+  const projectNames = new Map<string, string>();
+  accepted.forEach((t) => {
+    const name = projectName(t);
+    if (!projectNames.has(name.toLowerCase())) projectNames.set(name.toLowerCase(), name);
+  });
+  const statusOptions = importStatusOptions(options.projects);
+  const projectKeys = [...projectNames.keys()];
+  const projects: WorkImportPlan['projects'] = [];
+  const workflows = new Map<string, TaskStatus[]>();
+  const statusesCreated = new Set<string>();
+
+  projectKeys.forEach((key, index) => {
+    const name = projectNames.get(key)!;
+    const existing = options.projects.find((p) => p.name.trim().toLowerCase() === key);
+    const projectTasks = accepted.filter((t) => projectName(t).toLowerCase() === key);
+
+    // The project's workflow, plus the statuses its imported tasks need
+    const current = existing?.customTaskStatuses?.length ? existing.customTaskStatuses : defaultTaskStatuses;
+    const workflow = [...current];
+    const taken = new Set(statusOptions.map((s) => s.id));
+    projectTasks.forEach((t) => {
+      const target = t.status ? options.statusTargets[t.status.trim()] : undefined;
+      if (!target) return;
+      const status =
+        target.kind === 'existing'
+          ? statusOptions.find((s) => s.id === target.id)
+          : workflow.find((s) => normalize(s.label) === normalize(t.status)) ?? {
+              id: statusId(t.status, taken),
+              label: t.status.trim(),
+              color: statusColor(t.status),
+            };
+      if (status && !workflow.some((s) => s.id === status.id)) {
+        workflow.push(status);
+        if (target.kind === 'new') statusesCreated.add(status.label);
+      }
+    });
+
+    // Statuses are only added, so a longer workflow is a changed one
+    const planKey = `project-${index + 1}`;
+    workflows.set(planKey, workflow);
+    projects.push({ key: planKey, id: existing?.id ?? null, name, custom_task_statuses: workflow.length > current.length ? workflow : null });
+  });
+  const projectKeyByName = new Map(projectKeys.map((key, i) => [key, projects[i].key]));
+
+  // Members to create
+  const members: WorkImportPlan['members'] = [];
+  importAssignees({ ...dataset, tasks: accepted }).forEach((assignee) => {
+    if (options.memberTargets[assignee.key]?.kind === 'new') {
+      members.push({ key: assignee.key, name: assignee.name, email: assignee.email || null });
+    }
+  });
+
+  const tasks: WorkImportPlan['tasks'] = accepted.map((t) => {
+    const projectKey = projectKeyByName.get(projectName(t).toLowerCase())!;
+    const target = t.status ? options.statusTargets[t.status.trim()] : undefined;
+    const workflow = workflows.get(projectKey)!;
+    const status =
+      target?.kind === 'existing'
+        ? target.id
+        : target?.kind === 'new'
+          ? workflow.find((s) => normalize(s.label) === normalize(t.status))?.id ?? workflow[0].id
+          : workflow[0].id;
+    const member = options.memberTargets[assigneeKey(t)];
+    return {
+      key: t.key,
+      project_key: projectKey,
+      title: t.title,
+      description: t.description || null,
+      status,
+      priority: importedPriority(t.priority),
+      start_date: t.start,
+      due_date: t.due,
+      estimated_hours: t.estimatedHours ?? 0,
+      assignee_id: member?.kind === 'member' ? member.id : null,
+      assignee_key: member?.kind === 'new' ? assigneeKey(t) : null,
+      subtasks: t.subtasks,
+    };
+  });
+
+  // Links: one per pair of tasks, blocking links first
+  const refs = new Map(accepted.map((t) => [t.key, t.ref]));
+  const pairs = new Map<string, WorkImportPlan['dependencies'][number]>();
+  accepted.forEach((t) => {
+    t.links.forEach((link) => {
+      if (!refs.has(link.key)) {
+        warn(t.ref, `Links to "${link.key}", which isn't in the import; the link was skipped`);
+        return;
+      }
+      if (link.key === t.key) {
+        warn(t.ref, 'Links to itself; the link was skipped');
+        return;
+      }
+      const [predecessor, successor] = link.type === 'blocked_by' ? [link.key, t.key] : [t.key, link.key];
+      const type = link.type === 'relates_to' ? 'relates_to' : 'blocks';
+      const pair = [predecessor, successor].sort().join('\u0000');
+      const current = pairs.get(pair);
+      if (!current || (current.type === 'relates_to' && type === 'blocks')) pairs.set(pair, { predecessor, successor, type });
+    });
+  });
+  const dependencies = dropCycles([...pairs.values()], refs, issues);
+
+  return {
+    plan: { program: options.program, members, projects, tasks, dependencies },
+    projects: projects.map((p) => ({ name: p.name, existing: !!p.id, tasks: tasks.filter((t) => t.project_key === p.key).length })),
+    statusesCreated: [...statusesCreated],
+    membersCreated: members.map((m) => m.name),
+    subtasks: tasks.reduce((sum, t) => sum + t.subtasks.length, 0),
+    issues,
+    skipped: dataset.tasks.length - accepted.length,
+  };
+}
+
+/** The error report as CSV */
+export function workImportIssuesToCsv(issues: WorkImportIssue[]): string {
+  return ['Level,Row,Problem', ...issues.map((i) => [i.level, i.ref, i.message].map(csvCell).join(','))].join('\n');
+}
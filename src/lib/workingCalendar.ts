@@ -0,0 +1,119 @@
+/**
+ * Working Calendar
+ *
+ * Org working weekdays, hours per day and holidays, plus per-member time off.
+ * Scheduling code counts durations and lags in working days on this calendar so
+ * computed dates line up with when people can actually work.
+ */
+
+import { addDays, parseISO } from 'date-fns';
+
+export interface TimeOffRange {
+  /** yyyy-MM-dd, inclusive */
+  start: string;
+  /** yyyy-MM-dd, inclusive */
+  end: string;
+}
+
+export interface WorkingCalendar {
+  /** Working weekdays, 0 = Sunday */
+  workingDays: number[];
+  hoursPerDay: number;
+  /** yyyy-MM-dd -> holiday name */
+  holidays: Map<string, string>;
+  /** team member id -> days off */
+  timeOff: Map<string, TimeOffRange[]>;
+}
+
+export const DEFAULT_WORKING_CALENDAR: WorkingCalendar = {
+  workingDays: [1, 2, 3, 4, 5],
+  hoursPerDay: 8,
+  holidays: new Map(),
+  timeOff: new Map(),
+};
+
+/** Upper bound on day-by-day scans so a calendar with no working days can't loop forever. */
+const MAX_SCAN_DAYS = 3660;
+
+const pad = (n: number) => (n < 10 ? `0${n}` : String(n));
+
+/** Local yyyy-MM-dd (hand-rolled: called for every day scanned). */
+export const toDateKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export function isHoliday(calendar: WorkingCalendar, date: Date): boolean {
+  return calendar.holidays.has(toDateKey(date));
+}
+
+export function isMemberOff(calendar: WorkingCalendar, memberId: string, date: Date): boolean {
+  const ranges = calendar.timeOff.get(memberId);
+  if (!ranges?.length) return false;
+  const key = toDateKey(date);
+  return ranges.some((r) => key >= r.start && key <= r.end);
+}
+
+/** Org working day (weekday and not a holiday); with memberId, also not on that member's time off. */
+export function isWorkingDay(calendar: WorkingCalendar, date: Date, memberId?: string): boolean {
+  if (!calendar.workingDays.includes(date.getDay())) return false;
+  if (calendar.holidays.size > 0 && isHoliday(calendar, date)) return false;
+  return !memberId || !isMemberOff(calendar, memberId, date);
+}
+
+/** The date itself if it is a working day, otherwise the next one. */
+export function nextWorkingDay(calendar: WorkingCalendar, date: Date, memberId?: string): Date {
+  let day = date;
+  for (let i = 0; i < MAX_SCAN_DAYS && !isWorkingDay(calendar, day, memberId); i++) day = addDays(day, 1);
+  return day;
+}
+
+/** The date itself if it is a working day, otherwise the previous one. */
+export function previousWorkingDay(calendar: WorkingCalendar, date: Date, memberId?: string): Date {
+  let day = date;
+  for (let i = 0; i < MAX_SCAN_DAYS && !isWorkingDay(calendar, day, memberId); i++) day = addDays(day, -1);
+  return day;
+}
+
+/**
+ * Move `count` working days forward (or backward when negative). The starting date is not counted,
+ * so addWorkingDays(fri, 1) is the following Monday on a Mon–Fri calendar.
+ */
+export function addWorkingDays(calendar: WorkingCalendar, date: Date, count: number, memberId?: string): Date {
+  const step = count < 0 ? -1 : 1;
+  let remaining = Math.abs(Math.round(count));
+  let day = date;
+  for (let i = 0; remaining > 0 && i < MAX_SCAN_DAYS; i++) {
+    day = addDays(day, step);
+    if (isWorkingDay(calendar, day, memberId)) remaining--;
+  }
+  return day;
+}
+
+/** Org working days in [from, to); negative when `to` is before `from`. */
+export function workingDaysBetween(calendar: WorkingCalendar, from: Date, to: Date): number {
+  const sign = to < from ? -1 : 1;
+  const [start, end] = sign > 0 ? [from, to] : [to, from];
+  let count = 0;
+  for (let day = start, i = 0; day < end && i < MAX_SCAN_DAYS; day = addDays(day, 1), i++) {
+    if (isWorkingDay(calendar, day)) count++;
+  }
+  return sign * count;
+}
+
+/** Working days (on the member's calendar) needed for a number of hours; at least one. */
+export function durationInWorkingDays(calendar: WorkingCalendar, hours: number): number {
+  return Math.max(1, Math.ceil(Math.max(0, hours) / calendar.hoursPerDay));
+}
+
+/** Working days covered by an inclusive date range on the member's calendar; at least one. */
+export function workingDaysInRange(
+  calendar: WorkingCalendar,
+  startDate: string,
+  endDate: string,
+  memberId?: string
+): number {
+  let count = 0;
+  const end = parseISO(endDate);
+  for (let day = parseISO(startDate), i = 0; day <= end && i < MAX_SCAN_DAYS; day = addDays(day, 1), i++) {
+    if (isWorkingDay(calendar, day, memberId)) count++;
+  }
+  return Math.max(1, count);
+}
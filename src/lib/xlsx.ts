@@ -0,0 +1,275 @@
+/**
+ * XLSX Writer
+ *
+ * Minimal Office Open XML spreadsheet writer: one worksheet per sheet, a bold frozen header row
+ * with an autofilter, and typed columns (dates as Excel dates, currency, percent). Strings are
+ * written inline, so no shared string table is needed. No DOM, so the report edge functions use
+ * it too; the same sheets and date give the same bytes.
+ *
+ * readXlsxRows reads the first worksheet of a workbook back as text cells, for imports.
+ */
+
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+
+export type XlsxColumnType = 'text' | 'number' | 'date' | 'currency' | 'percent';
+
+export type XlsxCellValue = string | number | boolean | null | undefined;
+
+export interface XlsxColumn {
+  header: string;
+  type?: XlsxColumnType;
+  /** Width in characters; defaults to one that fits the header and values */
+  width?: number;
+}
+
+export interface XlsxSheet {
+  name: string;
+  columns: XlsxColumn[];
+  rows: XlsxCellValue[][];
+}
+
+export const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// cellXfs indexes in STYLES
+const STYLE_HEADER = 1;
+const STYLE_BY_TYPE: Record<XlsxColumnType, number> = { text: 0, number: 0, date: 2, currency: 3, percent: 4 };
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="3"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/><numFmt numFmtId="165" formatCode="&quot;$&quot;#,##0.00"/><numFmt numFmtId="166" formatCode="0&quot;%&quot;"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill><fill><patternFill patternType="solid"><fgColor rgb="FFF1F5F9"/></patternFill></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="5"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/><xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="166" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+const escapeXml = (text: string) =>
+  text
+    // Control characters other than tab and newlines are not allowed in XML 1.0
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/** A1-style column letters: 0 → A, 26 → AA */
+function columnLetter(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+/** Excel serial day of a yyyy-MM-dd (or ISO) date; null when it isn't one */
+export function excelDateSerial(value: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  if (!match) return null;
+  const utc = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return Number.isNaN(utc) ? null : Math.round((utc - Date.UTC(1899, 11, 30)) / 86_400_000);
+}
+
+function cellXml(ref: string, value: XlsxCellValue, type: XlsxColumnType): string {
+  if (value === null || value === undefined || value === '') return '';
+  const style = STYLE_BY_TYPE[type];
+  const s = style ? ` s="${style}"` : '';
+
+  if (typeof value === 'boolean') return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  if (type === 'date' && typeof value === 'string') {
+    const serial = excelDateSerial(value);
+    if (serial !== null) return `<c r="${ref}"${s}><v>${serial}</v></c>`;
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${ref}"${s}><v>${value}</v></c>`;
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+}
+
+function sheetXml(sheet: XlsxSheet): string {
+  const widths = sheet.columns.map((column, i) => {
+    if (column.width) return column.width;
+    const longest = sheet.rows.slice(0, 200).reduce((max, row) => Math.max(max, String(row[i] ?? '').length), column.header.length);
+    return Math.min(Math.max(longest + 2, column.type === 'date' ? 12 : 8), 60);
+  });
+  const lastColumn = columnLetter(Math.max(sheet.columns.length - 1, 0));
+
+  const header = `<row r="1">${sheet.columns
+    .map((column, i) => `<c r="${columnLetter(i)}1" t="inlineStr" s="${STYLE_HEADER}"><is><t xml:space="preserve">${escapeXml(column.header)}</t></is></c>`)
+    .join('')}</row>`;
+  const rows = sheet.rows
+    .map((row, r) => `<row r="${r + 2}">${sheet.columns.map((column, i) => cellXml(`${columnLetter(i)}${r + 2}`, row[i], column.type ?? 'text')).join('')}</row>`)
+    .join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<dimension ref="A1:${lastColumn}${sheet.rows.length + 1}"/>
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<cols>${widths.map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>
+<sheetData>${header}${rows}</sheetData>
+${sheet.rows.length > 0 ? `<autoFilter ref="A1:${lastColumn}${sheet.rows.length + 1}"/>` : ''}
+</worksheet>`;
+}
+
+/** Sheet names: at most 31 characters, none of []:*?/\, unique ignoring case */
+function sheetNames(sheets: XlsxSheet[]): string[] {
+  const used = new Set<string>();
+  return sheets.map((sheet, i) => {
+    const base = sheet.name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || `Sheet${i + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base.slice(0, 31 - String(n).length - 1)} ${n}`;
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+/**
+ * The workbook as .xlsx bytes. `modified` is stamped on the zip entries and the document
+ * properties so re-building the same sheets gives the same file.
+ */
+export function buildXlsxWorkbook(sheets: XlsxSheet[], options: { title?: string; modified?: Date } = {}): Uint8Array {
+  const modified = options.modified ?? new Date();
+  // Zip timestamps start in 1980
+  const mtime = modified.getTime() < Date.UTC(1980, 0, 2) ? new Date(Date.UTC(1980, 0, 2)) : modified;
+  const names = sheetNames(sheets);
+  const stamp = modified.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${names.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('\n')}
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`),
+    '_rels/.rels': strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`),
+    'docProps/core.xml': strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<dc:title>${escapeXml(options.title ?? '')}</dc:title>
+<dc:creator>Accord Portfolio Management</dc:creator>
+<dcterms:created xsi:type="dcterms:W3CDTF">${stamp}</dcterms:created>
+<dcterms:modified xsi:type="dcterms:W3CDTF">${stamp}</dcterms:modified>
+</cp:coreProperties>`),
+    'xl/workbook.xml': strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>${names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>
+</workbook>`),
+    'xl/_rels/workbook.xml.rels': strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${names.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('\n')}
+<Relationship Id="rId${names.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`),
+    'xl/styles.xml': strToU8(STYLES),
+  };
+  sheets.forEach((sheet, i) => {
+    files[`xl/worksheets/sheet${i + 1}.xml`] = strToU8(sheetXml(sheet));
+  });
+
+  return zipSync(files, { level: 6, mtime });
+}
+
+// ============================================
+// Reading
+// ============================================
+
+// Built-in number formats that show dates
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+const decodeXml = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|quot|apos|amp);/gi, (_, entity: string) => {
+    const named: Record<string, string> = { lt: '<', gt: '>', quot: '"', apos: "'", amp: '&' };
+    if (entity[0] !== '#') return named[entity.toLowerCase()];
+    const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return String.fromCodePoint(code);
+  });
+
+/** Text of a string item: its <t> elements, including rich text runs */
+const stringItemText = (xml: string) =>
+  [...xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)].map((m) => decodeXml(m[1])).join('');
+
+const attribute = (attributes: string, name: string) => new RegExp(`\\b${name}="([^"]*)"`).exec(attributes)?.[1];
+
+/** 0-based column of an A1-style reference */
+function columnIndex(ref: string): number {
+  const letters = /^[A-Z]+/.exec(ref)?.[0] ?? 'A';
+  return [...letters].reduce((n, letter) => n * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/** yyyy-MM-dd of an Excel serial day */
+function serialToDate(serial: number): string {
+  return new Date(Date.UTC(1899, 11, 30) + Math.floor(serial) * 86_400_000).toISOString().slice(0, 10);
+}
+
+/**
+ * Cells of the workbook's first worksheet as text, row by row. Dates are given as yyyy-MM-dd,
+ * numbers as written and booleans as TRUE / FALSE; formulas give their last calculated value.
+ * Throws when the bytes aren't an .xlsx workbook.
+ */
+export function readXlsxRows(bytes: Uint8Array): string[][] {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(bytes);
+  } catch {
+    throw new Error('The file is not an Excel workbook (.xlsx)');
+  }
+  const text = (path: string) => (files[path] ? strFromU8(files[path]) : '');
+
+  const workbook = text('xl/workbook.xml');
+  const firstSheet = /<sheet\b([^>]*)\/?>/.exec(workbook);
+  if (!firstSheet) throw new Error('The file is not an Excel workbook (.xlsx)');
+  const relationId = attribute(firstSheet[1], 'r:id');
+  const relation = [...text('xl/_rels/workbook.xml.rels').matchAll(/<Relationship\b([^>]*)\/?>/g)].find(
+    (m) => attribute(m[1], 'Id') === relationId
+  );
+  const target = relation ? attribute(relation[1], 'Target') ?? '' : 'worksheets/sheet1.xml';
+  const sheet = text(target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+
+  const sharedStrings = [...text('xl/sharedStrings.xml').matchAll(/<si>([\s\S]*?)<\/si>/g)].map((m) => stringItemText(m[1]));
+
+  const styles = text('xl/styles.xml');
+  const customFormats = new Map(
+    [...styles.matchAll(/<numFmt\b([^>]*)\/?>/g)].map((m) => [Number(attribute(m[1], 'numFmtId')), attribute(m[1], 'formatCode') ?? ''])
+  );
+  const cellXfs = /<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/.exec(styles)?.[1] ?? '';
+  const dateStyles = [...cellXfs.matchAll(/<xf\b([^>]*)/g)].map((m) => {
+    const id = Number(attribute(m[1], 'numFmtId') ?? 0);
+    const code = (customFormats.get(id) ?? '').replace(/"[^"]*"|\[[^\]]*\]/g, '');
+    return BUILTIN_DATE_FORMATS.has(id) || /[dy]/i.test(code);
+  });
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const row: string[] = [];
+    for (const cell of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cell[1];
+      const body = cell[2] ?? '';
+      const type = attribute(attributes, 't');
+      const raw = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+      let value = '';
+      if (type === 'inlineStr') value = stringItemText(/<is>([\s\S]*?)<\/is>/.exec(body)?.[1] ?? '');
+      else if (raw === undefined) value = '';
+      else if (type === 's') value = sharedStrings[Number(raw)] ?? '';
+      else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+      else if (type === 'str' || type === 'e') value = decodeXml(raw);
+      else if (dateStyles[Number(attribute(attributes, 's') ?? 0)] && Number.isFinite(Number(raw))) value = serialToDate(Number(raw));
+      else value = raw;
+
+      const ref = attribute(attributes, 'r');
+      const index = ref ? columnIndex(ref) : row.length;
+      while (row.length < index) row.push('');
+      row[index] = value;
+    }
+
+    const rowNumber = Number(attribute(rowMatch[1], 'r'));
+    while (rowNumber && rows.length < rowNumber - 1) rows.push([]);
+    rows.push(row);
+  }
+
+  return rows.filter((row) => row.some((cell) => cell.trim() !== ''));
+}
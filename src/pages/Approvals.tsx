@@ -0,0 +1,51 @@
+import { useState } from 'react';
+import { Inbox, Plane } from 'lucide-react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { PageHeader } from '@/components/shared/PageHeader';
+import { PageSection } from '@/components/shared/PageSection';
+import { ApprovalInbox } from '@/components/approvals/ApprovalInbox';
+import { ApprovalDelegations } from '@/components/approvals/ApprovalDelegations';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useApprovalInbox } from '@/hooks/useApprovalInbox';
+import type { ApprovalInboxItem } from '@/types/masterbook';
+
+const EMPTY_ITEMS: ApprovalInboxItem[] = [];
+
+export default function Approvals() {
+  const { data: items = EMPTY_ITEMS } = useApprovalInbox();
+  const [tab, setTab] = useState('inbox');
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <PageHeader
+          title="Approvals"
+          description="Change requests waiting for your decision, and who decides for you while you're away"
+        />
+
+        <Tabs value={tab} onValueChange={setTab} className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="inbox">
+              <Inbox className="mr-2 h-4 w-4" />
+              Inbox{items.length > 0 && ` (${items.length})`}
+            </TabsTrigger>
+            <TabsTrigger value="delegation">
+              <Plane className="mr-2 h-4 w-4" />
+              Out of office
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="inbox">
+            <ApprovalInbox items={items} />
+          </TabsContent>
+
+          <TabsContent value="delegation">
+            <PageSection title="Delegate your approvals">
+              <ApprovalDelegations />
+            </PageSection>
+          </TabsContent>
+        </Tabs>
+      </div>
+    </MainLayout>
+  );
+}
@@ -12,6 +12,7 @@ import { ProgramHealthChart } from '@/components/portfolio/ProgramHealthChart';
 import { UpcomingMilestones } from '@/components/portfolio/UpcomingMilestones';
 import { ResourceUtilization } from '@/components/portfolio/ResourceUtilization';
 import { ResourceConflictsCard } from '@/components/portfolio/ResourceConflictsCard';
+import { PortfolioRiskHealthCard } from '@/components/portfolio/PortfolioRiskHealthCard';
 import { PortfolioDecisionLogCard } from '@/components/portfolio/PortfolioDecisionLogCard';
 import { VelocityNormalizationCard } from '@/components/portfolio/VelocityNormalizationCard';
 import { ProjectsTimeline } from '@/components/portfolio/ProjectsTimeline';
@@ -326,6 +327,7 @@ export default function PortfolioDetail() {
             />
             <TaskDistributionChart tasks={tasks} />
             <ResourceUtilization teamMembers={teamMembers} />
+            <PortfolioRiskHealthCard portfolioId={portfolio.id} programs={programs} projects={projects} />
             <ResourceConflictsCard teamMembers={teamMembers} projectIds={projectIds} />
             <VelocityNormalizationCard projects={projects} />
             <PermissionGate allowedOrgRoles={['owner', 'admin', 'manager']}>
@@ -44,6 +44,7 @@ import { MilestoneCard } from '@/components/programs/MilestoneCard';
 import { MilestoneModal } from '@/components/programs/MilestoneModal';
 import { ProjectModal } from '@/components/projects/ProjectModal';
 import { ProgramSettingsSheet } from '@/components/programs/ProgramSettingsSheet';
+import { BaselinesDialog } from '@/components/baselines/BaselinesDialog';
 import { CommunicationButton } from '@/components/communication/CommunicationButton';
 import { motion, AnimatePresence } from 'framer-motion';
 import { format, differenceInDays, isPast, isToday } from 'date-fns';
@@ -81,6 +82,8 @@ import {
   GanttChart,
   CalendarDays,
   X,
+  GitCompareArrows,
+  FileEdit,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { programStatusMeta, getProgramStatusOptions, getProjectStatusOptions, defaultProjectStatuses } from '@/lib/workflow';
@@ -88,6 +91,7 @@ import { Program, Project, Task, Milestone } from '@/types/portfolio';
 import { usePermissions } from '@/contexts/PermissionsContext';
 import { useMasterbook } from '@/contexts/MasterbookContext';
 import { RiskRegister } from '@/components/masterbook/RiskRegister';
+import { ChangeRequestRegister } from '@/components/masterbook/ChangeRequestRegister';
 
 const statusColors = {
   planning: 'bg-info/10 text-info border-info/20',
@@ -164,6 +168,7 @@ export default function ProgramDetail() {
   const [milestoneModalOpen, setMilestoneModalOpen] = useState(false);
   const [editingMilestone, setEditingMilestone] = useState<Milestone | null>(null);
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [baselinesOpen, setBaselinesOpen] = useState(false);
   const [issues, setIssues] = useState<Issue[]>(mockIssues);
   const { risks: masterbookRisks, getRisksByProject, updateRisk: updateMasterbookRisk } = useMasterbook();
 
@@ -512,6 +517,10 @@ export default function ProgramDetail() {
                 <Mail className="h-4 w-4 sm:mr-2" />
                 <span className="hidden sm:inline">Send Update</span>
               </Button>
+              <Button variant="outline" size="sm" onClick={() => setBaselinesOpen(true)}>
+                <GitCompareArrows className="h-4 w-4 sm:mr-2" />
+                <span className="hidden sm:inline">Baselines</span>
+              </Button>
               <Button variant="outline" size="sm" onClick={() => setSettingsOpen(true)}>
                 <Settings className="h-4 w-4 sm:mr-2" />
                 <span className="hidden sm:inline">Settings</span>
@@ -693,6 +702,10 @@ export default function ProgramDetail() {
               <Shield className="h-4 w-4" />
               Risks
             </TabsTrigger>
+            <TabsTrigger value="changes" className="gap-2">
+              <FileEdit className="h-4 w-4" />
+              Changes
+            </TabsTrigger>
             <TabsTrigger value="issues" className="gap-2">
               <Bug className="h-4 w-4" />
               Issues
@@ -1205,6 +1218,13 @@ export default function ProgramDetail() {
             )}
           </TabsContent>
 
+          {/* Changes Tab – Masterbook change requests */}
+          <TabsContent value="changes" className="space-y-4">
+            {program && (
+              <ChangeRequestRegister programId={program.id} />
+            )}
+          </TabsContent>
+
           {/* Issues Tab */}
           <TabsContent value="issues" className="space-y-4">
             <div className="flex items-center justify-between">
@@ -1477,6 +1497,14 @@ export default function ProgramDetail() {
         />
       )}
 
+      <BaselinesDialog
+        open={baselinesOpen}
+        onOpenChange={setBaselinesOpen}
+        scopeType="program"
+        scopeId={program.id}
+        scopeName={program.name}
+      />
+
       <ProgramSettingsSheet
         open={settingsOpen}
         onOpenChange={setSettingsOpen}
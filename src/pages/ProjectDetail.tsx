@@ -26,6 +26,10 @@ import {
   Copy,
   Archive,
   UserPlus,
+  CalendarClock,
+  GitCompareArrows,
+  FileDown,
+  FileUp,
 } from 'lucide-react';
 import { CommunicationButton } from '@/components/communication/CommunicationButton';
 import { MainLayout } from '@/components/layout/MainLayout';
@@ -36,10 +40,14 @@ import { TaskKanban } from '@/components/tasks/TaskKanban';
 import { TaskGantt } from '@/components/tasks/TaskGantt';
 import { TaskCalendar } from '@/components/tasks/TaskCalendar';
 import { TaskModal } from '@/components/tasks/TaskModal';
+import { ResourceLevelingDialog } from '@/components/tasks/ResourceLevelingDialog';
+import { BaselinesDialog } from '@/components/baselines/BaselinesDialog';
+import { MsProjectImportDialog } from '@/components/projects/MsProjectImportDialog';
 import { ProjectModal } from '@/components/projects/ProjectModal';
 import { AddTeamMemberModal } from '@/components/projects/AddTeamMemberModal';
 import { InviteMemberDialog } from '@/components/shared/InviteMemberDialog';
 import { ProjectSettingsSheet } from '@/components/projects/ProjectSettingsSheet';
+import { ChangeRequestRegister } from '@/components/masterbook/ChangeRequestRegister';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
@@ -75,6 +83,7 @@ import { Project, Task } from '@/types/portfolio';
 import { WatchButton } from '@/components/watch/WatchButton';
 import { usePortfolioData } from '@/contexts/PortfolioDataContext';
 import { usePermissions } from '@/contexts/PermissionsContext';
+import { useExportMsProject } from '@/hooks/useMsProject';
 
 import { projectStatusMeta, getTaskStatusOptions, getTaskPriorityOptions } from '@/lib/workflow';
 
@@ -99,7 +108,7 @@ export default function ProjectDetail() {
   const { currentOrgRole, hasOrgPermission } = usePermissions();
   const canViewEmails = hasOrgPermission('view_contact_emails');
 
-  const { projects, teamMembers, programs, tasks: allTasks, addTask, updateTask, deleteTask: deleteTaskMutation, updateProject, deleteProject, archiveProject } = usePortfolioData();
+  const { projects, teamMembers, programs, tasks: allTasks, milestones: allMilestones, addTask, updateTask, deleteTask: deleteTaskMutation, updateProject, deleteProject, archiveProject } = usePortfolioData();
 
   // Find the current project from global data
   const initialProject = projects.find((p) => p.id === projectId);
@@ -109,6 +118,7 @@ export default function ProjectDetail() {
   const [project, setProject] = useState<Project | null>(initialProject || null);
   // Tasks come from global context filtered by projectId
   const projectTasks = useMemo(() => allTasks.filter(t => t.projectId === projectId), [allTasks, projectId]);
+  const projectMilestones = useMemo(() => allMilestones.filter(m => m.projectId === projectId), [allMilestones, projectId]);
   const [teamIds, setTeamIds] = useState<string[]>(initialProject?.teamIds || []);
 
   // Modal states
@@ -119,6 +129,10 @@ export default function ProjectDetail() {
   const [showAddMemberModal, setShowAddMemberModal] = useState(false);
   const [showInviteMemberDialog, setShowInviteMemberDialog] = useState(false);
   const [showSettingsSheet, setShowSettingsSheet] = useState(false);
+  const [showLevelingDialog, setShowLevelingDialog] = useState(false);
+  const [showBaselinesDialog, setShowBaselinesDialog] = useState(false);
+  const [showMsProjectImport, setShowMsProjectImport] = useState(false);
+  const exportMsProject = useExportMsProject();
   const [deleteTaskId, setDeleteTaskId] = useState<string | null>(null);
   const [removeMemberId, setRemoveMemberId] = useState<string | null>(null);
   const [showDeleteProjectDialog, setShowDeleteProjectDialog] = useState(false);
@@ -421,6 +435,21 @@ export default function ProjectDetail() {
                       <Settings className="mr-2 h-4 w-4" />
                       Project Settings
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setShowBaselinesDialog(true)}>
+                      <GitCompareArrows className="mr-2 h-4 w-4" />
+                      Baselines
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      disabled={exportMsProject.isPending}
+                      onClick={() => exportMsProject.mutate({ project, tasks: projectTasks, milestones: projectMilestones, teamMembers })}
+                    >
+                      <FileDown className="mr-2 h-4 w-4" />
+                      Export to MS Project
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setShowMsProjectImport(true)}>
+                      <FileUp className="mr-2 h-4 w-4" />
+                      Import from MS Project…
+                    </DropdownMenuItem>
                     <DropdownMenuItem>
                       <Copy className="mr-2 h-4 w-4" />
                       Duplicate Project
@@ -574,6 +603,7 @@ export default function ProjectDetail() {
             <TabsList className="inline-flex w-auto rounded-lg border border-border bg-muted p-1">
               <TabsTrigger value="tasks">Tasks ({taskStats.total})</TabsTrigger>
               <TabsTrigger value="team">Team ({assignedMembers.length})</TabsTrigger>
+              <TabsTrigger value="changes">Changes</TabsTrigger>
               <TabsTrigger value="overview">Overview</TabsTrigger>
             </TabsList>
           </div>
@@ -708,7 +738,15 @@ export default function ProjectDetail() {
                   </Button>
                 )}
 
-                <div className="ml-auto">
+                <div className="ml-auto flex items-center gap-2">
+                  {taskView === 'gantt' && (
+                    <PermissionGate allowedOrgRoles={['owner', 'admin', 'manager']}>
+                      <Button variant="outline" onClick={() => setShowLevelingDialog(true)}>
+                        <CalendarClock className="mr-2 h-4 w-4" />
+                        Auto-schedule
+                      </Button>
+                    </PermissionGate>
+                  )}
                   <PermissionGate allowedOrgRoles={['owner', 'admin', 'manager', 'member']}>
                     <Button onClick={() => { setEditingTask(null); setNewTaskDefaults(undefined); setShowTaskModal(true); }}>
                       <Plus className="mr-2 h-4 w-4" />
@@ -891,6 +929,11 @@ export default function ProjectDetail() {
             )}
           </TabsContent>
 
+          {/* Changes Tab – Masterbook change requests */}
+          <TabsContent value="changes" className="space-y-4">
+            <ChangeRequestRegister projectId={project.id} />
+          </TabsContent>
+
           {/* Overview Tab */}
           <TabsContent value="overview" className="space-y-6">
             <div className="grid gap-6 lg:grid-cols-2">
@@ -1064,6 +1107,34 @@ export default function ProjectDetail() {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Resource Leveling */}
+      <ResourceLevelingDialog
+        open={showLevelingDialog}
+        onOpenChange={setShowLevelingDialog}
+        projectId={project.id}
+        tasks={allTasks}
+        teamMembers={teamMembers}
+      />
+
+      {/* Schedule Baselines */}
+      <BaselinesDialog
+        open={showBaselinesDialog}
+        onOpenChange={setShowBaselinesDialog}
+        scopeType="project"
+        scopeId={project.id}
+        scopeName={project.name}
+      />
+
+      {/* MS Project Import */}
+      <MsProjectImportDialog
+        open={showMsProjectImport}
+        onOpenChange={setShowMsProjectImport}
+        project={project}
+        tasks={projectTasks}
+        milestones={projectMilestones}
+        teamMembers={teamMembers}
+      />
+
       {/* Project Settings Sheet */}
       <ProjectSettingsSheet
         open={showSettingsSheet}
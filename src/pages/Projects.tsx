@@ -15,6 +15,7 @@ import {
   ChevronDown,
   RotateCcw,
   Search,
+  FileUp,
 } from 'lucide-react';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { PageHeader } from '@/components/shared/PageHeader';
@@ -27,6 +28,7 @@ import { ProjectKanban } from '@/components/projects/ProjectKanban';
 import { ProjectGantt } from '@/components/projects/ProjectGantt';
 import { ProjectCalendar } from '@/components/projects/ProjectCalendar';
 import { ProjectModal } from '@/components/projects/ProjectModal';
+import { WorkImportWizard } from '@/components/projects/WorkImportWizard';
 import { TaskModal } from '@/components/tasks/TaskModal';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -130,6 +132,7 @@ export default function Projects() {
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
   const [kanbanGroupBy, setKanbanGroupBy] = useState<KanbanGroupBy>('status');
   const [modalOpen, setModalOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
   const [editingProject, setEditingProject] = useState<Project | null>(null);
   
   // Task modal state
@@ -315,6 +318,12 @@ export default function Projects() {
                 aria-label="Search projects"
               />
             </div>
+            <PermissionGate allowedOrgRoles={['owner', 'admin', 'manager']}>
+              <Button variant="outline" onClick={() => setImportOpen(true)} className="w-full sm:w-auto">
+                <FileUp className="mr-2 h-4 w-4" />
+                Import
+              </Button>
+            </PermissionGate>
             <PermissionGate allowedOrgRoles={['owner', 'admin', 'manager', 'member']}>
               <Button data-tour="new-project" onClick={handleNewProject} className="w-full sm:w-auto">
                 <Plus className="mr-2 h-4 w-4" />
@@ -641,6 +650,8 @@ export default function Projects() {
         <ArchivedProjectsSection programs={programs} />
       </div>
 
+      <WorkImportWizard open={importOpen} onOpenChange={setImportOpen} />
+
       <ProjectModal
         isOpen={modalOpen}
         onClose={() => setModalOpen(false)}
@@ -42,6 +42,8 @@ import {
   Wallet,
   Package,
   Building2,
+  GitCompareArrows,
+  CalendarClock,
 } from 'lucide-react';
 import {
   DropdownMenu,
@@ -56,12 +58,35 @@ import { format, differenceInDays, formatDistanceToNow } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { usePermissions } from '@/contexts/PermissionsContext';
 import { PermissionGate } from '@/components/permissions/PermissionGate';
-import { downloadReportPDF, downloadReportCSV, type ReportData } from '@/lib/reportExport';
+import { downloadReportPDF, downloadReportCSV, downloadReportXLSX, type ReportData } from '@/lib/reportExport';
+import {
+  buildReportData,
+  computeReportStats,
+  REPORT_DATE_RANGE_LABELS,
+  scopeReportPrograms,
+  scopeReportProjects,
+  summarizeTimeEntries,
+  type ReportDateRange,
+  type ReportType,
+} from '@/lib/reportData';
 import { SendReportDialog } from '@/components/reports/SendReportDialog';
+import { ReportSubscriptionsDialog } from '@/components/reports/ReportSubscriptionsDialog';
+import { CustomReportBuilder } from '@/components/reports/CustomReportBuilder';
 import { BudgetVarianceChart } from '@/components/reports/BudgetVarianceChart';
+import { ScheduleVarianceReport } from '@/components/reports/ScheduleVarianceReport';
+import { EarnedValueReport } from '@/components/reports/EarnedValueReport';
+import { buildEarnedValueReport } from '@/lib/earnedValue';
+import { useWorkingCalendar } from '@/hooks/useWorkingCalendar';
+import { useScheduleSimulation } from '@/hooks/useScheduleSimulation';
+import { hasThreePointEstimate } from '@/lib/monteCarlo';
+import { useTimeEntries } from '@/hooks/useTimeEntries';
+import { getTimeFrameRange, type TimeFrame } from '@/lib/timeFrameFilter';
+import type { TimeEntry } from '@/domains/timesheets/model';
 import { StatusUpdateGenerator } from '@/components/masterbook/StatusUpdateGenerator';
 import { useToast } from '@/hooks/use-toast';
 
+const EMPTY_TIME_ENTRIES: TimeEntry[] = [];
+
 const COLORS = ['hsl(var(--primary))', 'hsl(var(--info))', 'hsl(var(--warning))', 'hsl(var(--success))', 'hsl(var(--destructive))'];
 
 const activityTypeIcons: Record<string, typeof CheckCircle2> = {
@@ -115,6 +140,7 @@ export default function Reports() {
   const [logCategoryFilter, setLogCategoryFilter] = useState<string>('all');
   const [isExporting, setIsExporting] = useState(false);
   const [showSendDialog, setShowSendDialog] = useState(false);
+  const [showScheduleDialog, setShowScheduleDialog] = useState(false);
   
   // Hierarchy filter state
   const [selectedPortfolioId, setSelectedPortfolioId] = useState<string>('all');
@@ -134,62 +160,22 @@ export default function Reports() {
     setSelectedProgramId('all');
   };
   
+  const reportScope = useMemo(
+    () => ({ portfolioId: selectedPortfolioId, programId: selectedProgramId }),
+    [selectedPortfolioId, selectedProgramId]
+  );
+
   // Filter projects based on hierarchy selection
-  const filteredProjects = useMemo(() => {
-    let filtered = projects;
-    
-    if (selectedProgramId !== 'all') {
-      filtered = filtered.filter(p => p.programId === selectedProgramId);
-    } else if (selectedPortfolioId !== 'all') {
-      const programIds = programs
-        .filter(prog => prog.portfolioId === selectedPortfolioId)
-        .map(prog => prog.id);
-      filtered = filtered.filter(p => programIds.includes(p.programId));
-    }
-    
-    return filtered;
-  }, [projects, programs, selectedPortfolioId, selectedProgramId]);
+  const filteredProjects = useMemo(
+    () => scopeReportProjects({ programs, projects }, reportScope),
+    [projects, programs, reportScope]
+  );
   
   // Filter programs based on portfolio selection
-  const filteredPrograms = useMemo(() => {
-    if (selectedPortfolioId === 'all') return programs;
-    return programs.filter(p => p.portfolioId === selectedPortfolioId);
-  }, [programs, selectedPortfolioId]);
+  const filteredPrograms = useMemo(() => scopeReportPrograms(programs, reportScope), [programs, reportScope]);
   
-  // Get filter scope info for exports
-  const filterScope = useMemo(() => {
-    const scope: { portfolioId?: string; portfolioName?: string; programId?: string; programName?: string } = {};
-    
-    if (selectedPortfolioId !== 'all') {
-      const selectedPortfolio = portfolios.find(p => p.id === selectedPortfolioId);
-      if (selectedPortfolio) {
-        scope.portfolioId = selectedPortfolio.id;
-        scope.portfolioName = selectedPortfolio.name;
-      }
-    }
-    
-    if (selectedProgramId !== 'all') {
-      const selectedProgram = programs.find(p => p.id === selectedProgramId);
-      if (selectedProgram) {
-        scope.programId = selectedProgram.id;
-        scope.programName = selectedProgram.name;
-      }
-    }
-    
-    return Object.keys(scope).length > 0 ? scope : undefined;
-  }, [selectedPortfolioId, selectedProgramId, portfolios, programs]);
-
   // Date range label helper
-  const dateRangeLabel = useMemo(() => {
-    const labels: Record<string, string> = {
-      'this-week': 'This Week',
-      'this-month': 'This Month',
-      'this-quarter': 'This Quarter',
-      'this-year': 'This Year',
-      'all-time': 'All Time',
-    };
-    return labels[dateRange] || dateRange;
-  }, [dateRange]);
+  const dateRangeLabel = REPORT_DATE_RANGE_LABELS[dateRange as ReportDateRange] || dateRange;
 
   // Filter logs based on search and category
   const filteredLogs = useMemo(() => {
@@ -206,92 +192,10 @@ export default function Reports() {
   }, [logs, logSearch, logCategoryFilter]);
 
   // Calculate comprehensive statistics (uses filtered data)
-  const stats = useMemo(() => {
-    const allTasks = filteredProjects.flatMap(p => p.tasks);
-    const totalTasks = allTasks.length;
-    const completedTasks = allTasks.filter(t => t.status === 'done').length;
-    const inProgressTasks = allTasks.filter(t => t.status === 'in-progress').length;
-    const todoTasks = allTasks.filter(t => t.status === 'todo').length;
-    const reviewTasks = allTasks.filter(t => t.status === 'review').length;
-    
-    const overdueTasks = allTasks.filter(t => 
-      t.dueDate && new Date(t.dueDate) < new Date() && t.status !== 'done'
-    ).length;
-
-    const highPriorityTasks = allTasks.filter(t => t.priority === 'high' && t.status !== 'done').length;
-
-    // Project stats (from filtered projects)
-    const activeProjects = filteredProjects.filter(p => p.status === 'active').length;
-    const planningProjects = filteredProjects.filter(p => p.status === 'planning').length;
-    const completedProjects = filteredProjects.filter(p => p.status === 'completed').length;
-    const onHoldProjects = filteredProjects.filter(p => p.status === 'on-hold').length;
-
-    // Average progress
-    const avgProgress = filteredProjects.length > 0 
-      ? Math.round(filteredProjects.reduce((sum, p) => sum + p.progress, 0) / filteredProjects.length)
-      : 0;
-
-    // Team utilization
-    const totalAllocation = teamMembers.reduce((sum, m) => sum + m.allocation, 0);
-    const totalCapacity = teamMembers.reduce((sum, m) => sum + m.capacity, 0);
-    const utilizationRate = totalCapacity > 0 ? Math.round((totalAllocation / totalCapacity) * 100) : 0;
-
-    // Upcoming milestones
-    const upcomingMilestones = milestones.filter(m => 
-      new Date(m.dueDate) > new Date()
-    ).length;
-
-    // Budget calculations - use filtered program budgets
-    const totalProgramBudget = filteredPrograms.reduce((sum, p) => sum + (p.budget || 0), 0);
-    const totalActualCost = filteredProjects.reduce((sum, p) => sum + (p.actualCost || 0), 0);
-    const budgetRemaining = totalProgramBudget - totalActualCost;
-    const budgetUtilization = totalProgramBudget > 0 ? Math.round((totalActualCost / totalProgramBudget) * 100) : 0;
-    
-    // Budget status: 'under' (<90%), 'at-risk' (90-100%), 'over' (>100%)
-    let budgetStatus: 'under' | 'at-risk' | 'over' | 'no-budget' = 'no-budget';
-    if (totalProgramBudget > 0) {
-      if (budgetUtilization > 100) {
-        budgetStatus = 'over';
-      } else if (budgetUtilization >= 90) {
-        budgetStatus = 'at-risk';
-      } else {
-        budgetStatus = 'under';
-      }
-    }
-
-    // Count projects with budget issues (using allocatedBudget)
-    const overBudgetProjects = filteredProjects.filter(p => 
-      (p.allocatedBudget || 0) > 0 && (p.actualCost || 0) > (p.allocatedBudget || 0)
-    ).length;
-
-    return {
-      totalTasks,
-      completedTasks,
-      inProgressTasks,
-      todoTasks,
-      reviewTasks,
-      overdueTasks,
-      highPriorityTasks,
-      completionRate: totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0,
-      activeProjects,
-      planningProjects,
-      completedProjects,
-      onHoldProjects,
-      totalProjects: filteredProjects.length,
-      avgProgress,
-      utilizationRate,
-      upcomingMilestones,
-      totalPrograms: filteredPrograms.length,
-      totalPortfolios: portfolios.length,
-      // Budget stats
-      totalBudget: totalProgramBudget,
-      totalActualCost,
-      budgetRemaining,
-      budgetUtilization,
-      budgetStatus,
-      overBudgetProjects,
-    };
-  }, [filteredProjects, filteredPrograms, portfolios, teamMembers, milestones]);
+  const stats = useMemo(
+    () => computeReportStats({ portfolios, programs, projects, teamMembers, milestones }, reportScope),
+    [portfolios, programs, projects, teamMembers, milestones, reportScope]
+  );
 
   // Chart data
   const taskStatusData = [
@@ -434,156 +338,68 @@ export default function Reports() {
   }, [milestones, filteredProjects]);
 
   // Prepare report data for export/email - COMPREHENSIVE VERSION
-  const reportData: ReportData = useMemo(() => ({
-    dateRange: dateRangeLabel,
-    filterScope,
-    stats: {
-      totalTasks: stats.totalTasks,
-      completedTasks: stats.completedTasks,
-      inProgressTasks: stats.inProgressTasks,
-      todoTasks: stats.todoTasks,
-      overdueTasks: stats.overdueTasks,
-      highPriorityTasks: stats.highPriorityTasks,
-      completionRate: stats.completionRate,
-      activeProjects: stats.activeProjects,
-      completedProjects: stats.completedProjects,
-      totalProjects: stats.totalProjects,
-      avgProgress: stats.avgProgress,
-      utilizationRate: stats.utilizationRate,
-      totalPrograms: stats.totalPrograms,
-      totalPortfolios: stats.totalPortfolios,
-      // Budget stats
-      totalBudget: stats.totalBudget,
-      totalActualCost: stats.totalActualCost,
-      budgetRemaining: stats.budgetRemaining,
-      budgetUtilization: stats.budgetUtilization,
-      budgetStatus: stats.budgetStatus,
-      overBudgetProjects: stats.overBudgetProjects,
-    },
-    portfolios: (selectedPortfolioId === 'all' ? portfolios : portfolios.filter(p => p.id === selectedPortfolioId)).map(port => {
-      const portPrograms = filteredPrograms.filter(prog => prog.portfolioId === port.id);
-      const portProjects = filteredProjects.filter(p => portPrograms.some(prog => prog.id === p.programId));
-      const totalTasks = portProjects.flatMap(p => p.tasks).length;
-      const completedTasks = portProjects.flatMap(p => p.tasks).filter(t => t.status === 'done').length;
-      const totalBudget = portPrograms.reduce((sum, p) => sum + (p.budget || 0), 0);
-      const actualCost = portProjects.reduce((sum, p) => sum + (p.actualCost || 0), 0);
-      return {
-        name: port.name,
-        description: port.description,
-        programCount: portPrograms.length,
-        projectCount: portProjects.length,
-        taskCount: totalTasks,
-        completedTasks,
-        budget: totalBudget,
-        actualCost,
-      };
-    }),
-    programs: filteredPrograms.map(prog => {
-      const programProjects = filteredProjects.filter(p => p.programId === prog.id);
-      const totalTasks = programProjects.flatMap(p => p.tasks).length;
-      const completedTasks = programProjects.flatMap(p => p.tasks).filter(t => t.status === 'done').length;
-      const portfolioName = portfolios.find(p => p.id === prog.portfolioId)?.name;
-      return {
-        id: prog.id,
-        name: prog.name,
-        status: prog.status,
-        portfolioName,
-        description: prog.description,
-        projectCount: programProjects.length,
-        taskCount: totalTasks,
-        completedTasks,
-        budget: prog.budget || 0,
-        actualCost: prog.actualCost || 0,
-      };
-    }),
-    projects: filteredProjects.map(p => {
-      const program = programs.find(prog => prog.id === p.programId);
-      const portfolioName = program ? portfolios.find(port => port.id === program.portfolioId)?.name : undefined;
-      const owner = p.ownerId ? teamMembers.find(m => m.id === p.ownerId) : null;
-      return {
-        id: p.id,
-        name: p.name,
-        status: p.status,
-        programName: program?.name,
-        portfolioName,
-        description: p.description,
-        startDate: p.startDate,
-        endDate: p.endDate,
-        createdAt: (p as any).createdAt,
-        updatedAt: (p as any).updatedAt,
-        progress: p.progress,
-        tasksCount: p.tasks.length,
-        completedTasksCount: p.tasks.filter(t => t.status === 'done').length,
-        budget: p.budget,
-        actualCost: p.actualCost,
-        ownerName: owner?.name,
-        ownerEmail: owner?.email,
-      };
-    }),
-    // COMPREHENSIVE: Include all team members with detailed info
-    teamMembers: teamMembers.map(m => {
-      const memberTasks = allFilteredTasks.filter(t => t.assigneeId === m.id);
-      const completedMemberTasks = memberTasks.filter(t => t.status === 'done');
-      return {
-        id: m.id,
-        name: m.name,
-        email: m.email,
-        role: m.role,
-        allocation: m.allocation,
-        capacity: m.capacity,
-        taskCount: memberTasks.length,
-        completedTaskCount: completedMemberTasks.length,
-      };
-    }),
-    // COMPREHENSIVE: Include all tasks with full details
-    tasks: allFilteredTasks.map(t => {
-      const assignee = teamMembers.find(m => m.id === t.assigneeId);
-      const milestone = t.milestoneId ? milestones.find(m => m.id === t.milestoneId) : null;
-      const project = filteredProjects.find(p => p.id === t.projectId);
-      const program = project ? programs.find(prog => prog.id === project.programId) : null;
-      const portfolioName = program ? portfolios.find(port => port.id === program.portfolioId)?.name : undefined;
-      return {
-        id: t.id,
-        title: t.title,
-        status: t.status,
-        priority: t.priority,
-        weight: t.weight,
-        projectName: t.projectName,
-        programName: t.programName,
-        portfolioName,
-        assigneeId: t.assigneeId,
-        assigneeName: assignee?.name,
-        assigneeEmail: assignee?.email,
-        assigneeRole: assignee?.role,
-        startDate: t.startDate,
-        dueDate: t.dueDate,
-        createdAt: (t as any).createdAt,
-        updatedAt: (t as any).updatedAt,
-        estimatedHours: t.estimatedHours,
-        actualCost: t.actualCost,
-        milestoneName: milestone?.title,
-        milestoneDueDate: milestone?.dueDate,
-        subtaskCount: t.subtasks?.length || 0,
-        completedSubtasks: t.subtasks?.filter(st => st.completed).length || 0,
-      };
-    }),
-    // COMPREHENSIVE: Include all milestones with linked task counts
-    milestones: filteredMilestones.map(m => {
-      const project = filteredProjects.find(p => p.id === m.projectId);
-      const program = project ? programs.find(prog => prog.id === project.programId) : null;
-      const linkedTasks = allFilteredTasks.filter(t => t.milestoneId === m.id);
-      const completedLinkedTasks = linkedTasks.filter(t => t.status === 'done');
-      return {
-        title: m.title,
-        projectName: project?.name,
-        programName: program?.name,
-        dueDate: m.dueDate,
-        description: m.description,
-        taskCount: linkedTasks.length,
-        completedTaskCount: completedLinkedTasks.length,
-      };
-    }),
-  }), [stats, filteredProjects, filteredPrograms, portfolios, programs, teamMembers, dateRangeLabel, filterScope, selectedPortfolioId, allFilteredTasks, filteredMilestones, milestones]);
+  const { calendar } = useWorkingCalendar();
+  const earnedValue = useMemo(
+    () => buildEarnedValueReport(
+      {
+        portfolios: selectedPortfolioId === 'all' ? portfolios : portfolios.filter(p => p.id === selectedPortfolioId),
+        programs: filteredPrograms,
+        projects: filteredProjects,
+      },
+      { calendar }
+    ),
+    [portfolios, selectedPortfolioId, filteredPrograms, filteredProjects, calendar]
+  );
+
+  // Monte Carlo forecast for the filtered projects; left out until some task has a range
+  const { result: simulation } = useScheduleSimulation();
+  const scheduleRisk = useMemo((): ReportData['scheduleRisk'] => {
+    const threePointTaskCount = allFilteredTasks.filter(hasThreePointEstimate).length;
+    if (!simulation || threePointTaskCount === 0) return undefined;
+    const projectById = new Map(filteredProjects.map(p => [p.id, p]));
+    const milestoneById = new Map(filteredMilestones.map(m => [m.id, m]));
+    const taskById = new Map(allFilteredTasks.map(t => [t.id, t]));
+    return {
+      iterations: simulation.iterations,
+      threePointTaskCount,
+      projects: simulation.projects
+        .filter(f => projectById.has(f.projectId))
+        .map(({ projectId, ...f }) => ({ name: projectById.get(projectId)!.name, ...f })),
+      milestones: simulation.milestones
+        .filter(f => milestoneById.has(f.milestoneId))
+        .map(({ milestoneId, projectId, ...f }) => ({
+          name: milestoneById.get(milestoneId)!.title,
+          projectName: projectById.get(projectId)?.name,
+          ...f,
+        })),
+      tasks: simulation.tasks
+        .filter(t => t.criticalityIndex > 0 && taskById.has(t.taskId))
+        .sort((a, b) => b.criticalityIndex - a.criticalityIndex)
+        .slice(0, 25)
+        .map(t => ({
+          title: taskById.get(t.taskId)!.title,
+          projectName: taskById.get(t.taskId)!.projectName,
+          criticalityIndex: t.criticalityIndex,
+        })),
+    };
+  }, [simulation, allFilteredTasks, filteredProjects, filteredMilestones]);
+
+  // Timesheet hours per member in the selected range
+  const timeRange = useMemo(() => {
+    if (dateRange === 'all-time') return {};
+    const range = getTimeFrameRange((dateRange === 'this-week' ? 'current-week' : dateRange) as TimeFrame);
+    return { from: format(range.start, 'yyyy-MM-dd'), to: format(range.end, 'yyyy-MM-dd') };
+  }, [dateRange]);
+  const { data: timeEntries = EMPTY_TIME_ENTRIES } = useTimeEntries(timeRange);
+  const timeByMember = useMemo(() => summarizeTimeEntries(timeEntries), [timeEntries]);
+
+  const reportData: ReportData = useMemo(
+    () => buildReportData(
+      { portfolios, programs, projects, teamMembers, milestones },
+      { scope: reportScope, dateRange: dateRangeLabel, timeByMember, earnedValue, scheduleRisk }
+    ),
+    [portfolios, programs, projects, teamMembers, milestones, reportScope, dateRangeLabel, timeByMember, earnedValue, scheduleRisk]
+  );
 
   const handleExportPDF = async () => {
     setIsExporting(true);
@@ -622,6 +438,23 @@ export default function Reports() {
     }
   };
 
+  const handleExportXLSX = () => {
+    try {
+      downloadReportXLSX(reportData);
+      toast({
+        title: 'Report exported!',
+        description: 'Your Excel workbook has been downloaded.',
+      });
+    } catch (error) {
+      console.error('Export error:', error);
+      toast({
+        title: 'Export failed',
+        description: 'Could not generate the Excel workbook. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   return (
     <MainLayout>
       <div className="space-y-6">
@@ -688,8 +521,16 @@ export default function Reports() {
                     <FileSpreadsheet className="mr-2 h-4 w-4" />
                     Export as CSV
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleExportXLSX}>
+                    <FileSpreadsheet className="mr-2 h-4 w-4" />
+                    Export as Excel
+                  </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
+              <Button variant="outline" onClick={() => setShowScheduleDialog(true)}>
+                <CalendarClock className="mr-2 h-4 w-4" />
+                Schedule
+              </Button>
               <Button onClick={() => setShowSendDialog(true)}>
                 <Send className="mr-2 h-4 w-4" />
                 Send Update
@@ -834,6 +675,12 @@ export default function Reports() {
                 Activity Log
               </TabsTrigger>
             </PermissionGate>
+            <PermissionGate orgPermission="view_project_reports" fallback={null}>
+              <TabsTrigger value="variance">
+                <GitCompareArrows className="mr-2 h-4 w-4" />
+                Variance
+              </TabsTrigger>
+            </PermissionGate>
             <PermissionGate orgPermission="view_budget">
               <TabsTrigger value="budget">
                 <DollarSign className="mr-2 h-4 w-4" />
@@ -850,6 +697,10 @@ export default function Reports() {
               <FileText className="mr-2 h-4 w-4" />
               Status Update
             </TabsTrigger>
+            <TabsTrigger value="custom">
+              <Settings className="mr-2 h-4 w-4" />
+              Custom
+            </TabsTrigger>
           </TabsList>
 
           {/* Overview Tab */}
@@ -861,7 +712,7 @@ export default function Reports() {
                   <CardDescription>Current status of all tasks</CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <div id="report-chart-task-distribution" className="h-[300px] bg-background p-2 rounded">
+                  <div className="h-[300px] bg-background p-2 rounded">
                     <ResponsiveContainer width="100%" height="100%">
                       <RechartsPieChart>
                         <Pie
@@ -891,7 +742,7 @@ export default function Reports() {
                   <CardDescription>Progress by project</CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <div id="report-chart-project-progress" className="h-[350px] bg-background p-2 rounded">
+                  <div className="h-[350px] bg-background p-2 rounded">
                     <ResponsiveContainer width="100%" height="100%">
                       <BarChart data={projectProgressData} layout="vertical" margin={{ left: 20, right: 20 }}>
                         <CartesianGrid strokeDasharray="3 3" className="stroke-muted" horizontal={false} />
@@ -1182,7 +1033,7 @@ export default function Reports() {
                   <CardDescription>Allocation vs capacity per team member</CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <div id="report-chart-team-utilization" className="h-[300px] bg-background p-2 rounded">
+                  <div className="h-[300px] bg-background p-2 rounded">
                     <ResponsiveContainer width="100%" height="100%">
                       <BarChart data={teamWorkloadData}>
                         <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
@@ -1341,6 +1192,11 @@ export default function Reports() {
             />
           </TabsContent>
 
+          {/* Custom Reports Tab */}
+          <TabsContent value="custom" className="space-y-4">
+            <CustomReportBuilder reportData={reportData} />
+          </TabsContent>
+
           {/* Portfolios Tab */}
           <TabsContent value="portfolios" className="space-y-4">
             <Card>
@@ -1349,7 +1205,7 @@ export default function Reports() {
                 <CardDescription>High-level metrics across all portfolios</CardDescription>
               </CardHeader>
               <CardContent>
-                <div id="report-chart-portfolio-progress" className="space-y-4">
+                <div className="space-y-4">
                   {portfolioProgressData.map((port, idx) => (
                     <div key={idx} className="rounded-lg border border-border p-4">
                       <div className="flex items-center justify-between mb-3">
@@ -1383,7 +1239,7 @@ export default function Reports() {
                   <CardTitle className="text-lg">Program Status</CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div id="report-chart-program-status" className="h-[250px]">
+                  <div className="h-[250px]">
                     <ResponsiveContainer width="100%" height="100%">
                       <RechartsPieChart>
                         <Pie data={programStatusData} cx="50%" cy="50%" innerRadius={50} outerRadius={80} dataKey="value" label={({ name, value }) => value > 0 ? `${name}: ${value}` : ''}>
@@ -1402,7 +1258,7 @@ export default function Reports() {
                   <CardTitle className="text-lg">Program Progress</CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div id="report-chart-program-progress" className="h-[250px]">
+                  <div className="h-[250px]">
                     <ResponsiveContainer width="100%" height="100%">
                       <BarChart data={programProgressData} layout="vertical">
                         <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
@@ -1444,6 +1300,12 @@ export default function Reports() {
           {/* Budget Variance Tab */}
           <TabsContent value="budget" className="space-y-4">
             <BudgetVarianceChart programs={filteredPrograms} projects={filteredProjects} />
+            <EarnedValueReport report={earnedValue} programs={filteredPrograms} projects={filteredProjects} />
+          </TabsContent>
+
+          {/* Schedule Variance Tab */}
+          <TabsContent value="variance" className="space-y-4">
+            <ScheduleVarianceReport programs={filteredPrograms} projects={filteredProjects} milestones={filteredMilestones} />
           </TabsContent>
 
           {/* Activity Log Tab */}
@@ -1584,6 +1446,19 @@ export default function Reports() {
         onClose={() => setShowSendDialog(false)}
         reportData={reportData}
       />
+
+      {/* Scheduled Reports Dialog */}
+      <ReportSubscriptionsDialog
+        open={showScheduleDialog}
+        onClose={() => setShowScheduleDialog(false)}
+        defaults={{
+          // Custom reports aren't scheduled; the overview is
+          report_type: reportType === 'custom' ? 'overview' : (reportType as ReportType),
+          portfolio_id: selectedPortfolioId === 'all' ? null : selectedPortfolioId,
+          program_id: selectedProgramId === 'all' ? null : selectedProgramId,
+          date_range: dateRange as ReportDateRange,
+        }}
+      />
     </MainLayout>
   );
 }
\ No newline at end of file
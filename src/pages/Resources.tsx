@@ -1,6 +1,7 @@
 import { useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { Plus, Search, Filter, Users, AlertTriangle, CheckCircle2, Clock, UserPlus } from 'lucide-react';
+import { Plus, Search, Filter, Users, AlertTriangle, CheckCircle2, Clock, UserPlus, Timer } from 'lucide-react';
+import { addDays, format, startOfWeek } from 'date-fns';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { PageHeader } from '@/components/shared/PageHeader';
 import { PageSection } from '@/components/shared/PageSection';
@@ -35,9 +36,13 @@ import { usePortfolioData } from '@/contexts/PortfolioDataContext';
 import { TeamMember, Task } from '@/types/portfolio';
 import { useCreateContact, useUpdateContact } from '@/hooks/useContacts';
 import { useCreateTeamMember, useUpdateTeamMember } from '@/hooks/useTeamMembers';
+import { useTimeEntries } from '@/hooks/useTimeEntries';
+import type { TimeEntry } from '@/domains/timesheets/model';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 
+const EMPTY_TIME_ENTRIES: TimeEntry[] = [];
+
 type AllocationFilter = 'all' | 'overallocated' | 'at-capacity' | 'balanced' | 'available';
 
 export default function Resources() {
@@ -60,6 +65,17 @@ export default function Resources() {
   // All tasks are now available directly from context
   const allTasks = tasks;
 
+  const [thisWeek] = useState(() => {
+    const start = startOfWeek(new Date(), { weekStartsOn: 1 });
+    return { from: format(start, 'yyyy-MM-dd'), to: format(addDays(start, 6), 'yyyy-MM-dd') };
+  });
+  const { data: weekEntries = EMPTY_TIME_ENTRIES } = useTimeEntries(thisWeek);
+  const loggedByMember = useMemo(() => {
+    const totals = new Map<string, number>();
+    weekEntries.forEach(e => totals.set(e.member_id, (totals.get(e.member_id) ?? 0) + Number(e.hours)));
+    return totals;
+  }, [weekEntries]);
+
   const filteredMembers = useMemo(() => {
     return members.filter(member => {
       // Search filter
@@ -99,7 +115,9 @@ export default function Resources() {
       return ratio >= 85 && ratio < 100;
     }).length,
     available: members.filter(m => (m.allocation / m.capacity) * 100 < 50).length,
-  }), [members]);
+    loggedHours: Math.round(members.reduce((acc, m) => acc + (loggedByMember.get(m.id) ?? 0), 0) * 10) / 10,
+    weeklyCapacity: members.reduce((acc, m) => acc + m.capacity, 0),
+  }), [members, loggedByMember]);
 
   const handleSaveMember = async (
     memberData: Omit<TeamMember, 'id'> & { id?: string }, 
@@ -123,6 +141,7 @@ export default function Resources() {
         const newMember = await createTeamMember.mutateAsync({
           contact_id: newContact.id,
           capacity: memberData.capacity,
+          hourly_rate: memberData.hourlyRate,
         });
 
         memberId = newMember.id;
@@ -140,6 +159,7 @@ export default function Resources() {
         updateTeamMember.mutate({
           id: memberId,
           capacity: memberData.capacity,
+          hourly_rate: memberData.hourlyRate,
         });
       }
 
@@ -219,7 +239,7 @@ export default function Resources() {
         </motion.div>
 
         {/* Stats Cards */}
-        <div className="grid grid-cols-2 gap-3 sm:gap-4 lg:grid-cols-5">
+        <div className="grid grid-cols-2 gap-3 sm:gap-4 lg:grid-cols-6">
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -296,7 +316,7 @@ export default function Resources() {
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 0.3 }}
-            className="rounded-xl border border-border bg-card p-3 sm:p-5 shadow-card col-span-2 lg:col-span-1"
+            className="rounded-xl border border-border bg-card p-3 sm:p-5 shadow-card"
           >
             <div className="flex items-center gap-2 sm:gap-3">
               <div className="flex h-8 w-8 sm:h-10 sm:w-10 items-center justify-center rounded-lg bg-success/10">
@@ -310,6 +330,26 @@ export default function Resources() {
               </div>
             </div>
           </motion.div>
+
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.33 }}
+            className="rounded-xl border border-border bg-card p-3 sm:p-5 shadow-card"
+          >
+            <div className="flex items-center gap-2 sm:gap-3">
+              <div className="flex h-8 w-8 sm:h-10 sm:w-10 items-center justify-center rounded-lg bg-primary/10">
+                <Timer className="h-4 w-4 sm:h-5 sm:w-5 text-primary" />
+              </div>
+              <div>
+                <p className="text-lg sm:text-2xl font-bold text-foreground">
+                  {stats.loggedHours}
+                  <span className="text-xs sm:text-sm font-normal text-muted-foreground">/{stats.weeklyCapacity}h</span>
+                </p>
+                <p className="text-xs sm:text-sm text-muted-foreground">Logged</p>
+              </div>
+            </div>
+          </motion.div>
         </div>
 
         {/* Filters */}
@@ -356,7 +396,7 @@ export default function Resources() {
                   key={member.id}
                   member={member}
                   projects={projects}
-                  
+                  loggedHours={loggedByMember.get(member.id) ?? 0}
                   onDelete={setDeletingMember}
                   onClick={handleMemberClick}
                 />
@@ -5,13 +5,16 @@ import { QuietAlert } from '@/components/shared/QuietAlert';
 import { EmptyState } from '@/components/shared/EmptyState';
 import { ScheduleSidebar } from '@/components/schedule/ScheduleSidebar';
 import { ScheduleCalendar } from '@/components/schedule/ScheduleCalendar';
+import { CalendarSyncDialog } from '@/components/schedule/CalendarSyncDialog';
+import { Button } from '@/components/ui/button';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { usePortfolioData } from '@/contexts/PortfolioDataContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { useScheduleBlocks, useCreateScheduleBlock, useUpdateScheduleBlock, useDeleteScheduleBlock } from '@/hooks/useScheduleBlocks';
 import { setMinutes, setHours, differenceInMinutes, parseISO } from 'date-fns';
-import { User, Users, Flag, Calendar } from 'lucide-react';
+import { User, Users, Flag, Calendar, CalendarSync } from 'lucide-react';
 import { useTaskDependencyIds } from '@/hooks/useTaskDependencies';
+import { useScheduleShift, useApplyScheduleShift, type ScheduleShiftPreview } from '@/hooks/useScheduleShift';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import type { ScheduleSidebarItem } from '@/components/schedule/ScheduleSidebar';
@@ -42,23 +45,22 @@ export default function Schedule() {
   const updateBlock = useUpdateScheduleBlock();
   const { getForTask } = useTaskDependencyIds();
 
+  const { previewShift } = useScheduleShift();
+  const applyShift = useApplyScheduleShift();
+
   type CascadePreview = {
-    taskId: string;
     taskTitle: string;
-    newStartUtc: string;
-    newEndUtc: string;
-    oldStartUtc: string;
-    oldEndUtc: string;
-    successorIds: string[];
+    preview: ScheduleShiftPreview;
   };
   const [cascadePreview, setCascadePreview] = useState<CascadePreview | null>(null);
   const [conflictCount, setConflictCount] = useState(0);
+  const [calendarSyncOpen, setCalendarSyncOpen] = useState(false);
 
-  const handleCascadeApply = useCallback(() => {
+  const handleCascadeApply = useCallback((cascade: boolean) => {
     if (!cascadePreview) return;
-    // Apply cascade logic here
+    applyShift.mutate(cascade ? cascadePreview.preview.withSuccessors : cascadePreview.preview.taskOnly);
     setCascadePreview(null);
-  }, [cascadePreview]);
+  }, [cascadePreview, applyShift]);
 
   const handleCascadeCancel = useCallback(() => {
     setCascadePreview(null);
@@ -115,12 +117,19 @@ export default function Schedule() {
         const taskId = blockId.slice(5);
         const startDate = new Date(newStartUtc).toISOString().slice(0, 10);
         const dueDate = new Date(newEndUtc).toISOString().slice(0, 10);
+        // Ask before pushing successors out; plain moves apply straight away.
+        const preview = previewShift(taskId, { startDate, dueDate });
+        if (preview.withSuccessors.taskChanges.some((c) => !c.isRoot)) {
+          const taskTitle = tasks.find((t) => t.id === taskId)?.title ?? 'Task';
+          setCascadePreview({ taskTitle, preview });
+          return;
+        }
         updateTask(taskId, { startDate, dueDate });
       } else {
         updateBlock.mutate({ id: blockId, start_utc: newStartUtc, end_utc: newEndUtc });
       }
     },
-    [updateBlock, updateTask]
+    [updateBlock, updateTask, previewShift, tasks]
   );
 
   const handleCreateBlock = useCallback(
@@ -168,34 +177,51 @@ export default function Schedule() {
           </div>
         )}
 
-        {cascadePreview && (
-          <div className="flex-shrink-0 px-4 py-2 border-b border-border/80 bg-muted/30">
-            <QuietAlert className="flex flex-wrap items-center gap-2">
-              <span className="text-muted-foreground">
-                Moving &quot;{cascadePreview.taskTitle}&quot; will reschedule {cascadePreview.successorIds.length} successor(s):{' '}
-                {tasks.filter((t) => cascadePreview.successorIds.includes(t.id)).map((t) => t.title).join(', ')}.
-              </span>
-              <div className="flex gap-2">
-                <button
-                  type="button"
-                  onClick={handleCascadeApply}
-                  className="text-xs font-medium text-primary hover:underline focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 rounded px-2 py-1"
-                  aria-label="Apply reschedule to successors"
-                >
-                  Apply
-                </button>
-                <button
-                  type="button"
-                  onClick={handleCascadeCancel}
-                  className="text-xs font-medium text-muted-foreground hover:underline focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 rounded px-2 py-1"
-                  aria-label="Cancel cascade"
-                >
-                  Cancel
-                </button>
-              </div>
-            </QuietAlert>
-          </div>
-        )}
+        {cascadePreview && (() => {
+          const successors = cascadePreview.preview.withSuccessors.taskChanges.filter((c) => !c.isRoot);
+          const lateMilestones = cascadePreview.preview.withSuccessors.milestoneImpacts.filter((m) => m.isLate && !m.wasLate);
+          return (
+            <div className="flex-shrink-0 px-4 py-2 border-b border-border/80 bg-muted/30">
+              <QuietAlert className="flex flex-wrap items-center gap-2">
+                <span className="text-muted-foreground">
+                  Moving &quot;{cascadePreview.taskTitle}&quot; will reschedule {successors.length} successor(s):{' '}
+                  {successors.map((c) => c.taskTitle).join(', ')}.
+                  {lateMilestones.length > 0 && (
+                    <span className="ml-1 text-destructive">
+                      Puts {lateMilestones.map((m) => m.title).join(', ')} past due.
+                    </span>
+                  )}
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => handleCascadeApply(true)}
+                    className="text-xs font-medium text-primary hover:underline focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 rounded px-2 py-1"
+                    aria-label="Apply reschedule to successors"
+                  >
+                    Apply
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleCascadeApply(false)}
+                    className="text-xs font-medium text-muted-foreground hover:underline focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 rounded px-2 py-1"
+                    aria-label="Move only this task"
+                  >
+                    Only this task
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleCascadeCancel}
+                    className="text-xs font-medium text-muted-foreground hover:underline focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 rounded px-2 py-1"
+                    aria-label="Cancel cascade"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </QuietAlert>
+            </div>
+          );
+        })()}
 
         <div className="flex-1 flex min-h-0 p-4 gap-4">
           <aside className="w-72 flex-shrink-0 flex flex-col min-h-0">
@@ -216,18 +242,24 @@ export default function Schedule() {
           </aside>
 
           <main className="flex-1 flex flex-col min-h-0 min-w-0">
-            <Tabs value={viewMode} onValueChange={(v) => setViewMode(v as ViewMode)} className="flex-shrink-0 mb-2">
-              <TabsList className="h-9 bg-muted/50">
-                <TabsTrigger value="my-schedule" className="gap-1.5 text-xs">
-                  <User className="h-3.5 w-3.5" />
-                  My schedule
-                </TabsTrigger>
-                <TabsTrigger value="my-team" className="gap-1.5 text-xs">
-                  <Users className="h-3.5 w-3.5" />
-                  My team
-                </TabsTrigger>
-              </TabsList>
-            </Tabs>
+            <div className="flex flex-shrink-0 items-center justify-between gap-2 mb-2">
+              <Tabs value={viewMode} onValueChange={(v) => setViewMode(v as ViewMode)}>
+                <TabsList className="h-9 bg-muted/50">
+                  <TabsTrigger value="my-schedule" className="gap-1.5 text-xs">
+                    <User className="h-3.5 w-3.5" />
+                    My schedule
+                  </TabsTrigger>
+                  <TabsTrigger value="my-team" className="gap-1.5 text-xs">
+                    <Users className="h-3.5 w-3.5" />
+                    My team
+                  </TabsTrigger>
+                </TabsList>
+              </Tabs>
+              <Button variant="outline" size="sm" className="gap-1.5 text-xs" onClick={() => setCalendarSyncOpen(true)}>
+                <CalendarSync className="h-3.5 w-3.5" />
+                Calendar sync
+              </Button>
+            </div>
             <div className="flex-1 min-h-0 flex flex-col">
               <ScheduleCalendar
                 weekStart={weekStart}
@@ -251,6 +283,12 @@ export default function Schedule() {
           </main>
         </div>
       </div>
+      <CalendarSyncDialog
+        open={calendarSyncOpen}
+        onOpenChange={setCalendarSyncOpen}
+        teamMembers={teamMembers}
+        currentTeamMemberId={currentTeamMemberId}
+      />
     </MainLayout>
   );
 }
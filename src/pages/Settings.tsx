@@ -1,11 +1,16 @@
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { User, Bell, Shield, Palette, Globe, Users, Scale, Building2, Bug } from 'lucide-react';
+import { User, Bell, Shield, Palette, Globe, Users, Scale, Building2, Bug, CalendarDays, GitPullRequestArrow, Workflow, Webhook, KeyRound } from 'lucide-react';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { UnifiedRolesManager } from '@/components/settings/UnifiedRolesManager';
 import { NotificationSettings } from '@/components/settings/NotificationSettings';
 import { AllocationSettings } from '@/components/settings/AllocationSettings';
+import { CalendarSettings } from '@/components/settings/CalendarSettings';
+import { ApprovalPolicySettings } from '@/components/settings/ApprovalPolicySettings';
+import { AutomationSettings } from '@/components/settings/AutomationSettings';
+import { WebhookSettings } from '@/components/settings/WebhookSettings';
+import { ApiTokenSettings } from '@/components/settings/ApiTokenSettings';
 import { SecuritySettings } from '@/components/settings/SecuritySettings';
 import { AppearanceSettings } from '@/components/settings/AppearanceSettings';
 import { LanguageSettings } from '@/components/settings/LanguageSettings';
@@ -79,6 +84,38 @@ export default function Settings() {
                 <span className="hidden sm:inline">Allocation</span>
               </TabsTrigger>
             </PermissionGate>
+            {/* Calendar tab - use real role for security */}
+            <PermissionGate allowedOrgRoles={['owner', 'admin', 'manager']} useRealRole>
+              <TabsTrigger value="calendar" className="gap-2">
+                <CalendarDays className="h-4 w-4" />
+                <span className="hidden sm:inline">Calendar</span>
+              </TabsTrigger>
+            </PermissionGate>
+            {/* Approvals tab - use real role for security */}
+            <PermissionGate allowedOrgRoles={['owner', 'admin', 'manager']} useRealRole>
+              <TabsTrigger value="approvals" className="gap-2">
+                <GitPullRequestArrow className="h-4 w-4" />
+                <span className="hidden sm:inline">Approvals</span>
+              </TabsTrigger>
+            </PermissionGate>
+            {/* Automations tab - use real role for security */}
+            <PermissionGate allowedOrgRoles={['owner', 'admin', 'manager']} useRealRole>
+              <TabsTrigger value="automations" className="gap-2">
+                <Workflow className="h-4 w-4" />
+                <span className="hidden sm:inline">Automations</span>
+              </TabsTrigger>
+            </PermissionGate>
+            {/* Webhooks tab - use real role for security */}
+            <PermissionGate allowedOrgRoles={['owner', 'admin', 'manager']} useRealRole>
+              <TabsTrigger value="webhooks" className="gap-2">
+                <Webhook className="h-4 w-4" />
+                <span className="hidden sm:inline">Webhooks</span>
+              </TabsTrigger>
+            </PermissionGate>
+            <TabsTrigger value="api-tokens" className="gap-2">
+              <KeyRound className="h-4 w-4" />
+              <span className="hidden sm:inline">API tokens</span>
+            </TabsTrigger>
             <TabsTrigger value="developer" className="gap-2">
               <Bug className="h-4 w-4" />
               <span className="hidden sm:inline">Developer</span>
@@ -194,6 +231,66 @@ export default function Settings() {
             </motion.div>
           </TabsContent>
 
+          {/* Working Calendar Tab */}
+          <TabsContent value="calendar" className="mt-4 sm:mt-6">
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.1 }}
+              className="rounded-xl border border-border bg-card p-4 sm:p-6 shadow-card"
+            >
+              <CalendarSettings />
+            </motion.div>
+          </TabsContent>
+
+          {/* Approval Chains Tab */}
+          <TabsContent value="approvals" className="mt-4 sm:mt-6">
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.1 }}
+              className="rounded-xl border border-border bg-card p-4 sm:p-6 shadow-card"
+            >
+              <ApprovalPolicySettings />
+            </motion.div>
+          </TabsContent>
+
+          {/* Automations Tab */}
+          <TabsContent value="automations" className="mt-4 sm:mt-6">
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.1 }}
+              className="rounded-xl border border-border bg-card p-4 sm:p-6 shadow-card"
+            >
+              <AutomationSettings />
+            </motion.div>
+          </TabsContent>
+
+          {/* Webhooks Tab */}
+          <TabsContent value="webhooks" className="mt-4 sm:mt-6">
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.1 }}
+              className="rounded-xl border border-border bg-card p-4 sm:p-6 shadow-card"
+            >
+              <WebhookSettings />
+            </motion.div>
+          </TabsContent>
+
+          {/* API Tokens Tab */}
+          <TabsContent value="api-tokens" className="mt-4 sm:mt-6">
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.1 }}
+              className="rounded-xl border border-border bg-card p-4 sm:p-6 shadow-card"
+            >
+              <ApiTokenSettings />
+            </motion.div>
+          </TabsContent>
+
           {/* Developer Tab */}
           <TabsContent value="developer" className="mt-4 sm:mt-6">
             <motion.div
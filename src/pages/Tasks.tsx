@@ -19,6 +19,8 @@ import { PageHeader } from '@/components/shared/PageHeader';
 import { PageSection } from '@/components/shared/PageSection';
 import { EmptyState } from '@/components/shared/EmptyState';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { TaskList } from '@/components/tasks/TaskList';
 import { TaskKanban } from '@/components/tasks/TaskKanban';
 import { TaskGantt } from '@/components/tasks/TaskGantt';
@@ -32,6 +34,7 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Calendar as CalendarComponent } from '@/components/ui/calendar';
 import { useToast } from '@/hooks/use-toast';
 import { useReorderTasks, useReorderSubtasks } from '@/hooks/useTasks';
+import { useDeleteRecurringTask } from '@/hooks/useTaskRecurrences';
 import { useScheduleBlocks } from '@/hooks/useScheduleBlocks';
 import { usePermissions } from '@/contexts/PermissionsContext';
 import { usePortfolioData } from '@/contexts/PortfolioDataContext';
@@ -49,7 +52,7 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { cn } from '@/lib/utils';
-import { Task } from '@/types/portfolio';
+import { Task, type RecurrenceEditScope } from '@/types/portfolio';
 import { canManageTaskForUser } from '@/domains/permissions/service'; // Task-level permission now delegated to permissions domain
 import { defaultTaskStatuses, getTaskStatusOptions, defaultTaskPriorities, getTaskPriorityOptions } from '@/lib/workflow';
 
@@ -89,6 +92,8 @@ export default function Tasks() {
   const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
   const [newTaskDefaults, setNewTaskDefaults] = useState<{ status?: Task['status']; assigneeId?: string } | undefined>(undefined);
   const [deleteTaskId, setDeleteTaskId] = useState<string | null>(null);
+  const [deleteScope, setDeleteScope] = useState<RecurrenceEditScope>('this');
+  const deleteRecurringTask = useDeleteRecurringTask();
 
   // Always derive the editing task from the latest task list so inline edits stay in sync with the modal
   const editingTask = useMemo(() => {
@@ -332,11 +337,18 @@ export default function Tasks() {
       return;
     }
 
-    deleteTask(deleteTaskId);
-    toast({ title: 'Task deleted', description: 'The task has been deleted.' });
+    if (task?.recurrenceId && deleteScope !== 'this') {
+      deleteRecurringTask.mutate({ taskId: deleteTaskId, scope: deleteScope });
+    } else {
+      deleteTask(deleteTaskId);
+      toast({ title: 'Task deleted', description: 'The task has been deleted.' });
+    }
     setDeleteTaskId(null);
+    setDeleteScope('this');
   };
 
+  const deletingTask = deleteTaskId ? tasksWithMeta.find((t) => t.id === deleteTaskId) : undefined;
+
   const handleTaskUpdate = (taskId: string, updates: Partial<Task>) => {
     const task = tasksWithMeta.find((t) => t.id === taskId);
     if (task && !canManageTask(task)) {
@@ -761,14 +773,30 @@ export default function Tasks() {
       />
 
       {/* Delete Confirmation */}
-      <AlertDialog open={!!deleteTaskId} onOpenChange={() => setDeleteTaskId(null)}>
+      <AlertDialog open={!!deleteTaskId} onOpenChange={() => { setDeleteTaskId(null); setDeleteScope('this'); }}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Task</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this task? This action cannot be undone.
+              {deletingTask?.recurrenceId
+                ? 'This is a repeating task. Completed occurrences are always kept. This action cannot be undone.'
+                : 'Are you sure you want to delete this task? This action cannot be undone.'}
             </AlertDialogDescription>
           </AlertDialogHeader>
+          {deletingTask?.recurrenceId && (
+            <RadioGroup value={deleteScope} onValueChange={(v) => setDeleteScope(v as RecurrenceEditScope)} className="gap-3">
+              {([
+                ['this', 'This task'],
+                ['following', 'This and following tasks'],
+                ['all', 'All tasks in the series'],
+              ] as const).map(([value, label]) => (
+                <div key={value} className="flex items-center gap-2">
+                  <RadioGroupItem value={value} id={`delete-scope-${value}`} />
+                  <Label htmlFor={`delete-scope-${value}`} className="font-normal">{label}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+          )}
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
             <AlertDialogAction onClick={handleDeleteTask} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
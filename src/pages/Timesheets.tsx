@@ -0,0 +1,177 @@
+import { useEffect, useMemo, useState } from 'react';
+import { addDays, addWeeks, format, startOfWeek } from 'date-fns';
+import { ChevronLeft, ChevronRight, ClipboardCheck, Timer, UserX } from 'lucide-react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { PageHeader } from '@/components/shared/PageHeader';
+import { PageSection } from '@/components/shared/PageSection';
+import { EmptyState } from '@/components/shared/EmptyState';
+import { QuietAlert } from '@/components/shared/QuietAlert';
+import { TimesheetGrid } from '@/components/timesheets/TimesheetGrid';
+import { TimesheetApprovals } from '@/components/timesheets/TimesheetApprovals';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { usePortfolioData } from '@/contexts/PortfolioDataContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/contexts/PermissionsContext';
+import { useTimeApprovalProjectIds, useTimeEntries, useStopTimer } from '@/hooks/useTimeEntries';
+import type { TimeEntry } from '@/domains/timesheets/model';
+
+const EMPTY_ENTRIES: TimeEntry[] = [];
+const EMPTY_PROJECT_IDS: string[] = [];
+
+export default function Timesheets() {
+  const { projects, tasks, teamMembers } = usePortfolioData();
+  const { user } = useAuth();
+  const { currentOrgRole } = usePermissions();
+  const isManager = ['owner', 'admin', 'manager'].includes(currentOrgRole);
+
+  const currentTeamMemberId = useMemo(() => {
+    const email = user?.email?.toLowerCase();
+    if (!email) return null;
+    return teamMembers.find((m) => m.email?.toLowerCase() === email)?.id ?? null;
+  }, [teamMembers, user?.email]);
+
+  const [tab, setTab] = useState('week');
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [memberId, setMemberId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!memberId && currentTeamMemberId) setMemberId(currentTeamMemberId);
+  }, [memberId, currentTeamMemberId]);
+
+  const from = format(weekStart, 'yyyy-MM-dd');
+  const to = format(addDays(weekStart, 6), 'yyyy-MM-dd');
+  const { data: weekEntries = EMPTY_ENTRIES } = useTimeEntries({ memberId, from, to }, { enabled: !!memberId });
+  const stopTimer = useStopTimer();
+
+  // The running timer may be on an entry outside the week shown
+  const { data: running = EMPTY_ENTRIES } = useTimeEntries(
+    { memberId: currentTeamMemberId, running: true },
+    { enabled: !!currentTeamMemberId }
+  );
+  const runningEntry = running[0];
+
+  const { data: memberProjectIds = EMPTY_PROJECT_IDS } = useTimeApprovalProjectIds(currentTeamMemberId);
+  const approvableProjectIds = useMemo(() => {
+    if (isManager) return null;
+    const ids = new Set(memberProjectIds);
+    projects.filter((p) => p.ownerId && p.ownerId === user?.id).forEach((p) => ids.add(p.id));
+    return ids;
+  }, [isManager, memberProjectIds, projects, user?.id]);
+  const canApprove = approvableProjectIds === null || approvableProjectIds.size > 0;
+
+  const { data: submitted = EMPTY_ENTRIES } = useTimeEntries({ status: 'submitted' }, { enabled: canApprove });
+  const pendingApprovals = useMemo(
+    () => (approvableProjectIds === null ? submitted : submitted.filter((e) => approvableProjectIds.has(e.project_id))),
+    [submitted, approvableProjectIds]
+  );
+
+  const runningTask = runningEntry && tasks.find((t) => t.id === runningEntry.task_id);
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <PageHeader
+          title="Timesheets"
+          description="Log hours against tasks, submit your week, and approve your team's time"
+        />
+
+        {runningEntry && currentTeamMemberId && (
+          <QuietAlert className="flex flex-wrap items-center gap-2">
+            <Timer className="h-4 w-4 text-primary" />
+            <span className="text-muted-foreground">
+              Timer running on &quot;{runningTask?.title ?? 'task'}&quot; since{' '}
+              {format(new Date(runningEntry.timer_started_at!), 'h:mm a')}.
+            </span>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={stopTimer.isPending}
+              onClick={() => stopTimer.mutate(currentTeamMemberId)}
+            >
+              Stop
+            </Button>
+          </QuietAlert>
+        )}
+
+        <Tabs value={tab} onValueChange={setTab} className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="week">
+              <Timer className="mr-2 h-4 w-4" />
+              Timesheet
+            </TabsTrigger>
+            {canApprove && (
+              <TabsTrigger value="approvals">
+                <ClipboardCheck className="mr-2 h-4 w-4" />
+                Approvals{pendingApprovals.length > 0 && ` (${pendingApprovals.length})`}
+              </TabsTrigger>
+            )}
+          </TabsList>
+
+          <TabsContent value="week">
+            <PageSection>
+              <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="icon" aria-label="Previous week" onClick={() => setWeekStart((w) => addWeeks(w, -1))}>
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="icon" aria-label="Next week" onClick={() => setWeekStart((w) => addWeeks(w, 1))}>
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setWeekStart(startOfWeek(new Date(), { weekStartsOn: 1 }))}>
+                    This week
+                  </Button>
+                  <span className="text-sm font-medium text-foreground">
+                    {format(weekStart, 'MMM d')} – {format(addDays(weekStart, 6), 'MMM d, yyyy')}
+                  </span>
+                </div>
+                {isManager && (
+                  <Select value={memberId ?? ''} onValueChange={setMemberId}>
+                    <SelectTrigger className="w-[220px]">
+                      <SelectValue placeholder="Select team member" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {teamMembers.map((m) => (
+                        <SelectItem key={m.id} value={m.id}>
+                          {m.name}{m.id === currentTeamMemberId ? ' (you)' : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+
+              {memberId ? (
+                <TimesheetGrid
+                  memberId={memberId}
+                  weekStart={weekStart}
+                  entries={weekEntries}
+                  tasks={tasks}
+                  projects={projects}
+                />
+              ) : (
+                <EmptyState
+                  icon={UserX}
+                  title="No team member profile"
+                  description="Time is logged against your team member record. Ask an admin to add you in Resources."
+                />
+              )}
+            </PageSection>
+          </TabsContent>
+
+          {canApprove && (
+            <TabsContent value="approvals">
+              <TimesheetApprovals
+                entries={pendingApprovals}
+                tasks={tasks}
+                projects={projects}
+                teamMembers={teamMembers}
+              />
+            </TabsContent>
+          )}
+        </Tabs>
+      </div>
+    </MainLayout>
+  );
+}
@@ -9,11 +9,17 @@ import type { Task, Project, Milestone } from './portfolio';
 
 export type DependencyType = 'blocks' | 'relates_to';
 
+/** Scheduling link: finish-to-start, start-to-start, finish-to-finish, start-to-finish. */
+export type DependencyLinkType = 'FS' | 'SS' | 'FF' | 'SF';
+
 export interface TaskDependencyEdge {
   id: string;
   predecessorTaskId: string;
   successorTaskId: string;
   type: DependencyType;
+  linkType: DependencyLinkType;
+  /** Days added to the link; negative values are leads (overlap). */
+  lagDays: number;
   orgId: string;
   createdAt?: string;
 }
@@ -29,6 +35,15 @@ export interface CriticalPathNode {
   slack: number;
   isCritical: boolean;
   durationHours: number;
+  /** Working days on the assignee's calendar */
+  durationDays: number;
+  /** Calendar dates (yyyy-MM-dd) from the working-calendar passes */
+  earliestStartDate: string;
+  earliestFinishDate: string;
+  latestStartDate: string;
+  latestFinishDate: string;
+  /** Working days the task can slip without moving its project's finish */
+  slackDays: number;
 }
 
 export interface DownstreamImpact {
@@ -47,18 +62,73 @@ export interface CircularDependencyResult {
   suggestedAlternatives: { removeEdge: { pred: string; succ: string }; reason: string }[];
 }
 
+// --- Schedule Risk (Monte Carlo) ---
+
+/** Simulated completion of a project or milestone; dates are yyyy-MM-dd */
+export interface ScheduleForecast {
+  /** Finish with every task at its most likely estimate */
+  deterministicFinish: string;
+  p50: string;
+  p80: string;
+  p90: string;
+  /** Project end date / milestone due date, when set */
+  targetDate?: string;
+  /** Share of iterations (0–1) finishing on or before the target date */
+  onTimeProbability?: number;
+}
+
+export interface ProjectScheduleForecast extends ScheduleForecast {
+  projectId: string;
+}
+
+export interface MilestoneScheduleForecast extends ScheduleForecast {
+  milestoneId: string;
+  projectId: string;
+}
+
+export interface TaskCriticality {
+  taskId: string;
+  projectId: string;
+  /** Share of iterations (0–1) in which the task had no float */
+  criticalityIndex: number;
+}
+
+export interface ScheduleSimulationResult {
+  iterations: number;
+  projects: ProjectScheduleForecast[];
+  milestones: MilestoneScheduleForecast[];
+  tasks: TaskCriticality[];
+  /** Tasks with an optimistic/pessimistic range; the others keep their estimate in every iteration */
+  threePointTaskCount: number;
+  taskCount: number;
+}
+
 // --- Risk Register ---
 
 export type RiskStatus = 'identified' | 'active' | 'mitigated' | 'realized';
 
 export type RiskSeverity = 'low' | 'medium' | 'high' | 'critical';
 
+/** 1 (rare / negligible) to 5 (almost certain / severe) */
+export type RiskScoreLevel = 1 | 2 | 3 | 4 | 5;
+
 export interface Risk {
   id: string;
   title: string;
   description: string;
   status: RiskStatus;
+  /** Derived from probability × impact on save (see src/lib/riskScoring.ts) */
   severity: RiskSeverity;
+  /** Inherent scores, before mitigation */
+  probability: RiskScoreLevel;
+  impact: RiskScoreLevel;
+  /** Expected scores once the mitigation plan is in place; unset = not assessed */
+  residualProbability?: RiskScoreLevel;
+  residualImpact?: RiskScoreLevel;
+  /** Cost if the risk occurs, in the org currency */
+  costExposure?: number;
+  /** Working days the schedule slips if the risk occurs */
+  scheduleExposureDays?: number;
   projectId: string;
   programId?: string;
   ownerId?: string;
@@ -72,6 +142,20 @@ export interface Risk {
   updatedAt: string;
 }
 
+/** A risk's status and scores from a point in time (written on every change) */
+export interface RiskScoreHistoryEntry {
+  riskId: string;
+  projectId: string;
+  status: RiskStatus;
+  probability: RiskScoreLevel;
+  impact: RiskScoreLevel;
+  residualProbability?: RiskScoreLevel;
+  residualImpact?: RiskScoreLevel;
+  costExposure?: number;
+  scheduleExposureDays?: number;
+  recordedAt: string;
+}
+
 export interface RiskWithRelations extends Risk {
   projectName?: string;
   ownerName?: string;
@@ -83,6 +167,16 @@ export type ChangeRequestType = 'add_work' | 'modify_work' | 'remove_work';
 
 export type ChangeRequestStatus = 'draft' | 'pending_approval' | 'approved' | 'rejected' | 'implemented';
 
+/** Field values of new work (add) or the fields to change (modify). Milestones use title, description and dueDate. */
+export interface ChangeRequestItemChanges {
+  title?: string;
+  description?: string;
+  startDate?: string;
+  dueDate?: string;
+  assigneeId?: string | null;
+  estimatedHours?: number;
+}
+
 export interface ChangeRequestItem {
   type: 'task' | 'milestone' | 'deliverable';
   id?: string;
@@ -90,6 +184,24 @@ export interface ChangeRequestItem {
   description?: string;
   /** For modify/remove, reference to existing work id */
   existingId?: string;
+  changes?: ChangeRequestItemChanges;
+}
+
+/** One applied change; before/after are database rows (modify: only the changed columns) */
+export interface ChangeRequestSnapshotEntry {
+  entity: 'task' | 'milestone';
+  action: 'create' | 'modify' | 'delete';
+  id: string;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  /** Deleted rows: subtasks, dependencies and references restored on revert */
+  links?: Record<string, unknown>;
+}
+
+/** Written when a change request is implemented; revert plays it back */
+export interface ChangeRequestImplementation {
+  implementedBy: string;
+  entries: ChangeRequestSnapshotEntry[];
 }
 
 export interface ChangeRequest {
@@ -103,25 +215,252 @@ export interface ChangeRequest {
   requestedById: string;
   requestedAt: string;
   items: ChangeRequestItem[];
-  impactSummary?: {
-    scheduleImpactDays?: number;
-    affectedMilestoneIds: string[];
-    affectedTaskIds: string[];
-    dependencyImpact?: string;
-  };
+  impactSummary?: ChangeRequestImpactSummary;
+  /** Legacy flat approver list; approvals now follow approvalSteps */
   approverIds: string[];
   approvals: ChangeRequestApproval[];
+  /** Approval chain resolved from the approval policy at submission, across all rounds */
+  approvalSteps?: ChangeRequestApprovalStep[];
   implementedAt?: string;
+  implementation?: ChangeRequestImplementation;
+  /** Last time an implementation was reverted (the request is back to approved) */
+  revertedAt?: string;
   orgId: string;
   createdAt: string;
   updatedAt: string;
 }
 
+/** A milestone whose completion (its due date or its latest task) moves later */
+export interface ChangeRequestMilestoneSlip {
+  milestoneId: string;
+  title: string;
+  dueDate: string;
+  /** Completion date before and after the change */
+  forecastBefore: string;
+  forecastAfter: string;
+  /** Working days */
+  slipDays: number;
+}
+
+/** A team member whose weighted allocation ends up above capacity because of the change */
+export interface ChangeRequestOverallocation {
+  memberId: string;
+  capacity: number;
+  allocationBefore: number;
+  allocationAfter: number;
+}
+
+/**
+ * Simulated effect of a change request on the live schedule (see src/lib/changeImpact.ts), stored at submission
+ * so approvers see the numbers it was approved on.
+ */
+export interface ChangeRequestImpactSummary {
+  /** Working days the project end moves (critical path or planned dates, whichever moves more) */
+  scheduleImpactDays?: number;
+  /** Planned labour cost change: estimated hours × assignee hourly rate */
+  budgetImpact?: number;
+  /** Hours added (or removed, negative) that have no rate: unassigned or the assignee has no hourly rate */
+  unpricedHours?: number;
+  affectedMilestoneIds: string[];
+  affectedTaskIds: string[];
+  dependencyImpact?: string;
+  criticalPath?: {
+    finishBefore?: string;
+    finishAfter?: string;
+    /** Working days */
+    deltaDays: number;
+    /** Tasks that become / stop being critical */
+    enteringTaskIds: string[];
+    leavingTaskIds: string[];
+  };
+  milestoneSlips?: ChangeRequestMilestoneSlip[];
+  overallocatedMembers?: ChangeRequestOverallocation[];
+  analyzedAt?: string;
+}
+
 export interface ChangeRequestApproval {
   approverId: string;
   approved: boolean;
   comment?: string;
   at: string;
+  /** Approval step the vote was cast in */
+  stepId?: string;
+  /** Approver the vote was cast for, when cast by their delegate */
+  onBehalfOf?: string;
+}
+
+// --- Approval chains ---
+
+export type ApprovalPolicyScope = 'org' | 'portfolio' | 'program' | 'project';
+
+/** Where a stage's approvers come from when a request is submitted */
+export type ApprovalStageSource = 'users' | 'project_managers' | 'program_manager' | 'org_managers';
+
+export interface ApprovalPolicyStage {
+  id?: string;
+  name: string;
+  approverSource: ApprovalStageSource;
+  /** Approvers when approverSource is 'users' */
+  approverIds: string[];
+  /** Quorum: approvals needed out of the stage's approvers */
+  requiredApprovals: number;
+  /** With thresholds, the stage only applies when the request's impact reaches one of them */
+  minScheduleImpactDays?: number;
+  minBudgetImpact?: number;
+  reminderHours: number;
+}
+
+export interface ApprovalPolicy {
+  id: string;
+  name: string;
+  scopeType: ApprovalPolicyScope;
+  /** Portfolio, program or project id; absent for the org-wide policy */
+  scopeId?: string;
+  isActive: boolean;
+  /** In chain order */
+  stages: ApprovalPolicyStage[];
+  orgId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ChangeRequestApprovalStepStatus = 'waiting' | 'pending' | 'approved' | 'rejected' | 'skipped';
+
+export interface ChangeRequestApprovalStep {
+  id: string;
+  /** Increments each time the request is resubmitted */
+  round: number;
+  position: number;
+  name: string;
+  approverIds: string[];
+  requiredApprovals: number;
+  status: ChangeRequestApprovalStepStatus;
+  activatedAt?: string;
+  decidedAt?: string;
+}
+
+/** Out-of-office delegation: the delegate can decide on the delegator's pending approvals */
+export interface ApprovalDelegation {
+  id: string;
+  delegatorId: string;
+  delegateId: string;
+  startsOn: string;
+  endsOn: string;
+  reason?: string;
+}
+
+/** A pending approval step waiting for the current user */
+export interface ApprovalInboxItem {
+  stepId: string;
+  changeRequestId: string;
+  stepName: string;
+  stepPosition: number;
+  requiredApprovals: number;
+  approvalCount: number;
+  activatedAt?: string;
+  /** Set when the user is deciding as someone's delegate */
+  onBehalfOf?: string;
+}
+
+// --- Automations ---
+
+export type AutomationTriggerType =
+  | 'task_created'
+  | 'task_status_changed'
+  | 'task_assigned'
+  | 'milestone_completed'
+  | 'risk_created'
+  | 'risk_status_changed'
+  | 'project_status_changed';
+
+export type AutomationConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'in'
+  | 'not_in'
+  | 'is_set'
+  | 'is_not_set'
+  | 'greater_than'
+  | 'less_than';
+
+/** Compared against a column of the triggering record */
+export interface AutomationCondition {
+  field: string;
+  operator: AutomationConditionOperator;
+  /** A list for in / not_in; absent for is_set / is_not_set */
+  value?: string | string[];
+}
+
+/** Who an assign or create-task action gives the task to */
+export type AutomationAssignee = 'project_owner' | 'member' | 'task_assignee' | 'risk_owner' | 'unassign';
+
+export type AutomationRecipient = 'watchers' | 'assignee' | 'risk_owner' | 'project_owner' | 'org_managers';
+
+export type AutomationAction =
+  | { type: 'set_task_status'; status: Task['status'] }
+  | { type: 'set_task_priority'; priority: Task['priority'] }
+  | { type: 'assign_task'; assignee: AutomationAssignee; memberId?: string }
+  | {
+      type: 'create_task';
+      /** May use {{title}}, {{status}}, {{previous_status}} and {{project}} */
+      title: string;
+      description?: string;
+      priority?: Task['priority'];
+      assignee?: AutomationAssignee;
+      memberId?: string;
+      dueInDays?: number;
+      /** Risk: becomes its blocker task. Task: becomes a predecessor that blocks it. */
+      linkBlocker?: boolean;
+    }
+  | { type: 'notify'; recipients: AutomationRecipient[]; title: string; message?: string };
+
+export type AutomationActionType = AutomationAction['type'];
+
+export interface AutomationRule {
+  id: string;
+  name: string;
+  description?: string;
+  /** Only records of this project; absent for the whole org */
+  projectId?: string;
+  triggerType: AutomationTriggerType;
+  /** Narrows status triggers to a transition */
+  fromStatus?: string;
+  toStatus?: string;
+  /** All must match */
+  conditions: AutomationCondition[];
+  /** Run in order */
+  actions: AutomationAction[];
+  isActive: boolean;
+  orgId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AutomationRunStatus = 'success' | 'failed' | 'skipped';
+
+export interface AutomationActionResult {
+  type: AutomationActionType;
+  status: AutomationRunStatus;
+  detail?: string;
+}
+
+/** One rule matching one event, from the execution log */
+export interface AutomationRun {
+  id: string;
+  ruleId?: string;
+  ruleName: string;
+  triggerType: AutomationTriggerType;
+  entityType: 'task' | 'risk' | 'milestone' | 'project';
+  entityId: string;
+  entityTitle?: string;
+  projectId?: string;
+  status: AutomationRunStatus;
+  actionResults: AutomationActionResult[];
+  /** Why the rule was skipped (loop protection) */
+  detail?: string;
+  /** 0 when a person made the change, 1+ when another automation did */
+  depth: number;
+  createdAt: string;
 }
 
 // --- Portfolio Decision Log (immutable) ---
@@ -146,8 +485,22 @@ export interface PortfolioDecisionLogEntry {
   decidedBy: string;
   decidedAt: string;
   outcome: string;
-  /** Immutable: no update/delete; append-only */
+  /** Immutable: UPDATE/DELETE are rejected by database triggers; append-only */
   metadata?: Record<string, unknown>;
+  /** Position in the org's hash chain (1-based); assigned by the database */
+  sequence?: number;
+  /** entryHash of the previous entry in the chain; absent for the first entry */
+  prevHash?: string;
+  /** sha256(prevHash | canonical entry), hex */
+  entryHash?: string;
+}
+
+export interface DecisionLogChainStatus {
+  isValid: boolean;
+  checkedCount: number;
+  headHash?: string;
+  firstInvalidId?: string;
+  firstInvalidSequence?: number;
 }
 
 // --- Resource & Portfolio ---
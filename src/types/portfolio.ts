@@ -177,13 +177,41 @@ export interface Task {
   priority: 'low' | 'medium' | 'high';
   weight: number;
   estimatedHours: number;
+  /** Three-point estimate around estimatedHours (most likely), used by the schedule simulation */
+  optimisticHours?: number;
+  pessimisticHours?: number;
   actualCost?: number;
+  /** Approved hours logged in timesheets */
+  actualHours?: number;
   assigneeId?: string;
   startDate?: string;
   dueDate?: string;
   subtasks: Subtask[];
   projectId: string;
   milestoneId?: string;
+  /** Series this task is an occurrence of */
+  recurrenceId?: string;
+  /** Occurrence date (yyyy-MM-dd) the task was generated for */
+  recurrenceDate?: string;
+  /** Repeat rule; on new tasks, set to create a recurring series */
+  recurrence?: TaskRecurrenceSettings;
+}
+
+export type RecurrenceMode = 'on_complete' | 'schedule';
+
+/** Which instances of a recurring task an edit or delete applies to */
+export type RecurrenceEditScope = 'this' | 'following' | 'all';
+
+export interface TaskRecurrenceSettings {
+  /** RRULE value without the "RRULE:" prefix, e.g. FREQ=WEEKLY;BYDAY=MO */
+  rrule: string;
+  mode: RecurrenceMode;
+  /** Schedule mode: days ahead instances are created */
+  leadDays: number;
+  /** First occurrence; set once the series exists */
+  dtstart?: string;
+  endsOn?: string;
+  exdates?: string[];
 }
 
 export interface Milestone {
@@ -273,6 +301,8 @@ export interface TeamMember {
   avatar?: string;
   allocation: number;
   capacity: number;
+  /** Cost per logged hour */
+  hourlyRate?: number;
   projectIds: string[];
 }
 
@@ -0,0 +1,9 @@
+/**
+ * Runs the Monte Carlo schedule simulation off the main thread (see useScheduleSimulation).
+ */
+
+import { simulateSchedule, type ScheduleSimulationInput } from '@/lib/monteCarlo';
+
+self.onmessage = (event: MessageEvent<ScheduleSimulationInput>) => {
+  self.postMessage(simulateSchedule(event.data));
+};
@@ -0,0 +1,90 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+// Shared by send-email and send-scheduled-reports. Folders starting with _ are not deployed as functions.
+
+type SupabaseAdmin = ReturnType<typeof createClient>;
+
+// Rate limits per sender, over messages and scheduled report emails together
+export const HOURLY_EMAIL_LIMIT = 20;
+export const DAILY_EMAIL_LIMIT = 100;
+
+/**
+ * Validate email format
+ */
+export function isValidEmail(email: string): boolean {
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  return emailRegex.test(email) && email.length <= 254;
+}
+
+/**
+ * Emails the user has sent since the given time: messages, plus reports their subscriptions emailed.
+ * Null when the count failed; callers log it and let the email through, as before.
+ */
+export async function countEmailsSentSince(
+  supabaseAdmin: SupabaseAdmin,
+  userId: string,
+  since: string
+): Promise<number | null> {
+  const { count: messageCount, error: messageError } = await supabaseAdmin
+    .from("messages")
+    .select("*", { count: "exact", head: true })
+    .eq("sender_id", userId)
+    .gte("created_at", since);
+
+  const { data: runs, error: runsError } = await supabaseAdmin
+    .from("report_subscription_runs")
+    .select("sent_count")
+    .eq("sender_id", userId)
+    .gte("created_at", since);
+
+  if (messageError || runsError) {
+    console.error("Email count error:", (messageError || runsError)?.message);
+    return null;
+  }
+  const reportCount = ((runs || []) as Array<{ sent_count: number }>).reduce((sum, r) => sum + r.sent_count, 0);
+  return (messageCount ?? 0) + reportCount;
+}
+
+/**
+ * Why the org may not email this address, or null when it may. Recipients must be contacts or
+ * members of the org, and not invitees who haven't accepted yet.
+ */
+export async function recipientBlockReason(
+  supabaseAdmin: SupabaseAdmin,
+  orgId: string,
+  email: string
+): Promise<string | null> {
+  const address = email.toLowerCase();
+
+  const { data: isKnownContact } = await supabaseAdmin
+    .from("contacts")
+    .select("id")
+    .eq("email", address)
+    .eq("org_id", orgId)
+    .maybeSingle();
+
+  // Also check if recipient is a profile in the same org
+  const { data: isOrgMember } = await supabaseAdmin
+    .from("profiles")
+    .select("id")
+    .eq("email", address)
+    .eq("org_id", orgId)
+    .maybeSingle();
+
+  if (!isKnownContact && !isOrgMember) {
+    return "You can only send emails to contacts or members in your organization";
+  }
+
+  const { data: pendingInvite } = await supabaseAdmin
+    .from("org_invites")
+    .select("id")
+    .eq("org_id", orgId)
+    .eq("email", address)
+    .is("accepted_at", null)
+    .maybeSingle();
+
+  if (pendingInvite) {
+    return "Cannot send emails to this recipient until they have accepted their organization invite";
+  }
+  return null;
+}
@@ -0,0 +1,304 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import {
+  calculateMemberAllocation,
+  defaultAllocationWeights,
+  type TaskForAllocation,
+} from "../../../src/lib/allocationCalculator.ts";
+import { buildEarnedValueReport } from "../../../src/lib/earnedValue.ts";
+import {
+  buildReportData,
+  REPORT_DATE_RANGE_LABELS,
+  reportDateRangeBounds,
+  scopeReportPrograms,
+  scopeReportProjects,
+  summarizeTimeEntries,
+  type ReportDateRange,
+  type ReportScope,
+  type ReportSource,
+} from "../../../src/lib/reportData.ts";
+import type { ReportData } from "../../../src/lib/reportRender.ts";
+import { DEFAULT_WORKING_CALENDAR, type WorkingCalendar } from "../../../src/lib/workingCalendar.ts";
+import type { Milestone, Portfolio, Program, Project, Task, TeamMember } from "../../../src/types/portfolio.ts";
+
+// Shared by render-report and send-scheduled-reports: the report built from the database the way
+// the Reports page builds it in the browser.
+
+type SupabaseAdmin = ReturnType<typeof createClient>;
+
+/**
+ * The org's portfolio hierarchy in the shape the Reports page works with
+ * (see PortfolioDataContext and useTeamMembers).
+ */
+async function loadReportSource(supabaseAdmin: SupabaseAdmin, orgId: string): Promise<ReportSource> {
+  const [portfoliosRes, programsRes, projectsRes, tasksRes, membersRes, milestonesRes] = await Promise.all([
+    supabaseAdmin.from("portfolios").select("id, name, description").eq("org_id", orgId),
+    supabaseAdmin
+      .from("programs")
+      .select("id, name, description, status, portfolio_id, owner_id, budget, allocated_budget")
+      .eq("org_id", orgId)
+      .is("archived_at", null),
+    supabaseAdmin
+      .from("projects")
+      .select("id, name, description, status, progress, start_date, end_date, program_id, budget, allocated_budget, created_at, updated_at")
+      .eq("org_id", orgId)
+      .is("archived_at", null),
+    supabaseAdmin
+      .from("tasks")
+      .select("*, subtasks (id, title, completed, assignee_id)")
+      .eq("org_id", orgId),
+    supabaseAdmin
+      .from("team_members")
+      .select("id, contact_id, capacity, hourly_rate, contacts:contact_id (name, email, role, avatar_url)")
+      .eq("org_id", orgId),
+    supabaseAdmin
+      .from("milestones")
+      .select("id, title, description, due_date, project_id, program_id")
+      .eq("org_id", orgId),
+  ]);
+  const failed = [portfoliosRes, programsRes, projectsRes, tasksRes, membersRes, milestonesRes].find((r) => r.error);
+  if (failed?.error) throw new Error(`Failed to load report data: ${failed.error.message}`);
+
+  const taskRows = (tasksRes.data || []) as Array<{
+    id: string;
+    title: string;
+    description: string | null;
+    status: Task["status"];
+    priority: Task["priority"];
+    weight: number;
+    estimated_hours: number | null;
+    optimistic_hours: number | null;
+    pessimistic_hours: number | null;
+    actual_cost: number | null;
+    actual_hours: number | null;
+    assignee_id: string | null;
+    start_date: string | null;
+    due_date: string | null;
+    project_id: string;
+    milestone_id: string | null;
+    created_at: string;
+    updated_at: string;
+    subtasks: Array<{ id: string; title: string; completed: boolean; assignee_id: string | null }> | null;
+  }>;
+
+  const tasks = taskRows.map((t) => ({
+    id: t.id,
+    title: t.title,
+    description: t.description || "",
+    status: t.status,
+    priority: t.priority,
+    weight: t.weight,
+    estimatedHours: t.estimated_hours ?? 1,
+    optimisticHours: t.optimistic_hours ?? undefined,
+    pessimisticHours: t.pessimistic_hours ?? undefined,
+    actualCost: t.actual_cost ?? 0,
+    actualHours: t.actual_hours ?? 0,
+    assigneeId: t.assignee_id || undefined,
+    startDate: t.start_date || undefined,
+    dueDate: t.due_date || undefined,
+    projectId: t.project_id,
+    milestoneId: t.milestone_id || undefined,
+    createdAt: t.created_at,
+    updatedAt: t.updated_at,
+    subtasks: (t.subtasks || []).map((s) => ({
+      id: s.id,
+      title: s.title,
+      completed: s.completed,
+      assigneeId: s.assignee_id || undefined,
+    })),
+  }));
+
+  // Allocation points as in useTeamMembers, with the default weights (custom weights live in the browser)
+  const tasksForAllocation: TaskForAllocation[] = taskRows
+    .filter((t) => t.assignee_id)
+    .map((t) => ({
+      id: t.id,
+      assignee_id: t.assignee_id,
+      estimated_hours: t.estimated_hours ?? 1,
+      weight: t.weight ?? 1,
+      priority: t.priority,
+      status: t.status,
+      due_date: t.due_date,
+    }));
+
+  const memberRows = (membersRes.data || []) as Array<{
+    id: string;
+    contact_id: string;
+    capacity: number;
+    hourly_rate: number | null;
+    contacts: { name: string; email: string | null; role: string | null; avatar_url: string | null } | null;
+  }>;
+  const teamMembers: TeamMember[] = memberRows.map((m) => ({
+    id: m.id,
+    contactId: m.contact_id,
+    name: m.contacts?.name || "",
+    email: m.contacts?.email || "",
+    role: m.contacts?.role || "",
+    avatar: m.contacts?.avatar_url || undefined,
+    allocation: calculateMemberAllocation(m.id, tasksForAllocation, defaultAllocationWeights),
+    capacity: m.capacity,
+    hourlyRate: m.hourly_rate ?? 0,
+    projectIds: [...new Set(tasks.filter((t) => t.assigneeId === m.id).map((t) => t.projectId))],
+  }));
+
+  const projectRows = (projectsRes.data || []) as Array<{
+    id: string;
+    name: string;
+    description: string | null;
+    status: Project["status"];
+    progress: number;
+    start_date: string | null;
+    end_date: string | null;
+    program_id: string;
+    budget: number | null;
+    allocated_budget: number | null;
+    created_at: string;
+    updated_at: string;
+  }>;
+  const projects = projectRows.map((p) => {
+    const projectTasks = tasks.filter((t) => t.projectId === p.id);
+    return {
+      id: p.id,
+      name: p.name,
+      description: p.description || "",
+      status: p.status,
+      progress: p.progress,
+      startDate: p.start_date || "",
+      endDate: p.end_date || undefined,
+      programId: p.program_id,
+      teamIds: [...new Set(projectTasks.filter((t) => t.assigneeId).map((t) => t.assigneeId!))],
+      tasks: projectTasks,
+      budget: p.budget ?? 0,
+      actualCost: projectTasks.reduce((sum, t) => sum + (t.actualCost || 0), 0),
+      allocatedBudget: p.allocated_budget ?? 0,
+      createdAt: p.created_at,
+      updatedAt: p.updated_at,
+    };
+  });
+
+  const programRows = (programsRes.data || []) as Array<{
+    id: string;
+    name: string;
+    description: string | null;
+    status: Program["status"];
+    portfolio_id: string;
+    owner_id: string | null;
+    budget: number | null;
+    allocated_budget: number | null;
+  }>;
+  const programs: Program[] = programRows.map((p) => {
+    const programProjects = projects.filter((proj) => proj.programId === p.id);
+    return {
+      id: p.id,
+      name: p.name,
+      description: p.description || "",
+      status: p.status,
+      portfolioId: p.portfolio_id,
+      ownerId: p.owner_id || "",
+      projects: programProjects,
+      budget: p.budget ?? 0,
+      allocatedBudget: p.allocated_budget ?? 0,
+      actualCost: programProjects.reduce((sum, proj) => sum + (proj.actualCost || 0), 0),
+    };
+  });
+
+  const portfolioRows = (portfoliosRes.data || []) as Array<{
+    id: string;
+    name: string;
+    description: string | null;
+  }>;
+  const portfolios: Portfolio[] = portfolioRows.map((p) => ({
+    id: p.id,
+    name: p.name,
+    description: p.description || "",
+    programs: programs.filter((prog) => prog.portfolioId === p.id),
+  }));
+
+  const milestoneRows = (milestonesRes.data || []) as Array<{
+    id: string;
+    title: string;
+    description: string | null;
+    due_date: string;
+    project_id: string;
+    program_id: string;
+  }>;
+  const milestones: Milestone[] = milestoneRows.map((m) => ({
+    id: m.id,
+    title: m.title,
+    description: m.description || undefined,
+    dueDate: m.due_date,
+    projectId: m.project_id,
+    programId: m.program_id,
+  }));
+
+  return { portfolios, programs, projects, teamMembers, milestones };
+}
+
+/** The org's working weekdays, hours per day and holidays (member time off plays no part in reports) */
+async function loadWorkingCalendar(supabaseAdmin: SupabaseAdmin, orgId: string): Promise<WorkingCalendar> {
+  const [settingsRes, holidaysRes] = await Promise.all([
+    supabaseAdmin.from("org_working_calendars").select("working_days, hours_per_day").eq("org_id", orgId).maybeSingle(),
+    supabaseAdmin.from("org_holidays").select("date, name").eq("org_id", orgId),
+  ]);
+  const settings = settingsRes.data as { working_days: number[] | null; hours_per_day: number | string } | null;
+  const holidays = (holidaysRes.data || []) as Array<{ date: string; name: string }>;
+  return {
+    workingDays: settings?.working_days?.length ? settings.working_days : DEFAULT_WORKING_CALENDAR.workingDays,
+    hoursPerDay: Number(settings?.hours_per_day) || DEFAULT_WORKING_CALENDAR.hoursPerDay,
+    holidays: new Map(holidays.map((h) => [h.date, h.name])),
+    timeOff: new Map(),
+  };
+}
+
+export interface OrgReportOptions {
+  scope: ReportScope;
+  dateRange: ReportDateRange;
+  /** Status date of the report; the same time gives the same document */
+  now: Date;
+}
+
+/**
+ * ReportData for the scope and date range, with timesheet hours and earned value. The Monte Carlo
+ * schedule risk runs in the browser only and is left out.
+ */
+export async function buildOrgReportData(
+  supabaseAdmin: SupabaseAdmin,
+  orgId: string,
+  options: OrgReportOptions
+): Promise<ReportData> {
+  const { scope, now } = options;
+  const [source, calendar, { data: org }] = await Promise.all([
+    loadReportSource(supabaseAdmin, orgId),
+    loadWorkingCalendar(supabaseAdmin, orgId),
+    supabaseAdmin.from("organizations").select("name").eq("id", orgId).maybeSingle(),
+  ]);
+
+  const bounds = reportDateRangeBounds(options.dateRange, now);
+  let timeQuery = supabaseAdmin
+    .from("time_entries")
+    .select("member_id, hours, status, hourly_rate")
+    .eq("org_id", orgId);
+  if (bounds) timeQuery = timeQuery.gte("entry_date", bounds.from).lte("entry_date", bounds.to);
+  const { data: timeEntries, error: timeError } = await timeQuery;
+  if (timeError) throw new Error(`Failed to load time entries: ${timeError.message}`);
+
+  // Same scope as the Earned Value tab
+  const earnedValue = buildEarnedValueReport(
+    {
+      portfolios: scope.portfolioId === "all" ? source.portfolios : source.portfolios.filter((p) => p.id === scope.portfolioId),
+      programs: scopeReportPrograms(source.programs, scope),
+      projects: scopeReportProjects(source, scope),
+    },
+    { calendar, statusDate: now }
+  );
+
+  return buildReportData(source, {
+    scope,
+    dateRange: REPORT_DATE_RANGE_LABELS[options.dateRange],
+    organizationName: (org as { name: string } | null)?.name,
+    timeByMember: summarizeTimeEntries(
+      (timeEntries || []) as Array<{ member_id: string; hours: number; status: string; hourly_rate: number | null }>
+    ),
+    earnedValue,
+    now,
+  });
+}
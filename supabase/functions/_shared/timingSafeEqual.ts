@@ -0,0 +1,11 @@
+// Shared by calendar-feed and caldav. Folders starting with _ are not deployed as functions.
+
+/**
+ * Compare a secret (signature, token hash) without leaking how much of it matched through timing
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
@@ -0,0 +1,466 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import {
+  API_RESOURCES,
+  apiHiddenFields,
+  canCreateTaskViaApi,
+  canLogTimeViaApi,
+  canReadAllTimeEntries,
+  canReadApiResource,
+  canUpdateTaskViaApi,
+  projectRoleFromMembership,
+  type ApiAccessContext,
+  type ApiResource,
+  type ApiTokenScope,
+} from "../../../src/domains/permissions/apiAccess.ts";
+import { mapDatabaseRole } from "../../../src/domains/permissions/service.ts";
+import {
+  buildOpenApiDocument,
+  isUuid,
+  parseApiListParams,
+  PUBLIC_API_RESOURCES,
+  PUBLIC_API_VERSION,
+  PUBLIC_API_WRITES,
+  validateApiBody,
+} from "../../../src/lib/publicApi.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, PATCH, OPTIONS",
+};
+
+// Path clients see; the OpenAPI server URL uses it
+const PUBLIC_BASE = "/functions/v1/api";
+// How often a request updates the token's last_used_at
+const LAST_USED_INTERVAL_MS = 5 * 60_000;
+
+const encoder = new TextEncoder();
+
+interface Session {
+  userId: string;
+  orgId: string;
+  /** The user's team member; null when they have none */
+  memberId: string | null;
+  expiresAt: string | null;
+  access: ApiAccessContext;
+  admin: SupabaseClient;
+}
+
+interface TokenRow {
+  id: string;
+  org_id: string;
+  user_id: string;
+  scope: ApiTokenScope;
+  project_ids: string[] | null;
+  expires_at: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+type Row = Record<string, unknown>;
+
+function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+}
+
+const fail = (status: number, message: string) => json(status, { error: message });
+
+// ============================================
+// Auth
+// ============================================
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Bearer personal access token; the user's current org and role apply. */
+async function authenticate(req: Request): Promise<Session | null> {
+  const header = req.headers.get("Authorization");
+  if (!header?.startsWith("Bearer ")) return null;
+  const token = header.slice(7).trim();
+  if (!token.startsWith("acc_")) return null;
+
+  const admin = createClient(
+    SUPABASE_URL!,
+    SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data } = await admin
+    .from("personal_access_tokens")
+    .select("id, org_id, user_id, scope, project_ids, expires_at, last_used_at, revoked_at")
+    .eq("token_hash", await sha256Hex(token))
+    .maybeSingle();
+  const row = data as TokenRow | null;
+  if (!row || row.revoked_at) return null;
+  if (row.expires_at && Date.parse(row.expires_at) <= Date.now()) return null;
+
+  // The token stops working when its user moves to another org
+  const { data: orgId } = await admin.rpc("get_user_org_id", { _user_id: row.user_id });
+  if (!orgId || orgId !== row.org_id) return null;
+
+  const { data: role } = await admin.rpc("get_user_role", { _user_id: row.user_id });
+  const { data: memberId } = await admin.rpc("get_user_team_member_id", { _user_id: row.user_id });
+
+  if (!row.last_used_at || Date.now() - Date.parse(row.last_used_at) > LAST_USED_INTERVAL_MS) {
+    await admin
+      .from("personal_access_tokens")
+      .update({ last_used_at: new Date().toISOString() })
+      .eq("id", row.id);
+  }
+
+  return {
+    userId: row.user_id,
+    orgId,
+    memberId: memberId ?? null,
+    expiresAt: row.expires_at,
+    access: { orgRole: mapDatabaseRole(role), scope: row.scope, projectIds: row.project_ids },
+    admin,
+  };
+}
+
+// ============================================
+// Reading
+// ============================================
+
+function columnsFor(session: Session, resource: ApiResource): string {
+  const hidden = apiHiddenFields(session.access.orgRole, resource);
+  return Object.keys(PUBLIC_API_RESOURCES[resource].fields).filter((field) => !hidden.includes(field)).join(", ");
+}
+
+/**
+ * Ids a project-limited token may see for resources above the project level, or null when the
+ * token is not limited.
+ */
+async function scopedParentIds(session: Session, resource: "programs" | "portfolios"): Promise<string[] | null> {
+  const projectIds = session.access.projectIds;
+  if (!projectIds) return null;
+
+  const { data: projects, error } = await session.admin
+    .from("projects")
+    .select("program_id")
+    .eq("org_id", session.orgId)
+    .in("id", projectIds);
+  if (error) throw error;
+  const programIds = [...new Set((projects || []).map((p) => p.program_id as string))];
+  if (resource === "programs") return programIds;
+
+  const { data: programs, error: programError } = await session.admin
+    .from("programs")
+    .select("portfolio_id")
+    .in("id", programIds);
+  if (programError) throw programError;
+  return [...new Set((programs || []).map((p) => p.portfolio_id as string))];
+}
+
+/**
+ * The rows the token can reach, as [column, allowed values] pairs: its org, its projects and, for
+ * time entries without View Resource Reports, the user's own entries. Null when nothing is reachable.
+ */
+async function scopeFilters(session: Session, resource: ApiResource): Promise<[string, string[]][] | null> {
+  const filters: [string, string[]][] = [["org_id", [session.orgId]]];
+
+  const { projectIds } = session.access;
+  if (resource === "projects" && projectIds) filters.push(["id", projectIds]);
+  if ((resource === "tasks" || resource === "milestones" || resource === "time_entries") && projectIds) {
+    filters.push(["project_id", projectIds]);
+  }
+  if (resource === "programs" || resource === "portfolios") {
+    const ids = await scopedParentIds(session, resource);
+    if (ids?.length === 0) return null;
+    if (ids) filters.push(["id", ids]);
+  }
+  if (resource === "time_entries" && !canReadAllTimeEntries(session.access.orgRole)) {
+    if (!session.memberId) return null;
+    filters.push(["member_id", [session.memberId]]);
+  }
+  return filters;
+}
+
+async function listResource(session: Session, resource: ApiResource, params: URLSearchParams): Promise<Response> {
+  const definition = PUBLIC_API_RESOURCES[resource];
+  const parsed = parseApiListParams(definition, params);
+  if ("error" in parsed) return fail(400, parsed.error);
+  const { limit, offset } = parsed;
+
+  const scope = await scopeFilters(session, resource);
+  if (!scope) {
+    return json(200, { data: [], pagination: { limit, offset, total: 0, next_offset: null } });
+  }
+
+  let query = session.admin
+    .from(definition.table)
+    .select(columnsFor(session, resource), { count: "exact" });
+  for (const [column, values] of scope) query = query.in(column, values);
+  for (const [field, value] of parsed.filters) query = query.eq(field, value);
+  if (parsed.updatedSince) query = query.gte("updated_at", parsed.updatedSince);
+  if (definition.dateField && parsed.from) query = query.gte(definition.dateField, parsed.from);
+  if (definition.dateField && parsed.to) query = query.lte(definition.dateField, parsed.to);
+  if (definition.archivable && !parsed.includeArchived) query = query.is("archived_at", null);
+
+  const { data, count, error } = await query
+    .order("created_at", { ascending: true })
+    .order("id", { ascending: true })
+    .range(offset, offset + limit - 1);
+  if (error) throw error;
+
+  const total = count ?? 0;
+  return json(200, {
+    data: data || [],
+    pagination: { limit, offset, total, next_offset: offset + limit < total ? offset + limit : null },
+  });
+}
+
+async function findRow(session: Session, resource: ApiResource, id: string): Promise<Row | null> {
+  const definition = PUBLIC_API_RESOURCES[resource];
+  const scope = await scopeFilters(session, resource);
+  if (!scope) return null;
+
+  let query = session.admin
+    .from(definition.table)
+    .select(columnsFor(session, resource))
+    .eq("id", id);
+  for (const [column, values] of scope) query = query.in(column, values);
+
+  const { data, error } = await query.maybeSingle();
+  if (error) throw error;
+  return data as Row | null;
+}
+
+// ============================================
+// Writing
+// ============================================
+
+async function readBody(req: Request): Promise<unknown> {
+  try {
+    return await req.json();
+  } catch {
+    return undefined;
+  }
+}
+
+async function projectRoleOf(session: Session, projectId: string) {
+  if (!session.memberId) return projectRoleFromMembership(null);
+  const { data } = await session.admin
+    .from("project_members")
+    .select("role")
+    .eq("project_id", projectId)
+    .eq("member_id", session.memberId)
+    .maybeSingle();
+  return projectRoleFromMembership(data?.role);
+}
+
+async function orgHasRow(session: Session, table: string, id: string): Promise<boolean> {
+  const { data } = await session.admin
+    .from(table)
+    .select("id")
+    .eq("id", id)
+    .eq("org_id", session.orgId)
+    .maybeSingle();
+  return !!data;
+}
+
+/** Assignees and milestones must belong to the org (and the milestone to the task's project). */
+async function checkTaskReferences(session: Session, values: Row, projectId: string): Promise<string | null> {
+  if (typeof values.assignee_id === "string" && !(await orgHasRow(session, "team_members", values.assignee_id))) {
+    return "assignee_id is not a team member of this organization";
+  }
+  if (typeof values.milestone_id === "string") {
+    const { data } = await session.admin
+      .from("milestones")
+      .select("id")
+      .eq("id", values.milestone_id)
+      .eq("project_id", projectId)
+      .maybeSingle();
+    if (!data) return "milestone_id is not a milestone of this project";
+  }
+  return null;
+}
+
+async function createTask(req: Request, session: Session): Promise<Response> {
+  const validated = validateApiBody(PUBLIC_API_WRITES.createTask, await readBody(req));
+  if ("error" in validated) return fail(400, validated.error);
+  const values = validated.values;
+  const projectId = values.project_id as string;
+
+  if (!(await orgHasRow(session, "projects", projectId))) return fail(404, "Project not found");
+  if (!canCreateTaskViaApi(session.access, projectId, await projectRoleOf(session, projectId))) {
+    return fail(403, "This token can't create tasks in this project");
+  }
+  const referenceError = await checkTaskReferences(session, values, projectId);
+  if (referenceError) return fail(400, referenceError);
+
+  const { data, error } = await session.admin
+    .from("tasks")
+    .insert({ ...values, org_id: session.orgId })
+    .select(columnsFor(session, "tasks"))
+    .single();
+  if (error) return fail(400, error.message);
+  return json(201, { data });
+}
+
+async function updateTask(req: Request, session: Session, id: string): Promise<Response> {
+  const validated = validateApiBody(PUBLIC_API_WRITES.updateTask, await readBody(req));
+  if ("error" in validated) return fail(400, validated.error);
+
+  const task = await findRow(session, "tasks", id);
+  if (!task) return fail(404, "Task not found");
+  const projectId = task.project_id as string;
+  const allowed = canUpdateTaskViaApi(
+    session.access,
+    { project_id: projectId, assignee_id: task.assignee_id as string | null },
+    await projectRoleOf(session, projectId),
+    session.memberId
+  );
+  if (!allowed) return fail(403, "This token can't update this task");
+  const referenceError = await checkTaskReferences(session, validated.values, projectId);
+  if (referenceError) return fail(400, referenceError);
+
+  const { data, error } = await session.admin
+    .from("tasks")
+    .update(validated.values)
+    .eq("id", id)
+    .select(columnsFor(session, "tasks"))
+    .single();
+  if (error) return fail(400, error.message);
+  return json(200, { data });
+}
+
+async function createTimeEntry(req: Request, session: Session): Promise<Response> {
+  const validated = validateApiBody(PUBLIC_API_WRITES.createTimeEntry, await readBody(req));
+  if ("error" in validated) return fail(400, validated.error);
+  const values = validated.values;
+
+  const status = values.status ?? "draft";
+  if (status !== "draft" && status !== "submitted") return fail(400, "status must be draft or submitted");
+  if ((values.hours as number) < 0 || (values.hours as number) > 24) return fail(400, "hours must be from 0 to 24");
+
+  const memberId = (values.member_id as string | undefined) ?? session.memberId;
+  if (!memberId) return fail(400, "member_id is required: the token's user is not a team member");
+  if (!(await orgHasRow(session, "team_members", memberId))) return fail(404, "Team member not found");
+
+  const { data: task } = await session.admin
+    .from("tasks")
+    .select("project_id")
+    .eq("id", values.task_id as string)
+    .eq("org_id", session.orgId)
+    .maybeSingle();
+  if (!task) return fail(404, "Task not found");
+  if (!canLogTimeViaApi(session.access, task.project_id, memberId, session.memberId)) {
+    return fail(403, "This token can't log this time");
+  }
+
+  const { data, error } = await session.admin
+    .from("time_entries")
+    .insert({
+      ...values,
+      status,
+      member_id: memberId,
+      org_id: session.orgId,
+      created_by: session.userId,
+      submitted_at: status === "submitted" ? new Date().toISOString() : null,
+    })
+    .select(columnsFor(session, "time_entries"))
+    .single();
+  if (error) return fail(400, error.message);
+  return json(201, { data });
+}
+
+// ============================================
+// Routing
+// ============================================
+
+/** Path segments after /api/v1, or null for other paths */
+function route(pathname: string): string[] | null {
+  const index = pathname.indexOf("/api/");
+  if (index < 0) return null;
+  const parts = pathname.slice(index + "/api/".length).split("/").filter(Boolean).map(decodeURIComponent);
+  return parts[0] === PUBLIC_API_VERSION ? parts.slice(1) : null;
+}
+
+function isResource(value: string): value is ApiResource {
+  return (API_RESOURCES as readonly string[]).includes(value);
+}
+
+/**
+ * Versioned public REST API (/v1) over portfolios, programs, projects, tasks, milestones,
+ * contacts and time entries. Clients authenticate with a personal access token (Settings →
+ * API tokens); what a token may read and write follows its user's org role
+ * (src/domains/permissions/apiAccess.ts). GET /v1/openapi.json describes every endpoint.
+ */
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const url = new URL(req.url);
+    const parts = route(url.pathname);
+    if (!parts) return fail(404, `Not found; the API lives under /${PUBLIC_API_VERSION}`);
+
+    // The document is public so API tools can load it before a token is set up
+    if (req.method === "GET" && parts.length === 1 && parts[0] === "openapi.json") {
+      return json(200, buildOpenApiDocument(`${url.origin}${PUBLIC_BASE}`));
+    }
+
+    const session = await authenticate(req);
+    if (!session) return fail(401, "Missing, invalid, expired or revoked token");
+
+    if (parts.length === 1 && parts[0] === "me") {
+      if (req.method !== "GET") return fail(405, "Method not allowed");
+      return json(200, {
+        data: {
+          user_id: session.userId,
+          org_id: session.orgId,
+          org_role: session.access.orgRole,
+          team_member_id: session.memberId,
+          scope: session.access.scope,
+          project_ids: session.access.projectIds,
+          expires_at: session.expiresAt,
+        },
+      });
+    }
+
+    const [resource, id, ...rest] = parts;
+    if (!resource || !isResource(resource) || rest.length > 0) return fail(404, "Not found");
+    if (id !== undefined && !isUuid(id)) return fail(404, "Not found");
+    if (!canReadApiResource(session.access, resource)) {
+      return fail(403, session.access.projectIds && resource === "contacts"
+        ? "Project-limited tokens can't read contacts"
+        : "Your role can't read this resource");
+    }
+
+    switch (req.method) {
+      case "GET": {
+        if (id === undefined) return await listResource(session, resource, url.searchParams);
+        const row = await findRow(session, resource, id);
+        return row ? json(200, { data: row }) : fail(404, "Not found");
+      }
+      case "POST":
+        if (session.access.scope !== "write") return fail(403, "This token is read-only");
+        if (id === undefined && resource === "tasks") return await createTask(req, session);
+        if (id === undefined && resource === "time_entries") return await createTimeEntry(req, session);
+        return fail(405, "Method not allowed");
+      case "PATCH":
+        if (session.access.scope !== "write") return fail(403, "This token is read-only");
+        if (id !== undefined && resource === "tasks") return await updateTask(req, session, id);
+        return fail(405, "Method not allowed");
+      default:
+        return fail(405, "Method not allowed");
+    }
+  } catch (error) {
+    console.error("Error in api function:", error);
+    return fail(500, error instanceof Error ? error.message : String(error));
+  }
+};
+
+serve(handler);
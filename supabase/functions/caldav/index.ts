@@ -0,0 +1,703 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { buildIcsObject, icsDateToTime, IcsParseError, parseIcs, type IcsEvent } from "../../../src/lib/ics.ts";
+import { timingSafeEqual } from "../_shared/timingSafeEqual.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// Path clients see; hrefs in responses must use it
+const PUBLIC_BASE = "/functions/v1/caldav";
+// The single calendar collection in each user's calendar home
+const CALENDAR_NAME = "schedule";
+const CALENDAR_DISPLAY_NAME = "Accord schedule";
+// Events shorter than this (or without an end) become blocks of this length
+const MIN_BLOCK_MS = 15 * 60_000;
+const DAY_MS = 86_400_000;
+// How often a successful sign-in updates the connection's last_synced_at
+const LAST_USED_INTERVAL_MS = 5 * 60_000;
+
+const DAV_HEADERS = {
+  DAV: "1, 3, calendar-access",
+  Allow: "OPTIONS, GET, HEAD, PUT, DELETE, PROPFIND, REPORT",
+};
+
+const NS_DAV = "DAV:";
+const NS_CALDAV = "urn:ietf:params:xml:ns:caldav";
+const NS_CALSERVER = "http://calendarserver.org/ns/";
+const NS_PREFIXES: Record<string, string> = { [NS_DAV]: "D", [NS_CALDAV]: "C", [NS_CALSERVER]: "CS" };
+
+const BLOCK_COLUMNS = "id, title, start_utc, end_utc, updated_at, ical_uid, caldav_href";
+
+const encoder = new TextEncoder();
+
+interface Session {
+  userId: string;
+  email: string;
+  orgId: string;
+  /** Team member whose blocks make up the calendar; null when the user has none */
+  memberId: string | null;
+  admin: SupabaseClient;
+}
+
+interface BlockRow {
+  id: string;
+  title: string;
+  start_utc: string;
+  end_utc: string;
+  updated_at: string;
+  ical_uid: string | null;
+  caldav_href: string | null;
+}
+
+type Route =
+  | { kind: "root" }
+  | { kind: "principal"; userId: string }
+  | { kind: "home"; userId: string }
+  | { kind: "calendar"; userId: string }
+  | { kind: "object"; userId: string; name: string };
+
+interface PropName {
+  ns: string;
+  name: string;
+}
+
+// ============================================
+// Auth
+// ============================================
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Groups of four lowercase letters and digits (no 0/1/l/o), e.g. "k3fd-9ab2-…" */
+function newAppPassword(): string {
+  const alphabet = "abcdefghijkmnpqrstuvwxyz23456789";
+  const bytes = crypto.getRandomValues(new Uint8Array(20));
+  const chars = Array.from(bytes, (b) => alphabet[b % alphabet.length]).join("");
+  return chars.match(/.{4}/g)!.join("-");
+}
+
+/** Basic auth with the user's email and app password, scoped to their current org. */
+async function authenticate(req: Request): Promise<Session | null> {
+  const header = req.headers.get("Authorization");
+  if (!header?.startsWith("Basic ")) return null;
+
+  let decoded: string;
+  try {
+    decoded = atob(header.slice(6).trim());
+  } catch {
+    return null;
+  }
+  const colon = decoded.indexOf(":");
+  if (colon < 0) return null;
+  const email = decoded.slice(0, colon).trim().toLowerCase();
+  const password = decoded.slice(colon + 1);
+
+  const admin = createClient(
+    SUPABASE_URL!,
+    SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data: profile } = await admin
+    .from("profiles")
+    .select("id, email")
+    .ilike("email", email.replace(/[\\%_]/g, (ch) => `\\${ch}`))
+    .maybeSingle();
+  if (!profile) return null;
+
+  const { data: connection } = await admin
+    .from("calendar_connections")
+    .select("id, org_id, token_hash, last_synced_at")
+    .eq("user_id", profile.id)
+    .eq("kind", "caldav")
+    .maybeSingle();
+  if (!connection?.token_hash || !timingSafeEqual(await sha256Hex(password), connection.token_hash)) return null;
+
+  // The password stops working when the user moves to another org
+  const { data: orgId } = await admin.rpc("get_user_org_id", { _user_id: profile.id });
+  if (!orgId || orgId !== connection.org_id) return null;
+
+  const { data: memberId } = await admin.rpc("get_user_team_member_id", { _user_id: profile.id });
+
+  if (!connection.last_synced_at || Date.now() - Date.parse(connection.last_synced_at) > LAST_USED_INTERVAL_MS) {
+    await admin
+      .from("calendar_connections")
+      .update({ last_synced_at: new Date().toISOString() })
+      .eq("id", connection.id);
+  }
+
+  return { userId: profile.id, email: profile.email, orgId, memberId: memberId ?? null, admin };
+}
+
+/**
+ * Creates or replaces the caller's app password (signed-in app request). The password
+ * is returned once; only its hash is stored.
+ */
+async function issueAppPassword(req: Request): Promise<Response> {
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { "Content-Type": "application/json", ...corsHeaders },
+    });
+
+  // Verify authentication
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) {
+    return json({ error: "Authentication required" }, 401);
+  }
+
+  // Create Supabase client with user's auth token
+  const supabaseClient = createClient(
+    SUPABASE_URL!,
+    Deno.env.get("SUPABASE_ANON_KEY")!,
+    {
+      global: {
+        headers: { Authorization: authHeader },
+      },
+    }
+  );
+
+  // Verify the user is authenticated
+  const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+  if (authError || !user) {
+    return json({ error: "Invalid authentication" }, 401);
+  }
+
+  // Use service role for admin operations
+  const supabaseAdmin = createClient(
+    SUPABASE_URL!,
+    SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data: userOrgId } = await supabaseAdmin.rpc("get_user_org_id", {
+    _user_id: user.id,
+  });
+  if (!userOrgId) {
+    return json({ error: "No organization" }, 403);
+  }
+
+  const password = newAppPassword();
+  const tokenHash = await sha256Hex(password);
+
+  const { data: existing, error: existingError } = await supabaseAdmin
+    .from("calendar_connections")
+    .select("id")
+    .eq("user_id", user.id)
+    .eq("kind", "caldav")
+    .maybeSingle();
+
+  if (existingError) throw existingError;
+
+  const { error } = existing
+    ? await supabaseAdmin
+      .from("calendar_connections")
+      .update({ org_id: userOrgId, token_hash: tokenHash, last_synced_at: null })
+      .eq("id", existing.id)
+    : await supabaseAdmin
+      .from("calendar_connections")
+      .insert({ org_id: userOrgId, user_id: user.id, kind: "caldav", provider: "caldav", name: "CalDAV", token_hash: tokenHash });
+
+  if (error) throw error;
+
+  return json({ url: `${SUPABASE_URL}${PUBLIC_BASE}/`, username: user.email, password });
+}
+
+// ============================================
+// Resources
+// ============================================
+
+function route(pathname: string): Route | null {
+  const index = pathname.indexOf("/caldav");
+  if (index < 0) return null;
+  const parts = pathname.slice(index + "/caldav".length).split("/").filter(Boolean).map(decodeURIComponent);
+
+  if (parts.length === 0) return { kind: "root" };
+  if (parts[0] === "principals" && parts.length === 2) return { kind: "principal", userId: parts[1] };
+  if (parts[0] !== "calendars") return null;
+  if (parts.length === 2) return { kind: "home", userId: parts[1] };
+  if (parts[2] !== CALENDAR_NAME) return null;
+  if (parts.length === 3) return { kind: "calendar", userId: parts[1] };
+  if (parts.length === 4) return { kind: "object", userId: parts[1], name: parts[3] };
+  return null;
+}
+
+const principalHref = (userId: string) => `${PUBLIC_BASE}/principals/${userId}/`;
+const homeHref = (userId: string) => `${PUBLIC_BASE}/calendars/${userId}/`;
+const calendarHref = (userId: string) => `${homeHref(userId)}${CALENDAR_NAME}/`;
+const objectName = (block: BlockRow) => block.caldav_href ?? `${block.id}.ics`;
+const objectHref = (userId: string, block: BlockRow) => `${calendarHref(userId)}${encodeURIComponent(objectName(block))}`;
+const etagOf = (block: BlockRow) => `"${Date.parse(block.updated_at)}"`;
+
+function blockIcs(block: BlockRow): string {
+  return buildIcsObject({
+    event: {
+      uid: block.ical_uid ?? block.id,
+      summary: block.title,
+      allDay: false,
+      start: block.start_utc,
+      end: block.end_utc,
+    },
+    lastModified: block.updated_at,
+  });
+}
+
+/** The user's blocks, optionally overlapping a range. Imported busy time came from their own calendars and is left out. */
+async function loadBlocks(session: Session, range?: { start?: string; end?: string }): Promise<BlockRow[]> {
+  if (!session.memberId) return [];
+  let query = session.admin
+    .from("schedule_blocks")
+    .select(BLOCK_COLUMNS)
+    .eq("org_id", session.orgId)
+    .eq("assignee_id", session.memberId)
+    .is("calendar_connection_id", null);
+
+  if (range?.start) query = query.gt("end_utc", range.start);
+  if (range?.end) query = query.lt("start_utc", range.end);
+
+  const { data, error } = await query.order("start_utc");
+  if (error) throw error;
+  return (data || []) as BlockRow[];
+}
+
+async function findBlock(session: Session, name: string): Promise<BlockRow | null> {
+  if (!session.memberId) return null;
+  const base = () => session.admin
+    .from("schedule_blocks")
+    .select(BLOCK_COLUMNS)
+    .eq("org_id", session.orgId)
+    .eq("assignee_id", session.memberId!)
+    .is("calendar_connection_id", null);
+
+  const { data: byHref, error } = await base().eq("caldav_href", name).maybeSingle();
+  if (error) throw error;
+  if (byHref) return byHref as BlockRow;
+
+  const id = /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\.ics$/i.exec(name)?.[1];
+  if (!id) return null;
+  const { data: byId, error: byIdError } = await base().eq("id", id).is("caldav_href", null).maybeSingle();
+  if (byIdError) throw byIdError;
+  return (byId as BlockRow | null) ?? null;
+}
+
+/** Changes whenever a block is added, changed or removed. */
+function ctagOf(blocks: BlockRow[]): string {
+  const latest = blocks.reduce((max, b) => Math.max(max, Date.parse(b.updated_at)), 0);
+  return `${blocks.length}-${latest}`;
+}
+
+// ============================================
+// XML
+// ============================================
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const unescapeXml = (value: string) =>
+  value.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, "&");
+
+const propKey = (ns: string, name: string) => `${ns}|${name}`;
+
+/** Properties named in a PROPFIND / REPORT body; null for allprop or an empty body. */
+function requestedProps(body: string): PropName[] | null {
+  if (!body.trim() || /<(?:[\w.-]+:)?allprop\b/.test(body)) return null;
+
+  const prefixes = new Map<string, string>();
+  for (const match of body.matchAll(/xmlns(?::([\w.-]+))?="([^"]*)"/g)) prefixes.set(match[1] ?? "", match[2]);
+
+  // calendar-data may carry its own comp/prop children; they aren't properties
+  const flattened = body.replace(/<((?:[\w.-]+:)?calendar-data)\b[^>]*>[\s\S]*?<\/\1>/g, "<$1/>");
+  const block = /<(?:[\w.-]+:)?prop\b[^>]*>([\s\S]*?)<\/(?:[\w.-]+:)?prop>/.exec(flattened);
+  if (!block) return null;
+
+  const props: PropName[] = [];
+  for (const match of block[1].matchAll(/<(?!\/)(?:([\w.-]+):)?([\w.-]+)[^>]*>/g)) {
+    props.push({ ns: prefixes.get(match[1] ?? "") ?? NS_DAV, name: match[2] });
+  }
+  return props;
+}
+
+function propElement(prop: PropName, value: string | null): string {
+  const prefix = NS_PREFIXES[prop.ns];
+  const tag = prefix ? `${prefix}:${prop.name}` : `X:${prop.name}`;
+  const nsAttr = prefix ? "" : ` xmlns:X="${escapeXml(prop.ns)}"`;
+  return value ? `<${tag}${nsAttr}>${value}</${tag}>` : `<${tag}${nsAttr}/>`;
+}
+
+/**
+ * One multistatus response. `available` maps propKey → inner XML; requested properties
+ * missing from it are reported as 404. For allprop, `allpropExcluded` are left out.
+ */
+function propResponse(
+  href: string,
+  available: Map<string, string>,
+  requested: PropName[] | null,
+  allpropExcluded: string[] = []
+): string {
+  const props = requested ?? [...available.keys()]
+    .filter((key) => !allpropExcluded.includes(key))
+    .map((key) => {
+      const [ns, name] = key.split("|");
+      return { ns, name };
+    });
+
+  const found: string[] = [];
+  const missing: string[] = [];
+  for (const prop of props) {
+    const value = available.get(propKey(prop.ns, prop.name));
+    if (value === undefined) missing.push(propElement(prop, null));
+    else found.push(propElement(prop, value));
+  }
+
+  return [
+    `<D:response><D:href>${escapeXml(href)}</D:href>`,
+    found.length ? `<D:propstat><D:prop>${found.join("")}</D:prop><D:status>HTTP/1.1 200 OK</D:status></D:propstat>` : "",
+    missing.length ? `<D:propstat><D:prop>${missing.join("")}</D:prop><D:status>HTTP/1.1 404 Not Found</D:status></D:propstat>` : "",
+    "</D:response>",
+  ].join("");
+}
+
+const notFoundResponse = (href: string) =>
+  `<D:response><D:href>${escapeXml(href)}</D:href><D:status>HTTP/1.1 404 Not Found</D:status></D:response>`;
+
+function multistatus(responses: string[]): Response {
+  const body = `<?xml version="1.0" encoding="utf-8"?>\n<D:multistatus xmlns:D="${NS_DAV}" xmlns:C="${NS_CALDAV}" xmlns:CS="${NS_CALSERVER}">${responses.join("")}</D:multistatus>`;
+  return new Response(body, {
+    status: 207,
+    headers: { "Content-Type": "application/xml; charset=utf-8", ...DAV_HEADERS },
+  });
+}
+
+function davError(status: number, condition: string, message: string): Response {
+  const body = `<?xml version="1.0" encoding="utf-8"?>\n<D:error xmlns:D="${NS_DAV}" xmlns:C="${NS_CALDAV}">${condition}<D:responsedescription>${escapeXml(message)}</D:responsedescription></D:error>`;
+  return new Response(body, {
+    status,
+    headers: { "Content-Type": "application/xml; charset=utf-8", ...DAV_HEADERS },
+  });
+}
+
+const plain = (status: number, text: string, headers: Record<string, string> = {}) =>
+  new Response(status === 204 ? null : text, { status, headers: { "Content-Type": "text/plain; charset=utf-8", ...DAV_HEADERS, ...headers } });
+
+// ============================================
+// Properties
+// ============================================
+
+const href = (value: string) => `<D:href>${escapeXml(value)}</D:href>`;
+
+const PRIVILEGES = ["read", "write", "write-content", "write-properties", "bind", "unbind", "read-current-user-privilege-set"]
+  .map((p) => `<D:privilege><D:${p}/></D:privilege>`)
+  .join("");
+
+function commonProps(session: Session): [string, string][] {
+  return [
+    [propKey(NS_DAV, "current-user-principal"), href(principalHref(session.userId))],
+    [propKey(NS_DAV, "principal-collection-set"), href(`${PUBLIC_BASE}/principals/`)],
+  ];
+}
+
+function rootProps(session: Session): Map<string, string> {
+  return new Map([
+    ...commonProps(session),
+    [propKey(NS_DAV, "resourcetype"), "<D:collection/>"],
+  ]);
+}
+
+function principalProps(session: Session): Map<string, string> {
+  return new Map([
+    ...commonProps(session),
+    [propKey(NS_DAV, "resourcetype"), "<D:principal/>"],
+    [propKey(NS_DAV, "displayname"), escapeXml(session.email)],
+    [propKey(NS_DAV, "principal-URL"), href(principalHref(session.userId))],
+    [propKey(NS_CALDAV, "calendar-home-set"), href(homeHref(session.userId))],
+    [propKey(NS_CALDAV, "calendar-user-address-set"), href(`mailto:${session.email}`)],
+  ]);
+}
+
+function homeProps(session: Session): Map<string, string> {
+  return new Map([
+    ...commonProps(session),
+    [propKey(NS_DAV, "resourcetype"), "<D:collection/>"],
+    [propKey(NS_DAV, "owner"), href(principalHref(session.userId))],
+    [propKey(NS_DAV, "current-user-privilege-set"), "<D:privilege><D:read/></D:privilege>"],
+    [propKey(NS_CALDAV, "calendar-home-set"), href(homeHref(session.userId))],
+  ]);
+}
+
+function calendarProps(session: Session, blocks: BlockRow[]): Map<string, string> {
+  return new Map([
+    ...commonProps(session),
+    [propKey(NS_DAV, "resourcetype"), "<D:collection/><C:calendar/>"],
+    [propKey(NS_DAV, "displayname"), CALENDAR_DISPLAY_NAME],
+    [propKey(NS_DAV, "owner"), href(principalHref(session.userId))],
+    [propKey(NS_DAV, "current-user-privilege-set"), PRIVILEGES],
+    [
+      propKey(NS_DAV, "supported-report-set"),
+      "<D:supported-report><D:report><C:calendar-query/></D:report></D:supported-report>" +
+        "<D:supported-report><D:report><C:calendar-multiget/></D:report></D:supported-report>",
+    ],
+    [propKey(NS_CALDAV, "supported-calendar-component-set"), '<C:comp name="VEVENT"/>'],
+    [propKey(NS_CALDAV, "calendar-description"), "Schedule blocks"],
+    [propKey(NS_CALSERVER, "getctag"), ctagOf(blocks)],
+  ]);
+}
+
+function objectProps(block: BlockRow, withData: boolean): Map<string, string> {
+  const props = new Map([
+    [propKey(NS_DAV, "resourcetype"), ""],
+    [propKey(NS_DAV, "getetag"), escapeXml(etagOf(block))],
+    [propKey(NS_DAV, "getcontenttype"), "text/calendar; charset=utf-8; component=VEVENT"],
+    [propKey(NS_DAV, "getlastmodified"), new Date(block.updated_at).toUTCString()],
+  ]);
+  if (withData) props.set(propKey(NS_CALDAV, "calendar-data"), escapeXml(blockIcs(block)));
+  return props;
+}
+
+const wantsCalendarData = (requested: PropName[] | null) =>
+  !!requested?.some((p) => p.ns === NS_CALDAV && p.name === "calendar-data");
+
+// ============================================
+// Methods
+// ============================================
+
+async function handlePropfind(req: Request, session: Session, target: Route): Promise<Response> {
+  const depth = req.headers.get("Depth") === "0" ? 0 : 1;
+  const requested = requestedProps(await req.text());
+  const withData = wantsCalendarData(requested);
+  const calendarData = [propKey(NS_CALDAV, "calendar-data")];
+
+  switch (target.kind) {
+    case "root":
+      return multistatus([propResponse(`${PUBLIC_BASE}/`, rootProps(session), requested)]);
+    case "principal":
+      return multistatus([propResponse(principalHref(session.userId), principalProps(session), requested)]);
+    case "home": {
+      const responses = [propResponse(homeHref(session.userId), homeProps(session), requested)];
+      if (depth > 0) {
+        responses.push(propResponse(calendarHref(session.userId), calendarProps(session, await loadBlocks(session)), requested));
+      }
+      return multistatus(responses);
+    }
+    case "calendar": {
+      const blocks = await loadBlocks(session);
+      const responses = [propResponse(calendarHref(session.userId), calendarProps(session, blocks), requested)];
+      if (depth > 0) {
+        for (const block of blocks) {
+          responses.push(propResponse(objectHref(session.userId, block), objectProps(block, withData), requested, calendarData));
+        }
+      }
+      return multistatus(responses);
+    }
+    case "object": {
+      const block = await findBlock(session, target.name);
+      if (!block) return plain(404, "Not found");
+      return multistatus([propResponse(objectHref(session.userId, block), objectProps(block, withData), requested, calendarData)]);
+    }
+  }
+}
+
+/** "20261018T000000Z" → ISO instant */
+function parseDavTime(value: string | undefined): string | undefined {
+  const match = value && /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(value);
+  return match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}Z` : undefined;
+}
+
+async function handleReport(req: Request, session: Session, target: Route): Promise<Response> {
+  if (target.kind !== "calendar") {
+    return davError(403, "<D:supported-report/>", "Reports are only supported on the calendar");
+  }
+
+  const body = await req.text();
+  const requested = requestedProps(body);
+  const withData = wantsCalendarData(requested);
+
+  if (/<(?:[\w.-]+:)?calendar-multiget\b/.test(body)) {
+    const blocks = await loadBlocks(session);
+    const byName = new Map(blocks.map((b) => [objectName(b), b]));
+    const responses: string[] = [];
+    for (const match of body.matchAll(/<(?:[\w.-]+:)?href>([^<]*)<\/(?:[\w.-]+:)?href>/g)) {
+      const requestedHref = unescapeXml(match[1].trim());
+      const name = decodeURIComponent(requestedHref.split("/").filter(Boolean).pop() ?? "");
+      const block = byName.get(name);
+      responses.push(block ? propResponse(requestedHref, objectProps(block, withData), requested) : notFoundResponse(requestedHref));
+    }
+    return multistatus(responses);
+  }
+
+  if (/<(?:[\w.-]+:)?calendar-query\b/.test(body)) {
+    // Only events live here; a query for tasks (VTODO) matches nothing
+    const components = [...body.matchAll(/<(?:[\w.-]+:)?comp-filter\b[^>]*name="([^"]+)"/g)].map((m) => m[1].toUpperCase());
+    if (components.length > 1 && !components.includes("VEVENT")) return multistatus([]);
+
+    const timeRange = /<(?:[\w.-]+:)?time-range\b([^>]*)>/.exec(body)?.[1] ?? "";
+    const blocks = await loadBlocks(session, {
+      start: parseDavTime(/start="([^"]+)"/.exec(timeRange)?.[1]),
+      end: parseDavTime(/end="([^"]+)"/.exec(timeRange)?.[1]),
+    });
+    return multistatus(
+      blocks.map((block) => propResponse(objectHref(session.userId, block), objectProps(block, withData), requested))
+    );
+  }
+
+  return davError(403, "<D:supported-report/>", "Unsupported report");
+}
+
+function handleGet(block: BlockRow, head: boolean): Response {
+  return new Response(head ? null : blockIcs(block), {
+    status: 200,
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      ETag: etagOf(block),
+      "Last-Modified": new Date(block.updated_at).toUTCString(),
+      ...DAV_HEADERS,
+    },
+  });
+}
+
+/** 412 unless the request's If-Match / If-None-Match allow writing over `existing`. */
+function preconditionFailed(req: Request, existing: BlockRow | null): Response | null {
+  const ifMatch = req.headers.get("If-Match");
+  const ifNoneMatch = req.headers.get("If-None-Match");
+  if (ifNoneMatch === "*" && existing) return plain(412, "Resource exists");
+  if (ifMatch && (!existing || (ifMatch !== "*" && ifMatch !== etagOf(existing)))) {
+    return plain(412, "ETag does not match");
+  }
+  return null;
+}
+
+async function handlePut(req: Request, session: Session, name: string): Promise<Response> {
+  if (!session.memberId) {
+    return plain(403, "Your account is not linked to a team member, so it has no schedule");
+  }
+
+  const existing = await findBlock(session, name);
+  const failed = preconditionFailed(req, existing);
+  if (failed) return failed;
+
+  let events: IcsEvent[];
+  try {
+    events = parseIcs(await req.text());
+  } catch (err) {
+    if (err instanceof IcsParseError) return davError(400, "<C:valid-calendar-data/>", err.message);
+    throw err;
+  }
+  if (events.length === 0) {
+    return davError(403, "<C:supported-calendar-component/>", "Only events can be stored in this calendar");
+  }
+  // A block is a single span of time
+  if (events.length > 1 || events[0].rrule || events[0].recurrenceId) {
+    return davError(403, "<C:valid-calendar-object-resource/>", "Repeating events are not supported");
+  }
+
+  const event = events[0];
+  const startTime = icsDateToTime(event.start);
+  const endTime = event.end
+    ? icsDateToTime(event.end)
+    : event.durationSeconds !== undefined
+      ? startTime + event.durationSeconds * 1000
+      : event.start.time ? startTime : startTime + DAY_MS;
+  const values = {
+    title: event.summary || "Busy",
+    start_utc: new Date(startTime).toISOString(),
+    end_utc: new Date(Math.max(endTime, startTime + MIN_BLOCK_MS)).toISOString(),
+  };
+
+  const { data: saved, error } = existing
+    ? await session.admin
+      .from("schedule_blocks")
+      .update(values)
+      .eq("id", existing.id)
+      .select(BLOCK_COLUMNS)
+      .single()
+    : await session.admin
+      .from("schedule_blocks")
+      .insert({
+        ...values,
+        org_id: session.orgId,
+        assignee_id: session.memberId,
+        source_type: "manual",
+        ical_uid: event.uid,
+        caldav_href: name,
+      })
+      .select(BLOCK_COLUMNS)
+      .single();
+
+  if (error) throw error;
+  return plain(existing ? 204 : 201, "", { ETag: etagOf(saved as BlockRow) });
+}
+
+async function handleDelete(req: Request, session: Session, name: string): Promise<Response> {
+  const existing = await findBlock(session, name);
+  if (!existing) return plain(404, "Not found");
+  const failed = preconditionFailed(req, existing);
+  if (failed) return failed;
+
+  const { error } = await session.admin
+    .from("schedule_blocks")
+    .delete()
+    .eq("id", existing.id);
+
+  if (error) throw error;
+  return plain(204, "");
+}
+
+/**
+ * CalDAV (RFC 4791 subset) over the signed-in user's schedule blocks: discovery via
+ * PROPFIND, calendar-query / calendar-multiget REPORTs, and GET / PUT / DELETE of
+ * events with ETags. Calendar apps use Basic auth with an app password; POST from the
+ * app (signed in) issues that password.
+ */
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests; calendar apps use OPTIONS for capability discovery
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: { ...corsHeaders, ...DAV_HEADERS } });
+  }
+
+  try {
+    if (req.method === "POST") {
+      return await issueAppPassword(req);
+    }
+
+    const session = await authenticate(req);
+    if (!session) {
+      return plain(401, "Unauthorized", { "WWW-Authenticate": 'Basic realm="Accord CalDAV", charset="UTF-8"' });
+    }
+
+    const target = route(new URL(req.url).pathname);
+    if (!target) return plain(404, "Not found");
+    if (target.kind !== "root" && target.userId !== session.userId) return plain(403, "Forbidden");
+
+    switch (req.method) {
+      case "PROPFIND":
+        return await handlePropfind(req, session, target);
+      case "REPORT":
+        return await handleReport(req, session, target);
+      case "GET":
+      case "HEAD": {
+        if (target.kind !== "object") return plain(405, "Method not allowed");
+        const block = await findBlock(session, target.name);
+        return block ? handleGet(block, req.method === "HEAD") : plain(404, "Not found");
+      }
+      case "PUT":
+        if (target.kind !== "object") return plain(405, "Method not allowed");
+        return await handlePut(req, session, target.name);
+      case "DELETE":
+        if (target.kind !== "object") return plain(403, "The calendar itself can't be deleted");
+        return await handleDelete(req, session, target.name);
+      default:
+        return plain(405, "Method not allowed");
+    }
+  } catch (error) {
+    console.error("Error in caldav function:", error);
+    return plain(500, error instanceof Error ? error.message : String(error));
+  }
+};
+
+serve(handler);
@@ -0,0 +1,289 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { buildIcs, type IcsFeedEvent } from "../../../src/lib/ics.ts";
+import { timingSafeEqual } from "../_shared/timingSafeEqual.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+const ICS_FEED_SECRET = Deno.env.get("ICS_FEED_SECRET");
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// Feeds cover a month back and a year ahead
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 365;
+const DAY_MS = 86_400_000;
+
+const encoder = new TextEncoder();
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+const newNonce = () => crypto.randomUUID().replace(/-/g, "");
+
+async function signFeed(feedId: string, nonce: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(ICS_FEED_SECRET!),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${feedId}:${nonce}`));
+  return Array.from(new Uint8Array(signature), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+const feedUrl = (feedId: string, signature: string) =>
+  `${SUPABASE_URL}/functions/v1/calendar-feed?feed=${feedId}&sig=${signature}`;
+
+interface FeedRow {
+  id: string;
+  org_id: string;
+  user_id: string;
+  name: string | null;
+  feed_nonce: string;
+  include_tasks: boolean;
+  include_milestones: boolean;
+  include_blocks: boolean;
+}
+
+/** Serves a feed to calendar apps; the URL's signature is the only credential. */
+async function serveFeed(url: URL): Promise<Response> {
+  const feedId = url.searchParams.get("feed");
+  const signature = url.searchParams.get("sig");
+  const notFound = () => new Response("Not found", { status: 404, headers: corsHeaders });
+  if (!feedId || !signature) return notFound();
+
+  const supabaseAdmin = createClient(
+    SUPABASE_URL!,
+    SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data: feed, error } = await supabaseAdmin
+    .from("calendar_connections")
+    .select("id, org_id, user_id, name, feed_nonce, include_tasks, include_milestones, include_blocks")
+    .eq("id", feedId)
+    .eq("kind", "ics_feed")
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!feed || !timingSafeEqual(await signFeed(feed.id, feed.feed_nonce), signature)) return notFound();
+
+  const row = feed as FeedRow;
+  const { data: memberId } = await supabaseAdmin.rpc("get_user_team_member_id", { _user_id: row.user_id });
+
+  const now = Date.now();
+  const fromDate = new Date(now - FEED_PAST_DAYS * DAY_MS).toISOString().slice(0, 10);
+  const toDate = new Date(now + FEED_FUTURE_DAYS * DAY_MS).toISOString().slice(0, 10);
+  const events: IcsFeedEvent[] = [];
+
+  if (memberId && row.include_tasks) {
+    const { data: tasks, error: tasksError } = await supabaseAdmin
+      .from("tasks")
+      .select("id, title, description, start_date, due_date, projects(name)")
+      .eq("org_id", row.org_id)
+      .eq("assignee_id", memberId)
+      .neq("status", "done")
+      .not("due_date", "is", null)
+      .gte("due_date", fromDate)
+      .lte("due_date", toDate);
+
+    if (tasksError) throw tasksError;
+    for (const task of tasks || []) {
+      const project = task.projects as { name: string } | null;
+      const start = task.start_date && task.start_date <= task.due_date ? task.start_date : task.due_date;
+      events.push({
+        uid: `task-${task.id}@accord`,
+        summary: task.title,
+        description: [project?.name, task.description].filter(Boolean).join("\n\n") || undefined,
+        allDay: true,
+        start,
+        // All-day ends are exclusive
+        end: new Date(Date.parse(task.due_date) + DAY_MS).toISOString().slice(0, 10),
+        categories: ["Task"],
+      });
+    }
+  }
+
+  if (memberId && row.include_milestones) {
+    const { data: memberships, error: membershipsError } = await supabaseAdmin
+      .from("project_members")
+      .select("project_id")
+      .eq("member_id", memberId);
+
+    if (membershipsError) throw membershipsError;
+    const projectIds = (memberships || []).map((m) => m.project_id);
+
+    if (projectIds.length > 0) {
+      const { data: milestones, error: milestonesError } = await supabaseAdmin
+        .from("milestones")
+        .select("id, title, description, due_date, projects(name)")
+        .in("project_id", projectIds)
+        .gte("due_date", fromDate)
+        .lte("due_date", toDate);
+
+      if (milestonesError) throw milestonesError;
+      for (const milestone of milestones || []) {
+        const project = milestone.projects as { name: string } | null;
+        events.push({
+          uid: `milestone-${milestone.id}@accord`,
+          summary: project ? `${milestone.title} (${project.name})` : milestone.title,
+          description: milestone.description || undefined,
+          allDay: true,
+          start: milestone.due_date,
+          end: new Date(Date.parse(milestone.due_date) + DAY_MS).toISOString().slice(0, 10),
+          categories: ["Milestone"],
+        });
+      }
+    }
+  }
+
+  if (memberId && row.include_blocks) {
+    // Imported events came from the subscriber's own calendars, so they aren't published back
+    const { data: blocks, error: blocksError } = await supabaseAdmin
+      .from("schedule_blocks")
+      .select("id, title, start_utc, end_utc, source_type")
+      .eq("org_id", row.org_id)
+      .eq("assignee_id", memberId)
+      .is("calendar_connection_id", null)
+      .gte("end_utc", `${fromDate}T00:00:00Z`)
+      .lte("start_utc", `${toDate}T23:59:59Z`);
+
+    if (blocksError) throw blocksError;
+    for (const block of blocks || []) {
+      events.push({
+        uid: `block-${block.id}@accord`,
+        summary: block.title,
+        allDay: false,
+        start: block.start_utc,
+        end: block.end_utc,
+        categories: ["Schedule"],
+      });
+    }
+  }
+
+  // Lets the user see that their calendar app is picking the feed up
+  await supabaseAdmin
+    .from("calendar_connections")
+    .update({ last_synced_at: new Date().toISOString(), event_count: events.length })
+    .eq("id", row.id);
+
+  return new Response(buildIcs({ name: row.name || "Accord schedule", events }), {
+    status: 200,
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="schedule.ics"',
+      "Cache-Control": "private, max-age=300",
+      ...corsHeaders,
+    },
+  });
+}
+
+/**
+ * Calendar feeds. GET with ?feed=&sig= returns the feed as text/calendar for calendar
+ * apps to subscribe to; POST { action: 'issue' | 'rotate' } (signed in) returns the
+ * caller's feed URL, creating the feed or replacing its nonce so old URLs stop working.
+ */
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (!ICS_FEED_SECRET) {
+      console.error("ICS_FEED_SECRET is not set");
+      return jsonResponse({ error: "Calendar feeds are not configured" }, 500);
+    }
+
+    if (req.method === "GET") {
+      return await serveFeed(new URL(req.url));
+    }
+
+    // Verify authentication
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Authentication required" }, 401);
+    }
+
+    // Create Supabase client with user's auth token
+    const supabaseClient = createClient(
+      SUPABASE_URL!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      }
+    );
+
+    // Verify the user is authenticated
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      return jsonResponse({ error: "Invalid authentication" }, 401);
+    }
+
+    const { action } = await req.json();
+    if (action !== "issue" && action !== "rotate") {
+      return jsonResponse({ error: "Unknown action" }, 400);
+    }
+
+    // Use service role for admin operations
+    const supabaseAdmin = createClient(
+      SUPABASE_URL!,
+      SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { data: userOrgId } = await supabaseAdmin.rpc("get_user_org_id", {
+      _user_id: user.id,
+    });
+    if (!userOrgId) {
+      return jsonResponse({ error: "No organization" }, 403);
+    }
+
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from("calendar_connections")
+      .select("id, feed_nonce")
+      .eq("user_id", user.id)
+      .eq("kind", "ics_feed")
+      .maybeSingle();
+
+    if (existingError) throw existingError;
+
+    let feed = existing as { id: string; feed_nonce: string } | null;
+    if (!feed) {
+      const { data: created, error: createError } = await supabaseAdmin
+        .from("calendar_connections")
+        .insert({ org_id: userOrgId, user_id: user.id, kind: "ics_feed", provider: "ics", name: "Accord schedule" })
+        .select("id, feed_nonce")
+        .single();
+
+      if (createError) throw createError;
+      feed = created;
+    } else if (action === "rotate") {
+      const { data: rotated, error: rotateError } = await supabaseAdmin
+        .from("calendar_connections")
+        .update({ feed_nonce: newNonce(), last_synced_at: null })
+        .eq("id", feed.id)
+        .select("id, feed_nonce")
+        .single();
+
+      if (rotateError) throw rotateError;
+      feed = rotated;
+    }
+
+    return jsonResponse({ id: feed!.id, url: feedUrl(feed!.id, await signFeed(feed!.id, feed!.feed_nonce)) });
+  } catch (error) {
+    console.error("Error in calendar-feed function:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+};
+
+serve(handler);
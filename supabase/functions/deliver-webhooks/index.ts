@@ -0,0 +1,200 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import {
+  isPrivateAddress,
+  isPrivateWebhookHost,
+  signWebhookPayload,
+  webhookRetryDelayMinutes,
+} from "../../../src/lib/webhookDelivery.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// Deliveries claimed per round, and sent at the same time
+const BATCH_SIZE = 50;
+const CONCURRENCY = 5;
+// An endpoint gets this long to answer
+const REQUEST_TIMEOUT_MS = 10_000;
+// Stop claiming new rounds before the next cron run starts
+const RUN_BUDGET_MS = 45_000;
+// Stored for the delivery log
+const MAX_RESPONSE_BODY = 1000;
+
+interface ClaimedDelivery {
+  id: string;
+  subscription_id: string;
+  url: string;
+  secret: string;
+  event_id: string;
+  event_type: string;
+  payload: unknown;
+  attempts: number;
+}
+
+interface DeliverResult {
+  delivered: number;
+  retrying: number;
+  failed: number;
+}
+
+type SupabaseAdmin = ReturnType<typeof createClient>;
+
+/**
+ * Why the endpoint must not be called, or null. The host is resolved here so a public name pointing at
+ * a private address is refused too; a name with no A or AAAA record fails like any unreachable host.
+ */
+async function privateEndpointReason(url: string): Promise<string | null> {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    return "Invalid URL";
+  }
+  if (isPrivateWebhookHost(hostname)) return "Blocked: the URL points to a private or local address";
+  // IP literals were checked above
+  if (hostname.startsWith("[") || /^[\d.]+$/.test(hostname)) return null;
+
+  const lookups = await Promise.all(
+    (["A", "AAAA"] as const).map((type) => Deno.resolveDns(hostname, type).catch(() => [] as string[]))
+  );
+  const addresses = lookups.flat();
+  if (addresses.some(isPrivateAddress)) return "Blocked: the host resolves to a private or local address";
+  return null;
+}
+
+async function deliver(supabaseAdmin: SupabaseAdmin, delivery: ClaimedDelivery): Promise<keyof DeliverResult> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  const blockedReason = await privateEndpointReason(delivery.url);
+  if (blockedReason) {
+    error = blockedReason;
+  } else {
+    try {
+      const response = await fetch(delivery.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "Accord-Webhooks/1.0",
+          "Webhook-Id": delivery.id,
+          "Webhook-Event": delivery.event_type,
+          "Webhook-Timestamp": String(timestamp),
+          "Webhook-Signature": await signWebhookPayload(delivery.secret, timestamp, body),
+        },
+        body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY);
+      if (!response.ok) error = `HTTP ${response.status}`;
+    } catch (err) {
+      error = err instanceof Error ? (err.name === "TimeoutError" ? "Timed out" : err.message) : String(err);
+    }
+  }
+
+  // A private endpoint stays private: fail at once instead of retrying
+  const retryMinutes = error && !blockedReason ? webhookRetryDelayMinutes(delivery.attempts) : null;
+  const outcome: keyof DeliverResult = !error ? "delivered" : retryMinutes !== null ? "retrying" : "failed";
+
+  const { error: updateError } = await supabaseAdmin
+    .from("webhook_deliveries")
+    .update({
+      status: outcome === "delivered" ? "succeeded" : outcome === "retrying" ? "pending" : "failed",
+      response_status: responseStatus,
+      response_body: responseBody,
+      error,
+      delivered_at: outcome === "delivered" ? new Date().toISOString() : null,
+      ...(retryMinutes !== null ? { next_attempt_at: new Date(Date.now() + retryMinutes * 60_000).toISOString() } : {}),
+    })
+    .eq("id", delivery.id);
+
+  if (updateError) {
+    console.error(`Failed to record delivery ${delivery.id}:`, updateError);
+  }
+  return outcome;
+}
+
+/**
+ * Sends due webhook deliveries: signs each event, posts it to the subscription's URL and
+ * records the outcome. Failed attempts are retried with backoff (see src/lib/webhookDelivery.ts)
+ * until they run out of attempts. Runs every minute from pg_cron.
+ */
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    const cronSecret = Deno.env.get("CRON_SECRET");
+
+    // If CRON_SECRET is set, require it for security
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.error("Unauthorized webhook delivery attempt");
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json", ...corsHeaders },
+        }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      SUPABASE_URL!,
+      SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const startedAt = Date.now();
+    const result: DeliverResult = { delivered: 0, retrying: 0, failed: 0 };
+
+    while (Date.now() - startedAt < RUN_BUDGET_MS) {
+      const { data, error } = await supabaseAdmin.rpc("claim_webhook_deliveries", { _limit: BATCH_SIZE });
+      if (error) throw error;
+
+      const claimed = (data || []) as ClaimedDelivery[];
+      if (claimed.length === 0) break;
+
+      for (let i = 0; i < claimed.length; i += CONCURRENCY) {
+        const outcomes = await Promise.all(claimed.slice(i, i + CONCURRENCY).map((d) => deliver(supabaseAdmin, d)));
+        for (const outcome of outcomes) result[outcome]++;
+      }
+
+      if (claimed.length < BATCH_SIZE) break;
+    }
+
+    console.log(
+      `Webhook delivery complete: ${result.delivered} delivered, ${result.retrying} to retry, ${result.failed} failed`
+    );
+
+    return new Response(
+      JSON.stringify({ success: true, ...result }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  } catch (error) {
+    console.error("Error in deliver-webhooks function:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,179 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { addDaysToKey, dueOccurrences, type RecurrenceMode } from "../../../src/lib/recurrence.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// Series are loaded and their instances looked up in batches of this size
+const BATCH_SIZE = 200;
+
+interface SeriesRow {
+  id: string;
+  org_id: string;
+  project_id: string;
+  rrule: string;
+  dtstart: string;
+  ends_on: string | null;
+  mode: string;
+  lead_days: number;
+  exdates: string[];
+  title: string;
+  description: string | null;
+  priority: string;
+  weight: number;
+  estimated_hours: number;
+  assignee_id: string | null;
+  milestone_id: string | null;
+  duration_days: number | null;
+}
+
+interface GenerateResult {
+  series: number;
+  created: number;
+  failed: number;
+  errors: string[];
+}
+
+const todayKey = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Creates the instances recurring series are missing: occurrences inside the lead
+ * window of 'schedule' series, and the next occurrence of 'on_complete' series whose
+ * open instance was completed outside the app. Runs hourly from pg_cron.
+ */
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    const cronSecret = Deno.env.get("CRON_SECRET");
+
+    // If CRON_SECRET is set, require it for security
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.error("Unauthorized recurring task generation attempt");
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json", ...corsHeaders },
+        }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      SUPABASE_URL!,
+      SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const today = todayKey();
+    const result: GenerateResult = { series: 0, created: 0, failed: 0, errors: [] };
+
+    for (let offset = 0; ; offset += BATCH_SIZE) {
+      const { data: series, error } = await supabaseAdmin
+        .from("task_recurrences")
+        .select("*")
+        .or(`ends_on.is.null,ends_on.gte.${today}`)
+        .order("id")
+        .range(offset, offset + BATCH_SIZE - 1);
+
+      if (error) throw error;
+      if (!series || series.length === 0) break;
+
+      // Completed instances before yesterday can't affect what is due, so long series' history is skipped
+      const { data: instances, error: instancesError } = await supabaseAdmin
+        .from("tasks")
+        .select("recurrence_id, recurrence_date, status")
+        .in("recurrence_id", series.map((s: SeriesRow) => s.id))
+        .or(`status.neq.done,recurrence_date.gte.${addDaysToKey(today, -1)}`);
+
+      if (instancesError) throw instancesError;
+
+      for (const row of series as SeriesRow[]) {
+        result.series++;
+        try {
+          const dates = dueOccurrences(
+            {
+              rrule: row.rrule,
+              dtstart: row.dtstart,
+              endsOn: row.ends_on,
+              mode: row.mode as RecurrenceMode,
+              leadDays: row.lead_days,
+              exdates: row.exdates,
+            },
+            (instances || [])
+              .filter((i) => i.recurrence_id === row.id && i.recurrence_date)
+              .map((i) => ({ date: i.recurrence_date, open: i.status !== "done" })),
+            today
+          );
+          if (dates.length === 0) continue;
+
+          // Same defaults as buildRecurringInstancePayload in src/domains/tasks/service.ts
+          const payloads = dates.map((date) => ({
+            title: row.title,
+            description: row.description,
+            project_id: row.project_id,
+            status: "todo",
+            priority: row.priority,
+            weight: row.weight,
+            estimated_hours: row.estimated_hours,
+            actual_cost: 0,
+            assignee_id: row.assignee_id,
+            start_date: row.duration_days === null ? null : addDaysToKey(date, -row.duration_days),
+            due_date: date,
+            milestone_id: row.milestone_id,
+            org_id: row.org_id,
+            recurrence_id: row.id,
+            recurrence_date: date,
+          }));
+
+          const { data: created, error: insertError } = await supabaseAdmin
+            .from("tasks")
+            .upsert(payloads, { onConflict: "recurrence_id,recurrence_date", ignoreDuplicates: true })
+            .select("id");
+
+          if (insertError) throw insertError;
+          result.created += created?.length ?? 0;
+        } catch (err) {
+          console.error(`Failed to generate tasks for series ${row.id}:`, err);
+          result.failed++;
+          result.errors.push(`${row.id}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      }
+
+      if (series.length < BATCH_SIZE) break;
+    }
+
+    console.log(
+      `Recurring task generation complete: ${result.created} created across ${result.series} series, ${result.failed} failed`
+    );
+
+    return new Response(
+      JSON.stringify({ success: true, ...result }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  } catch (error) {
+    console.error("Error in generate-recurring-tasks function:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  }
+};
+
+serve(handler);
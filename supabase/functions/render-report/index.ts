@@ -0,0 +1,153 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { format } from "date-fns";
+import { REPORT_DATE_RANGES, type ReportDateRange } from "../../../src/lib/reportData.ts";
+import { renderReportDocument, REPORT_DOCUMENT_TYPES, type ReportDocumentFormat } from "../../../src/lib/reportRender.ts";
+import { buildOrgReportData } from "../_shared/reportSource.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Expose-Headers": "content-disposition",
+};
+
+interface RenderReportRequest {
+  format?: ReportDocumentFormat;
+  portfolio_id?: string | null;
+  program_id?: string | null;
+  date_range?: ReportDateRange;
+  /** ISO time the report is built at; defaults to now. The same time renders the same document. */
+  as_of?: string;
+}
+
+function jsonError(status: number, error: string): Response {
+  return new Response(
+    JSON.stringify({ error }),
+    {
+      status,
+      headers: { "Content-Type": "application/json", ...corsHeaders },
+    }
+  );
+}
+
+/**
+ * Renders the portfolio report headlessly as PDF, HTML or CSV for the caller's org – the same
+ * document the Reports page exports and scheduled reports attach, built from the database with
+ * charts drawn from the data. Managers and above, like exporting from the Reports page.
+ */
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "POST") return jsonError(405, "Method not allowed");
+
+  try {
+    // ========== AUTHENTICATION ==========
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) return jsonError(401, "Authentication required");
+
+    // Create Supabase client with user's auth token
+    const supabaseClient = createClient(
+      SUPABASE_URL!,
+      SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      }
+    );
+
+    // Verify the user is authenticated
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      console.error("Auth error:", authError?.message || "No user found");
+      return jsonError(401, "Invalid authentication");
+    }
+
+    // ========== AUTHORIZATION ==========
+    const { data: hasRole, error: roleError } = await supabaseClient.rpc("has_min_org_role", {
+      _user_id: user.id,
+      _min_role: "manager",
+    });
+    if (roleError || !hasRole) {
+      return jsonError(403, "You don't have permission to export reports");
+    }
+
+    const supabaseAdmin = createClient(
+      SUPABASE_URL!,
+      SUPABASE_SERVICE_ROLE_KEY!
+    );
+    const { data: orgId } = await supabaseAdmin.rpc("get_user_org_id", { _user_id: user.id });
+    if (!orgId) return jsonError(403, "You are not a member of an organization");
+
+    // ========== INPUT VALIDATION ==========
+    let body: RenderReportRequest;
+    try {
+      body = await req.json();
+    } catch {
+      body = {};
+    }
+
+    const documentFormat = body.format ?? "pdf";
+    if (!(documentFormat in REPORT_DOCUMENT_TYPES)) {
+      return jsonError(400, "format must be pdf, html, csv or xlsx");
+    }
+    const dateRange = body.date_range ?? "this-month";
+    if (!(REPORT_DATE_RANGES as readonly string[]).includes(dateRange)) {
+      return jsonError(400, `date_range must be one of ${REPORT_DATE_RANGES.join(", ")}`);
+    }
+    const now = body.as_of ? new Date(body.as_of) : new Date();
+    if (Number.isNaN(now.getTime())) return jsonError(400, "as_of must be an ISO date or time");
+
+    // The filters must be the org's, and the program must sit in the portfolio
+    if (body.portfolio_id) {
+      const { data: portfolio } = await supabaseAdmin
+        .from("portfolios")
+        .select("id")
+        .eq("id", body.portfolio_id)
+        .eq("org_id", orgId)
+        .maybeSingle();
+      if (!portfolio) return jsonError(404, "Portfolio not found");
+    }
+    if (body.program_id) {
+      const { data: program } = await supabaseAdmin
+        .from("programs")
+        .select("id, portfolio_id")
+        .eq("id", body.program_id)
+        .eq("org_id", orgId)
+        .maybeSingle();
+      if (!program || (body.portfolio_id && program.portfolio_id !== body.portfolio_id)) {
+        return jsonError(404, "Program not found");
+      }
+    }
+
+    // ========== RENDER ==========
+    const reportData = await buildOrgReportData(supabaseAdmin, orgId, {
+      scope: { portfolioId: body.portfolio_id || "all", programId: body.program_id || "all" },
+      dateRange,
+      now,
+    });
+    const document = await renderReportDocument(reportData, documentFormat);
+    const filename = `portfolio-report-${format(now, "yyyy-MM-dd")}.${documentFormat}`;
+
+    return new Response(document, {
+      status: 200,
+      headers: {
+        "Content-Type": REPORT_DOCUMENT_TYPES[documentFormat],
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        ...corsHeaders,
+      },
+    });
+  } catch (error) {
+    console.error("Error in render-report function:", error);
+    return jsonError(500, error instanceof Error ? error.message : String(error));
+  }
+};
+
+serve(handler);
@@ -1,5 +1,12 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import {
+  countEmailsSentSince,
+  DAILY_EMAIL_LIMIT,
+  HOURLY_EMAIL_LIMIT,
+  isValidEmail,
+  recipientBlockReason,
+} from "../_shared/emailGuards.ts";
 
 const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
@@ -26,9 +33,7 @@ interface SendEmailRequest {
   };
 }
 
-// Rate limits
-const HOURLY_EMAIL_LIMIT = 20;
-const DAILY_EMAIL_LIMIT = 100;
+// Rate limits (hourly and daily limits are in _shared/emailGuards.ts)
 const MAX_URLS_IN_BODY = 5;
 const MAX_DUPLICATE_CONTENT_PER_HOUR = 10;
 
@@ -44,14 +49,6 @@ function escapeHtml(text: string): string {
     .replace(/'/g, "&#039;");
 }
 
-/**
- * Validate email format
- */
-function isValidEmail(email: string): boolean {
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  return emailRegex.test(email) && email.length <= 254;
-}
-
 /**
  * Extract URLs from text
  */
@@ -207,55 +204,14 @@ const handler = async (req: Request): Promise<Response> => {
     });
 
     // ========== RECIPIENT ALLOWLIST CHECK ==========
-    // Only allow sending to contacts in the user's organization (unless it's an invite email)
+    // Only allow sending to contacts or members of the user's organization who have accepted
+    // their invite (unless it's an invite email)
     if (!isInviteEmail && userOrgId) {
-      const { data: isKnownContact } = await supabaseAdmin
-        .from("contacts")
-        .select("id")
-        .eq("email", to.toLowerCase())
-        .eq("org_id", userOrgId)
-        .maybeSingle();
-
-      // Also check if recipient is a profile in the same org
-      const { data: isOrgMember } = await supabaseAdmin
-        .from("profiles")
-        .select("id")
-        .eq("email", to.toLowerCase())
-        .eq("org_id", userOrgId)
-        .maybeSingle();
-
-      if (!isKnownContact && !isOrgMember) {
-        console.warn("Blocked email to unknown recipient:", to, "from user:", user.id);
+      const blockReason = await recipientBlockReason(supabaseAdmin, userOrgId, to);
+      if (blockReason) {
+        console.warn("Blocked email to recipient:", to, "from user:", user.id, "reason:", blockReason);
         return new Response(
-          JSON.stringify({ 
-            error: "You can only send emails to contacts or members in your organization" 
-          }),
-          {
-            status: 403,
-            headers: { "Content-Type": "application/json", ...corsHeaders },
-          }
-        );
-      }
-    }
-
-    // ========== CHECK IF RECIPIENT IS A PENDING INVITE ==========
-    // Block emails to pending invitees unless it's an invite email
-    if (!isInviteEmail && userOrgId) {
-      // Check if recipient has a pending invite in the same org
-      const { data: pendingInvite } = await supabaseAdmin
-        .from("org_invites")
-        .select("id")
-        .eq("org_id", userOrgId)
-        .eq("email", to.toLowerCase())
-        .is("accepted_at", null)
-        .maybeSingle();
-
-      if (pendingInvite) {
-        console.warn("Blocked email to pending invite:", to);
-        return new Response(
-          JSON.stringify({ 
-            error: "Cannot send emails to this recipient until they have accepted their organization invite" 
-          }),
+          JSON.stringify({ error: blockReason }),
           {
             status: 403,
             headers: { "Content-Type": "application/json", ...corsHeaders },
@@ -266,15 +222,9 @@ const handler = async (req: Request): Promise<Response> => {
 
     // ========== RATE LIMITING (HOURLY) ==========
     const oneHourAgo = new Date(Date.now() - 3600000).toISOString();
-    const { count: hourlyCount, error: hourlyCountError } = await supabaseClient
-      .from("messages")
-      .select("*", { count: "exact", head: true })
-      .eq("sender_id", user.id)
-      .gte("created_at", oneHourAgo);
+    const hourlyCount = await countEmailsSentSince(supabaseAdmin, user.id, oneHourAgo);
 
-    if (hourlyCountError) {
-      console.error("Hourly rate limit check error:", hourlyCountError.message);
-    } else if (hourlyCount !== null && hourlyCount >= HOURLY_EMAIL_LIMIT) {
+    if (hourlyCount !== null && hourlyCount >= HOURLY_EMAIL_LIMIT) {
       console.warn("Hourly rate limit exceeded for user:", user.id, "count:", hourlyCount);
       return new Response(
         JSON.stringify({ error: `You've reached your hourly email limit (${HOURLY_EMAIL_LIMIT}). Please try again later.` }),
@@ -287,15 +237,9 @@ const handler = async (req: Request): Promise<Response> => {
 
     // ========== RATE LIMITING (DAILY) ==========
     const oneDayAgo = new Date(Date.now() - 86400000).toISOString();
-    const { count: dailyCount, error: dailyCountError } = await supabaseClient
-      .from("messages")
-      .select("*", { count: "exact", head: true })
-      .eq("sender_id", user.id)
-      .gte("created_at", oneDayAgo);
+    const dailyCount = await countEmailsSentSince(supabaseAdmin, user.id, oneDayAgo);
 
-    if (dailyCountError) {
-      console.error("Daily rate limit check error:", dailyCountError.message);
-    } else if (dailyCount !== null && dailyCount >= DAILY_EMAIL_LIMIT) {
+    if (dailyCount !== null && dailyCount >= DAILY_EMAIL_LIMIT) {
       console.warn("Daily rate limit exceeded for user:", user.id, "count:", dailyCount);
       return new Response(
         JSON.stringify({ error: `You've reached your daily email limit (${DAILY_EMAIL_LIMIT}). Please try again tomorrow.` }),
@@ -0,0 +1,323 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { encode as encodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { format } from "date-fns";
+import { REPORT_TYPE_LABELS, type ReportDateRange, type ReportType } from "../../../src/lib/reportData.ts";
+import { generateReportHTML, renderReportDocument, REPORT_DOCUMENT_TYPES } from "../../../src/lib/reportRender.ts";
+import { describeReportCron, nextCronRun } from "../../../src/lib/reportSchedule.ts";
+import {
+  countEmailsSentSince,
+  DAILY_EMAIL_LIMIT,
+  HOURLY_EMAIL_LIMIT,
+  isValidEmail,
+  recipientBlockReason,
+} from "../_shared/emailGuards.ts";
+import { buildOrgReportData } from "../_shared/reportSource.ts";
+
+const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// Subscriptions claimed per round
+const BATCH_SIZE = 10;
+// Stop claiming new rounds well before the cron request times out
+const RUN_BUDGET_MS = 180_000;
+const REPORTS_BUCKET = "Reports";
+
+interface ReportSubscription {
+  id: string;
+  org_id: string;
+  name: string;
+  report_type: ReportType;
+  portfolio_id: string | null;
+  program_id: string | null;
+  date_range: ReportDateRange;
+  format: "pdf" | "csv" | "xlsx";
+  recipients: string[];
+  cron_expression: string;
+  created_by: string | null;
+}
+
+type RunStatus = "sent" | "partial" | "failed" | "skipped";
+
+interface RunOutcome {
+  status: RunStatus;
+  recipientCount: number;
+  sentCount: number;
+  filePath: string | null;
+  error: string | null;
+}
+
+type SupabaseAdmin = ReturnType<typeof createClient>;
+
+/**
+ * Escape HTML entities to prevent XSS in email content
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
+
+async function sendReportEmail(
+  to: string,
+  subject: string,
+  html: string,
+  attachment: { filename: string; content: string }
+): Promise<string | null> {
+  const res = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${RESEND_API_KEY}`,
+    },
+    body: JSON.stringify({
+      from: "Accord <do_not_reply@beinaccord.com>",
+      to: [to],
+      subject,
+      html,
+      attachments: [attachment],
+    }),
+  });
+  if (res.ok) return null;
+  const details = await res.text().catch(() => "");
+  console.error("Resend API error:", res.status, details.slice(0, 500));
+  return `Failed to send to ${to} (HTTP ${res.status})`;
+}
+
+async function runSubscription(supabaseAdmin: SupabaseAdmin, subscription: ReportSubscription): Promise<RunOutcome> {
+  const outcome: RunOutcome = {
+    status: "skipped",
+    recipientCount: subscription.recipients.length,
+    sentCount: 0,
+    filePath: null,
+    error: null,
+  };
+
+  // ========== OWNER ==========
+  // Reports are sent on behalf of the manager who owns the subscription
+  const owner = subscription.created_by;
+  if (!owner) {
+    outcome.error = "The subscription has no owner; save it again to take it over";
+    return outcome;
+  }
+  const [{ data: ownerOrgId }, { data: ownerIsManager }] = await Promise.all([
+    supabaseAdmin.rpc("get_user_org_id", { _user_id: owner }),
+    supabaseAdmin.rpc("has_min_org_role", { _user_id: owner, _min_role: "manager" }),
+  ]);
+  if (ownerOrgId !== subscription.org_id || !ownerIsManager) {
+    outcome.error = "The subscription's owner can no longer send reports; save it again to take it over";
+    return outcome;
+  }
+
+  // ========== RECIPIENTS ==========
+  // Same allowlist as send-email
+  const recipients: string[] = [];
+  const blocked: string[] = [];
+  for (const email of subscription.recipients) {
+    const reason = isValidEmail(email)
+      ? await recipientBlockReason(supabaseAdmin, subscription.org_id, email)
+      : "Invalid email address format";
+    if (reason) blocked.push(`${email}: ${reason}`);
+    else recipients.push(email);
+  }
+  if (recipients.length === 0) {
+    outcome.status = "failed";
+    outcome.error = blocked.join("; ");
+    return outcome;
+  }
+
+  // ========== RATE LIMITING ==========
+  // The owner's send-email limits; a report goes to all recipients or none
+  const now = Date.now();
+  const [hourlyCount, dailyCount] = await Promise.all([
+    countEmailsSentSince(supabaseAdmin, owner, new Date(now - 3600000).toISOString()),
+    countEmailsSentSince(supabaseAdmin, owner, new Date(now - 86400000).toISOString()),
+  ]);
+  if (hourlyCount !== null && hourlyCount + recipients.length > HOURLY_EMAIL_LIMIT) {
+    outcome.error = `Sending would exceed the hourly email limit (${HOURLY_EMAIL_LIMIT}) of the subscription's owner`;
+    return outcome;
+  }
+  if (dailyCount !== null && dailyCount + recipients.length > DAILY_EMAIL_LIMIT) {
+    outcome.error = `Sending would exceed the daily email limit (${DAILY_EMAIL_LIMIT}) of the subscription's owner`;
+    return outcome;
+  }
+
+  // ========== BUILD REPORT ==========
+  const reportData = await buildOrgReportData(supabaseAdmin, subscription.org_id, {
+    scope: { portfolioId: subscription.portfolio_id ?? "all", programId: subscription.program_id ?? "all" },
+    dateRange: subscription.date_range,
+    now: new Date(now),
+  });
+  const document = await renderReportDocument(reportData, subscription.format);
+  const bytes = new Uint8Array(await document.arrayBuffer());
+  const contentType = REPORT_DOCUMENT_TYPES[subscription.format];
+
+  // ========== UPLOAD ==========
+  // Kept for 24h in the Reports bucket, like reports sent from the page (see cleanup-reports)
+  const filename = `portfolio-report-${format(new Date(now), "yyyy-MM-dd")}-${now}.${subscription.format}`;
+  const filePath = `reports/${filename}`;
+  const { error: uploadError } = await supabaseAdmin.storage
+    .from(REPORTS_BUCKET)
+    .upload(filePath, bytes, { contentType, upsert: false });
+  if (uploadError) {
+    console.error("Report upload failed:", uploadError.message);
+  } else {
+    outcome.filePath = filePath;
+  }
+
+  // ========== SEND ==========
+  const subject = `${subscription.name} – ${format(new Date(now), "MMM d, yyyy")}`;
+  const intro = `
+    <p style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; max-width: 600px; margin: 0 auto 16px auto; color: #64748b; font-size: 13px;">
+      ${escapeHtml(subscription.name)} · ${REPORT_TYPE_LABELS[subscription.report_type]} report · ${escapeHtml(describeReportCron(subscription.cron_expression))}.
+      The ${subscription.format.toUpperCase()} report is attached.
+    </p>
+  `;
+  const html = intro + generateReportHTML(reportData);
+  const attachment = { filename, content: encodeBase64(bytes) };
+
+  const errors = [...blocked];
+  for (const to of recipients) {
+    const error = await sendReportEmail(to, subject, html, attachment);
+    if (error) errors.push(error);
+    else outcome.sentCount++;
+  }
+
+  outcome.status = outcome.sentCount === 0 ? "failed" : outcome.sentCount < outcome.recipientCount ? "partial" : "sent";
+  outcome.error = errors.length > 0 ? errors.join("; ") : null;
+  return outcome;
+}
+
+async function recordRun(supabaseAdmin: SupabaseAdmin, subscription: ReportSubscription, outcome: RunOutcome) {
+  const nextRun = (() => {
+    try {
+      return nextCronRun(subscription.cron_expression, new Date());
+    } catch {
+      return null;
+    }
+  })();
+
+  const { error: runError } = await supabaseAdmin.from("report_subscription_runs").insert({
+    org_id: subscription.org_id,
+    subscription_id: subscription.id,
+    sender_id: subscription.created_by,
+    status: outcome.status,
+    recipient_count: outcome.recipientCount,
+    sent_count: outcome.sentCount,
+    file_path: outcome.filePath,
+    error: outcome.error,
+  });
+  if (runError) console.error(`Failed to log run of subscription ${subscription.id}:`, runError);
+
+  const { error: updateError } = await supabaseAdmin
+    .from("report_subscriptions")
+    .update({
+      claimed_at: null,
+      last_run_at: new Date().toISOString(),
+      last_status: outcome.status,
+      last_error: outcome.error ?? (nextRun ? null : "The schedule has no further runs"),
+      next_run_at: nextRun?.toISOString() ?? null,
+      // Nothing left to run
+      ...(nextRun ? {} : { is_active: false }),
+    })
+    .eq("id", subscription.id);
+  if (updateError) console.error(`Failed to update subscription ${subscription.id}:`, updateError);
+}
+
+/**
+ * Emails due report subscriptions: builds each report on the server from the saved tab, filters and
+ * date range, renders it as PDF or CSV and sends it to the recipients within the owner's email rate
+ * limits. Runs every 5 minutes from pg_cron.
+ */
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    const cronSecret = Deno.env.get("CRON_SECRET");
+
+    // If CRON_SECRET is set, require it for security
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.error("Unauthorized scheduled report attempt");
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json", ...corsHeaders },
+        }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      SUPABASE_URL!,
+      SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const startedAt = Date.now();
+    const result: Record<RunStatus, number> = { sent: 0, partial: 0, failed: 0, skipped: 0 };
+
+    while (Date.now() - startedAt < RUN_BUDGET_MS) {
+      const { data, error } = await supabaseAdmin.rpc("claim_due_report_subscriptions", { _limit: BATCH_SIZE });
+      if (error) throw error;
+
+      const claimed = (data || []) as ReportSubscription[];
+      if (claimed.length === 0) break;
+
+      for (const subscription of claimed) {
+        let outcome: RunOutcome;
+        try {
+          outcome = await runSubscription(supabaseAdmin, subscription);
+        } catch (err) {
+          console.error(`Report subscription ${subscription.id} failed:`, err);
+          outcome = {
+            status: "failed",
+            recipientCount: subscription.recipients.length,
+            sentCount: 0,
+            filePath: null,
+            error: err instanceof Error ? err.message : String(err),
+          };
+        }
+        await recordRun(supabaseAdmin, subscription, outcome);
+        result[outcome.status]++;
+      }
+
+      if (claimed.length < BATCH_SIZE) break;
+    }
+
+    console.log(
+      `Scheduled reports complete: ${result.sent} sent, ${result.partial} partial, ${result.failed} failed, ${result.skipped} skipped`
+    );
+
+    return new Response(
+      JSON.stringify({ success: true, ...result }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  } catch (error) {
+    console.error("Error in send-scheduled-reports function:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  }
+};
+
+serve(handler);
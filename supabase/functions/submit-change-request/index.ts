@@ -0,0 +1,227 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { defaultAllocationWeights } from "../../../src/lib/allocationCalculator.ts";
+import { analyzeChangeImpact, type ImpactTask } from "../../../src/lib/changeImpact.ts";
+import { DEFAULT_WORKING_CALENDAR, type TimeOffRange, type WorkingCalendar } from "../../../src/lib/workingCalendar.ts";
+import type {
+  ChangeRequestItem,
+  ChangeRequestType,
+  DependencyLinkType,
+  TaskDependencyEdge,
+} from "../../../src/types/masterbook.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface SubmitChangeRequestRequest {
+  change_request_id?: string;
+}
+
+type SupabaseAdmin = ReturnType<typeof createClient>;
+
+function jsonError(status: number, error: string): Response {
+  return new Response(
+    JSON.stringify({ error }),
+    {
+      status,
+      headers: { "Content-Type": "application/json", ...corsHeaders },
+    }
+  );
+}
+
+/**
+ * The org's schedule in the shape the change request dialog simulates against (see useChangeImpact):
+ * every task (successors may sit in other projects), milestones, member capacity and rates, dependency
+ * links and the working calendar with member time off.
+ */
+async function loadSchedule(supabaseAdmin: SupabaseAdmin, orgId: string) {
+  const [tasksRes, milestonesRes, membersRes, edgesRes, settingsRes, holidaysRes, timeOffRes] = await Promise.all([
+    supabaseAdmin
+      .from("tasks")
+      .select("id, title, project_id, estimated_hours, start_date, due_date, assignee_id, milestone_id, status, priority, weight")
+      .eq("org_id", orgId),
+    supabaseAdmin.from("milestones").select("id, title, project_id, due_date").eq("org_id", orgId),
+    supabaseAdmin.from("team_members").select("id, capacity, hourly_rate").eq("org_id", orgId),
+    supabaseAdmin.from("task_dependencies").select("*").eq("org_id", orgId),
+    supabaseAdmin.from("org_working_calendars").select("working_days, hours_per_day").eq("org_id", orgId).maybeSingle(),
+    supabaseAdmin.from("org_holidays").select("date, name").eq("org_id", orgId),
+    supabaseAdmin.from("member_time_off").select("member_id, start_date, end_date").eq("org_id", orgId),
+  ]);
+  const failed = [tasksRes, milestonesRes, membersRes, edgesRes, settingsRes, holidaysRes, timeOffRes].find((r) => r.error);
+  if (failed?.error) throw new Error(`Failed to load the schedule: ${failed.error.message}`);
+
+  const tasks: ImpactTask[] = ((tasksRes.data || []) as Array<{
+    id: string;
+    title: string;
+    project_id: string;
+    estimated_hours: number | null;
+    start_date: string | null;
+    due_date: string | null;
+    assignee_id: string | null;
+    milestone_id: string | null;
+    status: string;
+    priority: string;
+    weight: number | null;
+  }>).map((t) => ({
+    id: t.id,
+    title: t.title,
+    projectId: t.project_id,
+    estimatedHours: Number(t.estimated_hours ?? 0),
+    startDate: t.start_date ?? undefined,
+    dueDate: t.due_date ?? undefined,
+    assigneeId: t.assignee_id ?? undefined,
+    milestoneId: t.milestone_id ?? undefined,
+    status: t.status,
+    priority: t.priority,
+    weight: t.weight ?? 1,
+  }));
+
+  const milestones = ((milestonesRes.data || []) as Array<{ id: string; title: string; project_id: string; due_date: string }>)
+    .map((m) => ({ id: m.id, title: m.title, projectId: m.project_id, dueDate: m.due_date }));
+
+  const members = ((membersRes.data || []) as Array<{ id: string; capacity: number; hourly_rate: number | null }>)
+    .map((m) => ({ id: m.id, capacity: Number(m.capacity), hourlyRate: Number(m.hourly_rate ?? 0) }));
+
+  const edges: TaskDependencyEdge[] = ((edgesRes.data || []) as Array<{
+    id: string;
+    org_id: string;
+    predecessor_task_id: string;
+    successor_task_id: string;
+    type: string;
+    link_type: string | null;
+    lag_days: number | null;
+    created_at: string;
+  }>).map((r) => ({
+    id: r.id,
+    orgId: r.org_id,
+    predecessorTaskId: r.predecessor_task_id,
+    successorTaskId: r.successor_task_id,
+    type: r.type as TaskDependencyEdge["type"],
+    linkType: (r.link_type ?? "FS") as DependencyLinkType,
+    lagDays: r.lag_days ?? 0,
+    createdAt: r.created_at,
+  }));
+
+  const settings = settingsRes.data as { working_days: number[] | null; hours_per_day: number | string } | null;
+  const holidays = (holidaysRes.data || []) as Array<{ date: string; name: string }>;
+  const timeOff = new Map<string, TimeOffRange[]>();
+  for (const t of (timeOffRes.data || []) as Array<{ member_id: string; start_date: string; end_date: string }>) {
+    const list = timeOff.get(t.member_id) ?? [];
+    list.push({ start: t.start_date, end: t.end_date });
+    timeOff.set(t.member_id, list);
+  }
+  const calendar: WorkingCalendar = {
+    workingDays: settings?.working_days?.length ? settings.working_days : DEFAULT_WORKING_CALENDAR.workingDays,
+    hoursPerDay: Number(settings?.hours_per_day) || DEFAULT_WORKING_CALENDAR.hoursPerDay,
+    holidays: new Map(holidays.map((h) => [h.date, h.name])),
+    timeOff,
+  };
+
+  return { tasks, milestones, members, edges, calendar };
+}
+
+/**
+ * Submits a draft (or rejected) change request for approval. The impact summary is simulated here
+ * against the live schedule, the same way the dialog previews it, so the approval stage thresholds
+ * and the numbers approvers see don't depend on what the browser sent. Org members, like creating
+ * a request.
+ */
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "POST") return jsonError(405, "Method not allowed");
+
+  try {
+    // ========== AUTHENTICATION ==========
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) return jsonError(401, "Authentication required");
+
+    // Create Supabase client with user's auth token
+    const supabaseClient = createClient(
+      SUPABASE_URL!,
+      SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      }
+    );
+
+    // Verify the user is authenticated
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      console.error("Auth error:", authError?.message || "No user found");
+      return jsonError(401, "Invalid authentication");
+    }
+
+    // ========== INPUT VALIDATION ==========
+    let body: SubmitChangeRequestRequest;
+    try {
+      body = await req.json();
+    } catch {
+      body = {};
+    }
+    if (!body.change_request_id) return jsonError(400, "change_request_id is required");
+
+    // Read as the caller, so only a request of their own org is found
+    const { data: changeRequest } = await supabaseClient
+      .from("change_requests")
+      .select("id, org_id, project_id, type, items, status")
+      .eq("id", body.change_request_id)
+      .maybeSingle();
+    if (!changeRequest) return jsonError(404, "Change request not found");
+    if (changeRequest.status !== "draft" && changeRequest.status !== "rejected") {
+      return jsonError(409, `Change request is already ${changeRequest.status.replace("_", " ")}`);
+    }
+
+    // ========== SIMULATE AND SUBMIT ==========
+    const supabaseAdmin = createClient(
+      SUPABASE_URL!,
+      SUPABASE_SERVICE_ROLE_KEY!
+    );
+    const schedule = await loadSchedule(supabaseAdmin, changeRequest.org_id);
+    const impactSummary = analyzeChangeImpact({
+      type: changeRequest.type as ChangeRequestType,
+      projectId: changeRequest.project_id,
+      items: (Array.isArray(changeRequest.items) ? changeRequest.items : []) as ChangeRequestItem[],
+      ...schedule,
+      weights: defaultAllocationWeights,
+    });
+
+    // submit_change_request checks the caller's org role and that the request is still unsubmitted
+    const { data: status, error: submitError } = await supabaseAdmin.rpc("submit_change_request", {
+      _change_request_id: changeRequest.id,
+      _user_id: user.id,
+      _impact_summary: impactSummary,
+    });
+    if (submitError) {
+      if (submitError.message.startsWith("not_authorized")) {
+        return jsonError(403, "You don't have permission to submit change requests");
+      }
+      if (submitError.message.startsWith("invalid_status")) return jsonError(409, submitError.message);
+      throw submitError;
+    }
+
+    return new Response(
+      JSON.stringify({ status, impact_summary: impactSummary }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  } catch (error) {
+    console.error("Error in submit-change-request function:", error);
+    return jsonError(500, error instanceof Error ? error.message : String(error));
+  }
+};
+
+serve(handler);
@@ -0,0 +1,200 @@
+-- Masterbook persistence: risks, change requests (+ approvals) and portfolio decision log.
+-- Replaces the per-browser localStorage store in MasterbookContext.
+
+-- 1. RISKS
+CREATE TABLE IF NOT EXISTS public.risks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  program_id uuid REFERENCES public.programs(id) ON DELETE SET NULL,
+  title text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  status text NOT NULL DEFAULT 'identified' CHECK (status IN ('identified', 'active', 'mitigated', 'realized')),
+  severity text NOT NULL DEFAULT 'medium' CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+  owner_id uuid REFERENCES public.team_members(id) ON DELETE SET NULL,
+  identified_at timestamptz NOT NULL DEFAULT now(),
+  due_date date,
+  mitigation_plan text,
+  realized_at timestamptz,
+  blocker_task_id uuid REFERENCES public.tasks(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_risks_org ON public.risks(org_id);
+CREATE INDEX IF NOT EXISTS idx_risks_project ON public.risks(project_id);
+
+ALTER TABLE public.risks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view risks in their org"
+  ON public.risks FOR SELECT
+  USING (org_id = get_user_org_id(auth.uid()));
+
+-- Writes must stay on a project of the same org
+CREATE POLICY "Members can create risks"
+  ON public.risks FOR INSERT
+  WITH CHECK (
+    org_id = get_user_org_id(auth.uid())
+    AND has_min_org_role(auth.uid(), 'member'::app_role)
+    AND EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.org_id = risks.org_id)
+  );
+
+CREATE POLICY "Members can update risks"
+  ON public.risks FOR UPDATE
+  USING (org_id = get_user_org_id(auth.uid()) AND has_min_org_role(auth.uid(), 'member'::app_role))
+  WITH CHECK (
+    org_id = get_user_org_id(auth.uid())
+    AND has_min_org_role(auth.uid(), 'member'::app_role)
+    AND EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.org_id = risks.org_id)
+  );
+
+CREATE POLICY "Members can delete risks"
+  ON public.risks FOR DELETE
+  USING (org_id = get_user_org_id(auth.uid()) AND has_min_org_role(auth.uid(), 'member'::app_role));
+
+CREATE TRIGGER update_risks_updated_at
+  BEFORE UPDATE ON public.risks
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. CHANGE REQUESTS
+CREATE TABLE IF NOT EXISTS public.change_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  program_id uuid REFERENCES public.programs(id) ON DELETE SET NULL,
+  title text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  type text NOT NULL CHECK (type IN ('add_work', 'modify_work', 'remove_work')),
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'pending_approval', 'approved', 'rejected', 'implemented')),
+  requested_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  requested_at timestamptz NOT NULL DEFAULT now(),
+  items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  impact_summary jsonb,
+  approver_ids uuid[] NOT NULL DEFAULT '{}',
+  implemented_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_change_requests_org ON public.change_requests(org_id);
+CREATE INDEX IF NOT EXISTS idx_change_requests_project ON public.change_requests(project_id);
+CREATE INDEX IF NOT EXISTS idx_change_requests_status ON public.change_requests(status);
+
+ALTER TABLE public.change_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view change_requests in their org"
+  ON public.change_requests FOR SELECT
+  USING (org_id = get_user_org_id(auth.uid()));
+
+-- Requests are filed as the caller, on a project of the same org
+CREATE POLICY "Members can create change_requests"
+  ON public.change_requests FOR INSERT
+  WITH CHECK (
+    org_id = get_user_org_id(auth.uid())
+    AND has_min_org_role(auth.uid(), 'member'::app_role)
+    AND requested_by = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.org_id = change_requests.org_id)
+  );
+
+CREATE POLICY "Members can update change_requests"
+  ON public.change_requests FOR UPDATE
+  USING (org_id = get_user_org_id(auth.uid()) AND has_min_org_role(auth.uid(), 'member'::app_role))
+  WITH CHECK (
+    org_id = get_user_org_id(auth.uid())
+    AND has_min_org_role(auth.uid(), 'member'::app_role)
+    AND EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.org_id = change_requests.org_id)
+  );
+
+CREATE POLICY "Managers can delete change_requests"
+  ON public.change_requests FOR DELETE
+  USING (org_id = get_user_org_id(auth.uid()) AND has_min_org_role(auth.uid(), 'manager'::app_role));
+
+CREATE TRIGGER update_change_requests_updated_at
+  BEFORE UPDATE ON public.change_requests
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The requester is whoever filed the request; edits keep it
+CREATE OR REPLACE FUNCTION public.keep_change_request_requester()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.requested_by := OLD.requested_by;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER keep_change_request_requester
+  BEFORE UPDATE OF requested_by ON public.change_requests
+  FOR EACH ROW EXECUTE FUNCTION public.keep_change_request_requester();
+
+-- 3. CHANGE REQUEST APPROVALS (one vote per approver per request)
+CREATE TABLE IF NOT EXISTS public.change_request_approvals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  change_request_id uuid NOT NULL REFERENCES public.change_requests(id) ON DELETE CASCADE,
+  approver_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  approved boolean NOT NULL,
+  comment text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE(change_request_id, approver_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_change_request_approvals_org ON public.change_request_approvals(org_id);
+CREATE INDEX IF NOT EXISTS idx_change_request_approvals_cr ON public.change_request_approvals(change_request_id);
+
+ALTER TABLE public.change_request_approvals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view change_request_approvals in their org"
+  ON public.change_request_approvals FOR SELECT
+  USING (org_id = get_user_org_id(auth.uid()));
+
+CREATE POLICY "Users can record their own approval"
+  ON public.change_request_approvals FOR INSERT
+  WITH CHECK (
+    org_id = get_user_org_id(auth.uid())
+    AND approver_id = auth.uid()
+    AND has_min_org_role(auth.uid(), 'member'::app_role)
+    AND EXISTS (
+      SELECT 1 FROM public.change_requests cr
+      WHERE cr.id = change_request_id
+        AND cr.org_id = change_request_approvals.org_id
+        AND auth.uid() = ANY(cr.approver_ids)
+    )
+  );
+
+-- 4. PORTFOLIO DECISION LOG (append-only: no UPDATE/DELETE policies)
+CREATE TABLE IF NOT EXISTS public.portfolio_decisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  portfolio_id uuid NOT NULL REFERENCES public.portfolios(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('resource_allocation', 'scope_approval', 'priority_override', 'cross_project_dependency', 'schedule_adjustment', 'risk_acceptance', 'other')),
+  title text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  project_ids uuid[] NOT NULL DEFAULT '{}',
+  program_ids uuid[] NOT NULL DEFAULT '{}',
+  decided_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  decided_at timestamptz NOT NULL DEFAULT now(),
+  outcome text NOT NULL DEFAULT '',
+  metadata jsonb
+);
+
+CREATE INDEX IF NOT EXISTS idx_portfolio_decisions_org ON public.portfolio_decisions(org_id);
+CREATE INDEX IF NOT EXISTS idx_portfolio_decisions_portfolio ON public.portfolio_decisions(portfolio_id, decided_at);
+
+ALTER TABLE public.portfolio_decisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view portfolio_decisions in their org"
+  ON public.portfolio_decisions FOR SELECT
+  USING (org_id = get_user_org_id(auth.uid()));
+
+CREATE POLICY "Managers can append portfolio_decisions"
+  ON public.portfolio_decisions FOR INSERT
+  WITH CHECK (org_id = get_user_org_id(auth.uid()) AND has_min_org_role(auth.uid(), 'manager'::app_role));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.risks;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.change_requests;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.change_request_approvals;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.portfolio_decisions;
@@ -0,0 +1,206 @@
+-- Portfolio decision log: enforce append-only at the database level and hash-chain entries
+-- so tampering (including by privileged roles that bypass RLS) is detectable.
+
+-- 1. Entries must outlive the portfolio and user they reference: cascading deletes would be
+--    rejected by the immutability triggers below, so keep those ids as plain historical references.
+--    The log is kept for as long as its org exists, and an org with a decision log can't be deleted:
+--    its foreign key restricts instead of cascading into the append-only table.
+ALTER TABLE public.portfolio_decisions
+  DROP CONSTRAINT IF EXISTS portfolio_decisions_portfolio_id_fkey,
+  DROP CONSTRAINT IF EXISTS portfolio_decisions_decided_by_fkey,
+  DROP CONSTRAINT IF EXISTS portfolio_decisions_org_id_fkey,
+  ADD CONSTRAINT portfolio_decisions_org_id_fkey
+    FOREIGN KEY (org_id) REFERENCES public.organizations(id) ON DELETE RESTRICT;
+
+-- Chain columns. seq orders the chain per org; entry_hash = sha256(prev_hash || canonical row).
+ALTER TABLE public.portfolio_decisions
+  ADD COLUMN IF NOT EXISTS seq bigint,
+  ADD COLUMN IF NOT EXISTS prev_hash text,
+  ADD COLUMN IF NOT EXISTS entry_hash text;
+
+-- Canonical, timezone-independent serialization of an entry, chained to the previous hash.
+-- A JSON array keeps field boundaries unambiguous: text can't move between adjacent fields
+-- without changing the encoding.
+CREATE OR REPLACE FUNCTION public.portfolio_decision_hash(_prev_hash text, _d public.portfolio_decisions)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT encode(sha256(convert_to(jsonb_build_array(
+    _prev_hash,
+    _d.seq,
+    _d.id,
+    _d.org_id,
+    _d.portfolio_id,
+    _d.type,
+    _d.title,
+    _d.description,
+    _d.project_ids,
+    _d.program_ids,
+    _d.decided_by,
+    to_char(_d.decided_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+    _d.outcome,
+    _d.metadata
+  )::text, 'UTF8')), 'hex')
+$$;
+
+-- 2. Backfill existing rows (oldest first) before the immutability trigger exists.
+DO $$
+DECLARE
+  r public.portfolio_decisions;
+  last_org uuid := NULL;
+  last_hash text := NULL;
+  n bigint := 0;
+BEGIN
+  FOR r IN
+    SELECT * FROM public.portfolio_decisions ORDER BY org_id, decided_at, id
+  LOOP
+    IF last_org IS DISTINCT FROM r.org_id THEN
+      last_org := r.org_id;
+      last_hash := NULL;
+      n := 0;
+    END IF;
+    n := n + 1;
+    r.seq := n;
+    r.prev_hash := last_hash;
+    r.entry_hash := public.portfolio_decision_hash(last_hash, r);
+    UPDATE public.portfolio_decisions
+      SET seq = r.seq, prev_hash = r.prev_hash, entry_hash = r.entry_hash
+      WHERE id = r.id;
+    last_hash := r.entry_hash;
+  END LOOP;
+END $$;
+
+ALTER TABLE public.portfolio_decisions
+  ALTER COLUMN seq SET NOT NULL,
+  ALTER COLUMN entry_hash SET NOT NULL,
+  ADD CONSTRAINT portfolio_decisions_org_seq_key UNIQUE (org_id, seq);
+
+-- 3. Link each new entry to the org's chain head. The advisory lock serializes concurrent appends per org.
+--    Author and time are set here rather than taken from the client, so the chain vouches for who appended
+--    an entry and when. Writes without a user (service role) keep the author they name.
+CREATE OR REPLACE FUNCTION public.chain_portfolio_decision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  head public.portfolio_decisions;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('portfolio_decisions:' || NEW.org_id::text));
+
+  SELECT * INTO head
+  FROM public.portfolio_decisions
+  WHERE org_id = NEW.org_id
+  ORDER BY seq DESC
+  LIMIT 1;
+
+  NEW.decided_by := coalesce(auth.uid(), NEW.decided_by);
+  NEW.decided_at := now();
+  NEW.seq := coalesce(head.seq, 0) + 1;
+  NEW.prev_hash := head.entry_hash;
+  NEW.entry_hash := public.portfolio_decision_hash(NEW.prev_hash, NEW);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER chain_portfolio_decision
+  BEFORE INSERT ON public.portfolio_decisions
+  FOR EACH ROW EXECUTE FUNCTION public.chain_portfolio_decision();
+
+-- 4. Append-only: reject UPDATE and DELETE for every role, not just via missing RLS policies.
+CREATE OR REPLACE FUNCTION public.prevent_portfolio_decision_mutation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'portfolio_decisions is append-only (% rejected)', TG_OP
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$;
+
+CREATE TRIGGER prevent_portfolio_decision_update
+  BEFORE UPDATE ON public.portfolio_decisions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_portfolio_decision_mutation();
+
+CREATE TRIGGER prevent_portfolio_decision_delete
+  BEFORE DELETE ON public.portfolio_decisions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_portfolio_decision_mutation();
+
+CREATE TRIGGER prevent_portfolio_decision_truncate
+  BEFORE TRUNCATE ON public.portfolio_decisions
+  FOR EACH STATEMENT EXECUTE FUNCTION public.prevent_portfolio_decision_mutation();
+
+REVOKE UPDATE, DELETE, TRUNCATE ON public.portfolio_decisions FROM anon, authenticated;
+
+-- 5. Verification: walk the caller's org chain and report the first entry whose link or hash does not match.
+CREATE OR REPLACE FUNCTION public.verify_portfolio_decision_chain()
+RETURNS TABLE (is_valid boolean, checked_count bigint, head_hash text, first_invalid_id uuid, first_invalid_seq bigint)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _org_id uuid := get_user_org_id(auth.uid());
+  r public.portfolio_decisions;
+  expected_prev text := NULL;
+  expected_seq bigint := 0;
+  n bigint := 0;
+BEGIN
+  IF _org_id IS NULL THEN
+    RAISE EXCEPTION 'Not a member of an organization';
+  END IF;
+
+  FOR r IN
+    SELECT * FROM public.portfolio_decisions WHERE org_id = _org_id ORDER BY seq
+  LOOP
+    n := n + 1;
+    expected_seq := expected_seq + 1;
+    IF r.seq <> expected_seq
+      OR r.prev_hash IS DISTINCT FROM expected_prev
+      OR r.entry_hash <> public.portfolio_decision_hash(r.prev_hash, r) THEN
+      RETURN QUERY SELECT false, n, expected_prev, r.id, r.seq;
+      RETURN;
+    END IF;
+    expected_prev := r.entry_hash;
+  END LOOP;
+
+  RETURN QUERY SELECT true, n, expected_prev, NULL::uuid, NULL::bigint;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.verify_portfolio_decision_chain() TO authenticated;
+
+-- 6. Legacy import: entries that earlier versions kept in localStorage. _entry holds the insert columns plus the
+--    original decided_by and decided_at, which go into metadata (legacyDecidedBy, legacyDecidedAt) as unverified
+--    history; the chain records the importing user and time like any other append. Runs as the caller, so the
+--    manager-only insert policy applies.
+CREATE OR REPLACE FUNCTION public.import_legacy_portfolio_decision(_entry jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _id uuid;
+BEGIN
+  INSERT INTO public.portfolio_decisions (
+    org_id, portfolio_id, type, title, description, project_ids, program_ids, decided_by, outcome, metadata
+  )
+  SELECT r.org_id, r.portfolio_id, r.type, r.title, coalesce(r.description, ''), coalesce(r.project_ids, '{}'),
+    coalesce(r.program_ids, '{}'), auth.uid(), coalesce(r.outcome, ''),
+    CASE WHEN jsonb_typeof(r.metadata) = 'object' THEN r.metadata ELSE '{}'::jsonb END
+      || jsonb_strip_nulls(jsonb_build_object(
+        'legacyDecidedBy', _entry->>'decided_by',
+        'legacyDecidedAt', _entry->>'decided_at'
+      ))
+  FROM jsonb_populate_record(NULL::public.portfolio_decisions, _entry) r
+  RETURNING id INTO _id;
+  RETURN _id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.import_legacy_portfolio_decision(jsonb) TO authenticated;
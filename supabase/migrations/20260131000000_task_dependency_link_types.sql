@@ -0,0 +1,10 @@
+-- Scheduling semantics for task dependencies: finish-to-start / start-to-start / finish-to-finish /
+-- start-to-finish links with a lead (negative) or lag (positive) in days.
+-- `type` keeps its meaning: 'blocks' links drive the schedule, 'relates_to' links are informational.
+ALTER TABLE public.task_dependencies
+  ADD COLUMN IF NOT EXISTS link_type text NOT NULL DEFAULT 'FS'
+    CHECK (link_type IN ('FS', 'SS', 'FF', 'SF')),
+  ADD COLUMN IF NOT EXISTS lag_days integer NOT NULL DEFAULT 0
+    CHECK (lag_days BETWEEN -365 AND 365);
+
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_successor ON public.task_dependencies(successor_task_id);
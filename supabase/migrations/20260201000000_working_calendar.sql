@@ -0,0 +1,116 @@
+-- Working calendar: org working weekdays and hours per day, org holidays, and per-member time off.
+-- Used by the critical path and scheduling to turn estimated hours into real calendar dates.
+
+-- 1. ORG WORKING CALENDAR (one row per org; absent row = Monday–Friday, 8h/day)
+CREATE TABLE IF NOT EXISTS public.org_working_calendars (
+  org_id uuid PRIMARY KEY REFERENCES public.organizations(id) ON DELETE CASCADE,
+  -- Weekday numbers as in JavaScript Date#getDay(): 0 = Sunday … 6 = Saturday
+  working_days smallint[] NOT NULL DEFAULT '{1,2,3,4,5}'
+    CHECK (cardinality(working_days) > 0 AND working_days <@ '{0,1,2,3,4,5,6}'::smallint[]),
+  hours_per_day numeric(4,2) NOT NULL DEFAULT 8 CHECK (hours_per_day > 0 AND hours_per_day <= 24),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.org_working_calendars ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their org working calendar"
+  ON public.org_working_calendars FOR SELECT
+  USING (org_id = get_user_org_id(auth.uid()));
+
+CREATE POLICY "Managers can create the org working calendar"
+  ON public.org_working_calendars FOR INSERT
+  WITH CHECK (org_id = get_user_org_id(auth.uid()) AND has_min_org_role(auth.uid(), 'manager'::app_role));
+
+CREATE POLICY "Managers can update the org working calendar"
+  ON public.org_working_calendars FOR UPDATE
+  USING (org_id = get_user_org_id(auth.uid()) AND has_min_org_role(auth.uid(), 'manager'::app_role));
+
+CREATE TRIGGER update_org_working_calendars_updated_at
+  BEFORE UPDATE ON public.org_working_calendars
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. ORG HOLIDAYS
+CREATE TABLE IF NOT EXISTS public.org_holidays (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  name text NOT NULL DEFAULT '',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (org_id, date)
+);
+
+ALTER TABLE public.org_holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view org holidays"
+  ON public.org_holidays FOR SELECT
+  USING (org_id = get_user_org_id(auth.uid()));
+
+CREATE POLICY "Managers can create org holidays"
+  ON public.org_holidays FOR INSERT
+  WITH CHECK (org_id = get_user_org_id(auth.uid()) AND has_min_org_role(auth.uid(), 'manager'::app_role));
+
+CREATE POLICY "Managers can delete org holidays"
+  ON public.org_holidays FOR DELETE
+  USING (org_id = get_user_org_id(auth.uid()) AND has_min_org_role(auth.uid(), 'manager'::app_role));
+
+-- 3. MEMBER TIME OFF (inclusive date range)
+CREATE TABLE IF NOT EXISTS public.member_time_off (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  member_id uuid NOT NULL REFERENCES public.team_members(id) ON DELETE CASCADE,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  reason text NOT NULL DEFAULT '',
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_member_time_off_org ON public.member_time_off(org_id);
+CREATE INDEX IF NOT EXISTS idx_member_time_off_member ON public.member_time_off(member_id);
+
+ALTER TABLE public.member_time_off ENABLE ROW LEVEL SECURITY;
+
+-- Team member record of a user (matched on email, as contacts are created for org users)
+CREATE OR REPLACE FUNCTION public.get_user_team_member_id(_user_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT tm.id
+  FROM public.team_members tm
+  JOIN public.contacts c ON c.id = tm.contact_id
+  JOIN public.profiles p ON p.id = _user_id
+  WHERE tm.org_id = p.org_id AND lower(c.email) = lower(p.email)
+  LIMIT 1
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_user_team_member_id(uuid) TO authenticated;
+
+CREATE POLICY "Users can view member time off in their org"
+  ON public.member_time_off FOR SELECT
+  USING (org_id = get_user_org_id(auth.uid()));
+
+CREATE POLICY "Members can create their own time off, managers anyone's"
+  ON public.member_time_off FOR INSERT
+  WITH CHECK (
+    org_id = get_user_org_id(auth.uid())
+    AND has_min_org_role(auth.uid(), 'member'::app_role)
+    AND EXISTS (SELECT 1 FROM public.team_members tm WHERE tm.id = member_id AND tm.org_id = member_time_off.org_id)
+    AND (member_id = get_user_team_member_id(auth.uid()) OR has_min_org_role(auth.uid(), 'manager'::app_role))
+  );
+
+CREATE POLICY "Members can delete their entries, managers any"
+  ON public.member_time_off FOR DELETE
+  USING (
+    org_id = get_user_org_id(auth.uid())
+    AND (created_by = auth.uid() OR has_min_org_role(auth.uid(), 'manager'::app_role))
+  );
+
+-- 4. Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.org_working_calendars;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.org_holidays;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.member_time_off;
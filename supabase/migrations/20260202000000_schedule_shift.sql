@@ -0,0 +1,45 @@
+-- Apply a schedule shift (a task, its rescheduled successors and their linked schedule blocks) atomically.
+-- Every row carries the dates the client previewed; if any row no longer matches (edited elsewhere, or not
+-- visible/editable under RLS) the whole shift is rolled back. Undo is the same call with the dates swapped.
+CREATE OR REPLACE FUNCTION public.apply_schedule_shift(_tasks jsonb, _blocks jsonb DEFAULT '[]'::jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  t jsonb;
+  b jsonb;
+  n integer;
+BEGIN
+  FOR t IN SELECT * FROM jsonb_array_elements(COALESCE(_tasks, '[]'::jsonb))
+  LOOP
+    UPDATE public.tasks
+    SET start_date = (t->>'start_date')::date,
+        due_date = (t->>'due_date')::date
+    WHERE id = (t->>'id')::uuid
+      AND start_date IS NOT DISTINCT FROM (t->>'prev_start_date')::date
+      AND due_date IS NOT DISTINCT FROM (t->>'prev_due_date')::date;
+    GET DIAGNOSTICS n = ROW_COUNT;
+    IF n = 0 THEN
+      RAISE EXCEPTION 'schedule_changed: task % was modified or cannot be edited', t->>'id';
+    END IF;
+  END LOOP;
+
+  FOR b IN SELECT * FROM jsonb_array_elements(COALESCE(_blocks, '[]'::jsonb))
+  LOOP
+    UPDATE public.schedule_blocks
+    SET start_utc = (b->>'start_utc')::timestamptz,
+        end_utc = (b->>'end_utc')::timestamptz
+    WHERE id = (b->>'id')::uuid
+      AND start_utc = (b->>'prev_start_utc')::timestamptz
+      AND end_utc = (b->>'prev_end_utc')::timestamptz;
+    GET DIAGNOSTICS n = ROW_COUNT;
+    IF n = 0 THEN
+      RAISE EXCEPTION 'schedule_changed: schedule block % was modified or cannot be edited', b->>'id';
+    END IF;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_schedule_shift(jsonb, jsonb) TO authenticated;
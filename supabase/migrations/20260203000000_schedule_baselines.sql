@@ -0,0 +1,119 @@
+-- Schedule baselines: named, frozen snapshots of a project's or program's plan (dates, estimated hours,
+-- budget) that the live schedule is compared against. Snapshots are taken server-side by
+-- create_schedule_baseline so they reflect stored data and are written in one transaction; items are
+-- never updated afterwards.
+
+-- 1. BASELINES
+CREATE TABLE IF NOT EXISTS public.schedule_baselines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  scope_type text NOT NULL CHECK (scope_type IN ('project', 'program')),
+  scope_id uuid NOT NULL,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (org_id, scope_type, scope_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_baselines_scope ON public.schedule_baselines(org_id, scope_type, scope_id);
+
+ALTER TABLE public.schedule_baselines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view baselines in their org"
+  ON public.schedule_baselines FOR SELECT
+  USING (org_id = get_user_org_id(auth.uid()));
+
+CREATE POLICY "Managers can delete baselines"
+  ON public.schedule_baselines FOR DELETE
+  USING (org_id = get_user_org_id(auth.uid()) AND has_min_org_role(auth.uid(), 'manager'::app_role));
+
+-- 2. BASELINE ITEMS (one row per program / project / task / milestone in scope)
+CREATE TABLE IF NOT EXISTS public.schedule_baseline_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  baseline_id uuid NOT NULL REFERENCES public.schedule_baselines(id) ON DELETE CASCADE,
+  org_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  item_type text NOT NULL CHECK (item_type IN ('program', 'project', 'task', 'milestone')),
+  item_id uuid NOT NULL,
+  -- Containing project (tasks, milestones) or program (projects); null for the program itself
+  parent_id uuid,
+  name text NOT NULL,
+  start_date date,
+  due_date date,
+  estimated_hours numeric,
+  budget numeric,
+  UNIQUE (baseline_id, item_type, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_baseline_items_baseline ON public.schedule_baseline_items(baseline_id);
+
+ALTER TABLE public.schedule_baseline_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view baseline items in their org"
+  ON public.schedule_baseline_items FOR SELECT
+  USING (org_id = get_user_org_id(auth.uid()));
+
+-- 3. SNAPSHOT
+CREATE OR REPLACE FUNCTION public.create_schedule_baseline(_scope_type text, _scope_id uuid, _name text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _org_id uuid := get_user_org_id(auth.uid());
+  _baseline_id uuid;
+  _project_ids uuid[];
+BEGIN
+  IF _org_id IS NULL OR NOT has_min_org_role(auth.uid(), 'manager'::app_role) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  IF _scope_type = 'project' THEN
+    SELECT array_agg(id) INTO _project_ids
+    FROM public.projects WHERE id = _scope_id AND org_id = _org_id;
+  ELSIF _scope_type = 'program' THEN
+    IF NOT EXISTS (SELECT 1 FROM public.programs WHERE id = _scope_id AND org_id = _org_id) THEN
+      RAISE EXCEPTION 'scope_not_found';
+    END IF;
+    SELECT coalesce(array_agg(id), '{}') INTO _project_ids
+    FROM public.projects WHERE program_id = _scope_id AND org_id = _org_id AND archived_at IS NULL;
+  ELSE
+    RAISE EXCEPTION 'invalid_scope_type';
+  END IF;
+
+  IF _project_ids IS NULL THEN
+    RAISE EXCEPTION 'scope_not_found';
+  END IF;
+
+  INSERT INTO public.schedule_baselines (org_id, scope_type, scope_id, name)
+  VALUES (_org_id, _scope_type, _scope_id, trim(_name))
+  RETURNING id INTO _baseline_id;
+
+  IF _scope_type = 'program' THEN
+    INSERT INTO public.schedule_baseline_items (baseline_id, org_id, item_type, item_id, parent_id, name, start_date, due_date, budget)
+    SELECT _baseline_id, _org_id, 'program', id, NULL, name, start_date, end_date, budget
+    FROM public.programs WHERE id = _scope_id;
+  END IF;
+
+  INSERT INTO public.schedule_baseline_items (baseline_id, org_id, item_type, item_id, parent_id, name, start_date, due_date, estimated_hours, budget)
+  SELECT _baseline_id, _org_id, 'project', p.id, p.program_id, p.name, p.start_date, p.end_date,
+    (SELECT sum(t.estimated_hours) FROM public.tasks t WHERE t.project_id = p.id AND t.archived_at IS NULL),
+    coalesce(p.allocated_budget, p.budget)
+  FROM public.projects p WHERE p.id = ANY(_project_ids);
+
+  INSERT INTO public.schedule_baseline_items (baseline_id, org_id, item_type, item_id, parent_id, name, start_date, due_date, estimated_hours)
+  SELECT _baseline_id, _org_id, 'task', t.id, t.project_id, t.title, t.start_date, t.due_date, t.estimated_hours
+  FROM public.tasks t WHERE t.project_id = ANY(_project_ids) AND t.archived_at IS NULL;
+
+  INSERT INTO public.schedule_baseline_items (baseline_id, org_id, item_type, item_id, parent_id, name, due_date)
+  SELECT _baseline_id, _org_id, 'milestone', m.id, m.project_id, m.title, m.due_date
+  FROM public.milestones m WHERE m.project_id = ANY(_project_ids);
+
+  RETURN _baseline_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_schedule_baseline(text, uuid, text) TO authenticated;
+
+-- 4. REALTIME
+ALTER PUBLICATION supabase_realtime ADD TABLE public.schedule_baselines;
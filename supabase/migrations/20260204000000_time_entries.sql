@@ -0,0 +1,208 @@
+-- Timesheets: hours team members log against tasks (by hand or with a timer), submitted weekly and
+-- approved by project managers. Approved hours roll up into tasks.actual_hours, and their cost (hours at
+-- the member's hourly rate, frozen on approval) into tasks.actual_cost and projects.actual_cost. Rollups
+-- are applied as deltas so costs entered by hand on a task are kept.
+
+-- 1. RATES AND ROLLUP COLUMNS
+ALTER TABLE public.team_members
+  ADD COLUMN IF NOT EXISTS hourly_rate numeric NOT NULL DEFAULT 0 CHECK (hourly_rate >= 0);
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS actual_hours numeric NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.team_members.hourly_rate IS 'Cost per logged hour, applied when time entries are approved';
+COMMENT ON COLUMN public.tasks.actual_hours IS 'Approved hours from time_entries';
+
+-- 2. HELPERS (get_user_team_member_id is defined with the working calendar's time off)
+-- Org managers and above and the project's owner/admin members approve its time
+CREATE OR REPLACE FUNCTION public.can_approve_project_time(_user_id uuid, _project_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.projects pr
+    WHERE pr.id = _project_id
+      AND pr.org_id = get_user_org_id(_user_id)
+      AND (
+        has_min_org_role(_user_id, 'manager'::app_role)
+        OR EXISTS (
+          SELECT 1 FROM public.project_members pm
+          WHERE pm.project_id = pr.id
+            AND pm.member_id = get_user_team_member_id(_user_id)
+            AND pm.role IN ('owner', 'admin')
+        )
+      )
+  )
+$$;
+
+GRANT EXECUTE ON FUNCTION public.can_approve_project_time(uuid, uuid) TO authenticated;
+
+-- 3. TIME ENTRIES
+CREATE TABLE IF NOT EXISTS public.time_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  member_id uuid NOT NULL REFERENCES public.team_members(id) ON DELETE CASCADE,
+  task_id uuid NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  -- Copied from the task on write; approvals are per project
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  entry_date date NOT NULL,
+  hours numeric NOT NULL DEFAULT 0 CHECK (hours >= 0 AND hours <= 24),
+  notes text,
+  -- Set while a timer is running; elapsed time is added to hours when it stops
+  timer_started_at timestamptz,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'submitted', 'approved', 'rejected')),
+  hourly_rate numeric,
+  submitted_at timestamptz,
+  reviewed_by uuid,
+  reviewed_at timestamptz,
+  review_note text,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_time_entries_member_date ON public.time_entries(org_id, member_id, entry_date);
+CREATE INDEX IF NOT EXISTS idx_time_entries_task ON public.time_entries(task_id);
+CREATE INDEX IF NOT EXISTS idx_time_entries_project_status ON public.time_entries(project_id, status);
+-- One running timer per member
+CREATE UNIQUE INDEX IF NOT EXISTS idx_time_entries_running_timer
+  ON public.time_entries(member_id) WHERE timer_started_at IS NOT NULL;
+
+ALTER TABLE public.time_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view time entries in their org"
+  ON public.time_entries FOR SELECT
+  USING (org_id = get_user_org_id(auth.uid()));
+
+CREATE POLICY "Users can log their own time"
+  ON public.time_entries FOR INSERT
+  WITH CHECK (
+    org_id = get_user_org_id(auth.uid())
+    AND (member_id = get_user_team_member_id(auth.uid()) OR has_min_org_role(auth.uid(), 'manager'::app_role))
+    AND status IN ('draft', 'submitted')
+  );
+
+-- Approval and rejection only go through review_time_entries
+CREATE POLICY "Users can edit their unapproved time"
+  ON public.time_entries FOR UPDATE
+  USING (
+    org_id = get_user_org_id(auth.uid())
+    AND (member_id = get_user_team_member_id(auth.uid()) OR has_min_org_role(auth.uid(), 'manager'::app_role))
+    AND status <> 'approved'
+  )
+  WITH CHECK (
+    org_id = get_user_org_id(auth.uid())
+    AND (member_id = get_user_team_member_id(auth.uid()) OR has_min_org_role(auth.uid(), 'manager'::app_role))
+    AND status IN ('draft', 'submitted')
+  );
+
+CREATE POLICY "Users can delete their unapproved time"
+  ON public.time_entries FOR DELETE
+  USING (
+    org_id = get_user_org_id(auth.uid())
+    AND (member_id = get_user_team_member_id(auth.uid()) OR has_min_org_role(auth.uid(), 'manager'::app_role))
+    AND status <> 'approved'
+  );
+
+CREATE OR REPLACE FUNCTION public.set_time_entry_project()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  SELECT project_id INTO NEW.project_id FROM public.tasks WHERE id = NEW.task_id;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_time_entry_project
+  BEFORE INSERT OR UPDATE OF task_id, hours, notes, entry_date, status, timer_started_at ON public.time_entries
+  FOR EACH ROW EXECUTE FUNCTION public.set_time_entry_project();
+
+-- 4. ROLLUP (approved entries only)
+CREATE OR REPLACE FUNCTION public.rollup_time_entry_cost()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cost numeric;
+BEGIN
+  IF TG_OP <> 'INSERT' AND OLD.status = 'approved' THEN
+    _cost := OLD.hours * coalesce(OLD.hourly_rate, 0);
+    UPDATE public.tasks
+      SET actual_hours = greatest(0, actual_hours - OLD.hours),
+          actual_cost = greatest(0, coalesce(actual_cost, 0) - _cost)
+      WHERE id = OLD.task_id;
+    UPDATE public.projects
+      SET actual_cost = greatest(0, coalesce(actual_cost, 0) - _cost)
+      WHERE id = OLD.project_id;
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND NEW.status = 'approved' THEN
+    _cost := NEW.hours * coalesce(NEW.hourly_rate, 0);
+    UPDATE public.tasks
+      SET actual_hours = actual_hours + NEW.hours,
+          actual_cost = coalesce(actual_cost, 0) + _cost
+      WHERE id = NEW.task_id;
+    UPDATE public.projects
+      SET actual_cost = coalesce(actual_cost, 0) + _cost
+      WHERE id = NEW.project_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER rollup_time_entry_cost
+  AFTER INSERT OR UPDATE OR DELETE ON public.time_entries
+  FOR EACH ROW EXECUTE FUNCTION public.rollup_time_entry_cost();
+
+-- 5. REVIEW
+-- Approve submitted entries (freezing the member's current rate) or send submitted/approved ones back.
+-- Every entry must belong to a project the caller can approve; returns the number of entries changed.
+CREATE OR REPLACE FUNCTION public.review_time_entries(_ids uuid[], _approve boolean, _note text DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _org_id uuid := get_user_org_id(auth.uid());
+  _count integer;
+BEGIN
+  IF _org_id IS NULL OR EXISTS (
+    SELECT 1 FROM public.time_entries e
+    WHERE e.id = ANY(_ids)
+      AND (e.org_id <> _org_id OR NOT can_approve_project_time(auth.uid(), e.project_id))
+  ) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  UPDATE public.time_entries e
+  SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+      hourly_rate = CASE
+        WHEN _approve THEN (SELECT tm.hourly_rate FROM public.team_members tm WHERE tm.id = e.member_id)
+        ELSE e.hourly_rate
+      END,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_note = _note
+  WHERE e.id = ANY(_ids)
+    AND e.timer_started_at IS NULL
+    AND (e.status = 'submitted' OR (NOT _approve AND e.status = 'approved'));
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.review_time_entries(uuid[], boolean, text) TO authenticated;
+
+-- 6. REALTIME
+ALTER PUBLICATION supabase_realtime ADD TABLE public.time_entries;
@@ -0,0 +1,245 @@
+-- Recurring tasks: a series holds an RRULE (RFC 5545 subset) and the task template; each occurrence is a
+-- regular task row linked back with recurrence_id / recurrence_date. Instances are created by the client
+-- when the open one is completed ('on_complete') or ahead of time by the generate-recurring-tasks edge
+-- function ('schedule').
+
+-- 1. SERIES
+CREATE TABLE IF NOT EXISTS public.task_recurrences (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  -- e.g. FREQ=WEEKLY;INTERVAL=1;BYDAY=MO (no "RRULE:" prefix)
+  rrule text NOT NULL,
+  -- First occurrence; occurrences are the instances' due dates
+  dtstart date NOT NULL,
+  -- Set when a series is split ("this and following") or stopped; no occurrences after this date
+  ends_on date,
+  mode text NOT NULL DEFAULT 'on_complete' CHECK (mode IN ('on_complete', 'schedule')),
+  -- Schedule mode: how many days ahead instances are created
+  lead_days integer NOT NULL DEFAULT 7 CHECK (lead_days BETWEEN 0 AND 365),
+  -- Occurrences skipped because their instance was deleted
+  exdates date[] NOT NULL DEFAULT '{}',
+  title text NOT NULL,
+  description text,
+  priority text NOT NULL DEFAULT 'medium',
+  weight numeric NOT NULL DEFAULT 1,
+  estimated_hours numeric NOT NULL DEFAULT 1,
+  assignee_id uuid REFERENCES public.team_members(id) ON DELETE SET NULL,
+  milestone_id uuid REFERENCES public.milestones(id) ON DELETE SET NULL,
+  -- Days from start to due; NULL when instances have no start date
+  duration_days integer CHECK (duration_days >= 0),
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_recurrences_org ON public.task_recurrences(org_id);
+
+ALTER TABLE public.task_recurrences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view task recurrences in their org"
+  ON public.task_recurrences FOR SELECT
+  USING (org_id = get_user_org_id(auth.uid()));
+
+CREATE POLICY "Members can create task recurrences"
+  ON public.task_recurrences FOR INSERT
+  WITH CHECK (org_id = get_user_org_id(auth.uid()) AND has_min_org_role(auth.uid(), 'member'::app_role));
+
+CREATE POLICY "Members can update task recurrences"
+  ON public.task_recurrences FOR UPDATE
+  USING (org_id = get_user_org_id(auth.uid()) AND has_min_org_role(auth.uid(), 'member'::app_role));
+
+CREATE POLICY "Members can delete task recurrences"
+  ON public.task_recurrences FOR DELETE
+  USING (org_id = get_user_org_id(auth.uid()) AND has_min_org_role(auth.uid(), 'member'::app_role));
+
+CREATE TRIGGER update_task_recurrences_updated_at
+  BEFORE UPDATE ON public.task_recurrences
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. INSTANCES
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS recurrence_id uuid REFERENCES public.task_recurrences(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS recurrence_date date;
+
+COMMENT ON COLUMN public.tasks.recurrence_date IS 'Occurrence this task was generated for; stays put when the task is rescheduled';
+
+-- One task per occurrence, so concurrent generators cannot duplicate instances
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_recurrence_occurrence ON public.tasks(recurrence_id, recurrence_date);
+
+-- Deleting a single instance skips its occurrence instead of letting the generator recreate it
+CREATE OR REPLACE FUNCTION public.exclude_deleted_task_occurrence()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.recurrence_id IS NOT NULL AND OLD.recurrence_date IS NOT NULL THEN
+    UPDATE public.task_recurrences
+    SET exdates = array_append(exdates, OLD.recurrence_date)
+    WHERE id = OLD.recurrence_id AND NOT (OLD.recurrence_date = ANY(exdates));
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER exclude_deleted_task_occurrence
+  BEFORE DELETE ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.exclude_deleted_task_occurrence();
+
+-- 3. EDITING ("this and following" / "all")
+-- _changes: template fields to apply (title, description, priority, weight, estimated_hours, assignee_id,
+-- milestone_id). _shift_days moves open instances' dates. _series: new rule settings (rrule, mode,
+-- lead_days); when the rule changes, open to-do instances after the edited one are removed so they can be
+-- regenerated from the new rule. Returns the id of the series the edited task belongs to afterwards.
+CREATE OR REPLACE FUNCTION public.edit_recurring_task(
+  _task_id uuid,
+  _scope text,
+  _changes jsonb DEFAULT '{}'::jsonb,
+  _shift_days integer DEFAULT 0,
+  _series jsonb DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _task public.tasks%ROWTYPE;
+  _old public.task_recurrences%ROWTYPE;
+  _series_id uuid;
+  _rule_changed boolean;
+BEGIN
+  IF _scope NOT IN ('following', 'all') THEN
+    RAISE EXCEPTION 'invalid_scope: %', _scope;
+  END IF;
+
+  SELECT * INTO _task FROM public.tasks WHERE id = _task_id;
+  IF _task.id IS NULL OR _task.recurrence_id IS NULL THEN
+    RAISE EXCEPTION 'not_recurring: task % is not part of a series', _task_id;
+  END IF;
+
+  SELECT * INTO _old FROM public.task_recurrences WHERE id = _task.recurrence_id;
+  _rule_changed := _series IS NOT NULL AND (_series ? 'rrule') AND _series->>'rrule' IS DISTINCT FROM _old.rrule;
+
+  IF _scope = 'all' OR _task.recurrence_date <= _old.dtstart THEN
+    _series_id := _old.id;
+  ELSE
+    -- Split: the old series stops before this occurrence, a copy takes over from it
+    INSERT INTO public.task_recurrences (
+      org_id, project_id, rrule, dtstart, ends_on, mode, lead_days, exdates,
+      title, description, priority, weight, estimated_hours, assignee_id, milestone_id, duration_days
+    )
+    SELECT org_id, project_id, rrule, _task.recurrence_date, ends_on, mode, lead_days,
+      ARRAY(SELECT d FROM unnest(exdates) d WHERE d >= _task.recurrence_date),
+      title, description, priority, weight, estimated_hours, assignee_id, milestone_id, duration_days
+    FROM public.task_recurrences WHERE id = _old.id
+    RETURNING id INTO _series_id;
+
+    UPDATE public.task_recurrences
+    SET ends_on = _task.recurrence_date - 1
+    WHERE id = _old.id;
+
+    UPDATE public.tasks
+    SET recurrence_id = _series_id
+    WHERE recurrence_id = _old.id AND recurrence_date >= _task.recurrence_date;
+  END IF;
+
+  UPDATE public.task_recurrences
+  SET title = CASE WHEN _changes ? 'title' THEN _changes->>'title' ELSE title END,
+      description = CASE WHEN _changes ? 'description' THEN _changes->>'description' ELSE description END,
+      priority = CASE WHEN _changes ? 'priority' THEN _changes->>'priority' ELSE priority END,
+      weight = CASE WHEN _changes ? 'weight' THEN (_changes->>'weight')::numeric ELSE weight END,
+      estimated_hours = CASE WHEN _changes ? 'estimated_hours' THEN (_changes->>'estimated_hours')::numeric ELSE estimated_hours END,
+      assignee_id = CASE WHEN _changes ? 'assignee_id' THEN (_changes->>'assignee_id')::uuid ELSE assignee_id END,
+      milestone_id = CASE WHEN _changes ? 'milestone_id' THEN (_changes->>'milestone_id')::uuid ELSE milestone_id END,
+      duration_days = CASE WHEN _changes ? 'duration_days' THEN (_changes->>'duration_days')::integer ELSE duration_days END,
+      rrule = COALESCE(_series->>'rrule', rrule),
+      mode = COALESCE(_series->>'mode', mode),
+      lead_days = COALESCE((_series->>'lead_days')::integer, lead_days)
+  WHERE id = _series_id;
+
+  UPDATE public.tasks
+  SET title = CASE WHEN _changes ? 'title' THEN _changes->>'title' ELSE title END,
+      description = CASE WHEN _changes ? 'description' THEN _changes->>'description' ELSE description END,
+      priority = CASE WHEN _changes ? 'priority' THEN _changes->>'priority' ELSE priority END,
+      weight = CASE WHEN _changes ? 'weight' THEN (_changes->>'weight')::numeric ELSE weight END,
+      estimated_hours = CASE WHEN _changes ? 'estimated_hours' THEN (_changes->>'estimated_hours')::numeric ELSE estimated_hours END,
+      assignee_id = CASE WHEN _changes ? 'assignee_id' THEN (_changes->>'assignee_id')::uuid ELSE assignee_id END,
+      milestone_id = CASE WHEN _changes ? 'milestone_id' THEN (_changes->>'milestone_id')::uuid ELSE milestone_id END,
+      start_date = start_date + _shift_days,
+      due_date = due_date + _shift_days
+  WHERE recurrence_id = _series_id
+    AND status <> 'done'
+    AND (_scope = 'all' OR recurrence_date >= _task.recurrence_date);
+
+  IF _rule_changed THEN
+    DELETE FROM public.tasks
+    WHERE recurrence_id = _series_id
+      AND status = 'todo'
+      AND recurrence_date > _task.recurrence_date;
+  END IF;
+
+  RETURN _series_id;
+END;
+$$;
+
+-- Delete this and following occurrences (the series ends before this one) or the whole series. Completed
+-- instances are kept as history.
+CREATE OR REPLACE FUNCTION public.delete_recurring_task(_task_id uuid, _scope text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _task public.tasks%ROWTYPE;
+  _series public.task_recurrences%ROWTYPE;
+BEGIN
+  IF _scope NOT IN ('following', 'all') THEN
+    RAISE EXCEPTION 'invalid_scope: %', _scope;
+  END IF;
+
+  SELECT * INTO _task FROM public.tasks WHERE id = _task_id;
+  IF _task.id IS NULL OR _task.recurrence_id IS NULL THEN
+    RAISE EXCEPTION 'not_recurring: task % is not part of a series', _task_id;
+  END IF;
+
+  SELECT * INTO _series FROM public.task_recurrences WHERE id = _task.recurrence_id;
+
+  IF _scope = 'all' OR _task.recurrence_date <= _series.dtstart THEN
+    DELETE FROM public.tasks WHERE recurrence_id = _series.id AND status <> 'done';
+    DELETE FROM public.task_recurrences WHERE id = _series.id;
+  ELSE
+    DELETE FROM public.tasks
+    WHERE recurrence_id = _series.id
+      AND status <> 'done'
+      AND recurrence_date >= _task.recurrence_date;
+    UPDATE public.task_recurrences SET ends_on = _task.recurrence_date - 1 WHERE id = _series.id;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.edit_recurring_task(uuid, text, jsonb, integer, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_recurring_task(uuid, text) TO authenticated;
+
+-- 4. REALTIME
+ALTER PUBLICATION supabase_realtime ADD TABLE public.task_recurrences;
+
+-- 5. SCHEDULED GENERATION
+-- Runs hourly; replace YOUR_CRON_SECRET with the CRON_SECRET set on the edge function
+SELECT cron.schedule(
+  'generate-recurring-tasks',
+  '5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://bccdcbzdrwlmzholhdth.supabase.co/functions/v1/generate-recurring-tasks',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer YOUR_CRON_SECRET'
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 30000
+  ) as request_id;
+  $$
+);
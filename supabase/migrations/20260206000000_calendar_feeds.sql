@@ -0,0 +1,40 @@
+-- Calendar sync over ICS. calendar_connections (a stub until now) holds two kinds of rows:
+--   'ics_feed'   a user's subscribable feed of their tasks, milestones and schedule blocks, served by the
+--                calendar-feed edge function at a URL signed with feed_nonce (rotating the nonce revokes it)
+--   'ics_import' an .ics file imported into schedule_blocks for one team member; its events are busy time
+
+-- 1. CONNECTIONS
+ALTER TABLE public.calendar_connections
+  ALTER COLUMN provider SET DEFAULT 'ics',
+  ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'ics_feed' CHECK (kind IN ('ics_feed', 'ics_import')),
+  ADD COLUMN IF NOT EXISTS name text,
+  -- Part of the signed feed URL; replaced on rotation so old URLs stop working
+  ADD COLUMN IF NOT EXISTS feed_nonce text NOT NULL DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  ADD COLUMN IF NOT EXISTS include_tasks boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS include_milestones boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS include_blocks boolean NOT NULL DEFAULT true,
+  -- Imports: the team member whose busy time the events are
+  ADD COLUMN IF NOT EXISTS assignee_id uuid REFERENCES public.team_members(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS last_synced_at timestamptz,
+  ADD COLUMN IF NOT EXISTS event_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+-- One feed per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_connections_user_feed
+  ON public.calendar_connections(user_id) WHERE kind = 'ics_feed';
+
+CREATE INDEX IF NOT EXISTS idx_calendar_connections_org ON public.calendar_connections(org_id);
+
+CREATE TRIGGER update_calendar_connections_updated_at
+  BEFORE UPDATE ON public.calendar_connections
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. IMPORTED BLOCKS
+-- Imported events are manual blocks tagged with their connection and the event's UID (plus the occurrence
+-- date for recurring events), so re-importing a file updates them in place
+ALTER TABLE public.schedule_blocks
+  ADD COLUMN IF NOT EXISTS calendar_connection_id uuid REFERENCES public.calendar_connections(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS external_uid text;
+
+ALTER TABLE public.schedule_blocks
+  ADD CONSTRAINT schedule_blocks_calendar_connection_uid_key UNIQUE (calendar_connection_id, external_uid);
@@ -0,0 +1,30 @@
+-- CalDAV access to schedule blocks. Calendar apps (Thunderbird, Apple Calendar) sign in to the caldav edge
+-- function with the user's email and an app password; a 'caldav' calendar_connections row holds the
+-- password's SHA-256 hash. Each user sees the blocks assigned to their team member as one calendar.
+
+-- 1. APP PASSWORDS
+ALTER TABLE public.calendar_connections
+  DROP CONSTRAINT IF EXISTS calendar_connections_kind_check;
+
+ALTER TABLE public.calendar_connections
+  ADD CONSTRAINT calendar_connections_kind_check CHECK (kind IN ('ics_feed', 'ics_import', 'caldav')),
+  ADD COLUMN IF NOT EXISTS token_hash text;
+
+-- One app password per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_connections_user_caldav
+  ON public.calendar_connections(user_id) WHERE kind = 'caldav';
+
+-- 2. CALENDAR OBJECTS
+-- Blocks created from a calendar app keep the event's UID and the resource name the app chose; blocks created
+-- in the app are served as "<id>.ics" with their id as UID
+ALTER TABLE public.schedule_blocks
+  ADD COLUMN IF NOT EXISTS ical_uid text,
+  ADD COLUMN IF NOT EXISTS caldav_href text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_schedule_blocks_caldav_href
+  ON public.schedule_blocks(assignee_id, caldav_href) WHERE caldav_href IS NOT NULL;
+
+-- ETags are derived from updated_at, so every change has to bump it
+CREATE TRIGGER update_schedule_blocks_updated_at
+  BEFORE UPDATE ON public.schedule_blocks
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
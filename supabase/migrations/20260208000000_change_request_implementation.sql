@@ -0,0 +1,350 @@
+-- Executable change requests. Items name the task or milestone they target (existingId) and the field values
+-- to apply (changes); implementing an approved request creates, modifies or deletes that work in one
+-- transaction, logs a scope decision and keeps a before/after snapshot that revert_change_request plays back.
+
+-- 1. SNAPSHOT
+-- implementation: { implementedBy, entries: [{ entity, action, id, before, after, links }] }. For 'modify' before/after
+-- hold only the changed columns; for 'delete' before is the whole row and links the rows that referenced it.
+ALTER TABLE public.change_requests
+  ADD COLUMN IF NOT EXISTS implementation jsonb,
+  ADD COLUMN IF NOT EXISTS reverted_at timestamptz;
+
+-- 2. FROZEN SCOPE
+-- What a request changes (its items, their action and the project) can only be edited while it is a draft, so
+-- implement_change_request applies exactly the scope that was submitted and approved
+CREATE OR REPLACE FUNCTION public.guard_change_request_scope()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status <> 'draft' AND (
+    NEW.items IS DISTINCT FROM OLD.items
+    OR NEW.type IS DISTINCT FROM OLD.type
+    OR NEW.project_id IS DISTINCT FROM OLD.project_id
+  ) THEN
+    RAISE EXCEPTION 'scope_frozen: change request is %, only drafts can be edited', OLD.status;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_change_request_scope
+  BEFORE UPDATE OF items, type, project_id ON public.change_requests
+  FOR EACH ROW EXECUTE FUNCTION public.guard_change_request_scope();
+
+-- 3. HELPERS
+-- Column values of an item's changes (camelCase keys as stored in items) for the given entity
+CREATE OR REPLACE FUNCTION public.change_request_item_columns(_changes jsonb, _entity text)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_object_agg(m.col, _changes->m.key), '{}'::jsonb)
+  FROM (VALUES
+    ('title', 'title', true),
+    ('description', 'description', true),
+    ('dueDate', 'due_date', true),
+    ('startDate', 'start_date', false),
+    ('assigneeId', 'assignee_id', false),
+    ('estimatedHours', 'estimated_hours', false)
+  ) AS m(key, col, on_milestone)
+  WHERE COALESCE(_changes, '{}'::jsonb) ? m.key AND (_entity = 'task' OR m.on_milestone)
+$$;
+
+-- Overwrite the editable columns of a task or milestone with _cols; returns the updated row
+CREATE OR REPLACE FUNCTION public.apply_change_request_columns(_entity text, _id uuid, _cols jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _task public.tasks%ROWTYPE;
+  _milestone public.milestones%ROWTYPE;
+BEGIN
+  IF _entity = 'task' THEN
+    SELECT * INTO _task FROM public.tasks WHERE id = _id;
+    _task := jsonb_populate_record(_task, _cols);
+    UPDATE public.tasks
+    SET title = _task.title,
+        description = _task.description,
+        start_date = _task.start_date,
+        due_date = _task.due_date,
+        assignee_id = _task.assignee_id,
+        estimated_hours = _task.estimated_hours
+    WHERE id = _id
+    RETURNING * INTO _task;
+    IF _task.id IS NULL THEN
+      RAISE EXCEPTION 'item_not_found: task % cannot be edited', _id;
+    END IF;
+    RETURN to_jsonb(_task);
+  END IF;
+
+  SELECT * INTO _milestone FROM public.milestones WHERE id = _id;
+  _milestone := jsonb_populate_record(_milestone, _cols);
+  UPDATE public.milestones
+  SET title = _milestone.title,
+      description = _milestone.description,
+      due_date = _milestone.due_date
+  WHERE id = _id
+  RETURNING * INTO _milestone;
+  IF _milestone.id IS NULL THEN
+    RAISE EXCEPTION 'item_not_found: milestone % cannot be edited', _id;
+  END IF;
+  RETURN to_jsonb(_milestone);
+END;
+$$;
+
+-- Appends a scope decision for an implemented or reverted request to the portfolio decision log
+CREATE OR REPLACE FUNCTION public.log_change_request_decision(_cr public.change_requests, _title text, _outcome text, _metadata jsonb)
+RETURNS void
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  INSERT INTO public.portfolio_decisions (
+    org_id, portfolio_id, type, title, description, project_ids, program_ids, decided_by, outcome, metadata
+  )
+  SELECT _cr.org_id, pg.portfolio_id, 'scope_approval', _title, _cr.description, ARRAY[_cr.project_id],
+    ARRAY[pr.program_id], auth.uid(), _outcome, _metadata
+  FROM public.projects pr
+  JOIN public.programs pg ON pg.id = pr.program_id
+  WHERE pr.id = _cr.project_id
+$$;
+
+-- 4. IMPLEMENT
+-- Applies every task and milestone item of an approved request (the request's type is the action for all of
+-- its items; deliverables are not tracked as records and are skipped). Tasks with logged time can't be
+-- deleted, as their approved cost would be lost. Managers only, as the decision log is manager-only.
+CREATE OR REPLACE FUNCTION public.implement_change_request(_change_request_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _cr public.change_requests%ROWTYPE;
+  _program_id uuid;
+  _item jsonb;
+  _entity text;
+  _target uuid;
+  _cols jsonb;
+  _row jsonb;
+  _before jsonb;
+  _new_id uuid;
+  _entries jsonb := '[]'::jsonb;
+  _snapshot jsonb;
+BEGIN
+  SELECT * INTO _cr FROM public.change_requests WHERE id = _change_request_id FOR UPDATE;
+  IF _cr.id IS NULL OR _cr.org_id <> get_user_org_id(auth.uid())
+    OR NOT has_min_org_role(auth.uid(), 'manager'::app_role) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+  IF _cr.status <> 'approved' THEN
+    RAISE EXCEPTION 'invalid_status: change request is %', _cr.status;
+  END IF;
+
+  SELECT program_id INTO _program_id FROM public.projects WHERE id = _cr.project_id;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_cr.items)
+  LOOP
+    _entity := COALESCE(_item->>'type', 'task');
+    CONTINUE WHEN _entity NOT IN ('task', 'milestone');
+    _cols := change_request_item_columns(_item->'changes', _entity);
+
+    IF _cr.type = 'add_work' THEN
+      _cols := jsonb_build_object('title', _item->>'title', 'description', _item->>'description') || _cols;
+      IF _entity = 'task' THEN
+        INSERT INTO public.tasks (org_id, project_id, title, description, start_date, due_date, assignee_id, estimated_hours)
+        SELECT _cr.org_id, _cr.project_id, r.title, r.description, r.start_date, r.due_date, r.assignee_id,
+          COALESCE(r.estimated_hours, 1)
+        FROM jsonb_populate_record(NULL::public.tasks, _cols) r
+        RETURNING id INTO _new_id;
+        SELECT to_jsonb(t) INTO _row FROM public.tasks t WHERE t.id = _new_id;
+      ELSE
+        IF _cols->>'due_date' IS NULL THEN
+          RAISE EXCEPTION 'invalid_item: milestone "%" needs a due date', _item->>'title';
+        END IF;
+        INSERT INTO public.milestones (org_id, project_id, program_id, title, description, due_date)
+        SELECT _cr.org_id, _cr.project_id, _program_id, r.title, r.description, r.due_date
+        FROM jsonb_populate_record(NULL::public.milestones, _cols) r
+        RETURNING id INTO _new_id;
+        SELECT to_jsonb(m) INTO _row FROM public.milestones m WHERE m.id = _new_id;
+      END IF;
+      _entries := _entries || jsonb_build_object('entity', _entity, 'action', 'create', 'id', _new_id, 'after', _row);
+      CONTINUE;
+    END IF;
+
+    _target := (_item->>'existingId')::uuid;
+    IF _entity = 'task' THEN
+      SELECT to_jsonb(t) INTO _row FROM public.tasks t WHERE t.id = _target AND t.project_id = _cr.project_id;
+    ELSE
+      SELECT to_jsonb(m) INTO _row FROM public.milestones m WHERE m.id = _target AND m.project_id = _cr.project_id;
+    END IF;
+    IF _row IS NULL THEN
+      RAISE EXCEPTION 'item_not_found: % "%" is not part of the project', _entity, _item->>'title';
+    END IF;
+
+    IF _cr.type = 'modify_work' THEN
+      SELECT COALESCE(jsonb_object_agg(k, _row->k), '{}'::jsonb) INTO _before FROM jsonb_object_keys(_cols) k;
+      _row := apply_change_request_columns(_entity, _target, _cols);
+      _entries := _entries || jsonb_build_object(
+        'entity', _entity, 'action', 'modify', 'id', _target, 'before', _before,
+        'after', (SELECT COALESCE(jsonb_object_agg(k, _row->k), '{}'::jsonb) FROM jsonb_object_keys(_cols) k)
+      );
+    ELSIF _entity = 'task' THEN
+      IF EXISTS (SELECT 1 FROM public.time_entries e WHERE e.task_id = _target) THEN
+        RAISE EXCEPTION 'has_time_entries: task "%" has logged time', _row->>'title';
+      END IF;
+      _entries := _entries || jsonb_build_object(
+        'entity', 'task', 'action', 'delete', 'id', _target, 'before', _row,
+        'links', jsonb_build_object(
+          'subtasks', (SELECT COALESCE(jsonb_agg(to_jsonb(s)), '[]'::jsonb) FROM public.subtasks s WHERE s.task_id = _target),
+          'dependencies', (
+            SELECT COALESCE(jsonb_agg(to_jsonb(d)), '[]'::jsonb) FROM public.task_dependencies d
+            WHERE d.predecessor_task_id = _target OR d.successor_task_id = _target
+          ),
+          'riskIds', (SELECT COALESCE(jsonb_agg(r.id), '[]'::jsonb) FROM public.risks r WHERE r.blocker_task_id = _target)
+        )
+      );
+      DELETE FROM public.tasks WHERE id = _target;
+    ELSE
+      _entries := _entries || jsonb_build_object(
+        'entity', 'milestone', 'action', 'delete', 'id', _target, 'before', _row,
+        'links', jsonb_build_object(
+          'taskIds', (SELECT COALESCE(jsonb_agg(t.id), '[]'::jsonb) FROM public.tasks t WHERE t.milestone_id = _target)
+        )
+      );
+      DELETE FROM public.milestones WHERE id = _target;
+    END IF;
+  END LOOP;
+
+  _snapshot := jsonb_build_object('implementedBy', auth.uid(), 'entries', _entries);
+
+  -- Flagged for guard_change_request_decision (approval chains), which refuses unflagged status changes
+  PERFORM set_config('app.change_request_decision', 'on', true);
+  UPDATE public.change_requests
+  SET status = 'implemented',
+      implemented_at = now(),
+      implementation = _snapshot,
+      reverted_at = NULL
+  WHERE id = _cr.id;
+
+  PERFORM log_change_request_decision(
+    _cr,
+    'Implemented change request: ' || _cr.title,
+    format('%s created, %s modified, %s removed',
+      (SELECT count(*) FROM jsonb_array_elements(_entries) e WHERE e->>'action' = 'create'),
+      (SELECT count(*) FROM jsonb_array_elements(_entries) e WHERE e->>'action' = 'modify'),
+      (SELECT count(*) FROM jsonb_array_elements(_entries) e WHERE e->>'action' = 'delete')),
+    jsonb_build_object('changeRequestId', _cr.id, 'action', 'implement', 'entries', jsonb_array_length(_entries))
+  );
+
+  RETURN _snapshot;
+END;
+$$;
+
+-- 5. REVERT
+-- Plays the snapshot back in reverse: created work is deleted, modified fields are restored and deleted rows are
+-- re-inserted with their subtasks, dependencies and links. Work edited since it was implemented (or created work
+-- that has logged time) aborts the revert rather than overwriting it. The request goes back to 'approved'.
+CREATE OR REPLACE FUNCTION public.revert_change_request(_change_request_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _cr public.change_requests%ROWTYPE;
+  _entry jsonb;
+  _entity text;
+  _id uuid;
+  _current jsonb;
+BEGIN
+  SELECT * INTO _cr FROM public.change_requests WHERE id = _change_request_id FOR UPDATE;
+  IF _cr.id IS NULL OR _cr.org_id <> get_user_org_id(auth.uid())
+    OR NOT has_min_org_role(auth.uid(), 'manager'::app_role) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+  IF _cr.status <> 'implemented' OR _cr.implementation IS NULL THEN
+    RAISE EXCEPTION 'invalid_status: change request is %', _cr.status;
+  END IF;
+
+  FOR _entry IN
+    SELECT e FROM jsonb_array_elements(_cr.implementation->'entries') WITH ORDINALITY AS x(e, n) ORDER BY n DESC
+  LOOP
+    _entity := _entry->>'entity';
+    _id := (_entry->>'id')::uuid;
+
+    IF _entity = 'task' THEN
+      SELECT to_jsonb(t) INTO _current FROM public.tasks t WHERE t.id = _id;
+    ELSE
+      SELECT to_jsonb(m) INTO _current FROM public.milestones m WHERE m.id = _id;
+    END IF;
+
+    IF _entry->>'action' = 'create' THEN
+      CONTINUE WHEN _current IS NULL;
+      IF _entity = 'task' AND EXISTS (SELECT 1 FROM public.time_entries e WHERE e.task_id = _id) THEN
+        RAISE EXCEPTION 'revert_conflict: task "%" has logged time', _current->>'title';
+      END IF;
+      IF _entity = 'task' THEN
+        DELETE FROM public.tasks WHERE id = _id;
+      ELSE
+        DELETE FROM public.milestones WHERE id = _id;
+      END IF;
+
+    ELSIF _entry->>'action' = 'modify' THEN
+      IF _current IS NULL OR NOT _current @> (_entry->'after') THEN
+        RAISE EXCEPTION 'revert_conflict: % % changed since the change request was implemented', _entity, _id;
+      END IF;
+      PERFORM apply_change_request_columns(_entity, _id, _entry->'before');
+
+    ELSE
+      IF _current IS NOT NULL THEN
+        RAISE EXCEPTION 'revert_conflict: % % already exists', _entity, _id;
+      END IF;
+      IF _entity = 'task' THEN
+        INSERT INTO public.tasks
+        SELECT * FROM jsonb_populate_record(NULL::public.tasks, _entry->'before');
+        INSERT INTO public.subtasks
+        SELECT * FROM jsonb_populate_recordset(NULL::public.subtasks, _entry->'links'->'subtasks');
+        INSERT INTO public.task_dependencies
+        SELECT d.* FROM jsonb_populate_recordset(NULL::public.task_dependencies, _entry->'links'->'dependencies') d
+        WHERE EXISTS (SELECT 1 FROM public.tasks t WHERE t.id = d.predecessor_task_id)
+          AND EXISTS (SELECT 1 FROM public.tasks t WHERE t.id = d.successor_task_id)
+        ON CONFLICT DO NOTHING;
+        UPDATE public.risks
+        SET blocker_task_id = _id
+        WHERE id IN (SELECT jsonb_array_elements_text(_entry->'links'->'riskIds')::uuid)
+          AND blocker_task_id IS NULL;
+      ELSE
+        INSERT INTO public.milestones
+        SELECT * FROM jsonb_populate_record(NULL::public.milestones, _entry->'before');
+        UPDATE public.tasks
+        SET milestone_id = _id
+        WHERE id IN (SELECT jsonb_array_elements_text(_entry->'links'->'taskIds')::uuid)
+          AND milestone_id IS NULL;
+      END IF;
+    END IF;
+  END LOOP;
+
+  PERFORM set_config('app.change_request_decision', 'on', true);
+  UPDATE public.change_requests
+  SET status = 'approved',
+      implemented_at = NULL,
+      reverted_at = now()
+  WHERE id = _cr.id;
+
+  PERFORM log_change_request_decision(
+    _cr,
+    'Reverted change request: ' || _cr.title,
+    format('%s changes rolled back', jsonb_array_length(_cr.implementation->'entries')),
+    jsonb_build_object('changeRequestId', _cr.id, 'action', 'revert')
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.implement_change_request(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revert_change_request(uuid) TO authenticated;
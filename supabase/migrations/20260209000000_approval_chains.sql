@@ -0,0 +1,724 @@
+-- Multi-stage approval chains for change requests. An approval policy (org-wide, or for a portfolio, program or
+-- project; the most specific active one wins) lists ordered stages, each with its approvers, a quorum and optional
+-- impact thresholds. Submitting a request instantiates the chain as change_request_approval_steps; approvers are
+-- notified stage by stage, reminded hourly by cron and can delegate to a colleague while out of office.
+
+-- 1. POLICIES
+CREATE TABLE IF NOT EXISTS public.approval_policies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  scope_type text NOT NULL CHECK (scope_type IN ('org', 'portfolio', 'program', 'project')),
+  -- Portfolio, program or project id; null for the org-wide policy
+  scope_id uuid,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK ((scope_type = 'org') = (scope_id IS NULL))
+);
+
+-- One active policy per scope
+CREATE UNIQUE INDEX IF NOT EXISTS idx_approval_policies_active_scope
+  ON public.approval_policies(org_id, scope_type, scope_id) NULLS NOT DISTINCT WHERE is_active;
+
+CREATE TABLE IF NOT EXISTS public.approval_policy_stages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  policy_id uuid NOT NULL REFERENCES public.approval_policies(id) ON DELETE CASCADE,
+  position integer NOT NULL,
+  name text NOT NULL,
+  -- users: approver_ids; project_managers: the project's owner/admin members; program_manager: the program owner;
+  -- org_managers: org owners, admins and managers
+  approver_source text NOT NULL DEFAULT 'users'
+    CHECK (approver_source IN ('users', 'project_managers', 'program_manager', 'org_managers')),
+  approver_ids uuid[] NOT NULL DEFAULT '{}',
+  -- Quorum: approvals needed out of the resolved approvers
+  required_approvals integer NOT NULL DEFAULT 1 CHECK (required_approvals > 0),
+  -- With thresholds, the stage only applies when an impact reaches one (unknown impact counts as reaching it)
+  min_schedule_impact_days numeric,
+  min_budget_impact numeric,
+  reminder_hours integer NOT NULL DEFAULT 48 CHECK (reminder_hours > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (policy_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_policies_org ON public.approval_policies(org_id);
+CREATE INDEX IF NOT EXISTS idx_approval_policy_stages_policy ON public.approval_policy_stages(policy_id);
+
+ALTER TABLE public.approval_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.approval_policy_stages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view approval_policies in their org"
+  ON public.approval_policies FOR SELECT
+  USING (org_id = get_user_org_id(auth.uid()));
+
+CREATE POLICY "Managers can manage approval_policies"
+  ON public.approval_policies FOR ALL
+  USING (org_id = get_user_org_id(auth.uid()) AND has_min_org_role(auth.uid(), 'manager'::app_role))
+  WITH CHECK (org_id = get_user_org_id(auth.uid()) AND has_min_org_role(auth.uid(), 'manager'::app_role));
+
+CREATE POLICY "Users can view approval_policy_stages in their org"
+  ON public.approval_policy_stages FOR SELECT
+  USING (org_id = get_user_org_id(auth.uid()));
+
+CREATE POLICY "Managers can manage approval_policy_stages"
+  ON public.approval_policy_stages FOR ALL
+  USING (org_id = get_user_org_id(auth.uid()) AND has_min_org_role(auth.uid(), 'manager'::app_role))
+  WITH CHECK (org_id = get_user_org_id(auth.uid()) AND has_min_org_role(auth.uid(), 'manager'::app_role));
+
+CREATE TRIGGER update_approval_policies_updated_at
+  BEFORE UPDATE ON public.approval_policies
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. CHAIN INSTANCES
+-- Stages copied from the policy when a request is submitted, so policy edits don't affect requests in flight.
+-- Each resubmission starts a new round.
+CREATE TABLE IF NOT EXISTS public.change_request_approval_steps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  change_request_id uuid NOT NULL REFERENCES public.change_requests(id) ON DELETE CASCADE,
+  policy_id uuid REFERENCES public.approval_policies(id) ON DELETE SET NULL,
+  round integer NOT NULL DEFAULT 1,
+  position integer NOT NULL,
+  name text NOT NULL,
+  approver_ids uuid[] NOT NULL,
+  required_approvals integer NOT NULL,
+  status text NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'pending', 'approved', 'rejected', 'skipped')),
+  reminder_hours integer NOT NULL DEFAULT 48,
+  activated_at timestamptz,
+  decided_at timestamptz,
+  last_reminded_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (change_request_id, round, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_change_request_approval_steps_org ON public.change_request_approval_steps(org_id);
+CREATE INDEX IF NOT EXISTS idx_change_request_approval_steps_pending
+  ON public.change_request_approval_steps(status) WHERE status = 'pending';
+
+ALTER TABLE public.change_request_approval_steps ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the chain functions below
+CREATE POLICY "Users can view change_request_approval_steps in their org"
+  ON public.change_request_approval_steps FOR SELECT
+  USING (org_id = get_user_org_id(auth.uid()));
+
+-- 3. AUDIT TRAIL
+-- Votes record the step they were cast in and, for delegates, the approver they stood in for
+ALTER TABLE public.change_request_approvals
+  ADD COLUMN IF NOT EXISTS step_id uuid REFERENCES public.change_request_approval_steps(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS on_behalf_of uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  DROP CONSTRAINT IF EXISTS change_request_approvals_change_request_id_approver_id_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_change_request_approvals_step_approver
+  ON public.change_request_approvals(step_id, approver_id) WHERE step_id IS NOT NULL;
+
+-- Votes are written only by decide_change_request (and import_legacy_change_request_approvals), which check
+-- that the caller is an approver of the pending step or stands in for one
+DROP POLICY IF EXISTS "Users can record their own approval" ON public.change_request_approvals;
+
+-- 4. DELEGATION
+CREATE TABLE IF NOT EXISTS public.approval_delegations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  delegator_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  delegate_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  starts_on date NOT NULL,
+  ends_on date NOT NULL,
+  reason text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (ends_on >= starts_on),
+  CHECK (delegate_id <> delegator_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_delegations_delegator ON public.approval_delegations(delegator_id, ends_on);
+
+ALTER TABLE public.approval_delegations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view approval_delegations in their org"
+  ON public.approval_delegations FOR SELECT
+  USING (org_id = get_user_org_id(auth.uid()));
+
+CREATE POLICY "Users can manage their own approval_delegations"
+  ON public.approval_delegations FOR ALL
+  USING (org_id = get_user_org_id(auth.uid()) AND delegator_id = auth.uid())
+  WITH CHECK (org_id = get_user_org_id(auth.uid()) AND delegator_id = auth.uid());
+
+-- 5. NOTIFICATION LINKS
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS link text;
+
+-- 6. HELPERS
+-- Delegate standing in for a user today, if any (delegations don't chain)
+CREATE OR REPLACE FUNCTION public.active_approval_delegate(_user_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.delegate_id
+  FROM public.approval_delegations d
+  WHERE d.delegator_id = _user_id AND current_date BETWEEN d.starts_on AND d.ends_on
+  ORDER BY d.created_at DESC
+  LIMIT 1
+$$;
+
+-- Votes that count on a step: cast by one of its approvers, or by the delegate an approver had on the day of the vote
+CREATE OR REPLACE FUNCTION public.approval_step_votes(_step_id uuid)
+RETURNS SETOF public.change_request_approvals
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT v.*
+  FROM public.change_request_approvals v
+  JOIN public.change_request_approval_steps s ON s.id = v.step_id
+  WHERE v.step_id = _step_id
+    AND COALESCE(v.on_behalf_of, v.approver_id) = ANY(s.approver_ids)
+    AND (
+      v.on_behalf_of IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.approval_delegations d
+        WHERE d.delegator_id = v.on_behalf_of AND d.delegate_id = v.approver_id
+          AND v.created_at::date BETWEEN d.starts_on AND d.ends_on
+      )
+    )
+$$;
+
+-- Users who resolve from a stage's approver source for a change request
+CREATE OR REPLACE FUNCTION public.resolve_approval_stage_users(_stage public.approval_policy_stages, _cr public.change_requests)
+RETURNS uuid[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT u), '{}')
+  FROM (
+    SELECT unnest(_stage.approver_ids) AS u WHERE _stage.approver_source = 'users'
+    UNION ALL
+    SELECT p.id
+    FROM public.project_members pm
+    JOIN public.team_members tm ON tm.id = pm.member_id
+    JOIN public.contacts c ON c.id = tm.contact_id
+    JOIN public.profiles p ON p.org_id = tm.org_id AND lower(p.email) = lower(c.email)
+    WHERE _stage.approver_source = 'project_managers'
+      AND pm.project_id = _cr.project_id AND pm.role IN ('owner', 'admin')
+    UNION ALL
+    SELECT pg.owner_id
+    FROM public.projects pr
+    JOIN public.programs pg ON pg.id = pr.program_id
+    WHERE _stage.approver_source = 'program_manager' AND pr.id = _cr.project_id AND pg.owner_id IS NOT NULL
+    UNION ALL
+    SELECT ur.user_id
+    FROM public.user_roles ur
+    WHERE _stage.approver_source = 'org_managers'
+      AND ur.org_id = _cr.org_id AND ur.role IN ('owner', 'admin', 'manager')
+  ) s
+  WHERE u IS NOT NULL
+$$;
+
+-- In-app inbox items for a step's approvers who haven't voted yet, and for whoever stands in for them today
+CREATE OR REPLACE FUNCTION public.notify_approval_step(_step_id uuid, _title text, _message text, _type text DEFAULT 'info')
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count integer;
+BEGIN
+  INSERT INTO public.notifications (user_id, org_id, project_id, title, message, type, link)
+  SELECT DISTINCT r.user_id, s.org_id, cr.project_id, _title, _message, _type, '/approvals'
+  FROM public.change_request_approval_steps s
+  JOIN public.change_requests cr ON cr.id = s.change_request_id
+  CROSS JOIN LATERAL unnest(s.approver_ids) AS a(approver_id)
+  CROSS JOIN LATERAL (
+    SELECT a.approver_id AS user_id
+    UNION
+    SELECT active_approval_delegate(a.approver_id)
+  ) r
+  WHERE s.id = _step_id
+    AND r.user_id IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM approval_step_votes(s.id) v
+      WHERE COALESCE(v.on_behalf_of, v.approver_id) = a.approver_id
+    );
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+-- Activates the next waiting step of the current round, or settles the request once no step is left. Status
+-- changes are flagged so the guard trigger lets them through.
+CREATE OR REPLACE FUNCTION public.advance_change_request_approval(_change_request_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cr public.change_requests%ROWTYPE;
+  _round integer;
+  _next public.change_request_approval_steps%ROWTYPE;
+  _status text;
+BEGIN
+  SELECT * INTO _cr FROM public.change_requests WHERE id = _change_request_id;
+  SELECT max(round) INTO _round FROM public.change_request_approval_steps WHERE change_request_id = _cr.id;
+
+  IF EXISTS (
+    SELECT 1 FROM public.change_request_approval_steps
+    WHERE change_request_id = _cr.id AND round = _round AND status = 'rejected'
+  ) THEN
+    _status := 'rejected';
+  ELSIF EXISTS (
+    SELECT 1 FROM public.change_request_approval_steps
+    WHERE change_request_id = _cr.id AND round = _round AND status = 'pending'
+  ) THEN
+    RETURN 'pending_approval';
+  ELSE
+    SELECT * INTO _next FROM public.change_request_approval_steps
+    WHERE change_request_id = _cr.id AND round = _round AND status = 'waiting'
+    ORDER BY position
+    LIMIT 1;
+
+    IF _next.id IS NOT NULL THEN
+      UPDATE public.change_request_approval_steps
+      SET status = 'pending', activated_at = now()
+      WHERE id = _next.id;
+      PERFORM notify_approval_step(_next.id, 'Approval needed: ' || _cr.title,
+        format('Stage "%s" needs %s approval%s.', _next.name, _next.required_approvals,
+          CASE WHEN _next.required_approvals = 1 THEN '' ELSE 's' END));
+      RETURN 'pending_approval';
+    END IF;
+    _status := 'approved';
+  END IF;
+
+  UPDATE public.change_request_approval_steps
+  SET status = 'skipped'
+  WHERE change_request_id = _cr.id AND round = _round AND status = 'waiting';
+
+  PERFORM set_config('app.change_request_decision', 'on', true);
+  UPDATE public.change_requests SET status = _status WHERE id = _cr.id;
+
+  INSERT INTO public.notifications (user_id, org_id, project_id, title, message, type, link)
+  VALUES (
+    _cr.requested_by, _cr.org_id, _cr.project_id,
+    CASE WHEN _status = 'approved' THEN 'Change request approved' ELSE 'Change request rejected' END,
+    _cr.title,
+    CASE WHEN _status = 'approved' THEN 'success' ELSE 'warning' END,
+    '/projects/' || _cr.project_id
+  );
+  RETURN _status;
+END;
+$$;
+
+-- 7. SUBMISSION
+-- Builds a new round of steps from the most specific active policy when a request enters pending_approval.
+-- Without a policy, org managers approve in a single stage. A stage that resolves to nobody falls back to org
+-- managers too, so a request can't get stuck. Thresholds compare against impact_summary, which only
+-- submit_change_request writes (simulated by the submit-change-request function); a request inserted as
+-- pending_approval has none, so every stage applies to it.
+CREATE OR REPLACE FUNCTION public.start_change_request_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _program_id uuid;
+  _portfolio_id uuid;
+  _policy_id uuid;
+  _round integer;
+  _stage public.approval_policy_stages%ROWTYPE;
+  _approvers uuid[];
+  _schedule numeric := (NEW.impact_summary->>'scheduleImpactDays')::numeric;
+  _budget numeric := (NEW.impact_summary->>'budgetImpact')::numeric;
+  _applies boolean;
+BEGIN
+  IF NEW.status <> 'pending_approval' OR (TG_OP = 'UPDATE' AND OLD.status = 'pending_approval') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT pr.program_id, pg.portfolio_id INTO _program_id, _portfolio_id
+  FROM public.projects pr
+  JOIN public.programs pg ON pg.id = pr.program_id
+  WHERE pr.id = NEW.project_id;
+
+  SELECT p.id INTO _policy_id
+  FROM public.approval_policies p
+  WHERE p.org_id = NEW.org_id AND p.is_active AND (
+    (p.scope_type = 'project' AND p.scope_id = NEW.project_id)
+    OR (p.scope_type = 'program' AND p.scope_id = _program_id)
+    OR (p.scope_type = 'portfolio' AND p.scope_id = _portfolio_id)
+    OR p.scope_type = 'org'
+  )
+  ORDER BY array_position(ARRAY['project', 'program', 'portfolio', 'org'], p.scope_type)
+  LIMIT 1;
+
+  SELECT COALESCE(max(round), 0) + 1 INTO _round
+  FROM public.change_request_approval_steps WHERE change_request_id = NEW.id;
+
+  IF _policy_id IS NULL OR NOT EXISTS (SELECT 1 FROM public.approval_policy_stages WHERE policy_id = _policy_id) THEN
+    _stage.approver_source := 'org_managers';
+    INSERT INTO public.change_request_approval_steps (
+      org_id, change_request_id, policy_id, round, position, name, approver_ids, required_approvals, reminder_hours
+    )
+    VALUES (NEW.org_id, NEW.id, _policy_id, _round, 1, 'Approval', resolve_approval_stage_users(_stage, NEW), 1, 48);
+  ELSE
+    FOR _stage IN
+      SELECT * FROM public.approval_policy_stages WHERE policy_id = _policy_id ORDER BY position
+    LOOP
+      _applies := (_stage.min_schedule_impact_days IS NULL AND _stage.min_budget_impact IS NULL)
+        OR (_stage.min_schedule_impact_days IS NOT NULL AND (_schedule IS NULL OR _schedule >= _stage.min_schedule_impact_days))
+        OR (_stage.min_budget_impact IS NOT NULL AND (_budget IS NULL OR _budget >= _stage.min_budget_impact));
+      _approvers := resolve_approval_stage_users(_stage, NEW);
+      IF cardinality(_approvers) = 0 THEN
+        _stage.approver_source := 'org_managers';
+        _approvers := resolve_approval_stage_users(_stage, NEW);
+      END IF;
+      INSERT INTO public.change_request_approval_steps (
+        org_id, change_request_id, policy_id, round, position, name, approver_ids, required_approvals,
+        reminder_hours, status
+      )
+      VALUES (
+        NEW.org_id, NEW.id, _policy_id, _round, _stage.position, _stage.name, _approvers,
+        LEAST(_stage.required_approvals, GREATEST(cardinality(_approvers), 1)), _stage.reminder_hours,
+        CASE WHEN _applies THEN 'waiting' ELSE 'skipped' END
+      );
+    END LOOP;
+  END IF;
+
+  PERFORM advance_change_request_approval(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER start_change_request_approval
+  AFTER INSERT OR UPDATE OF status ON public.change_requests
+  FOR EACH ROW EXECUTE FUNCTION public.start_change_request_approval();
+
+-- Submits a draft or rejected request with the impact summary the submit-change-request edge function simulated
+-- on the server; returns the request's status afterwards. Service role only: _user_id is the authenticated caller.
+CREATE OR REPLACE FUNCTION public.submit_change_request(_change_request_id uuid, _user_id uuid, _impact_summary jsonb)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cr public.change_requests%ROWTYPE;
+  _status text;
+BEGIN
+  SELECT * INTO _cr FROM public.change_requests WHERE id = _change_request_id FOR UPDATE;
+  IF _cr.id IS NULL OR _cr.org_id IS DISTINCT FROM get_user_org_id(_user_id)
+    OR NOT has_min_org_role(_user_id, 'member'::app_role) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+  IF _cr.status NOT IN ('draft', 'rejected') THEN
+    RAISE EXCEPTION 'invalid_status: change request is %', _cr.status;
+  END IF;
+
+  PERFORM set_config('app.change_request_decision', 'on', true);
+  UPDATE public.change_requests
+  SET impact_summary = _impact_summary, status = 'pending_approval'
+  WHERE id = _cr.id;
+
+  -- The chain may settle at once (every stage skipped), so read the status back
+  SELECT status INTO _status FROM public.change_requests WHERE id = _cr.id;
+  RETURN _status;
+END;
+$$;
+
+-- Requests are created as drafts or submitted; submission with an impact summary comes from submit_change_request,
+-- approval and rejection from the chain, and implementation from implement_change_request/revert_change_request.
+-- Those functions flag their changes; unflagged, a status can only go from rejected back to draft, for rework.
+CREATE OR REPLACE FUNCTION public.guard_change_request_decision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('app.change_request_decision', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('draft', 'pending_approval') THEN
+      RAISE EXCEPTION 'approval_chain: new change requests are drafts or pending approval';
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status AND NOT (OLD.status = 'rejected' AND NEW.status = 'draft') THEN
+    RAISE EXCEPTION 'approval_chain: decisions are recorded with decide_change_request';
+  END IF;
+
+  IF NEW.impact_summary IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN OLD.impact_summary END) THEN
+    RAISE EXCEPTION 'approval_chain: the impact summary is simulated on submission';
+  END IF;
+  IF NEW.implemented_at IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN OLD.implemented_at END)
+    OR NEW.implementation IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN OLD.implementation END)
+    OR NEW.reverted_at IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN OLD.reverted_at END) THEN
+    RAISE EXCEPTION 'approval_chain: implementation is recorded with implement_change_request';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_change_request_decision
+  BEFORE INSERT OR UPDATE ON public.change_requests
+  FOR EACH ROW EXECUTE FUNCTION public.guard_change_request_decision();
+
+-- 8. DECISIONS
+-- Records the caller's vote on the request's pending step, as an approver or as the active delegate of one who
+-- hasn't voted. A step is approved at its quorum and rejected once the quorum can no longer be reached.
+-- Returns the request's status afterwards.
+CREATE OR REPLACE FUNCTION public.decide_change_request(_change_request_id uuid, _approved boolean, _comment text DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cr public.change_requests%ROWTYPE;
+  _step public.change_request_approval_steps%ROWTYPE;
+  _principal uuid;
+  _approvals integer;
+  _rejections integer;
+BEGIN
+  SELECT * INTO _cr FROM public.change_requests WHERE id = _change_request_id FOR UPDATE;
+  IF _cr.id IS NULL OR _cr.org_id <> get_user_org_id(auth.uid()) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+  IF _cr.status <> 'pending_approval' THEN
+    RAISE EXCEPTION 'invalid_status: change request is %', _cr.status;
+  END IF;
+
+  SELECT * INTO _step FROM public.change_request_approval_steps
+  WHERE change_request_id = _cr.id AND status = 'pending'
+  ORDER BY round DESC, position
+  LIMIT 1
+  FOR UPDATE;
+
+  -- Own vote first; otherwise stand in for an approver who delegated to the caller
+  SELECT a INTO _principal
+  FROM unnest(_step.approver_ids) AS a
+  WHERE (a = auth.uid() OR active_approval_delegate(a) = auth.uid())
+    AND NOT EXISTS (
+      SELECT 1 FROM approval_step_votes(_step.id) v
+      WHERE COALESCE(v.on_behalf_of, v.approver_id) = a
+    )
+  ORDER BY a = auth.uid() DESC
+  LIMIT 1;
+
+  IF _principal IS NULL THEN
+    RAISE EXCEPTION 'not_an_approver: nothing is waiting for your decision';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.change_request_approvals v WHERE v.step_id = _step.id AND v.approver_id = auth.uid()) THEN
+    RAISE EXCEPTION 'already_decided';
+  END IF;
+
+  INSERT INTO public.change_request_approvals (org_id, change_request_id, step_id, approver_id, on_behalf_of, approved, comment)
+  VALUES (_cr.org_id, _cr.id, _step.id, auth.uid(), NULLIF(_principal, auth.uid()), _approved, NULLIF(btrim(_comment), ''));
+
+  SELECT count(*) FILTER (WHERE approved), count(*) FILTER (WHERE NOT approved)
+  INTO _approvals, _rejections
+  FROM approval_step_votes(_step.id);
+
+  IF _approvals >= _step.required_approvals THEN
+    UPDATE public.change_request_approval_steps SET status = 'approved', decided_at = now() WHERE id = _step.id;
+  ELSIF _rejections > cardinality(_step.approver_ids) - _step.required_approvals THEN
+    UPDATE public.change_request_approval_steps SET status = 'rejected', decided_at = now() WHERE id = _step.id;
+  ELSE
+    RETURN 'pending_approval';
+  END IF;
+
+  RETURN advance_change_request_approval(_cr.id);
+END;
+$$;
+
+-- Pending steps waiting for the caller, directly or as today's delegate
+CREATE OR REPLACE FUNCTION public.get_approval_inbox()
+RETURNS TABLE (
+  step_id uuid,
+  change_request_id uuid,
+  step_name text,
+  step_position integer,
+  required_approvals integer,
+  approval_count integer,
+  activated_at timestamptz,
+  on_behalf_of uuid
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (s.id)
+    s.id, s.change_request_id, s.name, s.position, s.required_approvals,
+    (SELECT count(*)::integer FROM approval_step_votes(s.id) v WHERE v.approved),
+    s.activated_at,
+    NULLIF(a, auth.uid())
+  FROM public.change_request_approval_steps s
+  CROSS JOIN LATERAL unnest(s.approver_ids) AS a
+  WHERE s.org_id = get_user_org_id(auth.uid())
+    AND s.status = 'pending'
+    AND (a = auth.uid() OR active_approval_delegate(a) = auth.uid())
+    AND NOT EXISTS (SELECT 1 FROM approval_step_votes(s.id) v WHERE COALESCE(v.on_behalf_of, v.approver_id) = a)
+    AND NOT EXISTS (SELECT 1 FROM public.change_request_approvals v WHERE v.step_id = s.id AND v.approver_id = auth.uid())
+  ORDER BY s.id, a = auth.uid() DESC
+$$;
+
+-- Votes the caller cast before approval chains, kept in the browser by earlier versions. _approvals is a JSON
+-- array of { change_request_id, approved, comment, created_at }; only requests that list the caller as an
+-- approver take a vote, once. Legacy votes have no step, so they never count toward a stage's quorum.
+CREATE OR REPLACE FUNCTION public.import_legacy_change_request_approvals(_approvals jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _org_id uuid := get_user_org_id(auth.uid());
+  _count integer;
+BEGIN
+  IF _org_id IS NULL OR NOT has_min_org_role(auth.uid(), 'member'::app_role) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  INSERT INTO public.change_request_approvals (org_id, change_request_id, approver_id, approved, comment, created_at)
+  SELECT DISTINCT ON (cr.id)
+    _org_id, cr.id, auth.uid(), (a->>'approved')::boolean, NULLIF(btrim(a->>'comment'), ''),
+    COALESCE((a->>'created_at')::timestamptz, now())
+  FROM jsonb_array_elements(_approvals) AS a
+  JOIN public.change_requests cr ON cr.id = (a->>'change_request_id')::uuid
+  WHERE cr.org_id = _org_id
+    AND auth.uid() = ANY(cr.approver_ids)
+    AND a->>'approved' IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.change_request_approvals v
+      WHERE v.change_request_id = cr.id AND v.approver_id = auth.uid() AND v.step_id IS NULL
+    );
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+-- 9. REMINDERS
+-- Re-notifies approvers of steps pending longer than their reminder interval; returns the number of reminders
+CREATE OR REPLACE FUNCTION public.send_change_request_reminders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _step record;
+  _count integer := 0;
+BEGIN
+  FOR _step IN
+    SELECT s.id, s.name, cr.title
+    FROM public.change_request_approval_steps s
+    JOIN public.change_requests cr ON cr.id = s.change_request_id
+    WHERE s.status = 'pending'
+      AND COALESCE(s.last_reminded_at, s.activated_at) <= now() - make_interval(hours => s.reminder_hours)
+  LOOP
+    _count := _count + notify_approval_step(_step.id, 'Reminder: approval needed',
+      format('"%s" is waiting for your decision (stage "%s").', _step.title, _step.name), 'warning');
+    UPDATE public.change_request_approval_steps SET last_reminded_at = now() WHERE id = _step.id;
+  END LOOP;
+  RETURN _count;
+END;
+$$;
+
+-- 10. POLICY EDITING
+-- Creates (no _policy_id) or updates a policy and replaces its stages in one go. _stages is a JSON array of
+-- { name, approverSource, approverIds, requiredApprovals, minScheduleImpactDays, minBudgetImpact, reminderHours }
+-- in chain order. Runs as the caller, so the manager-only policies above apply.
+CREATE OR REPLACE FUNCTION public.save_approval_policy(
+  _name text,
+  _scope_type text,
+  _stages jsonb,
+  _scope_id uuid DEFAULT NULL,
+  _is_active boolean DEFAULT true,
+  _policy_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _org_id uuid := get_user_org_id(auth.uid());
+  _id uuid := _policy_id;
+  _stage jsonb;
+BEGIN
+  IF NOT has_min_org_role(auth.uid(), 'manager'::app_role) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+  IF jsonb_typeof(_stages) <> 'array' OR jsonb_array_length(_stages) = 0 THEN
+    RAISE EXCEPTION 'invalid_stage: a policy needs at least one stage';
+  END IF;
+
+  FOR _stage IN SELECT value FROM jsonb_array_elements(_stages) LOOP
+    IF COALESCE(_stage->>'approverSource', 'users') = 'users'
+      AND jsonb_array_length(COALESCE(_stage->'approverIds', '[]'::jsonb)) < COALESCE((_stage->>'requiredApprovals')::integer, 1) THEN
+      RAISE EXCEPTION 'invalid_stage: "%" needs at least as many approvers as required approvals', _stage->>'name';
+    END IF;
+  END LOOP;
+
+  IF _id IS NULL THEN
+    INSERT INTO public.approval_policies (org_id, name, scope_type, scope_id, is_active)
+    VALUES (_org_id, _name, _scope_type, _scope_id, _is_active)
+    RETURNING id INTO _id;
+  ELSE
+    UPDATE public.approval_policies
+    SET name = _name, scope_type = _scope_type, scope_id = _scope_id, is_active = _is_active
+    WHERE id = _id AND org_id = _org_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'not_found';
+    END IF;
+    DELETE FROM public.approval_policy_stages WHERE policy_id = _id;
+  END IF;
+
+  INSERT INTO public.approval_policy_stages (
+    org_id, policy_id, position, name, approver_source, approver_ids, required_approvals,
+    min_schedule_impact_days, min_budget_impact, reminder_hours
+  )
+  SELECT
+    _org_id, _id, s.ord, s.value->>'name', COALESCE(s.value->>'approverSource', 'users'),
+    ARRAY(SELECT jsonb_array_elements_text(COALESCE(s.value->'approverIds', '[]'::jsonb))::uuid),
+    COALESCE((s.value->>'requiredApprovals')::integer, 1),
+    (s.value->>'minScheduleImpactDays')::numeric,
+    (s.value->>'minBudgetImpact')::numeric,
+    COALESCE((s.value->>'reminderHours')::integer, 48)
+  FROM jsonb_array_elements(_stages) WITH ORDINALITY AS s(value, ord);
+
+  RETURN _id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_approval_policy(text, text, jsonb, uuid, boolean, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.decide_change_request(uuid, boolean, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_approval_inbox() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.import_legacy_change_request_approvals(jsonb) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.active_approval_delegate(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.approval_step_votes(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.resolve_approval_stage_users(public.approval_policy_stages, public.change_requests) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.advance_change_request_approval(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.notify_approval_step(uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.send_change_request_reminders() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.submit_change_request(uuid, uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- 11. REALTIME
+ALTER PUBLICATION supabase_realtime ADD TABLE public.approval_policies;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.change_request_approval_steps;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.approval_delegations;
+
+-- 12. SCHEDULED REMINDERS
+SELECT cron.schedule(
+  'change-request-approval-reminders',
+  '20 * * * *',
+  $$ SELECT public.send_change_request_reminders(); $$
+);
@@ -0,0 +1,148 @@
+-- Quantitative risk scoring: probability × impact (1–5 each) before and after mitigation,
+-- cost and schedule exposure, and a score history for risk burndown.
+--
+-- 1. risks: probability / impact (inherent), residual_probability / residual_impact (after the
+--    mitigation plan; NULL = not assessed), cost_exposure and schedule_exposure_days. Existing
+--    risks get scores from their severity.
+-- 2. severity is derived from the inherent score (P × I): ≥ 20 critical, ≥ 12 high, ≥ 5 medium.
+-- 3. risk_score_history: one row per change of status, scores or exposure (written by trigger),
+--    so the register can chart open exposure over time. Existing risks are backfilled.
+
+-- 1. SCORES AND EXPOSURE
+ALTER TABLE public.risks
+  ADD COLUMN IF NOT EXISTS probability smallint,
+  ADD COLUMN IF NOT EXISTS impact smallint,
+  ADD COLUMN IF NOT EXISTS residual_probability smallint CHECK (residual_probability BETWEEN 1 AND 5),
+  ADD COLUMN IF NOT EXISTS residual_impact smallint CHECK (residual_impact BETWEEN 1 AND 5),
+  ADD COLUMN IF NOT EXISTS cost_exposure numeric(14, 2) CHECK (cost_exposure >= 0),
+  ADD COLUMN IF NOT EXISTS schedule_exposure_days numeric(8, 1) CHECK (schedule_exposure_days >= 0);
+
+-- Keep updated_at: the history backfill below dates closed risks by it
+ALTER TABLE public.risks DISABLE TRIGGER update_risks_updated_at;
+
+UPDATE public.risks
+SET probability = CASE severity WHEN 'low' THEN 2 WHEN 'medium' THEN 3 WHEN 'high' THEN 4 ELSE 5 END,
+    impact = CASE severity WHEN 'low' THEN 2 WHEN 'medium' THEN 3 WHEN 'high' THEN 4 ELSE 5 END
+WHERE probability IS NULL OR impact IS NULL;
+
+ALTER TABLE public.risks ENABLE TRIGGER update_risks_updated_at;
+
+ALTER TABLE public.risks
+  ALTER COLUMN probability SET DEFAULT 3,
+  ALTER COLUMN probability SET NOT NULL,
+  ALTER COLUMN impact SET DEFAULT 3,
+  ALTER COLUMN impact SET NOT NULL,
+  ADD CONSTRAINT risks_probability_range CHECK (probability BETWEEN 1 AND 5),
+  ADD CONSTRAINT risks_impact_range CHECK (impact BETWEEN 1 AND 5),
+  -- Residual is assessed as a pair
+  ADD CONSTRAINT risks_residual_pair CHECK ((residual_probability IS NULL) = (residual_impact IS NULL));
+
+-- 2. SEVERITY FROM SCORE
+CREATE OR REPLACE FUNCTION public.risk_score_severity(_score integer)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _score >= 20 THEN 'critical'
+    WHEN _score >= 12 THEN 'high'
+    WHEN _score >= 5 THEN 'medium'
+    ELSE 'low'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_risk_severity()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.severity := public.risk_score_severity(NEW.probability * NEW.impact);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_risk_severity ON public.risks;
+CREATE TRIGGER set_risk_severity
+  BEFORE INSERT OR UPDATE OF probability, impact, severity ON public.risks
+  FOR EACH ROW EXECUTE FUNCTION public.set_risk_severity();
+
+-- 3. SCORE HISTORY
+CREATE TABLE IF NOT EXISTS public.risk_score_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  risk_id uuid NOT NULL REFERENCES public.risks(id) ON DELETE CASCADE,
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  status text NOT NULL,
+  probability smallint NOT NULL,
+  impact smallint NOT NULL,
+  residual_probability smallint,
+  residual_impact smallint,
+  cost_exposure numeric(14, 2),
+  schedule_exposure_days numeric(8, 1),
+  recorded_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_risk_score_history_org ON public.risk_score_history(org_id, recorded_at);
+CREATE INDEX IF NOT EXISTS idx_risk_score_history_risk ON public.risk_score_history(risk_id, recorded_at);
+
+ALTER TABLE public.risk_score_history ENABLE ROW LEVEL SECURITY;
+
+-- Written by the trigger only
+CREATE POLICY "Users can view risk history in their org"
+  ON public.risk_score_history FOR SELECT
+  USING (org_id = get_user_org_id(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.record_risk_score_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.status IS NOT DISTINCT FROM OLD.status
+     AND NEW.project_id IS NOT DISTINCT FROM OLD.project_id
+     AND NEW.probability IS NOT DISTINCT FROM OLD.probability
+     AND NEW.impact IS NOT DISTINCT FROM OLD.impact
+     AND NEW.residual_probability IS NOT DISTINCT FROM OLD.residual_probability
+     AND NEW.residual_impact IS NOT DISTINCT FROM OLD.residual_impact
+     AND NEW.cost_exposure IS NOT DISTINCT FROM OLD.cost_exposure
+     AND NEW.schedule_exposure_days IS NOT DISTINCT FROM OLD.schedule_exposure_days THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.risk_score_history (
+    org_id, risk_id, project_id, status, probability, impact,
+    residual_probability, residual_impact, cost_exposure, schedule_exposure_days, recorded_at
+  )
+  VALUES (
+    NEW.org_id, NEW.id, NEW.project_id, NEW.status, NEW.probability, NEW.impact,
+    NEW.residual_probability, NEW.residual_impact, NEW.cost_exposure, NEW.schedule_exposure_days,
+    CASE WHEN TG_OP = 'INSERT' THEN LEAST(NEW.identified_at, now()) ELSE now() END
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_risk_score_history ON public.risks;
+CREATE TRIGGER record_risk_score_history
+  AFTER INSERT OR UPDATE ON public.risks
+  FOR EACH ROW EXECUTE FUNCTION public.record_risk_score_history();
+
+-- Backfill: each existing risk opened when identified; closed ones closed at realization or last update
+INSERT INTO public.risk_score_history (org_id, risk_id, project_id, status, probability, impact, recorded_at)
+SELECT r.org_id, r.id, r.project_id,
+       CASE WHEN r.status IN ('identified', 'active') THEN r.status ELSE 'identified' END,
+       r.probability, r.impact, r.identified_at
+FROM public.risks r
+WHERE NOT EXISTS (SELECT 1 FROM public.risk_score_history h WHERE h.risk_id = r.id);
+
+INSERT INTO public.risk_score_history (org_id, risk_id, project_id, status, probability, impact, recorded_at)
+SELECT r.org_id, r.id, r.project_id, r.status, r.probability, r.impact,
+       GREATEST(COALESCE(r.realized_at, r.updated_at), r.identified_at)
+FROM public.risks r
+WHERE r.status IN ('mitigated', 'realized')
+  AND (SELECT count(*) FROM public.risk_score_history h WHERE h.risk_id = r.id) = 1;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.risk_score_history;
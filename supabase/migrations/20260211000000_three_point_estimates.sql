@@ -0,0 +1,18 @@
+-- Three-point estimates for schedule risk simulation.
+--
+-- 1. tasks: optimistic_hours / pessimistic_hours around estimated_hours (the most likely
+--    estimate). Both NULL = single-point estimate; the Monte Carlo simulation then treats the
+--    task's duration as fixed.
+--
+-- estimated_hours is not constrained to lie between the two: it is edited on its own (task
+-- form, change requests) and the simulation widens the range to include it.
+
+-- 1. OPTIMISTIC / PESSIMISTIC HOURS
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS optimistic_hours numeric CHECK (optimistic_hours > 0),
+  ADD COLUMN IF NOT EXISTS pessimistic_hours numeric CHECK (pessimistic_hours > 0);
+
+ALTER TABLE public.tasks
+  -- Estimated as a pair
+  ADD CONSTRAINT tasks_three_point_pair CHECK ((optimistic_hours IS NULL) = (pessimistic_hours IS NULL)),
+  ADD CONSTRAINT tasks_three_point_order CHECK (optimistic_hours <= pessimistic_hours);
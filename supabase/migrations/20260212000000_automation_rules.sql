@@ -0,0 +1,504 @@
+-- Rule-based automations: when something happens to a task, risk, milestone or project (the trigger) and the
+-- record matches every condition, the rule's actions run. Rules are evaluated in the database, so they apply
+-- however the change was made (task modal, board drag, change request implementation, recurring generation).
+--
+-- 1. automation_rules: per org, optionally limited to one project. trigger_config narrows status triggers
+--    ({ from_status?, to_status? }); conditions and actions are JSON arrays:
+--      condition: { field, operator: equals | not_equals | in | not_in | is_set | is_not_set | greater_than |
+--                   less_than, value? } on the triggering record's columns
+--      action:    { type: set_task_status, status } | { type: set_task_priority, priority }
+--                 | { type: assign_task, assignee: project_owner | member | unassign, member_id? }
+--                 | { type: create_task, title, description?, priority?, assignee?, member_id?, due_in_days?,
+--                     link_blocker? }
+--                 | { type: notify, recipients: [watchers | assignee | risk_owner | project_owner |
+--                     org_managers], title, message? }
+--    Titles and messages may use {{title}}, {{status}}, {{previous_status}} and {{project}}.
+-- 2. automation_runs: execution log, one row per rule that matched, with the outcome of each action. Kept for
+--    90 days.
+-- 3. Engine: run_automation_rules. A failing action is logged and rolled back on its own; it never fails the
+--    change that triggered it.
+-- 4. Loop protection: actions run with app.automation_depth raised, so changes they make can trigger further
+--    rules only up to depth 3, and a rule runs at most once per record in a transaction (app.automation_chain).
+--    Both are logged as skipped, including a rule a person's transaction fires twice on the same record.
+-- 5. Triggers on tasks, risks and projects.
+
+-- 1. RULES
+CREATE TABLE IF NOT EXISTS public.automation_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  -- Only records of this project; null for the whole org
+  project_id uuid REFERENCES public.projects(id) ON DELETE CASCADE,
+  trigger_type text NOT NULL CHECK (trigger_type IN (
+    'task_created', 'task_status_changed', 'task_assigned', 'milestone_completed',
+    'risk_created', 'risk_status_changed', 'project_status_changed'
+  )),
+  trigger_config jsonb NOT NULL DEFAULT '{}' CHECK (jsonb_typeof(trigger_config) = 'object'),
+  conditions jsonb NOT NULL DEFAULT '[]' CHECK (jsonb_typeof(conditions) = 'array'),
+  actions jsonb NOT NULL CHECK (jsonb_typeof(actions) = 'array' AND jsonb_array_length(actions) > 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_automation_rules_trigger ON public.automation_rules(org_id, trigger_type) WHERE is_active;
+
+ALTER TABLE public.automation_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view automation_rules in their org"
+  ON public.automation_rules FOR SELECT
+  USING (org_id = get_user_org_id(auth.uid()));
+
+CREATE POLICY "Managers can manage automation_rules"
+  ON public.automation_rules FOR ALL
+  USING (org_id = get_user_org_id(auth.uid()) AND has_min_org_role(auth.uid(), 'manager'::app_role))
+  WITH CHECK (org_id = get_user_org_id(auth.uid()) AND has_min_org_role(auth.uid(), 'manager'::app_role));
+
+CREATE TRIGGER update_automation_rules_updated_at
+  BEFORE UPDATE ON public.automation_rules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. EXECUTION LOG
+CREATE TABLE IF NOT EXISTS public.automation_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  rule_id uuid REFERENCES public.automation_rules(id) ON DELETE SET NULL,
+  -- Copied so the log still reads after the rule is renamed or deleted
+  rule_name text NOT NULL,
+  trigger_type text NOT NULL,
+  entity_type text NOT NULL CHECK (entity_type IN ('task', 'risk', 'milestone', 'project')),
+  entity_id uuid NOT NULL,
+  entity_title text,
+  project_id uuid REFERENCES public.projects(id) ON DELETE SET NULL,
+  status text NOT NULL CHECK (status IN ('success', 'failed', 'skipped')),
+  -- [{ type, status: success | skipped | failed, detail }]
+  action_results jsonb NOT NULL DEFAULT '[]',
+  -- Why the rule was skipped
+  detail text,
+  -- 0 for a change made by a person, 1+ for a change made by another automation
+  depth integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_automation_runs_org ON public.automation_runs(org_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_automation_runs_rule ON public.automation_runs(rule_id, created_at DESC);
+
+ALTER TABLE public.automation_runs ENABLE ROW LEVEL SECURITY;
+
+-- Written by the engine only
+CREATE POLICY "Users can view automation_runs in their org"
+  ON public.automation_runs FOR SELECT
+  USING (org_id = get_user_org_id(auth.uid()));
+
+-- 3. ENGINE
+-- User account of a team member (matched on email, as in get_user_team_member_id)
+CREATE OR REPLACE FUNCTION public.get_team_member_user_id(_member_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id
+  FROM public.team_members tm
+  JOIN public.contacts c ON c.id = tm.contact_id
+  JOIN public.profiles p ON p.org_id = tm.org_id AND lower(p.email) = lower(c.email)
+  WHERE tm.id = _member_id
+  LIMIT 1
+$$;
+
+-- Whether a record (row as jsonb) satisfies one condition; never null
+CREATE OR REPLACE FUNCTION public.automation_condition_matches(_record jsonb, _condition jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  _actual text := _record ->> (_condition ->> 'field');
+  _value jsonb := _condition -> 'value';
+  _expected text := _condition #>> '{value}';
+  _numeric boolean := _actual ~ '^-?\d+(\.\d+)?$' AND _expected ~ '^-?\d+(\.\d+)?$';
+BEGIN
+  RETURN COALESCE(
+    CASE _condition ->> 'operator'
+      WHEN 'equals' THEN _actual IS NOT DISTINCT FROM _expected
+      WHEN 'not_equals' THEN _actual IS DISTINCT FROM _expected
+      WHEN 'in' THEN jsonb_typeof(_value) = 'array' AND _value ? _actual
+      WHEN 'not_in' THEN jsonb_typeof(_value) = 'array' AND NOT COALESCE(_value ? _actual, false)
+      WHEN 'is_set' THEN COALESCE(_actual, '') <> ''
+      WHEN 'is_not_set' THEN COALESCE(_actual, '') = ''
+      WHEN 'greater_than' THEN CASE WHEN _numeric THEN _actual::numeric > _expected::numeric ELSE _actual > _expected END
+      WHEN 'less_than' THEN CASE WHEN _numeric THEN _actual::numeric < _expected::numeric ELSE _actual < _expected END
+      ELSE false
+    END,
+    false
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.automation_render(_template text, _vars jsonb)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  _key text;
+  _result text := COALESCE(_template, '');
+BEGIN
+  FOR _key IN SELECT jsonb_object_keys(_vars) LOOP
+    _result := replace(_result, '{{' || _key || '}}', COALESCE(_vars ->> _key, ''));
+  END LOOP;
+  RETURN _result;
+END;
+$$;
+
+-- Team member an action refers to: the project's owner (or admin), a named member of the org, the task's
+-- assignee or the risk's owner
+CREATE OR REPLACE FUNCTION public.automation_member(_who text, _member_id text, _org_id uuid, _project_id uuid, _record jsonb)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE _who
+    WHEN 'project_owner' THEN (
+      SELECT pm.member_id FROM public.project_members pm
+      WHERE pm.project_id = _project_id AND pm.role IN ('owner', 'admin')
+      ORDER BY pm.role = 'owner' DESC, pm.created_at
+      LIMIT 1
+    )
+    WHEN 'member' THEN (SELECT tm.id FROM public.team_members tm WHERE tm.id::text = _member_id AND tm.org_id = _org_id)
+    WHEN 'task_assignee' THEN (_record ->> 'assignee_id')::uuid
+    WHEN 'risk_owner' THEN (_record ->> 'owner_id')::uuid
+  END
+$$;
+
+-- Users to notify. Watchers are those watching the record, its project or, for a milestone, one of its tasks.
+CREATE OR REPLACE FUNCTION public.automation_recipients(
+  _recipients jsonb, _org_id uuid, _entity_type text, _entity_id uuid, _project_id uuid, _record jsonb
+)
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT u FROM (
+    SELECT w.user_id AS u
+    FROM public.watched_items w
+    WHERE _recipients ? 'watchers' AND w.org_id = _org_id
+      AND ((w.item_type = _entity_type AND w.item_id = _entity_id)
+        OR (w.item_type = 'project' AND w.item_id = _project_id)
+        OR (_entity_type = 'milestone' AND w.item_type = 'task'
+            AND w.item_id IN (SELECT t.id FROM public.tasks t WHERE t.milestone_id = _entity_id)))
+    UNION ALL
+    SELECT get_team_member_user_id((_record ->> 'assignee_id')::uuid) WHERE _recipients ? 'assignee'
+    UNION ALL
+    SELECT get_team_member_user_id((_record ->> 'owner_id')::uuid) WHERE _recipients ? 'risk_owner'
+    UNION ALL
+    SELECT get_team_member_user_id(pm.member_id)
+    FROM public.project_members pm
+    WHERE _recipients ? 'project_owner' AND pm.project_id = _project_id AND pm.role IN ('owner', 'admin')
+    UNION ALL
+    SELECT ur.user_id
+    FROM public.user_roles ur
+    WHERE _recipients ? 'org_managers' AND ur.org_id = _org_id AND ur.role IN ('owner', 'admin', 'manager')
+  ) s
+  WHERE u IS NOT NULL
+$$;
+
+-- Runs one action; returns { type, status, detail }. Errors propagate to the caller, which logs them.
+CREATE OR REPLACE FUNCTION public.run_automation_action(
+  _rule public.automation_rules, _action jsonb, _entity_type text, _entity_id uuid, _project_id uuid,
+  _record jsonb, _vars jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _type text := _action ->> 'type';
+  _member_id uuid;
+  _task_id uuid;
+  _count integer;
+  _title text;
+BEGIN
+  IF _type IN ('set_task_status', 'set_task_priority', 'assign_task') AND _entity_type <> 'task' THEN
+    RETURN jsonb_build_object('type', _type, 'status', 'skipped', 'detail', 'Only applies to task triggers');
+  END IF;
+
+  CASE _type
+    WHEN 'set_task_status' THEN
+      UPDATE public.tasks SET status = _action ->> 'status'
+      WHERE id = _entity_id AND status IS DISTINCT FROM _action ->> 'status';
+      GET DIAGNOSTICS _count = ROW_COUNT;
+      RETURN jsonb_build_object('type', _type, 'status', CASE WHEN _count > 0 THEN 'success' ELSE 'skipped' END,
+        'detail', CASE WHEN _count > 0 THEN 'Status set to ' || (_action ->> 'status') ELSE 'Already in that status' END);
+
+    WHEN 'set_task_priority' THEN
+      UPDATE public.tasks SET priority = _action ->> 'priority'
+      WHERE id = _entity_id AND priority IS DISTINCT FROM _action ->> 'priority';
+      GET DIAGNOSTICS _count = ROW_COUNT;
+      RETURN jsonb_build_object('type', _type, 'status', CASE WHEN _count > 0 THEN 'success' ELSE 'skipped' END,
+        'detail', CASE WHEN _count > 0 THEN 'Priority set to ' || (_action ->> 'priority') ELSE 'Already at that priority' END);
+
+    WHEN 'assign_task' THEN
+      IF _action ->> 'assignee' <> 'unassign' THEN
+        _member_id := automation_member(_action ->> 'assignee', _action ->> 'member_id', _rule.org_id, _project_id, _record);
+        IF _member_id IS NULL THEN
+          RETURN jsonb_build_object('type', _type, 'status', 'skipped', 'detail',
+            CASE WHEN _action ->> 'assignee' = 'project_owner' THEN 'The project has no owner' ELSE 'Member not found' END);
+        END IF;
+      END IF;
+      UPDATE public.tasks SET assignee_id = _member_id
+      WHERE id = _entity_id AND assignee_id IS DISTINCT FROM _member_id;
+      GET DIAGNOSTICS _count = ROW_COUNT;
+      RETURN jsonb_build_object('type', _type, 'status', CASE WHEN _count > 0 THEN 'success' ELSE 'skipped' END,
+        'detail', CASE WHEN _count = 0 THEN 'Already assigned' WHEN _member_id IS NULL THEN 'Unassigned' ELSE 'Assigned' END);
+
+    WHEN 'create_task' THEN
+      IF _project_id IS NULL THEN
+        RETURN jsonb_build_object('type', _type, 'status', 'skipped', 'detail', 'No project to create the task in');
+      END IF;
+      _member_id := automation_member(_action ->> 'assignee', _action ->> 'member_id', _rule.org_id, _project_id, _record);
+      _title := left(nullif(trim(automation_render(_action ->> 'title', _vars)), ''), 500);
+      INSERT INTO public.tasks (org_id, project_id, title, description, priority, assignee_id, due_date, milestone_id)
+      VALUES (
+        _rule.org_id, _project_id, COALESCE(_title, 'Follow-up: ' || COALESCE(_vars ->> 'title', _rule.name)),
+        nullif(automation_render(_action ->> 'description', _vars), ''),
+        COALESCE(_action ->> 'priority', 'medium'),
+        _member_id,
+        CASE WHEN _action ? 'due_in_days' THEN current_date + (_action ->> 'due_in_days')::integer END,
+        CASE WHEN _entity_type = 'task' THEN (_record ->> 'milestone_id')::uuid END
+      )
+      RETURNING id INTO _task_id;
+      -- A blocker holds up the record it was created for: the risk's blocker task, or a predecessor of the task
+      IF COALESCE((_action ->> 'link_blocker')::boolean, false) THEN
+        IF _entity_type = 'risk' THEN
+          UPDATE public.risks SET blocker_task_id = _task_id WHERE id = _entity_id AND blocker_task_id IS NULL;
+        ELSIF _entity_type = 'task' THEN
+          INSERT INTO public.task_dependencies (org_id, predecessor_task_id, successor_task_id, type)
+          VALUES (_rule.org_id, _task_id, _entity_id, 'blocks');
+        END IF;
+      END IF;
+      RETURN jsonb_build_object('type', _type, 'status', 'success', 'detail', 'Created task', 'task_id', _task_id);
+
+    WHEN 'notify' THEN
+      INSERT INTO public.notifications (user_id, org_id, project_id, task_id, title, message, type, link)
+      SELECT r, _rule.org_id, _project_id,
+        CASE WHEN _entity_type = 'task' THEN _entity_id END,
+        left(COALESCE(nullif(trim(automation_render(_action ->> 'title', _vars)), ''), _rule.name), 200),
+        COALESCE(nullif(automation_render(_action ->> 'message', _vars), ''), COALESCE(_vars ->> 'title', '')),
+        'info',
+        CASE WHEN _project_id IS NOT NULL THEN '/projects/' || _project_id END
+      FROM automation_recipients(COALESCE(_action -> 'recipients', '[]'), _rule.org_id, _entity_type, _entity_id, _project_id, _record) r;
+      GET DIAGNOSTICS _count = ROW_COUNT;
+      RETURN jsonb_build_object('type', _type, 'status', CASE WHEN _count > 0 THEN 'success' ELSE 'skipped' END,
+        'detail', CASE WHEN _count > 0 THEN format('Notified %s user%s', _count, CASE WHEN _count = 1 THEN '' ELSE 's' END)
+                       ELSE 'No one to notify' END);
+
+    ELSE
+      RETURN jsonb_build_object('type', _type, 'status', 'failed', 'detail', 'Unknown action');
+  END CASE;
+END;
+$$;
+
+-- Evaluates the org's active rules for one event and runs those that match. Returns the number of rules run.
+CREATE OR REPLACE FUNCTION public.run_automation_rules(
+  _org_id uuid, _trigger_type text, _entity_type text, _entity_id uuid, _project_id uuid,
+  _record jsonb, _old jsonb DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _depth integer := COALESCE(nullif(current_setting('app.automation_depth', true), ''), '0')::integer;
+  _chain text;
+  _link text;
+  _rule public.automation_rules%ROWTYPE;
+  _action jsonb;
+  _result jsonb;
+  _results jsonb;
+  _failed boolean;
+  _vars jsonb;
+  _count integer := 0;
+BEGIN
+  _vars := jsonb_build_object(
+    'title', COALESCE(_record ->> 'title', _record ->> 'name'),
+    'status', _record ->> 'status',
+    'previous_status', _old ->> 'status',
+    'project', (SELECT p.name FROM public.projects p WHERE p.id = _project_id)
+  );
+
+  FOR _rule IN
+    SELECT r.* FROM public.automation_rules r
+    WHERE r.org_id = _org_id AND r.is_active AND r.trigger_type = _trigger_type
+      AND (r.project_id IS NULL OR r.project_id = _project_id)
+      AND (r.trigger_config ->> 'to_status' IS NULL OR r.trigger_config ->> 'to_status' = _record ->> 'status')
+      AND (r.trigger_config ->> 'from_status' IS NULL OR r.trigger_config ->> 'from_status' = _old ->> 'status')
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(r.conditions) c WHERE NOT automation_condition_matches(_record, c)
+      )
+    ORDER BY r.created_at
+  LOOP
+    _chain := COALESCE(current_setting('app.automation_chain', true), '');
+    _link := _rule.id || ':' || _entity_id || ';';
+
+    IF _depth >= 3 OR position(_link IN _chain) > 0 THEN
+      INSERT INTO public.automation_runs (
+        org_id, rule_id, rule_name, trigger_type, entity_type, entity_id, entity_title, project_id, status, detail, depth
+      )
+      VALUES (
+        _org_id, _rule.id, _rule.name, _trigger_type, _entity_type, _entity_id, _vars ->> 'title', _project_id, 'skipped',
+        CASE WHEN _depth >= 3
+          THEN 'Loop protection: triggered by a chain of 3 automations'
+          WHEN _depth = 0 THEN 'Already ran on this record earlier in the same transaction'
+          ELSE 'Loop protection: already ran on this record in the same change' END,
+        _depth
+      );
+      CONTINUE;
+    END IF;
+
+    PERFORM set_config('app.automation_chain', _chain || _link, true);
+    PERFORM set_config('app.automation_depth', (_depth + 1)::text, true);
+    _results := '[]';
+    _failed := false;
+    FOR _action IN SELECT a FROM jsonb_array_elements(_rule.actions) a LOOP
+      BEGIN
+        _result := run_automation_action(_rule, _action, _entity_type, _entity_id, _project_id, _record, _vars);
+      EXCEPTION WHEN OTHERS THEN
+        _result := jsonb_build_object('type', _action ->> 'type', 'status', 'failed', 'detail', SQLERRM);
+      END;
+      _failed := _failed OR _result ->> 'status' = 'failed';
+      _results := _results || jsonb_build_array(_result);
+    END LOOP;
+    PERFORM set_config('app.automation_depth', _depth::text, true);
+
+    INSERT INTO public.automation_runs (
+      org_id, rule_id, rule_name, trigger_type, entity_type, entity_id, entity_title, project_id, status,
+      action_results, depth
+    )
+    VALUES (
+      _org_id, _rule.id, _rule.name, _trigger_type, _entity_type, _entity_id, _vars ->> 'title', _project_id,
+      CASE WHEN _failed THEN 'failed' ELSE 'success' END, _results, _depth
+    );
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.run_automation_action(public.automation_rules, jsonb, text, uuid, uuid, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.run_automation_rules(uuid, text, text, uuid, uuid, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.automation_recipients(jsonb, uuid, text, uuid, uuid, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.automation_member(text, text, uuid, uuid, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_team_member_user_id(uuid) FROM PUBLIC, anon, authenticated;
+
+-- 5. TRIGGERS
+CREATE OR REPLACE FUNCTION public.automation_on_task_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _milestone jsonb;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.automation_rules WHERE org_id = NEW.org_id AND is_active) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM run_automation_rules(NEW.org_id, 'task_created', 'task', NEW.id, NEW.project_id, to_jsonb(NEW));
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM run_automation_rules(NEW.org_id, 'task_status_changed', 'task', NEW.id, NEW.project_id, to_jsonb(NEW), to_jsonb(OLD));
+  END IF;
+
+  IF NEW.assignee_id IS NOT NULL AND NEW.assignee_id IS DISTINCT FROM OLD.assignee_id THEN
+    PERFORM run_automation_rules(NEW.org_id, 'task_assigned', 'task', NEW.id, NEW.project_id, to_jsonb(NEW), to_jsonb(OLD));
+  END IF;
+
+  -- This change completed the milestone's last open task
+  IF NEW.milestone_id IS NOT NULL AND NEW.status = 'done' AND NEW.archived_at IS NULL
+     AND (OLD.status IS DISTINCT FROM 'done' OR OLD.milestone_id IS DISTINCT FROM NEW.milestone_id OR OLD.archived_at IS NOT NULL)
+     AND NOT EXISTS (
+       SELECT 1 FROM public.tasks t
+       WHERE t.milestone_id = NEW.milestone_id AND t.archived_at IS NULL AND t.status <> 'done'
+     ) THEN
+    SELECT to_jsonb(m) INTO _milestone FROM public.milestones m WHERE m.id = NEW.milestone_id;
+    PERFORM run_automation_rules(NEW.org_id, 'milestone_completed', 'milestone', NEW.milestone_id, NEW.project_id, _milestone);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS automation_on_task_change ON public.tasks;
+CREATE TRIGGER automation_on_task_change
+  AFTER INSERT OR UPDATE OF status, assignee_id, milestone_id, archived_at ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.automation_on_task_change();
+
+CREATE OR REPLACE FUNCTION public.automation_on_risk_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.automation_rules WHERE org_id = NEW.org_id AND is_active) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM run_automation_rules(NEW.org_id, 'risk_created', 'risk', NEW.id, NEW.project_id, to_jsonb(NEW));
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM run_automation_rules(NEW.org_id, 'risk_status_changed', 'risk', NEW.id, NEW.project_id, to_jsonb(NEW), to_jsonb(OLD));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS automation_on_risk_change ON public.risks;
+CREATE TRIGGER automation_on_risk_change
+  AFTER INSERT OR UPDATE OF status ON public.risks
+  FOR EACH ROW EXECUTE FUNCTION public.automation_on_risk_change();
+
+CREATE OR REPLACE FUNCTION public.automation_on_project_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND EXISTS (SELECT 1 FROM public.automation_rules WHERE org_id = NEW.org_id AND is_active) THEN
+    PERFORM run_automation_rules(NEW.org_id, 'project_status_changed', 'project', NEW.id, NEW.id, to_jsonb(NEW), to_jsonb(OLD));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS automation_on_project_change ON public.projects;
+CREATE TRIGGER automation_on_project_change
+  AFTER UPDATE OF status ON public.projects
+  FOR EACH ROW EXECUTE FUNCTION public.automation_on_project_change();
+
+-- REALTIME AND RETENTION
+ALTER PUBLICATION supabase_realtime ADD TABLE public.automation_rules;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.automation_runs;
+
+SELECT cron.schedule(
+  'automation-runs-retention',
+  '40 3 * * *',
+  $$ DELETE FROM public.automation_runs WHERE created_at < now() - interval '90 days'; $$
+);
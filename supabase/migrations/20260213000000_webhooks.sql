@@ -0,0 +1,419 @@
+-- Outgoing webhooks: org-configured HTTPS endpoints receive a signed POST for the events they subscribe to.
+-- Event types are the ActivityType values of src/lib/activityLogger.ts.
+--
+-- 1. webhook_subscriptions: endpoint URL, subscribed event types and the signing secret (managers only).
+-- 2. webhook_deliveries: one row per event per subscription; the queue and the delivery log. Kept for 30 days.
+-- 3. Events: entity events (task_created, milestone_updated, team_member_added, ...) come from triggers on
+--    their tables, so they fire however the change was made; the other types (email_sent, report_exported,
+--    login, ...) are forwarded from activity_logs.
+-- 4. Delivery: the deliver-webhooks edge function runs every minute, claims due deliveries
+--    (claim_webhook_deliveries), signs and posts them and schedules retries with backoff.
+-- 5. Replay and test events from Settings.
+--
+-- Payload: { id: event id, type, created_at, org_id, data }. Entity events carry data.entity_type,
+-- data.entity_id, data.object (the row; the old row for deletes) and, for updates, data.previous (old values
+-- of the changed columns). A replay is a new delivery of the same event id.
+
+-- 1. SUBSCRIPTIONS
+-- Endpoints are called from inside the platform, so they must be public hosts: no loopback, private,
+-- link-local or other reserved addresses, and no names that only resolve locally. Mirrors
+-- isPrivateWebhookHost in src/lib/webhookDelivery.ts; deliver-webhooks also checks the resolved addresses.
+CREATE OR REPLACE FUNCTION public.is_public_webhook_url(_url text)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  _host text := rtrim(lower(substring(_url FROM '^https://(?:[^@/?#]*@)?(\[[^]]*\]|[^:/?#]+)')), '.');
+  _address inet;
+BEGIN
+  IF _host IS NULL OR _host = '' THEN
+    RETURN false;
+  END IF;
+
+  IF _host ~ '^\[.*\]$' THEN
+    _address := btrim(_host, '[]')::inet;
+  ELSIF _host ~ '^[0-9.]+$' OR _host ~ '(^|\.)0x' THEN
+    -- Only plain dotted quads; octal, hex and integer forms are refused rather than interpreted
+    IF _host !~ '^(25[0-5]|2[0-4][0-9]|1[0-9][0-9]|[1-9]?[0-9])(\.(25[0-5]|2[0-4][0-9]|1[0-9][0-9]|[1-9]?[0-9])){3}$' THEN
+      RETURN false;
+    END IF;
+    _address := _host::inet;
+  ELSE
+    RETURN _host <> 'localhost'
+      AND position('.' IN _host) > 0
+      AND _host !~ '\.(localhost|local|internal|lan|home\.arpa)$';
+  END IF;
+
+  RETURN NOT _address <<= ANY (ARRAY[
+    '0.0.0.0/8', '10.0.0.0/8', '100.64.0.0/10', '127.0.0.0/8', '169.254.0.0/16', '172.16.0.0/12',
+    '192.0.0.0/24', '192.168.0.0/16', '198.18.0.0/15', '224.0.0.0/4', '240.0.0.0/4',
+    '::/96', '::ffff:0:0/96', '64:ff9b::/96', 'fc00::/7', 'fe80::/10', 'ff00::/8'
+  ]::inet[]);
+EXCEPTION WHEN invalid_text_representation THEN
+  RETURN false;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS public.webhook_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  url text NOT NULL CHECK (url ~* '^https://[^\s/]+' AND is_public_webhook_url(url)),
+  event_types text[] NOT NULL CHECK (cardinality(event_types) > 0),
+  secret text NOT NULL DEFAULT 'whsec_' || encode(gen_random_bytes(24), 'hex'),
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_org ON public.webhook_subscriptions(org_id) WHERE is_active;
+
+ALTER TABLE public.webhook_subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- The secret is readable, so the whole table is limited to managers
+CREATE POLICY "Managers can manage webhook_subscriptions"
+  ON public.webhook_subscriptions FOR ALL
+  USING (org_id = get_user_org_id(auth.uid()) AND has_min_org_role(auth.uid(), 'manager'::app_role))
+  WITH CHECK (org_id = get_user_org_id(auth.uid()) AND has_min_org_role(auth.uid(), 'manager'::app_role));
+
+CREATE TRIGGER update_webhook_subscriptions_updated_at
+  BEFORE UPDATE ON public.webhook_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. DELIVERIES
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  subscription_id uuid NOT NULL REFERENCES public.webhook_subscriptions(id) ON DELETE CASCADE,
+  event_id uuid NOT NULL,
+  event_type text NOT NULL,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivering', 'succeeded', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  last_attempt_at timestamptz,
+  -- Last attempt: HTTP status and the start of the response body, or the network error
+  response_status integer,
+  response_body text,
+  error text,
+  delivered_at timestamptz,
+  replay_of uuid REFERENCES public.webhook_deliveries(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON public.webhook_deliveries(next_attempt_at) WHERE status IN ('pending', 'delivering');
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription ON public.webhook_deliveries(subscription_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_org ON public.webhook_deliveries(org_id, created_at DESC);
+
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Written by triggers and the edge function only
+CREATE POLICY "Managers can view webhook_deliveries"
+  ON public.webhook_deliveries FOR SELECT
+  USING (org_id = get_user_org_id(auth.uid()) AND has_min_org_role(auth.uid(), 'manager'::app_role));
+
+-- 3. EVENTS
+-- Queues one delivery per active subscription to the event. Returns the event id.
+CREATE OR REPLACE FUNCTION public.enqueue_webhook_event(_org_id uuid, _event_type text, _data jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event_id uuid := gen_random_uuid();
+BEGIN
+  INSERT INTO public.webhook_deliveries (org_id, subscription_id, event_id, event_type, payload)
+  SELECT s.org_id, s.id, _event_id, _event_type,
+    jsonb_build_object('id', _event_id, 'type', _event_type, 'created_at', now(), 'org_id', _org_id, 'data', _data)
+  FROM public.webhook_subscriptions s
+  -- The org is already gone while its rows are deleted in cascade
+  JOIN public.organizations o ON o.id = s.org_id
+  WHERE s.org_id = _org_id AND s.is_active AND _event_type = ANY(s.event_types);
+  RETURN _event_id;
+END;
+$$;
+
+-- Entity events. TG_ARGV[0] is the entity name used in the event types (task, subtask, project, ...).
+CREATE OR REPLACE FUNCTION public.webhook_on_entity_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _entity text := TG_ARGV[0];
+  _new jsonb := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  _old jsonb := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  _row jsonb := COALESCE(_new, _old);
+  _org_id uuid := (_row ->> 'org_id')::uuid;
+  _previous jsonb;
+  _data jsonb;
+  _events text[] := '{}';
+  _event text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.webhook_subscriptions WHERE org_id = _org_id AND is_active) THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    _events := ARRAY[CASE _entity WHEN 'team_member' THEN 'team_member_added' WHEN 'subtask' THEN 'subtask_added' ELSE _entity || '_created' END];
+  ELSIF TG_OP = 'DELETE' THEN
+    _events := ARRAY[CASE _entity WHEN 'team_member' THEN 'team_member_removed' ELSE _entity || '_deleted' END];
+  ELSE
+    SELECT jsonb_object_agg(o.key, o.value) INTO _previous
+    FROM jsonb_each(_old) o
+    WHERE o.key <> 'updated_at' AND _new -> o.key IS DISTINCT FROM o.value;
+    IF _previous IS NULL THEN
+      RETURN NULL;
+    END IF;
+
+    IF _entity = 'subtask' THEN
+      IF _previous ? 'completed' AND (_new ->> 'completed')::boolean THEN
+        _events := ARRAY['subtask_completed'];
+      END IF;
+    ELSIF _entity <> 'team_member' THEN
+      _events := ARRAY[_entity || '_updated'];
+    END IF;
+
+    -- Task updates also raise the specific events
+    IF _entity = 'task' AND _previous ? 'status' AND _new ->> 'status' = 'done' THEN
+      _events := _events || 'task_completed'::text;
+    END IF;
+    IF _entity = 'task' AND _previous ? 'assignee_id' AND _new ->> 'assignee_id' IS NOT NULL THEN
+      _events := _events || 'task_assigned'::text;
+    END IF;
+  END IF;
+
+  _data := jsonb_build_object('entity_type', _entity, 'entity_id', _row ->> 'id', 'object', _row);
+  IF _previous IS NOT NULL THEN
+    _data := _data || jsonb_build_object('previous', _previous);
+  END IF;
+
+  FOREACH _event IN ARRAY _events LOOP
+    PERFORM enqueue_webhook_event(_org_id, _event, _data);
+  END LOOP;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS webhook_on_task_change ON public.tasks;
+CREATE TRIGGER webhook_on_task_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.webhook_on_entity_change('task');
+
+DROP TRIGGER IF EXISTS webhook_on_subtask_change ON public.subtasks;
+CREATE TRIGGER webhook_on_subtask_change
+  AFTER INSERT OR UPDATE OF completed OR DELETE ON public.subtasks
+  FOR EACH ROW EXECUTE FUNCTION public.webhook_on_entity_change('subtask');
+
+DROP TRIGGER IF EXISTS webhook_on_project_change ON public.projects;
+CREATE TRIGGER webhook_on_project_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.projects
+  FOR EACH ROW EXECUTE FUNCTION public.webhook_on_entity_change('project');
+
+DROP TRIGGER IF EXISTS webhook_on_program_change ON public.programs;
+CREATE TRIGGER webhook_on_program_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.programs
+  FOR EACH ROW EXECUTE FUNCTION public.webhook_on_entity_change('program');
+
+DROP TRIGGER IF EXISTS webhook_on_portfolio_change ON public.portfolios;
+CREATE TRIGGER webhook_on_portfolio_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.portfolios
+  FOR EACH ROW EXECUTE FUNCTION public.webhook_on_entity_change('portfolio');
+
+DROP TRIGGER IF EXISTS webhook_on_milestone_change ON public.milestones;
+CREATE TRIGGER webhook_on_milestone_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.milestones
+  FOR EACH ROW EXECUTE FUNCTION public.webhook_on_entity_change('milestone');
+
+DROP TRIGGER IF EXISTS webhook_on_team_member_change ON public.team_members;
+CREATE TRIGGER webhook_on_team_member_change
+  AFTER INSERT OR DELETE ON public.team_members
+  FOR EACH ROW EXECUTE FUNCTION public.webhook_on_entity_change('team_member');
+
+DROP TRIGGER IF EXISTS webhook_on_contact_change ON public.contacts;
+CREATE TRIGGER webhook_on_contact_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.contacts
+  FOR EACH ROW EXECUTE FUNCTION public.webhook_on_entity_change('contact');
+
+-- Activity types without a table behind them
+CREATE OR REPLACE FUNCTION public.webhook_on_activity_logged()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.type IN ('email_sent', 'permission_changed', 'role_assigned', 'settings_updated', 'report_exported', 'login', 'logout') THEN
+    PERFORM enqueue_webhook_event(NEW.org_id, NEW.type, jsonb_build_object(
+      'activity_id', NEW.id,
+      'category', NEW.category,
+      'title', NEW.title,
+      'description', NEW.description,
+      'user_id', NEW.user_id,
+      'entity_type', NEW.entity_type,
+      'entity_id', NEW.entity_id
+    ));
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS webhook_on_activity_logged ON public.activity_logs;
+CREATE TRIGGER webhook_on_activity_logged
+  AFTER INSERT ON public.activity_logs
+  FOR EACH ROW EXECUTE FUNCTION public.webhook_on_activity_logged();
+
+-- 4. DELIVERY
+-- Claims due deliveries for the edge function. Deliveries left 'delivering' for 5 minutes (the function
+-- died mid-run) are claimed again.
+CREATE OR REPLACE FUNCTION public.claim_webhook_deliveries(_limit integer DEFAULT 50)
+RETURNS TABLE (
+  id uuid,
+  subscription_id uuid,
+  url text,
+  secret text,
+  event_id uuid,
+  event_type text,
+  payload jsonb,
+  attempts integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT d.id
+    FROM public.webhook_deliveries d
+    WHERE (d.status = 'pending' AND d.next_attempt_at <= now())
+       OR (d.status = 'delivering' AND d.last_attempt_at < now() - interval '5 minutes')
+    ORDER BY d.next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE public.webhook_deliveries d
+  SET status = 'delivering', attempts = d.attempts + 1, last_attempt_at = now()
+  FROM due, public.webhook_subscriptions s
+  WHERE d.id = due.id AND s.id = d.subscription_id
+  RETURNING d.id, d.subscription_id, s.url, s.secret, d.event_id, d.event_type, d.payload, d.attempts;
+END;
+$$;
+
+-- 5. REPLAY AND TEST EVENTS
+-- Queues the delivery's event again for its subscription. Returns the new delivery.
+CREATE OR REPLACE FUNCTION public.replay_webhook_delivery(_delivery_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _delivery public.webhook_deliveries%ROWTYPE;
+  _id uuid;
+BEGIN
+  SELECT * INTO _delivery FROM public.webhook_deliveries WHERE id = _delivery_id;
+  IF _delivery.id IS NULL
+     OR _delivery.org_id <> get_user_org_id(auth.uid())
+     OR NOT has_min_org_role(auth.uid(), 'manager'::app_role) THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  INSERT INTO public.webhook_deliveries (org_id, subscription_id, event_id, event_type, payload, replay_of)
+  VALUES (_delivery.org_id, _delivery.subscription_id, _delivery.event_id, _delivery.event_type, _delivery.payload, _delivery.id)
+  RETURNING id INTO _id;
+  RETURN _id;
+END;
+$$;
+
+-- Queues a 'ping' event to one subscription, to check the endpoint and its signature verification
+CREATE OR REPLACE FUNCTION public.send_test_webhook(_subscription_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _subscription public.webhook_subscriptions%ROWTYPE;
+  _event_id uuid := gen_random_uuid();
+  _id uuid;
+BEGIN
+  SELECT * INTO _subscription FROM public.webhook_subscriptions WHERE id = _subscription_id;
+  IF _subscription.id IS NULL
+     OR _subscription.org_id <> get_user_org_id(auth.uid())
+     OR NOT has_min_org_role(auth.uid(), 'manager'::app_role) THEN
+    RAISE EXCEPTION 'Webhook not found';
+  END IF;
+
+  INSERT INTO public.webhook_deliveries (org_id, subscription_id, event_id, event_type, payload)
+  VALUES (
+    _subscription.org_id, _subscription.id, _event_id, 'ping',
+    jsonb_build_object('id', _event_id, 'type', 'ping', 'created_at', now(), 'org_id', _subscription.org_id,
+      'data', jsonb_build_object('subscription_id', _subscription.id, 'name', _subscription.name))
+  )
+  RETURNING id INTO _id;
+  RETURN _id;
+END;
+$$;
+
+-- New signing secret; the old one stops working immediately
+CREATE OR REPLACE FUNCTION public.rotate_webhook_secret(_subscription_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- pgcrypto lives in the extensions schema, outside this function's search_path
+  _secret text := 'whsec_' || encode(extensions.gen_random_bytes(24), 'hex');
+BEGIN
+  UPDATE public.webhook_subscriptions
+  SET secret = _secret
+  WHERE id = _subscription_id
+    AND org_id = get_user_org_id(auth.uid())
+    AND has_min_org_role(auth.uid(), 'manager'::app_role);
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Webhook not found';
+  END IF;
+  RETURN _secret;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_webhook_event(uuid, text, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_webhook_deliveries(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.replay_webhook_delivery(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.send_test_webhook(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rotate_webhook_secret(uuid) TO authenticated;
+
+-- REALTIME
+ALTER PUBLICATION supabase_realtime ADD TABLE public.webhook_deliveries;
+
+-- SCHEDULED DELIVERY AND RETENTION
+-- Runs every minute; replace YOUR_CRON_SECRET with the CRON_SECRET set on the edge function
+SELECT cron.schedule(
+  'deliver-webhooks',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://bccdcbzdrwlmzholhdth.supabase.co/functions/v1/deliver-webhooks',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer YOUR_CRON_SECRET'
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 55000
+  ) as request_id;
+  $$
+);
+
+SELECT cron.schedule(
+  'webhook-deliveries-retention',
+  '50 3 * * *',
+  $$ DELETE FROM public.webhook_deliveries WHERE created_at < now() - interval '30 days' AND status IN ('succeeded', 'failed'); $$
+);
@@ -0,0 +1,113 @@
+-- Public REST API: personal access tokens for scripts and BI tools calling the api edge function (/v1/...).
+--
+-- 1. personal_access_tokens: one row per token. Only a SHA-256 hash is stored; the token is shown once.
+--    scope 'read' allows GET only, 'write' also the write endpoints. project_ids limits the token to those
+--    projects (NULL = every project the user can see).
+-- 2. create_personal_access_token / revoke_personal_access_token: the only way tokens are written.
+--
+-- A token acts as its user: the api function checks the user's current org role on every request
+-- (src/domains/permissions/apiAccess.ts), so a role change applies at once and a token stops working when
+-- its user leaves the org.
+
+-- 1. TOKENS
+CREATE TABLE IF NOT EXISTS public.personal_access_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  -- Start of the token, so it can be recognised in the list
+  token_prefix text NOT NULL,
+  token_hash text NOT NULL UNIQUE,
+  scope text NOT NULL DEFAULT 'read' CHECK (scope IN ('read', 'write')),
+  project_ids uuid[] CHECK (project_ids IS NULL OR cardinality(project_ids) > 0),
+  expires_at timestamptz,
+  last_used_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_personal_access_tokens_user ON public.personal_access_tokens(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_personal_access_tokens_org ON public.personal_access_tokens(org_id);
+
+ALTER TABLE public.personal_access_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Admins see every token in the org so they can revoke them
+CREATE POLICY "Users can view their own personal_access_tokens"
+  ON public.personal_access_tokens FOR SELECT
+  USING (
+    org_id = get_user_org_id(auth.uid())
+    AND (user_id = auth.uid() OR has_min_org_role(auth.uid(), 'admin'::app_role))
+  );
+
+-- 2. ISSUE AND REVOKE
+-- Returns the token; it cannot be read again.
+CREATE OR REPLACE FUNCTION public.create_personal_access_token(
+  _name text,
+  _scope text DEFAULT 'read',
+  _project_ids uuid[] DEFAULT NULL,
+  _expires_at timestamptz DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _org_id uuid := get_user_org_id(auth.uid());
+  -- pgcrypto lives in the extensions schema, outside this function's search_path
+  _token text := 'acc_' || encode(extensions.gen_random_bytes(24), 'hex');
+BEGIN
+  IF _org_id IS NULL THEN
+    RAISE EXCEPTION 'Not a member of an organization';
+  END IF;
+  IF coalesce(trim(_name), '') = '' THEN
+    RAISE EXCEPTION 'Token name is required';
+  END IF;
+  IF _expires_at IS NOT NULL AND _expires_at <= now() THEN
+    RAISE EXCEPTION 'Expiry must be in the future';
+  END IF;
+  IF _project_ids IS NOT NULL AND EXISTS (
+    SELECT 1 FROM unnest(_project_ids) AS p(id)
+    WHERE NOT EXISTS (SELECT 1 FROM public.projects WHERE projects.id = p.id AND projects.org_id = _org_id)
+  ) THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  INSERT INTO public.personal_access_tokens (org_id, user_id, name, token_prefix, token_hash, scope, project_ids, expires_at)
+  VALUES (
+    _org_id,
+    auth.uid(),
+    trim(_name),
+    left(_token, 12),
+    encode(extensions.digest(_token, 'sha256'), 'hex'),
+    _scope,
+    _project_ids,
+    _expires_at
+  );
+
+  RETURN _token;
+END;
+$$;
+
+-- Users revoke their own tokens, admins any token in the org
+CREATE OR REPLACE FUNCTION public.revoke_personal_access_token(_token_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.personal_access_tokens
+  SET revoked_at = now()
+  WHERE id = _token_id
+    AND revoked_at IS NULL
+    AND org_id = get_user_org_id(auth.uid())
+    AND (user_id = auth.uid() OR has_min_org_role(auth.uid(), 'admin'::app_role));
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Token not found';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_personal_access_token(text, text, uuid[], timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_personal_access_token(uuid) TO authenticated;
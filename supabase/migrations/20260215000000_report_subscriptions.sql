@@ -0,0 +1,134 @@
+-- Report subscriptions: saved reports emailed on a cron schedule.
+--
+-- 1. report_subscriptions: report tab, portfolio/program filter, date range, format (PDF/CSV),
+--    recipients and a cron cadence (UTC). Managers manage them; the next run time is computed by the
+--    client when the cadence changes and by the edge function after each run (src/lib/reportSchedule.ts).
+-- 2. report_subscription_runs: one row per run, the delivery log. Sent emails count towards the
+--    subscription owner's send-email rate limits. Kept for 90 days.
+-- 3. Delivery: the send-scheduled-reports edge function runs every 5 minutes, claims due subscriptions
+--    (claim_due_report_subscriptions), builds the report on the server, uploads the file to the
+--    Reports bucket (purged after 24h by cleanup-reports) and emails it to each recipient.
+
+-- 1. SUBSCRIPTIONS
+CREATE TABLE IF NOT EXISTS public.report_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  report_type text NOT NULL DEFAULT 'overview' CHECK (report_type IN (
+    'overview', 'portfolios', 'programs', 'projects', 'tasks', 'resources', 'activity', 'variance',
+    'budget', 'executive', 'status-update'
+  )),
+  portfolio_id uuid REFERENCES public.portfolios(id) ON DELETE CASCADE,
+  program_id uuid REFERENCES public.programs(id) ON DELETE CASCADE,
+  date_range text NOT NULL DEFAULT 'this-month' CHECK (date_range IN ('this-week', 'this-month', 'this-quarter', 'this-year', 'all-time')),
+  format text NOT NULL DEFAULT 'pdf' CHECK (format IN ('pdf', 'csv')),
+  recipients text[] NOT NULL CHECK (cardinality(recipients) BETWEEN 1 AND 20),
+  cron_expression text NOT NULL,
+  next_run_at timestamptz,
+  is_active boolean NOT NULL DEFAULT true,
+  -- Set while the edge function is sending; a claim older than 15 minutes is taken over
+  claimed_at timestamptz,
+  last_run_at timestamptz,
+  last_status text CHECK (last_status IN ('sent', 'partial', 'failed', 'skipped')),
+  last_error text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_subscriptions_due ON public.report_subscriptions(next_run_at) WHERE is_active;
+CREATE INDEX IF NOT EXISTS idx_report_subscriptions_org ON public.report_subscriptions(org_id);
+
+ALTER TABLE public.report_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can manage report_subscriptions"
+  ON public.report_subscriptions FOR ALL
+  USING (org_id = get_user_org_id(auth.uid()) AND has_min_org_role(auth.uid(), 'manager'::app_role))
+  WITH CHECK (org_id = get_user_org_id(auth.uid()) AND has_min_org_role(auth.uid(), 'manager'::app_role));
+
+CREATE TRIGGER update_report_subscriptions_updated_at
+  BEFORE UPDATE ON public.report_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. RUNS
+CREATE TABLE IF NOT EXISTS public.report_subscription_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  subscription_id uuid NOT NULL REFERENCES public.report_subscriptions(id) ON DELETE CASCADE,
+  -- Subscription owner at the time of the run; the rate limits are counted per sender
+  sender_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  status text NOT NULL CHECK (status IN ('sent', 'partial', 'failed', 'skipped')),
+  recipient_count integer NOT NULL DEFAULT 0,
+  sent_count integer NOT NULL DEFAULT 0,
+  -- Path in the Reports bucket, gone after 24h
+  file_path text,
+  error text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_subscription_runs_subscription ON public.report_subscription_runs(subscription_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_report_subscription_runs_sender ON public.report_subscription_runs(sender_id, created_at DESC);
+
+ALTER TABLE public.report_subscription_runs ENABLE ROW LEVEL SECURITY;
+
+-- Written by the edge function only
+CREATE POLICY "Managers can view report_subscription_runs"
+  ON public.report_subscription_runs FOR SELECT
+  USING (org_id = get_user_org_id(auth.uid()) AND has_min_org_role(auth.uid(), 'manager'::app_role));
+
+-- 3. DELIVERY
+-- Claims due subscriptions for the edge function
+CREATE OR REPLACE FUNCTION public.claim_due_report_subscriptions(_limit integer DEFAULT 10)
+RETURNS SETOF public.report_subscriptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT s.id
+    FROM public.report_subscriptions s
+    WHERE s.is_active
+      AND s.next_run_at <= now()
+      AND (s.claimed_at IS NULL OR s.claimed_at < now() - interval '15 minutes')
+    ORDER BY s.next_run_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE public.report_subscriptions s
+  SET claimed_at = now()
+  FROM due
+  WHERE s.id = due.id
+  RETURNING s.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_due_report_subscriptions(integer) FROM PUBLIC, anon, authenticated;
+
+-- REALTIME
+ALTER PUBLICATION supabase_realtime ADD TABLE public.report_subscriptions;
+
+-- SCHEDULED DELIVERY AND RETENTION
+-- Runs every 5 minutes; replace YOUR_CRON_SECRET with the CRON_SECRET set on the edge function
+SELECT cron.schedule(
+  'send-scheduled-reports',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://bccdcbzdrwlmzholhdth.supabase.co/functions/v1/send-scheduled-reports',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer YOUR_CRON_SECRET'
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 240000
+  ) as request_id;
+  $$
+);
+
+SELECT cron.schedule(
+  'report-subscription-runs-retention',
+  '55 3 * * *',
+  $$ DELETE FROM public.report_subscription_runs WHERE created_at < now() - interval '90 days'; $$
+);
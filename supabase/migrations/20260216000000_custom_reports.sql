@@ -0,0 +1,36 @@
+-- Custom reports: report definitions built on the Reports page and shared with the org.
+--
+-- 1. custom_reports: a name, a description and the definition (entity, columns, filters, grouping,
+--    aggregations, sort and chart; see CustomReportDefinition in src/lib/customReports.ts). The
+--    definition runs in the browser over the report data the viewer may see, so everyone in the org
+--    can open and export a saved report; managers create, edit and delete them.
+
+-- 1. CUSTOM REPORTS
+CREATE TABLE IF NOT EXISTS public.custom_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  description text,
+  definition jsonb NOT NULL CHECK (jsonb_typeof(definition) = 'object' AND definition ? 'entity'),
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (org_id, name)
+);
+
+ALTER TABLE public.custom_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view custom_reports"
+  ON public.custom_reports FOR SELECT
+  USING (org_id = get_user_org_id(auth.uid()));
+
+CREATE POLICY "Managers can manage custom_reports"
+  ON public.custom_reports FOR ALL
+  USING (org_id = get_user_org_id(auth.uid()) AND has_min_org_role(auth.uid(), 'manager'::app_role))
+  WITH CHECK (org_id = get_user_org_id(auth.uid()) AND has_min_org_role(auth.uid(), 'manager'::app_role));
+
+CREATE TRIGGER update_custom_reports_updated_at
+  BEFORE UPDATE ON public.custom_reports
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.custom_reports;
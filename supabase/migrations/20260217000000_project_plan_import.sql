@@ -0,0 +1,180 @@
+-- Excel and MS Project interchange: scheduled reports can be sent as Excel workbooks, and a project
+-- plan read from an MS Project XML file is applied by import_project_plan in one transaction. The
+-- plan is built in the browser (src/lib/msProject.ts): its tasks and milestones carry the file's task
+-- UIDs as keys and our ids where the file came from us, so re-importing an export updates the same rows.
+
+-- 1. EXCEL REPORTS
+ALTER TABLE public.report_subscriptions DROP CONSTRAINT IF EXISTS report_subscriptions_format_check;
+ALTER TABLE public.report_subscriptions
+  ADD CONSTRAINT report_subscriptions_format_check CHECK (format IN ('pdf', 'csv', 'xlsx'));
+
+-- 2. PROJECT PLAN IMPORT
+-- _plan: { milestones: [{key, id, title, description, due_date}],
+--          tasks: [{key, id, title, description, status, priority, start_date, due_date, estimated_hours,
+--                   assignee_id, milestone_key}],
+--          dependencies: [{predecessor, successor, link_type, lag_days}],   -- task keys
+--          baselines: [{name, items: [{key, start_date, due_date, estimated_hours}]}] }
+-- The file's links replace the project's 'blocks' dependencies; 'relates_to' links are kept.
+-- SECURITY DEFINER because baselines are only written server-side (see create_schedule_baseline).
+CREATE OR REPLACE FUNCTION public.import_project_plan(_project_id uuid, _plan jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _org_id uuid := get_user_org_id(auth.uid());
+  _project public.projects%ROWTYPE;
+  _item jsonb;
+  _baseline jsonb;
+  _id uuid;
+  _baseline_id uuid;
+  _keys jsonb := '{}'::jsonb;
+  _milestone_keys jsonb := '{}'::jsonb;
+  _links jsonb := '{}'::jsonb;
+  _link text;
+  _position integer;
+  _tasks_created integer := 0;
+  _tasks_updated integer := 0;
+  _milestones_created integer := 0;
+  _milestones_updated integer := 0;
+  _dependencies integer := 0;
+  _baselines integer := 0;
+BEGIN
+  IF _org_id IS NULL OR NOT has_min_org_role(auth.uid(), 'manager'::app_role) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  SELECT * INTO _project FROM public.projects WHERE id = _project_id AND org_id = _org_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'project_not_found';
+  END IF;
+
+  -- Milestones
+  FOR _item IN SELECT * FROM jsonb_array_elements(coalesce(_plan->'milestones', '[]'::jsonb)) LOOP
+    _id := NULL;
+    IF _item->>'id' IS NOT NULL THEN
+      UPDATE public.milestones
+      SET title = _item->>'title',
+          description = _item->>'description',
+          due_date = (_item->>'due_date')::date
+      WHERE id = (_item->>'id')::uuid AND project_id = _project_id
+      RETURNING id INTO _id;
+      IF _id IS NOT NULL THEN
+        _milestones_updated := _milestones_updated + 1;
+      END IF;
+    END IF;
+    IF _id IS NULL THEN
+      INSERT INTO public.milestones (org_id, program_id, project_id, title, description, due_date)
+      VALUES (_org_id, _project.program_id, _project_id, _item->>'title', _item->>'description', (_item->>'due_date')::date)
+      RETURNING id INTO _id;
+      _milestones_created := _milestones_created + 1;
+    END IF;
+    _milestone_keys := _milestone_keys || jsonb_build_object(_item->>'key', _id);
+  END LOOP;
+
+  -- Tasks; assignees must be team members of the org
+  SELECT coalesce(max(position), -1) INTO _position FROM public.tasks WHERE project_id = _project_id;
+  FOR _item IN SELECT * FROM jsonb_array_elements(coalesce(_plan->'tasks', '[]'::jsonb)) LOOP
+    IF _item->>'assignee_id' IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.team_members WHERE id = (_item->>'assignee_id')::uuid AND org_id = _org_id
+    ) THEN
+      RAISE EXCEPTION 'assignee_not_found';
+    END IF;
+
+    _id := NULL;
+    IF _item->>'id' IS NOT NULL THEN
+      UPDATE public.tasks t
+      SET title = v.title, description = v.description, status = v.status, priority = v.priority,
+          start_date = v.start_date, due_date = v.due_date, estimated_hours = v.estimated_hours,
+          assignee_id = v.assignee_id, milestone_id = v.milestone_id
+      FROM (SELECT
+          _item->>'title' AS title,
+          _item->>'description' AS description,
+          _item->>'status' AS status,
+          _item->>'priority' AS priority,
+          (_item->>'start_date')::date AS start_date,
+          (_item->>'due_date')::date AS due_date,
+          coalesce((_item->>'estimated_hours')::numeric, 0) AS estimated_hours,
+          (_item->>'assignee_id')::uuid AS assignee_id,
+          (_milestone_keys->>(_item->>'milestone_key'))::uuid AS milestone_id) v
+      WHERE t.id = (_item->>'id')::uuid AND t.project_id = _project_id AND t.archived_at IS NULL
+      RETURNING t.id INTO _id;
+      IF _id IS NOT NULL THEN
+        _tasks_updated := _tasks_updated + 1;
+      END IF;
+    END IF;
+    IF _id IS NULL THEN
+      _position := _position + 1;
+      INSERT INTO public.tasks (org_id, project_id, title, description, status, priority, start_date, due_date,
+        estimated_hours, assignee_id, milestone_id, position)
+      VALUES (_org_id, _project_id, _item->>'title', _item->>'description', _item->>'status', _item->>'priority',
+        (_item->>'start_date')::date, (_item->>'due_date')::date, coalesce((_item->>'estimated_hours')::numeric, 0),
+        (_item->>'assignee_id')::uuid, (_milestone_keys->>(_item->>'milestone_key'))::uuid, _position)
+      RETURNING id INTO _id;
+      _tasks_created := _tasks_created + 1;
+    END IF;
+    _keys := _keys || jsonb_build_object(_item->>'key', _id);
+  END LOOP;
+
+  -- Dependencies: the file's links replace the scheduling links among the project's tasks
+  DELETE FROM public.task_dependencies d
+  USING public.tasks t
+  WHERE d.predecessor_task_id = t.id AND t.project_id = _project_id AND d.type = 'blocks';
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(coalesce(_plan->'dependencies', '[]'::jsonb)) LOOP
+    IF _keys->>(_item->>'predecessor') IS NULL OR _keys->>(_item->>'successor') IS NULL THEN
+      RAISE EXCEPTION 'invalid_dependency';
+    END IF;
+    -- A link repeated in the file keeps its first copy, as in the preview, and is counted once
+    _link := (_keys->>(_item->>'predecessor')) || ':' || (_keys->>(_item->>'successor'));
+    CONTINUE WHEN _links ? _link;
+    _links := _links || jsonb_build_object(_link, true);
+    INSERT INTO public.task_dependencies (org_id, predecessor_task_id, successor_task_id, type, link_type, lag_days)
+    VALUES (_org_id, (_keys->>(_item->>'predecessor'))::uuid, (_keys->>(_item->>'successor'))::uuid, 'blocks',
+      coalesce(_item->>'link_type', 'FS'), coalesce((_item->>'lag_days')::integer, 0))
+    ON CONFLICT (predecessor_task_id, successor_task_id)
+    DO UPDATE SET type = 'blocks', link_type = EXCLUDED.link_type, lag_days = EXCLUDED.lag_days;
+    _dependencies := _dependencies + 1;
+  END LOOP;
+
+  -- Baselines from the file, shaped like create_schedule_baseline's snapshots
+  FOR _baseline IN SELECT * FROM jsonb_array_elements(coalesce(_plan->'baselines', '[]'::jsonb)) LOOP
+    INSERT INTO public.schedule_baselines (org_id, scope_type, scope_id, name)
+    VALUES (_org_id, 'project', _project_id, trim(_baseline->>'name'))
+    RETURNING id INTO _baseline_id;
+
+    INSERT INTO public.schedule_baseline_items (baseline_id, org_id, item_type, item_id, parent_id, name, start_date, due_date, estimated_hours)
+    SELECT _baseline_id, _org_id, 'task', t.id, _project_id, t.title, (i->>'start_date')::date, (i->>'due_date')::date,
+      (i->>'estimated_hours')::numeric
+    FROM jsonb_array_elements(_baseline->'items') i
+    JOIN public.tasks t ON t.id = (_keys->>(i->>'key'))::uuid;
+
+    INSERT INTO public.schedule_baseline_items (baseline_id, org_id, item_type, item_id, parent_id, name, due_date)
+    SELECT _baseline_id, _org_id, 'milestone', m.id, _project_id, m.title, (i->>'due_date')::date
+    FROM jsonb_array_elements(_baseline->'items') i
+    JOIN public.milestones m ON m.id = (_milestone_keys->>(i->>'key'))::uuid
+    WHERE i->>'due_date' IS NOT NULL;
+
+    INSERT INTO public.schedule_baseline_items (baseline_id, org_id, item_type, item_id, parent_id, name, start_date, due_date, estimated_hours, budget)
+    SELECT _baseline_id, _org_id, 'project', _project_id, _project.program_id, _project.name,
+      coalesce(min(b.start_date), _project.start_date), coalesce(max(b.due_date), _project.end_date),
+      sum(b.estimated_hours), coalesce(_project.allocated_budget, _project.budget)
+    FROM public.schedule_baseline_items b
+    WHERE b.baseline_id = _baseline_id;
+
+    _baselines := _baselines + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'tasks_created', _tasks_created,
+    'tasks_updated', _tasks_updated,
+    'milestones_created', _milestones_created,
+    'milestones_updated', _milestones_updated,
+    'dependencies', _dependencies,
+    'baselines', _baselines
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.import_project_plan(uuid, jsonb) TO authenticated;
@@ -0,0 +1,152 @@
+-- Work import: projects and tasks from CSV / Excel, Jira, Asana and Trello exports, created in one
+-- transaction by import_work_items. The plan is built and previewed in the browser
+-- (src/lib/workImport.ts), which maps source statuses onto the projects' custom_task_statuses,
+-- assignees onto team members and links onto task dependencies; rows with errors never reach it.
+
+-- 1. IMPORT
+-- _plan: { program: {id, name, portfolio_id, portfolio_name},   -- existing program, or a new one
+--          members: [{key, name, email}],                          -- team members to create
+--          projects: [{key, id, name, custom_task_statuses}],      -- id null = create
+--          tasks: [{key, project_key, title, description, status, priority, start_date, due_date,
+--                   estimated_hours, assignee_id, assignee_key, subtasks: [{title, completed}]}],
+--          dependencies: [{predecessor, successor, type}] }        -- task keys
+-- Runs as the caller: every row is written under the usual manager policies.
+CREATE OR REPLACE FUNCTION public.import_work_items(_plan jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _org_id uuid := get_user_org_id(auth.uid());
+  _program_id uuid := (_plan->'program'->>'id')::uuid;
+  _portfolio_id uuid := (_plan->'program'->>'portfolio_id')::uuid;
+  _item jsonb;
+  _subtask jsonb;
+  _id uuid;
+  _contact_id uuid;
+  _members jsonb := '{}'::jsonb;
+  _projects jsonb := '{}'::jsonb;
+  _keys jsonb := '{}'::jsonb;
+  _positions jsonb := '{}'::jsonb;
+  _position integer;
+  _inserted integer;
+  _projects_created integer := 0;
+  _members_created integer := 0;
+  _tasks integer := 0;
+  _subtasks integer := 0;
+  _dependencies integer := 0;
+BEGIN
+  IF _org_id IS NULL OR NOT has_min_org_role(auth.uid(), 'manager'::app_role) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  -- Program, in a new portfolio if asked
+  IF _program_id IS NOT NULL THEN
+    IF NOT EXISTS (SELECT 1 FROM public.programs WHERE id = _program_id AND org_id = _org_id) THEN
+      RAISE EXCEPTION 'program_not_found';
+    END IF;
+  ELSE
+    IF _portfolio_id IS NULL THEN
+      INSERT INTO public.portfolios (org_id, name)
+      VALUES (_org_id, trim(_plan->'program'->>'portfolio_name'))
+      RETURNING id INTO _portfolio_id;
+    ELSIF NOT EXISTS (SELECT 1 FROM public.portfolios WHERE id = _portfolio_id AND org_id = _org_id) THEN
+      RAISE EXCEPTION 'portfolio_not_found';
+    END IF;
+    INSERT INTO public.programs (org_id, portfolio_id, name)
+    VALUES (_org_id, _portfolio_id, trim(_plan->'program'->>'name'))
+    RETURNING id INTO _program_id;
+  END IF;
+
+  -- Team members, each with a contact
+  FOR _item IN SELECT * FROM jsonb_array_elements(coalesce(_plan->'members', '[]'::jsonb)) LOOP
+    INSERT INTO public.contacts (org_id, name, email)
+    VALUES (_org_id, trim(_item->>'name'), nullif(trim(_item->>'email'), ''))
+    RETURNING id INTO _contact_id;
+    INSERT INTO public.team_members (org_id, contact_id)
+    VALUES (_org_id, _contact_id)
+    RETURNING id INTO _id;
+    _members := _members || jsonb_build_object(_item->>'key', _id);
+    _members_created := _members_created + 1;
+  END LOOP;
+
+  -- Projects, with the statuses the imported tasks need
+  FOR _item IN SELECT * FROM jsonb_array_elements(coalesce(_plan->'projects', '[]'::jsonb)) LOOP
+    IF _item->>'id' IS NOT NULL THEN
+      UPDATE public.projects
+      SET custom_task_statuses = coalesce(_item->'custom_task_statuses', custom_task_statuses)
+      WHERE id = (_item->>'id')::uuid AND program_id = _program_id AND org_id = _org_id
+      RETURNING id INTO _id;
+      IF _id IS NULL THEN
+        RAISE EXCEPTION 'project_not_found';
+      END IF;
+    ELSE
+      INSERT INTO public.projects (org_id, program_id, name, custom_task_statuses)
+      VALUES (_org_id, _program_id, trim(_item->>'name'), _item->'custom_task_statuses')
+      RETURNING id INTO _id;
+      _projects_created := _projects_created + 1;
+    END IF;
+    SELECT coalesce(max(position), -1) INTO _position FROM public.tasks WHERE project_id = _id;
+    _projects := _projects || jsonb_build_object(_item->>'key', _id);
+    _positions := _positions || jsonb_build_object(_item->>'key', _position);
+  END LOOP;
+
+  -- Tasks and their subtasks, after the project's existing tasks
+  FOR _item IN SELECT * FROM jsonb_array_elements(coalesce(_plan->'tasks', '[]'::jsonb)) LOOP
+    IF _projects->>(_item->>'project_key') IS NULL THEN
+      RAISE EXCEPTION 'invalid_project_key';
+    END IF;
+    IF _item->>'assignee_id' IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.team_members WHERE id = (_item->>'assignee_id')::uuid AND org_id = _org_id
+    ) THEN
+      RAISE EXCEPTION 'assignee_not_found';
+    END IF;
+
+    _position := (_positions->>(_item->>'project_key'))::integer + 1;
+    _positions := _positions || jsonb_build_object(_item->>'project_key', _position);
+
+    INSERT INTO public.tasks (org_id, project_id, title, description, status, priority, start_date, due_date,
+      estimated_hours, assignee_id, position)
+    VALUES (_org_id, (_projects->>(_item->>'project_key'))::uuid, _item->>'title', _item->>'description',
+      _item->>'status', _item->>'priority', (_item->>'start_date')::date, (_item->>'due_date')::date,
+      coalesce((_item->>'estimated_hours')::numeric, 0),
+      coalesce((_item->>'assignee_id')::uuid, (_members->>(_item->>'assignee_key'))::uuid), _position)
+    RETURNING id INTO _id;
+    _keys := _keys || jsonb_build_object(_item->>'key', _id);
+    _tasks := _tasks + 1;
+
+    _position := 0;
+    FOR _subtask IN SELECT * FROM jsonb_array_elements(coalesce(_item->'subtasks', '[]'::jsonb)) LOOP
+      INSERT INTO public.subtasks (org_id, task_id, title, completed, position)
+      VALUES (_org_id, _id, _subtask->>'title', coalesce((_subtask->>'completed')::boolean, false), _position);
+      _position := _position + 1;
+      _subtasks := _subtasks + 1;
+    END LOOP;
+  END LOOP;
+
+  -- Dependencies between imported tasks
+  FOR _item IN SELECT * FROM jsonb_array_elements(coalesce(_plan->'dependencies', '[]'::jsonb)) LOOP
+    IF _keys->>(_item->>'predecessor') IS NULL OR _keys->>(_item->>'successor') IS NULL THEN
+      RAISE EXCEPTION 'invalid_dependency';
+    END IF;
+    INSERT INTO public.task_dependencies (org_id, predecessor_task_id, successor_task_id, type)
+    VALUES (_org_id, (_keys->>(_item->>'predecessor'))::uuid, (_keys->>(_item->>'successor'))::uuid, _item->>'type')
+    ON CONFLICT (predecessor_task_id, successor_task_id) DO NOTHING;
+    -- Duplicate links in the file are skipped, not counted
+    GET DIAGNOSTICS _inserted = ROW_COUNT;
+    _dependencies := _dependencies + _inserted;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'program_id', _program_id,
+    'projects_created', _projects_created,
+    'members_created', _members_created,
+    'tasks', _tasks,
+    'subtasks', _subtasks,
+    'dependencies', _dependencies
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.import_work_items(jsonb) TO authenticated;